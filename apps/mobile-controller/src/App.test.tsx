@@ -1,12 +1,118 @@
-import { render, screen } from '@testing-library/react'
+import { act, fireEvent, render, screen } from '@testing-library/react'
 import App from './App'
 
+class FakeWebSocket {
+  static instances: FakeWebSocket[] = []
+  private listeners = new Map<string, Array<(event: any) => void>>()
+
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this)
+  }
+
+  addEventListener(type: string, listener: (event: any) => void) {
+    this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener])
+  }
+
+  close() {}
+
+  emit(type: string, event: any = {}) {
+    this.listeners.get(type)?.forEach(listener => listener(event))
+  }
+}
+
+function queueItem(id: string, title: string, userId: string, nickname: string) {
+  return {
+    id,
+    track: { id: `track-${id}`, title, artist: 'Artist', source: 'youtube', sourceId: id, duration: 180 },
+    addedBy: { id: userId, nickname },
+    addedAt: new Date().toISOString(),
+  }
+}
+
 describe('App', () => {
+  const originalWebSocket = global.WebSocket
+
+  beforeEach(() => {
+    window.localStorage.clear()
+    FakeWebSocket.instances = []
+    ;(global as any).WebSocket = FakeWebSocket
+    global.fetch = jest.fn().mockResolvedValue({
+      json: async () => ({
+        success: true,
+        data: { canAddTrack: false, remainingRequests: 0, timeUntilReset: 90000, maxRequests: 5, windowMinutes: 10 },
+        timestamp: new Date().toISOString(),
+      }),
+    })
+  })
+
+  afterEach(() => {
+    global.WebSocket = originalWebSocket
+  })
+
   it('renders the mobile controller interface', () => {
     render(<App />)
     
     expect(screen.getByText('Party Jukebox')).toBeInTheDocument()
     expect(screen.getByText('Mobile Controller')).toBeInTheDocument()
-    expect(screen.getByText(/Welcome to the Party Jukebox Mobile Controller/)).toBeInTheDocument()
   })
-})
\ No newline at end of file
+
+  it('asks for a nickname before searching', () => {
+    render(<App />)
+
+    expect(screen.getByRole('heading', { name: 'Join the party' })).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Join' })).toBeDisabled()
+  })
+
+  it('shows the live queue with the guest\'s own requests once joined', async () => {
+    window.localStorage.setItem('party-jukebox:session', JSON.stringify({
+      deviceId: 'user-1',
+      sessionToken: 'user-1.signature',
+      nickname: 'Alice',
+      createdAt: new Date().toISOString(),
+      lastActive: new Date().toISOString(),
+      preferences: { autoRefresh: true, showNotifications: true },
+    }))
+
+    render(<App />)
+
+    expect(screen.getByText('Hi, Alice')).toBeInTheDocument()
+    expect(screen.getByRole('searchbox', { name: 'Search for a song' })).toBeInTheDocument()
+    expect(await screen.findByText(/Next request available in/)).toBeInTheDocument()
+
+    const socket = FakeWebSocket.instances[0]
+    expect(new URL(socket.url).searchParams.get('clientType')).toBe('controller')
+
+    act(() => {
+      socket.emit('open')
+      socket.emit('message', {
+        data: JSON.stringify({
+          type: 'initial_state',
+          timestamp: new Date().toISOString(),
+          sequenceNumber: 1,
+          data: {
+            queue: {
+              currentTrack: null,
+              upcomingTracks: [queueItem('a', 'Their Song', 'user-2', 'Bob'), queueItem('b', 'My Song', 'user-1', 'Alice')],
+              totalLength: 2,
+              isEmpty: false,
+              orderingMode: 'fifo',
+              scores: {},
+            },
+            playback: { status: 'idle', currentTrack: null, position: 0, duration: 0, volume: 80 },
+            serverTime: new Date().toISOString(),
+          },
+        }),
+      })
+    })
+
+    // Adding a track changes the guest's standing, so the limits are fetched again
+    await act(async () => {})
+    expect(global.fetch).toHaveBeenCalledTimes(2)
+
+    fireEvent.click(screen.getByRole('tab', { name: 'Queue (1 mine)' }))
+
+    expect(screen.getByRole('list', { name: 'My requests' })).toHaveTextContent('#2My Song')
+    expect(screen.getByRole('listitem', { name: /Position 2: My Song by Artist, your request/ })).toHaveClass('queue-item-mine')
+    expect(screen.getByRole('listitem', { name: /Position 1: Their Song by Artist, added by Bob/ })).not.toHaveClass('queue-item-mine')
+  })
+})
@@ -1,18 +1,109 @@
+import { useState } from 'react'
+import { SessionProvider, useSession } from './contexts/SessionContext'
+import { LiveQueueProvider, useLiveQueue } from './contexts/LiveQueueContext'
+import { NicknameOnboarding } from './components/NicknameOnboarding'
+import { SearchView } from './components/SearchView'
+import { QueueView } from './components/QueueView'
+import { RateLimitCountdown } from './components/RateLimitCountdown'
+import { APIService } from './services/APIService'
+import { StorageService } from './services/StorageService'
+import { WebSocketService, getDefaultWebSocketUrl } from './services/WebSocketService'
+import { getMyContributions } from './services/queueContributions'
 import './App.css'
+import './components/components.css'
+
+type Tab = 'search' | 'queue'
+
+interface ControllerServices {
+  apiService: APIService
+  wsService: WebSocketService
+}
+
+function PartyView({ apiService }: Pick<ControllerServices, 'apiService'>) {
+  const { state: sessionState } = useSession()
+  const { state: queueState } = useLiveQueue()
+  const [tab, setTab] = useState<Tab>('search')
+
+  // Own queued tracks change when the guest adds one, so recheck their limits then
+  const myTrackCount = getMyContributions(queueState, sessionState.session?.deviceId ?? '').length
+
+  return (
+    <>
+      <RateLimitCountdown apiService={apiService} refreshKey={myTrackCount} />
+
+      <nav className="tab-bar" role="tablist" aria-label="Controller views">
+        <button
+          type="button"
+          role="tab"
+          className="tab-button"
+          aria-selected={tab === 'search'}
+          onClick={() => setTab('search')}
+        >
+          Search
+        </button>
+        <button
+          type="button"
+          role="tab"
+          className="tab-button"
+          aria-selected={tab === 'queue'}
+          onClick={() => setTab('queue')}
+        >
+          Queue{myTrackCount > 0 ? ` (${myTrackCount} mine)` : ''}
+        </button>
+      </nav>
+
+      {/* Both views stay mounted so switching tabs keeps the search results */}
+      <div role="tabpanel" hidden={tab !== 'search'} className="tab-panel">
+        <SearchView apiService={apiService} />
+      </div>
+      <div role="tabpanel" hidden={tab !== 'queue'} className="tab-panel">
+        <QueueView />
+      </div>
+    </>
+  )
+}
+
+function ControllerApp({ apiService, wsService }: ControllerServices) {
+  const { state, actions } = useSession()
 
-function App() {
   return (
     <div className="app">
       <header className="app-header">
         <h1>Party Jukebox</h1>
         <p>Mobile Controller</p>
+        {state.session && (
+          <div className="session-info">
+            <span>Hi, {state.session.nickname}</span>
+            <button type="button" className="link-button" onClick={actions.leave}>
+              Change nickname
+            </button>
+          </div>
+        )}
       </header>
       <main className="app-main">
-        <p>Welcome to the Party Jukebox Mobile Controller!</p>
-        <p>This interface will allow you to search for music and add tracks to the queue.</p>
+        {state.session ? (
+          <LiveQueueProvider wsService={wsService} sessionToken={state.session.sessionToken}>
+            <PartyView apiService={apiService} />
+          </LiveQueueProvider>
+        ) : (
+          <NicknameOnboarding />
+        )}
       </main>
     </div>
   )
 }
 
-export default App
\ No newline at end of file
+function App() {
+  // The controller is served by the jukebox itself, so the API lives on the same origin
+  const [apiService] = useState(() => new APIService({ baseUrl: window.location.origin }))
+  const [wsService] = useState(() => new WebSocketService({ url: getDefaultWebSocketUrl() }))
+  const [storageService] = useState(() => new StorageService())
+
+  return (
+    <SessionProvider apiService={apiService} storageService={storageService}>
+      <ControllerApp apiService={apiService} wsService={wsService} />
+    </SessionProvider>
+  )
+}
+
+export default App
@@ -0,0 +1,56 @@
+import { FormEvent, useState } from 'react';
+import { useSession } from '../contexts/SessionContext';
+
+const MAX_NICKNAME_LENGTH = 30;
+
+export function NicknameOnboarding() {
+  const { state, actions } = useSession();
+  const [nickname, setNickname] = useState('');
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    await actions.join(nickname);
+  };
+
+  return (
+    <section
+      className="nickname-onboarding"
+      role="region"
+      aria-label="Join the party"
+    >
+      <h2>Join the party</h2>
+      <p className="onboarding-hint">Pick a nickname so everyone knows who queued what.</p>
+
+      <form className="nickname-form" onSubmit={handleSubmit}>
+        <label htmlFor="nickname-input" className="sr-only">Nickname</label>
+        <input
+          id="nickname-input"
+          className="nickname-input"
+          type="text"
+          value={nickname}
+          onChange={event => setNickname(event.target.value)}
+          placeholder="Your nickname"
+          maxLength={MAX_NICKNAME_LENGTH}
+          autoComplete="nickname"
+          autoFocus
+          disabled={state.isJoining}
+          aria-invalid={state.error ? true : undefined}
+          aria-describedby={state.error ? 'nickname-error' : undefined}
+        />
+        <button
+          type="submit"
+          className="primary-button"
+          disabled={state.isJoining || !nickname.trim()}
+        >
+          {state.isJoining ? 'Joining...' : 'Join'}
+        </button>
+      </form>
+
+      {state.error && (
+        <p id="nickname-error" className="form-error" role="alert">
+          {state.error}
+        </p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,219 @@
+import { useEffect, useState } from 'react';
+import type { QueueItem } from '@party-jukebox/shared';
+import type { QueueContribution } from '../types';
+import { useLiveQueue } from '../contexts/LiveQueueContext';
+import { useSession } from '../contexts/SessionContext';
+import { getMyContributions, getRemainingSeconds } from '../services/queueContributions';
+
+const TICK_INTERVAL_MS = 1000;
+
+export function QueueView() {
+  const { state } = useLiveQueue();
+  const { state: sessionState } = useSession();
+  const now = useNow(state.playback?.status === 'playing' ? TICK_INTERVAL_MS : null);
+
+  const userId = sessionState.session?.deviceId ?? '';
+  const contributions = userId ? getMyContributions(state, userId, now) : [];
+
+  if (!state.hasReceivedState) {
+    return (
+      <section className="queue-view" role="region" aria-label="Live queue">
+        <p className="queue-loading" aria-live="polite">
+          {state.connectionStatus === 'reconnecting' || state.connectionStatus === 'error'
+            ? 'Reconnecting to the jukebox...'
+            : 'Connecting to the jukebox...'}
+        </p>
+      </section>
+    );
+  }
+
+  return (
+    <section className="queue-view" role="region" aria-label="Live queue">
+      {state.connectionStatus !== 'connected' && (
+        <p className="connection-banner" role="status">
+          Connection lost, reconnecting... The queue may be out of date.
+        </p>
+      )}
+
+      <NowPlaying
+        currentTrack={state.currentTrack}
+        isMine={!!state.currentTrack && state.currentTrack.addedBy.id === userId}
+        isPaused={state.playback?.status === 'paused'}
+        remainingSeconds={getRemainingSeconds(state, now)}
+        duration={(state.playback?.currentTrack?.id === state.currentTrack?.id && state.playback?.duration) || state.currentTrack?.track.duration || 0}
+      />
+
+      <MyRequests contributions={contributions} />
+
+      <UpNext items={state.upcomingTracks} userId={userId} />
+    </section>
+  );
+}
+
+interface NowPlayingProps {
+  currentTrack: QueueItem | null;
+  isMine: boolean;
+  isPaused: boolean;
+  remainingSeconds: number | null;
+  duration: number;
+}
+
+function NowPlaying({ currentTrack, isMine, isPaused, remainingSeconds, duration }: NowPlayingProps) {
+  if (!currentTrack) {
+    return (
+      <div className="now-playing now-playing-idle">
+        <h2>Nothing playing</h2>
+        <p>Search for a song to get the party started</p>
+      </div>
+    );
+  }
+
+  const { track } = currentTrack;
+  const position = duration && remainingSeconds !== null ? duration - remainingSeconds : 0;
+  const progress = duration > 0 ? Math.min(100, (position / duration) * 100) : 0;
+
+  return (
+    <div
+      className={`now-playing ${isMine ? 'queue-item-mine' : ''}`}
+      aria-label={`Now playing: ${track.title} by ${track.artist}`}
+    >
+      <h2>{isPaused ? 'Paused' : 'Now Playing'}</h2>
+      <div className="now-playing-track">
+        {track.thumbnailUrl && <img src={track.thumbnailUrl} alt="" className="now-playing-thumbnail" />}
+        <div className="now-playing-info">
+          <div className="now-playing-title">{track.title}</div>
+          <div className="now-playing-artist">{track.artist}</div>
+          <div className="now-playing-added-by">
+            {isMine ? 'Your request' : `Added by ${currentTrack.addedBy.nickname}`}
+          </div>
+        </div>
+      </div>
+      {duration > 0 && (
+        <div className="now-playing-progress">
+          <div
+            className="progress-bar"
+            role="progressbar"
+            aria-label="Track progress"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(progress)}
+          >
+            <div className="progress-fill" style={{ width: `${progress}%` }} />
+          </div>
+          <div className="progress-times">
+            <span>{formatDuration(position)}</span>
+            <span>{formatDuration(duration)}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface MyRequestsProps {
+  contributions: QueueContribution[];
+}
+
+function MyRequests({ contributions }: MyRequestsProps) {
+  return (
+    <div className="my-requests">
+      <h2>My Requests</h2>
+      {contributions.length === 0 ? (
+        <p className="empty-message">You have no tracks in the queue</p>
+      ) : (
+        <ul aria-label="My requests">
+          {contributions.map(contribution => (
+            <li key={contribution.queueItemId} className="my-request">
+              <span className="my-request-position" aria-label={contribution.status === 'playing' ? 'Playing' : `Position ${contribution.position}`}>
+                {contribution.status === 'playing' ? '▶' : `#${contribution.position}`}
+              </span>
+              <span className="my-request-info">
+                <span className="my-request-title">{contribution.title}</span>
+                <span className="my-request-artist">{contribution.artist}</span>
+              </span>
+              <span className="my-request-eta">{describeEta(contribution)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+interface UpNextProps {
+  items: QueueItem[];
+  userId: string;
+}
+
+function UpNext({ items, userId }: UpNextProps) {
+  return (
+    <div className="up-next">
+      <h2>Up Next</h2>
+      {items.length === 0 ? (
+        <p className="empty-message">The queue is empty</p>
+      ) : (
+        <ol aria-label="Upcoming tracks">
+          {items.map((item, index) => {
+            const isMine = item.addedBy.id === userId;
+            return (
+              <li
+                key={item.id}
+                className={`queue-item ${isMine ? 'queue-item-mine' : ''}`}
+                aria-label={`Position ${index + 1}: ${item.track.title} by ${item.track.artist}, ${isMine ? 'your request' : `added by ${item.addedBy.nickname}`}`}
+              >
+                <span className="queue-position">{index + 1}</span>
+                <span className="queue-track-info">
+                  <span className="queue-track-title">{item.track.title}</span>
+                  <span className="queue-track-artist">{item.track.artist}</span>
+                </span>
+                <span className="queue-added-by">{isMine ? 'You' : item.addedBy.nickname}</span>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Current time, refreshed every `intervalMs` (or frozen when null)
+ */
+function useNow(intervalMs: number | null): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    setNow(Date.now());
+    if (intervalMs === null) {
+      return;
+    }
+
+    const intervalId = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(intervalId);
+  }, [intervalMs]);
+
+  return now;
+}
+
+function describeEta(contribution: QueueContribution): string {
+  if (contribution.status === 'playing') {
+    return 'Playing now';
+  }
+  if (contribution.estimatedStartIn === null) {
+    return 'Time unknown';
+  }
+
+  const minutes = Math.round(contribution.estimatedStartIn / 60000);
+  if (minutes < 1) {
+    return 'Starting soon';
+  }
+  const playAt = new Date(Date.now() + contribution.estimatedStartIn);
+  const clock = playAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return `in ~${minutes} min (${clock})`;
+}
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const remainingSeconds = Math.floor(seconds % 60);
+  return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+}
@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { RateLimitInfo } from '../types';
+import type { APIService } from '../services/APIService';
+
+interface RateLimitCountdownProps {
+  apiService: APIService;
+  refreshKey?: unknown; // Refetch the limits whenever this changes, e.g. after the guest adds a track
+}
+
+export function RateLimitCountdown({ apiService, refreshKey }: RateLimitCountdownProps) {
+  const [limits, setLimits] = useState<RateLimitInfo | null>(null);
+  const [resetAt, setResetAt] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+
+  const refresh = useCallback(async () => {
+    const response = await apiService.getMyLimits();
+    if (response.success && response.data) {
+      setLimits(response.data);
+      setResetAt(Date.now() + response.data.timeUntilReset);
+      setNow(Date.now());
+    }
+  }, [apiService]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh, refreshKey]);
+
+  const isCountingDown = !!limits?.isLimited;
+  const msLeft = Math.max(0, resetAt - now);
+
+  // Tick while limited, and check back with the server once the window resets
+  useEffect(() => {
+    if (!isCountingDown) {
+      return;
+    }
+
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, [isCountingDown]);
+
+  useEffect(() => {
+    if (isCountingDown && msLeft === 0) {
+      void refresh();
+    }
+  }, [isCountingDown, msLeft, refresh]);
+
+  if (!limits || limits.remainingRequests === null) {
+    return null;
+  }
+
+  if (limits.isLimited) {
+    return (
+      <div className="rate-limit rate-limit-limited" role="status" aria-live="polite">
+        <span className="sr-only">Request limit reached. </span>
+        Next request available in <strong>{formatCountdown(msLeft)}</strong>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rate-limit" role="status">
+      {limits.remainingRequests} {limits.remainingRequests === 1 ? 'request' : 'requests'} left
+      {limits.maxRequests !== null && ` of ${limits.maxRequests}`}
+    </div>
+  );
+}
+
+function formatCountdown(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import type { SearchResult } from '@party-jukebox/shared';
+import type { APIErrorInfo, APIService } from '../services/APIService';
+import { useSession } from '../contexts/SessionContext';
+
+interface SearchResultCardProps {
+  result: SearchResult;
+  apiService: APIService;
+}
+
+type AddStatus =
+  | { state: 'idle' }
+  | { state: 'adding' }
+  | { state: 'added'; position: number }
+  | { state: 'error'; message: string };
+
+export function SearchResultCard({ result, apiService }: SearchResultCardProps) {
+  const { state: sessionState } = useSession();
+  const [status, setStatus] = useState<AddStatus>({ state: 'idle' });
+  const durationText = result.duration ? formatDuration(result.duration) : '';
+
+  const handleAdd = async () => {
+    if (!sessionState.session) {
+      return;
+    }
+
+    setStatus({ state: 'adding' });
+    const response = await apiService.addToQueue(result, sessionState.session.nickname);
+
+    if (response.success && response.data) {
+      setStatus({ state: 'added', position: response.data.queuePosition });
+    } else {
+      setStatus({ state: 'error', message: describeAddError(response.error) });
+    }
+  };
+
+  return (
+    <li
+      className="search-result-card"
+      aria-label={`${result.title} by ${result.artist}${durationText ? `, duration ${durationText}` : ''}`}
+    >
+      <div className="result-thumbnail">
+        {result.thumbnailUrl ? (
+          <img src={result.thumbnailUrl} alt="" loading="lazy" />
+        ) : (
+          <div className="thumbnail-placeholder" aria-hidden="true">♪</div>
+        )}
+        {durationText && (
+          <span className="result-duration">
+            <span className="sr-only">Duration: </span>
+            {durationText}
+          </span>
+        )}
+      </div>
+
+      <div className="result-info">
+        <div className="result-title">{result.title}</div>
+        <div className="result-artist">{result.artist}</div>
+
+        {status.state === 'added' && (
+          <p className="result-feedback result-feedback-success" role="status">
+            Added at position {status.position}
+          </p>
+        )}
+        {status.state === 'error' && (
+          <p className="result-feedback result-feedback-error" role="alert">
+            {status.message}
+          </p>
+        )}
+      </div>
+
+      <button
+        type="button"
+        className="add-button"
+        onClick={handleAdd}
+        disabled={status.state === 'adding' || status.state === 'added'}
+        aria-label={`Add ${result.title} to queue`}
+      >
+        {status.state === 'adding' ? 'Adding...' : status.state === 'added' ? 'Added' : 'Add'}
+      </button>
+    </li>
+  );
+}
+
+/**
+ * Turn an add-to-queue error into something a guest can act on
+ */
+export function describeAddError(error?: APIErrorInfo): string {
+  if (!error) {
+    return 'Could not add this track';
+  }
+
+  switch (error.code) {
+    case 'RATE_LIMIT_EXCEEDED': {
+      const retryAfter = error.retryAfter ?? error.details?.retryAfter;
+      return typeof retryAfter === 'number' && retryAfter > 0
+        ? `You've hit your request limit. Try again in ${formatWait(retryAfter)}.`
+        : "You've hit your request limit. Try again later.";
+    }
+    case 'NETWORK_ERROR':
+      return 'Could not reach the jukebox. Check your connection and try again.';
+    default:
+      // Validation, duplicate and content policy errors carry a message meant for guests
+      return error.message || 'Could not add this track';
+  }
+}
+
+function formatWait(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} min`;
+}
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const remainingSeconds = Math.floor(seconds % 60);
+  return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+}
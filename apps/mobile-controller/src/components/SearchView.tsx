@@ -0,0 +1,183 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { SearchResult } from '@party-jukebox/shared';
+import type { APIService } from '../services/APIService';
+import { SearchResultCard } from './SearchResultCard';
+
+const SEARCH_DEBOUNCE_MS = 300;
+const MIN_QUERY_LENGTH = 2;
+
+interface SearchViewProps {
+  apiService: APIService;
+  debounceMs?: number;
+}
+
+interface SearchState {
+  query: string;
+  results: SearchResult[];
+  nextPageToken?: string;
+  isLoading: boolean;
+  error?: string;
+}
+
+const emptySearch: SearchState = {
+  query: '',
+  results: [],
+  nextPageToken: undefined,
+  isLoading: false,
+  error: undefined,
+};
+
+export function SearchView({ apiService, debounceMs = SEARCH_DEBOUNCE_MS }: SearchViewProps) {
+  const [input, setInput] = useState('');
+  const query = useDebouncedValue(input.trim(), debounceMs);
+  const [search, setSearch] = useState<SearchState>(emptySearch);
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+
+  // The query a response belongs to; responses for older queries are dropped
+  const activeQueryRef = useRef('');
+
+  const fetchPage = useCallback(async (searchQuery: string, pageToken?: string) => {
+    setSearch(prev => ({ ...prev, isLoading: true, error: undefined }));
+    const response = await apiService.search(searchQuery, pageToken);
+
+    if (activeQueryRef.current !== searchQuery) {
+      return;
+    }
+
+    if (!response.success || !response.data) {
+      setSearch(prev => ({
+        ...prev,
+        isLoading: false,
+        error: response.error?.message ?? 'Search failed',
+      }));
+      return;
+    }
+
+    const { results, pagination } = response.data;
+    setSearch(prev => ({
+      query: searchQuery,
+      results: pageToken ? [...prev.results, ...results] : results,
+      nextPageToken: pagination.hasNextPage ? pagination.nextPageToken : undefined,
+      isLoading: false,
+      error: undefined,
+    }));
+  }, [apiService]);
+
+  // Start a fresh search whenever the debounced query changes
+  useEffect(() => {
+    activeQueryRef.current = query;
+
+    if (query.length < MIN_QUERY_LENGTH) {
+      setSearch(emptySearch);
+      return;
+    }
+
+    setSearch({ ...emptySearch, query });
+    void fetchPage(query);
+  }, [query, fetchPage]);
+
+  const loadMore = useCallback(() => {
+    if (search.isLoading || !search.nextPageToken || search.error) {
+      return;
+    }
+    void fetchPage(search.query, search.nextPageToken);
+  }, [search, fetchPage]);
+
+  // Infinite scroll: fetch the next page when the sentinel scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || typeof IntersectionObserver === 'undefined') {
+      return;
+    }
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        loadMore();
+      }
+    }, { rootMargin: '200px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [loadMore]);
+
+  const hasResults = search.results.length > 0;
+  const showNoResults = !search.isLoading && !search.error && !hasResults && search.query.length >= MIN_QUERY_LENGTH;
+
+  return (
+    <section
+      className="search-view"
+      role="region"
+      aria-label="Search music"
+    >
+      <form className="search-form" role="search" onSubmit={event => event.preventDefault()}>
+        <label htmlFor="search-input" className="sr-only">Search for a song</label>
+        <input
+          id="search-input"
+          className="search-input"
+          type="search"
+          value={input}
+          onChange={event => setInput(event.target.value)}
+          placeholder="Search for a song or artist"
+          autoComplete="off"
+          enterKeyHint="search"
+        />
+      </form>
+
+      {search.error && (
+        <div className="search-error" role="alert">
+          <p>{search.error}</p>
+          <button
+            type="button"
+            className="secondary-button"
+            onClick={() => void fetchPage(search.query || query, search.nextPageToken)}
+          >
+            Try again
+          </button>
+        </div>
+      )}
+
+      {showNoResults && (
+        <p className="search-empty">No results for "{search.query}"</p>
+      )}
+
+      {hasResults && (
+        <ul className="search-results" aria-label="Search results">
+          {search.results.map(result => (
+            <SearchResultCard key={`${result.source}:${result.sourceId}`} result={result} apiService={apiService} />
+          ))}
+        </ul>
+      )}
+
+      {search.isLoading && (
+        <p className="search-loading" aria-live="polite">Searching...</p>
+      )}
+
+      {search.nextPageToken && !search.error && (
+        <div ref={sentinelRef} className="search-load-more">
+          <button
+            type="button"
+            className="secondary-button"
+            onClick={loadMore}
+            disabled={search.isLoading}
+          >
+            Load more
+          </button>
+        </div>
+      )}
+    </section>
+  );
+}
+
+/**
+ * Value that only updates once it has stopped changing for `delay` ms
+ */
+function useDebouncedValue<T>(value: T, delay: number): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timeoutId);
+  }, [value, delay]);
+
+  return debounced;
+}
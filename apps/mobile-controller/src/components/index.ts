@@ -1,2 +1,5 @@
-// Component exports will be added as components are implemented
-export {};
\ No newline at end of file
+export { NicknameOnboarding } from './NicknameOnboarding';
+export { SearchView } from './SearchView';
+export { SearchResultCard, describeAddError } from './SearchResultCard';
+export { QueueView } from './QueueView';
+export { RateLimitCountdown } from './RateLimitCountdown';
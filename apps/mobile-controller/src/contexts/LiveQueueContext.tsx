@@ -0,0 +1,128 @@
+import { createContext, useContext, useEffect, useReducer, ReactNode } from 'react';
+import type { QueueItem } from '@party-jukebox/shared';
+import {
+  WebSocketService,
+  WebSocketStatus,
+  QueueSnapshot,
+  PlaybackSnapshot,
+  QueueUpdateEvent,
+  PlaybackUpdateEvent,
+  InitialStateEvent,
+} from '../services/WebSocketService';
+
+// Live queue and playback state, as last pushed by the server
+interface LiveQueueState {
+  currentTrack: QueueItem | null;
+  upcomingTracks: QueueItem[];
+  playback: PlaybackSnapshot | null;
+  playbackReceivedAt: number; // epoch ms, to extrapolate the playback position
+  connectionStatus: WebSocketStatus;
+  hasReceivedState: boolean;
+}
+
+// Action types for live queue updates
+type LiveQueueAction =
+  | { type: 'SET_QUEUE'; payload: QueueSnapshot }
+  | { type: 'SET_PLAYBACK'; payload: { playback: PlaybackSnapshot; receivedAt: number } }
+  | { type: 'SET_CONNECTION_STATUS'; payload: WebSocketStatus };
+
+// Initial state
+const initialLiveQueueState: LiveQueueState = {
+  currentTrack: null,
+  upcomingTracks: [],
+  playback: null,
+  playbackReceivedAt: 0,
+  connectionStatus: 'disconnected',
+  hasReceivedState: false,
+};
+
+// Reducer function
+function liveQueueReducer(state: LiveQueueState, action: LiveQueueAction): LiveQueueState {
+  switch (action.type) {
+    case 'SET_QUEUE': {
+      const { currentTrack, upcomingTracks } = action.payload;
+      return {
+        ...state,
+        currentTrack,
+        // The current track is shown on its own, never in "up next"
+        upcomingTracks: (upcomingTracks || []).filter(item => !currentTrack || item.id !== currentTrack.id),
+        hasReceivedState: true,
+      };
+    }
+
+    case 'SET_PLAYBACK':
+      return {
+        ...state,
+        playback: action.payload.playback,
+        playbackReceivedAt: action.payload.receivedAt,
+        hasReceivedState: true,
+      };
+
+    case 'SET_CONNECTION_STATUS':
+      return {
+        ...state,
+        connectionStatus: action.payload,
+      };
+
+    default:
+      return state;
+  }
+}
+
+// Context interface
+interface LiveQueueContextType {
+  state: LiveQueueState;
+}
+
+// Create context
+const LiveQueueContext = createContext<LiveQueueContextType | undefined>(undefined);
+
+// Provider component
+interface LiveQueueProviderProps {
+  wsService: WebSocketService;
+  sessionToken?: string | null;
+  children: ReactNode;
+}
+
+export function LiveQueueProvider({ wsService, sessionToken, children }: LiveQueueProviderProps) {
+  const [state, dispatch] = useReducer(liveQueueReducer, initialLiveQueueState);
+
+  useEffect(() => {
+    const unsubscribers = [
+      wsService.onStatusChange(status => dispatch({ type: 'SET_CONNECTION_STATUS', payload: status })),
+      wsService.subscribe<InitialStateEvent>('initial_state', event => {
+        dispatch({ type: 'SET_QUEUE', payload: event.data.queue });
+        dispatch({ type: 'SET_PLAYBACK', payload: { playback: event.data.playback, receivedAt: Date.now() } });
+      }),
+      wsService.subscribe<QueueUpdateEvent>('queue_updated', event => {
+        dispatch({ type: 'SET_QUEUE', payload: event.data });
+      }),
+      wsService.subscribe<PlaybackUpdateEvent>('playback_updated', event => {
+        dispatch({ type: 'SET_PLAYBACK', payload: { playback: event.data, receivedAt: Date.now() } });
+      }),
+    ];
+
+    wsService.setSessionToken(sessionToken ?? null);
+    wsService.connect();
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      wsService.disconnect();
+    };
+  }, [wsService, sessionToken]);
+
+  return (
+    <LiveQueueContext.Provider value={{ state }}>
+      {children}
+    </LiveQueueContext.Provider>
+  );
+}
+
+// Hook for using the context
+export function useLiveQueue() {
+  const context = useContext(LiveQueueContext);
+  if (context === undefined) {
+    throw new Error('useLiveQueue must be used within a LiveQueueProvider');
+  }
+  return context;
+}
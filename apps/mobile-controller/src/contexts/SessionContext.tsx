@@ -0,0 +1,146 @@
+import { createContext, useContext, useEffect, useReducer, ReactNode } from 'react';
+import { UserSession } from '../types';
+import { APIService } from '../services/APIService';
+import { StorageService } from '../services/StorageService';
+
+// Guest session state for the controller
+interface SessionState {
+  session: UserSession | null;
+  isJoining: boolean;
+  error?: string;
+}
+
+// Action types for session state updates
+type SessionAction =
+  | { type: 'JOIN_STARTED' }
+  | { type: 'JOINED'; payload: UserSession }
+  | { type: 'JOIN_FAILED'; payload: string }
+  | { type: 'LEAVE' };
+
+// Initial state
+const initialSessionState: SessionState = {
+  session: null,
+  isJoining: false,
+  error: undefined,
+};
+
+// Reducer function
+function sessionReducer(state: SessionState, action: SessionAction): SessionState {
+  switch (action.type) {
+    case 'JOIN_STARTED':
+      return {
+        ...state,
+        isJoining: true,
+        error: undefined,
+      };
+
+    case 'JOINED':
+      return {
+        session: action.payload,
+        isJoining: false,
+        error: undefined,
+      };
+
+    case 'JOIN_FAILED':
+      return {
+        ...state,
+        isJoining: false,
+        error: action.payload,
+      };
+
+    case 'LEAVE':
+      return initialSessionState;
+
+    default:
+      return state;
+  }
+}
+
+// Context interface
+interface SessionContextType {
+  state: SessionState;
+  actions: {
+    join: (nickname: string) => Promise<boolean>;
+    leave: () => void;
+  };
+}
+
+// Create context
+const SessionContext = createContext<SessionContextType | undefined>(undefined);
+
+// Provider component
+interface SessionProviderProps {
+  apiService: APIService;
+  storageService: StorageService;
+  children: ReactNode;
+}
+
+export function SessionProvider({ apiService, storageService, children }: SessionProviderProps) {
+  const [state, dispatch] = useReducer(sessionReducer, initialSessionState, () => {
+    // Pick up where this device left off, so guests only type their nickname once
+    const saved = storageService.loadSession();
+    apiService.setSessionToken(saved?.sessionToken ?? null);
+    return { ...initialSessionState, session: saved };
+  });
+
+  useEffect(() => {
+    if (state.session) {
+      storageService.saveSession(state.session);
+    }
+  }, [state.session, storageService]);
+
+  const actions = {
+    join: async (nickname: string) => {
+      const trimmed = nickname.trim();
+      if (!trimmed) {
+        dispatch({ type: 'JOIN_FAILED', payload: 'Please enter a nickname' });
+        return false;
+      }
+
+      dispatch({ type: 'JOIN_STARTED' });
+      const response = await apiService.joinSession(trimmed);
+
+      if (!response.success || !response.data) {
+        dispatch({ type: 'JOIN_FAILED', payload: response.error?.message ?? 'Could not join the party' });
+        return false;
+      }
+
+      const { token, user } = response.data;
+      const now = new Date();
+      apiService.setSessionToken(token);
+      dispatch({
+        type: 'JOINED',
+        payload: {
+          deviceId: user.id,
+          sessionToken: token,
+          nickname: user.nickname,
+          createdAt: state.session?.createdAt ?? now,
+          lastActive: now,
+          preferences: state.session?.preferences ?? { autoRefresh: true, showNotifications: true },
+        },
+      });
+      return true;
+    },
+
+    leave: () => {
+      storageService.clearSession();
+      apiService.setSessionToken(null);
+      dispatch({ type: 'LEAVE' });
+    },
+  };
+
+  return (
+    <SessionContext.Provider value={{ state, actions }}>
+      {children}
+    </SessionContext.Provider>
+  );
+}
+
+// Hook for using the context
+export function useSession() {
+  const context = useContext(SessionContext);
+  if (context === undefined) {
+    throw new Error('useSession must be used within a SessionProvider');
+  }
+  return context;
+}
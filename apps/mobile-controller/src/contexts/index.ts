@@ -1,2 +1,6 @@
-// Context exports will be added as contexts are implemented
-export {};
\ No newline at end of file
+// Export all context providers and hooks
+export { SessionProvider, useSession } from './SessionContext';
+export { LiveQueueProvider, useLiveQueue } from './LiveQueueContext';
+
+// Re-export types for convenience
+export type { UserSession } from '../types';
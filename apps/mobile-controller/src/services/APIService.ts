@@ -0,0 +1,341 @@
+/**
+ * API Service for Mobile Controller
+ *
+ * Handles HTTP communication with the Party Jukebox server API.
+ * Provides methods for joining the party, searching and adding tracks
+ * to the queue with proper error handling and retry logic.
+ *
+ * Requirements: 2.2, 3.1, 27.4, 28.1
+ */
+
+import { QueueItem, SearchResult, User } from '@party-jukebox/shared';
+import { RateLimitInfo } from '../types';
+
+/**
+ * API error format matching server API
+ */
+export interface APIErrorInfo {
+  code: string;
+  message: string;
+  details?: any;
+  timestamp?: string;
+  retryAfter?: number; // seconds, for rate limiting
+}
+
+/**
+ * API response types matching server API
+ */
+export interface JoinSessionResponse {
+  success: boolean;
+  data?: {
+    token: string;
+    user: User;
+  };
+  error?: APIErrorInfo;
+  timestamp: string;
+}
+
+export interface SearchResponse {
+  success: boolean;
+  data?: {
+    results: SearchResult[];
+    pagination: {
+      currentPage: number;
+      totalResults: number;
+      hasNextPage: boolean;
+      hasPrevPage: boolean;
+      nextPageToken?: string;
+      prevPageToken?: string;
+      resultsPerPage: number;
+    };
+  };
+  error?: APIErrorInfo;
+  timestamp: string;
+}
+
+export interface AddTrackResponse {
+  success: boolean;
+  data?: {
+    queueItem: QueueItem;
+    queuePosition: number;
+  };
+  error?: APIErrorInfo;
+  timestamp: string;
+}
+
+export interface UserLimitsResponse {
+  success: boolean;
+  data?: RateLimitInfo;
+  error?: APIErrorInfo;
+  timestamp: string;
+}
+
+/**
+ * Rate limit info as the server reports it
+ */
+interface ServerRateLimitInfo {
+  canAddTrack: boolean;
+  remainingRequests: number | null;
+  timeUntilReset: number;
+  maxRequests: number | null;
+  windowMinutes: number;
+}
+
+/**
+ * API Service configuration
+ */
+export interface APIServiceConfig {
+  baseUrl: string;
+  timeout?: number;
+  maxRetries?: number;
+  retryDelay?: number;
+  maxRetryDelay?: number;
+}
+
+/**
+ * Retry configuration for exponential backoff
+ */
+interface RetryConfig {
+  maxRetries: number;
+  baseDelay: number;
+  maxDelay: number;
+  backoffFactor: number;
+}
+
+/**
+ * API Service class for server communication
+ */
+export class APIService {
+  private config: Required<APIServiceConfig>;
+  private retryConfig: RetryConfig;
+  private sessionToken: string | null = null;
+
+  constructor(config: APIServiceConfig) {
+    this.config = {
+      baseUrl: config.baseUrl.replace(/\/$/, ''), // Remove trailing slash
+      timeout: config.timeout ?? 10000, // 10 seconds default
+      maxRetries: config.maxRetries ?? 3,
+      retryDelay: config.retryDelay ?? 1000, // 1 second base delay
+      maxRetryDelay: config.maxRetryDelay ?? 30000, // 30 seconds max delay
+    };
+
+    this.retryConfig = {
+      maxRetries: this.config.maxRetries,
+      baseDelay: this.config.retryDelay,
+      maxDelay: this.config.maxRetryDelay,
+      backoffFactor: 2,
+    };
+  }
+
+  /**
+   * Set the guest session token sent with every request
+   * The server also sets it as a cookie; the header covers browsers that drop it
+   */
+  setSessionToken(token: string | null): void {
+    this.sessionToken = token;
+  }
+
+  /**
+   * Join the party with a nickname, or resume this device's session
+   * Requirements: 28.1, 28.2
+   */
+  async joinSession(nickname: string): Promise<JoinSessionResponse> {
+    return this.makeRequest<JoinSessionResponse>('/api/session', {
+      method: 'POST',
+      body: JSON.stringify({ nickname }),
+    });
+  }
+
+  /**
+   * Search for tracks; pass the previous page's nextPageToken to continue
+   * Requirements: 2.2
+   */
+  async search(query: string, pageToken?: string, limit: number = 20): Promise<SearchResponse> {
+    const params = new URLSearchParams({ q: query, limit: String(limit) });
+    if (pageToken) {
+      params.set('pageToken', pageToken);
+    }
+
+    return this.makeRequest<SearchResponse>(`/api/search?${params.toString()}`, {
+      method: 'GET',
+    });
+  }
+
+  /**
+   * Add a search result to the queue
+   * Requirements: 2.2, 3.1
+   */
+  async addToQueue(result: SearchResult, nickname: string): Promise<AddTrackResponse> {
+    return this.makeRequest<AddTrackResponse>('/api/queue/add', {
+      method: 'POST',
+      body: JSON.stringify({
+        track: {
+          title: result.title,
+          artist: result.artist,
+          source: result.source,
+          sourceId: result.sourceId,
+          duration: result.duration,
+          thumbnailUrl: result.thumbnailUrl,
+        },
+        user: { nickname },
+      }),
+    });
+  }
+
+  /**
+   * Get how many requests this guest has left and when the window resets
+   * Requirements: 27.4
+   */
+  async getMyLimits(): Promise<UserLimitsResponse> {
+    const response = await this.makeRequest<Omit<UserLimitsResponse, 'data'> & { data?: ServerRateLimitInfo }>('/api/users/me/limits', {
+      method: 'GET',
+    });
+
+    if (!response.success || !response.data) {
+      return { ...response, data: undefined };
+    }
+
+    const { canAddTrack, remainingRequests, timeUntilReset, maxRequests, windowMinutes } = response.data;
+    return {
+      ...response,
+      data: {
+        remainingRequests,
+        timeUntilReset,
+        maxRequests,
+        windowDuration: windowMinutes * 60 * 1000,
+        isLimited: !canAddTrack,
+      },
+    };
+  }
+
+  /**
+   * Make HTTP request with retry logic and exponential backoff
+   * Only reads are retried, so a slow add never queues a track twice
+   */
+  private async makeRequest<T>(
+    endpoint: string,
+    options: RequestInit,
+    attempt: number = 1
+  ): Promise<T> {
+    const url = `${this.config.baseUrl}${endpoint}`;
+
+    try {
+      // Create AbortController for timeout handling
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
+
+      const headers: Record<string, string> = {
+        ...options.headers as Record<string, string>,
+      };
+
+      // Only add Content-Type for requests with a body
+      if (options.body) {
+        headers['Content-Type'] = 'application/json';
+      }
+
+      // The server resolves who we are from the session token
+      if (this.sessionToken) {
+        headers['X-Session-Token'] = this.sessionToken;
+      }
+
+      const response = await fetch(url, {
+        ...options,
+        signal: controller.signal,
+        headers,
+        credentials: 'same-origin',
+      });
+
+      clearTimeout(timeoutId);
+
+      // Return data regardless of HTTP status - let caller handle success/error
+      return await response.json() as T;
+
+    } catch (error) {
+      if (options.method === 'GET' && attempt < this.retryConfig.maxRetries && this.shouldRetry(error)) {
+        const delay = this.calculateRetryDelay(attempt);
+        console.warn(`API request failed (attempt ${attempt}/${this.retryConfig.maxRetries}), retrying in ${delay}ms:`, error);
+
+        await this.sleep(delay);
+        return this.makeRequest<T>(endpoint, options, attempt + 1);
+      }
+
+      console.error(`API request failed after ${attempt} attempts:`, error);
+
+      // Return a standardized error response
+      return {
+        success: false,
+        error: {
+          code: 'NETWORK_ERROR',
+          message: this.getErrorMessage(error),
+          details: {
+            attempt,
+            url,
+            originalError: error instanceof Error ? error.message : String(error),
+          },
+          timestamp: new Date().toISOString(),
+        },
+        timestamp: new Date().toISOString(),
+      } as T;
+    }
+  }
+
+  /**
+   * Retry on timeouts and network errors, where no response came back
+   */
+  private shouldRetry(error: unknown): boolean {
+    if (error instanceof Error) {
+      return error.name === 'AbortError' || error.message.includes('fetch') || error.message.includes('network');
+    }
+    return false;
+  }
+
+  /**
+   * Calculate retry delay with exponential backoff
+   */
+  private calculateRetryDelay(attempt: number): number {
+    const delay = this.retryConfig.baseDelay * Math.pow(this.retryConfig.backoffFactor, attempt - 1);
+    return Math.min(delay, this.retryConfig.maxDelay);
+  }
+
+  /**
+   * Sleep for specified milliseconds
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  /**
+   * Extract user-friendly error message from error object
+   */
+  private getErrorMessage(error: unknown): string {
+    if (error instanceof Error) {
+      if (error.name === 'AbortError') {
+        return 'Request timed out';
+      }
+      return error.message;
+    }
+
+    if (typeof error === 'string') {
+      return error;
+    }
+
+    return 'Unknown network error occurred';
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): APIServiceConfig {
+    return { ...this.config };
+  }
+}
+
+/**
+ * Create API service instance with default configuration
+ */
+export function createAPIService(baseUrl: string, config?: Partial<APIServiceConfig>): APIService {
+  return new APIService({
+    baseUrl,
+    ...config,
+  });
+}
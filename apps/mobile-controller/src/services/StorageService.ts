@@ -0,0 +1,65 @@
+/**
+ * Storage Service for Mobile Controller
+ *
+ * Keeps the guest's session in localStorage so a reload or a phone going
+ * to sleep doesn't make them join again.
+ */
+
+import { UserSession } from '../types';
+
+const SESSION_KEY = 'party-jukebox:session';
+
+/**
+ * Storage Service class for session persistence
+ */
+export class StorageService {
+  constructor(private readonly storage: Storage = window.localStorage) {}
+
+  /**
+   * Load the saved session, or null if there is none or it can't be read
+   */
+  loadSession(): UserSession | null {
+    try {
+      const raw = this.storage.getItem(SESSION_KEY);
+      if (!raw) {
+        return null;
+      }
+
+      const parsed = JSON.parse(raw);
+      if (typeof parsed?.deviceId !== 'string' || typeof parsed?.sessionToken !== 'string' || typeof parsed?.nickname !== 'string') {
+        return null;
+      }
+
+      return {
+        ...parsed,
+        createdAt: new Date(parsed.createdAt),
+        lastActive: new Date(parsed.lastActive),
+      };
+    } catch (error) {
+      console.warn('Could not read saved session:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Save the session, ignoring storage that is full or disabled (private browsing)
+   */
+  saveSession(session: UserSession): void {
+    try {
+      this.storage.setItem(SESSION_KEY, JSON.stringify(session));
+    } catch (error) {
+      console.warn('Could not save session:', error);
+    }
+  }
+
+  /**
+   * Forget the saved session
+   */
+  clearSession(): void {
+    try {
+      this.storage.removeItem(SESSION_KEY);
+    } catch (error) {
+      console.warn('Could not clear session:', error);
+    }
+  }
+}
@@ -0,0 +1,349 @@
+/**
+ * WebSocket Service for Mobile Controller
+ *
+ * Keeps a controller connection to the Party Jukebox server for live queue
+ * and playback updates, reconnecting with exponential backoff when a phone
+ * drops off the network or wakes from sleep.
+ *
+ * Requirements: 5.2, 5.3, 6.1, 6.2
+ */
+
+import { QueueItem, QueueOrderingMode } from '@party-jukebox/shared';
+
+/**
+ * WebSocket event types the controller listens to
+ */
+export type WebSocketEventType =
+  | 'connection_established'
+  | 'queue_updated'
+  | 'playback_updated'
+  | 'initial_state'
+  | 'heartbeat'
+  | 'error_occurred';
+
+/**
+ * WebSocket event data structures
+ */
+export interface WebSocketEvent {
+  type: WebSocketEventType;
+  timestamp: string;
+  sequenceNumber: number;
+  data: any;
+}
+
+export interface QueueSnapshot {
+  currentTrack: QueueItem | null;
+  upcomingTracks: QueueItem[];
+  totalLength: number;
+  isEmpty: boolean;
+  orderingMode: QueueOrderingMode;
+  scores: Record<string, number>;
+}
+
+export interface PlaybackSnapshot {
+  status: 'idle' | 'resolving' | 'playing' | 'paused' | 'error';
+  currentTrack: QueueItem | null;
+  position: number; // seconds
+  duration: number; // seconds
+  volume: number;
+  error?: string;
+}
+
+export interface QueueUpdateEvent extends WebSocketEvent {
+  type: 'queue_updated';
+  data: QueueSnapshot;
+}
+
+export interface PlaybackUpdateEvent extends WebSocketEvent {
+  type: 'playback_updated';
+  data: PlaybackSnapshot;
+}
+
+export interface InitialStateEvent extends WebSocketEvent {
+  type: 'initial_state';
+  data: {
+    queue: QueueSnapshot;
+    playback: PlaybackSnapshot;
+    serverTime: string;
+  };
+}
+
+/**
+ * Connection status enumeration
+ */
+export type WebSocketStatus =
+  | 'disconnected'
+  | 'connecting'
+  | 'connected'
+  | 'reconnecting'
+  | 'error';
+
+/**
+ * Event handler function types
+ */
+export type EventHandler<T extends WebSocketEvent = WebSocketEvent> = (event: T) => void;
+export type StatusHandler = (status: WebSocketStatus) => void;
+
+/**
+ * WebSocket service configuration
+ */
+export interface WebSocketServiceConfig {
+  url: string;
+  reconnectInterval?: number;
+  maxReconnectInterval?: number;
+  reconnectBackoffFactor?: number;
+  connectionTimeout?: number;
+}
+
+/**
+ * WebSocket Service class for live updates
+ */
+export class WebSocketService {
+  private config: Required<WebSocketServiceConfig>;
+  private socket: WebSocket | null = null;
+  private status: WebSocketStatus = 'disconnected';
+  private sessionToken: string | null = null;
+  private eventHandlers: Map<WebSocketEventType, Set<EventHandler>> = new Map();
+  private statusHandlers: Set<StatusHandler> = new Set();
+  private reconnectAttempt = 0;
+  private reconnectTimeoutId: ReturnType<typeof setTimeout> | null = null;
+  private connectionTimeoutId: ReturnType<typeof setTimeout> | null = null;
+  private shouldReconnect = false;
+
+  constructor(config: WebSocketServiceConfig) {
+    this.config = {
+      url: config.url,
+      reconnectInterval: config.reconnectInterval ?? 1000, // 1 second base
+      maxReconnectInterval: config.maxReconnectInterval ?? 30000, // 30 seconds max
+      reconnectBackoffFactor: config.reconnectBackoffFactor ?? 2,
+      connectionTimeout: config.connectionTimeout ?? 10000, // 10 seconds
+    };
+  }
+
+  /**
+   * Set the guest session token, so the server knows whose connection this is
+   * Takes effect on the next connect
+   */
+  setSessionToken(token: string | null): void {
+    this.sessionToken = token;
+  }
+
+  /**
+   * Connect as a controller client, and keep reconnecting until disconnect()
+   * Requirements: 6.1
+   */
+  connect(): void {
+    this.shouldReconnect = true;
+
+    if (this.status === 'connected' || this.status === 'connecting') {
+      return;
+    }
+
+    this.clearReconnectTimeout();
+    this.setStatus('connecting');
+
+    const url = new URL(this.config.url);
+    url.searchParams.set('clientType', 'controller');
+    if (this.sessionToken) {
+      url.searchParams.set('sessionToken', this.sessionToken);
+    }
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(url.toString());
+    } catch (error) {
+      console.error('Failed to open WebSocket:', error);
+      this.setStatus('error');
+      this.scheduleReconnect();
+      return;
+    }
+
+    this.socket = socket;
+    this.connectionTimeoutId = setTimeout(() => {
+      if (this.socket === socket && this.status === 'connecting') {
+        console.warn('WebSocket connection timeout');
+        socket.close();
+      }
+    }, this.config.connectionTimeout);
+
+    socket.addEventListener('open', () => {
+      if (this.socket !== socket) return;
+      this.clearConnectionTimeout();
+      this.reconnectAttempt = 0;
+      this.setStatus('connected');
+    });
+
+    socket.addEventListener('message', event => {
+      if (this.socket !== socket) return;
+      this.handleMessage(event);
+    });
+
+    socket.addEventListener('close', () => {
+      if (this.socket !== socket) return;
+      this.clearConnectionTimeout();
+      this.socket = null;
+
+      if (this.shouldReconnect) {
+        this.setStatus('error');
+        this.scheduleReconnect();
+      } else {
+        this.setStatus('disconnected');
+      }
+    });
+  }
+
+  /**
+   * Disconnect and stop reconnecting
+   */
+  disconnect(): void {
+    this.shouldReconnect = false;
+    this.clearReconnectTimeout();
+    this.clearConnectionTimeout();
+
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close(1000, 'Client disconnect');
+
+    this.setStatus('disconnected');
+  }
+
+  /**
+   * Subscribe to WebSocket events
+   */
+  subscribe<T extends WebSocketEvent>(eventType: WebSocketEventType, handler: EventHandler<T>): () => void {
+    if (!this.eventHandlers.has(eventType)) {
+      this.eventHandlers.set(eventType, new Set());
+    }
+    this.eventHandlers.get(eventType)!.add(handler as EventHandler);
+
+    return () => {
+      this.eventHandlers.get(eventType)?.delete(handler as EventHandler);
+    };
+  }
+
+  /**
+   * Subscribe to connection status changes
+   */
+  onStatusChange(handler: StatusHandler): () => void {
+    this.statusHandlers.add(handler);
+    return () => {
+      this.statusHandlers.delete(handler);
+    };
+  }
+
+  /**
+   * Get current connection status
+   */
+  getStatus(): WebSocketStatus {
+    return this.status;
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): WebSocketServiceConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Parse an incoming event and hand it to subscribers
+   */
+  private handleMessage(event: MessageEvent): void {
+    let data: any;
+    try {
+      data = JSON.parse(event.data);
+    } catch (error) {
+      console.error('Error parsing WebSocket message:', error);
+      return;
+    }
+
+    if (!data?.type || !data.timestamp) {
+      console.warn('Received invalid WebSocket event:', data);
+      return;
+    }
+
+    const wsEvent: WebSocketEvent = {
+      type: data.type,
+      timestamp: data.timestamp,
+      sequenceNumber: data.sequenceNumber || 0,
+      data: data.data || {},
+    };
+
+    this.eventHandlers.get(wsEvent.type)?.forEach(handler => {
+      try {
+        handler(wsEvent);
+      } catch (error) {
+        console.error(`Error in event handler for ${wsEvent.type}:`, error);
+      }
+    });
+  }
+
+  /**
+   * Set connection status and notify listeners
+   */
+  private setStatus(status: WebSocketStatus): void {
+    if (this.status === status) {
+      return;
+    }
+
+    this.status = status;
+    this.statusHandlers.forEach(handler => {
+      try {
+        handler(status);
+      } catch (error) {
+        console.error('Error in status handler:', error);
+      }
+    });
+  }
+
+  /**
+   * Schedule reconnection with exponential backoff
+   * Phones lose the network all the time, so this never gives up
+   * Requirements: 6.2
+   */
+  private scheduleReconnect(): void {
+    this.clearReconnectTimeout();
+
+    const delay = Math.min(
+      this.config.reconnectInterval * Math.pow(this.config.reconnectBackoffFactor, this.reconnectAttempt),
+      this.config.maxReconnectInterval
+    );
+    this.reconnectAttempt++;
+    this.setStatus('reconnecting');
+
+    this.reconnectTimeoutId = setTimeout(() => {
+      this.reconnectTimeoutId = null;
+      if (this.shouldReconnect) {
+        this.connect();
+      }
+    }, delay);
+  }
+
+  /**
+   * Clear reconnection timeout
+   */
+  private clearReconnectTimeout(): void {
+    if (this.reconnectTimeoutId !== null) {
+      clearTimeout(this.reconnectTimeoutId);
+      this.reconnectTimeoutId = null;
+    }
+  }
+
+  /**
+   * Clear connection timeout
+   */
+  private clearConnectionTimeout(): void {
+    if (this.connectionTimeoutId !== null) {
+      clearTimeout(this.connectionTimeoutId);
+      this.connectionTimeoutId = null;
+    }
+  }
+}
+
+/**
+ * Build the WebSocket URL for the server the page was loaded from
+ */
+export function getDefaultWebSocketUrl(location: Location = window.location): string {
+  const protocol = location.protocol === 'https:' ? 'wss:' : 'ws:';
+  return `${protocol}//${location.host}/ws`;
+}
@@ -0,0 +1,115 @@
+/**
+ * APIService Tests
+ *
+ * Verifies the requests the controller sends for joining, searching and adding tracks
+ */
+
+import type { SearchResult } from '@party-jukebox/shared';
+import { APIService } from '../APIService';
+
+const searchResult: SearchResult = {
+  source: 'youtube',
+  sourceId: 'abc123',
+  title: 'Test Song',
+  artist: 'Test Artist',
+  duration: 215,
+  thumbnailUrl: 'https://example.com/thumb.jpg',
+  channelTitle: 'Test Artist',
+  publishedAt: '2024-01-01T00:00:00Z',
+};
+
+describe('APIService', () => {
+  let apiService: APIService;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn().mockResolvedValue({
+      json: async () => ({ success: true, data: {}, timestamp: new Date().toISOString() }),
+    });
+    global.fetch = fetchMock;
+
+    apiService = new APIService({
+      baseUrl: 'http://localhost:3000/',
+      maxRetries: 2,
+      retryDelay: 1,
+    });
+  });
+
+  it('should remove trailing slash from baseUrl', () => {
+    expect(apiService.getConfig().baseUrl).toBe('http://localhost:3000');
+  });
+
+  it('should join with the nickname', async () => {
+    await apiService.joinSession('Alice');
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:3000/api/session');
+    expect(init.method).toBe('POST');
+    expect(JSON.parse(init.body)).toEqual({ nickname: 'Alice' });
+  });
+
+  it('should pass the page token when searching for the next page', async () => {
+    await apiService.search('test song', 'PAGE_2');
+
+    const url = new URL(fetchMock.mock.calls[0][0]);
+    expect(url.pathname).toBe('/api/search');
+    expect(url.searchParams.get('q')).toBe('test song');
+    expect(url.searchParams.get('pageToken')).toBe('PAGE_2');
+  });
+
+  it('should add the track with the session token header', async () => {
+    apiService.setSessionToken('user-1.signature');
+    await apiService.addToQueue(searchResult, 'Alice');
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:3000/api/queue/add');
+    expect(init.headers['X-Session-Token']).toBe('user-1.signature');
+    expect(JSON.parse(init.body)).toEqual({
+      track: {
+        title: 'Test Song',
+        artist: 'Test Artist',
+        source: 'youtube',
+        sourceId: 'abc123',
+        duration: 215,
+        thumbnailUrl: 'https://example.com/thumb.jpg',
+      },
+      user: { nickname: 'Alice' },
+    });
+  });
+
+  it('should return API errors such as rate limits to the caller', async () => {
+    fetchMock.mockResolvedValueOnce({
+      json: async () => ({
+        success: false,
+        error: { code: 'RATE_LIMIT_EXCEEDED', message: 'Rate limit exceeded', retryAfter: 90 },
+        timestamp: new Date().toISOString(),
+      }),
+    });
+
+    const response = await apiService.addToQueue(searchResult, 'Alice');
+
+    expect(response.success).toBe(false);
+    expect(response.error?.retryAfter).toBe(90);
+  });
+
+  it('should not retry adds after a network error', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    fetchMock.mockRejectedValue(new TypeError('fetch failed'));
+
+    const response = await apiService.addToQueue(searchResult, 'Alice');
+
+    expect(response.error?.code).toBe('NETWORK_ERROR');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry searches after a network error', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    fetchMock.mockRejectedValue(new TypeError('fetch failed'));
+
+    const response = await apiService.search('test');
+
+    expect(response.error?.code).toBe('NETWORK_ERROR');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * WebSocketService Tests
+ *
+ * Verifies the controller connection, event dispatch and reconnection
+ */
+
+import { WebSocketService, WebSocketStatus, getDefaultWebSocketUrl } from '../WebSocketService';
+
+class FakeWebSocket {
+  static instances: FakeWebSocket[] = [];
+  private listeners = new Map<string, Array<(event: any) => void>>();
+
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  addEventListener(type: string, listener: (event: any) => void): void {
+    this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener]);
+  }
+
+  close = jest.fn();
+
+  emit(type: string, event: any = {}): void {
+    this.listeners.get(type)?.forEach(listener => listener(event));
+  }
+}
+
+describe('WebSocketService', () => {
+  const originalWebSocket = global.WebSocket;
+  let service: WebSocketService;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    FakeWebSocket.instances = [];
+    (global as any).WebSocket = FakeWebSocket;
+    service = new WebSocketService({ url: 'ws://jukebox.local:3000/ws', reconnectInterval: 1000 });
+  });
+
+  afterEach(() => {
+    service.disconnect();
+    jest.useRealTimers();
+    global.WebSocket = originalWebSocket;
+  });
+
+  it('should connect as a controller with the session token', () => {
+    service.setSessionToken('user-1.signature');
+    service.connect();
+
+    const url = new URL(FakeWebSocket.instances[0].url);
+    expect(url.searchParams.get('clientType')).toBe('controller');
+    expect(url.searchParams.get('sessionToken')).toBe('user-1.signature');
+  });
+
+  it('should deliver events to subscribers until they unsubscribe', () => {
+    const handler = jest.fn();
+    const unsubscribe = service.subscribe('queue_updated', handler);
+    service.connect();
+    const socket = FakeWebSocket.instances[0];
+
+    const message = { type: 'queue_updated', timestamp: new Date().toISOString(), sequenceNumber: 4, data: { upcomingTracks: [] } };
+    socket.emit('message', { data: JSON.stringify(message) });
+    unsubscribe();
+    socket.emit('message', { data: JSON.stringify(message) });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler.mock.calls[0][0]).toMatchObject({ type: 'queue_updated', sequenceNumber: 4 });
+  });
+
+  it('should reconnect with backoff after the connection drops', () => {
+    const statuses: WebSocketStatus[] = [];
+    service.onStatusChange(status => statuses.push(status));
+    service.connect();
+    FakeWebSocket.instances[0].emit('open');
+    FakeWebSocket.instances[0].emit('close');
+
+    expect(service.getStatus()).toBe('reconnecting');
+    jest.advanceTimersByTime(1000);
+
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    expect(statuses).toEqual(['connecting', 'connected', 'error', 'reconnecting', 'connecting']);
+  });
+
+  it('should not reconnect after disconnect', () => {
+    service.connect();
+    FakeWebSocket.instances[0].emit('open');
+    service.disconnect();
+    FakeWebSocket.instances[0].emit('close');
+    jest.advanceTimersByTime(60000);
+
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    expect(service.getStatus()).toBe('disconnected');
+  });
+
+  it('should build the WebSocket URL from the page location', () => {
+    expect(getDefaultWebSocketUrl({ protocol: 'https:', host: 'party.local' } as Location)).toBe('wss://party.local/ws');
+    expect(getDefaultWebSocketUrl({ protocol: 'http:', host: '192.168.1.5:3000' } as Location)).toBe('ws://192.168.1.5:3000/ws');
+  });
+});
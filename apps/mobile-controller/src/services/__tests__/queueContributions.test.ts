@@ -0,0 +1,92 @@
+/**
+ * Queue Contributions Tests
+ *
+ * Verifies positions and estimated start times for the guest's own requests
+ */
+
+import type { QueueItem } from '@party-jukebox/shared';
+import { getMyContributions, getRemainingSeconds, ContributionInput } from '../queueContributions';
+
+function makeItem(id: string, userId: string, duration: number): QueueItem {
+  return {
+    id,
+    track: {
+      id: `track-${id}`,
+      title: `Song ${id}`,
+      artist: 'Artist',
+      source: 'youtube',
+      sourceId: id,
+      duration,
+    },
+    addedBy: { id: userId, nickname: userId },
+    addedAt: new Date('2024-01-01T12:00:00Z'),
+  } as QueueItem;
+}
+
+describe('queueContributions', () => {
+  const now = 1_000_000;
+  const current = makeItem('current', 'bob', 200);
+
+  function input(overrides: Partial<ContributionInput> = {}): ContributionInput {
+    return {
+      currentTrack: current,
+      upcomingTracks: [makeItem('a', 'bob', 180), makeItem('b', 'alice', 240), makeItem('c', 'alice', 120)],
+      playback: {
+        status: 'playing',
+        currentTrack: current,
+        position: 50,
+        duration: 200,
+        volume: 80,
+      },
+      playbackReceivedAt: now - 10_000,
+      ...overrides,
+    };
+  }
+
+  it('should extrapolate the remaining time of a playing track', () => {
+    expect(getRemainingSeconds(input(), now)).toBe(140);
+  });
+
+  it('should not extrapolate while paused', () => {
+    const paused = input();
+    paused.playback = { ...paused.playback!, status: 'paused' };
+
+    expect(getRemainingSeconds(paused, now)).toBe(150);
+  });
+
+  it('should list only the user\'s tracks with position and estimated start', () => {
+    const contributions = getMyContributions(input(), 'alice', now);
+
+    expect(contributions).toEqual([
+      expect.objectContaining({ queueItemId: 'b', position: 2, estimatedStartIn: (140 + 180) * 1000, status: 'queued' }),
+      expect.objectContaining({ queueItemId: 'c', position: 3, estimatedStartIn: (140 + 180 + 240) * 1000, status: 'queued' }),
+    ]);
+  });
+
+  it('should mark the user\'s current track as playing', () => {
+    const contributions = getMyContributions(input(), 'bob', now);
+
+    expect(contributions[0]).toMatchObject({ queueItemId: 'current', position: 0, estimatedStartIn: 0, status: 'playing' });
+    expect(contributions[1]).toMatchObject({ queueItemId: 'a', position: 1, estimatedStartIn: 140_000 });
+  });
+
+  it('should leave the estimate unknown behind a track with no duration', () => {
+    const contributions = getMyContributions(
+      input({ upcomingTracks: [makeItem('live', 'bob', 0), makeItem('b', 'alice', 240)] }),
+      'alice',
+      now
+    );
+
+    expect(contributions[0]).toMatchObject({ queueItemId: 'b', position: 2, estimatedStartIn: null });
+  });
+
+  it('should start immediately when nothing is playing', () => {
+    const contributions = getMyContributions(
+      input({ currentTrack: null, playback: null, upcomingTracks: [makeItem('b', 'alice', 240)] }),
+      'alice',
+      now
+    );
+
+    expect(contributions[0]).toMatchObject({ position: 1, estimatedStartIn: 0 });
+  });
+});
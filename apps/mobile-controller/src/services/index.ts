@@ -1,2 +1,33 @@
-// Service exports will be added as services are implemented
-export {};
\ No newline at end of file
+/**
+ * Services Index
+ *
+ * Exports all service classes and utilities for the Mobile Controller
+ */
+
+export { APIService, createAPIService } from './APIService';
+export type {
+  APIServiceConfig,
+  APIErrorInfo,
+  JoinSessionResponse,
+  SearchResponse,
+  AddTrackResponse,
+  UserLimitsResponse
+} from './APIService';
+
+export { WebSocketService, getDefaultWebSocketUrl } from './WebSocketService';
+export type {
+  WebSocketServiceConfig,
+  WebSocketEvent,
+  WebSocketEventType,
+  WebSocketStatus,
+  QueueSnapshot,
+  PlaybackSnapshot,
+  QueueUpdateEvent,
+  PlaybackUpdateEvent,
+  InitialStateEvent
+} from './WebSocketService';
+
+export { getMyContributions, getRemainingSeconds } from './queueContributions';
+export type { ContributionInput } from './queueContributions';
+
+export { StorageService } from './StorageService';
@@ -0,0 +1,86 @@
+/**
+ * Queue Contributions
+ *
+ * Works out where the guest's own requests sit in the live queue and roughly
+ * when each one will start playing.
+ */
+
+import type { QueueItem } from '@party-jukebox/shared';
+import type { QueueContribution } from '../types';
+import type { PlaybackSnapshot } from './WebSocketService';
+
+export interface ContributionInput {
+  currentTrack: QueueItem | null;
+  upcomingTracks: QueueItem[];
+  playback: PlaybackSnapshot | null;
+  playbackReceivedAt: number; // epoch ms the playback snapshot arrived
+}
+
+/**
+ * Seconds left of the current track, extrapolated from the last playback update
+ * Null when the current track's length is unknown
+ */
+export function getRemainingSeconds(input: ContributionInput, now: number): number | null {
+  const { currentTrack, playback, playbackReceivedAt } = input;
+  if (!currentTrack) {
+    return 0;
+  }
+
+  // Playback updates can lag behind queue updates; only trust one about this track
+  const sameTrack = !!playback && playback.currentTrack?.id === currentTrack.id;
+  const duration = (sameTrack && playback!.duration) || currentTrack.track.duration;
+  if (!duration) {
+    return null;
+  }
+
+  let position = sameTrack ? playback!.position : 0;
+  if (sameTrack && playback!.status === 'playing') {
+    position += Math.max(0, now - playbackReceivedAt) / 1000;
+  }
+
+  return Math.max(0, duration - position);
+}
+
+/**
+ * The user's tracks in play order, with position and estimated start time
+ */
+export function getMyContributions(input: ContributionInput, userId: string, now: number = Date.now()): QueueContribution[] {
+  const contributions: QueueContribution[] = [];
+  const { currentTrack, upcomingTracks } = input;
+
+  if (currentTrack && currentTrack.addedBy.id === userId) {
+    contributions.push(toContribution(currentTrack, 0, 0, 'playing'));
+  }
+
+  // Walk the queue adding up durations; one unknown length makes everything after it unknown
+  let secondsAhead = getRemainingSeconds(input, now);
+
+  upcomingTracks.forEach((item, index) => {
+    if (item.addedBy.id === userId) {
+      contributions.push(toContribution(item, index + 1, secondsAhead === null ? null : secondsAhead * 1000, 'queued'));
+    }
+
+    if (secondsAhead !== null) {
+      secondsAhead = item.track.duration ? secondsAhead + item.track.duration : null;
+    }
+  });
+
+  return contributions;
+}
+
+function toContribution(
+  item: QueueItem,
+  position: number,
+  estimatedStartIn: number | null,
+  status: QueueContribution['status']
+): QueueContribution {
+  return {
+    queueItemId: item.id,
+    title: item.track.title,
+    artist: item.track.artist,
+    position,
+    addedAt: new Date(item.addedAt),
+    estimatedStartIn: estimatedStartIn === null ? null : Math.round(estimatedStartIn),
+    status,
+  };
+}
@@ -2,7 +2,8 @@
 // Shared types are imported from @party-jukebox/shared
 
 export interface UserSession {
-  deviceId: string;
+  deviceId: string; // User ID the server bound to this device
+  sessionToken: string;
   nickname: string;
   createdAt: Date;
   lastActive: Date;
@@ -13,17 +14,20 @@ export interface UserSession {
 }
 
 export interface RateLimitInfo {
-  remainingRequests: number;
+  remainingRequests: number | null; // null: unlimited
   timeUntilReset: number; // milliseconds
-  maxRequests: number;
+  maxRequests: number | null; // null: unlimited
   windowDuration: number; // milliseconds
   isLimited: boolean;
 }
 
 export interface QueueContribution {
   queueItemId: string;
-  position: number;
+  title: string;
+  artist: string;
+  position: number; // 0 while playing, then 1-based among upcoming tracks
   addedAt: Date;
+  estimatedStartIn: number | null; // milliseconds; null when a track ahead has no known duration
   status: 'queued' | 'playing' | 'completed';
 }
 
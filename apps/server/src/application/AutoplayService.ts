@@ -0,0 +1,328 @@
+/**
+ * AutoplayService - Radio mode that keeps music going when the queue runs dry
+ * Picks music related to what just played, then the host's seed list, then the
+ * fallback playlist, and steps aside as soon as a guest requests a track
+ * Requirements: 14.1, 14.2, 14.3, 14.4, 14.5
+ */
+
+import {
+  JUKEBOX_USER,
+  QueueEvent,
+  QueueItem,
+  Result,
+  SearchResult,
+  TrackFactory,
+  TrackValidator,
+  VideoIdUtils
+} from '@party-jukebox/shared';
+import { IQueueService } from './QueueService';
+import { QueueEventListener } from './QueueManager';
+import { ISearchService } from './SearchService';
+import { IPlaybackOrchestrator } from '../domain/playback/interfaces';
+import { PlaybackEvent } from '../domain/playback/types';
+import { AutoplaySettings, AutoplaySource } from '../domain/autoplay/types';
+import { AutoplayError } from '../domain/autoplay/errors';
+
+/**
+ * Autoplay configuration
+ */
+export interface AutoplayConfig {
+  enabled?: boolean;
+  seedVideoIds?: readonly string[];
+  fallbackVideoIds?: readonly string[];
+  historySize?: number;
+  interruptPlaying?: boolean;
+}
+
+/**
+ * Track added by autoplay and where it came from
+ */
+export interface AutoplayFillResult {
+  queueItem: QueueItem;
+  source: AutoplaySource;
+}
+
+/**
+ * Autoplay service interface
+ * Requirements: 14.1, 14.5
+ */
+export interface IAutoplayService {
+  getSettings(): AutoplaySettings;
+  updateSettings(update: Partial<AutoplaySettings>): AutoplaySettings;
+  fillQueue(): Promise<Result<AutoplayFillResult, AutoplayError>>;
+}
+
+interface AutoplayCandidate {
+  result: SearchResult;
+  source: AutoplaySource;
+}
+
+/**
+ * Whether a queue item was added by autoplay rather than a guest
+ * Requirements: 14.4
+ */
+export function isAutoplayItem(item: QueueItem | null | undefined): boolean {
+  return item?.addedBy.id === JUKEBOX_USER.id;
+}
+
+/**
+ * Autoplay service implementation
+ * Requirements: 14.1, 14.2, 14.3, 14.4, 14.5
+ */
+export class AutoplayService implements IAutoplayService {
+  private readonly historySize: number;
+  private readonly interruptPlaying: boolean;
+  private settings: AutoplaySettings;
+  private recentVideoIds: string[] = [];
+  private seedCursor = 0;
+  private playlistCursor = 0;
+  private pendingFill: Promise<Result<AutoplayFillResult, AutoplayError>> | null = null;
+
+  private readonly handlePlaybackEvent = (event: PlaybackEvent): void => {
+    if (event.type === 'track_started' && event.data.track) {
+      // Related music and the seed lists are YouTube videos
+      if (event.data.track.track.source === 'youtube') {
+        this.rememberPlayed(event.data.track.track.sourceId);
+      }
+    } else if (event.type === 'queue_empty' && this.settings.enabled) {
+      void this.fillQueue();
+    }
+  };
+
+  private readonly queueListener: QueueEventListener = {
+    onQueueEvent: (event: QueueEvent) => {
+      if (event.type === 'TRACK_ADDED' && !isAutoplayItem(event.payload.queueItem)) {
+        void this.preempt(event.payload.queueItem);
+      }
+    }
+  };
+
+  constructor(
+    private readonly queueService: IQueueService,
+    private readonly orchestrator: IPlaybackOrchestrator,
+    private readonly searchService: ISearchService | null,
+    config: AutoplayConfig = {}
+  ) {
+    this.historySize = config.historySize ?? 20;
+    this.interruptPlaying = config.interruptPlaying ?? true;
+    this.settings = {
+      enabled: config.enabled ?? false,
+      seedVideoIds: this.normalizeVideoIds(config.seedVideoIds ?? []),
+      fallbackVideoIds: this.normalizeVideoIds(config.fallbackVideoIds ?? [])
+    };
+  }
+
+  /**
+   * Begin refilling the queue whenever it empties
+   * Requirements: 14.1
+   */
+  start(): void {
+    this.orchestrator.addEventListener(this.handlePlaybackEvent);
+    this.queueService.addEventListener(this.queueListener);
+    this.fillIfIdle();
+  }
+
+  /**
+   * Stop refilling the queue
+   */
+  stop(): void {
+    this.orchestrator.removeEventListener(this.handlePlaybackEvent);
+    this.queueService.removeEventListener(this.queueListener);
+  }
+
+  /**
+   * Get the current autoplay settings
+   * Requirements: 14.5
+   */
+  getSettings(): AutoplaySettings {
+    return this.settings;
+  }
+
+  /**
+   * Update autoplay settings at runtime
+   * Turning autoplay on while the room is silent starts the radio straight away
+   * Requirements: 14.5
+   */
+  updateSettings(update: Partial<AutoplaySettings>): AutoplaySettings {
+    const wasEnabled = this.settings.enabled;
+
+    this.settings = {
+      enabled: update.enabled ?? this.settings.enabled,
+      seedVideoIds: update.seedVideoIds ? this.normalizeVideoIds(update.seedVideoIds) : this.settings.seedVideoIds,
+      fallbackVideoIds: update.fallbackVideoIds ? this.normalizeVideoIds(update.fallbackVideoIds) : this.settings.fallbackVideoIds
+    };
+
+    if (update.seedVideoIds) {
+      this.seedCursor = 0;
+    }
+    if (update.fallbackVideoIds) {
+      this.playlistCursor = 0;
+    }
+
+    if (!wasEnabled && this.settings.enabled) {
+      this.fillIfIdle();
+    }
+
+    return this.settings;
+  }
+
+  /**
+   * Add one autoplay track if the queue is empty
+   * Concurrent calls share the in-flight fill so the radio never double-queues
+   * Requirements: 14.1, 14.2, 14.3
+   */
+  async fillQueue(): Promise<Result<AutoplayFillResult, AutoplayError>> {
+    if (!this.settings.enabled) {
+      return { success: false, error: 'AUTOPLAY_DISABLED' };
+    }
+
+    if (this.pendingFill) {
+      return this.pendingFill;
+    }
+
+    this.pendingFill = this.fill().finally(() => {
+      this.pendingFill = null;
+    });
+    return this.pendingFill;
+  }
+
+  private async fill(): Promise<Result<AutoplayFillResult, AutoplayError>> {
+    if (!this.queueService.getQueueState().isEmpty) {
+      return { success: false, error: 'QUEUE_NOT_EMPTY' };
+    }
+
+    const candidate = await this.pickCandidate();
+    if (!candidate) {
+      console.warn('📻 Autoplay found nothing to play');
+      return { success: false, error: 'NO_CANDIDATES' };
+    }
+
+    // A guest may have requested something while we were looking
+    if (!this.queueService.getQueueState().isEmpty) {
+      return { success: false, error: 'QUEUE_NOT_EMPTY' };
+    }
+
+    const trackResult = TrackValidator.create(TrackFactory.fromSearchResult(candidate.result));
+    if (!trackResult.success) {
+      console.error('Autoplay candidate is not a valid track:', trackResult.error);
+      return { success: false, error: 'ENQUEUE_FAILED' };
+    }
+
+    const addResult = this.queueService.addAutoplayTrack(trackResult.value, candidate.result);
+    if (!addResult.success) {
+      // Don't offer a track the content policy turned away again
+      if (addResult.error === 'CONTENT_POLICY_VIOLATION' && candidate.result.source === 'youtube') {
+        this.rememberPlayed(candidate.result.sourceId);
+      }
+      console.error('Autoplay failed to queue track:', addResult.error);
+      return { success: false, error: 'ENQUEUE_FAILED' };
+    }
+
+    console.log(`📻 Autoplay queued "${candidate.result.title}" (${candidate.source})`);
+    return { success: true, value: { queueItem: addResult.value, source: candidate.source } };
+  }
+
+  /**
+   * Choose the next track: related to recent history, then seeds, then the fallback playlist
+   * Requirements: 14.2, 14.3
+   */
+  private async pickCandidate(): Promise<AutoplayCandidate | null> {
+    if (!this.searchService) {
+      return null;
+    }
+
+    // With no history yet, the seed list gives related lookups somewhere to start
+    const { seedVideoIds } = this.settings;
+    const relatedSeed = this.recentVideoIds[this.recentVideoIds.length - 1] ?? seedVideoIds[this.seedCursor % seedVideoIds.length];
+    if (relatedSeed) {
+      const relatedResult = await this.searchService.getRelated('youtube', relatedSeed);
+      const related = relatedResult.success
+        ? relatedResult.value.find(result => !this.recentVideoIds.includes(result.sourceId))
+        : undefined;
+      if (related) {
+        return { result: related, source: 'related' };
+      }
+    }
+
+    const seed = await this.pickFromRotation(this.settings.seedVideoIds, this.seedCursor, false);
+    if (seed) {
+      this.seedCursor = seed.nextCursor;
+      return { result: seed.result, source: 'seeds' };
+    }
+
+    // The fallback playlist is the last resort, so it may repeat recent tracks
+    const fallback = await this.pickFromRotation(this.settings.fallbackVideoIds, this.playlistCursor, true);
+    if (fallback) {
+      this.playlistCursor = fallback.nextCursor;
+      return { result: fallback.result, source: 'playlist' };
+    }
+
+    return null;
+  }
+
+  /**
+   * Take the next playable video from a list, starting at the cursor and wrapping around
+   */
+  private async pickFromRotation(
+    videoIds: readonly string[],
+    cursor: number,
+    allowRepeats: boolean
+  ): Promise<{ result: SearchResult; nextCursor: number } | null> {
+    if (!this.searchService || videoIds.length === 0) {
+      return null;
+    }
+
+    const start = cursor % videoIds.length;
+    const rotation = [...videoIds.slice(start), ...videoIds.slice(0, start)];
+    const fresh = rotation.filter(videoId => !this.recentVideoIds.includes(videoId));
+    const candidates = fresh.length > 0 || !allowRepeats ? fresh : rotation;
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const lookupResult = await this.searchService.lookup('youtube', candidates);
+    if (!lookupResult.success || lookupResult.value.length === 0) {
+      return null;
+    }
+
+    const result = lookupResult.value[0];
+    return { result, nextCursor: videoIds.indexOf(result.sourceId) + 1 };
+  }
+
+  /**
+   * Make way for a guest request: drop queued autoplay tracks and cut the radio track short
+   * Requirements: 14.4
+   */
+  private async preempt(guestItem: QueueItem): Promise<void> {
+    const queueState = this.queueService.getQueueState();
+    const jukeboxRequester = { userId: JUKEBOX_USER.id, isHost: false };
+
+    for (const item of queueState.upcomingTracks) {
+      if (isAutoplayItem(item)) {
+        this.queueService.removeTrack(item.id, jukeboxRequester);
+      }
+    }
+
+    if (this.interruptPlaying && isAutoplayItem(queueState.currentTrack) && queueState.currentTrack?.id !== guestItem.id) {
+      console.log(`📻 Guest request "${guestItem.track.title}" preempts autoplay`);
+      const skipResult = await this.orchestrator.skip();
+      if (!skipResult.success) {
+        console.error('Failed to skip autoplay track for guest request:', skipResult.error);
+      }
+    }
+  }
+
+  private fillIfIdle(): void {
+    if (this.settings.enabled && this.queueService.getQueueState().isEmpty) {
+      void this.fillQueue();
+    }
+  }
+
+  private rememberPlayed(videoId: string): void {
+    this.recentVideoIds = [...this.recentVideoIds.filter(id => id !== videoId), videoId].slice(-this.historySize);
+  }
+
+  private normalizeVideoIds(videoIds: readonly string[]): string[] {
+    return [...new Set(videoIds.map(videoId => videoId.trim()).filter(videoId => VideoIdUtils.isValidVideoId(videoId)))];
+  }
+}
@@ -0,0 +1,223 @@
+/**
+ * ContentPolicyService - Host rules for what guests may request
+ * Checks duration limits, live streams, blocklists, age restrictions and the
+ * music category before a track is queued. Rules that need facts the guest
+ * can't be trusted with (the real duration, the channel, the category) read
+ * them from the track's source; facts a source doesn't report never block a track,
+ * but a source that can't be reached holds the request back rather than trusting the guest
+ * Requirements: 26.1, 26.2, 26.3
+ */
+
+import { Result, SearchResult, Track, VideoIdUtils } from '@party-jukebox/shared';
+import { ITrackSourceRegistry } from '../domain/sources/types';
+import { ContentPolicySettings, ContentPolicyViolation } from '../domain/policy/types';
+import { ContentPolicyError } from '../domain/policy/errors';
+
+/**
+ * Content policy service interface
+ * Requirements: 26.1, 26.2, 26.3
+ */
+export interface IContentPolicyService {
+  getSettings(): ContentPolicySettings;
+  updateSettings(update: Partial<ContentPolicySettings>): ContentPolicySettings;
+  check(track: Track, details?: SearchResult | null): ContentPolicyViolation | null;
+  lookupDetails(track: Track): Promise<Result<SearchResult | null, ContentPolicyError>>;
+}
+
+/**
+ * Defaults keep hours-long loops and live streams out and leave the rest to the host
+ */
+export const DEFAULT_CONTENT_POLICY: ContentPolicySettings = {
+  maxDurationSeconds: 20 * 60,
+  minDurationSeconds: null,
+  blockLiveStreams: true,
+  blockedKeywords: [],
+  blockedChannels: [],
+  blockedVideoIds: [],
+  blockAgeRestricted: false,
+  musicOnly: false
+};
+
+/**
+ * Content policy service implementation
+ * Requirements: 26.1, 26.2, 26.3
+ */
+export class ContentPolicyService implements IContentPolicyService {
+  private settings: ContentPolicySettings;
+
+  constructor(
+    private readonly sources: ITrackSourceRegistry | null,
+    settings: Partial<ContentPolicySettings> = {}
+  ) {
+    this.settings = this.normalize({ ...DEFAULT_CONTENT_POLICY, ...settings });
+  }
+
+  /**
+   * Get the current rules
+   * Requirements: 26.2
+   */
+  getSettings(): ContentPolicySettings {
+    return this.settings;
+  }
+
+  /**
+   * Change some of the rules; they apply to the next request
+   * Requirements: 26.2
+   */
+  updateSettings(update: Partial<ContentPolicySettings>): ContentPolicySettings {
+    this.settings = this.normalize({ ...this.settings, ...update });
+    console.log('🛡️ Content policy updated');
+    return this.settings;
+  }
+
+  /**
+   * Find the first rule the track breaks, or null if it may be queued
+   * `details` is what the track's source reports about it, and is preferred
+   * over the metadata the guest sent
+   * Requirements: 26.1, 26.3
+   */
+  check(track: Track, details: SearchResult | null = null): ContentPolicyViolation | null {
+    const settings = this.settings;
+
+    if (track.source === 'youtube' && settings.blockedVideoIds.includes(track.sourceId)) {
+      return { rule: 'blocked_video', message: 'This video has been blocked by the host', match: track.sourceId };
+    }
+
+    const channel = details && settings.blockedChannels.find(entry =>
+      entry === details.channelId || this.fold(entry) === this.fold(details.channelTitle)
+    );
+    if (channel) {
+      return { rule: 'blocked_channel', message: 'Tracks from this channel have been blocked by the host', match: channel };
+    }
+
+    const text = this.fold([track.title, track.artist, details?.title, details?.channelTitle].filter(Boolean).join(' '));
+    const keyword = settings.blockedKeywords.find(entry => this.containsWord(text, entry));
+    if (keyword) {
+      return { rule: 'blocked_keyword', message: 'This track contains a word the host has blocked', match: keyword };
+    }
+
+    if (settings.blockLiveStreams && details?.isLive) {
+      return { rule: 'live_stream', message: 'Live streams and premieres can\'t be requested' };
+    }
+
+    if (settings.blockAgeRestricted && details?.isAgeRestricted) {
+      return { rule: 'age_restricted', message: 'Age-restricted tracks can\'t be requested' };
+    }
+
+    if (settings.musicOnly && details?.isMusic === false) {
+      return { rule: 'not_music', message: 'Only music can be requested' };
+    }
+
+    const duration = details?.duration || track.duration;
+    if (settings.maxDurationSeconds !== null && duration > settings.maxDurationSeconds) {
+      return {
+        rule: 'max_duration',
+        message: `Tracks can be at most ${this.formatDuration(settings.maxDurationSeconds)} long`,
+        limit: settings.maxDurationSeconds
+      };
+    }
+
+    if (settings.minDurationSeconds !== null && duration < settings.minDurationSeconds) {
+      return {
+        rule: 'min_duration',
+        message: `Tracks must be at least ${this.formatDuration(settings.minDurationSeconds)} long`,
+        limit: settings.minDurationSeconds
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Ask the track's source what it knows about the track, when a rule needs it
+   * Returns null if no rule needs it or the source can't look tracks up - the
+   * request then goes ahead on the guest's metadata. If the lookup fails while a
+   * rule only the source can vouch for is on, the request has to wait; otherwise
+   * a guest could dodge the duration limit by sending a made-up duration
+   * Requirements: 26.1
+   */
+  async lookupDetails(track: Track): Promise<Result<SearchResult | null, ContentPolicyError>> {
+    const provider = this.sources?.get(track.source);
+    if (!this.needsDetails() || !provider?.lookup) {
+      return { success: true, value: null };
+    }
+
+    try {
+      const [details] = await provider.lookup([track.sourceId]);
+      return { success: true, value: details ?? null };
+    } catch (error) {
+      console.warn(`⚠️ Could not look up ${track.source} track ${track.sourceId} for the content policy:`, error);
+      return this.needsVerifiedDetails()
+        ? { success: false, error: 'DETAILS_UNAVAILABLE' }
+        : { success: true, value: null };
+    }
+  }
+
+  /**
+   * Whether any rule beyond the video blocklist is on
+   */
+  private needsDetails(): boolean {
+    const settings = this.settings;
+    return settings.maxDurationSeconds !== null ||
+      settings.minDurationSeconds !== null ||
+      settings.blockLiveStreams ||
+      settings.blockAgeRestricted ||
+      settings.musicOnly ||
+      settings.blockedChannels.length > 0 ||
+      settings.blockedKeywords.length > 0;
+  }
+
+  /**
+   * Whether a rule is on that can't fall back to the guest's metadata;
+   * keywords are also matched against the title and artist that were sent
+   */
+  private needsVerifiedDetails(): boolean {
+    const settings = this.settings;
+    return settings.maxDurationSeconds !== null ||
+      settings.minDurationSeconds !== null ||
+      settings.blockLiveStreams ||
+      settings.blockAgeRestricted ||
+      settings.musicOnly ||
+      settings.blockedChannels.length > 0;
+  }
+
+  /**
+   * Drop empty and repeated blocklist entries, accept video URLs as well as IDs,
+   * and treat non-positive duration limits as no limit
+   */
+  private normalize(settings: ContentPolicySettings): ContentPolicySettings {
+    const list = (entries: readonly string[]) => [...new Set(entries.map(entry => entry.trim()).filter(Boolean))];
+    const limit = (seconds: number | null) => seconds !== null && seconds > 0 ? Math.round(seconds) : null;
+
+    return {
+      ...settings,
+      maxDurationSeconds: limit(settings.maxDurationSeconds),
+      minDurationSeconds: limit(settings.minDurationSeconds),
+      blockedKeywords: list(settings.blockedKeywords),
+      blockedChannels: list(settings.blockedChannels),
+      blockedVideoIds: list(settings.blockedVideoIds)
+        .map(entry => VideoIdUtils.isValidVideoId(entry) ? entry : VideoIdUtils.extractVideoIdFromUrl(entry))
+        .filter((videoId): videoId is string => !!videoId)
+    };
+  }
+
+  /**
+   * Lowercase and strip accents, so "Café" matches "cafe"
+   */
+  private fold(value: string): string {
+    return value.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+  }
+
+  private containsWord(text: string, word: string): boolean {
+    const escaped = this.fold(word).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, 'u').test(text);
+  }
+
+  private formatDuration(seconds: number): string {
+    if (seconds % 60 !== 0) {
+      return `${seconds} seconds`;
+    }
+    const minutes = seconds / 60;
+    return minutes === 1 ? '1 minute' : `${minutes} minutes`;
+  }
+}
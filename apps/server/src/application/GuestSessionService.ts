@@ -0,0 +1,184 @@
+/**
+ * GuestSessionService - Binds a stable user ID to each guest's device
+ * Joining hands out a long-lived token signed with a server secret, so the
+ * user ID can't be forged or swapped by changing nickname. The nickname is
+ * profile data the guest can change at any time
+ * Requirements: 28.1, 28.2, 28.3
+ */
+
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { Result, User, UserValidator } from '@party-jukebox/shared';
+import { GuestProfile, GuestSession } from '../domain/guests/types';
+import { GuestSessionError } from '../domain/guests/errors';
+import { GuestSnapshot } from '../domain/persistence/types';
+
+/**
+ * Guest session configuration
+ */
+export interface GuestSessionConfig {
+  secret?: string | undefined;
+  defaultNickname?: string;
+}
+
+/**
+ * Guest session interface
+ * Requirements: 28.1, 28.2
+ */
+export interface IGuestSessionService {
+  join(nickname?: string, token?: string): Result<GuestSession, GuestSessionError>;
+  resolve(token: string | undefined): User | null;
+  getUser(userId: string): User | null;
+  updateNickname(userId: string, nickname: string): Result<User, GuestSessionError>;
+  exportSnapshot(): GuestSnapshot;
+  restoreSnapshot(snapshot: GuestSnapshot): void;
+}
+
+/**
+ * Guest session implementation with HMAC-signed tokens and in-memory profiles
+ * Requirements: 28.1, 28.2, 28.3
+ */
+export class GuestSessionService implements IGuestSessionService {
+  private secret: string;
+  private readonly secretConfigured: boolean;
+  private readonly defaultNickname: string;
+  private readonly profiles = new Map<string, GuestProfile>();
+
+  constructor(config: GuestSessionConfig = {}) {
+    const configuredSecret = config.secret?.trim();
+    this.secretConfigured = !!configuredSecret;
+    this.secret = configuredSecret || randomBytes(32).toString('hex');
+    this.defaultNickname = config.defaultNickname ?? 'Guest';
+  }
+
+  /**
+   * Start a session for a device, or pick up the one its token belongs to
+   * A device that already joined keeps its user ID; a nickname renames it
+   * Requirements: 28.1, 28.2
+   */
+  join(nickname?: string, token?: string): Result<GuestSession, GuestSessionError> {
+    if (nickname !== undefined && !UserValidator.validateNickname(nickname)) {
+      return { success: false, error: 'INVALID_NICKNAME' };
+    }
+
+    const existing = this.resolve(token);
+    if (existing) {
+      const user = nickname !== undefined ? this.setProfile(existing.id, nickname) : existing;
+      return { success: true, value: { token: token!, user, isNew: false } };
+    }
+
+    const userId = randomUUID();
+    const user = this.setProfile(userId, nickname ?? this.defaultNickname);
+    console.log(`👋 Guest ${user.nickname} joined as ${userId}`);
+
+    return { success: true, value: { token: this.sign(userId), user, isNew: true } };
+  }
+
+  /**
+   * Resolve the user a session token belongs to, or null if it isn't one of ours
+   * A valid token whose profile was lost gets a fresh profile under the same ID
+   * Requirements: 28.1, 28.3
+   */
+  resolve(token: string | undefined): User | null {
+    const userId = this.verify(token);
+    if (!userId) {
+      return null;
+    }
+
+    const profile = this.profiles.get(userId);
+    return profile
+      ? { id: profile.userId, nickname: profile.nickname }
+      : this.setProfile(userId, this.defaultNickname);
+  }
+
+  /**
+   * Look up a guest who already joined, e.g. the user behind a WebSocket connection
+   * Requirements: 28.1, 29.1
+   */
+  getUser(userId: string): User | null {
+    const profile = this.profiles.get(userId);
+    return profile ? { id: profile.userId, nickname: profile.nickname } : null;
+  }
+
+  /**
+   * Change a guest's nickname
+   * Requirements: 28.2
+   */
+  updateNickname(userId: string, nickname: string): Result<User, GuestSessionError> {
+    if (!this.profiles.has(userId)) {
+      return { success: false, error: 'INVALID_SESSION' };
+    }
+
+    if (!UserValidator.validateNickname(nickname)) {
+      return { success: false, error: 'INVALID_NICKNAME' };
+    }
+
+    return { success: true, value: this.setProfile(userId, nickname) };
+  }
+
+  /**
+   * Export guest profiles for persistence
+   * A generated secret goes along so tokens handed out stay valid after a restart
+   * Requirements: 8.1, 28.3
+   */
+  exportSnapshot(): GuestSnapshot {
+    return {
+      ...(!this.secretConfigured && { secret: this.secret }),
+      profiles: Array.from(this.profiles.values())
+    };
+  }
+
+  /**
+   * Replace guest profiles with a previously persisted snapshot
+   * A configured secret always wins over a persisted one
+   * Requirements: 8.2, 28.3
+   */
+  restoreSnapshot(snapshot: GuestSnapshot): void {
+    if (!this.secretConfigured && snapshot.secret) {
+      this.secret = snapshot.secret;
+    }
+
+    this.profiles.clear();
+    for (const profile of snapshot.profiles) {
+      if (UserValidator.validateId(profile.userId) && UserValidator.validateNickname(profile.nickname)) {
+        this.profiles.set(profile.userId, profile);
+      }
+    }
+  }
+
+  private setProfile(userId: string, nickname: string): User {
+    const profile: GuestProfile = {
+      userId,
+      nickname: nickname.trim(),
+      joinedAt: this.profiles.get(userId)?.joinedAt ?? new Date()
+    };
+    this.profiles.set(userId, profile);
+    return { id: profile.userId, nickname: profile.nickname };
+  }
+
+  /**
+   * Tokens are the user ID and its HMAC, so they can be checked without a lookup
+   */
+  private sign(userId: string): string {
+    return `${userId}.${this.signature(userId)}`;
+  }
+
+  private verify(token: string | undefined): string | null {
+    if (typeof token !== 'string') {
+      return null;
+    }
+
+    const separator = token.lastIndexOf('.');
+    if (separator <= 0) {
+      return null;
+    }
+
+    const userId = token.slice(0, separator);
+    const expected = Buffer.from(this.signature(userId));
+    const received = Buffer.from(token.slice(separator + 1));
+    return expected.length === received.length && timingSafeEqual(expected, received) ? userId : null;
+  }
+
+  private signature(userId: string): string {
+    return createHmac('sha256', this.secret).update(userId).digest('base64url');
+  }
+}
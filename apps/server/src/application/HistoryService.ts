@@ -0,0 +1,286 @@
+/**
+ * HistoryService - Log of everything the party played, skipped or failed to play
+ * Records each queue item as its turn ends, keeps the log in a store so it
+ * survives a restart, and answers paged lookups and exports for the host
+ * Requirements: 24.1, 24.2, 24.3
+ */
+
+import { randomUUID } from 'crypto';
+import { Result } from '@party-jukebox/shared';
+import { IPlaybackOrchestrator } from '../domain/playback/interfaces';
+import { PlaybackEvent } from '../domain/playback/types';
+import { ITrackSourceRegistry } from '../domain/sources/types';
+import { IHistoryStore } from '../domain/history/interfaces';
+import {
+  HistoryEntry,
+  HistoryExport,
+  HistoryExportFormat,
+  HistoryPage,
+  HistoryQuery
+} from '../domain/history/types';
+import { HistoryError } from '../domain/history/errors';
+
+/**
+ * History configuration
+ */
+export interface HistoryConfig {
+  maxEntries?: number; // Oldest entries are dropped past this. Default: 5000
+  now?: () => Date;
+}
+
+/**
+ * History service interface
+ * Requirements: 24.2, 24.3
+ */
+export interface IHistoryService {
+  query(query?: HistoryQuery): HistoryPage;
+  export(format: HistoryExportFormat, query?: HistoryQuery): HistoryExport;
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+const CSV_COLUMNS = [
+  'ended_at',
+  'started_at',
+  'outcome',
+  'played_seconds',
+  'title',
+  'artist',
+  'duration',
+  'source',
+  'source_id',
+  'url',
+  'requested_by',
+  'added_at',
+  'error'
+];
+
+/**
+ * History service implementation
+ * Requirements: 24.1, 24.2, 24.3
+ */
+export class HistoryService implements IHistoryService {
+  private readonly maxEntries: number;
+  private readonly now: () => Date;
+  private entries: HistoryEntry[] = []; // Oldest first
+  private readonly startTimes = new Map<string, Date>(); // Queue item id -> when it started playing
+  private orchestrator: IPlaybackOrchestrator | null = null;
+  private storedEntries = 0; // Lines in the store, including entries already dropped from memory
+  private pendingWrites: Promise<unknown> = Promise.resolve();
+
+  private readonly handlePlaybackEvent = (event: PlaybackEvent): void => {
+    const item = event.data.track;
+    if (!item) {
+      return;
+    }
+
+    if (event.type === 'track_started') {
+      if (!this.startTimes.has(item.id)) {
+        this.startTimes.set(item.id, event.timestamp);
+      }
+    } else if ((event.type === 'track_finished' || event.type === 'track_failed') && event.data.outcome) {
+      const startedAt = this.startTimes.get(item.id) ?? null;
+      this.startTimes.delete(item.id);
+
+      this.record({
+        id: randomUUID(),
+        queueItemId: item.id,
+        track: item.track,
+        requestedBy: item.addedBy,
+        addedAt: item.addedAt,
+        startedAt,
+        endedAt: event.timestamp,
+        playedSeconds: event.data.playedSeconds ?? 0,
+        outcome: event.data.outcome,
+        ...(event.data.error && { error: event.data.error })
+      });
+    }
+  };
+
+  constructor(
+    private readonly store: IHistoryStore,
+    private readonly sources: ITrackSourceRegistry,
+    config: HistoryConfig = {}
+  ) {
+    this.maxEntries = Math.max(1, config.maxEntries ?? 5000);
+    this.now = config.now ?? (() => new Date());
+  }
+
+  /**
+   * Load the log from the store, dropping entries past the retention limit
+   * Requirements: 24.1
+   */
+  async restore(): Promise<Result<number, HistoryError>> {
+    const loadResult = await this.store.load();
+    if (!loadResult.success) {
+      return loadResult;
+    }
+
+    this.entries = loadResult.value.slice(-this.maxEntries);
+    this.storedEntries = loadResult.value.length;
+    if (this.entries.length < loadResult.value.length) {
+      await this.compact();
+    }
+
+    if (this.entries.length > 0) {
+      console.log(`📜 Restored ${this.entries.length} play history entries`);
+    }
+    return { success: true, value: this.entries.length };
+  }
+
+  /**
+   * Begin recording tracks as their turn ends
+   * Requirements: 24.1
+   */
+  start(orchestrator: IPlaybackOrchestrator): void {
+    if (this.orchestrator) {
+      return;
+    }
+
+    this.orchestrator = orchestrator;
+    orchestrator.addEventListener(this.handlePlaybackEvent);
+  }
+
+  /**
+   * Stop recording and wait for entries still being written
+   * Requirements: 24.1
+   */
+  async stop(): Promise<void> {
+    if (this.orchestrator) {
+      this.orchestrator.removeEventListener(this.handlePlaybackEvent);
+      this.orchestrator = null;
+    }
+
+    await this.pendingWrites;
+  }
+
+  /**
+   * Find entries, most recent first
+   * Requirements: 24.2
+   */
+  query(query: HistoryQuery = {}): HistoryPage {
+    const matches = this.filter(query).reverse();
+    const limit = Math.min(Math.max(1, Math.floor(query.limit ?? DEFAULT_PAGE_SIZE)), MAX_PAGE_SIZE);
+    const page = Math.max(1, Math.floor(query.page ?? 1));
+    const start = (page - 1) * limit;
+
+    return {
+      entries: matches.slice(start, start + limit),
+      pagination: {
+        currentPage: page,
+        totalResults: matches.length,
+        resultsPerPage: limit,
+        hasNextPage: start + limit < matches.length,
+        hasPrevPage: page > 1
+      }
+    };
+  }
+
+  /**
+   * Export every matching entry, in the order they played
+   * Paging options are ignored; M3U lists only tracks that played
+   * Requirements: 24.3
+   */
+  export(format: HistoryExportFormat, query: HistoryQuery = {}): HistoryExport {
+    const entries = this.filter(query);
+    const filename = `party-history-${this.now().toISOString().slice(0, 10)}.${format}`;
+
+    switch (format) {
+      case 'csv':
+        return { contentType: 'text/csv; charset=utf-8', filename, body: this.toCsv(entries) };
+      case 'm3u':
+        return { contentType: 'audio/x-mpegurl; charset=utf-8', filename, body: this.toM3u(entries) };
+      case 'json':
+        return { contentType: 'application/json; charset=utf-8', filename, body: JSON.stringify(entries, null, 2) };
+    }
+  }
+
+  /**
+   * Add an entry to the log and queue its write to the store
+   * The player reports some endings twice (a failure followed by the end of
+   * the file), so a repeat of the last entry's queue item is ignored unless it
+   * started playing again
+   * Requirements: 24.1
+   */
+  private record(entry: HistoryEntry): void {
+    const last = this.entries[this.entries.length - 1];
+    if (last?.queueItemId === entry.queueItemId && !entry.startedAt) {
+      return;
+    }
+
+    this.entries.push(entry);
+    if (this.entries.length > this.maxEntries) {
+      this.entries = this.entries.slice(-this.maxEntries);
+    }
+
+    // Writes run one at a time so the file keeps the play order
+    this.storedEntries++;
+    this.pendingWrites = this.pendingWrites.then(() => this.store.append(entry));
+
+    // Rewriting the store drops old entries, but only once enough have piled up
+    if (this.storedEntries > this.maxEntries * 1.1) {
+      void this.compact();
+    }
+  }
+
+  private compact(): Promise<unknown> {
+    const entries = this.entries;
+    this.storedEntries = entries.length;
+    this.pendingWrites = this.pendingWrites.then(() => this.store.replace(entries));
+    return this.pendingWrites;
+  }
+
+  private filter(query: HistoryQuery): HistoryEntry[] {
+    const search = query.search?.trim().toLowerCase();
+
+    return this.entries.filter(entry =>
+      (!query.outcome || entry.outcome === query.outcome) &&
+      (!query.userId || entry.requestedBy.id === query.userId) &&
+      (!query.source || entry.track.source === query.source) &&
+      (!query.from || entry.endedAt >= query.from) &&
+      (!query.to || entry.endedAt < query.to) &&
+      (!search || [entry.track.title, entry.track.artist, entry.requestedBy.nickname]
+        .some(value => value.toLowerCase().includes(search)))
+    );
+  }
+
+  private toCsv(entries: HistoryEntry[]): string {
+    const rows = entries.map(entry => [
+      entry.endedAt.toISOString(),
+      entry.startedAt?.toISOString() ?? '',
+      entry.outcome,
+      String(entry.playedSeconds),
+      entry.track.title,
+      entry.track.artist,
+      String(entry.track.duration),
+      entry.track.source,
+      entry.track.sourceId,
+      this.sources.getTrackUrl(entry.track) ?? '',
+      entry.requestedBy.nickname,
+      entry.addedAt.toISOString(),
+      entry.error ?? ''
+    ]);
+
+    return [CSV_COLUMNS, ...rows].map(row => row.map(value => this.toCsvField(value)).join(',')).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Quote fields that need it, and keep spreadsheets from running titles that look like formulas
+   */
+  private toCsvField(value: string): string {
+    const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+  }
+
+  private toM3u(entries: HistoryEntry[]): string {
+    const lines = ['#EXTM3U'];
+    for (const entry of entries) {
+      const url = entry.outcome === 'played' ? this.sources.getTrackUrl(entry.track) : null;
+      if (url) {
+        lines.push(`#EXTINF:${entry.track.duration},${entry.track.artist} - ${entry.track.title}`.replace(/[\r\n]+/g, ' '), url);
+      }
+    }
+    return lines.join('\n') + '\n';
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * HostAuthService - Unlocks the host role with a PIN
+ * The PIN is either configured up front or generated at startup and shown
+ * on the TV, and unlocking hands out an opaque token for later requests
+ * Requirements: 10.1, 10.2, 10.3
+ */
+
+import { randomBytes, randomInt, timingSafeEqual } from 'crypto';
+import { Result, UserRole } from '@party-jukebox/shared';
+import { HostAuthError } from '../domain/auth/errors';
+
+/**
+ * Host authentication configuration
+ */
+export interface HostAuthConfig {
+  pin?: string | undefined;
+  maxFailedAttempts?: number;
+  lockoutMs?: number;
+}
+
+/**
+ * Host authentication interface
+ * Requirements: 10.1, 10.2
+ */
+export interface IHostAuthService {
+  getPin(): string;
+  unlock(pin: string, clientKey: string): Result<string, HostAuthError>;
+  issueToken(): string;
+  resolveRole(token: string | undefined): UserRole;
+  revoke(token: string): void;
+}
+
+interface FailedAttempts {
+  count: number;
+  firstFailureAt: number;
+}
+
+/**
+ * Host authentication implementation with in-memory tokens
+ * Requirements: 10.1, 10.2, 10.3
+ */
+export class HostAuthService implements IHostAuthService {
+  private readonly PIN_LENGTH = 4;
+  private readonly pin: string;
+  private readonly maxFailedAttempts: number;
+  private readonly lockoutMs: number;
+  private readonly hostTokens = new Set<string>();
+  private readonly failedAttempts = new Map<string, FailedAttempts>();
+
+  constructor(config: HostAuthConfig = {}) {
+    const configuredPin = config.pin?.trim();
+    this.pin = configuredPin || this.generatePin();
+    this.maxFailedAttempts = config.maxFailedAttempts ?? 5;
+    this.lockoutMs = config.lockoutMs ?? 5 * 60 * 1000;
+  }
+
+  /**
+   * Get the PIN to show on the TV display
+   * Requirements: 10.1
+   */
+  getPin(): string {
+    return this.pin;
+  }
+
+  /**
+   * Exchange the PIN for a host token
+   * Repeated failures from the same client are locked out to stop PIN guessing
+   * Requirements: 10.2, 10.3
+   */
+  unlock(pin: string, clientKey: string): Result<string, HostAuthError> {
+    const now = Date.now();
+    const attempts = this.failedAttempts.get(clientKey);
+
+    if (attempts && now - attempts.firstFailureAt > this.lockoutMs) {
+      this.failedAttempts.delete(clientKey);
+    } else if (attempts && attempts.count >= this.maxFailedAttempts) {
+      return { success: false, error: 'TOO_MANY_ATTEMPTS' };
+    }
+
+    if (!this.isPinMatch(pin)) {
+      const current = this.failedAttempts.get(clientKey);
+      this.failedAttempts.set(clientKey, {
+        count: (current?.count ?? 0) + 1,
+        firstFailureAt: current?.firstFailureAt ?? now
+      });
+      return { success: false, error: 'INVALID_PIN' };
+    }
+
+    this.failedAttempts.delete(clientKey);
+    return { success: true, value: this.issueToken() };
+  }
+
+  /**
+   * Issue a host token directly, for clients that are trusted without a PIN
+   * Requirements: 10.1
+   */
+  issueToken(): string {
+    const token = randomBytes(24).toString('hex');
+    this.hostTokens.add(token);
+    return token;
+  }
+
+  /**
+   * Resolve the role a token grants, defaulting to guest
+   * Requirements: 10.2
+   */
+  resolveRole(token: string | undefined): UserRole {
+    return token && this.hostTokens.has(token) ? 'host' : 'guest';
+  }
+
+  /**
+   * Invalidate a previously issued host token
+   * Requirements: 10.2
+   */
+  revoke(token: string): void {
+    this.hostTokens.delete(token);
+  }
+
+  private isPinMatch(pin: string): boolean {
+    const expected = Buffer.from(this.pin);
+    const received = Buffer.from(typeof pin === 'string' ? pin.trim() : '');
+    return expected.length === received.length && timingSafeEqual(expected, received);
+  }
+
+  private generatePin(): string {
+    return randomInt(0, 10 ** this.PIN_LENGTH).toString().padStart(this.PIN_LENGTH, '0');
+  }
+}
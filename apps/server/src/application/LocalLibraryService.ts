@@ -0,0 +1,349 @@
+/**
+ * LocalLibraryService - Indexes and serves the host's own music files
+ * Scans a directory of audio files, reads their tags and keeps an in-memory
+ * index for search, so the party keeps going when the internet doesn't
+ * Requirements: 19.1, 19.2, 19.3, 19.4
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Result, SearchResult } from '@party-jukebox/shared';
+import { ResolvedStream } from '../domain/playback/types';
+import { CoverArt, ITagReader, LibraryStatus, LibraryTrack } from '../domain/library/types';
+import { LibraryError } from '../domain/library/errors';
+
+/**
+ * Local library configuration
+ */
+export interface LocalLibraryConfig {
+  rootDir: string;
+  rescanIntervalMs?: number; // 0 or absent: only scan at start and on request
+}
+
+/**
+ * Local library service interface
+ * Requirements: 19.1, 19.2, 19.3, 19.4
+ */
+export interface ILocalLibraryService {
+  getStatus(): LibraryStatus;
+  getTrack(id: string): LibraryTrack | null;
+  search(query: string, limit: number): SearchResult[];
+  getCoverArtUrl(id: string): string | undefined;
+  resolveStream(id: string): Promise<Result<ResolvedStream, LibraryError>>;
+  getCoverArt(id: string): Promise<Result<CoverArt, LibraryError>>;
+  rescan(): Promise<Result<LibraryStatus, LibraryError>>;
+}
+
+const AUDIO_EXTENSIONS = new Set([
+  '.mp3', '.flac', '.ogg', '.oga', '.opus', '.m4a', '.aac', '.wav', '.aif', '.aiff', '.wma'
+]);
+
+const ART_CONTENT_TYPES: Record<string, string> = {
+  mjpeg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  webp: 'image/webp'
+};
+
+const UNKNOWN_ARTIST = 'Unknown Artist';
+
+/**
+ * Lowercase and strip accents so "Beyoncé" matches "beyonce"
+ */
+function normalizeText(value: string): string {
+  return value.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/**
+ * Local library service implementation
+ * Requirements: 19.1, 19.2, 19.3, 19.4
+ */
+export class LocalLibraryService implements ILocalLibraryService {
+  private readonly rootDir: string;
+  private readonly rescanIntervalMs: number;
+  private tracks = new Map<string, LibraryTrack>();
+  private skippedFiles = 0;
+  private lastScanAt: Date | null = null;
+  private currentScan: Promise<Result<LibraryStatus, LibraryError>> | null = null;
+  private rescanTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    config: LocalLibraryConfig,
+    private readonly tagReader: ITagReader
+  ) {
+    this.rootDir = path.resolve(config.rootDir);
+    this.rescanIntervalMs = config.rescanIntervalMs ?? 0;
+  }
+
+  /**
+   * Index the library in the background and keep it fresh if configured to
+   * Requirements: 19.1
+   */
+  start(): void {
+    void this.rescan();
+
+    if (this.rescanIntervalMs > 0 && !this.rescanTimer) {
+      this.rescanTimer = setInterval(() => void this.rescan(), this.rescanIntervalMs);
+      this.rescanTimer.unref();
+    }
+  }
+
+  /**
+   * Stop periodic rescans; a scan already running is left to finish
+   */
+  stop(): void {
+    if (this.rescanTimer) {
+      clearInterval(this.rescanTimer);
+      this.rescanTimer = null;
+    }
+  }
+
+  /**
+   * Get a summary of the index
+   * Requirements: 19.1
+   */
+  getStatus(): LibraryStatus {
+    return {
+      rootDir: this.rootDir,
+      trackCount: this.tracks.size,
+      scanning: this.currentScan !== null,
+      lastScanAt: this.lastScanAt?.toISOString() ?? null,
+      skippedFiles: this.skippedFiles
+    };
+  }
+
+  /**
+   * Look up an indexed track
+   */
+  getTrack(id: string): LibraryTrack | null {
+    return this.tracks.get(id) ?? null;
+  }
+
+  /**
+   * Find tracks whose title, artist, album or file name contain every word of the query
+   * Title matches rank above artist and album matches
+   * Requirements: 19.3
+   */
+  search(query: string, limit: number): SearchResult[] {
+    const terms = normalizeText(query).split(/\s+/).filter(term => term.length > 0);
+    if (terms.length === 0 || limit < 1) {
+      return [];
+    }
+
+    const matches: Array<{ track: LibraryTrack; score: number }> = [];
+    for (const track of this.tracks.values()) {
+      const title = normalizeText(track.title);
+      const haystack = [title, normalizeText(track.artist), normalizeText(track.album ?? ''), normalizeText(path.basename(track.path))].join(' ');
+      if (!terms.every(term => haystack.includes(term))) {
+        continue;
+      }
+
+      const score = terms.filter(term => title.includes(term)).length;
+      matches.push({ track, score });
+    }
+
+    return matches
+      .sort((a, b) => b.score - a.score || a.track.title.localeCompare(b.track.title))
+      .slice(0, limit)
+      .map(match => this.toSearchResult(match.track));
+  }
+
+  /**
+   * URL the embedded cover art of a track is served at, if it has any
+   * Requirements: 19.2
+   */
+  getCoverArtUrl(id: string): string | undefined {
+    return this.tracks.get(id)?.artCodec ? this.artUrl(id) : undefined;
+  }
+
+  /**
+   * Point mpv straight at the file, no yt-dlp involved
+   * Waits for a running scan if the track isn't indexed yet, e.g. when a
+   * restored session starts playing before the startup scan is done
+   * Requirements: 19.4
+   */
+  async resolveStream(id: string): Promise<Result<ResolvedStream, LibraryError>> {
+    if (!this.tracks.has(id) && this.currentScan) {
+      await this.currentScan;
+    }
+
+    const libraryTrack = this.tracks.get(id);
+    if (!libraryTrack) {
+      return { success: false, error: 'TRACK_NOT_FOUND' };
+    }
+
+    try {
+      await fs.access(libraryTrack.path);
+    } catch {
+      return { success: false, error: 'FILE_MISSING' };
+    }
+
+    return {
+      success: true,
+      value: {
+        streamUrl: libraryTrack.path,
+        title: libraryTrack.title,
+        duration: libraryTrack.duration,
+        format: path.extname(libraryTrack.path).slice(1).toLowerCase(),
+        quality: 'original'
+      }
+    };
+  }
+
+  /**
+   * Extract a track's embedded cover art
+   * Requirements: 19.2
+   */
+  async getCoverArt(id: string): Promise<Result<CoverArt, LibraryError>> {
+    const libraryTrack = this.tracks.get(id);
+    if (!libraryTrack) {
+      return { success: false, error: 'TRACK_NOT_FOUND' };
+    }
+    if (!libraryTrack.artCodec) {
+      return { success: false, error: 'ART_NOT_FOUND' };
+    }
+
+    const data = await this.tagReader.readCoverArt(libraryTrack.path);
+    if (!data) {
+      return { success: false, error: 'ART_NOT_FOUND' };
+    }
+
+    return {
+      success: true,
+      value: { data, contentType: ART_CONTENT_TYPES[libraryTrack.artCodec] ?? 'application/octet-stream' }
+    };
+  }
+
+  /**
+   * Re-read the library directory
+   * Files unchanged since the last scan keep their tags; a scan already running is shared
+   * Requirements: 19.1, 19.2
+   */
+  rescan(): Promise<Result<LibraryStatus, LibraryError>> {
+    if (!this.currentScan) {
+      this.currentScan = this.scan().finally(() => {
+        this.currentScan = null;
+      });
+    }
+    return this.currentScan;
+  }
+
+  private async scan(): Promise<Result<LibraryStatus, LibraryError>> {
+    let files: string[];
+    try {
+      files = await this.listAudioFiles(this.rootDir);
+    } catch (error) {
+      console.error(`Failed to scan local library ${this.rootDir}:`, error);
+      return { success: false, error: 'SCAN_FAILED' };
+    }
+
+    const tracks = new Map<string, LibraryTrack>();
+    let skipped = 0;
+
+    for (const file of files) {
+      const libraryTrack = await this.indexFile(file);
+      if (libraryTrack) {
+        tracks.set(libraryTrack.id, libraryTrack);
+      } else {
+        skipped++;
+      }
+    }
+
+    this.tracks = tracks;
+    this.skippedFiles = skipped;
+    this.lastScanAt = new Date();
+
+    console.log(`📚 Local library: ${tracks.size} tracks indexed from ${this.rootDir}`);
+    if (skipped > 0) {
+      console.warn(`⚠️ Skipped ${skipped} audio files without readable tags or duration${tracks.size === 0 ? ' (is ffprobe installed?)' : ''}`);
+    }
+
+    return { success: true, value: { ...this.getStatus(), scanning: false } };
+  }
+
+  /**
+   * Index one file, reusing the previous entry if the file hasn't changed
+   * Returns null for files that can't be played or read
+   */
+  private async indexFile(file: string): Promise<LibraryTrack | null> {
+    try {
+      const stats = await fs.stat(file);
+      const relativePath = path.relative(this.rootDir, file).split(path.sep).join('/');
+      const id = createHash('sha1').update(relativePath).digest('hex').slice(0, 16);
+
+      const previous = this.tracks.get(id);
+      if (previous && previous.size === stats.size && previous.modifiedAt === stats.mtimeMs) {
+        return previous;
+      }
+
+      const tags = await this.tagReader.readTags(file);
+      if (!tags || tags.duration <= 0) {
+        return null;
+      }
+
+      // Fall back to "Artist - Title" file names for untagged files
+      const baseName = path.basename(file, path.extname(file));
+      const separator = baseName.indexOf(' - ');
+      const nameArtist = separator > 0 ? baseName.slice(0, separator).trim() : '';
+      const nameTitle = separator > 0 ? baseName.slice(separator + 3).trim() : baseName.trim();
+
+      return {
+        id,
+        path: file,
+        title: tags.title || nameTitle || baseName,
+        artist: tags.artist || nameArtist || UNKNOWN_ARTIST,
+        duration: tags.duration,
+        size: stats.size,
+        modifiedAt: stats.mtimeMs,
+        ...(tags.album && { album: tags.album }),
+        ...(tags.artCodec && { artCodec: tags.artCodec })
+      };
+    } catch (error) {
+      console.warn(`Could not index ${file}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Recursively collect audio files, skipping hidden files and folders
+   */
+  private async listAudioFiles(dir: string): Promise<string[]> {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    const files: string[] = [];
+
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) {
+        continue;
+      }
+
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...await this.listAudioFiles(fullPath));
+      } else if (entry.isFile() && AUDIO_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+        files.push(fullPath);
+      }
+    }
+
+    return files.sort();
+  }
+
+  private toSearchResult(libraryTrack: LibraryTrack): SearchResult {
+    return {
+      source: 'local',
+      sourceId: libraryTrack.id,
+      title: libraryTrack.title,
+      artist: libraryTrack.artist,
+      duration: libraryTrack.duration,
+      thumbnailUrl: libraryTrack.artCodec ? this.artUrl(libraryTrack.id) : '',
+      channelTitle: libraryTrack.album ?? 'Local library',
+      publishedAt: ''
+    };
+  }
+
+  private artUrl(id: string): string {
+    return `/api/library/tracks/${id}/art`;
+  }
+}
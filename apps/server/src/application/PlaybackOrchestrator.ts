@@ -1,17 +1,19 @@
 /**
  * PlaybackOrchestrator - Central coordinator for music playback
  * Integrates queue management with stream resolution and playback control
- * Requirements: 3.1, 3.2, 3.4, 3.6, 4.1, 4.3
+ * Requirements: 3.1, 3.2, 3.4, 3.6, 4.1, 4.3, 17.1, 17.2, 20.4, 24.1
  */
 
 import { EventEmitter } from 'events';
-import { Result, QueueItem, VideoIdUtils } from '@party-jukebox/shared';
+import { Result, QueueItem } from '@party-jukebox/shared';
 import { IQueueService } from './QueueService';
 import { IPlaybackOrchestrator, IStreamResolver, IPlaybackController } from '../domain/playback/interfaces';
 import { 
   PlaybackState, 
   PlaybackEvent, 
-  PlaybackEventListener 
+  PlaybackEventListener,
+  SeekMode,
+  TrackOutcome
 } from '../domain/playback/types';
 import { 
   OrchestrationError, 
@@ -19,10 +21,35 @@ import {
   ResolutionError 
 } from '../domain/playback/errors';
 
+/**
+ * Next queue item whose stream is already resolved and preloaded in the player
+ * Requirements: 17.1, 17.2
+ */
+interface PreparedTrack {
+  readonly queueItem: QueueItem;
+  readonly duration: number;
+}
+
+/**
+ * A next track that could not be pre-resolved, and when it may be tried again
+ * Requirements: 17.1
+ */
+interface FailedPreparation {
+  readonly queueItemId: string;
+  readonly attempts: number;
+  readonly retryAt: number | null; // null: out of retries, left to resolve when it's needed
+}
+
+/**
+ * How long to wait before each retry of a failed pre-resolve; failures are often transient
+ */
+const PREPARATION_RETRY_DELAYS_MS = [5 * 1000, 15 * 1000, 45 * 1000];
+
 /**
  * PlaybackOrchestrator implementation
  * Coordinates queue system with stream resolution and playback
- * Requirements: 3.1, 3.2, 3.4, 3.6, 4.1, 4.3
+ * While a track plays, the next one is resolved and preloaded so the player can move on without a gap
+ * Requirements: 3.1, 3.2, 3.4, 3.6, 4.1, 4.3, 17.1, 17.2
  */
 export class PlaybackOrchestrator extends EventEmitter implements IPlaybackOrchestrator {
   private readonly queueService: IQueueService;
@@ -34,6 +61,10 @@ export class PlaybackOrchestrator extends EventEmitter implements IPlaybackOrche
   private currentState: PlaybackState;
   private queueMonitorInterval: NodeJS.Timeout | null = null;
   private isProcessingTrack = false;
+  private resumePoint: { queueItemId: string; position: number } | null = null;
+  private preparedTrack: PreparedTrack | null = null;
+  private isPreparingNext = false;
+  private failedPreparation: FailedPreparation | null = null; // Back off instead of retrying every monitor tick
 
   constructor(
     queueService: IQueueService,
@@ -116,6 +147,7 @@ export class PlaybackOrchestrator extends EventEmitter implements IPlaybackOrche
 
       // Reset state
       this.currentTrack = null;
+      this.preparedTrack = null;
       this.currentState = {
         status: 'idle',
         currentTrack: null,
@@ -211,6 +243,46 @@ export class PlaybackOrchestrator extends EventEmitter implements IPlaybackOrche
     }
   }
 
+  /**
+   * Seek within the current track
+   * The new position is published straight away so displays don't wait for the next progress update
+   * Requirements: 15.1, 15.2
+   */
+  async seek(seconds: number, mode: SeekMode = 'absolute'): Promise<Result<void, OrchestrationError>> {
+    try {
+      if (!this.currentTrack) {
+        return { 
+          success: false, 
+          error: 'NOTHING_PLAYING'
+        };
+      }
+
+      const result = await this.playbackController.seek(seconds, mode);
+      if (!result.success) {
+        return { 
+          success: false, 
+          error: result.error
+        };
+      }
+
+      // Update state
+      this.currentState = {
+        ...this.currentState,
+        position: this.playbackController.getCurrentState().position
+      };
+
+      this.emitStateChange();
+      return { success: true, value: undefined };
+
+    } catch (error) {
+      console.error('Failed to seek playback:', error);
+      return { 
+        success: false, 
+        error: 'MPV_NOT_RESPONDING'
+      };
+    }
+  }
+
   /**
    * Skip to next track
    * Requirements: 3.2, 3.3, 5.1, 5.2
@@ -229,6 +301,10 @@ export class PlaybackOrchestrator extends EventEmitter implements IPlaybackOrche
       this.isProcessingTrack = true;
 
       try {
+        if (this.currentTrack) {
+          this.emitTrackEnded(this.currentTrack, 'skipped');
+        }
+
         // First, advance the queue to get the next track BEFORE stopping current playback
         // This prevents the race condition where stop() triggers end-file -> handleTrackFinished -> advanceToNextTrack
         const advanceResult = this.queueService.advanceToNextTrack();
@@ -276,8 +352,9 @@ export class PlaybackOrchestrator extends EventEmitter implements IPlaybackOrche
   }
 
   /**
-   * Set volume (optional - for future admin functionality)
-   * Requirements: 2.3
+   * Set the volume sent to the player
+   * Mute, the host cap and ducking are resolved by VolumeService before this is called
+   * Requirements: 2.3, 16.1
    */
   async setVolume(level: number): Promise<Result<void, OrchestrationError>> {
     try {
@@ -314,6 +391,15 @@ export class PlaybackOrchestrator extends EventEmitter implements IPlaybackOrche
     }
   }
 
+  /**
+   * Resume a restored queue item from a saved position the next time it starts
+   * Only applies to the first track started after this call
+   * Requirements: 8.3
+   */
+  setResumePoint(queueItemId: string, position: number): void {
+    this.resumePoint = position > 0 ? { queueItemId, position } : null;
+  }
+
   /**
    * Get current playback state
    * Requirements: 4.1, 4.2, 4.3, 4.6
@@ -359,7 +445,7 @@ export class PlaybackOrchestrator extends EventEmitter implements IPlaybackOrche
     this.playbackController.addEventListener((event: PlaybackEvent) => {
       switch (event.type) {
         case 'track_finished':
-          this.handleTrackFinished();
+          this.handleTrackFinished(event.data.preloadStarted === true);
           break;
         
         case 'track_failed':
@@ -398,6 +484,12 @@ export class PlaybackOrchestrator extends EventEmitter implements IPlaybackOrche
         if (!this.playbackController.isPlaying() && !this.isProcessingTrack) {
           await this.checkAndStartPlayback();
         }
+
+        // Keep the preloaded track in step with the queue as it is edited and voted on
+        // Requirements: 17.1
+        if (this.currentTrack && !this.isProcessingTrack) {
+          await this.prepareNextTrack();
+        }
       } catch (error) {
         // Only log if we're still running to avoid "Cannot log after tests are done"
         if (this.isRunning) {
@@ -461,6 +553,8 @@ export class PlaybackOrchestrator extends EventEmitter implements IPlaybackOrche
     }
     
     this.currentTrack = track;
+    // Loading a stream replaces anything preloaded in the player
+    this.preparedTrack = null;
 
     try {
       if (this.isRunning) {
@@ -477,9 +571,8 @@ export class PlaybackOrchestrator extends EventEmitter implements IPlaybackOrche
       };
       this.emitStateChange();
 
-      // Resolve stream URL from video ID
-      const youtubeUrl = VideoIdUtils.constructYouTubeUrl(track.track.videoId);
-      const resolutionResult = await this.streamResolver.resolveStream(youtubeUrl);
+      // Resolve the stream URL, or the file path of a local track
+      const resolutionResult = await this.streamResolver.resolveTrack(track.track);
       
       if (!resolutionResult.success) {
         if (this.isRunning) {
@@ -501,8 +594,13 @@ export class PlaybackOrchestrator extends EventEmitter implements IPlaybackOrche
         currentTrack: track // Keep currentState in sync
       };
 
+      // Consume the resume point if it belongs to this track
+      // Requirements: 8.3
+      const startPosition = this.resumePoint?.queueItemId === track.id ? this.resumePoint.position : 0;
+      this.resumePoint = null;
+
       // Start playback
-      const playbackResult = await this.playbackController.loadAndPlay(resolvedStream.streamUrl);
+      const playbackResult = await this.playbackController.loadAndPlay(resolvedStream.streamUrl, startPosition);
       
       if (!playbackResult.success) {
         if (this.isRunning) {
@@ -516,14 +614,18 @@ export class PlaybackOrchestrator extends EventEmitter implements IPlaybackOrche
       this.currentState = {
         ...this.currentState,
         status: 'playing',
+        position: startPosition,
         currentTrack: track // Keep currentState in sync
       };
       this.emitStateChange();
+      this.emitTrackStarted(track);
 
       if (this.isRunning) {
         console.log(`Successfully started playback for track: ${track.track.title}`);
       }
 
+      void this.prepareNextTrack();
+
     } catch (error) {
       if (this.isRunning) {
         console.error(`Error starting playback for track ${track.track.title}:`, error);
@@ -539,9 +641,10 @@ export class PlaybackOrchestrator extends EventEmitter implements IPlaybackOrche
 
   /**
    * Handle track finished event from playback controller
-   * Requirements: 3.2, 4.1
+   * When the player has already moved on to the preloaded stream, only the queue needs to catch up
+   * Requirements: 3.2, 4.1, 17.2
    */
-  private async handleTrackFinished(): Promise<void> {
+  private async handleTrackFinished(preloadStarted = false): Promise<void> {
     try {
       // Don't auto-advance if we're in the middle of processing a track (e.g., during skip)
       if (this.isProcessingTrack) {
@@ -551,16 +654,33 @@ export class PlaybackOrchestrator extends EventEmitter implements IPlaybackOrche
 
       console.log('Track finished, advancing to next track');
 
+      // The player also reports the end of the file when it's stopped on shutdown
+      if (this.currentTrack && this.isRunning) {
+        this.emitTrackEnded(this.currentTrack, 'played');
+      }
+
+      const prepared = preloadStarted ? this.preparedTrack : null;
+      this.preparedTrack = null;
+
       // Advance queue to next track
       const advanceResult = this.queueService.advanceToNextTrack();
       
       if (!advanceResult.success || !advanceResult.value) {
         console.log('No more tracks in queue');
+        if (preloadStarted) {
+          // The preloaded track was removed after it was handed to the player
+          await this.playbackController.stop();
+        }
         this.handleEmptyQueue();
         return;
       }
 
-      // Start playing next track
+      if (prepared && prepared.queueItem.id === advanceResult.value.id) {
+        this.continueWithPreparedTrack(prepared);
+        return;
+      }
+
+      // Start playing next track - this also replaces a preloaded stream the queue has moved past
       await this.startPlayingTrack(advanceResult.value);
 
     } catch (error) {
@@ -569,6 +689,111 @@ export class PlaybackOrchestrator extends EventEmitter implements IPlaybackOrche
     }
   }
 
+  /**
+   * Adopt the preloaded track the player has just started
+   * Requirements: 17.2
+   */
+  private continueWithPreparedTrack(prepared: PreparedTrack): void {
+    const track = prepared.queueItem;
+    console.log(`⏭️ Continuing with preloaded track: ${track.track.title}`);
+
+    this.currentTrack = track;
+    this.currentState = {
+      ...this.currentState,
+      status: 'playing',
+      currentTrack: track,
+      position: 0,
+      duration: prepared.duration
+    };
+    this.emitStateChange();
+    this.emitTrackStarted(track);
+
+    void this.prepareNextTrack();
+  }
+
+  /**
+   * Resolve the next queue item and preload it behind the current track
+   * Failures are left for startPlayingTrack to report if the item is still next when it's needed
+   * Requirements: 17.1, 17.2
+   */
+  private async prepareNextTrack(): Promise<void> {
+    if (!this.isRunning || this.isPreparingNext || !this.currentTrack || !this.playbackController.preloadNext) {
+      return;
+    }
+
+    const next = this.queueService.getQueueState().upcomingTracks[0] ?? null;
+    if (next?.id === this.preparedTrack?.queueItem.id) {
+      return;
+    }
+
+    if (!next) {
+      // The queue now ends with the current track
+      this.preparedTrack = null;
+      await this.playbackController.clearPreloaded?.();
+      return;
+    }
+
+    const failed = this.failedPreparation;
+    if (failed?.queueItemId === next.id && (failed.retryAt === null || Date.now() < failed.retryAt)) {
+      return;
+    }
+
+    this.isPreparingNext = true;
+    const current = this.currentTrack;
+
+    try {
+      const resolutionResult = await this.streamResolver.resolveTrack(next.track);
+      if (!resolutionResult.success) {
+        console.warn(`Could not pre-resolve next track ${next.track.title}:`, resolutionResult.error);
+        this.recordFailedPreparation(next.id);
+        return;
+      }
+
+      // The track or the queue may have moved on while yt-dlp was running
+      if (
+        !this.isRunning ||
+        this.currentTrack !== current ||
+        this.queueService.getQueueState().upcomingTracks[0]?.id !== next.id
+      ) {
+        return;
+      }
+
+      const preloadResult = await this.playbackController.preloadNext(resolutionResult.value.streamUrl);
+      if (!preloadResult.success) {
+        console.warn(`Could not preload next track ${next.track.title}:`, preloadResult.error);
+        this.recordFailedPreparation(next.id);
+        return;
+      }
+
+      if (this.currentTrack !== current) {
+        return; // A skip replaced the player's playlist during the preload
+      }
+
+      this.preparedTrack = { queueItem: next, duration: resolutionResult.value.duration };
+      this.failedPreparation = null;
+      console.log(`⏭️ Preloaded next track: ${next.track.title}`);
+
+    } catch (error) {
+      console.error('Error preparing next track:', error);
+    } finally {
+      this.isPreparingNext = false;
+    }
+  }
+
+  /**
+   * Count a failed pre-resolve and schedule the next attempt, if any are left
+   * Requirements: 17.1
+   */
+  private recordFailedPreparation(queueItemId: string): void {
+    const attempts = this.failedPreparation?.queueItemId === queueItemId ? this.failedPreparation.attempts + 1 : 1;
+    const delay = PREPARATION_RETRY_DELAYS_MS[attempts - 1];
+    this.failedPreparation = {
+      queueItemId,
+      attempts,
+      retryAt: delay === undefined ? null : Date.now() + delay
+    };
+  }
+
   /**
    * Handle track failed event from playback controller
    * Requirements: 3.3, 5.1, 5.2
@@ -587,7 +812,8 @@ export class PlaybackOrchestrator extends EventEmitter implements IPlaybackOrche
 
     // Log the error with track context
     if (this.currentTrack) {
-      console.error(`Failed to resolve track: ${this.currentTrack.track.title} (${this.currentTrack.track.videoId})`);
+      console.error(`Failed to resolve track: ${this.currentTrack.track.title} (${this.currentTrack.track.source}:${this.currentTrack.track.sourceId})`);
+      this.emitTrackEnded(this.currentTrack, 'failed', error);
     }
 
     // Emit error event
@@ -607,6 +833,7 @@ export class PlaybackOrchestrator extends EventEmitter implements IPlaybackOrche
     // Log the error with track context
     if (this.currentTrack) {
       console.error(`Failed to play track: ${this.currentTrack.track.title}`);
+      this.emitTrackEnded(this.currentTrack, 'failed', error);
     }
 
     // Emit error event
@@ -642,7 +869,8 @@ export class PlaybackOrchestrator extends EventEmitter implements IPlaybackOrche
 
   /**
    * Handle empty queue state
-   * Requirements: 3.4
+   * Emits queue_empty once per transition to idle so autoplay can refill the queue
+   * Requirements: 3.4, 14.1
    */
   private handleEmptyQueue(): void {
     // Only update state if it's not already idle
@@ -661,6 +889,11 @@ export class PlaybackOrchestrator extends EventEmitter implements IPlaybackOrche
       };
 
       this.emitStateChange();
+      this.emitEvent({
+        type: 'queue_empty',
+        timestamp: new Date(),
+        data: { state: this.getCurrentState() }
+      });
     }
     // If already idle with no track, don't emit unnecessary events
   }
@@ -755,6 +988,44 @@ export class PlaybackOrchestrator extends EventEmitter implements IPlaybackOrche
     this.emitEvent(event);
   }
 
+  /**
+   * Emit track started event for the queue item now playing
+   * Requirements: 4.2, 17.2
+   */
+  private emitTrackStarted(track: QueueItem): void {
+    this.emitEvent({
+      type: 'track_started',
+      timestamp: new Date(),
+      data: {
+        track,
+        state: this.getCurrentState()
+      }
+    });
+  }
+
+  /**
+   * Emit the end of a queue item's turn, with how it ended and how much of it played
+   * Requirements: 24.1
+   */
+  private emitTrackEnded(track: QueueItem, outcome: TrackOutcome, error?: OrchestrationError): void {
+    // Position updates lag behind the player, so a track that played to the end counts in full
+    const playedSeconds = outcome === 'played'
+      ? this.currentState.duration || track.track.duration
+      : this.currentState.position;
+
+    this.emitEvent({
+      type: outcome === 'failed' ? 'track_failed' : 'track_finished',
+      timestamp: new Date(),
+      data: {
+        track,
+        outcome,
+        playedSeconds: Math.floor(playedSeconds),
+        ...(error && { error: error as PlaybackError }),
+        state: this.getCurrentState()
+      }
+    });
+  }
+
   /**
    * Emit error event
    * Requirements: 5.7
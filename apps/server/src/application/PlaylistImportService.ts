@@ -0,0 +1,209 @@
+/**
+ * PlaylistImportService - Adds a whole playlist or mix to the queue
+ * Lists the playlist through its source, then queues its playable tracks in
+ * playlist order under the usual validation and rate limiting. The host's
+ * imports aren't rate limited. Listing a long playlist can take a while, so
+ * progress is reported to listeners as the import goes.
+ * Requirements: 23.1, 23.2, 23.3
+ */
+
+import { randomUUID } from 'crypto';
+import { QueueItem, Result, ServiceError, TrackError, User } from '@party-jukebox/shared';
+import { IQueueService } from './QueueService';
+import { ITrackSourceRegistry, SourcePlaylist } from '../domain/sources/types';
+import {
+  PlaylistImportListener,
+  PlaylistImportProgress,
+  PlaylistImportSkip,
+  PlaylistImportStatus,
+  PlaylistImportSummary
+} from '../domain/playlists/types';
+import { PlaylistImportError } from '../domain/playlists/errors';
+
+/**
+ * Playlist import configuration
+ */
+export interface PlaylistImportConfig {
+  maxTracks?: number; // Playlist entries read per import. Default: 100
+  progressInterval?: number; // Report progress after this many tracks are queued. Default: 10
+}
+
+/**
+ * Playlist import service interface
+ * Requirements: 23.1, 23.3
+ */
+export interface IPlaylistImportService {
+  importPlaylist(url: string, user: User): Promise<Result<PlaylistImportSummary, PlaylistImportError>>;
+  addEventListener(listener: PlaylistImportListener): void;
+  removeEventListener(listener: PlaylistImportListener): void;
+}
+
+/**
+ * Playlist import service implementation
+ * Requirements: 23.1, 23.2, 23.3
+ */
+export class PlaylistImportService implements IPlaylistImportService {
+  private readonly maxTracks: number;
+  private readonly progressInterval: number;
+  private readonly listeners: PlaylistImportListener[] = [];
+  // One import per user at a time, so a double-tap doesn't queue a playlist twice
+  private readonly activeImports = new Set<string>();
+
+  constructor(
+    private readonly queueService: IQueueService,
+    private readonly sources: ITrackSourceRegistry,
+    config: PlaylistImportConfig = {}
+  ) {
+    this.maxTracks = config.maxTracks ?? 100;
+    this.progressInterval = config.progressInterval ?? 10;
+  }
+
+  /**
+   * Queue the playable tracks of a playlist, in playlist order
+   * Guests stop being able to add once their rate limit is reached; the
+   * remaining tracks are reported as skipped
+   * Requirements: 23.1, 23.2, 23.3
+   */
+  async importPlaylist(url: string, user: User): Promise<Result<PlaylistImportSummary, PlaylistImportError>> {
+    const reference = typeof url === 'string' ? this.sources.parsePlaylistUrl(url.trim()) : null;
+    const provider = reference ? this.sources.get(reference.source) : null;
+    if (!reference || !provider?.getPlaylist) {
+      return { success: false, error: 'INVALID_PLAYLIST_URL' };
+    }
+
+    if (this.activeImports.has(user.id)) {
+      return { success: false, error: 'IMPORT_IN_PROGRESS' };
+    }
+
+    const isHost = user.role === 'host';
+    if (!isHost && !this.queueService.getUserRateLimitInfo(user).canAddTrack) {
+      return { success: false, error: 'RATE_LIMIT_EXCEEDED' };
+    }
+
+    this.activeImports.add(user.id);
+    const progress = {
+      importId: randomUUID(),
+      source: reference.source,
+      playlistId: reference.playlistId,
+      requestedBy: user
+    };
+    const report = (status: PlaylistImportStatus, total: number, added: number, skipped: number, error?: PlaylistImportError) =>
+      this.notifyListeners({ ...progress, status, total, added, skipped, ...(error && { error }) });
+
+    try {
+      report('listing', 0, 0, 0);
+
+      let playlist: SourcePlaylist;
+      try {
+        playlist = await provider.getPlaylist(reference.playlistId, this.maxTracks);
+      } catch (error) {
+        const importError = this.mapListingError(error);
+        console.error(`Failed to list playlist ${reference.playlistId}:`, error);
+        report('failed', 0, 0, 0, importError);
+        return { success: false, error: importError };
+      }
+
+      const total = playlist.results.length;
+      if (total === 0) {
+        report('failed', 0, 0, 0, 'PLAYLIST_EMPTY');
+        return { success: false, error: 'PLAYLIST_EMPTY' };
+      }
+
+      report('adding', total, 0, 0);
+
+      const added: QueueItem[] = [];
+      const skipped: PlaylistImportSkip[] = [];
+      let rateLimited = false;
+
+      for (const result of playlist.results) {
+        const skip = (reason: ServiceError | TrackError) =>
+          skipped.push({ sourceId: result.sourceId, title: result.title, reason });
+
+        if (rateLimited) {
+          skip('RATE_LIMIT_EXCEEDED');
+          continue;
+        }
+
+        const trackResult = this.sources.createTrack({
+          title: result.title,
+          artist: result.artist,
+          source: result.source,
+          sourceId: result.sourceId,
+          duration: result.duration,
+          thumbnailUrl: result.thumbnailUrl
+        });
+        if (!trackResult.success) {
+          skip(trackResult.error);
+          continue;
+        }
+
+        const addResult = this.queueService.addTrackToQueue(trackResult.value, user, { ignoreRateLimit: isHost, details: result });
+        if (!addResult.success) {
+          rateLimited = addResult.error === 'RATE_LIMIT_EXCEEDED';
+          skip(addResult.error);
+          continue;
+        }
+
+        added.push(addResult.value);
+        if (added.length % this.progressInterval === 0) {
+          report('adding', total, added.length, skipped.length);
+        }
+      }
+
+      report('completed', total, added.length, skipped.length);
+      console.log(`📃 Imported ${added.length} of ${total} tracks from playlist ${reference.playlistId} for ${user.nickname}`);
+
+      return {
+        success: true,
+        value: {
+          importId: progress.importId,
+          source: reference.source,
+          playlistId: reference.playlistId,
+          added,
+          skipped,
+          unavailable: playlist.totalEntries - total
+        }
+      };
+    } finally {
+      this.activeImports.delete(user.id);
+    }
+  }
+
+  /**
+   * Subscribe to import progress
+   */
+  addEventListener(listener: PlaylistImportListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Unsubscribe from import progress
+   */
+  removeEventListener(listener: PlaylistImportListener): void {
+    const index = this.listeners.indexOf(listener);
+    if (index !== -1) {
+      this.listeners.splice(index, 1);
+    }
+  }
+
+  /**
+   * Map a source failure to an import error
+   * Requirements: 23.1
+   */
+  private mapListingError(error: unknown): PlaylistImportError {
+    if (error instanceof Error && error.message.toLowerCase().includes('not found')) {
+      return 'PLAYLIST_NOT_FOUND';
+    }
+    return 'SERVICE_UNAVAILABLE';
+  }
+
+  private notifyListeners(progress: PlaylistImportProgress): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(progress);
+      } catch (error) {
+        console.error('Error in playlist import listener:', error);
+      }
+    }
+  }
+}
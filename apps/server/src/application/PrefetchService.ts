@@ -0,0 +1,284 @@
+/**
+ * PrefetchService - Resolves upcoming tracks in the background
+ * Keeps the streams for the next few queue items in the resolver's cache,
+ * renewing them before they expire, so tracks start without waiting on yt-dlp
+ * Requirements: 18.1, 18.2, 18.3, 18.4
+ */
+
+import { QueueEvent, QueueItem } from '@party-jukebox/shared';
+import { IQueueService } from './QueueService';
+import { IStreamResolver } from '../domain/playback/interfaces';
+import { PrefetchListener, PrefetchStatus, PrefetchStatuses } from '../domain/playback/types';
+import { ResolutionError } from '../domain/playback/errors';
+
+/**
+ * Prefetch configuration
+ */
+export interface PrefetchConfig {
+  lookahead?: number; // upcoming tracks to keep resolved
+  concurrency?: number; // yt-dlp processes run at once; keep below the process limit so playback has a slot
+  refreshIntervalMs?: number; // how often to renew expiring streams and retry failed ones
+  refreshWindowMs?: number; // renew streams expiring within this long
+}
+
+/**
+ * Prefetch service interface
+ * Requirements: 18.4
+ */
+export interface IPrefetchService {
+  getStatuses(): PrefetchStatuses;
+  getStatus(queueItemId: string): PrefetchStatus | null;
+  addEventListener(listener: PrefetchListener): void;
+  removeEventListener(listener: PrefetchListener): void;
+}
+
+/**
+ * A queued resolution; refreshes renew a stream that is already ready
+ */
+interface PrefetchJob {
+  readonly queueItem: QueueItem;
+  readonly refresh: boolean;
+}
+
+/**
+ * Errors that say nothing about the track itself: the resolver reports a
+ * yt-dlp pool that stayed full as NETWORK_ERROR. These stay resolving and are
+ * retried on the next refresh rather than shown as failed
+ */
+const TRANSIENT_ERRORS: ReadonlySet<ResolutionError> = new Set<ResolutionError>(['NETWORK_ERROR', 'TIMEOUT']);
+
+/**
+ * Use a configured count if it is a positive whole number, otherwise the default
+ */
+function toCount(value: number | undefined, fallback: number): number {
+  return value !== undefined && Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Prefetch service implementation
+ * Requirements: 18.1, 18.2, 18.3, 18.4
+ */
+export class PrefetchService implements IPrefetchService {
+  private readonly lookahead: number;
+  private readonly concurrency: number;
+  private readonly refreshIntervalMs: number;
+  private readonly refreshWindowMs: number;
+  private readonly listeners: PrefetchListener[] = [];
+  private readonly statuses = new Map<string, PrefetchStatus>();
+  private readonly awaitingRetry = new Set<string>();
+  private targets: QueueItem[] = [];
+  private pending: PrefetchJob[] = [];
+  private activeJobs = 0;
+  private refreshTimer: NodeJS.Timeout | null = null;
+
+  private readonly queueListener = {
+    onQueueEvent: (event: QueueEvent): void => {
+      if (event.type !== 'RATE_LIMIT_EXCEEDED') {
+        this.sync();
+      }
+    }
+  };
+
+  constructor(
+    private readonly queueService: IQueueService,
+    private readonly streamResolver: IStreamResolver,
+    config: PrefetchConfig = {}
+  ) {
+    this.lookahead = toCount(config.lookahead, 3);
+    this.concurrency = toCount(config.concurrency, 1);
+    this.refreshIntervalMs = config.refreshIntervalMs ?? 30 * 1000;
+    this.refreshWindowMs = config.refreshWindowMs ?? 60 * 1000;
+  }
+
+  /**
+   * Start following the queue, renewing streams before they expire and
+   * retrying the ones that could not be resolved
+   * Requirements: 18.1, 18.3
+   */
+  start(): void {
+    this.queueService.addEventListener(this.queueListener);
+    this.sync();
+
+    if (!this.refreshTimer) {
+      this.refreshTimer = setInterval(() => this.refresh(), this.refreshIntervalMs);
+      this.refreshTimer.unref();
+    }
+  }
+
+  /**
+   * Stop prefetching; resolutions already running are left to finish
+   */
+  stop(): void {
+    this.queueService.removeEventListener(this.queueListener);
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    this.pending = [];
+    this.awaitingRetry.clear();
+  }
+
+  /**
+   * Get the status of every upcoming item being prefetched
+   * Requirements: 18.4
+   */
+  getStatuses(): PrefetchStatuses {
+    return Object.fromEntries(this.statuses);
+  }
+
+  /**
+   * Get the status of one queue item, or null if it isn't being prefetched
+   * Requirements: 18.4
+   */
+  getStatus(queueItemId: string): PrefetchStatus | null {
+    return this.statuses.get(queueItemId) ?? null;
+  }
+
+  /**
+   * Subscribe to prefetch status changes
+   * Requirements: 18.4
+   */
+  addEventListener(listener: PrefetchListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Unsubscribe from prefetch status changes
+   */
+  removeEventListener(listener: PrefetchListener): void {
+    const index = this.listeners.indexOf(listener);
+    if (index > -1) {
+      this.listeners.splice(index, 1);
+    }
+  }
+
+  /**
+   * Match the prefetched items to the head of the queue
+   * Items that left it are forgotten; new ones are queued for resolution
+   * Requirements: 18.1
+   */
+  private sync(): void {
+    this.targets = this.queueService.getQueueState().upcomingTracks.slice(0, this.lookahead);
+    const targetIds = new Set(this.targets.map(item => item.id));
+    let changed = false;
+
+    for (const id of [...this.statuses.keys()]) {
+      if (!targetIds.has(id)) {
+        this.statuses.delete(id);
+        this.awaitingRetry.delete(id);
+        changed = true;
+      }
+    }
+    this.pending = this.pending.filter(job => targetIds.has(job.queueItem.id));
+
+    for (const item of this.targets) {
+      if (this.statuses.has(item.id)) {
+        continue;
+      }
+
+      this.statuses.set(item.id, 'resolving');
+      this.pending.push({ queueItem: item, refresh: false });
+      changed = true;
+    }
+
+    if (changed) {
+      this.notifyListeners();
+    }
+    this.pump();
+  }
+
+  /**
+   * Retry items whose resolution failed and renew ready streams about to expire
+   * Requirements: 18.1, 18.3
+   */
+  private refresh(): void {
+    const isTrackExpiring = this.streamResolver.isTrackExpiring?.bind(this.streamResolver);
+
+    for (const item of this.targets) {
+      if (this.pending.some(job => job.queueItem.id === item.id)) {
+        continue;
+      }
+
+      const status = this.statuses.get(item.id);
+      if (status === 'failed') {
+        this.setStatus(item.id, 'resolving');
+        this.pending.push({ queueItem: item, refresh: false });
+      } else if (this.awaitingRetry.has(item.id)) {
+        this.pending.push({ queueItem: item, refresh: status === 'ready' });
+      } else if (status === 'ready' && isTrackExpiring?.(item.track, this.refreshWindowMs)) {
+        this.pending.push({ queueItem: item, refresh: true });
+      }
+      this.awaitingRetry.delete(item.id);
+    }
+
+    this.pump();
+  }
+
+  /**
+   * Start queued resolutions while there is room in the pool
+   * Requirements: 18.2
+   */
+  private pump(): void {
+    while (this.activeJobs < this.concurrency && this.pending.length > 0) {
+      const job = this.pending.shift()!;
+      this.activeJobs++;
+      void this.run(job).finally(() => {
+        this.activeJobs--;
+        this.pump();
+      });
+    }
+  }
+
+  /**
+   * Resolve one queue item and record the outcome if it is still wanted
+   * Requirements: 18.1, 18.3, 18.4
+   */
+  private async run(job: PrefetchJob): Promise<void> {
+    const { queueItem, refresh } = job;
+
+    try {
+      const result = refresh && this.streamResolver.refreshTrack
+        ? await this.streamResolver.refreshTrack(queueItem.track)
+        : await this.streamResolver.resolveTrack(queueItem.track);
+
+      if (!this.statuses.has(queueItem.id)) {
+        return; // Played, removed or pushed back while resolving
+      }
+
+      if (result.success) {
+        this.setStatus(queueItem.id, 'ready');
+      } else if (TRANSIENT_ERRORS.has(result.error)) {
+        this.awaitingRetry.add(queueItem.id); // Keeps its status until the next refresh
+      } else {
+        console.warn(`Prefetch failed for ${queueItem.track.title}:`, result.error);
+        this.setStatus(queueItem.id, 'failed');
+      }
+
+    } catch (error) {
+      console.error(`Prefetch error for ${queueItem.track.title}:`, error);
+      if (this.statuses.has(queueItem.id)) {
+        this.setStatus(queueItem.id, 'failed');
+      }
+    }
+  }
+
+  private setStatus(queueItemId: string, status: PrefetchStatus): void {
+    if (this.statuses.get(queueItemId) === status) {
+      return;
+    }
+
+    this.statuses.set(queueItemId, status);
+    this.notifyListeners();
+  }
+
+  private notifyListeners(): void {
+    const statuses = this.getStatuses();
+    for (const listener of this.listeners) {
+      try {
+        listener(statuses);
+      } catch (error) {
+        console.error('Error in prefetch listener:', error);
+      }
+    }
+  }
+}
@@ -6,9 +6,13 @@ import {
   QueueState, 
   QueueStateFactory, 
   QueueEvent, 
+  QueueOrderingMode,
+  QueueVoteDirection,
   QueueError, 
   Result 
 } from '@party-jukebox/shared';
+import { QueueSnapshot } from '../domain/persistence/types';
+import { QueueOrderingContext, QueueOrderingStrategies, createDefaultOrderingStrategies } from './QueueOrderingStrategy';
 
 /**
  * Queue manager interface for core queue operations
@@ -17,11 +21,21 @@ import {
 export interface IQueueManager {
   addTrack(track: Track, user: User): Result<QueueItem, QueueError>;
   advanceQueue(): Result<QueueItem | null, QueueError>;
+  removeTrack(queueItemId: string): Result<QueueItem, QueueError>;
+  moveTrack(queueItemId: string, newIndex: number): Result<QueueItem, QueueError>;
+  promoteTrack(queueItemId: string): Result<QueueItem, QueueError>;
+  voteTrack(queueItemId: string, userId: string, direction: QueueVoteDirection): Result<QueueItem, QueueError>;
+  setOrderingMode(mode: QueueOrderingMode): void;
+  getOrderingMode(): QueueOrderingMode;
   getCurrentTrack(): QueueItem | null;
   getUpcomingTracks(): QueueItem[];
   getQueueLength(): number;
   clearQueue(): void;
   getQueueState(): QueueState;
+  exportSnapshot(): QueueSnapshot;
+  restoreSnapshot(snapshot: QueueSnapshot): void;
+  addEventListener(listener: QueueEventListener): void;
+  removeEventListener(listener: QueueEventListener): void;
 }
 
 /**
@@ -39,6 +53,23 @@ export class QueueManager implements IQueueManager {
   private currentTrack: QueueItem | null = null;
   private upcomingTracks: QueueItem[] = [];
   private eventListeners: QueueEventListener[] = [];
+  private orderingMode: QueueOrderingMode = 'fifo';
+  // queue item id -> user id -> +1/-1
+  private votes = new Map<string, Map<string, number>>();
+  // queue item id -> arrival sequence, breaks addedAt ties within the same millisecond
+  private arrivalOrder = new Map<string, number>();
+  private nextArrival = 0;
+  // queue item id -> position when FIFO mode was last left, so host moves survive a mode switch
+  private fifoOrder = new Map<string, number>();
+  private readonly strategies: QueueOrderingStrategies;
+
+  /**
+   * Create a queue manager, optionally replacing the strategy for some ordering modes
+   * Requirements: 13.1
+   */
+  constructor(strategies: Partial<QueueOrderingStrategies> = {}) {
+    this.strategies = { ...createDefaultOrderingStrategies(), ...strategies };
+  }
 
   /**
    * Add a track to the queue
@@ -80,9 +111,11 @@ export class QueueManager implements IQueueManager {
     if (this.currentTrack === null) {
       this.currentTrack = queueItem;
     } else {
-      // Add to end of queue
-      // Requirements: 2.2, 2.4
+      // Add to end of queue, then let the active strategy place it
+      // Requirements: 2.2, 2.4, 13.1
+      this.arrivalOrder.set(queueItem.id, this.nextArrival++);
       this.upcomingTracks.push(queueItem);
+      this.applyOrdering();
     }
 
     // Emit event for track addition
@@ -112,6 +145,11 @@ export class QueueManager implements IQueueManager {
     // Requirements: 4.1, 4.2
     if (this.upcomingTracks.length > 0) {
       this.currentTrack = this.upcomingTracks.shift()!;
+      // Votes only order upcoming tracks
+      this.votes.delete(this.currentTrack.id);
+      this.arrivalOrder.delete(this.currentTrack.id);
+      // Fair share depends on whose track is playing
+      this.applyOrdering();
     } else {
       this.currentTrack = null;
     }
@@ -129,6 +167,142 @@ export class QueueManager implements IQueueManager {
     return { success: true, value: this.currentTrack };
   }
 
+  /**
+   * Remove an upcoming track from the queue
+   * The currently playing track is not removable - use skip instead
+   * Requirements: 9.1
+   */
+  removeTrack(queueItemId: string): Result<QueueItem, QueueError> {
+    const index = this.upcomingTracks.findIndex(item => item.id === queueItemId);
+    if (index < 0) {
+      return { success: false, error: 'TRACK_NOT_FOUND' };
+    }
+
+    const [queueItem] = this.upcomingTracks.splice(index, 1);
+    this.votes.delete(queueItem.id);
+    this.arrivalOrder.delete(queueItem.id);
+    this.applyOrdering();
+
+    // Requirements: 9.4
+    this.emitEvent({
+      type: 'TRACK_REMOVED',
+      payload: { queueItem }
+    });
+
+    return { success: true, value: queueItem };
+  }
+
+  /**
+   * Move an upcoming track to a new index within the upcoming tracks
+   * Only FIFO keeps a hand-made order; vote and fair modes would undo the move on the next change
+   * Requirements: 9.2, 13.3
+   */
+  moveTrack(queueItemId: string, newIndex: number): Result<QueueItem, QueueError> {
+    if (this.orderingMode !== 'fifo') {
+      return { success: false, error: 'REORDER_DISABLED' };
+    }
+
+    const fromIndex = this.upcomingTracks.findIndex(item => item.id === queueItemId);
+    if (fromIndex < 0) {
+      return { success: false, error: 'TRACK_NOT_FOUND' };
+    }
+
+    if (!Number.isInteger(newIndex) || newIndex < 0 || newIndex >= this.upcomingTracks.length) {
+      return { success: false, error: 'INVALID_POSITION' };
+    }
+
+    const [queueItem] = this.upcomingTracks.splice(fromIndex, 1);
+    this.upcomingTracks.splice(newIndex, 0, queueItem);
+
+    // Requirements: 9.4
+    this.emitEvent({
+      type: 'TRACK_MOVED',
+      payload: { queueItem, fromIndex, toIndex: newIndex }
+    });
+
+    return { success: true, value: queueItem };
+  }
+
+  /**
+   * Move an upcoming track to the front so it plays next
+   * Requirements: 9.3
+   */
+  promoteTrack(queueItemId: string): Result<QueueItem, QueueError> {
+    return this.moveTrack(queueItemId, 0);
+  }
+
+  /**
+   * Record a user's up or down vote on an upcoming track and re-sort by score
+   * Each user holds one vote per track; voting the other way replaces it
+   * Requirements: 12.1, 12.2
+   */
+  voteTrack(queueItemId: string, userId: string, direction: QueueVoteDirection): Result<QueueItem, QueueError> {
+    if (this.orderingMode !== 'vote') {
+      return { success: false, error: 'VOTING_DISABLED' };
+    }
+
+    if (typeof userId !== 'string' || userId.length === 0) {
+      return { success: false, error: 'INVALID_USER' };
+    }
+
+    const queueItem = this.upcomingTracks.find(item => item.id === queueItemId);
+    if (!queueItem) {
+      return { success: false, error: 'TRACK_NOT_FOUND' };
+    }
+
+    const value = direction === 'up' ? 1 : -1;
+    const itemVotes = this.votes.get(queueItemId) ?? new Map<string, number>();
+    if (itemVotes.get(userId) === value) {
+      return { success: false, error: 'ALREADY_VOTED' };
+    }
+
+    itemVotes.set(userId, value);
+    this.votes.set(queueItemId, itemVotes);
+    this.applyOrdering();
+
+    // Requirements: 12.3
+    this.emitEvent({
+      type: 'TRACK_VOTED',
+      payload: { queueItem, userId, direction, score: this.getScore(queueItemId) }
+    });
+
+    return { success: true, value: queueItem };
+  }
+
+  /**
+   * Switch the ordering mode
+   * Switching back to FIFO restores the order the queue had when FIFO was left,
+   * host moves included, with tracks requested since then after it in request order.
+   * Votes are kept so switching back to vote mode restores them
+   * Requirements: 12.4, 13.1, 13.3
+   */
+  setOrderingMode(mode: QueueOrderingMode): void {
+    if (mode === this.orderingMode) {
+      return;
+    }
+
+    if (this.orderingMode === 'fifo') {
+      this.fifoOrder = new Map(this.upcomingTracks.map((item, index) => [item.id, index]));
+    }
+
+    this.orderingMode = mode;
+    this.upcomingTracks.sort((a, b) => this.compareFifoOrder(a, b));
+    this.applyOrdering();
+
+    this.emitEvent({
+      type: 'ORDERING_MODE_CHANGED',
+      payload: { orderingMode: mode }
+    });
+  }
+
+  /**
+   * Get the active ordering mode
+   * Requirements: 12.4
+   */
+  getOrderingMode(): QueueOrderingMode {
+    return this.orderingMode;
+  }
+
   /**
    * Get the currently playing track
    * Requirements: 5.2
@@ -161,6 +335,9 @@ export class QueueManager implements IQueueManager {
   clearQueue(): void {
     this.currentTrack = null;
     this.upcomingTracks = [];
+    this.votes.clear();
+    this.arrivalOrder.clear();
+    this.fifoOrder.clear();
 
     // Emit event for queue clearing
     // Requirements: 5.4
@@ -172,10 +349,73 @@ export class QueueManager implements IQueueManager {
 
   /**
    * Get complete queue state
-   * Requirements: 5.1, 5.2, 5.3
+   * Requirements: 5.1, 5.2, 5.3, 12.3
    */
   getQueueState(): QueueState {
-    return QueueStateFactory.create(this.currentTrack, this.upcomingTracks);
+    const scores: Record<string, number> = {};
+    for (const item of this.upcomingTracks) {
+      scores[item.id] = this.getScore(item.id);
+    }
+
+    return QueueStateFactory.create(this.currentTrack, this.upcomingTracks, this.orderingMode, scores);
+  }
+
+  /**
+   * Export queue contents for persistence
+   * Requirements: 8.1
+   */
+  exportSnapshot(): QueueSnapshot {
+    const votes: Record<string, Record<string, number>> = {};
+    for (const [queueItemId, itemVotes] of this.votes) {
+      votes[queueItemId] = Object.fromEntries(itemVotes);
+    }
+
+    return {
+      currentTrack: this.currentTrack,
+      upcomingTracks: [...this.upcomingTracks],
+      orderingMode: this.orderingMode,
+      votes
+    };
+  }
+
+  /**
+   * Replace queue contents with a previously persisted snapshot
+   * Does not emit events - intended for use at startup before clients connect
+   * Requirements: 8.2
+   */
+  restoreSnapshot(snapshot: QueueSnapshot): void {
+    const items = [snapshot.currentTrack, ...snapshot.upcomingTracks]
+      .filter((item): item is QueueItem =>
+        item !== null &&
+        typeof item.id === 'string' &&
+        QueueItemValidator.validateTrack(item.track) &&
+        QueueItemValidator.validateUser(item.addedBy) &&
+        QueueItemValidator.validateTimestamp(item.addedAt)
+      );
+
+    // A missing current track promotes the first upcoming item, same as addTrack
+    this.currentTrack = items.shift() ?? null;
+    this.upcomingTracks = items;
+
+    // Older snapshots predate ordering modes and restore as FIFO
+    // Requirements: 12.4, 13.3
+    this.orderingMode = snapshot.orderingMode && snapshot.orderingMode in this.strategies
+      ? snapshot.orderingMode
+      : 'fifo';
+    this.votes.clear();
+    this.arrivalOrder.clear();
+    this.fifoOrder.clear();
+    this.nextArrival = 0;
+    for (const item of [...items].sort((a, b) => a.addedAt.getTime() - b.addedAt.getTime())) {
+      this.arrivalOrder.set(item.id, this.nextArrival++);
+    }
+    for (const item of items) {
+      const itemVotes = Object.entries(snapshot.votes?.[item.id] ?? {})
+        .filter(([, value]) => value === 1 || value === -1);
+      if (itemVotes.length > 0) {
+        this.votes.set(item.id, new Map(itemVotes));
+      }
+    }
   }
 
   /**
@@ -197,6 +437,54 @@ export class QueueManager implements IQueueManager {
     }
   }
 
+  /**
+   * Net score of an upcoming track
+   * Requirements: 12.3
+   */
+  private getScore(queueItemId: string): number {
+    let score = 0;
+    for (const value of this.votes.get(queueItemId)?.values() ?? []) {
+      score += value;
+    }
+    return score;
+  }
+
+  /**
+   * Request order: addedAt, then arrival sequence for tracks added in the same millisecond
+   * Requirements: 12.1
+   */
+  private compareArrival(a: QueueItem, b: QueueItem): number {
+    return a.addedAt.getTime() - b.addedAt.getTime() ||
+      (this.arrivalOrder.get(a.id) ?? 0) - (this.arrivalOrder.get(b.id) ?? 0);
+  }
+
+  /**
+   * Order the queue had when FIFO mode was last left, then request order for later tracks
+   * Requirements: 13.3
+   */
+  private compareFifoOrder(a: QueueItem, b: QueueItem): number {
+    const positionA = this.fifoOrder.get(a.id) ?? Infinity;
+    const positionB = this.fifoOrder.get(b.id) ?? Infinity;
+    if (positionA !== positionB) {
+      return positionA - positionB;
+    }
+    return this.compareArrival(a, b);
+  }
+
+  /**
+   * Re-order upcoming tracks with the active ordering strategy
+   * Requirements: 13.1
+   */
+  private applyOrdering(): void {
+    const context: QueueOrderingContext = {
+      currentTrack: this.currentTrack,
+      getScore: queueItemId => this.getScore(queueItemId),
+      compareArrival: (a, b) => this.compareArrival(a, b)
+    };
+
+    this.upcomingTracks = this.strategies[this.orderingMode].order(this.upcomingTracks, context);
+  }
+
   /**
    * Emit event to all registered listeners
    * Requirements: 5.4
@@ -0,0 +1,103 @@
+/**
+ * Queue ordering strategies
+ * Each strategy decides the order of upcoming tracks for one ordering mode,
+ * so QueueManager can switch between them at runtime
+ * Requirements: 12.1, 12.4, 13.1, 13.2, 13.3
+ */
+
+import { QueueItem, QueueOrderingMode } from '@party-jukebox/shared';
+
+/**
+ * Queue data a strategy may use to order upcoming tracks
+ */
+export interface QueueOrderingContext {
+  readonly currentTrack: QueueItem | null;
+  getScore(queueItemId: string): number;
+  compareArrival(a: QueueItem, b: QueueItem): number; // request order, oldest first
+}
+
+/**
+ * Strategy for ordering upcoming tracks
+ * Requirements: 13.1
+ */
+export interface QueueOrderingStrategy {
+  readonly mode: QueueOrderingMode;
+  order(upcomingTracks: readonly QueueItem[], context: QueueOrderingContext): QueueItem[];
+}
+
+/**
+ * First in, first out
+ * Keeps the existing order so host moves and promotes stick
+ * Requirements: 2.2, 13.3
+ */
+export class FifoOrderingStrategy implements QueueOrderingStrategy {
+  readonly mode = 'fifo' as const;
+
+  order(upcomingTracks: readonly QueueItem[]): QueueItem[] {
+    return [...upcomingTracks];
+  }
+}
+
+/**
+ * Highest net vote score first, ties kept in request order
+ * Requirements: 12.1
+ */
+export class VoteOrderingStrategy implements QueueOrderingStrategy {
+  readonly mode = 'vote' as const;
+
+  order(upcomingTracks: readonly QueueItem[], context: QueueOrderingContext): QueueItem[] {
+    return [...upcomingTracks].sort((a, b) =>
+      context.getScore(b.id) - context.getScore(a.id) || context.compareArrival(a, b)
+    );
+  }
+}
+
+/**
+ * Round-robin across guests by addedBy.id
+ * A guest's nth upcoming track plays in round n, so it waits behind at most one
+ * track from each other guest. Within a round the guest whose track is playing
+ * goes last, so the rotation carries on from whoever was just served.
+ * Requirements: 13.2
+ */
+export class FairShareOrderingStrategy implements QueueOrderingStrategy {
+  readonly mode = 'fair' as const;
+
+  order(upcomingTracks: readonly QueueItem[], context: QueueOrderingContext): QueueItem[] {
+    const byArrival = [...upcomingTracks].sort((a, b) => context.compareArrival(a, b));
+    const playingUserId = context.currentTrack?.addedBy.id;
+    const nextTurn = new Map<string, number>();
+    const rounds = new Map<string, number>();
+
+    for (const item of byArrival) {
+      const turn = nextTurn.get(item.addedBy.id) ?? 0;
+      rounds.set(item.id, turn);
+      nextTurn.set(item.addedBy.id, turn + 1);
+    }
+
+    const servedLast = (item: QueueItem) => (item.addedBy.id === playingUserId ? 1 : 0);
+
+    // Otherwise guests keep the order they made their requests in
+    return byArrival.sort((a, b) =>
+      rounds.get(a.id)! - rounds.get(b.id)! ||
+      servedLast(a) - servedLast(b) ||
+      context.compareArrival(a, b)
+    );
+  }
+}
+
+/**
+ * Strategies for every ordering mode, keyed by mode
+ */
+export type QueueOrderingStrategies = Record<QueueOrderingMode, QueueOrderingStrategy>;
+
+/**
+ * Create the built-in strategy for each ordering mode
+ * Requirements: 13.1
+ */
+export function createDefaultOrderingStrategies(): QueueOrderingStrategies {
+  return {
+    fifo: new FifoOrderingStrategy(),
+    vote: new VoteOrderingStrategy(),
+    fair: new FairShareOrderingStrategy(),
+  };
+}
@@ -3,21 +3,96 @@ import {
   User, 
   QueueItem, 
   QueueState, 
+  QueueOrderingMode,
+  QueueVoteDirection,
+  SearchResult,
   ServiceError, 
   Result,
-  ErrorFactory
+  ErrorFactory,
+  JUKEBOX_USER
 } from '@party-jukebox/shared';
-import { IQueueManager } from './QueueManager';
+import { IQueueManager, QueueEventListener } from './QueueManager';
 import { IRateLimiter } from './RateLimiter';
+import { isSameSong, isSameTrack } from './SongMatcher';
+import { IContentPolicyService } from './ContentPolicyService';
+import { RateLimitRole } from '../domain/ratelimit/types';
+
+/**
+ * Identity and privileges of whoever is modifying the queue
+ * Requirements: 9.5
+ */
+export interface QueueRequester {
+  userId: string;
+  isHost: boolean;
+}
+
+/**
+ * Options for adding a guest's track
+ * Requirements: 23.2
+ */
+export interface QueueAddOptions {
+  ignoreRateLimit?: boolean; // Host imports aren't rate limited, and don't count towards it
+  details?: SearchResult | null; // What the track's source reports about it, for the content policy
+}
+
+/**
+ * Duplicate request rules and the content policy
+ * Requirements: 25.1, 25.2, 25.3, 26.1
+ */
+export interface QueueServiceConfig {
+  contentPolicy?: IContentPolicyService; // Without one, any valid track may be queued
+  rejectDuplicates?: boolean; // Reject tracks already playing or queued. Default: true
+  duplicateCooldownMs?: number; // Reject tracks played this recently; 0 turns it off. Default: 30 minutes
+  fuzzyDuplicateMatching?: boolean; // Also match other uploads of the same song. Default: true
+  now?: () => number;
+}
+
+/**
+ * Where an earlier request for the same song sits
+ * Requirements: 25.1, 25.2, 25.3
+ */
+export interface DuplicateRequestInfo {
+  reason: 'now_playing' | 'queued' | 'recently_played';
+  match: 'same_track' | 'same_song'; // The exact track, or another upload of the same song
+  queueItem: QueueItem;
+  position?: number; // queued: 1-based place among the upcoming tracks
+  playedAt?: Date; // recently_played: when it left the queue
+  availableAt?: Date; // recently_played: when it can be requested again
+}
+
+/**
+ * A user's rate limit standing
+ * Requirements: 27.1, 27.2, 27.3, 27.4
+ */
+export interface UserRateLimitInfo {
+  canAddTrack: boolean;
+  remainingRequests: number | null; // Including bonus requests; null: unlimited
+  timeUntilReset: number; // milliseconds
+  role: RateLimitRole;
+  maxRequests: number | null; // Per window for the user's role; null: unlimited
+  bonusRequests: number;
+  remainingMusicSeconds: number | null; // null: no minutes budget
+  windowMinutes: number;
+}
 
 /**
  * Queue service interface for high-level orchestration
  * Requirements: 3.1, 3.2, 6.1, 6.2
  */
 export interface IQueueService {
-  addTrackToQueue(track: Track, user: User): Result<QueueItem, ServiceError>;
+  addTrackToQueue(track: Track, user: User, options?: QueueAddOptions): Result<QueueItem, ServiceError>;
+  addAutoplayTrack(track: Track, details?: SearchResult | null): Result<QueueItem, ServiceError>;
   advanceToNextTrack(): Result<QueueItem | null, ServiceError>;
+  removeTrack(queueItemId: string, requester: QueueRequester): Result<QueueItem, ServiceError>;
+  moveTrack(queueItemId: string, newIndex: number, requester: QueueRequester): Result<QueueItem, ServiceError>;
+  promoteTrack(queueItemId: string, requester: QueueRequester): Result<QueueItem, ServiceError>;
+  voteTrack(queueItemId: string, direction: QueueVoteDirection, requester: QueueRequester): Result<QueueItem, ServiceError>;
+  setOrderingMode(mode: QueueOrderingMode, requester: QueueRequester): Result<QueueOrderingMode, ServiceError>;
   getQueueState(): QueueState;
+  getUserRateLimitInfo(user: User): UserRateLimitInfo;
+  findDuplicateRequest(track: Track): DuplicateRequestInfo | null;
+  addEventListener(listener: QueueEventListener): void;
+  removeEventListener(listener: QueueEventListener): void;
 }
 
 /**
@@ -26,24 +101,59 @@ export interface IQueueService {
  * Requirements: 3.1, 3.2, 6.1, 6.2
  */
 export class QueueService implements IQueueService {
+  private readonly contentPolicy: IContentPolicyService | null;
+  private readonly rejectDuplicates: boolean;
+  private readonly duplicateCooldownMs: number;
+  private readonly fuzzyDuplicateMatching: boolean;
+  private readonly now: () => number;
+  // Tracks that left the queue within the cooldown, oldest first
+  private recentlyPlayed: { queueItem: QueueItem; playedAt: number }[] = [];
+
   constructor(
     private readonly queueManager: IQueueManager,
-    private readonly rateLimiter: IRateLimiter
-  ) {}
+    private readonly rateLimiter: IRateLimiter,
+    config: QueueServiceConfig = {}
+  ) {
+    this.contentPolicy = config.contentPolicy ?? null;
+    this.rejectDuplicates = config.rejectDuplicates ?? true;
+    this.duplicateCooldownMs = Math.max(0, config.duplicateCooldownMs ?? 30 * 60 * 1000);
+    this.fuzzyDuplicateMatching = config.fuzzyDuplicateMatching ?? true;
+    this.now = config.now ?? Date.now;
+  }
 
   /**
-   * Add a track to the queue with rate limiting enforcement
-   * Requirements: 3.1, 3.2, 6.1, 6.2
+   * Add a track to the queue with rate limiting, content policy and duplicate enforcement
+   * Requirements: 3.1, 3.2, 6.1, 6.2, 23.2, 25.1, 25.2, 26.1
    */
-  addTrackToQueue(track: Track, user: User): Result<QueueItem, ServiceError> {
-    // Check rate limiting first - Requirements: 3.1, 3.2
+  addTrackToQueue(track: Track, user: User, options: QueueAddOptions = {}): Result<QueueItem, ServiceError> {
+    // Guests can't pose as the autoplay user
+    // Requirements: 14.4
+    if (user && typeof user === 'object' && user.id === JUKEBOX_USER.id) {
+      return { success: false, error: 'INVALID_USER' };
+    }
+
+    // Check rate limiting first - Requirements: 3.1, 3.2, 27.2
     // Only check rate limiting if user appears to be a valid object
-    if (user && typeof user === 'object' && typeof user.id === 'string') {
-      if (!this.rateLimiter.canUserAddTrack(user)) {
+    const rateLimited = !options.ignoreRateLimit;
+    const duration = options.details?.duration || (track && typeof track === 'object' && typeof track.duration === 'number' ? track.duration : 0);
+    if (rateLimited && user && typeof user === 'object' && typeof user.id === 'string') {
+      if (!this.rateLimiter.canUserAddTrack(user, duration)) {
         return { success: false, error: 'RATE_LIMIT_EXCEEDED' };
       }
     }
 
+    const checkable = track && typeof track === 'object' && typeof track.title === 'string' && typeof track.artist === 'string';
+
+    // Requirements: 26.1
+    if (checkable && this.contentPolicy?.check(track, options.details)) {
+      return { success: false, error: 'CONTENT_POLICY_VIOLATION' };
+    }
+
+    // Requirements: 25.1, 25.2, 25.3
+    if (checkable && this.findDuplicateRequest(track)) {
+      return { success: false, error: 'DUPLICATE_REQUEST' };
+    }
+
     // Delegate to QueueManager for validation and queue operations
     const queueResult = this.queueManager.addTrack(track, user);
     
@@ -53,28 +163,111 @@ export class QueueService implements IQueueService {
     }
 
     // Record the request for rate limiting tracking after successful addition
-    // Requirements: 3.1, 3.5
+    // Requirements: 3.1, 3.5, 27.2
     // Only record if we have valid user and track
-    if (user && typeof user === 'object' && typeof user.id === 'string' && 
+    if (rateLimited && user && typeof user === 'object' && typeof user.id === 'string' && 
         track && typeof track === 'object' && typeof track.id === 'string') {
-      this.rateLimiter.recordRequest(user, track.id);
+      this.rateLimiter.recordRequest(user, track.id, duration);
     }
 
     return queueResult;
   }
 
+  /**
+   * Add a radio/autoplay track attributed to the Jukebox user
+   * Autoplay isn't a guest, so rate limiting doesn't apply, but the content policy does
+   * Requirements: 14.1, 14.4, 26.1
+   */
+  addAutoplayTrack(track: Track, details: SearchResult | null = null): Result<QueueItem, ServiceError> {
+    if (this.contentPolicy?.check(track, details)) {
+      return { success: false, error: 'CONTENT_POLICY_VIOLATION' };
+    }
+    return this.queueManager.addTrack(track, JUKEBOX_USER);
+  }
+
   /**
    * Advance to the next track in the queue
    * Requirements: 4.1, 4.2, 4.3
    */
   advanceToNextTrack(): Result<QueueItem | null, ServiceError> {
-    // Delegate to queue manager - no additional orchestration needed
+    const finished = this.queueManager.getCurrentTrack();
     const result = this.queueManager.advanceQueue();
+
+    // Remember what just played for the duplicate cooldown
+    // Requirements: 25.2
+    if (result.success && finished && this.duplicateCooldownMs > 0) {
+      this.recentlyPlayed.push({ queueItem: finished, playedAt: this.now() });
+    }
     
     // QueueError is already a ServiceError, so we can return directly
     return result;
   }
 
+  /**
+   * Remove an upcoming track from the queue
+   * Guests may remove their own tracks; removing anyone else's requires host rights
+   * Requirements: 9.1, 9.5
+   */
+  removeTrack(queueItemId: string, requester: QueueRequester): Result<QueueItem, ServiceError> {
+    const queueItem = this.findUpcomingTrack(queueItemId);
+    if (!queueItem) {
+      return { success: false, error: 'TRACK_NOT_FOUND' };
+    }
+
+    if (!requester.isHost && queueItem.addedBy.id !== requester.userId) {
+      return { success: false, error: 'INSUFFICIENT_PERMISSIONS' };
+    }
+
+    return this.queueManager.removeTrack(queueItemId);
+  }
+
+  /**
+   * Move an upcoming track to a new position
+   * Reordering affects other guests, so it always requires host rights
+   * Requirements: 9.2, 9.5
+   */
+  moveTrack(queueItemId: string, newIndex: number, requester: QueueRequester): Result<QueueItem, ServiceError> {
+    if (!requester.isHost) {
+      return { success: false, error: 'INSUFFICIENT_PERMISSIONS' };
+    }
+
+    return this.queueManager.moveTrack(queueItemId, newIndex);
+  }
+
+  /**
+   * Move an upcoming track to the front of the queue
+   * Requirements: 9.3, 9.5
+   */
+  promoteTrack(queueItemId: string, requester: QueueRequester): Result<QueueItem, ServiceError> {
+    if (!requester.isHost) {
+      return { success: false, error: 'INSUFFICIENT_PERMISSIONS' };
+    }
+
+    return this.queueManager.promoteTrack(queueItemId);
+  }
+
+  /**
+   * Upvote or downvote an upcoming track while the queue is in vote mode
+   * Requirements: 12.1, 12.2
+   */
+  voteTrack(queueItemId: string, direction: QueueVoteDirection, requester: QueueRequester): Result<QueueItem, ServiceError> {
+    return this.queueManager.voteTrack(queueItemId, requester.userId, direction);
+  }
+
+  /**
+   * Switch the queue ordering mode
+   * Changing the ordering affects every guest, so it always requires host rights
+   * Requirements: 12.4
+   */
+  setOrderingMode(mode: QueueOrderingMode, requester: QueueRequester): Result<QueueOrderingMode, ServiceError> {
+    if (!requester.isHost) {
+      return { success: false, error: 'INSUFFICIENT_PERMISSIONS' };
+    }
+
+    this.queueManager.setOrderingMode(mode);
+    return { success: true, value: this.queueManager.getOrderingMode() };
+  }
+
   /**
    * Get the current queue state
    * Requirements: 5.1, 5.2, 5.3
@@ -84,19 +277,98 @@ export class QueueService implements IQueueService {
     return this.queueManager.getQueueState();
   }
 
+  /**
+   * Subscribe to queue state change events
+   * Requirements: 9.4
+   */
+  addEventListener(listener: QueueEventListener): void {
+    this.queueManager.addEventListener(listener);
+  }
+
+  /**
+   * Unsubscribe from queue state change events
+   */
+  removeEventListener(listener: QueueEventListener): void {
+    this.queueManager.removeEventListener(listener);
+  }
+
   /**
    * Get rate limiting information for a user
    * Additional utility method for service consumers
+   * Requirements: 27.4
    */
-  getUserRateLimitInfo(user: User): {
-    canAddTrack: boolean;
-    remainingRequests: number;
-    timeUntilReset: number;
-  } {
+  getUserRateLimitInfo(user: User): UserRateLimitInfo {
+    const role = this.rateLimiter.getRole(user);
+    const settings = this.rateLimiter.getSettings();
+    const remainingRequests = this.rateLimiter.getRemainingRequests(user);
+
     return {
       canAddTrack: this.rateLimiter.canUserAddTrack(user),
-      remainingRequests: this.rateLimiter.getRemainingRequests(user),
-      timeUntilReset: this.rateLimiter.getTimeUntilReset(user)
+      remainingRequests: Number.isFinite(remainingRequests) ? remainingRequests : null,
+      timeUntilReset: this.rateLimiter.getTimeUntilReset(user),
+      role,
+      maxRequests: settings.roles[role].maxRequests,
+      bonusRequests: this.rateLimiter.getBonusRequests(user.id),
+      remainingMusicSeconds: this.rateLimiter.getRemainingMusicSeconds(user),
+      windowMinutes: settings.windowMinutes
     };
   }
-}
\ No newline at end of file
+
+  /**
+   * Find an earlier request for the same track or song: playing now, queued,
+   * or played within the cooldown
+   * Requirements: 25.1, 25.2, 25.3
+   */
+  findDuplicateRequest(track: Track): DuplicateRequestInfo | null {
+    if (!this.rejectDuplicates) {
+      return null;
+    }
+
+    const matchOf = (queueItem: QueueItem): DuplicateRequestInfo['match'] | null =>
+      isSameTrack(queueItem.track, track) ? 'same_track'
+        : this.fuzzyDuplicateMatching && isSameSong(queueItem.track, track) ? 'same_song'
+        : null;
+
+    const current = this.queueManager.getCurrentTrack();
+    const currentMatch = current && matchOf(current);
+    if (current && currentMatch) {
+      return { reason: 'now_playing', match: currentMatch, queueItem: current };
+    }
+
+    const upcoming = this.queueManager.getUpcomingTracks();
+    for (let index = 0; index < upcoming.length; index++) {
+      const match = matchOf(upcoming[index]);
+      if (match) {
+        return { reason: 'queued', match, queueItem: upcoming[index], position: index + 1 };
+      }
+    }
+
+    // Most recent first, so availableAt is as late as it really is
+    this.pruneRecentlyPlayed();
+    for (let index = this.recentlyPlayed.length - 1; index >= 0; index--) {
+      const { queueItem, playedAt } = this.recentlyPlayed[index];
+      const match = matchOf(queueItem);
+      if (match) {
+        return {
+          reason: 'recently_played',
+          match,
+          queueItem,
+          playedAt: new Date(playedAt),
+          availableAt: new Date(playedAt + this.duplicateCooldownMs)
+        };
+      }
+    }
+
+    return null;
+  }
+
+  private pruneRecentlyPlayed(): void {
+    const cutoff = this.now() - this.duplicateCooldownMs;
+    const firstRecent = this.recentlyPlayed.findIndex(entry => entry.playedAt > cutoff);
+    this.recentlyPlayed = firstRecent === -1 ? [] : this.recentlyPlayed.slice(firstRecent);
+  }
+
+  private findUpcomingTrack(queueItemId: string): QueueItem | undefined {
+    return this.queueManager.getUpcomingTracks().find(item => item.id === queueItemId);
+  }
+}
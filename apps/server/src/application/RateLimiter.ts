@@ -1,64 +1,154 @@
 import { User, UserRateData, RequestRecord, RateLimitError, Result } from '@party-jukebox/shared';
+import { RateLimitSnapshot } from '../domain/persistence/types';
+import {
+  RateLimitRole,
+  RateLimitSettings,
+  RateLimitSettingsUpdate,
+  RATE_LIMIT_ROLES,
+  RoleRateLimit
+} from '../domain/ratelimit/types';
+import { RateLimitSettingsError } from '../domain/ratelimit/errors';
 
 /**
  * Rate limiter interface for enforcing user request limits
- * Requirements: 3.1, 3.2, 3.3, 3.5
+ * Requirements: 3.1, 3.2, 3.3, 3.5, 27.1, 27.2, 27.3
  */
 export interface IRateLimiter {
-  canUserAddTrack(user: User): boolean;
-  recordRequest(user: User, trackId: string): void;
+  canUserAddTrack(user: User, durationSeconds?: number): boolean;
+  recordRequest(user: User, trackId: string, durationSeconds?: number): void;
   getTimeUntilReset(user: User): number;
   getRemainingRequests(user: User): number;
+  getRemainingMusicSeconds(user: User): number | null;
+  getRole(user: User): RateLimitRole;
+  getSettings(): RateLimitSettings;
+  updateSettings(update: RateLimitSettingsUpdate): RateLimitSettings;
+  grantBonusRequests(userId: string, requests: number): number;
+  getBonusRequests(userId: string): number;
+  exportSnapshot(): RateLimitSnapshot;
+  restoreSnapshot(snapshot: RateLimitSnapshot): void;
 }
 
 /**
- * Rate limiter implementation with 10-minute sliding window
- * Enforces 5 requests per 10 minutes per user
+ * Guests get 5 requests per 10 minutes, VIPs twice that, and hosts are unlimited
+ */
+export const DEFAULT_RATE_LIMITS: RateLimitSettings = {
+  windowMinutes: 10,
+  roles: {
+    guest: { maxRequests: 5, maxMinutes: null },
+    vip: { maxRequests: 10, maxMinutes: null },
+    host: { maxRequests: null, maxMinutes: null }
+  },
+  vipUserIds: []
+};
+
+/**
+ * Check a rate limit settings change from a config file or the settings API
+ * Requirements: 27.2
+ */
+export function validateRateLimitSettings(value: unknown): Result<RateLimitSettingsUpdate, RateLimitSettingsError> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { success: false, error: 'INVALID_ROLE' };
+  }
+
+  const { windowMinutes, roles, vipUserIds } = value as Record<string, unknown>;
+  const isCount = (limit: unknown) => limit === undefined || limit === null || (Number.isInteger(limit) && (limit as number) >= 0);
+  const isMinutes = (limit: unknown) => limit === undefined || limit === null || (typeof limit === 'number' && Number.isFinite(limit) && limit > 0);
+
+  if (windowMinutes !== undefined && !(typeof windowMinutes === 'number' && Number.isFinite(windowMinutes) && windowMinutes > 0)) {
+    return { success: false, error: 'INVALID_WINDOW' };
+  }
+
+  if (roles !== undefined) {
+    if (!roles || typeof roles !== 'object' || Array.isArray(roles)) {
+      return { success: false, error: 'INVALID_ROLE' };
+    }
+    for (const [role, limits] of Object.entries(roles)) {
+      if (!RATE_LIMIT_ROLES.includes(role as RateLimitRole) || !limits || typeof limits !== 'object') {
+        return { success: false, error: 'INVALID_ROLE' };
+      }
+      const { maxRequests, maxMinutes } = limits as Record<string, unknown>;
+      if (!isCount(maxRequests) || !isMinutes(maxMinutes)) {
+        return { success: false, error: 'INVALID_LIMIT' };
+      }
+    }
+  }
+
+  if (vipUserIds !== undefined && !(Array.isArray(vipUserIds) && vipUserIds.every(userId => typeof userId === 'string'))) {
+    return { success: false, error: 'INVALID_VIP_LIST' };
+  }
+
+  return {
+    success: true,
+    value: {
+      ...(windowMinutes !== undefined && { windowMinutes: windowMinutes as number }),
+      ...(roles !== undefined && { roles: roles as RateLimitSettingsUpdate['roles'] }),
+      ...(vipUserIds !== undefined && { vipUserIds: vipUserIds as string[] })
+    }
+  };
+}
+
+/**
+ * Rate limiter implementation with a sliding window per user
+ * How many requests, and optionally how many minutes of music, fit in the
+ * window depends on the user's role. Bonus requests granted by the host let a
+ * guest past their limit once each
+ * Requirements: 3.1, 3.2, 3.3, 27.1, 27.2, 27.3
  */
 export class RateLimiter implements IRateLimiter {
-  private readonly REQUEST_LIMIT = 5;
-  private readonly WINDOW_DURATION_MS = 10 * 60 * 1000; // 10 minutes in milliseconds
+  private settings: RateLimitSettings;
   private readonly userRateData = new Map<string, UserRateData>();
+  private readonly bonusRequests = new Map<string, number>();
+
+  constructor(settings: RateLimitSettingsUpdate = {}) {
+    this.settings = this.merge(DEFAULT_RATE_LIMITS, settings);
+  }
 
   /**
    * Check if user can add a track based on rate limiting rules
-   * Requirements: 3.1, 3.2
+   * With a minutes budget, the track must also fit in what's left of it
+   * Requirements: 3.1, 3.2, 27.1, 27.3
    */
-  canUserAddTrack(user: User): boolean {
+  canUserAddTrack(user: User, durationSeconds: number = 0): boolean {
     this.cleanupExpiredWindows();
-    
-    const rateData = this.getUserRateData(user.id);
-    const validRequests = this.getValidRequestsInWindow(rateData);
-    
-    return validRequests.length < this.REQUEST_LIMIT;
+
+    return this.isWithinLimits(user, durationSeconds) || this.getBonusRequests(user.id) > 0;
   }
 
   /**
    * Record a request for the user and update their rate data
-   * Requirements: 3.1, 3.5
+   * A request past the user's limits uses up a bonus request instead of
+   * counting towards the window
+   * Requirements: 3.1, 3.5, 27.3
    */
-  recordRequest(user: User, trackId: string): void {
+  recordRequest(user: User, trackId: string, durationSeconds?: number): void {
+    const bonus = this.getBonusRequests(user.id);
+    if (bonus > 0 && !this.isWithinLimits(user, durationSeconds ?? 0)) {
+      this.setBonusRequests(user.id, bonus - 1);
+      return;
+    }
+
     const now = new Date();
     const existingData = this.getUserRateData(user.id);
-    
+
     // Clean up old requests outside the current window
     const validRequests = this.getValidRequestsInWindow(existingData);
-    
+
     // Add the new request
     const newRequest: RequestRecord = {
       timestamp: now,
-      trackId
+      trackId,
+      ...(durationSeconds !== undefined && { duration: durationSeconds })
     };
-    
+
     const updatedRequests = [...validRequests, newRequest];
-    
+
     // Update or create rate data
     const updatedRateData: UserRateData = {
       userId: user.id,
       requests: updatedRequests,
       windowStart: updatedRequests.length > 0 ? updatedRequests[0].timestamp : now
     };
-    
+
     this.userRateData.set(user.id, updatedRateData);
   }
 
@@ -69,29 +159,95 @@ export class RateLimiter implements IRateLimiter {
   getTimeUntilReset(user: User): number {
     const rateData = this.getUserRateData(user.id);
     const validRequests = this.getValidRequestsInWindow(rateData);
-    
+
     if (validRequests.length === 0) {
       return 0; // No active window
     }
-    
+
     const oldestRequest = validRequests[0];
-    const windowEnd = new Date(oldestRequest.timestamp.getTime() + this.WINDOW_DURATION_MS);
+    const windowEnd = new Date(oldestRequest.timestamp.getTime() + this.getWindowMs());
     const now = new Date();
-    
+
     return Math.max(0, windowEnd.getTime() - now.getTime());
   }
 
   /**
-   * Get remaining requests available for the user
-   * Requirements: 3.1, 3.4
+   * Get remaining requests available for the user, including bonus requests
+   * Infinity when the user's role has no request limit
+   * Requirements: 3.1, 3.4, 27.1, 27.3
    */
   getRemainingRequests(user: User): number {
     this.cleanupExpiredWindows();
-    
+
+    const { maxRequests } = this.getRoleLimits(user);
+    if (maxRequests === null) {
+      return Number.POSITIVE_INFINITY;
+    }
+
     const rateData = this.getUserRateData(user.id);
     const validRequests = this.getValidRequestsInWindow(rateData);
-    
-    return Math.max(0, this.REQUEST_LIMIT - validRequests.length);
+
+    return Math.max(0, maxRequests - validRequests.length) + this.getBonusRequests(user.id);
+  }
+
+  /**
+   * Seconds of music the user may still request in this window, or null without a minutes budget
+   * Requirements: 27.2
+   */
+  getRemainingMusicSeconds(user: User): number | null {
+    const { maxMinutes } = this.getRoleLimits(user);
+    if (maxMinutes === null) {
+      return null;
+    }
+
+    return Math.max(0, Math.round(maxMinutes * 60) - this.getUsedSeconds(user));
+  }
+
+  /**
+   * The role whose limits apply to the user
+   * Requirements: 27.1
+   */
+  getRole(user: User): RateLimitRole {
+    if (user.role === 'host') {
+      return 'host';
+    }
+    return this.settings.vipUserIds.includes(user.id) ? 'vip' : 'guest';
+  }
+
+  /**
+   * Get the current policy
+   * Requirements: 27.2
+   */
+  getSettings(): RateLimitSettings {
+    return this.settings;
+  }
+
+  /**
+   * Change the policy; requests already made count against the new limits
+   * Requirements: 27.2
+   */
+  updateSettings(update: RateLimitSettingsUpdate): RateLimitSettings {
+    this.settings = this.merge(this.settings, update);
+    return this.settings;
+  }
+
+  /**
+   * Give a user extra requests on top of their limits, or take them away with
+   * a negative count. Returns the user's bonus requests afterwards
+   * Requirements: 27.3
+   */
+  grantBonusRequests(userId: string, requests: number): number {
+    const bonus = Math.max(0, this.getBonusRequests(userId) + Math.trunc(requests));
+    this.setBonusRequests(userId, bonus);
+    return bonus;
+  }
+
+  /**
+   * Bonus requests the user has left
+   * Requirements: 27.3
+   */
+  getBonusRequests(userId: string): number {
+    return this.bonusRequests.get(userId) ?? 0;
   }
 
   /**
@@ -100,16 +256,119 @@ export class RateLimiter implements IRateLimiter {
    */
   checkRateLimit(user: User, trackId: string): Result<void, RateLimitError> {
     if (!this.canUserAddTrack(user)) {
-      return { 
-        success: false, 
+      return {
+        success: false,
         error: 'RATE_LIMIT_EXCEEDED'
       };
     }
-    
+
     this.recordRequest(user, trackId);
     return { success: true, value: undefined };
   }
 
+  /**
+   * Export active rate limiting windows and unused bonus requests for persistence
+   * Requirements: 8.1, 27.3
+   */
+  exportSnapshot(): RateLimitSnapshot {
+    this.cleanupExpiredWindows();
+    return {
+      users: Array.from(this.userRateData.values()),
+      bonusRequests: Object.fromEntries(this.bonusRequests)
+    };
+  }
+
+  /**
+   * Replace rate data with a previously persisted snapshot
+   * Requests that fell outside the window while the server was down are dropped
+   * Requirements: 8.2, 27.3
+   */
+  restoreSnapshot(snapshot: RateLimitSnapshot): void {
+    this.userRateData.clear();
+    this.bonusRequests.clear();
+
+    for (const rateData of snapshot.users) {
+      const requests = rateData.requests.filter(request =>
+        request.timestamp instanceof Date && !isNaN(request.timestamp.getTime())
+      );
+
+      if (requests.length > 0) {
+        this.userRateData.set(rateData.userId, {
+          userId: rateData.userId,
+          requests,
+          windowStart: requests[0].timestamp
+        });
+      }
+    }
+
+    for (const [userId, bonus] of Object.entries(snapshot.bonusRequests ?? {})) {
+      if (Number.isInteger(bonus) && bonus > 0) {
+        this.bonusRequests.set(userId, bonus);
+      }
+    }
+
+    this.cleanupExpiredWindows();
+  }
+
+  /**
+   * Whether the track fits in the user's request count and minutes budget, ignoring bonuses
+   */
+  private isWithinLimits(user: User, durationSeconds: number): boolean {
+    const { maxRequests, maxMinutes } = this.getRoleLimits(user);
+    const validRequests = this.getValidRequestsInWindow(this.getUserRateData(user.id));
+
+    if (maxRequests !== null && validRequests.length >= maxRequests) {
+      return false;
+    }
+
+    if (maxMinutes !== null) {
+      const usedSeconds = this.getUsedSeconds(user);
+      const budgetSeconds = Math.round(maxMinutes * 60);
+      return usedSeconds < budgetSeconds && usedSeconds + durationSeconds <= budgetSeconds;
+    }
+
+    return true;
+  }
+
+  private getRoleLimits(user: User): RoleRateLimit {
+    return this.settings.roles[this.getRole(user)];
+  }
+
+  private getUsedSeconds(user: User): number {
+    return this.getValidRequestsInWindow(this.getUserRateData(user.id))
+      .reduce((total, request) => total + (request.duration ?? 0), 0);
+  }
+
+  private setBonusRequests(userId: string, bonus: number): void {
+    if (bonus > 0) {
+      this.bonusRequests.set(userId, bonus);
+    } else {
+      this.bonusRequests.delete(userId);
+    }
+  }
+
+  private getWindowMs(): number {
+    return this.settings.windowMinutes * 60 * 1000;
+  }
+
+  /**
+   * Apply a policy change on top of the current policy
+   */
+  private merge(settings: RateLimitSettings, update: RateLimitSettingsUpdate): RateLimitSettings {
+    const roles = { ...settings.roles };
+    for (const role of RATE_LIMIT_ROLES) {
+      roles[role] = { ...roles[role], ...update.roles?.[role] };
+    }
+
+    return {
+      windowMinutes: update.windowMinutes ?? settings.windowMinutes,
+      roles,
+      vipUserIds: update.vipUserIds
+        ? [...new Set(update.vipUserIds.map(userId => userId.trim()).filter(Boolean))]
+        : settings.vipUserIds
+    };
+  }
+
   /**
    * Get user rate data, creating empty data if none exists
    */
@@ -122,13 +381,13 @@ export class RateLimiter implements IRateLimiter {
   }
 
   /**
-   * Get requests that are still valid within the current 10-minute window
+   * Get requests that are still valid within the current window
    */
   private getValidRequestsInWindow(rateData: UserRateData): RequestRecord[] {
     const now = new Date();
-    const cutoffTime = new Date(now.getTime() - this.WINDOW_DURATION_MS);
-    
-    return rateData.requests.filter(request => 
+    const cutoffTime = new Date(now.getTime() - this.getWindowMs());
+
+    return rateData.requests.filter(request =>
       request.timestamp.getTime() > cutoffTime.getTime()
     );
   }
@@ -139,13 +398,13 @@ export class RateLimiter implements IRateLimiter {
    */
   private cleanupExpiredWindows(): void {
     const now = new Date();
-    const cutoffTime = new Date(now.getTime() - this.WINDOW_DURATION_MS);
-    
+    const cutoffTime = new Date(now.getTime() - this.getWindowMs());
+
     for (const [userId, rateData] of this.userRateData.entries()) {
-      const validRequests = rateData.requests.filter(request => 
+      const validRequests = rateData.requests.filter(request =>
         request.timestamp.getTime() > cutoffTime.getTime()
       );
-      
+
       if (validRequests.length === 0) {
         // Remove user data if no valid requests remain
         this.userRateData.delete(userId);
@@ -168,4 +427,4 @@ export class RateLimiter implements IRateLimiter {
     this.cleanupExpiredWindows();
     return new Map(this.userRateData);
   }
-}
\ No newline at end of file
+}
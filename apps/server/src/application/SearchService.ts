@@ -1,17 +1,21 @@
 /**
- * Search Service for YouTube music search functionality
+ * Search Service for music search functionality
  * 
- * Application service that orchestrates search operations by integrating with
- * YouTubeAdapter. Handles pagination, parameter validation, and result transformation.
+ * Application service that searches every configured track source that supports
+ * search and merges their results. Handles pagination, parameter validation,
+ * and error mapping. Sources are merged in registration order, so the local
+ * library's matches are listed ahead of YouTube's.
  * 
- * Requirements: 1.1, 1.2, 1.5, 3.1, 3.4
+ * Requirements: 1.1, 1.2, 1.5, 3.1, 3.4, 19.3, 20.3
  */
 
 import { 
   SearchResult, 
-  Result 
+  Result,
+  TrackSource,
+  TrackValidator
 } from '@party-jukebox/shared';
-import { IYouTubeAdapter, YouTubeSearchItem, YouTubeVideoDetails } from '../infrastructure/youtube/types';
+import { ITrackSourceRegistry, SourceSearchPage, TrackSourceProvider } from '../domain/sources/types';
 
 /**
  * Paginated search results interface
@@ -58,11 +62,13 @@ export type SearchError =
  */
 export interface ISearchService {
   search(params: SearchParams): Promise<Result<PaginatedSearchResults, SearchError>>;
+  getRelated(source: TrackSource, sourceId: string, limit?: number): Promise<Result<SearchResult[], SearchError>>;
+  lookup(source: TrackSource, sourceIds: string[]): Promise<Result<SearchResult[], SearchError>>;
 }
 
 /**
  * Search Service Implementation
- * Requirements: 1.1, 1.2, 1.5, 3.1, 3.4
+ * Requirements: 1.1, 1.2, 1.5, 3.1, 3.4, 19.3, 20.3
  */
 export class SearchService implements ISearchService {
   private readonly DEFAULT_PAGE = 1;
@@ -71,63 +77,149 @@ export class SearchService implements ISearchService {
   private readonly MIN_LIMIT = 1;
   private readonly MAX_QUERY_LENGTH = 100;
 
-  constructor(
-    private readonly youtubeAdapter: IYouTubeAdapter
-  ) {}
+  constructor(private readonly sources: ITrackSourceRegistry) {}
 
   /**
-   * Search for music videos with pagination support
-   * Requirements: 1.1, 1.2, 1.5, 3.1, 3.4
+   * Search for music with pagination support
+   * The first page merges every searchable source; page tokens are prefixed with
+   * their source, so later pages only go to the source that has more results.
+   * Results of reachable sources are still returned if another source fails.
+   * Requirements: 1.1, 1.2, 1.5, 3.1, 3.4, 19.3, 20.3
    */
   async search(params: SearchParams): Promise<Result<PaginatedSearchResults, SearchError>> {
-    try {
-      // Validate search parameters
-      const validationResult = this.validateSearchParams(params);
-      if (!validationResult.success) {
-        return validationResult as Result<PaginatedSearchResults, SearchError>;
+    // Validate search parameters
+    const validationResult = this.validateSearchParams(params);
+    if (!validationResult.success) {
+      return validationResult as Result<PaginatedSearchResults, SearchError>;
+    }
+
+    const { query, page, limit } = validationResult.value;
+
+    if (params.pageToken) {
+      return this.searchPage(query, page, limit, params.pageToken);
+    }
+
+    const providers = this.sources.getSearchable();
+    if (providers.length === 0) {
+      return { success: false, error: 'SERVICE_UNAVAILABLE' };
+    }
+
+    const settled = await Promise.allSettled(
+      providers.map(provider => provider.search!({ query, limit }))
+    );
+
+    const pages: Array<{ source: TrackSource; page: SourceSearchPage }> = [];
+    let failure: unknown = null;
+    settled.forEach((outcome, index) => {
+      if (outcome.status === 'fulfilled') {
+        pages.push({ source: providers[index].source, page: outcome.value });
+      } else {
+        console.warn(`Search failed for source ${providers[index].source}:`, outcome.reason);
+        failure = failure ?? outcome.reason;
       }
+    });
 
-      const { query, page, limit } = validationResult.value;
+    const results = pages.flatMap(({ page: sourcePage }) => sourcePage.results);
+    if (failure !== null && results.length === 0) {
+      return { success: false, error: this.mapAdapterError(failure) };
+    }
 
-      // Step 1: Search for videos using YouTube API
-      const searchResponse = await this.youtubeAdapter.searchVideos(
-        query, 
-        params.pageToken, 
-        limit
+    return { success: true, value: this.transformToPaginatedResults(results, pages, page) };
+  }
+
+  /**
+   * Find music related to a seed track
+   * Requirements: 14.2, 20.3
+   */
+  async getRelated(source: TrackSource, sourceId: string, limit: number = 10): Promise<Result<SearchResult[], SearchError>> {
+    const provider = this.sources.get(source);
+    if (!provider?.getRelated) {
+      return { success: false, error: 'SERVICE_UNAVAILABLE' };
+    }
+    if (!provider.validateSourceId(sourceId)) {
+      return { success: false, error: 'INVALID_QUERY' };
+    }
+
+    try {
+      const results = await provider.getRelated(
+        sourceId,
+        Math.min(Math.max(limit, this.MIN_LIMIT), this.MAX_LIMIT)
       );
+      return { success: true, value: results };
+    } catch (error) {
+      return { success: false, error: this.mapAdapterError(error) };
+    }
+  }
 
-      // Step 2: Get video details for duration information
-      const videoIds = searchResponse.items.map(item => item.id.videoId);
-      const videoDetails = videoIds.length > 0 
-        ? await this.youtubeAdapter.getVideoDetails(videoIds)
-        : [];
+  /**
+   * Look up playable details for known tracks of a source, keeping the requested order
+   * Unknown or unplayable tracks are left out
+   * Requirements: 14.3, 20.3
+   */
+  async lookup(source: TrackSource, sourceIds: string[]): Promise<Result<SearchResult[], SearchError>> {
+    const provider = this.sources.get(source);
+    if (!provider?.lookup) {
+      return { success: false, error: 'SERVICE_UNAVAILABLE' };
+    }
 
-      // Step 3: Combine search results with video details
-      const searchResults = this.combineSearchAndDetails(searchResponse.items, videoDetails);
+    const validIds = sourceIds.filter(sourceId => provider.validateSourceId(sourceId));
+    if (validIds.length === 0) {
+      return { success: true, value: [] };
+    }
 
-      // Step 4: Transform to paginated results
-      const paginatedResults = this.transformToPaginatedResults(
-        searchResults, 
-        searchResponse, 
-        page
-      );
+    try {
+      return { success: true, value: await provider.lookup(validIds) };
+    } catch (error) {
+      return { success: false, error: this.mapAdapterError(error) };
+    }
+  }
 
-      return { success: true, value: paginatedResults };
+  /**
+   * Fetch a further page from the source that issued the page token
+   * Requirements: 3.2, 20.3
+   */
+  private async searchPage(
+    query: string,
+    page: number,
+    limit: number,
+    pageToken: string
+  ): Promise<Result<PaginatedSearchResults, SearchError>> {
+    const separator = pageToken.indexOf(':');
+    const source = pageToken.slice(0, separator);
+    const provider: TrackSourceProvider | null = separator > 0 && TrackValidator.validateSource(source)
+      ? this.sources.get(source)
+      : null;
+    if (!provider?.search) {
+      return { success: false, error: 'INVALID_PAGE' };
+    }
 
+    try {
+      const sourcePage = await provider.search({ query, limit, pageToken: pageToken.slice(separator + 1) });
+      return {
+        success: true,
+        value: this.transformToPaginatedResults(sourcePage.results, [{ source: provider.source, page: sourcePage }], page)
+      };
     } catch (error) {
-      // Handle YouTube API errors
-      if (error instanceof Error) {
-        if (error.message.includes('quota') || error.message.includes('QUOTA')) {
-          return { success: false, error: 'SERVICE_UNAVAILABLE' };
-        }
-        
-        if (error.message.includes('unavailable') || error.message.includes('timeout')) {
-          return { success: false, error: 'SERVICE_UNAVAILABLE' };
-        }
-      }
+      return { success: false, error: this.mapAdapterError(error) };
+    }
+  }
 
-      return { success: false, error: 'YOUTUBE_API_ERROR' };
+  /**
+   * Map source failures to search errors
+   * Requirements: 1.4, 3.5
+   */
+  private mapAdapterError(error: unknown): SearchError {
+    if (error instanceof Error) {
+      if (error.message.includes('quota') || error.message.includes('QUOTA')) {
+        return 'SERVICE_UNAVAILABLE';
+      }
+      
+      if (error.message.includes('unavailable') || error.message.includes('timeout')) {
+        return 'SERVICE_UNAVAILABLE';
+      }
     }
+
+    return 'YOUTUBE_API_ERROR';
   }
 
   /**
@@ -176,113 +268,30 @@ export class SearchService implements ISearchService {
   }
 
   /**
-   * Combine search results with video details to create SearchResult objects
-   * Requirements: 1.1, 1.2
-   */
-  private combineSearchAndDetails(
-    searchItems: YouTubeSearchItem[], 
-    videoDetails: YouTubeVideoDetails[]
-  ): SearchResult[] {
-    const detailsMap = new Map<string, YouTubeVideoDetails>();
-    videoDetails.forEach(detail => {
-      detailsMap.set(detail.id, detail);
-    });
-
-    return searchItems
-      .map(item => {
-        const details = detailsMap.get(item.id.videoId);
-        if (!details) {
-          // Skip items without duration information
-          return null;
-        }
-
-        const duration = this.parseDuration(details.contentDetails.duration);
-        if (duration === 0) {
-          // Skip items with invalid duration
-          return null;
-        }
-
-        // Extract artist from channel title or use channel title as fallback
-        const artist = this.extractArtist(item.snippet.channelTitle, item.snippet.title);
-
-        const searchResult: SearchResult = {
-          videoId: item.id.videoId,
-          title: item.snippet.title,
-          artist: artist,
-          duration: duration,
-          thumbnailUrl: item.snippet.thumbnails.medium?.url || item.snippet.thumbnails.default.url,
-          channelTitle: item.snippet.channelTitle,
-          publishedAt: item.snippet.publishedAt
-        };
-
-        return searchResult;
-      })
-      .filter((result): result is SearchResult => result !== null);
-  }
-
-  /**
-   * Parse ISO 8601 duration format to seconds
-   * Requirements: 1.2
-   */
-  private parseDuration(isoDuration: string): number {
-    // Parse ISO 8601 duration (PT4M13S) to seconds
-    // Handle various formats: PT1H2M3S, PT45S, PT2M, etc.
-    const match = isoDuration.match(/PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?/);
-    
-    if (!match) {
-      return 0;
-    }
-
-    const hours = parseInt(match[1] || '0', 10);
-    const minutes = parseInt(match[2] || '0', 10);
-    const seconds = parseInt(match[3] || '0', 10);
-
-    return hours * 3600 + minutes * 60 + seconds;
-  }
-
-  /**
-   * Extract artist name from channel title and video title
-   * Requirements: 1.2
-   */
-  private extractArtist(channelTitle: string, videoTitle: string): string {
-    // Simple heuristic: use channel title as artist
-    // In the future, this could be enhanced with more sophisticated parsing
-    // to extract artist names from video titles (e.g., "Artist - Song Title")
-    
-    // Check if video title contains " - " pattern which might indicate "Artist - Song"
-    const dashIndex = videoTitle.indexOf(' - ');
-    if (dashIndex > 0 && dashIndex < videoTitle.length / 2) {
-      // If the part before the dash is reasonably short, use it as artist
-      const potentialArtist = videoTitle.substring(0, dashIndex).trim();
-      if (potentialArtist.length > 0 && potentialArtist.length < 50) {
-        return potentialArtist;
-      }
-    }
-
-    // Fallback to channel title
-    return channelTitle;
-  }
-
-  /**
-   * Transform search results to paginated format
-   * Requirements: 3.2, 3.7
+   * Merge source pages into one paginated result
+   * Requirements: 3.2, 3.7, 20.3
    */
   private transformToPaginatedResults(
     results: SearchResult[],
-    searchResponse: any,
+    pages: Array<{ source: TrackSource; page: SourceSearchPage }>,
     currentPage: number
   ): PaginatedSearchResults {
+    const next = pages.find(({ page }) => page.nextPageToken);
+    const prev = pages.find(({ page }) => page.prevPageToken);
+    const nextPageToken = next ? `${next.source}:${next.page.nextPageToken}` : undefined;
+    const prevPageToken = prev ? `${prev.source}:${prev.page.prevPageToken}` : undefined;
+
     return {
       results,
       pagination: {
         currentPage,
-        totalResults: searchResponse.pageInfo.totalResults,
-        hasNextPage: Boolean(searchResponse.nextPageToken),
-        hasPrevPage: Boolean(searchResponse.prevPageToken),
-        nextPageToken: searchResponse.nextPageToken,
-        prevPageToken: searchResponse.prevPageToken,
+        totalResults: pages.reduce((total, { page }) => total + page.totalResults, 0),
+        hasNextPage: Boolean(nextPageToken),
+        hasPrevPage: Boolean(prevPageToken),
+        ...(nextPageToken && { nextPageToken }),
+        ...(prevPageToken && { prevPageToken }),
         resultsPerPage: results.length
       }
     };
   }
-}
\ No newline at end of file
+}
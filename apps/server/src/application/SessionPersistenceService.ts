@@ -0,0 +1,197 @@
+/**
+ * SessionPersistenceService - Snapshots and restores party session state
+ * Captures queue contents, per-user rate data, guest profiles and playback
+ * position so a restarted server can pick up where it left off
+ * Requirements: 8.1, 8.2, 8.3, 8.4, 28.3
+ */
+
+import { Result } from '@party-jukebox/shared';
+import { IQueueManager } from './QueueManager';
+import { IRateLimiter } from './RateLimiter';
+import { IPlaybackOrchestrator } from '../domain/playback/interfaces';
+import { PlaybackEvent } from '../domain/playback/types';
+import { IVolumeService } from './VolumeService';
+import { IGuestSessionService } from './GuestSessionService';
+import { IStateStore } from '../domain/persistence/interfaces';
+import { PlaybackSnapshot, SessionSnapshot, SESSION_SNAPSHOT_VERSION } from '../domain/persistence/types';
+import { PersistenceError } from '../domain/persistence/errors';
+
+/**
+ * Session persistence configuration
+ */
+export interface SessionPersistenceConfig {
+  saveIntervalMs?: number;
+  guestSessionService?: IGuestSessionService;
+}
+
+/**
+ * Session persistence service implementation
+ * Requirements: 8.1, 8.2, 8.3, 8.4
+ */
+export class SessionPersistenceService {
+  private readonly saveIntervalMs: number;
+  private readonly guestSessionService: IGuestSessionService | null;
+  private orchestrator: IPlaybackOrchestrator | null = null;
+  private volumeService: IVolumeService | null = null;
+  private saveInterval: NodeJS.Timeout | null = null;
+  private lastSavedPayload: string | null = null;
+  private pendingSave: Promise<Result<void, PersistenceError>> | null = null;
+
+  private readonly handlePlaybackEvent = (event: PlaybackEvent): void => {
+    // Track changes and pause/resume are worth persisting straight away
+    if (event.type === 'state_changed') {
+      void this.saveNow();
+    }
+  };
+
+  private readonly handleVolumeChange = (): void => {
+    void this.saveNow();
+  };
+
+  constructor(
+    private readonly store: IStateStore,
+    private readonly queueManager: IQueueManager,
+    private readonly rateLimiter: IRateLimiter,
+    config: SessionPersistenceConfig = {}
+  ) {
+    this.saveIntervalMs = config.saveIntervalMs ?? 5000;
+    this.guestSessionService = config.guestSessionService ?? null;
+  }
+
+  /**
+   * Restore queue, rate limiting and guest state from the store
+   * Returns the saved playback snapshot so the caller can resume playback
+   * Requirements: 8.2, 8.4, 28.3
+   */
+  async restore(): Promise<Result<PlaybackSnapshot | null, PersistenceError>> {
+    const loadResult = await this.store.load();
+    if (!loadResult.success) {
+      return loadResult;
+    }
+
+    const snapshot = loadResult.value;
+    if (!snapshot) {
+      return { success: true, value: null };
+    }
+
+    this.queueManager.restoreSnapshot(snapshot.queue);
+    this.rateLimiter.restoreSnapshot(snapshot.rateLimits);
+    if (snapshot.guests) {
+      this.guestSessionService?.restoreSnapshot(snapshot.guests);
+    }
+
+    // Only resume position if the saved item is still the current track
+    const currentTrack = this.queueManager.getCurrentTrack();
+    const playback = snapshot.playback.queueItemId && currentTrack?.id === snapshot.playback.queueItemId
+      ? snapshot.playback
+      : { ...snapshot.playback, queueItemId: currentTrack?.id ?? null, position: 0 };
+
+    console.log(`💾 Restored session from ${snapshot.savedAt.toISOString()}: ${this.queueManager.getQueueLength()} queued track(s)`);
+    return { success: true, value: playback };
+  }
+
+  /**
+   * Begin snapshotting on playback state changes and on a fixed interval
+   * Requirements: 8.1, 16.4
+   */
+  start(orchestrator: IPlaybackOrchestrator, volumeService?: IVolumeService): void {
+    if (this.saveInterval) {
+      return;
+    }
+
+    this.orchestrator = orchestrator;
+    orchestrator.addEventListener(this.handlePlaybackEvent);
+
+    if (volumeService) {
+      this.volumeService = volumeService;
+      volumeService.addEventListener(this.handleVolumeChange);
+    }
+
+    this.saveInterval = setInterval(() => {
+      void this.saveNow();
+    }, this.saveIntervalMs);
+    this.saveInterval.unref();
+  }
+
+  /**
+   * Stop snapshotting and write a final snapshot
+   * Requirements: 8.1
+   */
+  async stop(): Promise<void> {
+    if (this.saveInterval) {
+      clearInterval(this.saveInterval);
+      this.saveInterval = null;
+    }
+
+    await this.saveNow();
+
+    if (this.orchestrator) {
+      this.orchestrator.removeEventListener(this.handlePlaybackEvent);
+      this.orchestrator = null;
+    }
+
+    if (this.volumeService) {
+      this.volumeService.removeEventListener(this.handleVolumeChange);
+      this.volumeService = null;
+    }
+  }
+
+  /**
+   * Write a snapshot if state changed since the last write
+   * Concurrent calls share the in-flight write
+   * Requirements: 8.1
+   */
+  async saveNow(): Promise<Result<void, PersistenceError>> {
+    if (this.pendingSave) {
+      return this.pendingSave;
+    }
+
+    this.pendingSave = this.writeSnapshot().finally(() => {
+      this.pendingSave = null;
+    });
+    return this.pendingSave;
+  }
+
+  /**
+   * Build the current session snapshot
+   * Requirements: 8.1, 28.3
+   */
+  createSnapshot(): SessionSnapshot {
+    const playbackState = this.orchestrator?.getCurrentState();
+    const currentTrack = this.queueManager.getCurrentTrack();
+
+    return {
+      version: SESSION_SNAPSHOT_VERSION,
+      savedAt: new Date(),
+      queue: this.queueManager.exportSnapshot(),
+      rateLimits: this.rateLimiter.exportSnapshot(),
+      playback: {
+        queueItemId: currentTrack?.id ?? null,
+        // Position is only meaningful if the orchestrator is on the queue's current item
+        position: playbackState && currentTrack && playbackState.currentTrack?.id === currentTrack.id
+          ? Math.floor(playbackState.position)
+          : 0,
+        ...(this.volumeService && { volume: this.volumeService.getSettings() })
+      },
+      ...(this.guestSessionService && { guests: this.guestSessionService.exportSnapshot() })
+    };
+  }
+
+  private async writeSnapshot(): Promise<Result<void, PersistenceError>> {
+    const snapshot = this.createSnapshot();
+
+    // Compare without the timestamp so idle periods don't rewrite the file
+    const payload = JSON.stringify({ ...snapshot, savedAt: undefined });
+    if (payload === this.lastSavedPayload) {
+      return { success: true, value: undefined };
+    }
+
+    const result = await this.store.save(snapshot);
+    if (result.success) {
+      this.lastSavedPayload = payload;
+    } else {
+      console.error('Failed to persist session state:', result.error);
+    }
+    return result;
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * SkipVoteService - Democratic vote-to-skip for the current track
+ * Guests vote once per track, and the track is skipped when votes exceed
+ * a configurable share of connected controllers
+ * Requirements: 11.1, 11.2, 11.3, 11.4
+ */
+
+import { Result } from '@party-jukebox/shared';
+import { IPlaybackOrchestrator } from '../domain/playback/interfaces';
+import { PlaybackEvent, SkipVoteListener, SkipVoteTally } from '../domain/playback/types';
+import { SkipVoteError } from '../domain/playback/errors';
+
+/**
+ * Skip vote configuration
+ */
+export interface SkipVoteConfig {
+  threshold?: number;
+}
+
+/**
+ * Outcome of a single vote
+ */
+export interface SkipVoteResult {
+  tally: SkipVoteTally;
+  skipped: boolean;
+}
+
+/**
+ * A lone vote never skips a track; the host can skip directly
+ */
+const MIN_REQUIRED_VOTES = 2;
+
+/**
+ * Skip vote service interface
+ * Requirements: 11.1, 11.2, 11.3
+ */
+export interface ISkipVoteService {
+  castVote(userId: string, eligibleVoters: number): Promise<Result<SkipVoteResult, SkipVoteError>>;
+  getTally(eligibleVoters: number): SkipVoteTally;
+  getThreshold(): number;
+  addEventListener(listener: SkipVoteListener): void;
+  removeEventListener(listener: SkipVoteListener): void;
+}
+
+/**
+ * Skip vote service implementation
+ * Votes are kept per queue item, so a new track always starts a fresh round
+ * Requirements: 11.1, 11.2, 11.3, 11.4
+ */
+export class SkipVoteService implements ISkipVoteService {
+  private readonly threshold: number;
+  private readonly listeners: SkipVoteListener[] = [];
+  private roundQueueItemId: string | null = null;
+  private voters = new Set<string>();
+  private lastEligibleVoters = 0;
+  private skipInProgress = false;
+
+  private readonly handlePlaybackEvent = (event: PlaybackEvent): void => {
+    if (event.type !== 'track_started' && event.type !== 'state_changed') {
+      return;
+    }
+
+    const currentId = event.data.state?.currentTrack?.id ?? event.data.track?.id ?? null;
+    if (currentId !== this.roundQueueItemId) {
+      this.startRound(currentId);
+    }
+  };
+
+  constructor(
+    private readonly orchestrator: IPlaybackOrchestrator,
+    config: SkipVoteConfig = {}
+  ) {
+    const threshold = config.threshold ?? 0.5;
+    // Anything outside (0, 1) can't be met or would skip on every vote
+    this.threshold = threshold > 0 && threshold < 1 ? threshold : 0.5;
+  }
+
+  /**
+   * Begin resetting votes whenever the playing track changes
+   * Requirements: 11.4
+   */
+  start(): void {
+    this.orchestrator.addEventListener(this.handlePlaybackEvent);
+  }
+
+  /**
+   * Stop listening for track changes
+   */
+  stop(): void {
+    this.orchestrator.removeEventListener(this.handlePlaybackEvent);
+  }
+
+  /**
+   * Record a vote to skip the current track and skip once the threshold is passed
+   * Requirements: 11.1, 11.2
+   */
+  async castVote(userId: string, eligibleVoters: number): Promise<Result<SkipVoteResult, SkipVoteError>> {
+    const currentTrack = this.orchestrator.getCurrentState().currentTrack;
+    if (!currentTrack) {
+      return { success: false, error: 'NOTHING_PLAYING' };
+    }
+
+    if (currentTrack.id !== this.roundQueueItemId) {
+      this.startRound(currentTrack.id);
+    }
+
+    if (this.voters.has(userId)) {
+      return { success: false, error: 'ALREADY_VOTED' };
+    }
+
+    this.voters.add(userId);
+    this.lastEligibleVoters = eligibleVoters;
+    const tally = this.getTally(eligibleVoters);
+    this.notifyListeners(tally);
+
+    // Only the vote that crosses the threshold triggers the skip
+    if (tally.votes < tally.required || this.skipInProgress) {
+      return { success: true, value: { tally, skipped: false } };
+    }
+
+    this.skipInProgress = true;
+    console.log(`🗳️  Skip vote passed (${tally.votes}/${tally.required}) for "${currentTrack.track.title}"`);
+
+    const skipResult = await this.orchestrator.skip();
+    if (!skipResult.success) {
+      this.skipInProgress = false;
+      console.error('Vote-to-skip failed to skip track:', skipResult.error);
+      return { success: false, error: 'SKIP_FAILED' };
+    }
+
+    return { success: true, value: { tally, skipped: true } };
+  }
+
+  /**
+   * Get the tally for the current round
+   * Requirements: 11.3
+   */
+  getTally(eligibleVoters: number = this.lastEligibleVoters): SkipVoteTally {
+    // Guests voting over REST need not hold a controller connection, but they are still eligible
+    const eligible = Math.max(eligibleVoters, this.voters.size);
+    return {
+      queueItemId: this.roundQueueItemId,
+      votes: this.voters.size,
+      required: this.getRequiredVotes(eligible),
+      eligibleVoters: eligible,
+      threshold: this.threshold
+    };
+  }
+
+  /**
+   * Get the configured share of controllers that must vote
+   */
+  getThreshold(): number {
+    return this.threshold;
+  }
+
+  /**
+   * Subscribe to tally changes
+   * Requirements: 11.3
+   */
+  addEventListener(listener: SkipVoteListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Unsubscribe from tally changes
+   */
+  removeEventListener(listener: SkipVoteListener): void {
+    const index = this.listeners.indexOf(listener);
+    if (index > -1) {
+      this.listeners.splice(index, 1);
+    }
+  }
+
+  /**
+   * Votes must exceed the threshold share, and at least two votes are always needed
+   * Requirements: 11.2
+   */
+  private getRequiredVotes(eligibleVoters: number): number {
+    return Math.max(MIN_REQUIRED_VOTES, Math.floor(Math.max(0, eligibleVoters) * this.threshold) + 1);
+  }
+
+  private startRound(queueItemId: string | null): void {
+    this.roundQueueItemId = queueItemId;
+    this.voters = new Set();
+    this.skipInProgress = false;
+    this.notifyListeners(this.getTally());
+  }
+
+  private notifyListeners(tally: SkipVoteTally): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(tally);
+      } catch (error) {
+        console.error('Error in skip vote listener:', error);
+      }
+    }
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * SongMatcher - Recognises the same song across different uploads
+ * YouTube titles carry the artist and extras ("Artist - Song (Official Video)"),
+ * channels add "VEVO" or "- Topic", and library tags differ in case and accents,
+ * so tracks are compared on a normalized artist and title
+ * Requirements: 25.3
+ */
+
+import { Track } from '@party-jukebox/shared';
+
+/**
+ * Words that describe an upload rather than the song
+ */
+const UPLOAD_NOISE = /\b(official|video|audio|lyrics?|visuali[sz]er|hd|hq|4k|remaster(ed)?|explicit|clean)\b/g;
+
+/**
+ * Lowercase, strip accents, bracketed extras, featured artists and punctuation
+ */
+function normalize(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[([{][^)\]}]*[)\]}]/g, ' ')
+    .replace(/\s(feat|ft|featuring)\.?\s.*$/, ' ')
+    .replace(/&/g, ' and ')
+    .replace(UPLOAD_NOISE, ' ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+function normalizeArtist(artist: string): string {
+  return normalize(artist.replace(/\s*-\s*topic\s*$/i, '').replace(/\s*vevo\s*$/i, ''));
+}
+
+/**
+ * Normalized "artist|title" for a track, taking the artist from an "Artist - Title"
+ * title when there is one, or null when there's too little left to compare
+ * Requirements: 25.3
+ */
+export function songKey(track: Pick<Track, 'title' | 'artist'>): string | null {
+  const [first, ...rest] = track.title.split(/\s+[-–—]\s+/);
+  const [artist, title] = rest.length > 0 ? [first, rest.join(' ')] : [track.artist, track.title];
+
+  const normalizedArtist = normalizeArtist(artist);
+  const normalizedTitle = normalize(title);
+  return normalizedArtist && normalizedTitle ? `${normalizedArtist}|${normalizedTitle}` : null;
+}
+
+/**
+ * Whether two tracks are the same recording from the same source
+ */
+export function isSameTrack(a: Track, b: Track): boolean {
+  return a.source === b.source && a.sourceId === b.sourceId;
+}
+
+/**
+ * Whether two tracks look like the same song, e.g. an official video and a lyrics upload
+ * Requirements: 25.3
+ */
+export function isSameSong(a: Track, b: Track): boolean {
+  const key = songKey(a);
+  return key !== null && key === songKey(b);
+}
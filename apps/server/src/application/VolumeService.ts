@@ -0,0 +1,256 @@
+/**
+ * VolumeService - Volume level, mute, host cap and announcement ducking
+ * Keeps the volume the room asked for separate from the level sent to the
+ * player, so muting or ducking can always be undone exactly
+ * Requirements: 16.1, 16.2, 16.3, 16.4, 16.5
+ */
+
+import { Result } from '@party-jukebox/shared';
+import { IPlaybackOrchestrator } from '../domain/playback/interfaces';
+import { PlaybackEvent, VolumeListener, VolumeSettings, VolumeState } from '../domain/playback/types';
+import { VolumeError } from '../domain/playback/errors';
+
+/**
+ * Volume configuration
+ * Settings usually come from the restored session snapshot
+ */
+export interface VolumeConfig {
+  settings?: Partial<VolumeSettings>;
+  duckLevel?: number;
+}
+
+/**
+ * Options for a temporary duck
+ */
+export interface DuckOptions {
+  level?: number; // 0-100 ceiling while ducked
+  durationMs?: number; // restore automatically after this long
+}
+
+/**
+ * Volume service interface
+ * Requirements: 16.1, 16.2, 16.3, 16.5
+ */
+export interface IVolumeService {
+  getState(): VolumeState;
+  getSettings(): VolumeSettings;
+  setVolume(update: Partial<VolumeSettings>): Promise<Result<VolumeState, VolumeError>>;
+  duck(options?: DuckOptions): Promise<Result<VolumeState, VolumeError>>;
+  unduck(): Promise<Result<VolumeState, VolumeError>>;
+  addEventListener(listener: VolumeListener): void;
+  removeEventListener(listener: VolumeListener): void;
+}
+
+const DEFAULT_SETTINGS: VolumeSettings = { level: 50, muted: false, maxVolume: 100 };
+
+/**
+ * Whether a value is a usable 0-100 volume
+ */
+function isVolumeLevel(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 100;
+}
+
+/**
+ * Volume service implementation
+ * Requirements: 16.1, 16.2, 16.3, 16.4, 16.5
+ */
+export class VolumeService implements IVolumeService {
+  private readonly defaultDuckLevel: number;
+  private readonly listeners: VolumeListener[] = [];
+  private settings: VolumeSettings;
+  private duckLevel: number | null = null;
+  private unduckTimer: NodeJS.Timeout | null = null;
+
+  private readonly handlePlaybackEvent = (event: PlaybackEvent): void => {
+    // mpv may have been restarted between tracks, so re-assert the level
+    if (event.type === 'track_started') {
+      void this.apply();
+    }
+  };
+
+  constructor(
+    private readonly orchestrator: IPlaybackOrchestrator,
+    config: VolumeConfig = {}
+  ) {
+    this.defaultDuckLevel = isVolumeLevel(config.duckLevel) ? config.duckLevel : 20;
+
+    const saved = config.settings ?? {};
+    const maxVolume = isVolumeLevel(saved.maxVolume) ? saved.maxVolume : DEFAULT_SETTINGS.maxVolume;
+    const level = isVolumeLevel(saved.level) ? saved.level : DEFAULT_SETTINGS.level;
+    this.settings = {
+      level: Math.min(level, maxVolume),
+      muted: typeof saved.muted === 'boolean' ? saved.muted : DEFAULT_SETTINGS.muted,
+      maxVolume
+    };
+  }
+
+  /**
+   * Apply the saved volume and keep it applied as tracks change
+   * Requirements: 16.4
+   */
+  start(): void {
+    this.orchestrator.addEventListener(this.handlePlaybackEvent);
+    void this.apply();
+  }
+
+  /**
+   * Stop re-applying the volume and cancel any pending unduck
+   */
+  stop(): void {
+    this.orchestrator.removeEventListener(this.handlePlaybackEvent);
+    this.clearUnduckTimer();
+  }
+
+  /**
+   * Get the current volume state
+   * Requirements: 16.1
+   */
+  getState(): VolumeState {
+    return {
+      ...this.settings,
+      ducked: this.duckLevel !== null,
+      effectiveVolume: this.getEffectiveVolume()
+    };
+  }
+
+  /**
+   * Get the settings worth persisting - ducking is always temporary
+   * Requirements: 16.4
+   */
+  getSettings(): VolumeSettings {
+    return this.settings;
+  }
+
+  /**
+   * Change the level, mute state or cap
+   * Levels above the cap are clamped to it, and lowering the cap lowers the level with it
+   * Requirements: 16.1, 16.2, 16.3
+   */
+  async setVolume(update: Partial<VolumeSettings>): Promise<Result<VolumeState, VolumeError>> {
+    if (
+      (update.level !== undefined && !isVolumeLevel(update.level)) ||
+      (update.maxVolume !== undefined && !isVolumeLevel(update.maxVolume)) ||
+      (update.muted !== undefined && typeof update.muted !== 'boolean')
+    ) {
+      return { success: false, error: 'INVALID_VOLUME' };
+    }
+
+    const maxVolume = update.maxVolume ?? this.settings.maxVolume;
+    this.settings = {
+      level: Math.round(Math.min(update.level ?? this.settings.level, maxVolume)),
+      muted: update.muted ?? this.settings.muted,
+      maxVolume
+    };
+
+    return this.apply();
+  }
+
+  /**
+   * Lower the volume for an announcement until unduck is called or the duration passes
+   * Requirements: 16.5
+   */
+  async duck(options: DuckOptions = {}): Promise<Result<VolumeState, VolumeError>> {
+    if (
+      (options.level !== undefined && !isVolumeLevel(options.level)) ||
+      (options.durationMs !== undefined && !(Number.isFinite(options.durationMs) && options.durationMs > 0))
+    ) {
+      return { success: false, error: 'INVALID_VOLUME' };
+    }
+
+    this.duckLevel = options.level ?? this.defaultDuckLevel;
+    this.clearUnduckTimer();
+
+    if (options.durationMs !== undefined) {
+      this.unduckTimer = setTimeout(() => {
+        this.unduckTimer = null;
+        void this.unduck();
+      }, options.durationMs);
+      this.unduckTimer.unref();
+    }
+
+    console.log(`🔉 Ducking volume to ${this.getEffectiveVolume()}`);
+    return this.apply();
+  }
+
+  /**
+   * Restore the volume from before the duck
+   * Requirements: 16.5
+   */
+  async unduck(): Promise<Result<VolumeState, VolumeError>> {
+    this.clearUnduckTimer();
+    if (this.duckLevel === null) {
+      return { success: true, value: this.getState() };
+    }
+
+    this.duckLevel = null;
+    console.log(`🔊 Restoring volume to ${this.getEffectiveVolume()}`);
+    return this.apply();
+  }
+
+  /**
+   * Subscribe to volume changes
+   * Requirements: 16.1
+   */
+  addEventListener(listener: VolumeListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Unsubscribe from volume changes
+   */
+  removeEventListener(listener: VolumeListener): void {
+    const index = this.listeners.indexOf(listener);
+    if (index > -1) {
+      this.listeners.splice(index, 1);
+    }
+  }
+
+  private getEffectiveVolume(): number {
+    const level = this.settings.muted ? 0 : this.settings.level;
+    return this.duckLevel === null ? level : Math.min(level, this.duckLevel);
+  }
+
+  /**
+   * Send the effective volume to the player
+   * Settings are kept even if the player is unavailable, and are applied when the next track starts.
+   * mpv is only started for a track, so with nothing playing the stored state is all there is to set
+   */
+  private async apply(): Promise<Result<VolumeState, VolumeError>> {
+    const state = this.getState();
+    this.notifyListeners(state);
+
+    const { status } = this.orchestrator.getCurrentState();
+    if (status === 'idle' || status === 'resolving') {
+      return { success: true, value: state };
+    }
+
+    if (!this.orchestrator.setVolume) {
+      return { success: false, error: 'VOLUME_APPLY_FAILED' };
+    }
+
+    const result = await this.orchestrator.setVolume(state.effectiveVolume);
+    if (!result.success) {
+      console.error('Failed to apply volume:', result.error);
+      return { success: false, error: 'VOLUME_APPLY_FAILED' };
+    }
+
+    return { success: true, value: state };
+  }
+
+  private clearUnduckTimer(): void {
+    if (this.unduckTimer) {
+      clearTimeout(this.unduckTimer);
+      this.unduckTimer = null;
+    }
+  }
+
+  private notifyListeners(state: VolumeState): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(state);
+      } catch (error) {
+        console.error('Error in volume listener:', error);
+      }
+    }
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Tests for AutoplayService radio mode
+ * Feature: autoplay
+ */
+
+import { JUKEBOX_USER, QueueItem, SearchResult, Track, TrackSource } from '@party-jukebox/shared';
+import { AutoplayService, isAutoplayItem } from '../AutoplayService';
+import { QueueManager } from '../QueueManager';
+import { QueueService } from '../QueueService';
+import { RateLimiter } from '../RateLimiter';
+import { ISearchService } from '../SearchService';
+import { IPlaybackOrchestrator } from '../../domain/playback/interfaces';
+import { PlaybackEventListener } from '../../domain/playback/types';
+
+const createResult = (videoId: string): SearchResult => ({
+  source: 'youtube',
+  sourceId: videoId,
+  title: `Song ${videoId}`,
+  artist: 'Test Artist',
+  duration: 180,
+  thumbnailUrl: 'https://i.ytimg.com/vi/default.jpg',
+  channelTitle: 'Test Channel',
+  publishedAt: '2024-01-01T00:00:00Z'
+});
+
+const createTrack = (videoId: string): Track => ({
+  id: `track-${videoId}`,
+  title: `Song ${videoId}`,
+  artist: 'Test Artist',
+  source: 'youtube',
+  sourceId: videoId,
+  duration: 180
+});
+
+describe('AutoplayService', () => {
+  let queueManager: QueueManager;
+  let queueService: QueueService;
+  let listeners: PlaybackEventListener[];
+  let orchestrator: IPlaybackOrchestrator;
+  let searchService: jest.Mocked<ISearchService>;
+
+  const emitQueueEmpty = () => listeners.forEach(listener => listener({
+    type: 'queue_empty',
+    timestamp: new Date(),
+    data: { state: orchestrator.getCurrentState() }
+  }));
+
+  const emitTrackStarted = (track: QueueItem) => listeners.forEach(listener => listener({
+    type: 'track_started',
+    timestamp: new Date(),
+    data: { track, state: orchestrator.getCurrentState() }
+  }));
+
+  const flushPromises = () => new Promise(resolve => setImmediate(resolve));
+
+  beforeEach(() => {
+    queueManager = new QueueManager();
+    queueService = new QueueService(queueManager, new RateLimiter());
+    listeners = [];
+    orchestrator = {
+      start: jest.fn(),
+      stop: jest.fn(),
+      pause: jest.fn(),
+      resume: jest.fn(),
+      seek: jest.fn(),
+      skip: jest.fn().mockResolvedValue({ success: true, value: undefined }),
+      getCurrentState: jest.fn(() => ({
+        status: 'idle' as const,
+        currentTrack: null,
+        position: 0,
+        duration: 0,
+        volume: 50
+      })),
+      addEventListener: jest.fn((listener: PlaybackEventListener) => listeners.push(listener)),
+      removeEventListener: jest.fn()
+    };
+    searchService = {
+      search: jest.fn(),
+      getRelated: jest.fn().mockResolvedValue({ success: true, value: [] }),
+      lookup: jest.fn(async (_source: TrackSource, videoIds: string[]) => ({ success: true as const, value: videoIds.map(createResult) }))
+    };
+  });
+
+  test('queues a related track as the jukebox when the queue runs dry', async () => {
+    searchService.getRelated.mockResolvedValue({ success: true, value: [createResult('relatedVid1')] });
+    const service = new AutoplayService(queueService, orchestrator, searchService, { enabled: true });
+    service.start();
+    await flushPromises();
+
+    queueService.addTrackToQueue(createTrack('guestVid001'), { id: 'user-1', nickname: 'Guest' });
+    emitTrackStarted(queueService.getQueueState().currentTrack!);
+    queueManager.advanceQueue();
+
+    const result = await service.fillQueue();
+
+    expect(searchService.getRelated).toHaveBeenCalledWith('youtube', 'guestVid001');
+    expect(result.success && result.value.source).toBe('related');
+    expect(queueService.getQueueState().currentTrack?.addedBy).toEqual(JUKEBOX_USER);
+  });
+
+  test('falls back from related to seeds to the fallback playlist', async () => {
+    const service = new AutoplayService(queueService, orchestrator, searchService, {
+      enabled: true,
+      seedVideoIds: ['seedVideo01'],
+      fallbackVideoIds: ['playlist001']
+    });
+
+    // Related lookups come back empty, so the seed list is used first
+    const first = await service.fillQueue();
+    expect(first.success && first.value.source).toBe('seeds');
+    expect(first.success && first.value.queueItem.track.sourceId).toBe('seedVideo01');
+
+    service.start();
+
+    // Once the seed has played recently, the fallback playlist takes over
+    emitTrackStarted(queueService.getQueueState().currentTrack!);
+    queueManager.advanceQueue();
+
+    const second = await service.fillQueue();
+    expect(second.success && second.value.source).toBe('playlist');
+    expect(second.success && second.value.queueItem.track.sourceId).toBe('playlist001');
+  });
+
+  test('fills on queue_empty only while enabled', async () => {
+    const service = new AutoplayService(queueService, orchestrator, searchService, { seedVideoIds: ['seedVideo01'] });
+    service.start();
+
+    emitQueueEmpty();
+    await flushPromises();
+    expect(queueService.getQueueState().isEmpty).toBe(true);
+
+    service.updateSettings({ enabled: true });
+    await flushPromises();
+    expect(isAutoplayItem(queueService.getQueueState().currentTrack)).toBe(true);
+  });
+
+  test('steps aside when a guest requests a track', async () => {
+    const service = new AutoplayService(queueService, orchestrator, searchService, {
+      enabled: true,
+      fallbackVideoIds: ['playlist001']
+    });
+    service.start();
+    await flushPromises();
+
+    queueService.addAutoplayTrack(createTrack('playlist002'));
+    expect(queueService.getQueueState().upcomingTracks).toHaveLength(1);
+
+    queueService.addTrackToQueue(createTrack('guestVid001'), { id: 'user-1', nickname: 'Guest' });
+    await flushPromises();
+
+    const queueState = queueService.getQueueState();
+    expect(queueState.upcomingTracks.map(item => item.track.sourceId)).toEqual(['guestVid001']);
+    expect(orchestrator.skip).toHaveBeenCalledTimes(1);
+  });
+
+  test('does not let guests add tracks as the jukebox', () => {
+    const result = queueService.addTrackToQueue(createTrack('guestVid001'), JUKEBOX_USER);
+
+    expect(result).toEqual({ success: false, error: 'INVALID_USER' });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Tests for the content policy on track requests
+ * Requirements: 26.1, 26.2, 26.3
+ */
+
+import { SearchResult, Track } from '@party-jukebox/shared';
+import { ContentPolicyService } from '../ContentPolicyService';
+import { QueueService } from '../QueueService';
+import { QueueManager } from '../QueueManager';
+import { RateLimiter } from '../RateLimiter';
+import { TrackSourceRegistry } from '../../infrastructure/sources/TrackSourceRegistry';
+
+const createTrack = (overrides: Partial<Track> = {}): Track => ({
+  id: 'track-1',
+  title: 'Blue Monday',
+  artist: 'New Order',
+  source: 'youtube',
+  sourceId: 'dQw4w9WgXcQ',
+  duration: 240,
+  ...overrides
+});
+
+const createDetails = (overrides: Partial<SearchResult> = {}): SearchResult => ({
+  source: 'youtube',
+  sourceId: 'dQw4w9WgXcQ',
+  title: 'New Order - Blue Monday',
+  artist: 'New Order',
+  duration: 240,
+  thumbnailUrl: '',
+  channelTitle: 'NewOrderVEVO',
+  publishedAt: '',
+  channelId: 'UCneworder',
+  isLive: false,
+  isAgeRestricted: false,
+  isMusic: true,
+  ...overrides
+});
+
+describe('ContentPolicyService', () => {
+  it('should keep out hours-long tracks and live streams by default', () => {
+    const policy = new ContentPolicyService(null);
+
+    expect(policy.check(createTrack(), createDetails())).toBeNull();
+    expect(policy.check(createTrack({ duration: 10 * 60 * 60 }))).toEqual({
+      rule: 'max_duration',
+      message: 'Tracks can be at most 20 minutes long',
+      limit: 1200
+    });
+    expect(policy.check(createTrack(), createDetails({ isLive: true }))?.rule).toBe('live_stream');
+  });
+
+  it('should trust the source over the duration the guest sent', () => {
+    const policy = new ContentPolicyService(null, { minDurationSeconds: 30 });
+
+    expect(policy.check(createTrack({ duration: 200 }), createDetails({ duration: 36000 }))?.rule).toBe('max_duration');
+    expect(policy.check(createTrack({ duration: 200 }), createDetails({ duration: 20 }))).toMatchObject({
+      rule: 'min_duration',
+      message: 'Tracks must be at least 30 seconds long'
+    });
+  });
+
+  it('should name the blocklist entry that matched', () => {
+    const policy = new ContentPolicyService(null, {
+      blockedVideoIds: ['https://www.youtube.com/watch?v=aaaaaaaaaaa'],
+      blockedChannels: ['neworderVEVO'],
+      blockedKeywords: ['Remix']
+    });
+
+    expect(policy.check(createTrack({ sourceId: 'aaaaaaaaaaa' }))).toMatchObject({ rule: 'blocked_video', match: 'aaaaaaaaaaa' });
+    expect(policy.check(createTrack(), createDetails())).toMatchObject({ rule: 'blocked_channel', match: 'neworderVEVO' });
+    expect(policy.check(createTrack({ title: 'Blue Monday (Rémix)' }))).toMatchObject({ rule: 'blocked_keyword', match: 'Remix' });
+    expect(policy.check(createTrack({ title: 'Remixed Monday' }))).toBeNull();
+  });
+
+  it('should only block age-restricted and non-music tracks when the source says so', () => {
+    const policy = new ContentPolicyService(null, { blockAgeRestricted: true, musicOnly: true });
+
+    expect(policy.check(createTrack(), createDetails({ isAgeRestricted: true }))?.rule).toBe('age_restricted');
+    expect(policy.check(createTrack(), createDetails({ isMusic: false }))?.rule).toBe('not_music');
+    expect(policy.check(createTrack(), createDetails({ isAgeRestricted: undefined, isMusic: undefined }))).toBeNull();
+    expect(policy.check(createTrack())).toBeNull();
+  });
+
+  it('should change rules at runtime and turn limits off with null or zero', () => {
+    const policy = new ContentPolicyService(null);
+
+    const settings = policy.updateSettings({ maxDurationSeconds: 0, blockedKeywords: [' loop ', 'loop', ''] });
+
+    expect(settings).toMatchObject({ maxDurationSeconds: null, blockedKeywords: ['loop'], blockLiveStreams: true });
+    expect(policy.check(createTrack({ duration: 36000 }))).toBeNull();
+    expect(policy.check(createTrack({ title: '10 hour loop' }))?.rule).toBe('blocked_keyword');
+  });
+
+  it('should look up details only when a rule needs them', async () => {
+    const lookup = jest.fn(async (): Promise<SearchResult[]> => [createDetails()]);
+    const sources = new TrackSourceRegistry([{
+      source: 'youtube',
+      validateSourceId: () => true,
+      getTrackUrl: () => null,
+      getThumbnailUrl: () => undefined,
+      resolveStream: jest.fn(),
+      lookup
+    }]);
+    const policy = new ContentPolicyService(sources);
+
+    expect(await policy.lookupDetails(createTrack())).toEqual({ success: true, value: createDetails() });
+
+    policy.updateSettings({ maxDurationSeconds: null, blockLiveStreams: false, blockedVideoIds: ['aaaaaaaaaaa'] });
+    expect(await policy.lookupDetails(createTrack())).toEqual({ success: true, value: null });
+    expect(lookup).toHaveBeenCalledTimes(1);
+  });
+
+  it('should hold requests back when the lookup fails, unless only keywords need it', async () => {
+    const lookup = jest.fn(async (): Promise<SearchResult[]> => {
+      throw new Error('quota exceeded');
+    });
+    const sources = new TrackSourceRegistry([{
+      source: 'youtube',
+      validateSourceId: () => true,
+      getTrackUrl: () => null,
+      getThumbnailUrl: () => undefined,
+      resolveStream: jest.fn(),
+      lookup
+    }]);
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    const policy = new ContentPolicyService(sources);
+
+    // A made-up short duration must not get a long track past the limit
+    expect(await policy.lookupDetails(createTrack({ duration: 60 }))).toEqual({ success: false, error: 'DETAILS_UNAVAILABLE' });
+
+    policy.updateSettings({ maxDurationSeconds: null, blockLiveStreams: false, blockedKeywords: ['loop'] });
+    expect(await policy.lookupDetails(createTrack())).toEqual({ success: true, value: null });
+    jest.restoreAllMocks();
+  });
+
+  it('should be enforced by QueueService for guests and autoplay', () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    const policy = new ContentPolicyService(null);
+    const queueService = new QueueService(new QueueManager(), new RateLimiter(), { contentPolicy: policy });
+    const guest = { id: 'user-1', nickname: 'Guest' };
+
+    expect(queueService.addTrackToQueue(createTrack(), guest, { details: createDetails({ duration: 36000 }) }))
+      .toEqual({ success: false, error: 'CONTENT_POLICY_VIOLATION' });
+    expect(queueService.addAutoplayTrack(createTrack(), createDetails({ isLive: true })))
+      .toEqual({ success: false, error: 'CONTENT_POLICY_VIOLATION' });
+    expect(queueService.addTrackToQueue(createTrack(), guest, { details: createDetails() }).success).toBe(true);
+    expect(queueService.getQueueState().totalLength).toBe(1);
+    jest.restoreAllMocks();
+  });
+});
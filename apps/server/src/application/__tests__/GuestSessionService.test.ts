@@ -0,0 +1,86 @@
+/**
+ * Tests for device-bound guest sessions
+ * Requirements: 28.1, 28.2, 28.3
+ */
+
+import { GuestSessionService } from '../GuestSessionService';
+
+describe('GuestSessionService', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should bind a stable user ID to the token a device joins with', () => {
+    const service = new GuestSessionService({ secret: 'test-secret' });
+
+    const joinResult = service.join('Alice');
+    expect(joinResult.success).toBe(true);
+    if (!joinResult.success) return;
+
+    const { token, user, isNew } = joinResult.value;
+    expect(isNew).toBe(true);
+    expect(service.resolve(token)).toEqual({ id: user.id, nickname: 'Alice' });
+
+    // Joining again with the same token keeps the ID and just renames
+    const rejoinResult = service.join('Alicia', token);
+    expect(rejoinResult).toEqual({ success: true, value: { token, user: { id: user.id, nickname: 'Alicia' }, isNew: false } });
+  });
+
+  it('should reject forged and tampered tokens', () => {
+    const service = new GuestSessionService({ secret: 'test-secret' });
+    const joinResult = service.join('Alice');
+    if (!joinResult.success) throw new Error('join failed');
+
+    const { token, user } = joinResult.value;
+    const signature = token.slice(token.lastIndexOf('.') + 1);
+
+    expect(service.resolve(`someone-else.${signature}`)).toBeNull();
+    expect(service.resolve(user.id)).toBeNull();
+    expect(service.resolve(undefined)).toBeNull();
+    expect(new GuestSessionService({ secret: 'other-secret' }).resolve(token)).toBeNull();
+  });
+
+  it('should let a guest change their nickname but not to an empty one', () => {
+    const service = new GuestSessionService({ secret: 'test-secret' });
+    const joinResult = service.join('Alice');
+    if (!joinResult.success) throw new Error('join failed');
+    const { token, user } = joinResult.value;
+
+    expect(service.updateNickname(user.id, 'DJ Alice')).toEqual({ success: true, value: { id: user.id, nickname: 'DJ Alice' } });
+    expect(service.resolve(token)?.nickname).toBe('DJ Alice');
+    expect(service.getUser(user.id)).toEqual({ id: user.id, nickname: 'DJ Alice' });
+    expect(service.getUser('unknown')).toBeNull();
+    expect(service.updateNickname(user.id, '  ')).toEqual({ success: false, error: 'INVALID_NICKNAME' });
+    expect(service.updateNickname('unknown', 'Bob')).toEqual({ success: false, error: 'INVALID_SESSION' });
+    expect(service.join('')).toEqual({ success: false, error: 'INVALID_NICKNAME' });
+  });
+
+  it('should keep devices signed in across a restart with a generated secret', () => {
+    const service = new GuestSessionService();
+    const joinResult = service.join('Alice');
+    if (!joinResult.success) throw new Error('join failed');
+
+    const restarted = new GuestSessionService();
+    expect(restarted.resolve(joinResult.value.token)).toBeNull();
+
+    restarted.restoreSnapshot(service.exportSnapshot());
+    expect(restarted.resolve(joinResult.value.token)).toEqual(joinResult.value.user);
+  });
+
+  it('should not persist or replace a configured secret', () => {
+    const service = new GuestSessionService({ secret: 'test-secret' });
+    const joinResult = service.join('Alice');
+    if (!joinResult.success) throw new Error('join failed');
+
+    const snapshot = service.exportSnapshot();
+    expect(snapshot.secret).toBeUndefined();
+
+    const restarted = new GuestSessionService({ secret: 'test-secret' });
+    restarted.restoreSnapshot({ ...snapshot, secret: 'stale-secret' });
+    expect(restarted.resolve(joinResult.value.token)?.nickname).toBe('Alice');
+  });
+});
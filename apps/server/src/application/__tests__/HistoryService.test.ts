@@ -0,0 +1,169 @@
+/**
+ * Tests for HistoryService with the JSON lines history store
+ * Requirements: 24.1, 24.2, 24.3
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { QueueItem, User } from '@party-jukebox/shared';
+import { HistoryService } from '../HistoryService';
+import { JsonLinesHistoryStore } from '../../infrastructure/persistence';
+import { TrackSourceRegistry } from '../../infrastructure/sources/TrackSourceRegistry';
+import { IPlaybackOrchestrator } from '../../domain/playback/interfaces';
+import { PlaybackEvent, PlaybackEventListener, TrackOutcome } from '../../domain/playback/types';
+
+const guest: User = { id: 'user-1', nickname: 'Guest' };
+const host: User = { id: 'user-2', nickname: 'Host', role: 'host' };
+
+const createItem = (id: string, title: string, addedBy: User = guest): QueueItem => ({
+  id,
+  track: { id: `track-${id}`, title, artist: 'Test Artist', source: 'youtube', sourceId: 'dQw4w9WgXcQ', duration: 180 },
+  addedBy,
+  addedAt: new Date('2026-05-01T20:00:00Z')
+});
+
+describe('HistoryService', () => {
+  let tempDir: string;
+  let store: JsonLinesHistoryStore;
+  let listener: PlaybackEventListener | null;
+  let orchestrator: IPlaybackOrchestrator;
+  let service: HistoryService;
+
+  const sources = new TrackSourceRegistry([{
+    source: 'youtube',
+    validateSourceId: () => true,
+    getTrackUrl: sourceId => `https://www.youtube.com/watch?v=${sourceId}`,
+    getThumbnailUrl: () => undefined,
+    resolveStream: jest.fn()
+  }]);
+
+  const emit = (type: PlaybackEvent['type'], item: QueueItem, at: string, data: Partial<PlaybackEvent['data']> = {}) =>
+    listener?.({ type, timestamp: new Date(at), data: { track: item, ...data } });
+
+  const play = (item: QueueItem, outcome: TrackOutcome, startAt: string, endAt: string, playedSeconds = 180) => {
+    emit('track_started', item, startAt);
+    emit(outcome === 'failed' ? 'track_failed' : 'track_finished', item, endAt, { outcome, playedSeconds });
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'jukebox-history-'));
+    store = new JsonLinesHistoryStore({ filePath: path.join(tempDir, 'history.jsonl') });
+    listener = null;
+    orchestrator = {
+      start: jest.fn(),
+      stop: jest.fn(),
+      pause: jest.fn(),
+      resume: jest.fn(),
+      seek: jest.fn(),
+      skip: jest.fn(),
+      getCurrentState: jest.fn(),
+      addEventListener: jest.fn(added => { listener = added; }),
+      removeEventListener: jest.fn(() => { listener = null; })
+    };
+    service = new HistoryService(store, sources, { now: () => new Date('2026-05-02T10:00:00Z') });
+    service.start(orchestrator);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  test('records how each track ended and keeps the log across restarts', async () => {
+    play(createItem('a', 'First'), 'played', '2026-05-01T21:00:00Z', '2026-05-01T21:03:00Z');
+    play(createItem('b', 'Second'), 'skipped', '2026-05-01T21:03:00Z', '2026-05-01T21:03:42Z', 42);
+    emit('track_failed', createItem('c', 'Broken'), '2026-05-01T21:03:43Z', { outcome: 'failed', playedSeconds: 0, error: 'STREAM_UNAVAILABLE' });
+    await service.stop();
+
+    const restarted = new HistoryService(store, sources);
+    expect(await restarted.restore()).toEqual({ success: true, value: 3 });
+
+    const { entries } = restarted.query();
+    expect(entries.map(entry => [entry.track.title, entry.outcome, entry.playedSeconds])).toEqual([
+      ['Broken', 'failed', 0],
+      ['Second', 'skipped', 42],
+      ['First', 'played', 180]
+    ]);
+    expect(entries[2]).toMatchObject({
+      queueItemId: 'a',
+      requestedBy: guest,
+      startedAt: new Date('2026-05-01T21:00:00Z'),
+      endedAt: new Date('2026-05-01T21:03:00Z')
+    });
+    expect(entries[0]).toMatchObject({ startedAt: null, error: 'STREAM_UNAVAILABLE' });
+  });
+
+  test('ignores a second report of the same ending', () => {
+    const item = createItem('a', 'First');
+    play(item, 'failed', '2026-05-01T21:00:00Z', '2026-05-01T21:00:05Z', 5);
+    emit('track_finished', item, '2026-05-01T21:00:05Z', { outcome: 'played', playedSeconds: 5 });
+
+    expect(service.query().entries.map(entry => entry.outcome)).toEqual(['failed']);
+  });
+
+  test('pages and filters entries, most recent first', () => {
+    for (let i = 0; i < 5; i++) {
+      const minute = String(i).padStart(2, '0');
+      play(createItem(`${i}`, `Song ${i}`, i % 2 ? host : guest), i === 4 ? 'skipped' : 'played',
+        `2026-05-01T22:${minute}:00Z`, `2026-05-01T22:${minute}:30Z`);
+    }
+
+    const firstPage = service.query({ limit: 2 });
+    expect(firstPage.entries.map(entry => entry.track.title)).toEqual(['Song 4', 'Song 3']);
+    expect(firstPage.pagination).toEqual({
+      currentPage: 1, totalResults: 5, resultsPerPage: 2, hasNextPage: true, hasPrevPage: false
+    });
+    expect(service.query({ page: 3, limit: 2 }).entries.map(entry => entry.track.title)).toEqual(['Song 0']);
+
+    expect(service.query({ userId: host.id }).pagination.totalResults).toBe(2);
+    expect(service.query({ outcome: 'skipped' }).entries.map(entry => entry.track.title)).toEqual(['Song 4']);
+    expect(service.query({ search: 'song 2' }).entries).toHaveLength(1);
+    expect(service.query({
+      from: new Date('2026-05-01T22:01:30Z'),
+      to: new Date('2026-05-01T22:03:30Z')
+    }).entries.map(entry => entry.track.title)).toEqual(['Song 2', 'Song 1']);
+  });
+
+  test('exports CSV with quoted fields and M3U with the tracks that played', () => {
+    play(createItem('a', 'Hello, "World"'), 'played', '2026-05-01T21:00:00Z', '2026-05-01T21:03:00Z');
+    play(createItem('b', '=SUM(A1)'), 'skipped', '2026-05-01T21:03:00Z', '2026-05-01T21:03:10Z', 10);
+
+    const csv = service.export('csv');
+    const lines = csv.body.trim().split('\r\n');
+    expect(csv).toMatchObject({ contentType: 'text/csv; charset=utf-8', filename: 'party-history-2026-05-02.csv' });
+    expect(lines[0]).toBe('ended_at,started_at,outcome,played_seconds,title,artist,duration,source,source_id,url,requested_by,added_at,error');
+    expect(lines[1]).toContain(',played,180,"Hello, ""World""",Test Artist,180,youtube,dQw4w9WgXcQ,https://www.youtube.com/watch?v=dQw4w9WgXcQ,Guest,');
+    expect(lines[2]).toContain(",skipped,10,'=SUM(A1),");
+
+    expect(service.export('m3u').body).toBe(
+      '#EXTM3U\n#EXTINF:180,Test Artist - Hello, "World"\nhttps://www.youtube.com/watch?v=dQw4w9WgXcQ\n'
+    );
+    expect(JSON.parse(service.export('json', { outcome: 'skipped' }).body)).toHaveLength(1);
+  });
+
+  test('drops the oldest entries past the retention limit', async () => {
+    const limited = new HistoryService(store, sources, { maxEntries: 2 });
+    limited.start(orchestrator);
+    ['a', 'b', 'c'].forEach((id, i) => play(createItem(id, `Song ${id}`), 'played', `2026-05-01T21:0${i}:00Z`, `2026-05-01T21:0${i}:30Z`));
+    await limited.stop();
+
+    expect(limited.query().entries.map(entry => entry.queueItemId)).toEqual(['c', 'b']);
+
+    const reloaded = new HistoryService(store, sources, { maxEntries: 2 });
+    await reloaded.restore();
+    expect(reloaded.query().entries.map(entry => entry.queueItemId)).toEqual(['c', 'b']);
+  });
+
+  test('skips unreadable lines in the history file', async () => {
+    play(createItem('a', 'First'), 'played', '2026-05-01T21:00:00Z', '2026-05-01T21:03:00Z');
+    await service.stop();
+    await fs.appendFile(store.getFilePath(), '{"id": "cut short\n');
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const loadResult = await store.load();
+
+    expect(loadResult.success && loadResult.value.map(entry => entry.queueItemId)).toEqual(['a']);
+  });
+});
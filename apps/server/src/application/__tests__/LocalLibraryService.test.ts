@@ -0,0 +1,131 @@
+/**
+ * Tests for LocalLibraryService indexing, search and playback resolution
+ * Requirements: 19.1, 19.2, 19.3, 19.4
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LocalLibraryService } from '../LocalLibraryService';
+import { AudioTags, ITagReader } from '../../domain/library/types';
+
+class FakeTagReader implements ITagReader {
+  readonly tags = new Map<string, AudioTags | null>();
+  readonly readTags = jest.fn(async (file: string) => this.tags.get(path.basename(file)) ?? null);
+  readonly readCoverArt = jest.fn(async (_file: string): Promise<Buffer | null> => Buffer.from('art'));
+}
+
+describe('LocalLibraryService', () => {
+  let rootDir: string;
+  let tagReader: FakeTagReader;
+  let library: LocalLibraryService;
+
+  const addFile = async (relativePath: string, tags: AudioTags | null) => {
+    const fullPath = path.join(rootDir, relativePath);
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.writeFile(fullPath, 'audio');
+    tagReader.tags.set(path.basename(relativePath), tags);
+    return fullPath;
+  };
+
+  const scan = async () => {
+    const result = await library.rescan();
+    if (!result.success) throw new Error(`Scan failed: ${result.error}`);
+    return result.value;
+  };
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'jukebox-library-'));
+    tagReader = new FakeTagReader();
+    library = new LocalLibraryService({ rootDir }, tagReader);
+  });
+
+  afterEach(async () => {
+    library.stop();
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('indexes tagged audio files in nested folders and skips the rest', async () => {
+    await addFile('Daft Punk/One More Time.mp3', { title: 'One More Time', artist: 'Daft Punk', album: 'Discovery', duration: 320, artCodec: 'mjpeg' });
+    await addFile('Robyn - Dancing On My Own.flac', { duration: 288 });
+    await addFile('broken.ogg', null);
+    await addFile('cover.jpg', { duration: 1 });
+    await addFile('.hidden/secret.mp3', { duration: 100 });
+
+    const status = await scan();
+
+    expect(status).toMatchObject({ trackCount: 2, skippedFiles: 1, scanning: false });
+    const [untagged] = library.search('dancing', 10);
+    expect(untagged).toMatchObject({ title: 'Dancing On My Own', artist: 'Robyn', source: 'local', thumbnailUrl: '' });
+  });
+
+  it('matches every query word across title, artist and album, ignoring accents', async () => {
+    await addFile('a.mp3', { title: 'Crazy in Love', artist: 'Beyoncé', duration: 236 });
+    await addFile('b.mp3', { title: 'Halo', artist: 'Beyoncé', duration: 261 });
+    await addFile('c.mp3', { title: 'Beyonce Tribute', artist: 'Someone', duration: 200 });
+    await scan();
+
+    expect(library.search('beyonce', 10).map(result => result.title)).toEqual(['Beyonce Tribute', 'Crazy in Love', 'Halo']);
+    expect(library.search('beyonce halo', 10).map(result => result.title)).toEqual(['Halo']);
+    expect(library.search('beyonce', 1)).toHaveLength(1);
+  });
+
+  it('links cover art only for tracks that embed it', async () => {
+    await addFile('song.mp3', { title: 'Song', artist: 'Band', duration: 180, artCodec: 'png' });
+    await addFile('plain.mp3', { title: 'Plain', artist: 'Band', duration: 180 });
+    await scan();
+    const [withArt] = library.search('song', 1);
+    const [withoutArt] = library.search('plain', 1);
+
+    expect(library.getCoverArtUrl(withArt.sourceId)).toBe(`/api/library/tracks/${withArt.sourceId}/art`);
+    expect(withArt.thumbnailUrl).toBe(library.getCoverArtUrl(withArt.sourceId));
+    expect(library.getCoverArtUrl(withoutArt.sourceId)).toBeUndefined();
+    expect(library.getCoverArtUrl('0123456789abcdef')).toBeUndefined();
+  });
+
+  it('resolves tracks to their file and reports files removed since the scan', async () => {
+    const file = await addFile('song.mp3', { title: 'Song', artist: 'Band', duration: 180 });
+    await scan();
+    const [hit] = library.search('song', 1);
+
+    const resolved = await library.resolveStream(hit.sourceId);
+    expect(resolved).toEqual({
+      success: true,
+      value: { streamUrl: file, title: 'Song', duration: 180, format: 'mp3', quality: 'original' }
+    });
+
+    await fs.rm(file);
+    expect(await library.resolveStream(hit.sourceId)).toEqual({ success: false, error: 'FILE_MISSING' });
+  });
+
+  it('serves embedded cover art with a matching content type', async () => {
+    await addFile('with-art.mp3', { title: 'With Art', artist: 'Band', duration: 180, artCodec: 'mjpeg' });
+    await addFile('without-art.mp3', { title: 'Without Art', artist: 'Band', duration: 180 });
+    await scan();
+    const [withArt] = library.search('with art', 1);
+    const [withoutArt] = library.search('without', 1);
+
+    expect(await library.getCoverArt(withArt.sourceId)).toEqual({
+      success: true,
+      value: { data: Buffer.from('art'), contentType: 'image/jpeg' }
+    });
+    expect(await library.getCoverArt(withoutArt.sourceId)).toEqual({ success: false, error: 'ART_NOT_FOUND' });
+  });
+
+  it('keeps tags of unchanged files when rescanning', async () => {
+    await addFile('song.mp3', { title: 'Song', artist: 'Band', duration: 180 });
+    await scan();
+    await addFile('new.mp3', { title: 'New', artist: 'Band', duration: 200 });
+
+    const status = await scan();
+
+    expect(status.trackCount).toBe(2);
+    expect(tagReader.readTags).toHaveBeenCalledTimes(2);
+  });
+
+  it('fails the scan when the music directory is missing', async () => {
+    library = new LocalLibraryService({ rootDir: path.join(rootDir, 'missing') }, tagReader);
+
+    expect(await library.rescan()).toEqual({ success: false, error: 'SCAN_FAILED' });
+  });
+});
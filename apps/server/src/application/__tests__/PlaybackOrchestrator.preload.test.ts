@@ -0,0 +1,165 @@
+/**
+ * PlaybackOrchestrator next-track preloading
+ * Requirements: 17.1, 17.2, 20.4
+ */
+
+import { PlaybackOrchestrator } from '../PlaybackOrchestrator';
+import { QueueService } from '../QueueService';
+import { QueueManager } from '../QueueManager';
+import { RateLimiter } from '../RateLimiter';
+import { IStreamResolver, IPlaybackController } from '../../domain/playback/interfaces';
+import { PlaybackEvent, PlaybackEventListener, PlaybackState } from '../../domain/playback/types';
+import { Track } from '@party-jukebox/shared';
+
+const createTrack = (videoId: string): Track => ({
+  id: `track-${videoId}`,
+  title: `Song ${videoId}`,
+  artist: 'Test Artist',
+  source: 'youtube',
+  sourceId: videoId,
+  duration: 180
+});
+
+const user = { id: 'user-1', nickname: 'Guest' };
+
+describe('PlaybackOrchestrator next-track preloading', () => {
+  let orchestrator: PlaybackOrchestrator;
+  let queueService: QueueService;
+  let streamResolver: jest.Mocked<IStreamResolver>;
+  let playbackController: jest.Mocked<IPlaybackController>;
+  let controllerListener: PlaybackEventListener;
+  let events: PlaybackEvent[];
+
+  const flushPromises = () => new Promise(resolve => setImmediate(resolve));
+
+  beforeEach(() => {
+    queueService = new QueueService(new QueueManager(), new RateLimiter());
+
+    streamResolver = {
+      resolveStream: jest.fn(),
+      resolveTrack: jest.fn(async (track: Track) => ({
+        success: true as const,
+        value: { streamUrl: `${track.source}:${track.sourceId}&stream`, title: 'Test', duration: 200, format: 'opus', quality: 'high' }
+      })),
+      validateStream: jest.fn().mockResolvedValue(true),
+      clearCache: jest.fn()
+    };
+
+    playbackController = {
+      loadAndPlay: jest.fn().mockResolvedValue({ success: true, value: undefined }),
+      pause: jest.fn().mockResolvedValue({ success: true, value: undefined }),
+      resume: jest.fn().mockResolvedValue({ success: true, value: undefined }),
+      seek: jest.fn().mockResolvedValue({ success: true, value: undefined }),
+      stop: jest.fn().mockResolvedValue({ success: true, value: undefined }),
+      preloadNext: jest.fn().mockResolvedValue({ success: true, value: undefined }),
+      clearPreloaded: jest.fn().mockResolvedValue(undefined),
+      getPosition: jest.fn().mockResolvedValue(0),
+      getDuration: jest.fn().mockResolvedValue(200),
+      isPlaying: jest.fn().mockReturnValue(true),
+      getCurrentState: jest.fn().mockReturnValue({
+        status: 'playing',
+        currentTrack: null,
+        position: 0,
+        duration: 200,
+        volume: 50
+      } as PlaybackState),
+      addEventListener: jest.fn((listener: PlaybackEventListener) => { controllerListener = listener; }),
+      removeEventListener: jest.fn()
+    };
+
+    orchestrator = new PlaybackOrchestrator(queueService, streamResolver, playbackController);
+    events = [];
+    orchestrator.addEventListener(event => events.push(event));
+  });
+
+  afterEach(async () => {
+    await orchestrator.stop();
+  });
+
+  const finishWithPreload = async () => {
+    controllerListener({ type: 'track_finished', timestamp: new Date(), data: { preloadStarted: true } });
+    await flushPromises();
+  };
+
+  it('pre-resolves and preloads the next track while the current one plays', async () => {
+    queueService.addTrackToQueue(createTrack('firstVid001'), user);
+    queueService.addTrackToQueue(createTrack('secondVid01'), user);
+
+    await orchestrator.start();
+    await flushPromises();
+
+    expect(playbackController.loadAndPlay).toHaveBeenCalledTimes(1);
+    expect(playbackController.preloadNext).toHaveBeenCalledWith(expect.stringContaining('secondVid01'));
+  });
+
+  it('continues with the preloaded track without loading it again', async () => {
+    queueService.addTrackToQueue(createTrack('firstVid001'), user);
+    queueService.addTrackToQueue(createTrack('secondVid01'), user);
+    await orchestrator.start();
+    await flushPromises();
+
+    await finishWithPreload();
+
+    expect(playbackController.loadAndPlay).toHaveBeenCalledTimes(1);
+    expect(orchestrator.getCurrentState().currentTrack?.track.sourceId).toBe('secondVid01');
+    expect(orchestrator.getCurrentState().duration).toBe(200);
+    const started = events.filter(event => event.type === 'track_started');
+    expect(started.map(event => event.data.track?.track.sourceId)).toEqual(['firstVid001', 'secondVid01']);
+  });
+
+  it('loads the right track when the queue changed after the preload', async () => {
+    queueService.addTrackToQueue(createTrack('firstVid001'), user);
+    const second = queueService.addTrackToQueue(createTrack('secondVid01'), user);
+    await orchestrator.start();
+    await flushPromises();
+
+    queueService.addTrackToQueue(createTrack('thirdVid001'), user);
+    if (!second.success) throw new Error('Failed to queue track');
+    queueService.removeTrack(second.value.id, { userId: user.id, isHost: true });
+    await finishWithPreload();
+
+    expect(playbackController.loadAndPlay).toHaveBeenCalledTimes(2);
+    expect(playbackController.loadAndPlay).toHaveBeenLastCalledWith(expect.stringContaining('thirdVid001'), 0);
+    expect(orchestrator.getCurrentState().currentTrack?.track.sourceId).toBe('thirdVid001');
+  });
+
+  it('retries a failed pre-resolve after a backoff', async () => {
+    jest.useFakeTimers({ doNotFake: ['setImmediate', 'nextTick'] });
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const resolve = streamResolver.resolveTrack.getMockImplementation()!;
+    streamResolver.resolveTrack.mockImplementation(async (track: Track) => track.sourceId === 'secondVid01'
+      ? { success: false, error: 'NETWORK_ERROR' }
+      : resolve(track));
+
+    try {
+      queueService.addTrackToQueue(createTrack('firstVid001'), user);
+      queueService.addTrackToQueue(createTrack('secondVid01'), user);
+      await orchestrator.start();
+      await flushPromises();
+      expect(playbackController.preloadNext).not.toHaveBeenCalled();
+
+      // Not on every monitor tick
+      await jest.advanceTimersByTimeAsync(4000);
+      expect(streamResolver.resolveTrack).toHaveBeenCalledTimes(2);
+
+      streamResolver.resolveTrack.mockImplementation(resolve);
+      await jest.advanceTimersByTimeAsync(2000);
+      expect(playbackController.preloadNext).toHaveBeenCalledWith(expect.stringContaining('secondVid01'));
+    } finally {
+      // Stopping waits on a real timer, so afterEach has to run with them back
+      jest.useRealTimers();
+      jest.restoreAllMocks();
+    }
+  });
+
+  it('resolves tracks through their source', async () => {
+    queueService.addTrackToQueue({ ...createTrack('firstVid001'), source: 'local', sourceId: '0123456789abcdef' }, user);
+    queueService.addTrackToQueue({ ...createTrack('secondVid01'), source: 'soundcloud', sourceId: 'artist/song' }, user);
+    await orchestrator.start();
+    await flushPromises();
+
+    expect(streamResolver.resolveStream).not.toHaveBeenCalled();
+    expect(playbackController.loadAndPlay).toHaveBeenCalledWith('local:0123456789abcdef&stream', 0);
+    expect(playbackController.preloadNext).toHaveBeenCalledWith('soundcloud:artist/song&stream');
+  });
+});
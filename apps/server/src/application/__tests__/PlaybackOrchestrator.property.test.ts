@@ -12,7 +12,7 @@ import { TrackValidator, UserValidator } from '@party-jukebox/shared';
 import { IStreamResolver, IPlaybackController } from '../../domain/playback/interfaces';
 import { PlaybackState, ResolvedStream, PlaybackEvent } from '../../domain/playback/types';
 import { ResolutionError, PlaybackError } from '../../domain/playback/errors';
-import { Result } from '@party-jukebox/shared';
+import { Result, Track, VideoIdUtils } from '@party-jukebox/shared';
 
 // Mock implementations for testing
 class MockStreamResolver implements IStreamResolver {
@@ -30,6 +30,10 @@ class MockStreamResolver implements IStreamResolver {
     };
   }
 
+  async resolveTrack(track: Track): Promise<Result<ResolvedStream, ResolutionError>> {
+    return this.resolveStream(VideoIdUtils.constructYouTubeUrl(track.sourceId));
+  }
+
   async validateStream(streamUrl: string): Promise<boolean> {
     return true;
   }
@@ -61,6 +65,10 @@ class MockPlaybackController implements IPlaybackController {
     return { success: true, value: undefined };
   }
 
+  async seek(): Promise<Result<void, PlaybackError>> {
+    return { success: true, value: undefined };
+  }
+
   async stop(): Promise<Result<void, PlaybackError>> {
     this.playing = false;
     return { success: true, value: undefined };
@@ -143,7 +151,8 @@ describe('PlaybackOrchestrator Property Tests', () => {
         track: fc.record({
           title: fc.string({ minLength: 1, maxLength: 100 }).filter((s: string) => s.trim().length > 0),
           artist: fc.string({ minLength: 1, maxLength: 100 }).filter((s: string) => s.trim().length > 0),
-          videoId: fc.constantFrom(
+          source: fc.constant('youtube' as const),
+          sourceId: fc.constantFrom(
             'dQw4w9WgXcQ',
             'abc123def456',
             'xyz789uvw012'
@@ -27,7 +27,8 @@ describe('PlaybackOrchestrator Skip Bug', () => {
 
     // Create mock stream resolver
     mockStreamResolver = {
-      resolveStream: jest.fn().mockResolvedValue({
+      resolveStream: jest.fn(),
+      resolveTrack: jest.fn().mockResolvedValue({
         success: true,
         value: {
           streamUrl: 'http://example.com/stream.mp3',
@@ -46,6 +47,7 @@ describe('PlaybackOrchestrator Skip Bug', () => {
       loadAndPlay: jest.fn().mockResolvedValue({ success: true, value: undefined }),
       pause: jest.fn().mockResolvedValue({ success: true, value: undefined }),
       resume: jest.fn().mockResolvedValue({ success: true, value: undefined }),
+      seek: jest.fn().mockResolvedValue({ success: true, value: undefined }),
       stop: jest.fn().mockResolvedValue({ success: true, value: undefined }),
       setVolume: jest.fn().mockResolvedValue({ success: true, value: undefined }),
       getPosition: jest.fn().mockResolvedValue(0),
@@ -81,7 +83,8 @@ describe('PlaybackOrchestrator Skip Bug', () => {
     const track1Result = TrackValidator.create({
       title: 'Track 1',
       artist: 'Artist 1',
-      videoId: 'track123456',
+      source: 'youtube',
+      sourceId: 'track123456',
       duration: 180
     });
     expect(track1Result.success).toBe(true);
@@ -90,7 +93,8 @@ describe('PlaybackOrchestrator Skip Bug', () => {
     const track2Result = TrackValidator.create({
       title: 'Track 2',
       artist: 'Artist 2',
-      videoId: 'track234567',
+      source: 'youtube',
+      sourceId: 'track234567',
       duration: 200
     });
     expect(track2Result.success).toBe(true);
@@ -99,7 +103,8 @@ describe('PlaybackOrchestrator Skip Bug', () => {
     const track3Result = TrackValidator.create({
       title: 'Track 3',
       artist: 'Artist 3',
-      videoId: 'track345678',
+      source: 'youtube',
+      sourceId: 'track345678',
       duration: 220
     });
     expect(track3Result.success).toBe(true);
@@ -186,7 +191,8 @@ describe('PlaybackOrchestrator Skip Bug', () => {
       const trackResult = TrackValidator.create({
         title: `Track ${i}`,
         artist: `Artist ${i}`,
-        videoId: `track${i}00000`.substring(0, 11),
+        source: 'youtube',
+        sourceId: `track${i}00000`.substring(0, 11),
         duration: 180 + i * 10
       });
       expect(trackResult.success).toBe(true);
@@ -236,4 +242,26 @@ describe('PlaybackOrchestrator Skip Bug', () => {
     expect(playbackState.status).toBe('playing'); // Should still be playing
     expect(queueState.currentTrack?.track.id).toBe(tracks[2].id); // Should be on track 3
   });
+
+  it('reports the skipped track as skipped before the next one starts', async () => {
+    const user = { id: 'user1', nickname: 'TestUser' };
+    const tracks = ['trackA12345', 'trackB12345'].map(sourceId => {
+      const result = TrackValidator.create({ title: sourceId, artist: 'Artist', source: 'youtube', sourceId, duration: 180 });
+      return (result as any).value;
+    });
+    tracks.forEach(track => queueService.addTrackToQueue(track, user));
+
+    await new Promise(resolve => setTimeout(resolve, 2500));
+
+    const events: PlaybackEvent[] = [];
+    orchestrator.addEventListener(event => events.push(event));
+    await orchestrator.skip();
+    await new Promise(resolve => setImmediate(resolve));
+
+    const types = events.map(event => event.type);
+    const finished = events.find(event => event.type === 'track_finished');
+    expect(finished?.data).toMatchObject({ outcome: 'skipped', playedSeconds: 0 });
+    expect(finished?.data.track?.track.id).toBe(tracks[0].id);
+    expect(types.indexOf('track_finished')).toBeLessThan(types.indexOf('track_started'));
+  });
 });
\ No newline at end of file
@@ -0,0 +1,134 @@
+/**
+ * Tests for PlaylistImportService
+ * Requirements: 23.1, 23.2, 23.3
+ */
+
+import { SearchResult, User } from '@party-jukebox/shared';
+import { PlaylistImportService } from '../PlaylistImportService';
+import { QueueManager } from '../QueueManager';
+import { QueueService } from '../QueueService';
+import { RateLimiter } from '../RateLimiter';
+import { TrackSourceProvider } from '../../domain/sources/types';
+import { PlaylistImportProgress } from '../../domain/playlists/types';
+import { TrackSourceRegistry } from '../../infrastructure/sources/TrackSourceRegistry';
+
+const PLAYLIST_URL = 'https://www.youtube.com/playlist?list=PLtestPlaylist';
+
+const playlistResult = (index: number): SearchResult => ({
+  source: 'youtube',
+  sourceId: `playlistV${String(index).padStart(2, '0')}`,
+  title: `Song ${index}`,
+  artist: 'Test Artist',
+  duration: 180,
+  thumbnailUrl: `https://i.ytimg.com/vi/${index}/mqdefault.jpg`,
+  channelTitle: 'Test Artist',
+  publishedAt: ''
+});
+
+const guest: User = { id: 'guest-1', nickname: 'Guest', role: 'guest' };
+const host: User = { id: 'host-1', nickname: 'Host', role: 'host' };
+
+describe('PlaylistImportService', () => {
+  let queueService: QueueService;
+  let getPlaylist: jest.Mock;
+  let service: PlaylistImportService;
+  let progress: PlaylistImportProgress[];
+
+  beforeEach(() => {
+    queueService = new QueueService(new QueueManager(), new RateLimiter());
+    getPlaylist = jest.fn(async (_playlistId: string, limit: number) => ({
+      results: Array.from({ length: Math.min(limit, 8) }, (_, index) => playlistResult(index)),
+      totalEntries: 9
+    }));
+
+    const youtube: TrackSourceProvider = {
+      source: 'youtube',
+      validateSourceId: sourceId => sourceId.length === 11,
+      getTrackUrl: sourceId => `https://www.youtube.com/watch?v=${sourceId}`,
+      getThumbnailUrl: () => undefined,
+      resolveStream: jest.fn(),
+      parsePlaylistUrl: url => url.match(/[?&]list=([\w-]+)/)?.[1] ?? null,
+      getPlaylist
+    };
+
+    service = new PlaylistImportService(queueService, new TrackSourceRegistry([youtube]), { progressInterval: 3 });
+    progress = [];
+    service.addEventListener(update => progress.push(update));
+  });
+
+  test('queues the playlist in order for the host without rate limiting', async () => {
+    const result = await service.importPlaylist(PLAYLIST_URL, host);
+
+    expect(getPlaylist).toHaveBeenCalledWith('PLtestPlaylist', 100);
+    if (!result.success) throw new Error(result.error);
+    expect(result.value.added.map(item => item.track.sourceId)).toEqual(
+      Array.from({ length: 8 }, (_, index) => playlistResult(index).sourceId)
+    );
+    expect(result.value).toMatchObject({ source: 'youtube', playlistId: 'PLtestPlaylist', skipped: [], unavailable: 1 });
+    expect(queueService.getQueueState().totalLength).toBe(8);
+  });
+
+  test('stops at the guest rate limit and reports the rest as skipped', async () => {
+    const result = await service.importPlaylist(PLAYLIST_URL, guest);
+
+    if (!result.success) throw new Error(result.error);
+    expect(result.value.added).toHaveLength(5);
+    expect(result.value.skipped).toHaveLength(3);
+    expect(result.value.skipped.every(skip => skip.reason === 'RATE_LIMIT_EXCEEDED')).toBe(true);
+
+    await expect(service.importPlaylist(PLAYLIST_URL, guest)).resolves.toEqual({ success: false, error: 'RATE_LIMIT_EXCEEDED' });
+  });
+
+  test('reports progress while listing and adding', async () => {
+    await service.importPlaylist(PLAYLIST_URL, host);
+
+    expect(progress.map(update => [update.status, update.total, update.added])).toEqual([
+      ['listing', 0, 0],
+      ['adding', 8, 0],
+      ['adding', 8, 3],
+      ['adding', 8, 6],
+      ['completed', 8, 8]
+    ]);
+    expect(new Set(progress.map(update => update.importId)).size).toBe(1);
+  });
+
+  test('skips tracks that fail validation', async () => {
+    getPlaylist.mockResolvedValueOnce({
+      results: [playlistResult(1), { ...playlistResult(2), sourceId: 'bad' }, playlistResult(3)],
+      totalEntries: 3
+    });
+
+    const result = await service.importPlaylist(PLAYLIST_URL, host);
+
+    if (!result.success) throw new Error(result.error);
+    expect(result.value.added).toHaveLength(2);
+    expect(result.value.skipped).toEqual([{ sourceId: 'bad', title: 'Song 2', reason: 'INVALID_SOURCE_ID' }]);
+  });
+
+  test('rejects URLs without a playlist', async () => {
+    await expect(service.importPlaylist('https://www.youtube.com/watch?v=abcdefghijk', host))
+      .resolves.toEqual({ success: false, error: 'INVALID_PLAYLIST_URL' });
+    expect(getPlaylist).not.toHaveBeenCalled();
+  });
+
+  test('reports playlists that cannot be listed', async () => {
+    getPlaylist.mockRejectedValueOnce(new Error('Playlist not found: PLtestPlaylist'));
+    await expect(service.importPlaylist(PLAYLIST_URL, host)).resolves.toEqual({ success: false, error: 'PLAYLIST_NOT_FOUND' });
+
+    getPlaylist.mockRejectedValueOnce(new Error('yt-dlp search is unavailable (PROCESS_TIMEOUT)'));
+    await expect(service.importPlaylist(PLAYLIST_URL, host)).resolves.toEqual({ success: false, error: 'SERVICE_UNAVAILABLE' });
+
+    getPlaylist.mockResolvedValueOnce({ results: [], totalEntries: 2 });
+    await expect(service.importPlaylist(PLAYLIST_URL, host)).resolves.toEqual({ success: false, error: 'PLAYLIST_EMPTY' });
+    expect(progress[progress.length - 1]).toMatchObject({ status: 'failed', error: 'PLAYLIST_EMPTY' });
+  });
+
+  test('runs one import per user at a time', async () => {
+    const first = service.importPlaylist(PLAYLIST_URL, host);
+    const second = await service.importPlaylist(PLAYLIST_URL, host);
+    await first;
+
+    expect(second).toEqual({ success: false, error: 'IMPORT_IN_PROGRESS' });
+    expect((await service.importPlaylist(PLAYLIST_URL, host)).success).toBe(true);
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Tests for PrefetchService background resolution
+ * Requirements: 18.1, 18.2, 18.3, 18.4
+ */
+
+import { Result, Track } from '@party-jukebox/shared';
+import { PrefetchService } from '../PrefetchService';
+import { QueueManager } from '../QueueManager';
+import { QueueService } from '../QueueService';
+import { RateLimiter } from '../RateLimiter';
+import { IStreamResolver } from '../../domain/playback/interfaces';
+import { PrefetchStatuses, ResolvedStream } from '../../domain/playback/types';
+import { ResolutionError } from '../../domain/playback/errors';
+
+type Resolution = Result<ResolvedStream, ResolutionError>;
+
+const createTrack = (videoId: string): Track => ({
+  id: `track-${videoId}`,
+  title: `Song ${videoId}`,
+  artist: 'Test Artist',
+  source: 'youtube',
+  sourceId: videoId,
+  duration: 180
+});
+
+const resolved: Resolution = {
+  success: true,
+  value: { streamUrl: 'https://example.com/audio.opus', title: 'Test', duration: 180, format: 'opus', quality: 'high' }
+};
+
+describe('PrefetchService', () => {
+  let queueService: QueueService;
+  let streamResolver: jest.Mocked<IStreamResolver>;
+  let expiringIds: string[];
+  let pendingResolutions: Array<{ track: Track; finish: (result: Resolution) => void }>;
+  let service: PrefetchService;
+
+  const flushPromises = () => new Promise(resolve => setImmediate(resolve));
+
+  const addTracks = (...videoIds: string[]) => videoIds.map((videoId, index) => {
+    // A separate guest per track keeps the rate limiter out of the way
+    const result = queueService.addTrackToQueue(createTrack(videoId), { id: `user-${videoId}-${index}`, nickname: 'Guest' });
+    if (!result.success) throw new Error(`Failed to queue ${videoId}`);
+    return result.value;
+  });
+
+  const finishAll = async (result: Resolution = resolved) => {
+    while (pendingResolutions.length > 0) {
+      pendingResolutions.shift()!.finish(result);
+      await flushPromises();
+    }
+  };
+
+  beforeEach(() => {
+    queueService = new QueueService(new QueueManager(), new RateLimiter());
+    pendingResolutions = [];
+    expiringIds = [];
+    const deferred = (track: Track) => new Promise<Resolution>(finish => pendingResolutions.push({ track, finish }));
+    streamResolver = {
+      resolveStream: jest.fn(),
+      resolveTrack: jest.fn(deferred),
+      refreshTrack: jest.fn(deferred),
+      isTrackExpiring: jest.fn((track: Track) => expiringIds.includes(track.sourceId)),
+      validateStream: jest.fn().mockResolvedValue(true),
+      clearCache: jest.fn()
+    };
+  });
+
+  afterEach(() => {
+    service.stop();
+  });
+
+  test('resolves the next upcoming tracks with a bounded number at once', async () => {
+    service = new PrefetchService(queueService, streamResolver, { lookahead: 3, concurrency: 2 });
+    service.start();
+
+    // The first track becomes current; the next three are prefetched
+    addTracks('currentVid1', 'upcomingV01', 'upcomingV02', 'upcomingV03', 'upcomingV04');
+
+    expect(streamResolver.resolveTrack).toHaveBeenCalledTimes(2);
+    await finishAll();
+
+    const ids = streamResolver.resolveTrack.mock.calls.map(([track]) => track.sourceId);
+    expect(ids).toHaveLength(3);
+    expect(ids.every(id => /upcomingV0[123]/.test(id))).toBe(true);
+  });
+
+  test('reports resolving, ready and failed per queue item', async () => {
+    service = new PrefetchService(queueService, streamResolver);
+    const updates: PrefetchStatuses[] = [];
+    service.addEventListener(statuses => updates.push(statuses));
+    service.start();
+
+    const [, ready, failed] = addTracks('currentVid1', 'readyVideo1', 'failedVideo');
+    expect(service.getStatuses()).toEqual({ [ready.id]: 'resolving', [failed.id]: 'resolving' });
+
+    pendingResolutions.shift()!.finish(resolved);
+    await flushPromises();
+    pendingResolutions.shift()!.finish({ success: false, error: 'STREAM_UNAVAILABLE' });
+    await flushPromises();
+
+    expect(service.getStatus(ready.id)).toBe('ready');
+    expect(service.getStatus(failed.id)).toBe('failed');
+    expect(updates[updates.length - 1]).toEqual({ [ready.id]: 'ready', [failed.id]: 'failed' });
+  });
+
+  test('forgets items that leave the head of the queue', async () => {
+    service = new PrefetchService(queueService, streamResolver, { lookahead: 1 });
+    service.start();
+
+    const [, next] = addTracks('currentVid1', 'nextVideo01', 'laterVideo1');
+    await finishAll();
+    expect(service.getStatus(next.id)).toBe('ready');
+
+    queueService.advanceToNextTrack();
+    await finishAll();
+
+    expect(service.getStatus(next.id)).toBeNull();
+    expect(Object.values(service.getStatuses())).toEqual(['ready']);
+  });
+
+  test('re-resolves ready streams that are about to expire', async () => {
+    service = new PrefetchService(queueService, streamResolver, { refreshIntervalMs: 10 });
+    service.start();
+
+    const [, next] = addTracks('currentVid1', 'nextVideo01');
+    await finishAll();
+    expiringIds = ['nextVideo01'];
+
+    await new Promise(resolve => setTimeout(resolve, 30));
+
+    expect(streamResolver.refreshTrack).toHaveBeenCalledWith(next.track);
+    expect(service.getStatus(next.id)).toBe('ready');
+    await finishAll();
+  });
+
+  test('leaves a slot free for playback by default', () => {
+    service = new PrefetchService(queueService, streamResolver);
+    service.start();
+
+    addTracks('currentVid1', 'upcomingV01', 'upcomingV02', 'upcomingV03');
+
+    expect(streamResolver.resolveTrack).toHaveBeenCalledTimes(1);
+  });
+
+  test('retries failed items on the refresh tick', async () => {
+    service = new PrefetchService(queueService, streamResolver, { refreshIntervalMs: 10 });
+    service.start();
+
+    const [, next] = addTracks('currentVid1', 'nextVideo01');
+    await finishAll({ success: false, error: 'STREAM_UNAVAILABLE' });
+    expect(service.getStatus(next.id)).toBe('failed');
+
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(service.getStatus(next.id)).toBe('resolving');
+
+    await finishAll();
+    expect(streamResolver.resolveTrack).toHaveBeenCalledTimes(2);
+    expect(service.getStatus(next.id)).toBe('ready');
+  });
+
+  test('keeps items resolving through transient errors such as a busy yt-dlp pool', async () => {
+    service = new PrefetchService(queueService, streamResolver, { refreshIntervalMs: 10 });
+    const updates: PrefetchStatuses[] = [];
+    service.addEventListener(statuses => updates.push(statuses));
+    service.start();
+
+    const [, next] = addTracks('currentVid1', 'nextVideo01');
+    await finishAll({ success: false, error: 'NETWORK_ERROR' });
+    expect(service.getStatus(next.id)).toBe('resolving');
+
+    await new Promise(resolve => setTimeout(resolve, 30));
+    await finishAll();
+
+    expect(streamResolver.resolveTrack).toHaveBeenCalledTimes(2);
+    expect(service.getStatus(next.id)).toBe('ready');
+    expect(updates.some(statuses => statuses[next.id] === 'failed')).toBe(false);
+  });
+});
@@ -22,7 +22,8 @@ describe('QueueManager Property Tests', () => {
           track: fc.record({
             title: fc.string({ minLength: 1, maxLength: 100 }).filter((s: string) => s.trim().length > 0),
             artist: fc.string({ minLength: 1, maxLength: 100 }).filter((s: string) => s.trim().length > 0),
-            videoId: fc.constantFrom(
+            source: fc.constant('youtube' as const),
+            sourceId: fc.constantFrom(
               'dQw4w9WgXcQ',
               'abc123def456',
               'xyz789uvw012'
@@ -163,7 +164,8 @@ describe('QueueManager Property Tests', () => {
         track: fc.record({
           title: fc.string({ minLength: 1, maxLength: 100 }).filter((s: string) => s.trim().length > 0),
           artist: fc.string({ minLength: 1, maxLength: 100 }).filter((s: string) => s.trim().length > 0),
-          videoId: fc.constantFrom(
+          source: fc.constant('youtube' as const),
+          sourceId: fc.constantFrom(
             'dQw4w9WgXcQ',
             'abc123def456',
             'xyz789uvw012'
@@ -268,4 +270,140 @@ describe('QueueManager Property Tests', () => {
       }
     ), { numRuns: 100 });
   });
-});
\ No newline at end of file
+
+  /**
+   * Property 13: Queue Reordering Preserves Contents
+   * For any queue and any sequence of move and remove operations on upcoming tracks,
+   * moved items land at the requested index, removed items disappear, and no other
+   * items are lost, duplicated or reordered relative to each other
+   * Validates: Requirements 9.1, 9.2, 9.3
+   */
+  test('Property 13: Queue Reordering Preserves Contents', () => {
+    fc.assert(fc.property(
+      fc.integer({ min: 2, max: 10 }),
+      fc.array(
+        fc.record({
+          op: fc.constantFrom('move', 'promote', 'remove'),
+          from: fc.nat(),
+          to: fc.nat()
+        }),
+        { maxLength: 10 }
+      ),
+      (trackCount: number, operations: Array<{ op: string; from: number; to: number }>) => {
+        const queueManager = new QueueManager();
+        const user = { id: 'user-1', nickname: 'Guest' };
+
+        for (let i = 0; i < trackCount; i++) {
+          queueManager.addTrack(
+            { id: `track-${i}`, title: `Song ${i}`, artist: 'Artist', source: 'youtube', sourceId: 'dQw4w9WgXcQ', duration: 180 },
+            user
+          );
+        }
+
+        const currentTrack = queueManager.getCurrentTrack();
+        let expected = queueManager.getUpcomingTracks().map(item => item.id);
+
+        for (const { op, from, to } of operations) {
+          if (expected.length === 0) {
+            break;
+          }
+
+          const id = expected[from % expected.length];
+          if (op === 'remove') {
+            const result = queueManager.removeTrack(id);
+            if (!result.success || result.value.id !== id) return false;
+            expected = expected.filter(itemId => itemId !== id);
+          } else {
+            const toIndex = op === 'promote' ? 0 : to % expected.length;
+            const result = op === 'promote'
+              ? queueManager.promoteTrack(id)
+              : queueManager.moveTrack(id, toIndex);
+            if (!result.success) return false;
+            expected = expected.filter(itemId => itemId !== id);
+            expected.splice(toIndex, 0, id);
+          }
+        }
+
+        // Out-of-range moves are rejected without changing the queue
+        if (expected.length > 0) {
+          const result = queueManager.moveTrack(expected[0], expected.length);
+          if (result.success || result.error !== 'INVALID_POSITION') return false;
+        }
+
+        // The current track is untouched by reordering
+        if (queueManager.getCurrentTrack() !== currentTrack) return false;
+
+        const actual = queueManager.getUpcomingTracks().map(item => item.id);
+        return actual.length === expected.length && actual.every((id, i) => id === expected[i]);
+      }
+    ), { numRuns: 100 });
+  });
+
+  /**
+   * Property 14: Vote Ordering Sorts by Score with Stable Tie-Break
+   * For any sequence of up/down votes in vote mode, upcoming tracks are ordered by net
+   * score with ties kept in request order, each user holds at most one vote per track,
+   * and switching back to FIFO restores request order
+   * Validates: Requirements 12.1, 12.2, 12.3, 12.4
+   */
+  test('Property 14: Vote Ordering Sorts by Score with Stable Tie-Break', () => {
+    fc.assert(fc.property(
+      fc.integer({ min: 2, max: 8 }),
+      fc.array(
+        fc.record({
+          item: fc.nat(),
+          user: fc.constantFrom('user-a', 'user-b', 'user-c'),
+          direction: fc.constantFrom<'up' | 'down'>('up', 'down')
+        }),
+        { maxLength: 20 }
+      ),
+      (trackCount: number, votes: Array<{ item: number; user: string; direction: 'up' | 'down' }>) => {
+        const queueManager = new QueueManager();
+        const user = { id: 'user-1', nickname: 'Guest' };
+
+        for (let i = 0; i < trackCount; i++) {
+          queueManager.addTrack(
+            { id: `track-${i}`, title: `Song ${i}`, artist: 'Artist', source: 'youtube', sourceId: 'dQw4w9WgXcQ', duration: 180 },
+            user
+          );
+        }
+
+        const requestOrder = queueManager.getUpcomingTracks().map(item => item.id);
+
+        // Votes are rejected until the host switches to vote mode
+        const disabled = queueManager.voteTrack(requestOrder[0], 'user-a', 'up');
+        if (disabled.success || disabled.error !== 'VOTING_DISABLED') return false;
+
+        queueManager.setOrderingMode('vote');
+
+        const model = new Map<string, Map<string, number>>();
+        for (const { item, user: voter, direction } of votes) {
+          const id = requestOrder[item % requestOrder.length];
+          const value = direction === 'up' ? 1 : -1;
+          const itemVotes = model.get(id) ?? new Map<string, number>();
+          const result = queueManager.voteTrack(id, voter, direction);
+
+          if (itemVotes.get(voter) === value) {
+            if (result.success || result.error !== 'ALREADY_VOTED') return false;
+          } else {
+            if (!result.success) return false;
+            itemVotes.set(voter, value);
+            model.set(id, itemVotes);
+          }
+        }
+
+        const score = (id: string) => [...(model.get(id)?.values() ?? [])].reduce((sum, v) => sum + v, 0);
+        const expected = [...requestOrder].sort((a, b) => score(b) - score(a));
+        const state = queueManager.getQueueState();
+        const actual = state.upcomingTracks.map(item => item.id);
+
+        if (state.orderingMode !== 'vote') return false;
+        if (!actual.every((id, i) => id === expected[i] && state.scores[id] === score(id))) return false;
+
+        queueManager.setOrderingMode('fifo');
+        const fifo = queueManager.getUpcomingTracks().map(item => item.id);
+        return fifo.every((id, i) => id === requestOrder[i]);
+      }
+    ), { numRuns: 100 });
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Tests for queue ordering strategies
+ * Feature: queue-ordering
+ */
+
+import { QueueItem, Track, User } from '@party-jukebox/shared';
+import { QueueManager } from '../QueueManager';
+import { FairShareOrderingStrategy, QueueOrderingContext, QueueOrderingStrategy } from '../QueueOrderingStrategy';
+
+const createTrack = (id: string): Track => ({
+  id,
+  title: `Song ${id}`,
+  artist: 'Test Artist',
+  source: 'youtube',
+  sourceId: 'dQw4w9WgXcQ',
+  duration: 180
+});
+
+const guest = (id: string): User => ({ id, nickname: id });
+
+const createItem = (id: string, userId: string, addedAt: number): QueueItem => ({
+  id,
+  track: createTrack(`track-${id}`),
+  addedBy: guest(userId),
+  addedAt: new Date(addedAt)
+});
+
+const createContext = (currentTrack: QueueItem | null = null): QueueOrderingContext => ({
+  currentTrack,
+  getScore: () => 0,
+  compareArrival: (a, b) => a.addedAt.getTime() - b.addedAt.getTime()
+});
+
+describe('FairShareOrderingStrategy', () => {
+  const strategy = new FairShareOrderingStrategy();
+
+  test('interleaves guests round-robin in request order', () => {
+    const upcoming = [
+      createItem('a1', 'alice', 1),
+      createItem('a2', 'alice', 2),
+      createItem('a3', 'alice', 3),
+      createItem('b1', 'bob', 4),
+      createItem('c1', 'carol', 5),
+      createItem('b2', 'bob', 6)
+    ];
+
+    const ordered = strategy.order(upcoming, createContext());
+
+    expect(ordered.map(item => item.id)).toEqual(['a1', 'b1', 'c1', 'a2', 'b2', 'a3']);
+  });
+
+  test('puts the guest whose track is playing last within each round', () => {
+    const upcoming = [
+      createItem('a2', 'alice', 2),
+      createItem('a3', 'alice', 3),
+      createItem('b1', 'bob', 4)
+    ];
+
+    const ordered = strategy.order(upcoming, createContext(createItem('a1', 'alice', 1)));
+
+    expect(ordered.map(item => item.id)).toEqual(['b1', 'a2', 'a3']);
+  });
+});
+
+describe('QueueManager ordering strategies', () => {
+  test('keeps FIFO as the default ordering', () => {
+    const queueManager = new QueueManager();
+    queueManager.addTrack(createTrack('1'), guest('alice'));
+    queueManager.addTrack(createTrack('2'), guest('alice'));
+    queueManager.addTrack(createTrack('3'), guest('bob'));
+
+    expect(queueManager.getOrderingMode()).toBe('fifo');
+    expect(queueManager.getUpcomingTracks().map(item => item.track.id)).toEqual(['2', '3']);
+  });
+
+  test('re-balances upcoming tracks as guests add and the queue advances', () => {
+    const queueManager = new QueueManager();
+    queueManager.setOrderingMode('fair');
+
+    queueManager.addTrack(createTrack('a1'), guest('alice'));
+    queueManager.addTrack(createTrack('a2'), guest('alice'));
+    queueManager.addTrack(createTrack('a3'), guest('alice'));
+    queueManager.addTrack(createTrack('b1'), guest('bob'));
+
+    // alice is playing, so bob's first song goes ahead of her second
+    expect(queueManager.getUpcomingTracks().map(item => item.track.id)).toEqual(['b1', 'a2', 'a3']);
+
+    // Now bob is playing, so his next song waits behind one of alice's
+    queueManager.advanceQueue();
+    queueManager.addTrack(createTrack('b2'), guest('bob'));
+
+    expect(queueManager.getUpcomingTracks().map(item => item.track.id)).toEqual(['a2', 'b2', 'a3']);
+  });
+
+  test.each([
+    ['vote', ['a2', 'b1', 'c1']],
+    ['fair', ['b1', 'c1', 'a2']]
+  ] as const)('rejects host moves in %s mode instead of undoing them on the next add', (mode, afterAdd) => {
+    const queueManager = new QueueManager();
+    queueManager.setOrderingMode(mode);
+    queueManager.addTrack(createTrack('a1'), guest('alice'));
+    queueManager.addTrack(createTrack('a2'), guest('alice'));
+    queueManager.addTrack(createTrack('b1'), guest('bob'));
+    const before = queueManager.getUpcomingTracks().map(item => item.track.id);
+    const last = queueManager.getUpcomingTracks()[1];
+
+    expect(queueManager.moveTrack(last.id, 0)).toEqual({ success: false, error: 'REORDER_DISABLED' });
+    expect(queueManager.promoteTrack(last.id)).toEqual({ success: false, error: 'REORDER_DISABLED' });
+    expect(queueManager.getUpcomingTracks().map(item => item.track.id)).toEqual(before);
+
+    queueManager.addTrack(createTrack('c1'), guest('carol'));
+
+    expect(queueManager.getUpcomingTracks().map(item => item.track.id)).toEqual(afterAdd);
+  });
+
+  test('keeps host moves when switching to another mode and back to FIFO', () => {
+    const queueManager = new QueueManager();
+    queueManager.addTrack(createTrack('1'), guest('alice'));
+    queueManager.addTrack(createTrack('2'), guest('alice'));
+    queueManager.addTrack(createTrack('3'), guest('alice'));
+    queueManager.addTrack(createTrack('4'), guest('bob'));
+    queueManager.promoteTrack(queueManager.getUpcomingTracks()[2].id);
+
+    queueManager.setOrderingMode('vote');
+    queueManager.addTrack(createTrack('5'), guest('carol'));
+    queueManager.setOrderingMode('fifo');
+
+    expect(queueManager.getUpcomingTracks().map(item => item.track.id)).toEqual(['4', '2', '3', '5']);
+  });
+
+  test('uses a replacement strategy supplied for a mode', () => {
+    const reverse: QueueOrderingStrategy = {
+      mode: 'fair',
+      order: upcoming => [...upcoming].reverse()
+    };
+    const queueManager = new QueueManager({ fair: reverse });
+
+    queueManager.addTrack(createTrack('1'), guest('alice'));
+    queueManager.addTrack(createTrack('2'), guest('alice'));
+    queueManager.addTrack(createTrack('3'), guest('alice'));
+    queueManager.setOrderingMode('fair');
+
+    expect(queueManager.getUpcomingTracks().map(item => item.track.id)).toEqual(['3', '2']);
+  });
+});
@@ -26,7 +26,8 @@ describe('QueueService Property Tests', () => {
           track: fc.record({
             title: fc.string({ minLength: 1, maxLength: 100 }).filter((s: string) => s.trim().length > 0),
             artist: fc.string({ minLength: 1, maxLength: 100 }).filter((s: string) => s.trim().length > 0),
-            videoId: fc.constantFrom(
+            source: fc.constant('youtube' as const),
+            sourceId: fc.constantFrom(
               'dQw4w9WgXcQ',
               'abc123def456'
             ),
@@ -62,7 +63,8 @@ describe('QueueService Property Tests', () => {
           track: fc.record({
             title: fc.string({ minLength: 1, maxLength: 100 }).filter((s: string) => s.trim().length > 0),
             artist: fc.string({ minLength: 1, maxLength: 100 }).filter((s: string) => s.trim().length > 0),
-            videoId: fc.constantFrom(
+            source: fc.constant('youtube' as const),
+            sourceId: fc.constantFrom(
               'dQw4w9WgXcQ',
               'abc123def456'
             ),
@@ -187,7 +189,8 @@ describe('QueueService Integration Tests', () => {
   beforeEach(() => {
     queueManager = new QueueManager();
     rateLimiter = new RateLimiter();
-    queueService = new QueueService(queueManager, rateLimiter);
+    // These tests add the same track repeatedly to exercise rate limits
+    queueService = new QueueService(queueManager, rateLimiter, { rejectDuplicates: false });
   });
 
   /**
@@ -201,7 +204,8 @@ describe('QueueService Integration Tests', () => {
       const trackResult = TrackValidator.create({
         title: 'Test Song',
         artist: 'Test Artist',
-        videoId: 'dQw4w9WgXcQ',
+        source: 'youtube',
+        sourceId: 'dQw4w9WgXcQ',
         duration: 180
       });
       expect(trackResult.success).toBe(true);
@@ -265,7 +269,8 @@ describe('QueueService Integration Tests', () => {
       const trackResult = TrackValidator.create({
         title: 'Test Song',
         artist: 'Test Artist',
-        videoId: 'dQw4w9WgXcQ',
+        source: 'youtube',
+        sourceId: 'dQw4w9WgXcQ',
         duration: 180
       });
       if (!trackResult.success) return;
@@ -330,7 +335,8 @@ describe('QueueService Integration Tests', () => {
       const trackResult = TrackValidator.create({
         title: 'Test Song',
         artist: 'Test Artist',
-        videoId: 'dQw4w9WgXcQ',
+        source: 'youtube',
+        sourceId: 'dQw4w9WgXcQ',
         duration: 180
       });
       if (!trackResult.success) return;
@@ -353,7 +359,8 @@ describe('QueueService Integration Tests', () => {
       const trackResult = TrackValidator.create({
         title: 'Valid Song',
         artist: 'Valid Artist',
-        videoId: 'dQw4w9WgXcQ',
+        source: 'youtube',
+        sourceId: 'dQw4w9WgXcQ',
         duration: 180
       });
       if (!trackResult.success) return;
@@ -400,13 +407,15 @@ describe('QueueService Integration Tests', () => {
       const track1Result = TrackValidator.create({
         title: 'First Song',
         artist: 'Artist 1',
-        videoId: 'dQw4w9WgXcQ',
+        source: 'youtube',
+        sourceId: 'dQw4w9WgXcQ',
         duration: 180
       });
       const track2Result = TrackValidator.create({
         title: 'Second Song',
         artist: 'Artist 2',
-        videoId: 'abc123def456',
+        source: 'youtube',
+        sourceId: 'abc123def456',
         duration: 200
       });
       const userResult = UserValidator.create({
@@ -481,7 +490,8 @@ describe('QueueService Integration Tests', () => {
         const trackResult = TrackValidator.create({
           title: `Song ${i}`,
           artist: `Artist ${i}`,
-          videoId: 'dQw4w9WgXcQ',
+          source: 'youtube',
+          sourceId: 'dQw4w9WgXcQ',
           duration: 180 + i * 10
         });
         if (trackResult.success) {
@@ -535,4 +545,64 @@ describe('QueueService Integration Tests', () => {
       expect(finalQueueState.upcomingTracks.length).toBe(4);
     });
   });
-});
\ No newline at end of file
+});
+
+describe('QueueService Duplicate Requests', () => {
+  let clock: number;
+  let queueService: QueueService;
+
+  const guest = { id: 'user1', nickname: 'Guest' };
+  const createTrack = (title: string, sourceId: string, artist = 'Test Artist'): Track =>
+    ({ id: `track-${sourceId}`, title, artist, source: 'youtube', sourceId, duration: 180 });
+
+  beforeEach(() => {
+    clock = Date.parse('2026-05-01T20:00:00Z');
+    queueService = new QueueService(new QueueManager(), new RateLimiter(), {
+      duplicateCooldownMs: 30 * 60 * 1000,
+      now: () => clock
+    });
+  });
+
+  it('should reject a track that is playing or queued and say where it is', () => {
+    const playing = queueService.addTrackToQueue(createTrack('Playing', 'aaaaaaaaaaa'), guest);
+    queueService.addTrackToQueue(createTrack('Other', 'bbbbbbbbbbb'), guest);
+    const queued = queueService.addTrackToQueue(createTrack('Queued', 'ccccccccccc'), guest);
+
+    expect(queueService.addTrackToQueue(createTrack('Playing', 'aaaaaaaaaaa'), guest))
+      .toEqual({ success: false, error: 'DUPLICATE_REQUEST' });
+    expect(queueService.findDuplicateRequest(createTrack('Playing', 'aaaaaaaaaaa')))
+      .toMatchObject({ reason: 'now_playing', match: 'same_track', queueItem: playing.success && playing.value });
+    expect(queueService.findDuplicateRequest(createTrack('Queued', 'ccccccccccc')))
+      .toMatchObject({ reason: 'queued', match: 'same_track', position: 2, queueItem: queued.success && queued.value });
+    expect(queueService.getQueueState().totalLength).toBe(3);
+  });
+
+  it('should reject a track played within the cooldown until it runs out', () => {
+    queueService.addTrackToQueue(createTrack('Played', 'aaaaaaaaaaa'), guest);
+    clock += 3 * 60 * 1000;
+    queueService.advanceToNextTrack();
+
+    clock += 10 * 60 * 1000;
+    expect(queueService.addTrackToQueue(createTrack('Played', 'aaaaaaaaaaa'), guest).success).toBe(false);
+    expect(queueService.findDuplicateRequest(createTrack('Played', 'aaaaaaaaaaa'))).toMatchObject({
+      reason: 'recently_played',
+      playedAt: new Date('2026-05-01T20:03:00Z'),
+      availableAt: new Date('2026-05-01T20:33:00Z')
+    });
+
+    clock += 20 * 60 * 1000;
+    expect(queueService.addTrackToQueue(createTrack('Played', 'aaaaaaaaaaa'), guest).success).toBe(true);
+  });
+
+  it('should catch other uploads of the same song unless fuzzy matching is off', () => {
+    queueService.addTrackToQueue(createTrack('Blue Monday', 'aaaaaaaaaaa', 'New Order'), guest);
+    const reupload = createTrack('New Order - Blue Monday (Official Lyric Video) [HD]', 'bbbbbbbbbbb', 'NewOrderVEVO');
+
+    expect(queueService.findDuplicateRequest(reupload)).toMatchObject({ reason: 'now_playing', match: 'same_song' });
+    expect(queueService.findDuplicateRequest(createTrack('Blue Monday 88', 'ccccccccccc', 'New Order'))).toBeNull();
+
+    const exactOnly = new QueueService(new QueueManager(), new RateLimiter(), { fuzzyDuplicateMatching: false });
+    exactOnly.addTrackToQueue(createTrack('Blue Monday', 'aaaaaaaaaaa', 'New Order'), guest);
+    expect(exactOnly.addTrackToQueue(reupload, guest).success).toBe(true);
+  });
+});
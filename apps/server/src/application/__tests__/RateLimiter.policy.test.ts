@@ -0,0 +1,133 @@
+/**
+ * Tests for configurable, role-aware rate limiting policies
+ * Requirements: 27.1, 27.2, 27.3, 27.4
+ */
+
+import { Track, User } from '@party-jukebox/shared';
+import { RateLimiter, validateRateLimitSettings } from '../RateLimiter';
+import { QueueService } from '../QueueService';
+import { QueueManager } from '../QueueManager';
+
+const guest: User = { id: 'guest-1', nickname: 'Guest' };
+const vip: User = { id: 'vip-1', nickname: 'VIP' };
+const host: User = { id: 'host-1', nickname: 'Host', role: 'host' };
+
+const createTrack = (index: number, duration: number = 240): Track => ({
+  id: `track-${index}`,
+  title: `Song ${index}`,
+  artist: `Artist ${index}`,
+  source: 'youtube',
+  sourceId: `video${index}`.padEnd(11, '0'),
+  duration
+});
+
+describe('RateLimiter policies', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should give VIPs more requests than guests and leave hosts unlimited', () => {
+    const rateLimiter = new RateLimiter({ vipUserIds: ['vip-1'] });
+
+    for (let i = 0; i < 10; i++) {
+      rateLimiter.recordRequest(guest, `track-${i}`);
+      rateLimiter.recordRequest(vip, `track-${i}`);
+      rateLimiter.recordRequest(host, `track-${i}`);
+    }
+
+    expect(rateLimiter.getRole(vip)).toBe('vip');
+    expect(rateLimiter.canUserAddTrack(guest)).toBe(false);
+    expect(rateLimiter.canUserAddTrack(vip)).toBe(false);
+    expect(rateLimiter.canUserAddTrack(host)).toBe(true);
+    expect(rateLimiter.getRemainingRequests(host)).toBe(Number.POSITIVE_INFINITY);
+  });
+
+  it('should apply a changed policy to requests already made', () => {
+    const rateLimiter = new RateLimiter();
+    for (let i = 0; i < 5; i++) {
+      rateLimiter.recordRequest(guest, `track-${i}`);
+    }
+
+    const settings = rateLimiter.updateSettings({ roles: { guest: { maxRequests: 8 } } });
+
+    expect(settings.roles.guest).toEqual({ maxRequests: 8, maxMinutes: null });
+    expect(settings.roles.vip.maxRequests).toBe(10);
+    expect(rateLimiter.getRemainingRequests(guest)).toBe(3);
+
+    rateLimiter.updateSettings({ vipUserIds: ['guest-1'], roles: { vip: { maxRequests: null } } });
+    expect(rateLimiter.getRemainingRequests(guest)).toBe(Number.POSITIVE_INFINITY);
+  });
+
+  it('should only accept tracks that fit in the minutes budget', () => {
+    const rateLimiter = new RateLimiter({ roles: { guest: { maxRequests: null, maxMinutes: 10 } } });
+
+    rateLimiter.recordRequest(guest, 'track-1', 420);
+
+    expect(rateLimiter.getRemainingMusicSeconds(guest)).toBe(180);
+    expect(rateLimiter.canUserAddTrack(guest, 240)).toBe(false);
+    expect(rateLimiter.canUserAddTrack(guest, 180)).toBe(true);
+    expect(rateLimiter.getRemainingMusicSeconds(host)).toBeNull();
+  });
+
+  it('should spend bonus requests only once the limit is reached', () => {
+    const rateLimiter = new RateLimiter({ roles: { guest: { maxRequests: 1 } } });
+
+    expect(rateLimiter.grantBonusRequests('guest-1', 2)).toBe(2);
+    rateLimiter.recordRequest(guest, 'track-1');
+    expect(rateLimiter.getBonusRequests('guest-1')).toBe(2);
+    expect(rateLimiter.getRemainingRequests(guest)).toBe(2);
+
+    rateLimiter.recordRequest(guest, 'track-2');
+    rateLimiter.recordRequest(guest, 'track-3');
+
+    expect(rateLimiter.getBonusRequests('guest-1')).toBe(0);
+    expect(rateLimiter.canUserAddTrack(guest)).toBe(false);
+    expect(rateLimiter.grantBonusRequests('guest-1', -5)).toBe(0);
+  });
+
+  it('should keep unused bonus requests across a restart', () => {
+    const rateLimiter = new RateLimiter();
+    rateLimiter.grantBonusRequests('guest-1', 3);
+
+    const restored = new RateLimiter();
+    restored.restoreSnapshot(rateLimiter.exportSnapshot());
+
+    expect(restored.getBonusRequests('guest-1')).toBe(3);
+  });
+
+  it('should reject malformed settings', () => {
+    expect(validateRateLimitSettings({ windowMinutes: 0 })).toEqual({ success: false, error: 'INVALID_WINDOW' });
+    expect(validateRateLimitSettings({ roles: { dj: { maxRequests: 3 } } })).toEqual({ success: false, error: 'INVALID_ROLE' });
+    expect(validateRateLimitSettings({ roles: { guest: { maxRequests: 2.5 } } })).toEqual({ success: false, error: 'INVALID_LIMIT' });
+    expect(validateRateLimitSettings({ vipUserIds: 'vip-1' })).toEqual({ success: false, error: 'INVALID_VIP_LIST' });
+    expect(validateRateLimitSettings({ roles: { guest: { maxRequests: null, maxMinutes: 30 } } })).toEqual({
+      success: true,
+      value: { roles: { guest: { maxRequests: null, maxMinutes: 30 } } }
+    });
+  });
+
+  it('should report the role, budget and bonus through QueueService', () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    const rateLimiter = new RateLimiter({ roles: { guest: { maxRequests: 2, maxMinutes: 10 } } });
+    const queueService = new QueueService(new QueueManager(), rateLimiter);
+
+    expect(queueService.addTrackToQueue(createTrack(1, 300), guest).success).toBe(true);
+    expect(queueService.addTrackToQueue(createTrack(2, 400), guest)).toEqual({ success: false, error: 'RATE_LIMIT_EXCEEDED' });
+    expect(queueService.addTrackToQueue(createTrack(3, 300), guest).success).toBe(true);
+
+    // A bonus request lets the guest past the minutes budget too
+    rateLimiter.grantBonusRequests('guest-1', 2);
+    expect(queueService.addTrackToQueue(createTrack(4, 400), guest).success).toBe(true);
+
+    expect(queueService.getUserRateLimitInfo(guest)).toMatchObject({
+      canAddTrack: true,
+      remainingRequests: 1,
+      role: 'guest',
+      maxRequests: 2,
+      bonusRequests: 1,
+      remainingMusicSeconds: 0,
+      windowMinutes: 10
+    });
+    expect(queueService.getUserRateLimitInfo(host).remainingRequests).toBeNull();
+  });
+});
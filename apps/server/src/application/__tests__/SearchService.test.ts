@@ -5,8 +5,15 @@
  * Requirements: 1.3, 3.3, 3.5
  */
 
+import { SearchResult } from '@party-jukebox/shared';
 import { SearchService, SearchParams, PaginatedSearchResults, SearchError } from '../SearchService';
-import { IYouTubeAdapter, YouTubeSearchResponse, YouTubeVideoDetails } from '../../infrastructure/youtube/types';
+import { ILocalLibraryService } from '../LocalLibraryService';
+import { IStreamResolver } from '../../domain/playback/interfaces';
+import { TrackSourceProvider } from '../../domain/sources/types';
+import { IYouTubeAdapter, YouTubePlaylistVideos, YouTubeSearchResponse, YouTubeVideoDetails } from '../../infrastructure/youtube/types';
+import { YouTubeSourceProvider } from '../../infrastructure/youtube/YouTubeSourceProvider';
+import { LocalSourceProvider } from '../../infrastructure/library/LocalSourceProvider';
+import { TrackSourceRegistry } from '../../infrastructure/sources/TrackSourceRegistry';
 
 // Mock YouTube Adapter for testing
 class MockYouTubeAdapter implements IYouTubeAdapter {
@@ -57,18 +64,34 @@ class MockYouTubeAdapter implements IYouTubeAdapter {
     return this.videoDetails.filter(detail => videoIds.includes(detail.id));
   }
 
+  async getRelatedVideos(videoId: string, maxResults?: number): Promise<YouTubeSearchResponse> {
+    const response = await this.searchVideos(videoId, undefined, maxResults);
+    return { ...response, items: response.items.filter(item => item.id.videoId !== videoId) };
+  }
+
+  async getPlaylistVideos(playlistId: string, maxResults?: number): Promise<YouTubePlaylistVideos> {
+    const response = await this.searchVideos(playlistId, undefined, maxResults);
+    return { totalResults: response.items.length, items: response.items };
+  }
+
   isConfigured(): boolean {
     return true;
   }
 }
 
+// Search never resolves streams
+const unusedStreamResolver = {} as IStreamResolver;
+
+const createSources = (adapter: IYouTubeAdapter, ...before: TrackSourceProvider[]) =>
+  new TrackSourceRegistry([...before, new YouTubeSourceProvider(adapter, unusedStreamResolver)]);
+
 describe('SearchService - Edge Cases', () => {
   let searchService: SearchService;
   let mockAdapter: MockYouTubeAdapter;
 
   beforeEach(() => {
     mockAdapter = new MockYouTubeAdapter();
-    searchService = new SearchService(mockAdapter);
+    searchService = new SearchService(createSources(mockAdapter));
   });
 
   afterEach(() => {
@@ -572,4 +595,81 @@ describe('SearchService - Edge Cases', () => {
       expect(result.success).toBe(true);
     });
   });
-});
\ No newline at end of file
+
+  describe('Local Library Results (Requirements 19.3, 20.3)', () => {
+    const localHit: SearchResult = {
+      source: 'local',
+      sourceId: '0123456789abcdef',
+      title: 'Local Song',
+      artist: 'Local Band',
+      duration: 200,
+      thumbnailUrl: '',
+      channelTitle: 'Local library',
+      publishedAt: ''
+    };
+
+    let localLibrary: jest.Mocked<Pick<ILocalLibraryService, 'search'>>;
+
+    beforeEach(() => {
+      localLibrary = { search: jest.fn().mockReturnValue([localHit]) };
+      searchService = new SearchService(
+        createSources(mockAdapter, new LocalSourceProvider(localLibrary as unknown as ILocalLibraryService))
+      );
+    });
+
+    it('should list local matches ahead of YouTube results on the first page', async () => {
+      mockAdapter.setSearchResponse({
+        kind: 'youtube#searchListResponse',
+        etag: 'test-etag',
+        nextPageToken: 'next',
+        pageInfo: { totalResults: 40, resultsPerPage: 0 },
+        items: []
+      });
+
+      const result = await searchService.search({ query: 'song', limit: 10 });
+
+      expect(localLibrary.search).toHaveBeenCalledWith('song', 10);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value.results).toEqual([localHit]);
+        expect(result.value.pagination.totalResults).toBe(41);
+        expect(result.value.pagination.nextPageToken).toBe('youtube:next');
+      }
+    });
+
+    it('should not repeat local matches on later pages', async () => {
+      mockAdapter.setSearchResponse({
+        kind: 'youtube#searchListResponse',
+        etag: 'test-etag',
+        pageInfo: { totalResults: 40, resultsPerPage: 0 },
+        items: []
+      });
+
+      const result = await searchService.search({ query: 'song', pageToken: 'youtube:next' });
+
+      expect(localLibrary.search).not.toHaveBeenCalled();
+      expect(result.success && result.value.results).toEqual([]);
+    });
+
+    it('should return local matches on their own when YouTube is unreachable', async () => {
+      mockAdapter.setShouldThrowError(new Error('Network unavailable'));
+
+      const result = await searchService.search({ query: 'song' });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value.results).toEqual([localHit]);
+        expect(result.value.pagination.hasNextPage).toBe(false);
+      }
+    });
+
+    it('should still report YouTube errors when nothing matched locally', async () => {
+      localLibrary.search.mockReturnValue([]);
+      mockAdapter.setShouldThrowError(new Error('Network unavailable'));
+
+      const result = await searchService.search({ query: 'song' });
+
+      expect(result).toEqual({ success: false, error: 'SERVICE_UNAVAILABLE' });
+    });
+  });
+});
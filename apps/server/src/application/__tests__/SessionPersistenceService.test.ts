@@ -0,0 +1,142 @@
+/**
+ * Tests for SessionPersistenceService with the JSON file state store
+ * Feature: session-persistence
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Track, User } from '@party-jukebox/shared';
+import { SessionPersistenceService } from '../SessionPersistenceService';
+import { VolumeService } from '../VolumeService';
+import { QueueManager } from '../QueueManager';
+import { RateLimiter } from '../RateLimiter';
+import { JsonFileStateStore } from '../../infrastructure/persistence';
+import { IPlaybackOrchestrator } from '../../domain/playback/interfaces';
+
+const createTrack = (id: string): Track => ({
+  id,
+  title: `Song ${id}`,
+  artist: 'Test Artist',
+  source: 'youtube',
+  sourceId: 'dQw4w9WgXcQ',
+  duration: 180
+});
+
+const guest: User = { id: 'user-1', nickname: 'Guest' };
+
+describe('SessionPersistenceService', () => {
+  let tempDir: string;
+  let store: JsonFileStateStore;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'jukebox-session-'));
+    store = new JsonFileStateStore({ filePath: path.join(tempDir, 'session.json') });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  const createOrchestrator = (queueManager: QueueManager, position: number): IPlaybackOrchestrator => ({
+    start: jest.fn(),
+    stop: jest.fn(),
+    pause: jest.fn(),
+    resume: jest.fn(),
+    seek: jest.fn(),
+    skip: jest.fn(),
+    getCurrentState: jest.fn(() => ({
+      status: 'playing' as const,
+      currentTrack: queueManager.getCurrentTrack(),
+      position,
+      duration: 180,
+      volume: 50
+    })),
+    addEventListener: jest.fn(),
+    removeEventListener: jest.fn()
+  });
+
+  test('restores queue, rate limits and playback position after a restart', async () => {
+    // First "boot": build up some state and persist it
+    const queueManager = new QueueManager();
+    const rateLimiter = new RateLimiter();
+    const current = queueManager.addTrack(createTrack('a'), guest);
+    queueManager.addTrack(createTrack('b'), guest);
+    rateLimiter.recordRequest(guest, 'a');
+    rateLimiter.recordRequest(guest, 'b');
+
+    const service = new SessionPersistenceService(store, queueManager, rateLimiter);
+    service.start(createOrchestrator(queueManager, 42.7));
+    await service.stop();
+
+    // Second "boot": fresh in-memory components restored from disk
+    const restoredQueue = new QueueManager();
+    const restoredLimiter = new RateLimiter();
+    const restoredService = new SessionPersistenceService(store, restoredQueue, restoredLimiter);
+    const result = await restoredService.restore();
+
+    expect(result.success).toBe(true);
+    if (!result.success || !current.success) return;
+
+    expect(result.value).toEqual({ queueItemId: current.value.id, position: 42 });
+    expect(restoredQueue.getCurrentTrack()?.id).toBe(current.value.id);
+    expect(restoredQueue.getCurrentTrack()?.addedAt).toBeInstanceOf(Date);
+    expect(restoredQueue.getUpcomingTracks().map(item => item.track.id)).toEqual(['b']);
+    expect(restoredLimiter.getRemainingRequests(guest)).toBe(3);
+  });
+
+  test('restores the volume but not a temporary duck', async () => {
+    const queueManager = new QueueManager();
+    const orchestrator = { ...createOrchestrator(queueManager, 0), setVolume: jest.fn().mockResolvedValue({ success: true, value: undefined }) };
+    const volumeService = new VolumeService(orchestrator);
+    await volumeService.setVolume({ level: 35, muted: true, maxVolume: 70 });
+    await volumeService.duck({ level: 10 });
+
+    const service = new SessionPersistenceService(store, queueManager, new RateLimiter());
+    service.start(orchestrator, volumeService);
+    await service.stop();
+
+    const result = await new SessionPersistenceService(store, new QueueManager(), new RateLimiter()).restore();
+    const restoredVolume = new VolumeService(orchestrator, { settings: result.success ? result.value?.volume : undefined });
+
+    expect(restoredVolume.getState()).toEqual({ level: 35, muted: true, maxVolume: 70, ducked: false, effectiveVolume: 0 });
+  });
+
+  test('returns null when no snapshot exists', async () => {
+    const service = new SessionPersistenceService(store, new QueueManager(), new RateLimiter());
+    const result = await service.restore();
+
+    expect(result).toEqual({ success: true, value: null });
+  });
+
+  test('reports corrupt snapshots without touching in-memory state', async () => {
+    await fs.writeFile(store.getFilePath(), '{not json', 'utf8');
+    const queueManager = new QueueManager();
+    queueManager.addTrack(createTrack('a'), guest);
+
+    const service = new SessionPersistenceService(store, queueManager, new RateLimiter());
+    const result = await service.restore();
+
+    expect(result).toEqual({ success: false, error: 'SNAPSHOT_CORRUPT' });
+    expect(queueManager.getQueueLength()).toBe(1);
+  });
+
+  test('drops expired rate limit requests on restore', () => {
+    const rateLimiter = new RateLimiter();
+    const expired = new Date(Date.now() - 11 * 60 * 1000);
+    const recent = new Date();
+
+    rateLimiter.restoreSnapshot({
+      users: [{
+        userId: guest.id,
+        windowStart: expired,
+        requests: [
+          { timestamp: expired, trackId: 'old' },
+          { timestamp: recent, trackId: 'new' }
+        ]
+      }]
+    });
+
+    expect(rateLimiter.getRemainingRequests(guest)).toBe(4);
+  });
+});
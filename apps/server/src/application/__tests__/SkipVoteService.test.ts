@@ -0,0 +1,122 @@
+/**
+ * Tests for SkipVoteService vote counting and thresholds
+ * Feature: vote-to-skip
+ */
+
+import { QueueItem } from '@party-jukebox/shared';
+import { SkipVoteService } from '../SkipVoteService';
+import { IPlaybackOrchestrator } from '../../domain/playback/interfaces';
+import { PlaybackEventListener, SkipVoteTally } from '../../domain/playback/types';
+
+const createQueueItem = (id: string): QueueItem => ({
+  id,
+  track: {
+    id: `track-${id}`,
+    title: `Song ${id}`,
+    artist: 'Test Artist',
+    source: 'youtube',
+    sourceId: 'dQw4w9WgXcQ',
+    duration: 180
+  },
+  addedBy: { id: 'user-1', nickname: 'Guest' },
+  addedAt: new Date()
+});
+
+describe('SkipVoteService', () => {
+  let currentTrack: QueueItem | null;
+  let listeners: PlaybackEventListener[];
+  let orchestrator: IPlaybackOrchestrator;
+
+  beforeEach(() => {
+    currentTrack = createQueueItem('a');
+    listeners = [];
+    orchestrator = {
+      start: jest.fn(),
+      stop: jest.fn(),
+      pause: jest.fn(),
+      resume: jest.fn(),
+      seek: jest.fn(),
+      skip: jest.fn().mockResolvedValue({ success: true, value: undefined }),
+      getCurrentState: jest.fn(() => ({
+        status: currentTrack ? 'playing' as const : 'idle' as const,
+        currentTrack,
+        position: 0,
+        duration: 180,
+        volume: 50
+      })),
+      addEventListener: jest.fn((listener: PlaybackEventListener) => listeners.push(listener)),
+      removeEventListener: jest.fn()
+    };
+  });
+
+  test('skips only once votes exceed the threshold share of controllers', async () => {
+    const service = new SkipVoteService(orchestrator, { threshold: 0.5 });
+
+    // 5 controllers at 50% means 3 votes are needed
+    const first = await service.castVote('user-1', 5);
+    const second = await service.castVote('user-2', 5);
+    const third = await service.castVote('user-3', 5);
+
+    expect(first.success && first.value).toMatchObject({ skipped: false, tally: { votes: 1, required: 3 } });
+    expect(second.success && second.value.skipped).toBe(false);
+    expect(third.success && third.value).toMatchObject({ skipped: true, tally: { votes: 3, required: 3 } });
+    expect(orchestrator.skip).toHaveBeenCalledTimes(1);
+  });
+
+  test('allows one vote per user per track', async () => {
+    const service = new SkipVoteService(orchestrator);
+
+    await service.castVote('user-1', 10);
+    const duplicate = await service.castVote('user-1', 10);
+
+    expect(duplicate).toEqual({ success: false, error: 'ALREADY_VOTED' });
+    expect(service.getTally(10).votes).toBe(1);
+  });
+
+  test('never skips on a lone vote, and counts voters without a controller as eligible', async () => {
+    const service = new SkipVoteService(orchestrator);
+
+    const first = await service.castVote('user-1', 0);
+    expect(first.success && first.value).toMatchObject({ skipped: false, tally: { votes: 1, required: 2, eligibleVoters: 1 } });
+    expect(orchestrator.skip).not.toHaveBeenCalled();
+
+    const second = await service.castVote('user-2', 0);
+    expect(second.success && second.value).toMatchObject({ skipped: true, tally: { votes: 2, required: 2, eligibleVoters: 2 } });
+  });
+
+  test('rejects votes when nothing is playing', async () => {
+    currentTrack = null;
+    const service = new SkipVoteService(orchestrator);
+
+    const result = await service.castVote('user-1', 3);
+
+    expect(result).toEqual({ success: false, error: 'NOTHING_PLAYING' });
+    expect(orchestrator.skip).not.toHaveBeenCalled();
+  });
+
+  test('starts a fresh round and notifies listeners when the track changes', async () => {
+    const service = new SkipVoteService(orchestrator);
+    const tallies: SkipVoteTally[] = [];
+    service.addEventListener(tally => tallies.push(tally));
+    service.start();
+
+    await service.castVote('user-1', 10);
+    currentTrack = createQueueItem('b');
+    listeners.forEach(listener => listener({
+      type: 'track_started',
+      timestamp: new Date(),
+      data: { track: currentTrack!, state: orchestrator.getCurrentState() }
+    }));
+
+    expect(tallies[tallies.length - 1]).toMatchObject({ queueItemId: 'b', votes: 0 });
+
+    // The same guest may vote again on the new track
+    const result = await service.castVote('user-1', 10);
+    expect(result.success).toBe(true);
+  });
+
+  test('falls back to the default threshold for out-of-range values', () => {
+    expect(new SkipVoteService(orchestrator, { threshold: 1.5 }).getThreshold()).toBe(0.5);
+    expect(new SkipVoteService(orchestrator, { threshold: 0.75 }).getThreshold()).toBe(0.75);
+  });
+});
@@ -0,0 +1,24 @@
+/**
+ * Tests for recognising the same song across uploads
+ * Requirements: 25.3
+ */
+
+import { songKey } from '../SongMatcher';
+
+describe('songKey', () => {
+  it('should take the artist from an "Artist - Title" upload and drop the extras', () => {
+    expect(songKey({ title: 'Daft Punk - One More Time (Official Video) [HD]', artist: 'DaftPunkVEVO' }))
+      .toBe('daft punk|one more time');
+    expect(songKey({ title: 'One More Time', artist: 'Daft Punk - Topic' }))
+      .toBe('daft punk|one more time');
+  });
+
+  it('should ignore case, accents, featured artists and ampersands', () => {
+    expect(songKey({ title: 'Beyoncé & Jay-Z – Déjà Vu feat. Someone', artist: 'x' }))
+      .toBe(songKey({ title: 'DEJA VU', artist: 'Beyonce and Jay Z' }));
+  });
+
+  it('should return null when nothing is left to compare', () => {
+    expect(songKey({ title: '(Official Video)', artist: 'Someone' })).toBeNull();
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Tests for VolumeService level, mute, cap and ducking
+ * Feature: volume-control
+ */
+
+import { VolumeService } from '../VolumeService';
+import { IPlaybackOrchestrator } from '../../domain/playback/interfaces';
+import { PlaybackEventListener } from '../../domain/playback/types';
+
+describe('VolumeService', () => {
+  let listeners: PlaybackEventListener[];
+  let orchestrator: IPlaybackOrchestrator;
+  let setVolume: jest.Mock;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    listeners = [];
+    setVolume = jest.fn().mockResolvedValue({ success: true, value: undefined });
+    orchestrator = {
+      start: jest.fn(),
+      stop: jest.fn(),
+      pause: jest.fn(),
+      resume: jest.fn(),
+      seek: jest.fn(),
+      skip: jest.fn(),
+      setVolume,
+      getCurrentState: jest.fn(() => ({
+        status: 'playing' as const,
+        currentTrack: null,
+        position: 0,
+        duration: 180,
+        volume: 50
+      })),
+      addEventListener: jest.fn((listener: PlaybackEventListener) => listeners.push(listener)),
+      removeEventListener: jest.fn()
+    };
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('clamps the level to the host cap and lowers it when the cap drops', async () => {
+    const service = new VolumeService(orchestrator, { settings: { maxVolume: 60 } });
+
+    const raised = await service.setVolume({ level: 90 });
+    expect(raised.success && raised.value.level).toBe(60);
+
+    const capped = await service.setVolume({ maxVolume: 40 });
+    expect(capped.success && capped.value).toMatchObject({ level: 40, maxVolume: 40, effectiveVolume: 40 });
+    expect(setVolume).toHaveBeenLastCalledWith(40);
+  });
+
+  test('mutes without forgetting the level', async () => {
+    const service = new VolumeService(orchestrator, { settings: { level: 70 } });
+
+    await service.setVolume({ muted: true });
+    expect(setVolume).toHaveBeenLastCalledWith(0);
+
+    const unmuted = await service.setVolume({ muted: false });
+    expect(unmuted.success && unmuted.value.effectiveVolume).toBe(70);
+  });
+
+  test('rejects levels outside 0-100', async () => {
+    const service = new VolumeService(orchestrator);
+
+    expect(await service.setVolume({ level: 101 })).toEqual({ success: false, error: 'INVALID_VOLUME' });
+    expect(await service.setVolume({ maxVolume: -5 })).toEqual({ success: false, error: 'INVALID_VOLUME' });
+    expect(setVolume).not.toHaveBeenCalled();
+  });
+
+  test('ducks for an announcement and restores the previous volume afterwards', async () => {
+    const service = new VolumeService(orchestrator, { settings: { level: 80 } });
+
+    const ducked = await service.duck({ level: 15, durationMs: 5000 });
+    expect(ducked.success && ducked.value).toMatchObject({ ducked: true, level: 80, effectiveVolume: 15 });
+
+    jest.advanceTimersByTime(5000);
+    await Promise.resolve();
+
+    expect(service.getState()).toMatchObject({ ducked: false, effectiveVolume: 80 });
+    expect(setVolume).toHaveBeenLastCalledWith(80);
+  });
+
+  test('re-applies the volume whenever a track starts', () => {
+    const service = new VolumeService(orchestrator, { settings: { level: 30 } });
+    service.start();
+    setVolume.mockClear();
+
+    listeners.forEach(listener => listener({
+      type: 'track_started',
+      timestamp: new Date(),
+      data: { state: orchestrator.getCurrentState() }
+    }));
+
+    expect(setVolume).toHaveBeenCalledWith(30);
+    service.stop();
+  });
+
+  test('stores the volume without touching the player while nothing is playing', async () => {
+    (orchestrator.getCurrentState as jest.Mock).mockReturnValue({
+      status: 'idle', currentTrack: null, position: 0, duration: 0, volume: 50
+    });
+    setVolume.mockResolvedValue({ success: false, error: 'MPV_NOT_RESPONDING' });
+    const service = new VolumeService(orchestrator);
+    service.start();
+
+    const result = await service.setVolume({ level: 30, muted: true });
+
+    expect(result).toEqual({
+      success: true,
+      value: { level: 30, muted: true, maxVolume: 100, ducked: false, effectiveVolume: 0 }
+    });
+    expect(setVolume).not.toHaveBeenCalled();
+  });
+});
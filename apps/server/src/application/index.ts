@@ -4,7 +4,27 @@
  */
 
 export { QueueManager, IQueueManager } from './QueueManager';
-export { QueueService, IQueueService } from './QueueService';
+export {
+  QueueOrderingStrategy,
+  QueueOrderingStrategies,
+  QueueOrderingContext,
+  FifoOrderingStrategy,
+  VoteOrderingStrategy,
+  FairShareOrderingStrategy,
+  createDefaultOrderingStrategies
+} from './QueueOrderingStrategy';
+export { QueueService, IQueueService, QueueRequester, QueueAddOptions, QueueServiceConfig, UserRateLimitInfo, DuplicateRequestInfo } from './QueueService';
 export { RateLimiter, IRateLimiter } from './RateLimiter';
 export { PlaybackOrchestrator } from './PlaybackOrchestrator';
-export { SearchService, ISearchService, PaginatedSearchResults, SearchParams } from './SearchService';
\ No newline at end of file
+export { SearchService, ISearchService, PaginatedSearchResults, SearchParams } from './SearchService';
+export { SessionPersistenceService, SessionPersistenceConfig } from './SessionPersistenceService';
+export { HostAuthService, IHostAuthService, HostAuthConfig } from './HostAuthService';
+export { GuestSessionService, IGuestSessionService, GuestSessionConfig } from './GuestSessionService';
+export { SkipVoteService, ISkipVoteService, SkipVoteConfig, SkipVoteResult } from './SkipVoteService';
+export { AutoplayService, IAutoplayService, AutoplayConfig, AutoplayFillResult, isAutoplayItem } from './AutoplayService';
+export { VolumeService, IVolumeService, VolumeConfig, DuckOptions } from './VolumeService';
+export { PrefetchService, IPrefetchService, PrefetchConfig } from './PrefetchService';
+export { LocalLibraryService, ILocalLibraryService, LocalLibraryConfig } from './LocalLibraryService';
+export { PlaylistImportService, IPlaylistImportService, PlaylistImportConfig } from './PlaylistImportService';
+export { HistoryService, IHistoryService, HistoryConfig } from './HistoryService';
+export { ContentPolicyService, IContentPolicyService, DEFAULT_CONTENT_POLICY } from './ContentPolicyService';
@@ -0,0 +1,12 @@
+/**
+ * Error types for host authentication
+ * Requirements: 10.2
+ */
+
+/**
+ * Host unlock error types
+ * Requirements: 10.2, 10.3
+ */
+export type HostAuthError =
+  | 'INVALID_PIN'
+  | 'TOO_MANY_ATTEMPTS';
@@ -0,0 +1,6 @@
+/**
+ * Host authentication domain exports
+ * Requirements: 10.2
+ */
+
+export type { HostAuthError } from './errors';
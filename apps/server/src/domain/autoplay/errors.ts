@@ -0,0 +1,14 @@
+/**
+ * Error types for autoplay/radio mode
+ * Requirements: 14.1
+ */
+
+/**
+ * Autoplay error types
+ * Requirements: 14.1, 14.3
+ */
+export type AutoplayError =
+  | 'AUTOPLAY_DISABLED'
+  | 'QUEUE_NOT_EMPTY'
+  | 'NO_CANDIDATES'
+  | 'ENQUEUE_FAILED';
@@ -0,0 +1,8 @@
+/**
+ * Autoplay domain exports
+ * Requirements: 14.1
+ */
+
+export type { AutoplaySource, AutoplaySettings } from './types';
+
+export type { AutoplayError } from './errors';
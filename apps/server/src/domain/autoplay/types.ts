@@ -0,0 +1,23 @@
+/**
+ * Core types for autoplay/radio mode
+ * Requirements: 14.1, 14.2, 14.3
+ */
+
+/**
+ * Where an autoplay track came from
+ * - related: music related to a recently played track
+ * - seeds: the host's seed list
+ * - playlist: the host's fallback playlist
+ * Requirements: 14.2, 14.3
+ */
+export type AutoplaySource = 'related' | 'seeds' | 'playlist';
+
+/**
+ * Host-configurable autoplay settings
+ * Requirements: 14.1, 14.3, 14.5
+ */
+export interface AutoplaySettings {
+  readonly enabled: boolean;
+  readonly seedVideoIds: readonly string[];
+  readonly fallbackVideoIds: readonly string[];
+}
@@ -0,0 +1,12 @@
+/**
+ * Error types for guest sessions
+ * Requirements: 28.1
+ */
+
+/**
+ * Guest session error types
+ * Requirements: 28.1, 28.2
+ */
+export type GuestSessionError =
+  | 'INVALID_SESSION'
+  | 'INVALID_NICKNAME';
@@ -0,0 +1,8 @@
+/**
+ * Guest session domain exports
+ * Requirements: 28.1
+ */
+
+export type { GuestProfile, GuestSession } from './types';
+
+export type { GuestSessionError } from './errors';
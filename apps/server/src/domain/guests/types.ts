@@ -0,0 +1,27 @@
+/**
+ * Core types for device-bound guest sessions
+ * Requirements: 28.1, 28.2
+ */
+
+import { User } from '@party-jukebox/shared';
+
+/**
+ * A guest's persistent identity; the nickname is the only part they can change
+ * Requirements: 28.2
+ */
+export interface GuestProfile {
+  readonly userId: string;
+  readonly nickname: string;
+  readonly joinedAt: Date;
+}
+
+/**
+ * What a device gets when it joins: the token to present on every request
+ * and the user it resolves to
+ * Requirements: 28.1
+ */
+export interface GuestSession {
+  readonly token: string;
+  readonly user: User;
+  readonly isNew: boolean;
+}
@@ -0,0 +1,12 @@
+/**
+ * Error types for the play history log
+ * Requirements: 24.1
+ */
+
+/**
+ * History store error types
+ * Requirements: 24.1
+ */
+export type HistoryError =
+  | 'STORE_UNAVAILABLE'
+  | 'WRITE_FAILED';
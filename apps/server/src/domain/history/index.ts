@@ -0,0 +1,18 @@
+/**
+ * Play history domain exports
+ * Requirements: 24.1
+ */
+
+export type {
+  HistoryEntry,
+  HistoryQuery,
+  HistoryPage,
+  HistoryExportFormat,
+  HistoryExport
+} from './types';
+
+export { HISTORY_EXPORT_FORMATS } from './types';
+
+export type { HistoryError } from './errors';
+
+export type { IHistoryStore } from './interfaces';
@@ -0,0 +1,29 @@
+/**
+ * Port interfaces for the play history log
+ * Requirements: 24.1
+ */
+
+import { Result } from '@party-jukebox/shared';
+import { HistoryEntry } from './types';
+import { HistoryError } from './errors';
+
+/**
+ * Pluggable store for history entries, so the log outlives a restart
+ * Requirements: 24.1
+ */
+export interface IHistoryStore {
+  /**
+   * Load all stored entries, oldest first
+   */
+  load(): Promise<Result<HistoryEntry[], HistoryError>>;
+
+  /**
+   * Add an entry to the end of the log
+   */
+  append(entry: HistoryEntry): Promise<Result<void, HistoryError>>;
+
+  /**
+   * Replace the whole log, used to drop entries past the retention limit
+   */
+  replace(entries: HistoryEntry[]): Promise<Result<void, HistoryError>>;
+}
@@ -0,0 +1,72 @@
+/**
+ * Core types for the play history log
+ * Requirements: 24.1, 24.2, 24.3
+ */
+
+import { Track, TrackSource, User } from '@party-jukebox/shared';
+import { TrackOutcome } from '../playback/types';
+
+/**
+ * A queue item that has left the queue, and how its turn went
+ * Requirements: 24.1
+ */
+export interface HistoryEntry {
+  readonly id: string;
+  readonly queueItemId: string;
+  readonly track: Track;
+  readonly requestedBy: User;
+  readonly addedAt: Date;
+  readonly startedAt: Date | null; // null when the track never started playing
+  readonly endedAt: Date;
+  readonly playedSeconds: number;
+  readonly outcome: TrackOutcome;
+  readonly error?: string; // failed tracks: what went wrong
+}
+
+/**
+ * Filters and paging for history lookups; all filters are optional
+ * Requirements: 24.2
+ */
+export interface HistoryQuery {
+  readonly page?: number; // 1-based, default 1
+  readonly limit?: number; // entries per page, default 50
+  readonly outcome?: TrackOutcome;
+  readonly userId?: string;
+  readonly source?: TrackSource;
+  readonly search?: string; // matched against title, artist and requester nickname
+  readonly from?: Date; // entries that ended at or after this time
+  readonly to?: Date; // entries that ended before this time
+}
+
+/**
+ * One page of history, most recent first
+ * Requirements: 24.2
+ */
+export interface HistoryPage {
+  readonly entries: HistoryEntry[];
+  readonly pagination: {
+    readonly currentPage: number;
+    readonly totalResults: number;
+    readonly resultsPerPage: number;
+    readonly hasNextPage: boolean;
+    readonly hasPrevPage: boolean;
+  };
+}
+
+/**
+ * Formats the history can be exported in
+ * Requirements: 24.3
+ */
+export type HistoryExportFormat = 'json' | 'csv' | 'm3u';
+
+export const HISTORY_EXPORT_FORMATS: readonly HistoryExportFormat[] = ['json', 'csv', 'm3u'];
+
+/**
+ * An exported history file
+ * Requirements: 24.3
+ */
+export interface HistoryExport {
+  readonly contentType: string;
+  readonly filename: string;
+  readonly body: string;
+}
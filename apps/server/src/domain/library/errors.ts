@@ -0,0 +1,14 @@
+/**
+ * Error types for the local music library
+ * Requirements: 19.1
+ */
+
+/**
+ * Local library error types
+ * Requirements: 19.1, 19.2, 19.4
+ */
+export type LibraryError =
+  | 'TRACK_NOT_FOUND'
+  | 'FILE_MISSING'
+  | 'ART_NOT_FOUND'
+  | 'SCAN_FAILED';
@@ -0,0 +1,8 @@
+/**
+ * Local library domain exports
+ * Requirements: 19.1
+ */
+
+export type { LibraryTrack, AudioTags, CoverArt, ITagReader, LibraryStatus } from './types';
+
+export type { LibraryError } from './errors';
@@ -0,0 +1,62 @@
+/**
+ * Core types for the local music library
+ * Requirements: 19.1, 19.2, 19.3
+ */
+
+/**
+ * An audio file indexed from the host's music directory
+ * Requirements: 19.1, 19.2
+ */
+export interface LibraryTrack {
+  readonly id: string; // Hash of the path relative to the library root
+  readonly path: string; // Absolute path handed to mpv
+  readonly title: string;
+  readonly artist: string;
+  readonly album?: string;
+  readonly duration: number; // seconds
+  readonly artCodec?: string; // Codec of the embedded cover art, absent without art
+  readonly size: number; // bytes, used with modifiedAt to skip unchanged files on rescan
+  readonly modifiedAt: number; // epoch ms
+}
+
+/**
+ * Tags read from an audio file
+ * Requirements: 19.2
+ */
+export interface AudioTags {
+  readonly title?: string;
+  readonly artist?: string;
+  readonly album?: string;
+  readonly duration: number; // seconds, 0 when unknown
+  readonly artCodec?: string;
+}
+
+/**
+ * Embedded cover art extracted from an audio file
+ * Requirements: 19.2
+ */
+export interface CoverArt {
+  readonly data: Buffer;
+  readonly contentType: string;
+}
+
+/**
+ * Reads tags and cover art from audio files
+ * Requirements: 19.2
+ */
+export interface ITagReader {
+  readTags(path: string): Promise<AudioTags | null>;
+  readCoverArt(path: string): Promise<Buffer | null>;
+}
+
+/**
+ * Library index summary
+ * Requirements: 19.1
+ */
+export interface LibraryStatus {
+  readonly rootDir: string;
+  readonly trackCount: number;
+  readonly scanning: boolean;
+  readonly lastScanAt: string | null;
+  readonly skippedFiles: number; // Audio files whose tags or duration couldn't be read
+}
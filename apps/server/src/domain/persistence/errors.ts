@@ -0,0 +1,14 @@
+/**
+ * Error types for session state persistence
+ * Requirements: 8.4
+ */
+
+/**
+ * State store error types
+ * Requirements: 8.4
+ */
+export type PersistenceError =
+  | 'STORE_UNAVAILABLE'
+  | 'SNAPSHOT_CORRUPT'
+  | 'UNSUPPORTED_VERSION'
+  | 'WRITE_FAILED';
@@ -0,0 +1,17 @@
+/**
+ * Session persistence domain exports
+ * Requirements: 8.1, 8.2
+ */
+
+export type {
+  QueueSnapshot,
+  RateLimitSnapshot,
+  PlaybackSnapshot,
+  SessionSnapshot
+} from './types';
+
+export { SESSION_SNAPSHOT_VERSION } from './types';
+
+export type { PersistenceError } from './errors';
+
+export type { IStateStore } from './interfaces';
@@ -0,0 +1,32 @@
+/**
+ * Port interfaces for session state persistence
+ * Requirements: 8.1, 8.2
+ */
+
+import { Result } from '@party-jukebox/shared';
+import { SessionSnapshot } from './types';
+import { PersistenceError } from './errors';
+
+/**
+ * Pluggable store for session snapshots
+ * Requirements: 8.1, 8.2, 8.4
+ */
+export interface IStateStore {
+  /**
+   * Load the most recent snapshot, or null if none has been saved
+   * Requirements: 8.2
+   */
+  load(): Promise<Result<SessionSnapshot | null, PersistenceError>>;
+
+  /**
+   * Persist a snapshot, replacing any previous one
+   * Requirements: 8.1
+   */
+  save(snapshot: SessionSnapshot): Promise<Result<void, PersistenceError>>;
+
+  /**
+   * Remove any persisted snapshot
+   * Requirements: 8.4
+   */
+  clear(): Promise<Result<void, PersistenceError>>;
+}
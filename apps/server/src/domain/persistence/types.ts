@@ -0,0 +1,68 @@
+/**
+ * Core types for session state persistence
+ * Requirements: 8.1, 8.2
+ */
+
+import { QueueItem, QueueOrderingMode, UserRateData } from '@party-jukebox/shared';
+import { VolumeSettings } from '../playback/types';
+import { GuestProfile } from '../guests/types';
+
+/**
+ * Current snapshot format version
+ * Bump when the snapshot shape changes incompatibly
+ * - 2: tracks carry a source and sourceId instead of a YouTube videoId
+ */
+export const SESSION_SNAPSHOT_VERSION = 2;
+
+/**
+ * Snapshot of the queue contents
+ * Requirements: 8.1, 12.4
+ */
+export interface QueueSnapshot {
+  readonly currentTrack: QueueItem | null;
+  readonly upcomingTracks: QueueItem[];
+  readonly orderingMode?: QueueOrderingMode;
+  readonly votes?: Record<string, Record<string, number>>; // queue item id -> user id -> +1/-1
+}
+
+/**
+ * Snapshot of per-user rate limiting data and unused bonus requests
+ * Requirements: 8.1, 27.3
+ */
+export interface RateLimitSnapshot {
+  readonly users: UserRateData[];
+  readonly bonusRequests?: Readonly<Record<string, number>>;
+}
+
+/**
+ * Snapshot of the playback position for the current queue item, and the room's volume
+ * Requirements: 8.1, 8.3, 16.4
+ */
+export interface PlaybackSnapshot {
+  readonly queueItemId: string | null;
+  readonly position: number; // seconds
+  readonly volume?: VolumeSettings;
+}
+
+/**
+ * Snapshot of guest profiles, and the signing secret when it was generated
+ * rather than configured, so devices stay signed in across restarts
+ * Requirements: 8.1, 28.2
+ */
+export interface GuestSnapshot {
+  readonly secret?: string;
+  readonly profiles: GuestProfile[];
+}
+
+/**
+ * Complete persisted session state
+ * Requirements: 8.1, 8.2
+ */
+export interface SessionSnapshot {
+  readonly version: number;
+  readonly savedAt: Date;
+  readonly queue: QueueSnapshot;
+  readonly rateLimits: RateLimitSnapshot;
+  readonly playback: PlaybackSnapshot;
+  readonly guests?: GuestSnapshot;
+}
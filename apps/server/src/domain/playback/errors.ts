@@ -43,7 +43,24 @@ export type ProcessError =
  * Orchestration error types combining all error categories
  * Requirements: 3.3, 5.1, 5.2, 5.6
  */
-export type OrchestrationError = ResolutionError | PlaybackError | ProcessError | 'QUEUE_EMPTY';
+export type OrchestrationError = ResolutionError | PlaybackError | ProcessError | 'QUEUE_EMPTY' | 'NOTHING_PLAYING';
+
+/**
+ * Vote-to-skip error types
+ * Requirements: 11.1, 11.2
+ */
+export type SkipVoteError =
+  | 'NOTHING_PLAYING'
+  | 'ALREADY_VOTED'
+  | 'SKIP_FAILED';
+
+/**
+ * Volume control error types
+ * Requirements: 16.1, 16.3
+ */
+export type VolumeError =
+  | 'INVALID_VOLUME'
+  | 'VOLUME_APPLY_FAILED';
 
 /**
  * Error details with context information
@@ -152,6 +169,15 @@ export class PlaybackErrorFactory {
       };
     }
 
+    if (error === 'NOTHING_PLAYING') {
+      return {
+        code: error,
+        message: 'No track is currently playing',
+        context,
+        suggestion: 'Wait for a track to start before controlling playback'
+      };
+    }
+
     // Delegate to specific error factories based on error type
     if (['INVALID_URL', 'EXTRACTION_FAILED', 'NETWORK_ERROR', 'TIMEOUT', 'UNSUPPORTED_SITE', 'STREAM_UNAVAILABLE'].includes(error)) {
       return this.createResolutionError(error as ResolutionError, context);
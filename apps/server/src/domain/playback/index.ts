@@ -7,6 +7,15 @@
 export type {
   PlaybackStatus,
   PlaybackState,
+  SeekMode,
+  TransitionMode,
+  TransitionSettings,
+  VolumeSettings,
+  VolumeState,
+  VolumeListener,
+  PrefetchStatus,
+  PrefetchStatuses,
+  PrefetchListener,
   ResolvedStream,
   ResolutionCache,
   YtDlpOptions,
@@ -14,9 +23,12 @@ export type {
   MPVCommand,
   MPVResponse,
   PlaybackEventType,
+  TrackOutcome,
   PlaybackEvent,
   PlaybackEventListener,
-  IPCEventListener
+  IPCEventListener,
+  SkipVoteTally,
+  SkipVoteListener
 } from './types';
 
 // Error types
@@ -25,6 +37,8 @@ export type {
   PlaybackError,
   ProcessError,
   OrchestrationError,
+  SkipVoteError,
+  VolumeError,
   PlaybackErrorDetails
 } from './errors';
 
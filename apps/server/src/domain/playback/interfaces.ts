@@ -5,12 +5,15 @@
  */
 
 import { Result } from '@party-jukebox/shared';
-import { QueueItem } from '@party-jukebox/shared';
+import { QueueItem, Track } from '@party-jukebox/shared';
 import { ChildProcess } from 'child_process';
 import {
   PlaybackState,
+  SeekMode,
   ResolvedStream,
   YtDlpOptions,
+  YtDlpMetadataOptions,
+  YtDlpMetadata,
   MpvOptions,
   MPVCommand,
   MPVResponse,
@@ -35,6 +38,12 @@ export interface IStreamResolver {
    */
   resolveStream(youtubeUrl: string): Promise<Result<ResolvedStream, ResolutionError>>;
 
+  /**
+   * Resolve a track of any configured source to a playable stream
+   * Requirements: 20.4
+   */
+  resolveTrack(track: Track): Promise<Result<ResolvedStream, ResolutionError>>;
+
   /**
    * Validate that a stream URL is accessible
    * Requirements: 1.5
@@ -46,6 +55,30 @@ export interface IStreamResolver {
    * Requirements: 6.1
    */
   clearCache(): void;
+
+  /**
+   * Resolve a URL again even if it is cached
+   * Requirements: 18.3
+   */
+  refreshStream?(youtubeUrl: string): Promise<Result<ResolvedStream, ResolutionError>>;
+
+  /**
+   * Get the cached URLs whose streams expire within the given time
+   * Requirements: 18.3
+   */
+  getExpiringUrls?(withinMs: number): string[];
+
+  /**
+   * Resolve a track again even if its stream is cached
+   * Requirements: 18.3, 20.4
+   */
+  refreshTrack?(track: Track): Promise<Result<ResolvedStream, ResolutionError>>;
+
+  /**
+   * Whether a track's cached stream expires within the given time
+   * Requirements: 18.3, 20.4
+   */
+  isTrackExpiring?(track: Track, withinMs: number): boolean;
 }
 
 /**
@@ -55,9 +88,10 @@ export interface IStreamResolver {
 export interface IPlaybackController {
   /**
    * Load and start playing a stream URL
-   * Requirements: 2.1
+   * An optional start position (seconds) resumes mid-track
+   * Requirements: 2.1, 8.3
    */
-  loadAndPlay(streamUrl: string): Promise<Result<void, PlaybackError>>;
+  loadAndPlay(streamUrl: string, startPosition?: number): Promise<Result<void, PlaybackError>>;
 
   /**
    * Pause current playback
@@ -71,6 +105,12 @@ export interface IPlaybackController {
    */
   resume(): Promise<Result<void, PlaybackError>>;
 
+  /**
+   * Seek within the loaded track, to a position or by an offset in seconds
+   * Requirements: 15.1
+   */
+  seek(seconds: number, mode?: SeekMode): Promise<Result<void, PlaybackError>>;
+
   /**
    * Stop current playback
    * Requirements: 2.3
@@ -83,6 +123,18 @@ export interface IPlaybackController {
    */
   setVolume?(level: number): Promise<Result<void, PlaybackError>>;
 
+  /**
+   * Queue a stream to start as soon as the current one ends, replacing any earlier preload
+   * Requirements: 17.2
+   */
+  preloadNext?(streamUrl: string): Promise<Result<void, PlaybackError>>;
+
+  /**
+   * Drop the preloaded stream so playback stops after the current one
+   * Requirements: 17.2
+   */
+  clearPreloaded?(): Promise<void>;
+
   /**
    * Get current playback position in seconds
    * Requirements: 2.6
@@ -189,6 +241,12 @@ export interface IProcessManager {
    */
   runYtDlp(url: string, options: YtDlpOptions): Promise<Result<ResolvedStream, ProcessError>>;
 
+  /**
+   * Run yt-dlp to read video, playlist or search metadata
+   * Requirements: 22.1
+   */
+  runYtDlpJson(targets: string[], options: YtDlpMetadataOptions): Promise<Result<YtDlpMetadata[], ProcessError>>;
+
   /**
    * Check if a process is healthy and responsive
    * Requirements: 2.7, 5.3, 7.2, 7.3
@@ -237,6 +295,12 @@ export interface IPlaybackOrchestrator {
    */
   resume(): Promise<Result<void, OrchestrationError>>;
 
+  /**
+   * Seek within the current track, to a position or by an offset in seconds
+   * Requirements: 15.1, 15.2
+   */
+  seek(seconds: number, mode?: SeekMode): Promise<Result<void, OrchestrationError>>;
+
   /**
    * Skip to next track
    * Requirements: 3.2, 3.3, 5.1, 5.2
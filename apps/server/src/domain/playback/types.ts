@@ -13,6 +13,29 @@ import { PlaybackError } from './errors';
  */
 export type PlaybackStatus = 'idle' | 'resolving' | 'playing' | 'paused' | 'error';
 
+/**
+ * How a seek target is interpreted: a position in the track, or an offset from the current position
+ * Requirements: 15.1
+ */
+export type SeekMode = 'absolute' | 'relative';
+
+/**
+ * How one track hands over to the next preloaded track
+ * gapless joins them directly; crossfade fades the old track out to the join and the new one in after it
+ * (mpv plays one stream at a time, so the two never overlap)
+ * Requirements: 17.2, 17.3
+ */
+export type TransitionMode = 'gapless' | 'crossfade';
+
+/**
+ * Track transition configuration
+ * Requirements: 17.3
+ */
+export interface TransitionSettings {
+  readonly mode: TransitionMode;
+  readonly crossfadeSeconds: number;
+}
+
 /**
  * Current playback state
  * Requirements: 4.1, 4.2, 4.3, 4.4, 4.6
@@ -26,6 +49,47 @@ export interface PlaybackState {
   readonly error?: PlaybackError;
 }
 
+/**
+ * Volume preferences that persist across tracks and restarts
+ * Requirements: 16.1, 16.2, 16.3, 16.4
+ */
+export interface VolumeSettings {
+  readonly level: number; // 0-100, never above maxVolume
+  readonly muted: boolean;
+  readonly maxVolume: number; // 0-100 cap set by the host
+}
+
+/**
+ * Volume settings plus the temporary duck and the level sent to the player
+ * Requirements: 16.1, 16.5
+ */
+export interface VolumeState extends VolumeSettings {
+  readonly ducked: boolean;
+  readonly effectiveVolume: number; // 0-100
+}
+
+/**
+ * Volume state listener function type
+ */
+export type VolumeListener = (state: VolumeState) => void;
+
+/**
+ * Whether an upcoming queue item's stream has been resolved ahead of time
+ * Requirements: 18.4
+ */
+export type PrefetchStatus = 'resolving' | 'ready' | 'failed';
+
+/**
+ * Prefetch status of each upcoming queue item being prefetched, by queue item id
+ * Requirements: 18.4
+ */
+export type PrefetchStatuses = Readonly<Record<string, PrefetchStatus>>;
+
+/**
+ * Prefetch status listener function type
+ */
+export type PrefetchListener = (statuses: PrefetchStatuses) => void;
+
 /**
  * Resolved stream information from yt-dlp
  * Requirements: 1.1, 1.2, 1.3
@@ -61,6 +125,35 @@ export interface YtDlpOptions {
   readonly retries: number;
 }
 
+/**
+ * yt-dlp metadata extraction options
+ * Requirements: 22.1
+ */
+export interface YtDlpMetadataOptions {
+  readonly flat: boolean; // List playlist/search entries without visiting each video
+  readonly timeout: number;
+  readonly maxEntries?: number; // Stop a playlist after this many entries
+}
+
+/**
+ * Video metadata as printed by yt-dlp --dump-json
+ * Flat entries only carry some of these fields
+ * Requirements: 22.1
+ */
+export interface YtDlpMetadata {
+  readonly id: string;
+  readonly title?: string;
+  readonly duration?: number | null; // Seconds
+  readonly channel?: string | null;
+  readonly channel_id?: string | null;
+  readonly uploader?: string | null;
+  readonly upload_date?: string | null; // YYYYMMDD
+  readonly live_status?: 'not_live' | 'is_live' | 'is_upcoming' | 'was_live' | 'post_live' | null;
+  readonly age_limit?: number | null;
+  readonly categories?: readonly string[] | null; // e.g. ["Music"]
+  readonly thumbnails?: ReadonlyArray<{ readonly url: string; readonly width?: number; readonly height?: number }>;
+}
+
 /**
  * MPV player configuration
  * Requirements: 2.1, 2.2, 2.8
@@ -105,11 +198,21 @@ export type PlaybackEventType =
   | 'track_finished'
   | 'track_failed'
   | 'progress_update'
-  | 'error_occurred';
+  | 'error_occurred'
+  | 'queue_empty';
+
+/**
+ * How a queue item's turn ended
+ * - played: it played to the end
+ * - skipped: it was skipped while playing
+ * - failed: it couldn't be resolved or played
+ * Requirements: 24.1
+ */
+export type TrackOutcome = 'played' | 'skipped' | 'failed';
 
 /**
  * Playback event data
- * Requirements: 2.4, 2.5, 4.2, 4.4, 5.7
+ * Requirements: 2.4, 2.5, 4.2, 4.4, 5.7, 24.1
  */
 export interface PlaybackEvent {
   readonly type: PlaybackEventType;
@@ -119,9 +222,29 @@ export interface PlaybackEvent {
     readonly track?: QueueItem;
     readonly position?: number;
     readonly error?: PlaybackError;
+    readonly preloadStarted?: boolean; // track_finished: the player moved straight on to the preloaded stream
+    readonly outcome?: TrackOutcome; // track_finished/track_failed from the orchestrator: how the track's turn ended
+    readonly playedSeconds?: number; // track_finished/track_failed from the orchestrator: how far the track got
   };
 }
 
+/**
+ * Vote-to-skip tally for the current track
+ * Requirements: 11.1, 11.3
+ */
+export interface SkipVoteTally {
+  readonly queueItemId: string | null;
+  readonly votes: number;
+  readonly required: number;
+  readonly eligibleVoters: number;
+  readonly threshold: number;
+}
+
+/**
+ * Skip vote tally listener function type
+ */
+export type SkipVoteListener = (tally: SkipVoteTally) => void;
+
 /**
  * Event listener function type
  */
@@ -0,0 +1,16 @@
+/**
+ * Error types for playlist imports
+ * Requirements: 23.1
+ */
+
+/**
+ * Playlist import error types
+ * Requirements: 23.1, 23.2
+ */
+export type PlaylistImportError =
+  | 'INVALID_PLAYLIST_URL'
+  | 'PLAYLIST_NOT_FOUND'
+  | 'PLAYLIST_EMPTY'
+  | 'IMPORT_IN_PROGRESS'
+  | 'RATE_LIMIT_EXCEEDED'
+  | 'SERVICE_UNAVAILABLE';
@@ -0,0 +1,14 @@
+/**
+ * Playlist import domain exports
+ * Requirements: 23.1
+ */
+
+export type {
+  PlaylistImportStatus,
+  PlaylistImportProgress,
+  PlaylistImportSkip,
+  PlaylistImportSummary,
+  PlaylistImportListener
+} from './types';
+
+export type { PlaylistImportError } from './errors';
@@ -0,0 +1,57 @@
+/**
+ * Core types for importing playlists into the queue
+ * Requirements: 23.1, 23.2, 23.3
+ */
+
+import { QueueItem, ServiceError, TrackError, TrackSource, User } from '@party-jukebox/shared';
+import { PlaylistImportError } from './errors';
+
+/**
+ * Import stages: the playlist is listed first, then its tracks are queued
+ * Requirements: 23.3
+ */
+export type PlaylistImportStatus = 'listing' | 'adding' | 'completed' | 'failed';
+
+/**
+ * Progress of a running import
+ * Requirements: 23.3
+ */
+export interface PlaylistImportProgress {
+  readonly importId: string;
+  readonly source: TrackSource;
+  readonly playlistId: string;
+  readonly requestedBy: User;
+  readonly status: PlaylistImportStatus;
+  readonly total: number; // Playable tracks found, known once listing is done
+  readonly added: number;
+  readonly skipped: number;
+  readonly error?: PlaylistImportError;
+}
+
+/**
+ * A playlist track that wasn't queued, and why
+ * Requirements: 23.2
+ */
+export interface PlaylistImportSkip {
+  readonly sourceId: string;
+  readonly title: string;
+  readonly reason: ServiceError | TrackError;
+}
+
+/**
+ * Outcome of a finished import
+ * Requirements: 23.2
+ */
+export interface PlaylistImportSummary {
+  readonly importId: string;
+  readonly source: TrackSource;
+  readonly playlistId: string;
+  readonly added: QueueItem[];
+  readonly skipped: PlaylistImportSkip[];
+  readonly unavailable: number; // Deleted, private or unplayable entries
+}
+
+/**
+ * Playlist import progress listener function type
+ */
+export type PlaylistImportListener = (progress: PlaylistImportProgress) => void;
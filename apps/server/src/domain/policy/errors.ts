@@ -0,0 +1,13 @@
+/**
+ * Error types for the content policy
+ * Requirements: 26.1
+ */
+
+/**
+ * Content policy error types
+ * - DETAILS_UNAVAILABLE: a rule needs facts only the source can vouch for
+ *   (duration, live status...) and the source couldn't be asked right now
+ * Requirements: 26.1
+ */
+export type ContentPolicyError =
+  | 'DETAILS_UNAVAILABLE';
@@ -0,0 +1,8 @@
+/**
+ * Content policy domain exports
+ * Requirements: 26.1
+ */
+
+export type { ContentPolicyRule, ContentPolicySettings, ContentPolicyViolation } from './types';
+
+export type { ContentPolicyError } from './errors';
@@ -0,0 +1,51 @@
+/**
+ * Core types for the content policy on track requests
+ * Requirements: 26.1, 26.2, 26.3
+ */
+
+/**
+ * A content rule a track can break
+ * - max_duration / min_duration: too long (e.g. a 10-hour loop) or too short
+ * - live_stream: a live stream or upcoming premiere
+ * - blocked_keyword: a blocked word in the title, artist or channel
+ * - blocked_channel: uploaded by a blocked channel
+ * - blocked_video: a blocked video
+ * - age_restricted: age-restricted on its source
+ * - not_music: not filed under music when only music is allowed
+ * Requirements: 26.1
+ */
+export type ContentPolicyRule =
+  | 'max_duration'
+  | 'min_duration'
+  | 'live_stream'
+  | 'blocked_keyword'
+  | 'blocked_channel'
+  | 'blocked_video'
+  | 'age_restricted'
+  | 'not_music';
+
+/**
+ * Host-configurable content rules
+ * Requirements: 26.1, 26.2
+ */
+export interface ContentPolicySettings {
+  readonly maxDurationSeconds: number | null; // null: no limit
+  readonly minDurationSeconds: number | null; // null: no limit
+  readonly blockLiveStreams: boolean;
+  readonly blockedKeywords: readonly string[]; // Matched as whole words, ignoring case and accents
+  readonly blockedChannels: readonly string[]; // Channel IDs or names
+  readonly blockedVideoIds: readonly string[];
+  readonly blockAgeRestricted: boolean;
+  readonly musicOnly: boolean;
+}
+
+/**
+ * The rule a track broke, for the guest who requested it
+ * Requirements: 26.3
+ */
+export interface ContentPolicyViolation {
+  readonly rule: ContentPolicyRule;
+  readonly message: string;
+  readonly limit?: number; // Duration rules: the limit in seconds
+  readonly match?: string; // Blocklist rules: the entry that matched
+}
@@ -0,0 +1,14 @@
+/**
+ * Error types for rate limiting policies
+ * Requirements: 27.2
+ */
+
+/**
+ * Rate limit settings error types
+ * Requirements: 27.2
+ */
+export type RateLimitSettingsError =
+  | 'INVALID_WINDOW'
+  | 'INVALID_ROLE'
+  | 'INVALID_LIMIT'
+  | 'INVALID_VIP_LIST';
@@ -0,0 +1,9 @@
+/**
+ * Rate limiting domain exports
+ * Requirements: 27.1
+ */
+
+export type { RateLimitRole, RoleRateLimit, RateLimitSettings, RateLimitSettingsUpdate } from './types';
+export { RATE_LIMIT_ROLES } from './types';
+
+export type { RateLimitSettingsError } from './errors';
@@ -0,0 +1,48 @@
+/**
+ * Core types for rate limiting policies
+ * Requirements: 27.1, 27.2, 27.3
+ */
+
+/**
+ * Who a limit applies to
+ * - guest: everyone by default
+ * - vip: guests the host put on the VIP list
+ * - host: requests made with a host token
+ * Requirements: 27.1
+ */
+export type RateLimitRole = 'guest' | 'vip' | 'host';
+
+/**
+ * All rate limit roles
+ * Requirements: 27.1
+ */
+export const RATE_LIMIT_ROLES: readonly RateLimitRole[] = ['guest', 'vip', 'host'];
+
+/**
+ * Limits for one role within each window
+ * Requirements: 27.1, 27.2
+ */
+export interface RoleRateLimit {
+  readonly maxRequests: number | null; // null: unlimited
+  readonly maxMinutes: number | null; // Minutes of music; null: no budget
+}
+
+/**
+ * Host-configurable rate limiting policy
+ * Requirements: 27.1, 27.2
+ */
+export interface RateLimitSettings {
+  readonly windowMinutes: number;
+  readonly roles: Readonly<Record<RateLimitRole, RoleRateLimit>>;
+  readonly vipUserIds: readonly string[];
+}
+
+/**
+ * A change to the policy - omitted fields are left unchanged
+ * Requirements: 27.2
+ */
+export interface RateLimitSettingsUpdate {
+  readonly windowMinutes?: number;
+  readonly roles?: Partial<Record<RateLimitRole, Partial<RoleRateLimit>>>;
+  readonly vipUserIds?: readonly string[];
+}
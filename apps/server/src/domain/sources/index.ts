@@ -0,0 +1,13 @@
+/**
+ * Track source domain exports
+ * Requirements: 20.1
+ */
+
+export type {
+  SourceSearchRequest,
+  SourceSearchPage,
+  SourcePlaylist,
+  PlaylistReference,
+  TrackSourceProvider,
+  ITrackSourceRegistry
+} from './types';
@@ -0,0 +1,129 @@
+/**
+ * Core types for pluggable track sources
+ * Each source (YouTube, the local library, plain HTTP streams, SoundCloud, ...)
+ * plugs in through a provider instead of being special-cased across the app
+ * Requirements: 20.1, 20.2, 20.3, 20.4, 23.1
+ */
+
+import { Result, SearchResult, Track, TrackCreateData, TrackError, TrackSource } from '@party-jukebox/shared';
+import { ResolvedStream } from '../playback/types';
+import { ResolutionError } from '../playback/errors';
+
+/**
+ * One page of search results request for a single source
+ * Requirements: 20.3
+ */
+export interface SourceSearchRequest {
+  readonly query: string;
+  readonly limit: number;
+  readonly pageToken?: string | undefined; // Token this provider returned for an earlier page
+}
+
+/**
+ * One page of search results from a single source
+ * Requirements: 20.3
+ */
+export interface SourceSearchPage {
+  readonly results: SearchResult[];
+  readonly totalResults: number;
+  readonly nextPageToken?: string | undefined;
+  readonly prevPageToken?: string | undefined;
+}
+
+/**
+ * The playable entries of a playlist, in playlist order
+ * Requirements: 23.1
+ */
+export interface SourcePlaylist {
+  readonly results: SearchResult[];
+  readonly totalEntries: number; // Entries listed, including unplayable ones left out of results
+}
+
+/**
+ * A playlist URL recognised by one of the sources
+ * Requirements: 23.1
+ */
+export interface PlaylistReference {
+  readonly source: TrackSource;
+  readonly playlistId: string;
+}
+
+/**
+ * A source of playable tracks
+ * Requirements: 20.1, 20.2, 20.3, 20.4, 23.1
+ */
+export interface TrackSourceProvider {
+  readonly source: TrackSource;
+
+  /**
+   * Page URLs of this source that the shared StreamResolver may hand to yt-dlp
+   */
+  readonly extractorUrlPattern?: RegExp;
+
+  /**
+   * Whether an identifier has this source's format
+   */
+  validateSourceId(sourceId: string): boolean;
+
+  /**
+   * Canonical location of the track: a web page, stream URL or file path
+   * Providers backed by yt-dlp resolve this URL through the shared StreamResolver,
+   * so its cache and refreshes apply to them. Null if the source doesn't know the track
+   */
+  getTrackUrl(sourceId: string): string | null;
+
+  /**
+   * Thumbnail to show when the requester didn't send one
+   */
+  getThumbnailUrl(sourceId: string): string | undefined;
+
+  /**
+   * Resolve the track to something mpv can play
+   */
+  resolveStream(sourceId: string): Promise<Result<ResolvedStream, ResolutionError>>;
+
+  /**
+   * Search this source; throws if the source can't be reached
+   */
+  search?(request: SourceSearchRequest): Promise<SourceSearchPage>;
+
+  /**
+   * Music related to a track of this source; throws if the source can't be reached
+   */
+  getRelated?(sourceId: string, limit: number): Promise<SearchResult[]>;
+
+  /**
+   * Playable details for known identifiers, in the requested order; throws if the source can't be reached
+   */
+  lookup?(sourceIds: string[]): Promise<SearchResult[]>;
+
+  /**
+   * Authoritative metadata for sources that know their tracks (e.g. the local library)
+   * Returns null for identifiers the source doesn't have
+   */
+  getTrackData?(sourceId: string): TrackCreateData | null;
+
+  /**
+   * The playlist ID in one of this source's playlist URLs, or null if it isn't one
+   */
+  parsePlaylistUrl?(url: string): string | null;
+
+  /**
+   * Up to `limit` playable entries of a playlist; throws if the source can't be reached
+   */
+  getPlaylist?(playlistId: string, limit: number): Promise<SourcePlaylist>;
+}
+
+/**
+ * Registry of the configured track sources
+ * Requirements: 20.1, 20.2
+ */
+export interface ITrackSourceRegistry {
+  register(provider: TrackSourceProvider): void;
+  get(source: TrackSource): TrackSourceProvider | null;
+  getSearchable(): TrackSourceProvider[];
+  getTrackUrl(track: Track): string | null;
+  isExtractorUrl(url: string): boolean;
+  createTrack(data: TrackCreateData): Result<Track, TrackError>;
+  parsePlaylistUrl(url: string): PlaylistReference | null;
+}
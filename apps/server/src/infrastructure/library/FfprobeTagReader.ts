@@ -0,0 +1,137 @@
+/**
+ * FfprobeTagReader - Reads audio tags and cover art with ffprobe/ffmpeg
+ * Handles any container ffmpeg understands (MP3, FLAC, Ogg, M4A, ...),
+ * so the library doesn't need a tag parser per format
+ * Requirements: 19.2
+ */
+
+import { spawn } from 'child_process';
+import { AudioTags, ITagReader } from '../../domain/library/types';
+
+/**
+ * Subset of `ffprobe -print_format json -show_format -show_streams` output we use
+ */
+interface ProbeOutput {
+  format?: {
+    duration?: string;
+    tags?: Record<string, string>;
+  };
+  streams?: Array<{
+    codec_type?: string;
+    codec_name?: string;
+    disposition?: { attached_pic?: number };
+    tags?: Record<string, string>;
+  }>;
+}
+
+const PROBE_TIMEOUT_MS = 10 * 1000;
+const MAX_ART_BYTES = 10 * 1024 * 1024;
+
+export class FfprobeTagReader implements ITagReader {
+  /**
+   * Read title, artist, album, duration and whether the file carries cover art
+   * Returns null if the file can't be probed
+   * Requirements: 19.2
+   */
+  async readTags(path: string): Promise<AudioTags | null> {
+    const output = await this.run('ffprobe', [
+      '-v', 'error',
+      '-print_format', 'json',
+      '-show_format',
+      '-show_streams',
+      path
+    ]);
+    if (!output) {
+      return null;
+    }
+
+    let probe: ProbeOutput;
+    try {
+      probe = JSON.parse(output.toString('utf8')) as ProbeOutput;
+    } catch {
+      return null;
+    }
+
+    // Vorbis comments (Ogg/Opus) live on the audio stream rather than the container
+    const audioStream = probe.streams?.find(stream => stream.codec_type === 'audio');
+    const tags = this.normalizeTags({ ...audioStream?.tags, ...probe.format?.tags });
+    const artStream = probe.streams?.find(stream => stream.disposition?.attached_pic === 1);
+    const duration = Math.round(Number(probe.format?.duration));
+
+    return {
+      duration: Number.isFinite(duration) && duration > 0 ? duration : 0,
+      ...(tags.title && { title: tags.title }),
+      ...((tags.artist || tags.album_artist) && { artist: tags.artist || tags.album_artist }),
+      ...(tags.album && { album: tags.album }),
+      ...(artStream?.codec_name && { artCodec: artStream.codec_name })
+    };
+  }
+
+  /**
+   * Extract the embedded cover art as it is stored in the file
+   * Requirements: 19.2
+   */
+  async readCoverArt(path: string): Promise<Buffer | null> {
+    const output = await this.run('ffmpeg', [
+      '-v', 'error',
+      '-i', path,
+      '-an',
+      '-map', '0:v:0',
+      '-c:v', 'copy',
+      '-f', 'image2pipe',
+      '-'
+    ]);
+    return output && output.length > 0 ? output : null;
+  }
+
+  /**
+   * Tag keys differ in case between formats (TITLE, Title, title)
+   */
+  private normalizeTags(tags: Record<string, string>): Record<string, string> {
+    const normalized: Record<string, string> = {};
+    for (const [key, value] of Object.entries(tags)) {
+      const trimmed = typeof value === 'string' ? value.trim() : '';
+      if (trimmed) {
+        normalized[key.toLowerCase()] = trimmed;
+      }
+    }
+    return normalized;
+  }
+
+  /**
+   * Run a command and collect its stdout, or null if it fails, times out or says too much
+   */
+  private run(command: string, args: string[]): Promise<Buffer | null> {
+    return new Promise((resolve) => {
+      const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'ignore'] });
+      const chunks: Buffer[] = [];
+      let size = 0;
+      let settled = false;
+
+      const finish = (result: Buffer | null) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        resolve(result);
+      };
+
+      const timer = setTimeout(() => {
+        child.kill('SIGKILL');
+        finish(null);
+      }, PROBE_TIMEOUT_MS);
+
+      child.stdout?.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_ART_BYTES) {
+          child.kill('SIGKILL');
+          finish(null);
+          return;
+        }
+        chunks.push(chunk);
+      });
+
+      child.on('close', (code) => finish(code === 0 ? Buffer.concat(chunks) : null));
+      child.on('error', () => finish(null));
+    });
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * LocalSourceProvider - The host's music library as a track source
+ * Track metadata always comes from the index, so guests can't change it
+ * Requirements: 19.3, 19.4, 20.1, 20.2
+ */
+
+import { Result, SearchResult, TrackCreateData } from '@party-jukebox/shared';
+import { ResolvedStream } from '../../domain/playback/types';
+import { ResolutionError } from '../../domain/playback/errors';
+import { SourceSearchPage, SourceSearchRequest, TrackSourceProvider } from '../../domain/sources/types';
+import { ILocalLibraryService } from '../../application/LocalLibraryService';
+
+const LIBRARY_ID_PATTERN = /^[a-f0-9]{16}$/;
+
+export class LocalSourceProvider implements TrackSourceProvider {
+  readonly source = 'local' as const;
+
+  constructor(private readonly library: ILocalLibraryService) {}
+
+  validateSourceId(sourceId: string): boolean {
+    return LIBRARY_ID_PATTERN.test(sourceId);
+  }
+
+  getTrackUrl(sourceId: string): string | null {
+    return this.library.getTrack(sourceId)?.path ?? null;
+  }
+
+  getThumbnailUrl(sourceId: string): string | undefined {
+    return this.library.getCoverArtUrl(sourceId);
+  }
+
+  async resolveStream(sourceId: string): Promise<Result<ResolvedStream, ResolutionError>> {
+    const result = await this.library.resolveStream(sourceId);
+    return result.success ? result : { success: false, error: 'STREAM_UNAVAILABLE' };
+  }
+
+  /**
+   * The library is searched in one go, so there is only ever one page
+   * Requirements: 19.3
+   */
+  async search(request: SourceSearchRequest): Promise<SourceSearchPage> {
+    const results: SearchResult[] = request.pageToken ? [] : this.library.search(request.query, request.limit);
+    return { results, totalResults: results.length };
+  }
+
+  getTrackData(sourceId: string): TrackCreateData | null {
+    const libraryTrack = this.library.getTrack(sourceId);
+    if (!libraryTrack) {
+      return null;
+    }
+
+    const thumbnailUrl = this.getThumbnailUrl(sourceId);
+    return {
+      title: libraryTrack.title,
+      artist: libraryTrack.artist,
+      source: this.source,
+      sourceId,
+      duration: libraryTrack.duration,
+      ...(thumbnailUrl && { thumbnailUrl })
+    };
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * Local library infrastructure exports
+ * Requirements: 19.2, 20.1
+ */
+
+export { FfprobeTagReader } from './FfprobeTagReader';
+export { LocalSourceProvider } from './LocalSourceProvider';
@@ -0,0 +1,159 @@
+/**
+ * JsonFileStateStore - Default file-backed session snapshot store
+ * Writes snapshots atomically (temp file + rename) so a crash mid-write
+ * never leaves a truncated snapshot behind
+ * Requirements: 8.1, 8.2, 8.4, 20.1
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { QueueItem, Result, Track, TrackSource } from '@party-jukebox/shared';
+import { IStateStore } from '../../domain/persistence/interfaces';
+import { SessionSnapshot, SESSION_SNAPSHOT_VERSION } from '../../domain/persistence/types';
+import { PersistenceError } from '../../domain/persistence/errors';
+
+/**
+ * Snapshot fields that hold dates and must be revived after JSON parsing
+ */
+const DATE_FIELDS = new Set(['savedAt', 'addedAt', 'timestamp', 'windowStart', 'joinedAt']);
+
+/**
+ * JSON file state store configuration
+ */
+export interface JsonFileStateStoreConfig {
+  filePath: string;
+}
+
+/**
+ * JSON file implementation of the state store
+ * Requirements: 8.1, 8.2, 8.4
+ */
+export class JsonFileStateStore implements IStateStore {
+  private readonly filePath: string;
+
+  constructor(config: JsonFileStateStoreConfig) {
+    this.filePath = path.resolve(config.filePath);
+  }
+
+  /**
+   * Load the persisted snapshot from disk
+   * Requirements: 8.2
+   */
+  async load(): Promise<Result<SessionSnapshot | null, PersistenceError>> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { success: true, value: null };
+      }
+      console.error('Failed to read session snapshot:', error);
+      return { success: false, error: 'STORE_UNAVAILABLE' };
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw, (key, value) =>
+        DATE_FIELDS.has(key) && typeof value === 'string' ? new Date(value) : value
+      );
+    } catch (error) {
+      console.error('Session snapshot is not valid JSON:', error);
+      return { success: false, error: 'SNAPSHOT_CORRUPT' };
+    }
+
+    if (!this.isSnapshot(parsed)) {
+      return { success: false, error: 'SNAPSHOT_CORRUPT' };
+    }
+
+    const snapshot = parsed.version === 1 ? this.migrateFromV1(parsed) : parsed;
+    if (snapshot.version !== SESSION_SNAPSHOT_VERSION) {
+      return { success: false, error: 'UNSUPPORTED_VERSION' };
+    }
+
+    return { success: true, value: snapshot };
+  }
+
+  /**
+   * Write the snapshot to disk atomically
+   * Requirements: 8.1
+   */
+  async save(snapshot: SessionSnapshot): Promise<Result<void, PersistenceError>> {
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    try {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(snapshot), 'utf8');
+      await fs.rename(tempPath, this.filePath);
+      return { success: true, value: undefined };
+    } catch (error) {
+      console.error('Failed to write session snapshot:', error);
+      await fs.rm(tempPath, { force: true }).catch(() => undefined);
+      return { success: false, error: 'WRITE_FAILED' };
+    }
+  }
+
+  /**
+   * Delete the snapshot file if present
+   * Requirements: 8.4
+   */
+  async clear(): Promise<Result<void, PersistenceError>> {
+    try {
+      await fs.rm(this.filePath, { force: true });
+      return { success: true, value: undefined };
+    } catch (error) {
+      console.error('Failed to clear session snapshot:', error);
+      return { success: false, error: 'WRITE_FAILED' };
+    }
+  }
+
+  /**
+   * Get the absolute path of the snapshot file
+   */
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Version 1 tracks were YouTube videos (or library files marked source: 'local')
+   * identified by videoId
+   * Requirements: 8.2, 20.1
+   */
+  private migrateFromV1(snapshot: SessionSnapshot): SessionSnapshot {
+    const migrateItem = (item: QueueItem): QueueItem => {
+      const { videoId, ...track } = item.track as Track & { videoId?: string; source?: TrackSource };
+      return {
+        ...item,
+        track: { ...track, source: track.source ?? 'youtube', sourceId: track.sourceId ?? videoId ?? '' }
+      };
+    };
+
+    return {
+      ...snapshot,
+      version: SESSION_SNAPSHOT_VERSION,
+      queue: {
+        ...snapshot.queue,
+        currentTrack: snapshot.queue.currentTrack ? migrateItem(snapshot.queue.currentTrack) : null,
+        upcomingTracks: snapshot.queue.upcomingTracks.map(migrateItem)
+      }
+    };
+  }
+
+  /**
+   * Structural check of a parsed snapshot
+   */
+  private isSnapshot(value: unknown): value is SessionSnapshot {
+    if (!value || typeof value !== 'object') {
+      return false;
+    }
+
+    const candidate = value as Partial<SessionSnapshot>;
+    return (
+      typeof candidate.version === 'number' &&
+      !!candidate.queue &&
+      Array.isArray(candidate.queue.upcomingTracks) &&
+      !!candidate.rateLimits &&
+      Array.isArray(candidate.rateLimits.users) &&
+      !!candidate.playback &&
+      typeof candidate.playback.position === 'number'
+    );
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * JsonLinesHistoryStore - Default file-backed play history store
+ * Keeps one JSON entry per line, so recording a track is a single append
+ * and a line cut short by a crash only loses that entry
+ * Requirements: 24.1
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Result } from '@party-jukebox/shared';
+import { IHistoryStore } from '../../domain/history/interfaces';
+import { HistoryEntry } from '../../domain/history/types';
+import { HistoryError } from '../../domain/history/errors';
+
+/**
+ * Entry fields that hold dates and must be revived after JSON parsing
+ */
+const DATE_FIELDS = new Set(['addedAt', 'startedAt', 'endedAt']);
+
+/**
+ * JSON lines history store configuration
+ */
+export interface JsonLinesHistoryStoreConfig {
+  filePath: string;
+}
+
+/**
+ * JSON lines implementation of the history store
+ * Requirements: 24.1
+ */
+export class JsonLinesHistoryStore implements IHistoryStore {
+  private readonly filePath: string;
+
+  constructor(config: JsonLinesHistoryStoreConfig) {
+    this.filePath = path.resolve(config.filePath);
+  }
+
+  /**
+   * Load the log from disk, skipping lines that can't be read
+   * Requirements: 24.1
+   */
+  async load(): Promise<Result<HistoryEntry[], HistoryError>> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { success: true, value: [] };
+      }
+      console.error('Failed to read play history:', error);
+      return { success: false, error: 'STORE_UNAVAILABLE' };
+    }
+
+    const entries: HistoryEntry[] = [];
+    let skipped = 0;
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      const entry = this.parseLine(line);
+      if (entry) {
+        entries.push(entry);
+      } else {
+        skipped++;
+      }
+    }
+
+    if (skipped > 0) {
+      console.warn(`⚠️ Skipped ${skipped} unreadable play history line(s) in ${this.filePath}`);
+    }
+    return { success: true, value: entries };
+  }
+
+  /**
+   * Append an entry to the log
+   * Requirements: 24.1
+   */
+  async append(entry: HistoryEntry): Promise<Result<void, HistoryError>> {
+    try {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.appendFile(this.filePath, `${JSON.stringify(entry)}\n`, 'utf8');
+      return { success: true, value: undefined };
+    } catch (error) {
+      console.error('Failed to write play history:', error);
+      return { success: false, error: 'WRITE_FAILED' };
+    }
+  }
+
+  /**
+   * Rewrite the log atomically (temp file + rename)
+   * Requirements: 24.1
+   */
+  async replace(entries: HistoryEntry[]): Promise<Result<void, HistoryError>> {
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    try {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tempPath, entries.map(entry => `${JSON.stringify(entry)}\n`).join(''), 'utf8');
+      await fs.rename(tempPath, this.filePath);
+      return { success: true, value: undefined };
+    } catch (error) {
+      console.error('Failed to rewrite play history:', error);
+      await fs.rm(tempPath, { force: true }).catch(() => undefined);
+      return { success: false, error: 'WRITE_FAILED' };
+    }
+  }
+
+  /**
+   * Get the absolute path of the history file
+   */
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  private parseLine(line: string): HistoryEntry | null {
+    try {
+      const parsed: unknown = JSON.parse(line, (key, value) =>
+        DATE_FIELDS.has(key) && typeof value === 'string' ? new Date(value) : value
+      );
+      return this.isEntry(parsed) ? parsed : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Structural check of a parsed entry
+   */
+  private isEntry(value: unknown): value is HistoryEntry {
+    if (!value || typeof value !== 'object') {
+      return false;
+    }
+
+    const candidate = value as Partial<HistoryEntry>;
+    return (
+      typeof candidate.id === 'string' &&
+      typeof candidate.queueItemId === 'string' &&
+      !!candidate.track &&
+      typeof candidate.track.sourceId === 'string' &&
+      !!candidate.requestedBy &&
+      candidate.endedAt instanceof Date &&
+      !isNaN(candidate.endedAt.getTime()) &&
+      typeof candidate.playedSeconds === 'number' &&
+      typeof candidate.outcome === 'string'
+    );
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * Persistence infrastructure exports
+ * Requirements: 8.1, 8.2, 24.1
+ */
+
+export { JsonFileStateStore } from './JsonFileStateStore';
+export type { JsonFileStateStoreConfig } from './JsonFileStateStore';
+
+export { JsonLinesHistoryStore } from './JsonLinesHistoryStore';
+export type { JsonLinesHistoryStoreConfig } from './JsonLinesHistoryStore';
@@ -13,10 +13,16 @@ import {
   MPVCommand, 
   MPVResponse,
   MpvOptions,
-  PlaybackState 
+  PlaybackState,
+  SeekMode,
+  TransitionSettings
 } from '../../domain/playback/types';
 import { PlaybackError } from '../../domain/playback/errors';
 
+const DEFAULT_TRANSITION: TransitionSettings = { mode: 'gapless', crossfadeSeconds: 4 };
+const MAX_CROSSFADE_SECONDS = 15;
+const FADE_STEP_MS = 100;
+
 /**
  * PlaybackController implementation for controlling MPV via IPC
  * Requirements: 2.1, 2.3, 2.4, 2.5, 2.6, 2.7, 2.8
@@ -33,6 +39,11 @@ export class PlaybackController extends EventEmitter implements IPlaybackControl
   private healthCheckInterval: NodeJS.Timeout | null = null;
   private readonly socketPath = '/tmp/mpv-socket';
   private currentTrackId: string | null = null; // Add track ID to prevent stale end events
+  private hasStartOverride = false; // MPV 'start' option persists across loadfile calls
+  private readonly transition: TransitionSettings;
+  private preloadedStreamUrl: string | null = null; // Appended to MPV's playlist behind the current stream
+  private fadeTimer: NodeJS.Timeout | null = null;
+  private fadeDirection: 'in' | 'out' | null = null;
 
   // Configuration for MPV process
   // Requirements: 2.1, 2.2, 2.8
@@ -45,20 +56,29 @@ export class PlaybackController extends EventEmitter implements IPlaybackControl
     inputIpcServer: this.socketPath
   };
 
-  constructor(ipcClient: IIPCClient, processManager: IProcessManager) {
+  constructor(ipcClient: IIPCClient, processManager: IProcessManager, transition: Partial<TransitionSettings> = {}) {
     super();
     this.ipcClient = ipcClient;
     this.processManager = processManager;
+
+    // Requirements: 17.3
+    const crossfadeSeconds = transition.crossfadeSeconds;
+    this.transition = {
+      mode: transition.mode ?? DEFAULT_TRANSITION.mode,
+      crossfadeSeconds: typeof crossfadeSeconds === 'number' && crossfadeSeconds > 0
+        ? Math.min(crossfadeSeconds, MAX_CROSSFADE_SECONDS)
+        : DEFAULT_TRANSITION.crossfadeSeconds
+    };
     
     // Set up IPC event handling
     this.setupIPCEventHandlers();
   }
 
   /**
-   * Load and start playing a stream URL
-   * Requirements: 2.1
+   * Load and start playing a stream URL, optionally from a start position in seconds
+   * Requirements: 2.1, 8.3
    */
-  async loadAndPlay(streamUrl: string): Promise<Result<void, PlaybackError>> {
+  async loadAndPlay(streamUrl: string, startPosition = 0): Promise<Result<void, PlaybackError>> {
     try {
       // Ensure MPV process is running and connected
       // Requirements: 2.1, 2.7, 2.8
@@ -72,6 +92,23 @@ export class PlaybackController extends EventEmitter implements IPlaybackControl
         await this.stop();
       }
 
+      // Loading replaces MPV's whole playlist, including any preloaded stream
+      this.preloadedStreamUrl = null;
+      this.cancelFade();
+
+      // Set or reset the start offset for the file about to be loaded
+      // Requirements: 8.3
+      if (startPosition > 0 || this.hasStartOverride) {
+        const startCommand: MPVCommand = {
+          command: ['set_property', 'start', startPosition > 0 ? String(startPosition) : 'none']
+        };
+        const startResponse = await this.sendCommandWithRetry(startCommand);
+        if (startResponse.error !== 'success') {
+          console.warn('Failed to set start position, playing from beginning:', startResponse.error);
+        }
+        this.hasStartOverride = startPosition > 0 && startResponse.error === 'success';
+      }
+
       // Load the new stream
       const loadCommand: MPVCommand = {
         command: ['loadfile', streamUrl]
@@ -106,7 +143,7 @@ export class PlaybackController extends EventEmitter implements IPlaybackControl
 
       // Update state
       this.currentStreamUrl = streamUrl;
-      this.currentPosition = 0;
+      this.currentPosition = this.hasStartOverride ? startPosition : 0;
       this.currentTrackId = Date.now().toString(); // Generate unique ID for this track
       
       // Wait a small moment to ensure any pending end-file events from previous tracks are processed
@@ -125,11 +162,11 @@ export class PlaybackController extends EventEmitter implements IPlaybackControl
       // Emit track started event
       // Requirements: 2.4, 2.5
       this.emitEvent('track_started', {
-        position: 0,
+        position: this.currentPosition,
         state: {
           status: 'playing',
           currentTrack: null,
-          position: 0,
+          position: this.currentPosition,
           duration: this.currentDuration,
           volume: this.currentVolume
         }
@@ -172,6 +209,8 @@ export class PlaybackController extends EventEmitter implements IPlaybackControl
 
       this.isCurrentlyPlaying = false;
       this.stopPositionTracking();
+      // A fade-out starts again from the remaining time once playback resumes
+      this.cancelFade();
 
       // Emit state change event
       // Requirements: 2.4, 2.5, 4.2
@@ -244,6 +283,62 @@ export class PlaybackController extends EventEmitter implements IPlaybackControl
     }
   }
 
+  /**
+   * Seek within the loaded track
+   * Relative seeks are turned into an absolute target clamped to the track,
+   * so the reported position is right before mpv's next playback-time update
+   * Requirements: 15.1, 15.2
+   */
+  async seek(seconds: number, mode: SeekMode = 'absolute'): Promise<Result<void, PlaybackError>> {
+    try {
+      if (!this.currentStreamUrl) {
+        return { 
+          success: false, 
+          error: 'STREAM_UNAVAILABLE'
+        };
+      }
+
+      const requested = mode === 'relative' ? this.currentPosition + seconds : seconds;
+      const upperBound = this.currentDuration > 0 ? this.currentDuration : Infinity;
+      const target = Math.max(0, Math.min(upperBound, requested));
+
+      const command: MPVCommand = {
+        command: ['seek', target.toString(), 'absolute']
+      };
+
+      const response = await this.sendCommandWithRetry(command);
+      if (response.error !== 'success') {
+        return { 
+          success: false, 
+          error: 'MPV_NOT_RESPONDING'
+        };
+      }
+
+      this.currentPosition = target;
+
+      // Emit state change event
+      // Requirements: 2.4, 15.2
+      this.emitEvent('state_changed', {
+        state: {
+          status: this.isCurrentlyPlaying ? 'playing' : 'paused',
+          currentTrack: null,
+          position: this.currentPosition,
+          duration: this.currentDuration,
+          volume: this.currentVolume
+        }
+      });
+
+      return { success: true, value: undefined };
+
+    } catch (error) {
+      console.error('Seek failed:', error);
+      return { 
+        success: false, 
+        error: 'IPC_COMMUNICATION_FAILED'
+      };
+    }
+  }
+
   /**
    * Stop current playback
    * Requirements: 2.3
@@ -263,13 +358,15 @@ export class PlaybackController extends EventEmitter implements IPlaybackControl
         console.warn('Stop command failed, but continuing cleanup:', response.error);
       }
 
-      // Reset state
+      // Reset state - MPV's stop also clears the preloaded stream
       this.isCurrentlyPlaying = false;
       this.currentStreamUrl = null;
+      this.preloadedStreamUrl = null;
       this.currentPosition = 0;
       this.currentDuration = 0;
       this.currentTrackId = null;
       this.stopPositionTracking();
+      this.cancelFade();
 
       // Emit state change event
       // Requirements: 2.4, 2.5, 4.2
@@ -290,9 +387,11 @@ export class PlaybackController extends EventEmitter implements IPlaybackControl
       // Still reset state even if command failed
       this.isCurrentlyPlaying = false;
       this.currentStreamUrl = null;
+      this.preloadedStreamUrl = null;
       this.currentPosition = 0;
       this.currentDuration = 0;
       this.stopPositionTracking();
+      this.cancelFade(false);
       
       return { 
         success: false, 
@@ -303,13 +402,21 @@ export class PlaybackController extends EventEmitter implements IPlaybackControl
 
   /**
    * Set playback volume (optional - for future admin functionality)
-   * Requirements: 2.3
+   * During a fade only the target changes, so the fade ramps to the new level
+   * instead of jumping to it
+   * Requirements: 2.3, 17.3
    */
   async setVolume(level: number): Promise<Result<void, PlaybackError>> {
     try {
       // Validate volume level
       const volume = Math.max(0, Math.min(100, level));
 
+      if (this.fadeDirection !== null) {
+        this.currentVolume = volume;
+        this.emitVolumeChanged();
+        return { success: true, value: undefined };
+      }
+
       const command: MPVCommand = {
         command: ['set_property', 'volume', volume.toString()]
       };
@@ -323,18 +430,7 @@ export class PlaybackController extends EventEmitter implements IPlaybackControl
       }
 
       this.currentVolume = volume;
-
-      // Emit state change event
-      // Requirements: 2.4, 2.5, 4.2
-      this.emitEvent('state_changed', {
-        state: {
-          status: this.isCurrentlyPlaying ? 'playing' : 'idle',
-          currentTrack: null,
-          position: this.currentPosition,
-          duration: this.currentDuration,
-          volume: this.currentVolume
-        }
-      });
+      this.emitVolumeChanged();
 
       return { success: true, value: undefined };
 
@@ -347,6 +443,80 @@ export class PlaybackController extends EventEmitter implements IPlaybackControl
     }
   }
 
+  /**
+   * Append a stream to MPV's playlist so it starts the moment the current one ends
+   * Only one stream is ever preloaded; a new preload replaces the previous one
+   * Requirements: 17.2
+   */
+  async preloadNext(streamUrl: string): Promise<Result<void, PlaybackError>> {
+    try {
+      if (!this.currentStreamUrl) {
+        return { 
+          success: false, 
+          error: 'STREAM_UNAVAILABLE'
+        };
+      }
+
+      if (this.preloadedStreamUrl) {
+        await this.clearPreloaded();
+      }
+
+      // A resume offset for the current file must not carry over to the next one
+      // Requirements: 8.3
+      if (this.hasStartOverride) {
+        const startResponse = await this.sendCommandWithRetry({ command: ['set_property', 'start', 'none'] });
+        this.hasStartOverride = startResponse.error !== 'success';
+      }
+
+      const command: MPVCommand = {
+        command: ['loadfile', streamUrl, 'append']
+      };
+
+      const response = await this.sendCommandWithRetry(command);
+      if (response.error !== 'success') {
+        console.error('Failed to preload stream:', response.error);
+        return { 
+          success: false, 
+          error: 'STREAM_UNAVAILABLE'
+        };
+      }
+
+      this.preloadedStreamUrl = streamUrl;
+      return { success: true, value: undefined };
+
+    } catch (error) {
+      console.error('Preload failed:', error);
+      return { 
+        success: false, 
+        error: 'IPC_COMMUNICATION_FAILED'
+      };
+    }
+  }
+
+  /**
+   * Remove the preloaded stream from MPV's playlist, leaving the current one playing
+   * Requirements: 17.2
+   */
+  async clearPreloaded(): Promise<void> {
+    if (!this.preloadedStreamUrl) {
+      return;
+    }
+
+    this.preloadedStreamUrl = null;
+    if (this.fadeDirection === 'out') {
+      this.cancelFade();
+    }
+
+    try {
+      const response = await this.sendCommandWithRetry({ command: ['playlist-clear'] });
+      if (response.error !== 'success') {
+        console.warn('Failed to clear preloaded stream:', response.error);
+      }
+    } catch (error) {
+      console.warn('Failed to clear preloaded stream:', error);
+    }
+  }
+
   /**
    * Get current playback position in seconds
    * Requirements: 2.6
@@ -633,6 +803,11 @@ export class PlaybackController extends EventEmitter implements IPlaybackControl
             console.log('MPV end-file event received');
             this.handleTrackEnd();
             break;
+
+          case 'start-file':
+            // MPV moved on to the next playlist entry by itself
+            this.handlePreloadedStart();
+            break;
             
           case 'playback-restart':
             // Track started playing
@@ -773,6 +948,13 @@ export class PlaybackController extends EventEmitter implements IPlaybackControl
    * Requirements: 2.4, 2.5
    */
   private handleTrackEnd(): void {
+    // MPV carries straight on to the preloaded stream, reported by its start-file event
+    // Requirements: 17.2
+    if (this.preloadedStreamUrl) {
+      console.log('Track ended with a stream preloaded, waiting for it to start');
+      return;
+    }
+
     // Prevent multiple track_finished events for the same track
     if (!this.isCurrentlyPlaying) {
       console.log('Track already ended, ignoring duplicate end event');
@@ -806,6 +988,147 @@ export class PlaybackController extends EventEmitter implements IPlaybackControl
     });
   }
 
+  /**
+   * Emit state change event for a new volume
+   * Requirements: 2.4, 2.5, 4.2
+   */
+  private emitVolumeChanged(): void {
+    this.emitEvent('state_changed', {
+      state: {
+        status: this.isCurrentlyPlaying ? 'playing' : this.currentStreamUrl ? 'paused' : 'idle',
+        currentTrack: null,
+        position: this.currentPosition,
+        duration: this.currentDuration,
+        volume: this.currentVolume
+      }
+    });
+  }
+
+  /**
+   * Take over the preloaded stream once MPV has started it
+   * The finished event tells the orchestrator no new stream needs to be loaded
+   * Requirements: 17.2, 17.3
+   */
+  private handlePreloadedStart(): void {
+    // start-file also fires for streams loaded by loadAndPlay, which clears the preload first
+    if (!this.preloadedStreamUrl || !this.currentStreamUrl) {
+      return;
+    }
+
+    console.log('Preloaded stream started, emitting track_finished event');
+    const finishedPosition = this.currentPosition;
+
+    this.currentStreamUrl = this.preloadedStreamUrl;
+    this.preloadedStreamUrl = null;
+    this.currentPosition = 0;
+    this.currentDuration = 0;
+    this.currentTrackId = Date.now().toString();
+    this.isCurrentlyPlaying = true;
+    this.startPositionTracking();
+
+    if (this.transition.mode === 'crossfade') {
+      this.startFade('in', this.transition.crossfadeSeconds);
+    } else {
+      this.cancelFade();
+    }
+
+    this.emitEvent('track_finished', {
+      position: finishedPosition,
+      preloadStarted: true,
+      state: {
+        status: 'playing',
+        currentTrack: null,
+        position: 0,
+        duration: 0,
+        volume: this.currentVolume
+      }
+    });
+  }
+
+  /**
+   * Begin fading out when the end of a track with a preloaded successor is near
+   * Requirements: 17.3
+   */
+  private checkCrossfade(position: number): void {
+    if (
+      this.transition.mode !== 'crossfade' ||
+      !this.preloadedStreamUrl ||
+      this.fadeDirection !== null ||
+      this.currentDuration <= 0
+    ) {
+      return;
+    }
+
+    const remaining = this.currentDuration - position;
+    if (remaining <= this.transition.crossfadeSeconds) {
+      this.startFade('out', Math.max(remaining, FADE_STEP_MS / 1000));
+    }
+  }
+
+  /**
+   * Ramp MPV's volume between silence and the configured level without changing that level
+   * MPV plays one stream at a time, so the tracks never overlap: the "crossfade" mode is a
+   * fade-out to the join followed by a fade-in after it
+   * Requirements: 17.3
+   */
+  private startFade(direction: 'in' | 'out', seconds: number): void {
+    this.cancelFade(false);
+
+    const steps = Math.max(1, Math.round((seconds * 1000) / FADE_STEP_MS));
+    let step = 0;
+    this.fadeDirection = direction;
+    if (direction === 'in') {
+      void this.sendFadeVolume(0);
+    }
+
+    this.fadeTimer = setInterval(() => {
+      step++;
+      const progress = Math.min(1, step / steps);
+      void this.sendFadeVolume(this.currentVolume * (direction === 'in' ? progress : 1 - progress));
+
+      if (step >= steps && this.fadeTimer) {
+        clearInterval(this.fadeTimer);
+        this.fadeTimer = null;
+        // A finished fade-out stays silent until the next stream starts
+        if (direction === 'in') {
+          this.fadeDirection = null;
+        }
+      }
+    }, FADE_STEP_MS);
+  }
+
+  /**
+   * Stop any fade, restoring the configured volume unless told otherwise
+   */
+  private cancelFade(restore = true): void {
+    if (this.fadeTimer) {
+      clearInterval(this.fadeTimer);
+      this.fadeTimer = null;
+    }
+
+    if (this.fadeDirection !== null) {
+      this.fadeDirection = null;
+      if (restore) {
+        void this.sendFadeVolume(this.currentVolume);
+      }
+    }
+  }
+
+  /**
+   * Set MPV's volume for a fade step - best effort, a missed step is corrected by the next
+   */
+  private async sendFadeVolume(volume: number): Promise<void> {
+    if (!this.ipcClient.isConnected()) {
+      return;
+    }
+
+    try {
+      await this.ipcClient.sendCommand({ command: ['set_property', 'volume', volume.toFixed(1)] });
+    } catch (error) {
+      console.warn('Fade volume step failed:', error);
+    }
+  }
+
   /**
    * Start periodic position tracking
    * Requirements: 2.6, 4.4
@@ -819,6 +1142,7 @@ export class PlaybackController extends EventEmitter implements IPlaybackControl
       if (this.isCurrentlyPlaying) {
         try {
           const position = await this.getPosition();
+          this.checkCrossfade(position);
           
           // Emit progress update with complete state information
           // Requirements: 4.4, 5.7
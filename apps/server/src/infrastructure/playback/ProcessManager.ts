@@ -10,6 +10,8 @@ import { IProcessManager } from '../../domain/playback/interfaces';
 import { 
   MpvOptions, 
   YtDlpOptions, 
+  YtDlpMetadataOptions,
+  YtDlpMetadata,
   ResolvedStream 
 } from '../../domain/playback/types';
 import { ProcessError } from '../../domain/playback/errors';
@@ -23,6 +25,7 @@ interface ProcessLimits {
   readonly maxCpuPercent: number;
   readonly timeoutMs: number;
   readonly maxConcurrent: number;
+  readonly maxConcurrentMetadata: number;
 }
 
 /**
@@ -37,6 +40,56 @@ interface ProcessHealth {
   readonly memoryUsageMB: number;
 }
 
+/**
+ * Bounded pool of yt-dlp slots; callers past the limit wait in line for one
+ * to free up instead of failing straight away
+ * Requirements: 6.2, 7.7
+ */
+class ProcessSlots {
+  private active = 0;
+  private readonly waiting: Array<(acquired: boolean) => void> = [];
+
+  constructor(private readonly limit: number) {}
+
+  /**
+   * Take a slot, waiting up to timeoutMs for one; resolves false if none freed up
+   */
+  acquire(timeoutMs: number): Promise<boolean> {
+    if (this.active < this.limit) {
+      this.active++;
+      return Promise.resolve(true);
+    }
+
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        const index = this.waiting.indexOf(grant);
+        if (index > -1) {
+          this.waiting.splice(index, 1);
+        }
+        resolve(false);
+      }, timeoutMs);
+
+      const grant = (acquired: boolean) => {
+        clearTimeout(timer);
+        resolve(acquired);
+      };
+      this.waiting.push(grant);
+    });
+  }
+
+  /**
+   * Free a slot, handing it straight to the longest waiting caller if any
+   */
+  release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next(true);
+    } else {
+      this.active = Math.max(0, this.active - 1);
+    }
+  }
+}
+
 export class ProcessManager implements IProcessManager {
   private mpvProcess: ChildProcess | null = null;
   private mpvOptions: MpvOptions | null = null;
@@ -50,9 +103,13 @@ export class ProcessManager implements IProcessManager {
     maxMemoryMB: 50, // Conservative limit for Raspberry Pi
     maxCpuPercent: 80,
     timeoutMs: 30000, // 30 seconds for yt-dlp
-    maxConcurrent: 2 // Limit concurrent yt-dlp processes
+    maxConcurrent: 2, // Limit concurrent yt-dlp stream resolutions
+    maxConcurrentMetadata: 2 // Separate limit so searches aren't stuck behind resolutions
   };
 
+  private readonly ytDlpSlots = new ProcessSlots(this.limits.maxConcurrent);
+  private readonly metadataSlots = new ProcessSlots(this.limits.maxConcurrentMetadata);
+
   constructor() {
     // Set up process cleanup on exit
     // Requirements: 6.5, 7.4
@@ -253,112 +310,79 @@ export class ProcessManager implements IProcessManager {
    * Requirements: 1.1, 1.6, 1.7, 7.1, 7.2
    */
   async runYtDlp(url: string, options: YtDlpOptions): Promise<Result<ResolvedStream, ProcessError>> {
-    try {
-      // Check concurrent process limit
-      // Requirements: 6.2, 7.7
-      if (this.runningYtDlpProcesses.size >= this.limits.maxConcurrent) {
-        return { success: false, error: 'RESOURCE_LIMIT_EXCEEDED' };
-      }
-
-      // Validate yt-dlp executable exists
-      // Requirements: 7.5, 7.6
-      const ytDlpValidation = await this.validateExecutable('yt-dlp');
-      if (!ytDlpValidation.success) {
-        return { success: false, error: 'DEPENDENCY_MISSING' };
-      }
-
-      // Prepare yt-dlp arguments
-      const args = [
-        '--format', options.format,
-        '--no-playlist',
-        '--no-flat-playlist', // Fully extract video information
-        '--print', '%(url)s',
-        '--print', '%(title)s', 
-        '--print', '%(duration)s',
-        '--print', '%(format)s',
-        '--print', '%(quality)s',
-        url
-      ];
-
-      // Spawn options with timeout
-      const spawnOptions: SpawnOptions = {
-        stdio: ['ignore', 'pipe', 'pipe'],
-        timeout: options.timeout
-      };
-
-      // Spawn yt-dlp process
-      const ytDlpProcess = spawn('yt-dlp', args, spawnOptions);
-      this.runningYtDlpProcesses.add(ytDlpProcess);
-
-      // Handle process completion
-      return new Promise((resolve) => {
-        let resolved = false;
-        let stdout = '';
-        let stderr = '';
-
-        const cleanup = () => {
-          this.runningYtDlpProcesses.delete(ytDlpProcess);
-        };
-
-        const resolveResult = (result: Result<ResolvedStream, ProcessError>) => {
-          if (resolved) return;
-          resolved = true;
-          cleanup();
-          resolve(result);
-        };
-
-        // Collect output
-        ytDlpProcess.stdout?.on('data', (data) => {
-          stdout += data.toString();
-        });
-
-        ytDlpProcess.stderr?.on('data', (data) => {
-          stderr += data.toString();
-        });
+    // Prepare yt-dlp arguments
+    const args = [
+      '--format', options.format,
+      '--no-playlist',
+      '--no-flat-playlist', // Fully extract video information
+      '--print', '%(url)s',
+      '--print', '%(title)s', 
+      '--print', '%(duration)s',
+      '--print', '%(format)s',
+      '--print', '%(quality)s',
+      url
+    ];
+
+    const result = await this.spawnYtDlp(this.ytDlpSlots, args, options.timeout);
+    if (!result.success) {
+      return result;
+    }
 
-        // Handle process completion
-        ytDlpProcess.on('exit', (code) => {
-          if (code === 0) {
-            // Parse successful output
-            const lines = stdout.trim().split('\n');
-            if (lines.length >= 5) {
-              const resolvedStream: ResolvedStream = {
-                streamUrl: lines[0],
-                title: lines[1],
-                duration: parseInt(lines[2]) || 0,
-                format: lines[3],
-                quality: lines[4]
-              };
-              resolveResult({ success: true, value: resolvedStream });
-            } else {
-              console.error('yt-dlp output parsing failed:', stdout);
-              resolveResult({ success: false, error: 'PROCESS_CRASHED' });
-            }
-          } else {
-            console.error('yt-dlp failed with code:', code, 'stderr:', stderr);
-            resolveResult({ success: false, error: 'PROCESS_CRASHED' });
-          }
-        });
+    // Parse successful output
+    const lines = result.value.trim().split('\n');
+    if (lines.length < 5) {
+      console.error('yt-dlp output parsing failed:', result.value);
+      return { success: false, error: 'PROCESS_CRASHED' };
+    }
 
-        // Handle process errors
-        ytDlpProcess.on('error', (error) => {
-          console.error('yt-dlp process error:', error);
-          resolveResult({ success: false, error: 'PROCESS_START_FAILED' });
-        });
+    const resolvedStream: ResolvedStream = {
+      streamUrl: lines[0],
+      title: lines[1],
+      duration: parseInt(lines[2]) || 0,
+      format: lines[3],
+      quality: lines[4]
+    };
+    return { success: true, value: resolvedStream };
+  }
 
-        // Handle timeout
-        setTimeout(() => {
-          if (!resolved) {
-            ytDlpProcess.kill('SIGKILL');
-            resolveResult({ success: false, error: 'PROCESS_TIMEOUT' });
-          }
-        }, options.timeout);
-      });
+  /**
+   * Run yt-dlp to read video metadata without resolving streams
+   * Targets may be video URLs, playlists or "ytsearchN:query" searches; with
+   * flat extraction, playlist and search entries are listed without visiting each video.
+   * Runs in its own pool, so searches and imports don't wait on stream resolution
+   * Requirements: 22.1
+   */
+  async runYtDlpJson(targets: string[], options: YtDlpMetadataOptions): Promise<Result<YtDlpMetadata[], ProcessError>> {
+    const args = [
+      '--dump-json',
+      '--skip-download',
+      '--ignore-errors', // Skip unavailable videos instead of failing the whole run
+      options.flat ? '--flat-playlist' : '--no-playlist',
+      ...(options.maxEntries ? ['--playlist-end', String(options.maxEntries)] : []),
+      ...targets
+    ];
+
+    const result = await this.spawnYtDlp(this.metadataSlots, args, options.timeout, true);
+    if (!result.success) {
+      return result;
+    }
 
-    } catch (error) {
-      console.error('Failed to run yt-dlp:', error);
-      return { success: false, error: 'PROCESS_START_FAILED' };
+    const entries: YtDlpMetadata[] = [];
+    for (const line of result.value.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        const entry = JSON.parse(line) as YtDlpMetadata;
+        if (typeof entry.id === 'string') {
+          entries.push(entry);
+        }
+      } catch {
+        console.error('yt-dlp printed invalid JSON:', line.slice(0, 200));
+      }
     }
+
+    return { success: true, value: entries };
   }
 
   /**
@@ -608,4 +632,102 @@ export class ProcessManager implements IProcessManager {
   removeCleanupHandler(handler: () => Promise<void>): void {
     this.cleanupHandlers.delete(handler);
   }
-}
\ No newline at end of file
+
+  /**
+   * Spawn yt-dlp and collect its output, within the given pool's limit and the timeout
+   * When every slot is busy the call waits its turn; it only gives up with
+   * RESOURCE_LIMIT_EXCEEDED if no slot frees up within the timeout
+   * With ignore errors set, a non-zero exit still returns the output printed so far
+   * Requirements: 6.2, 7.1, 7.2, 7.7
+   */
+  private async spawnYtDlp(
+    slots: ProcessSlots,
+    args: string[],
+    timeoutMs: number,
+    allowPartial = false
+  ): Promise<Result<string, ProcessError>> {
+    // Wait for a free slot in the concurrent process limit
+    // Requirements: 6.2, 7.7
+    if (!await slots.acquire(timeoutMs)) {
+      return { success: false, error: 'RESOURCE_LIMIT_EXCEEDED' };
+    }
+
+    try {
+      return await this.runYtDlpProcess(args, timeoutMs, allowPartial);
+    } finally {
+      slots.release();
+    }
+  }
+
+  private async runYtDlpProcess(args: string[], timeoutMs: number, allowPartial: boolean): Promise<Result<string, ProcessError>> {
+    try {
+      // Validate yt-dlp executable exists
+      // Requirements: 7.5, 7.6
+      const ytDlpValidation = await this.validateExecutable('yt-dlp');
+      if (!ytDlpValidation.success) {
+        return { success: false, error: 'DEPENDENCY_MISSING' };
+      }
+
+      // Spawn options with timeout
+      const spawnOptions: SpawnOptions = {
+        stdio: ['ignore', 'pipe', 'pipe'],
+        timeout: timeoutMs
+      };
+
+      // Spawn yt-dlp process
+      const ytDlpProcess = spawn('yt-dlp', args, spawnOptions);
+      this.runningYtDlpProcesses.add(ytDlpProcess);
+
+      // Handle process completion
+      return await new Promise((resolve) => {
+        let resolved = false;
+        let stdout = '';
+        let stderr = '';
+
+        const resolveResult = (result: Result<string, ProcessError>) => {
+          if (resolved) return;
+          resolved = true;
+          this.runningYtDlpProcesses.delete(ytDlpProcess);
+          resolve(result);
+        };
+
+        // Collect output
+        ytDlpProcess.stdout?.on('data', (data) => {
+          stdout += data.toString();
+        });
+
+        ytDlpProcess.stderr?.on('data', (data) => {
+          stderr += data.toString();
+        });
+
+        // 'close' rather than 'exit', so no output is still in flight
+        ytDlpProcess.on('close', (code) => {
+          if (code === 0 || (allowPartial && stdout.trim().length > 0)) {
+            resolveResult({ success: true, value: stdout });
+          } else {
+            console.error('yt-dlp failed with code:', code, 'stderr:', stderr);
+            resolveResult({ success: false, error: 'PROCESS_CRASHED' });
+          }
+        });
+
+        // Handle process errors
+        ytDlpProcess.on('error', (error) => {
+          console.error('yt-dlp process error:', error);
+          resolveResult({ success: false, error: 'PROCESS_START_FAILED' });
+        });
+
+        // Handle timeout
+        setTimeout(() => {
+          if (!resolved) {
+            ytDlpProcess.kill('SIGKILL');
+            resolveResult({ success: false, error: 'PROCESS_TIMEOUT' });
+          }
+        }, timeoutMs);
+      });
+
+    } catch (error) {
+      console.error('Failed to run yt-dlp:', error);
+      return { success: false, error: 'PROCESS_START_FAILED' };
+    }
+  }
+}
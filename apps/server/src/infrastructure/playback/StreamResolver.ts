@@ -1,9 +1,10 @@
 /**
  * StreamResolver implementation using yt-dlp for YouTube stream resolution
- * Requirements: 1.1, 1.2, 1.3, 1.4, 1.5, 1.6, 1.7
+ * Tracks of other sources are resolved through their source provider
+ * Requirements: 1.1, 1.2, 1.3, 1.4, 1.5, 1.6, 1.7, 20.4
  */
 
-import { Result } from '@party-jukebox/shared';
+import { Result, Track } from '@party-jukebox/shared';
 import { IStreamResolver, IProcessManager } from '../../domain/playback/interfaces';
 import { 
   ResolvedStream,
@@ -12,6 +13,7 @@ import {
 import { 
   ResolutionError
 } from '../../domain/playback/errors';
+import { ITrackSourceRegistry } from '../../domain/sources/types';
 import { ResolutionCache } from './ResolutionCache';
 
 /**
@@ -41,20 +43,61 @@ export class StreamResolver implements IStreamResolver {
   private readonly cache: ResolutionCache;
   private readonly options: YtDlpOptions;
   private readonly processManager: IProcessManager;
+  // Playback and prefetch often ask for the same URL at once - share one yt-dlp run
+  private readonly inFlight = new Map<string, Promise<Result<ResolvedStream, ResolutionError>>>();
 
-  constructor(processManager: IProcessManager, options: Partial<YtDlpOptions> = {}) {
+  constructor(
+    processManager: IProcessManager,
+    options: Partial<YtDlpOptions> = {},
+    private readonly sources?: ITrackSourceRegistry
+  ) {
     this.processManager = processManager;
     this.options = { ...DEFAULT_YTDLP_OPTIONS, ...options };
     this.cache = new ResolutionCache();
   }
 
+  /**
+   * Resolve a track through the provider of its source
+   * Requirements: 20.4
+   */
+  async resolveTrack(track: Track): Promise<Result<ResolvedStream, ResolutionError>> {
+    const provider = this.sources?.get(track.source);
+    if (!provider) {
+      return { success: false, error: 'UNSUPPORTED_SITE' };
+    }
+
+    return provider.resolveStream(track.sourceId);
+  }
+
+  /**
+   * Resolve a track again, bypassing the cache for yt-dlp backed sources
+   * Requirements: 18.3, 20.4
+   */
+  async refreshTrack(track: Track): Promise<Result<ResolvedStream, ResolutionError>> {
+    const url = this.sources?.getTrackUrl(track);
+    if (url && this.isExtractorUrl(url)) {
+      return this.resolveShared(url);
+    }
+
+    return this.resolveTrack(track);
+  }
+
+  /**
+   * Whether a track's cached stream expires within the given time
+   * Requirements: 18.3, 20.4
+   */
+  isTrackExpiring(track: Track, withinMs: number): boolean {
+    const url = this.sources?.getTrackUrl(track);
+    return url !== null && url !== undefined && this.getExpiringUrls(withinMs).includes(url);
+  }
+
   /**
    * Resolve a YouTube URL to a playable stream
    * Requirements: 1.1, 1.2, 1.3, 1.5, 1.6, 6.1
    */
   async resolveStream(youtubeUrl: string): Promise<Result<ResolvedStream, ResolutionError>> {
     // Validate YouTube URL format
-    if (!this.isValidYouTubeUrl(youtubeUrl)) {
+    if (!this.isExtractorUrl(youtubeUrl)) {
       return {
         success: false,
         error: 'INVALID_URL'
@@ -70,39 +113,31 @@ export class StreamResolver implements IStreamResolver {
       };
     }
 
-    try {
-      // Use ProcessManager to resolve stream using yt-dlp
-      const result = await this.processManager.runYtDlp(youtubeUrl, this.options);
-      
-      if (!result.success) {
-        // Map ProcessError to ResolutionError
-        return {
-          success: false,
-          error: this.mapProcessErrorToResolutionError(result.error)
-        };
-      }
-
-      const resolved = result.value;
-      
-      // Validate stream accessibility
-      const isAccessible = await this.validateStream(resolved.streamUrl);
-      if (!isAccessible) {
-        return {
-          success: false,
-          error: 'STREAM_UNAVAILABLE'
-        };
-      }
-
-      // Cache the result
-      this.cache.set(youtubeUrl, resolved);
+    return this.resolveShared(youtubeUrl);
+  }
 
+  /**
+   * Resolve a URL again even if it is cached, replacing the cached stream
+   * Used to renew stream URLs before they expire
+   * Requirements: 6.1, 18.3
+   */
+  async refreshStream(youtubeUrl: string): Promise<Result<ResolvedStream, ResolutionError>> {
+    if (!this.isExtractorUrl(youtubeUrl)) {
       return {
-        success: true,
-        value: resolved
+        success: false,
+        error: 'INVALID_URL'
       };
-    } catch (error) {
-      return this.handleResolutionError(error);
     }
+
+    return this.resolveShared(youtubeUrl);
+  }
+
+  /**
+   * Get the cached URLs whose streams expire within the given time
+   * Requirements: 6.1, 18.3
+   */
+  getExpiringUrls(withinMs: number): string[] {
+    return this.cache.getExpiringEntries(withinMs).map(entry => entry.url);
   }
 
   /**
@@ -147,11 +182,70 @@ export class StreamResolver implements IStreamResolver {
   }
 
   /**
-   * Validate YouTube URL format
-   * Requirements: 1.1
+   * Run yt-dlp for a URL, joining a resolution already in progress for it
+   * Requirements: 18.2
+   */
+  private resolveShared(youtubeUrl: string): Promise<Result<ResolvedStream, ResolutionError>> {
+    const pending = this.inFlight.get(youtubeUrl);
+    if (pending) {
+      return pending;
+    }
+
+    const resolution = this.resolveUncached(youtubeUrl).finally(() => {
+      this.inFlight.delete(youtubeUrl);
+    });
+    this.inFlight.set(youtubeUrl, resolution);
+    return resolution;
+  }
+
+  /**
+   * Resolve a URL with yt-dlp, validate the stream and cache it
+   * Requirements: 1.1, 1.2, 1.3, 1.5, 1.6, 6.1
+   */
+  private async resolveUncached(youtubeUrl: string): Promise<Result<ResolvedStream, ResolutionError>> {
+    try {
+      // Use ProcessManager to resolve stream using yt-dlp
+      const result = await this.processManager.runYtDlp(youtubeUrl, this.options);
+      
+      if (!result.success) {
+        // Map ProcessError to ResolutionError
+        return {
+          success: false,
+          error: this.mapProcessErrorToResolutionError(result.error)
+        };
+      }
+
+      const resolved = result.value;
+      
+      // Validate stream accessibility
+      const isAccessible = await this.validateStream(resolved.streamUrl);
+      if (!isAccessible) {
+        return {
+          success: false,
+          error: 'STREAM_UNAVAILABLE'
+        };
+      }
+
+      // Cache the result
+      this.cache.set(youtubeUrl, resolved);
+
+      return {
+        success: true,
+        value: resolved
+      };
+    } catch (error) {
+      return this.handleResolutionError(error);
+    }
+  }
+
+  /**
+   * Validate that yt-dlp should handle a URL: YouTube, or a page URL of a
+   * registered source that resolves through yt-dlp
+   * Requirements: 1.1, 20.4
    */
-  private isValidYouTubeUrl(url: string): boolean {
-    return typeof url === 'string' && YOUTUBE_URL_PATTERN.test(url);
+  private isExtractorUrl(url: string): boolean {
+    return typeof url === 'string'
+      && (YOUTUBE_URL_PATTERN.test(url) || (this.sources?.isExtractorUrl(url) ?? false));
   }
 
   /**
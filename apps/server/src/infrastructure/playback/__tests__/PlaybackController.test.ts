@@ -65,6 +65,11 @@ class MockIPCClient implements IIPCClient {
       this.listeners.splice(index, 1);
     }
   }
+
+  // Deliver an unsolicited MPV event, as the socket would
+  emitEvent(response: MPVResponse): void {
+    this.listeners.forEach(listener => listener(response));
+  }
 }
 
 class MockProcessManager implements IProcessManager {
@@ -84,6 +89,10 @@ class MockProcessManager implements IProcessManager {
     return { success: true, value: {} };
   }
 
+  async runYtDlpJson(targets: string[], options: any): Promise<Result<any, any>> {
+    return { success: true, value: [] };
+  }
+
   isProcessHealthy(process: any): boolean {
     return true;
   }
@@ -182,6 +191,36 @@ describe('PlaybackController', () => {
     });
   });
 
+  describe('seeking', () => {
+    it('should seek to an absolute position and report it immediately', async () => {
+      const sendCommand = jest.spyOn(mockIPCClient, 'sendCommand');
+      await playbackController.loadAndPlay('https://example.com/stream.mp3');
+      
+      const result = await playbackController.seek(42);
+      
+      expect(result.success).toBe(true);
+      expect(sendCommand).toHaveBeenCalledWith({ command: ['seek', '42', 'absolute'] });
+      expect(playbackController.getCurrentState().position).toBe(42);
+    });
+
+    it('should apply relative seeks from the current position without going below zero', async () => {
+      await playbackController.loadAndPlay('https://example.com/stream.mp3');
+      await playbackController.seek(42);
+      
+      await playbackController.seek(10, 'relative');
+      expect(playbackController.getCurrentState().position).toBe(52);
+
+      await playbackController.seek(-100, 'relative');
+      expect(playbackController.getCurrentState().position).toBe(0);
+    });
+
+    it('should reject seeking when nothing is loaded', async () => {
+      const result = await playbackController.seek(10);
+      
+      expect(result).toEqual({ success: false, error: 'STREAM_UNAVAILABLE' });
+    });
+  });
+
   describe('volume control', () => {
     it('should set volume within valid range', async () => {
       const result = await playbackController.setVolume?.(75);
@@ -200,6 +239,93 @@ describe('PlaybackController', () => {
     });
   });
 
+  describe('preloading and transitions', () => {
+    const collectEvents = () => {
+      const events: PlaybackEvent[] = [];
+      playbackController.addEventListener(event => events.push(event));
+      return events;
+    };
+
+    it('should append the next stream to the MPV playlist', async () => {
+      const sendCommand = jest.spyOn(mockIPCClient, 'sendCommand');
+      await playbackController.loadAndPlay('https://example.com/first.mp3');
+
+      const result = await playbackController.preloadNext('https://example.com/second.mp3');
+
+      expect(result.success).toBe(true);
+      expect(sendCommand).toHaveBeenCalledWith({ command: ['loadfile', 'https://example.com/second.mp3', 'append'] });
+    });
+
+    it('should report the preloaded stream taking over instead of a plain end of track', async () => {
+      await playbackController.loadAndPlay('https://example.com/first.mp3');
+      await playbackController.preloadNext('https://example.com/second.mp3');
+      const events = collectEvents();
+
+      mockIPCClient.emitEvent({ event: 'end-file', error: 'success' });
+      mockIPCClient.emitEvent({ event: 'start-file', error: 'success' });
+      await new Promise(resolve => process.nextTick(resolve));
+
+      const finished = events.filter(e => e.type === 'track_finished');
+      expect(finished).toHaveLength(1);
+      expect(finished[0].data.preloadStarted).toBe(true);
+      expect(playbackController.isPlaying()).toBe(true);
+    });
+
+    it('should finish normally once the preload is cleared', async () => {
+      const sendCommand = jest.spyOn(mockIPCClient, 'sendCommand');
+      await playbackController.loadAndPlay('https://example.com/first.mp3');
+      await playbackController.preloadNext('https://example.com/second.mp3');
+      await playbackController.clearPreloaded();
+      const events = collectEvents();
+
+      mockIPCClient.emitEvent({ event: 'end-file', error: 'success' });
+      await new Promise(resolve => process.nextTick(resolve));
+
+      expect(sendCommand).toHaveBeenCalledWith({ command: ['playlist-clear'] });
+      const finished = events.filter(e => e.type === 'track_finished');
+      expect(finished).toHaveLength(1);
+      expect(finished[0].data.preloadStarted).toBeUndefined();
+    });
+
+    it('should fade the next stream in when crossfading', async () => {
+      playbackController = new PlaybackController(mockIPCClient, mockProcessManager, { mode: 'crossfade', crossfadeSeconds: 0.3 });
+      const sendCommand = jest.spyOn(mockIPCClient, 'sendCommand');
+      await playbackController.loadAndPlay('https://example.com/first.mp3');
+      await playbackController.preloadNext('https://example.com/second.mp3');
+
+      mockIPCClient.emitEvent({ event: 'start-file', error: 'success' });
+      await new Promise(resolve => setTimeout(resolve, 400));
+
+      const volumes = sendCommand.mock.calls
+        .map(([command]) => command.command)
+        .filter(command => command[0] === 'set_property' && command[1] === 'volume')
+        .map(command => Number(command[2]));
+      expect(volumes[0]).toBe(0);
+      expect(volumes[volumes.length - 1]).toBe(50);
+    });
+    it('should keep fading in when the volume is re-applied as the track starts', async () => {
+      playbackController = new PlaybackController(mockIPCClient, mockProcessManager, { mode: 'crossfade', crossfadeSeconds: 0.3 });
+      const sendCommand = jest.spyOn(mockIPCClient, 'sendCommand');
+      await playbackController.loadAndPlay('https://example.com/first.mp3');
+      await playbackController.preloadNext('https://example.com/second.mp3');
+
+      mockIPCClient.emitEvent({ event: 'start-file', error: 'success' });
+      // The volume service re-applies the level on track_started, mid-fade
+      await playbackController.setVolume?.(50);
+      await playbackController.setVolume?.(80);
+      await new Promise(resolve => setTimeout(resolve, 400));
+
+      const volumes = sendCommand.mock.calls
+        .map(([command]) => command.command)
+        .filter(command => command[0] === 'set_property' && command[1] === 'volume')
+        .map(command => Number(command[2]));
+      expect(volumes[0]).toBe(0);
+      expect(volumes.slice(0, -1).every(volume => volume < 80)).toBe(true);
+      expect(volumes.every((volume, index) => index === 0 || volume >= volumes[index - 1])).toBe(true);
+      expect(volumes[volumes.length - 1]).toBe(80);
+    });
+  });
+
   describe('event handling', () => {
     it('should allow adding and removing event listeners', () => {
       const listener = jest.fn();
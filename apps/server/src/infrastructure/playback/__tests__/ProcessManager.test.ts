@@ -0,0 +1,119 @@
+/**
+ * Unit tests for ProcessManager yt-dlp concurrency
+ * Requirements: 6.2, 7.7
+ */
+
+import { EventEmitter } from 'events';
+import { spawn } from 'child_process';
+import { ProcessManager } from '../ProcessManager';
+import { YtDlpMetadataOptions, YtDlpOptions } from '../../../domain/playback/types';
+
+jest.mock('child_process', () => ({
+  spawn: jest.fn()
+}));
+
+const mockSpawn = spawn as jest.MockedFunction<typeof spawn>;
+
+class FakeProcess extends EventEmitter {
+  readonly stdout = new EventEmitter();
+  readonly stderr = new EventEmitter();
+  killed = false;
+
+  constructor(readonly args: string[]) {
+    super();
+  }
+
+  finish(output: string): void {
+    this.stdout.emit('data', Buffer.from(output));
+    this.emit('close', 0);
+  }
+
+  kill(): boolean {
+    this.killed = true;
+    return true;
+  }
+}
+
+const streamOutput = 'https://example.com/audio.opus\nTest Song\n180\nopus\nhigh\n';
+
+describe('ProcessManager', () => {
+  let processManager: ProcessManager;
+  let ytDlpRuns: FakeProcess[];
+
+  // Spawning waits on the executable check, which exits on a later tick
+  const settle = async () => {
+    for (let tick = 0; tick < 5; tick++) {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+  };
+
+  const resolveOptions: YtDlpOptions = { format: 'bestaudio', extractAudio: true, audioFormat: 'opus', timeout: 1000, retries: 0 };
+
+  beforeEach(() => {
+    ytDlpRuns = [];
+    mockSpawn.mockImplementation(((command: string, args: string[]) => {
+      const child = new FakeProcess(args);
+      if (args[0] === '--version') {
+        setImmediate(() => child.emit('exit', 0));
+      } else {
+        ytDlpRuns.push(child);
+      }
+      return child;
+    }) as unknown as typeof spawn);
+
+    processManager = new ProcessManager();
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('queues resolutions past the concurrency limit instead of rejecting them', async () => {
+    const results = [
+      processManager.runYtDlp('https://www.youtube.com/watch?v=aaaaaaaaaaa', resolveOptions),
+      processManager.runYtDlp('https://www.youtube.com/watch?v=bbbbbbbbbbb', resolveOptions),
+      processManager.runYtDlp('https://www.youtube.com/watch?v=ccccccccccc', resolveOptions)
+    ];
+    await settle();
+    expect(ytDlpRuns).toHaveLength(2);
+
+    ytDlpRuns[0].finish(streamOutput);
+    await settle();
+    expect(ytDlpRuns).toHaveLength(3);
+
+    ytDlpRuns[1].finish(streamOutput);
+    ytDlpRuns[2].finish(streamOutput);
+
+    const settled = await Promise.all(results);
+    expect(settled.every(result => result.success)).toBe(true);
+  });
+
+  test('gives up with RESOURCE_LIMIT_EXCEEDED if no slot frees up in time', async () => {
+    const options: YtDlpOptions = { ...resolveOptions, timeout: 50 };
+    processManager.runYtDlp('https://www.youtube.com/watch?v=aaaaaaaaaaa', options);
+    processManager.runYtDlp('https://www.youtube.com/watch?v=bbbbbbbbbbb', options);
+
+    const result = await processManager.runYtDlp('https://www.youtube.com/watch?v=ccccccccccc', options);
+
+    expect(result).toEqual({ success: false, error: 'RESOURCE_LIMIT_EXCEEDED' });
+  });
+
+  test('runs a search while two resolutions are in flight', async () => {
+    processManager.runYtDlp('https://www.youtube.com/watch?v=aaaaaaaaaaa', resolveOptions);
+    processManager.runYtDlp('https://www.youtube.com/watch?v=bbbbbbbbbbb', resolveOptions);
+    await settle();
+
+    const searchOptions: YtDlpMetadataOptions = { flat: true, maxEntries: 5, timeout: 1000 };
+    const search = processManager.runYtDlpJson(['ytsearch5:test song'], searchOptions);
+    await settle();
+
+    expect(ytDlpRuns).toHaveLength(3);
+    ytDlpRuns[2].finish(JSON.stringify({ id: 'ccccccccccc', title: 'Test Song' }) + '\n');
+
+    const result = await search;
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.value.map(entry => entry.id)).toEqual(['ccccccccccc']);
+    }
+  });
+});
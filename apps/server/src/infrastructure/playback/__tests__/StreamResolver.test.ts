@@ -1,9 +1,11 @@
 /**
  * Unit tests for StreamResolver
- * Requirements: 1.1, 1.2, 1.3, 1.4, 1.5, 1.6, 1.7
+ * Requirements: 1.1, 1.2, 1.3, 1.4, 1.5, 1.6, 1.7, 20.4
  */
 
+import { Track } from '@party-jukebox/shared';
 import { StreamResolver } from '../StreamResolver';
+import { TrackSourceRegistry, SoundCloudSourceProvider, HttpSourceProvider } from '../../sources';
 import { IProcessManager } from '../../../domain/playback/interfaces';
 import { ResolvedStream } from '../../../domain/playback/types';
 
@@ -17,6 +19,7 @@ const mockProcessManager: jest.Mocked<IProcessManager> = {
   stopMpv: jest.fn(),
   restartMpv: jest.fn(),
   runYtDlp: jest.fn(),
+  runYtDlpJson: jest.fn(),
   isProcessHealthy: jest.fn(),
   cleanup: jest.fn(),
   validateDependencies: jest.fn()
@@ -217,6 +220,27 @@ describe('StreamResolver', () => {
       expect(mockProcessManager.runYtDlp).toHaveBeenCalledTimes(1);
     });
 
+    it('should share one yt-dlp run between concurrent requests for a URL', async () => {
+      const url = 'https://youtube.com/watch?v=dQw4w9WgXcQ';
+
+      const [result1, result2] = await Promise.all([resolver.resolveStream(url), resolver.resolveStream(url)]);
+
+      expect(result1.success && result2.success).toBe(true);
+      expect(mockProcessManager.runYtDlp).toHaveBeenCalledTimes(1);
+    });
+
+    it('should re-resolve cached URLs on refresh and report expiring entries', async () => {
+      const url = 'https://youtube.com/watch?v=dQw4w9WgXcQ';
+      await resolver.resolveStream(url);
+
+      const refreshed = await resolver.refreshStream(url);
+
+      expect(refreshed.success).toBe(true);
+      expect(mockProcessManager.runYtDlp).toHaveBeenCalledTimes(2);
+      expect(resolver.getExpiringUrls(10 * 60 * 1000)).toEqual([url]);
+      expect(resolver.getExpiringUrls(0)).toEqual([]);
+    });
+
     it('should clear cache when requested', () => {
       expect(() => resolver.clearCache()).not.toThrow();
     });
@@ -230,6 +254,54 @@ describe('StreamResolver', () => {
     });
   });
 
+  describe('Track Sources (Requirement 20.4)', () => {
+    const createTrack = (source: Track['source'], sourceId: string): Track => ({
+      id: `track-${sourceId}`,
+      title: 'Test Song',
+      artist: 'Test Artist',
+      source,
+      sourceId,
+      duration: 180
+    });
+
+    let sources: TrackSourceRegistry;
+
+    beforeEach(() => {
+      sources = new TrackSourceRegistry();
+      resolver = new StreamResolver(mockProcessManager, {}, sources);
+      sources.register(new SoundCloudSourceProvider(resolver));
+      sources.register(new HttpSourceProvider());
+    });
+
+    it('should resolve yt-dlp backed sources through the shared cache', async () => {
+      const track = createTrack('soundcloud', 'artist/song');
+
+      await resolver.resolveTrack(track);
+      const result = await resolver.resolveTrack(track);
+
+      expect(result.success).toBe(true);
+      expect(mockProcessManager.runYtDlp).toHaveBeenCalledTimes(1);
+      expect(mockProcessManager.runYtDlp).toHaveBeenCalledWith('https://soundcloud.com/artist/song', expect.any(Object));
+      expect(resolver.isTrackExpiring(track, 24 * 60 * 60 * 1000)).toBe(true);
+    });
+
+    it('should play direct stream URLs without yt-dlp', async () => {
+      const result = await resolver.resolveTrack(createTrack('http', 'https://radio.example.com/live.mp3'));
+
+      expect(result).toEqual({
+        success: true,
+        value: { streamUrl: 'https://radio.example.com/live.mp3', title: 'live.mp3', duration: 0, format: 'mp3', quality: 'original' }
+      });
+      expect(mockProcessManager.runYtDlp).not.toHaveBeenCalled();
+    });
+
+    it('should reject tracks of sources that are not configured', async () => {
+      const result = await resolver.resolveTrack(createTrack('local', '0123456789abcdef'));
+
+      expect(result).toEqual({ success: false, error: 'UNSUPPORTED_SITE' });
+    });
+  });
+
   describe('Shutdown', () => {
     it('should shutdown cleanly', () => {
       expect(() => resolver.shutdown()).not.toThrow();
@@ -0,0 +1,50 @@
+/**
+ * HttpSourceProvider - Direct audio stream and file URLs, handed to mpv as-is
+ * Source IDs are the URL itself
+ * Requirements: 20.1, 20.4
+ */
+
+import { Result } from '@party-jukebox/shared';
+import * as path from 'path';
+import { ResolvedStream } from '../../domain/playback/types';
+import { ResolutionError } from '../../domain/playback/errors';
+import { TrackSourceProvider } from '../../domain/sources/types';
+
+export class HttpSourceProvider implements TrackSourceProvider {
+  readonly source = 'http' as const;
+
+  validateSourceId(sourceId: string): boolean {
+    try {
+      const url = new URL(sourceId);
+      return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch {
+      return false;
+    }
+  }
+
+  getTrackUrl(sourceId: string): string {
+    return sourceId;
+  }
+
+  getThumbnailUrl(_sourceId: string): undefined {
+    return undefined;
+  }
+
+  async resolveStream(sourceId: string): Promise<Result<ResolvedStream, ResolutionError>> {
+    if (!this.validateSourceId(sourceId)) {
+      return { success: false, error: 'INVALID_URL' };
+    }
+
+    const fileName = path.posix.basename(new URL(sourceId).pathname);
+    return {
+      success: true,
+      value: {
+        streamUrl: sourceId,
+        title: fileName || sourceId,
+        duration: 0,
+        format: path.posix.extname(fileName).slice(1).toLowerCase() || 'stream',
+        quality: 'original'
+      }
+    };
+  }
+}
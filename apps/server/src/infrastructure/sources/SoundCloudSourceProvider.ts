@@ -0,0 +1,37 @@
+/**
+ * SoundCloudSourceProvider - SoundCloud tracks, played through yt-dlp
+ * Source IDs are the "artist/track" path of the track page
+ * Requirements: 20.1, 20.4
+ */
+
+import { Result } from '@party-jukebox/shared';
+import { IStreamResolver } from '../../domain/playback/interfaces';
+import { ResolvedStream } from '../../domain/playback/types';
+import { ResolutionError } from '../../domain/playback/errors';
+import { TrackSourceProvider } from '../../domain/sources/types';
+
+const SOUNDCLOUD_URL_PATTERN = /^https:\/\/(www\.|m\.)?soundcloud\.com\/[A-Za-z0-9_-]+\/[A-Za-z0-9_-]+/;
+const SOUNDCLOUD_ID_PATTERN = /^[A-Za-z0-9_-]+\/[A-Za-z0-9_-]+$/;
+
+export class SoundCloudSourceProvider implements TrackSourceProvider {
+  readonly source = 'soundcloud' as const;
+  readonly extractorUrlPattern = SOUNDCLOUD_URL_PATTERN;
+
+  constructor(private readonly streamResolver: IStreamResolver) {}
+
+  validateSourceId(sourceId: string): boolean {
+    return SOUNDCLOUD_ID_PATTERN.test(sourceId);
+  }
+
+  getTrackUrl(sourceId: string): string {
+    return `https://soundcloud.com/${sourceId}`;
+  }
+
+  getThumbnailUrl(_sourceId: string): undefined {
+    return undefined;
+  }
+
+  resolveStream(sourceId: string): Promise<Result<ResolvedStream, ResolutionError>> {
+    return this.streamResolver.resolveStream(this.getTrackUrl(sourceId));
+  }
+}
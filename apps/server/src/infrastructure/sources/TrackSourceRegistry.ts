@@ -0,0 +1,102 @@
+/**
+ * TrackSourceRegistry - The configured track sources
+ * Stream resolution, search and track validation dispatch through it,
+ * so adding a source only means registering another provider
+ * Requirements: 20.1, 20.2
+ */
+
+import { Result, Track, TrackCreateData, TrackError, TrackSource, TrackValidator } from '@party-jukebox/shared';
+import { ITrackSourceRegistry, PlaylistReference, TrackSourceProvider } from '../../domain/sources/types';
+
+export class TrackSourceRegistry implements ITrackSourceRegistry {
+  // Registration order is the order search results are merged in
+  private readonly providers = new Map<TrackSource, TrackSourceProvider>();
+
+  constructor(providers: TrackSourceProvider[] = []) {
+    providers.forEach(provider => this.register(provider));
+  }
+
+  /**
+   * Add a source, replacing any provider already registered for it
+   * Requirements: 20.1
+   */
+  register(provider: TrackSourceProvider): void {
+    this.providers.set(provider.source, provider);
+  }
+
+  /**
+   * Get the provider of a source, or null if it isn't configured
+   */
+  get(source: TrackSource): TrackSourceProvider | null {
+    return this.providers.get(source) ?? null;
+  }
+
+  /**
+   * Get the sources that support search, in registration order
+   * Requirements: 20.3
+   */
+  getSearchable(): TrackSourceProvider[] {
+    return [...this.providers.values()].filter(provider => provider.search !== undefined);
+  }
+
+  /**
+   * Get the canonical location of a track, or null if its source isn't configured
+   */
+  getTrackUrl(track: Track): string | null {
+    return this.get(track.source)?.getTrackUrl(track.sourceId) ?? null;
+  }
+
+  /**
+   * Whether any source resolves this URL with yt-dlp
+   * Requirements: 20.4
+   */
+  isExtractorUrl(url: string): boolean {
+    return [...this.providers.values()].some(provider => provider.extractorUrlPattern?.test(url) ?? false);
+  }
+
+  /**
+   * Validate track data against its source
+   * Sources that know their tracks supply the metadata themselves, and
+   * tracks without a thumbnail get the source's default
+   * Requirements: 20.2
+   */
+  createTrack(data: TrackCreateData): Result<Track, TrackError> {
+    const provider = this.get(data.source ?? 'youtube');
+    if (!provider) {
+      return { success: false, error: 'INVALID_SOURCE' };
+    }
+
+    let trackData = data;
+    if (provider.getTrackData) {
+      const known = data.sourceId && provider.validateSourceId(data.sourceId)
+        ? provider.getTrackData(data.sourceId)
+        : null;
+      if (!known) {
+        return { success: false, error: 'INVALID_SOURCE_ID' };
+      }
+      trackData = known;
+    }
+
+    const result = TrackValidator.create(trackData, (_source, sourceId) => provider.validateSourceId(sourceId));
+    if (!result.success || result.value.thumbnailUrl) {
+      return result;
+    }
+
+    const thumbnailUrl = provider.getThumbnailUrl(result.value.sourceId);
+    return thumbnailUrl ? { success: true, value: { ...result.value, thumbnailUrl } } : result;
+  }
+
+  /**
+   * Find the source whose playlist URL this is
+   * Requirements: 23.1
+   */
+  parsePlaylistUrl(url: string): PlaylistReference | null {
+    for (const provider of this.providers.values()) {
+      const playlistId = provider.getPlaylist ? provider.parsePlaylistUrl?.(url) : null;
+      if (playlistId) {
+        return { source: provider.source, playlistId };
+      }
+    }
+    return null;
+  }
+}
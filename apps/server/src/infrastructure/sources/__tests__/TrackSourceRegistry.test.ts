@@ -0,0 +1,82 @@
+/**
+ * Tests for TrackSourceRegistry dispatch and track validation
+ * Requirements: 20.1, 20.2, 20.3
+ */
+
+import { TrackCreateData } from '@party-jukebox/shared';
+import { TrackSourceProvider } from '../../../domain/sources/types';
+import { TrackSourceRegistry } from '../TrackSourceRegistry';
+import { HttpSourceProvider } from '../HttpSourceProvider';
+
+const createProvider = (overrides: Partial<TrackSourceProvider> & Pick<TrackSourceProvider, 'source'>): TrackSourceProvider => ({
+  validateSourceId: (sourceId: string) => sourceId.length > 3,
+  getTrackUrl: (sourceId: string) => `https://${overrides.source}.example.com/${sourceId}`,
+  getThumbnailUrl: (sourceId: string) => `https://${overrides.source}.example.com/${sourceId}.jpg`,
+  resolveStream: jest.fn(),
+  ...overrides
+});
+
+const trackData = (overrides: Partial<TrackCreateData> = {}): TrackCreateData => ({
+  title: 'Song',
+  artist: 'Band',
+  duration: 180,
+  ...overrides
+});
+
+describe('TrackSourceRegistry', () => {
+  it('treats tracks without a source as YouTube, keeping the videoId shorthand', () => {
+    const registry = new TrackSourceRegistry([createProvider({ source: 'youtube' })]);
+
+    const result = registry.createTrack(trackData({ videoId: 'dQw4w9WgXcQ' }));
+
+    expect(result).toEqual({
+      success: true,
+      value: expect.objectContaining({
+        source: 'youtube',
+        sourceId: 'dQw4w9WgXcQ',
+        thumbnailUrl: 'https://youtube.example.com/dQw4w9WgXcQ.jpg'
+      })
+    });
+  });
+
+  it('validates identifiers with the provider of their source', () => {
+    const registry = new TrackSourceRegistry([new HttpSourceProvider()]);
+
+    expect(registry.createTrack(trackData({ source: 'http', sourceId: 'https://radio.example.com/live' })).success).toBe(true);
+    expect(registry.createTrack(trackData({ source: 'http', sourceId: 'ftp://radio.example.com/live' })))
+      .toEqual({ success: false, error: 'INVALID_SOURCE_ID' });
+    expect(registry.createTrack(trackData({ source: 'soundcloud', sourceId: 'artist/song' })))
+      .toEqual({ success: false, error: 'INVALID_SOURCE' });
+  });
+
+  it('takes metadata from sources that know their tracks', () => {
+    const registry = new TrackSourceRegistry([createProvider({
+      source: 'local',
+      getThumbnailUrl: () => undefined,
+      getTrackData: (sourceId: string) => (sourceId === 'known' ? trackData({ title: 'Indexed', source: 'local', sourceId }) : null)
+    })]);
+
+    const known = registry.createTrack(trackData({ title: 'Sent', source: 'local', sourceId: 'known' }));
+
+    expect(known.success && known.value).toEqual(expect.objectContaining({ title: 'Indexed', sourceId: 'known' }));
+    expect(known.success && known.value.thumbnailUrl).toBeUndefined();
+    expect(registry.createTrack(trackData({ source: 'local', sourceId: 'missing' })))
+      .toEqual({ success: false, error: 'INVALID_SOURCE_ID' });
+  });
+
+  it('lists searchable sources in registration order and matches extractor URLs', () => {
+    const search = jest.fn();
+    const registry = new TrackSourceRegistry([
+      createProvider({ source: 'local', search }),
+      createProvider({ source: 'soundcloud', extractorUrlPattern: /^https:\/\/soundcloud\.com\// }),
+      createProvider({ source: 'youtube', search })
+    ]);
+
+    expect(registry.getSearchable().map(provider => provider.source)).toEqual(['local', 'youtube']);
+    expect(registry.isExtractorUrl('https://soundcloud.com/artist/song')).toBe(true);
+    expect(registry.isExtractorUrl('https://example.com/song')).toBe(false);
+    expect(registry.getTrackUrl({ id: 't', title: 'Song', artist: 'Band', duration: 1, source: 'soundcloud', sourceId: 'a/b' }))
+      .toBe('https://soundcloud.example.com/a/b');
+    expect(registry.getTrackUrl({ id: 't', title: 'Song', artist: 'Band', duration: 1, source: 'http', sourceId: 'x' })).toBeNull();
+  });
+});
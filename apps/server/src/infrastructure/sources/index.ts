@@ -0,0 +1,8 @@
+/**
+ * Track source infrastructure exports
+ * Requirements: 20.1
+ */
+
+export { TrackSourceRegistry } from './TrackSourceRegistry';
+export { HttpSourceProvider } from './HttpSourceProvider';
+export { SoundCloudSourceProvider } from './SoundCloudSourceProvider';
@@ -22,16 +22,21 @@ import {
   ClientManager
 } from './websocket';
 import { IQueueService } from '../../application/QueueService';
+import { IHostAuthService } from '../../application/HostAuthService';
+import { IGuestSessionService } from '../../application/GuestSessionService';
+import { ISkipVoteService } from '../../application/SkipVoteService';
+import { IAutoplayService } from '../../application/AutoplayService';
+import { IVolumeService } from '../../application/VolumeService';
+import { IPrefetchService } from '../../application/PrefetchService';
+import { ILocalLibraryService } from '../../application/LocalLibraryService';
+import { IPlaylistImportService } from '../../application/PlaylistImportService';
+import { IHistoryService } from '../../application/HistoryService';
+import { IContentPolicyService } from '../../application/ContentPolicyService';
+import { IRateLimiter } from '../../application/RateLimiter';
 import { IPlaybackOrchestrator } from '../../domain/playback/interfaces';
-
-// Temporary interface until SearchService compilation issues are resolved
-interface ISearchService {
-  search(params: { query: string; page?: number; limit?: number; pageToken?: string }): Promise<{
-    success: boolean;
-    value?: any;
-    error?: string;
-  }>;
-}
+import { ITrackSourceRegistry } from '../../domain/sources/types';
+import { IYouTubeUsageReporter } from '../youtube/types';
+import { ISearchService } from './api/commands';
 
 export interface ServerInfo {
   port: number;
@@ -51,6 +56,20 @@ export interface HTTPServerDependencies {
   playbackOrchestrator: IPlaybackOrchestrator;
   searchService?: ISearchService;
   eventBroadcaster?: EventBroadcaster;
+  clientManager?: ClientManager;
+  hostAuthService?: IHostAuthService;
+  guestSessionService?: IGuestSessionService;
+  skipVoteService?: ISkipVoteService;
+  autoplayService?: IAutoplayService;
+  volumeService?: IVolumeService;
+  prefetchService?: IPrefetchService;
+  localLibraryService?: ILocalLibraryService;
+  trackSources?: ITrackSourceRegistry;
+  youtubeUsage?: IYouTubeUsageReporter;
+  playlistImportService?: IPlaylistImportService;
+  historyService?: IHistoryService;
+  contentPolicyService?: IContentPolicyService;
+  rateLimiter?: IRateLimiter;
 }
 
 export class HTTPServer {
@@ -85,6 +104,7 @@ export class HTTPServer {
       // Register CORS plugin for local network access
       await this.fastify.register(cors, {
         origin: true, // Allow all origins for local network
+        methods: ['GET', 'HEAD', 'POST', 'PATCH', 'DELETE'],
         credentials: false,
       });
 
@@ -129,6 +149,10 @@ export class HTTPServer {
           queueService: this.dependencies.queueService,
           playbackOrchestrator: this.dependencies.playbackOrchestrator,
           clientManager: this.clientManager,
+          skipVoteService: this.dependencies.skipVoteService,
+          volumeService: this.dependencies.volumeService,
+          prefetchService: this.dependencies.prefetchService,
+          playlistImportService: this.dependencies.playlistImportService,
         };
 
         this.eventBroadcaster = new EventBroadcaster(
@@ -147,6 +171,15 @@ export class HTTPServer {
       const wsServerDependencies: WebSocketServerDependencies = {
         eventBroadcaster: this.eventBroadcaster || undefined,
         clientManager: this.clientManager,
+        queueService: this.dependencies?.queueService,
+        playbackOrchestrator: this.dependencies?.playbackOrchestrator,
+        hostAuthService: this.dependencies?.hostAuthService,
+        guestSessionService: this.dependencies?.guestSessionService,
+        skipVoteService: this.dependencies?.skipVoteService,
+        volumeService: this.dependencies?.volumeService,
+        searchService: this.dependencies?.searchService,
+        trackSources: this.dependencies?.trackSources,
+        contentPolicyService: this.dependencies?.contentPolicyService,
       };
       
       await this.webSocketServer.initialize(this.fastify, wsServerDependencies);
@@ -296,10 +329,11 @@ export class HTTPServer {
    * Requirements: 1.1, 1.2, 1.3, 1.5, 8.2, 8.3, 8.4, 8.7, 2.6, 2.7
    */
   private async registerRoutes(): Promise<void> {
-    // Create enhanced dependencies that include EventBroadcaster
+    // Create enhanced dependencies that include EventBroadcaster and ClientManager
     const enhancedDependencies = this.dependencies ? {
       ...this.dependencies,
       eventBroadcaster: this.eventBroadcaster || undefined,
+      clientManager: this.clientManager || undefined,
     } : null;
 
     // Register API routes with /api prefix and pass enhanced dependencies
@@ -4,11 +4,12 @@
  * Tests for the REST API infrastructure including middleware, routes,
  * error handling, and security features.
  * 
- * Requirements: 2.6, 2.7, 7.3, 10.1, 10.2, 10.5, 10.6
+ * Requirements: 2.6, 2.7, 7.3, 10.1, 10.2, 10.5, 10.6, 24.2, 24.3
  */
 
 import Fastify, { FastifyInstance } from 'fastify';
 import { registerAPIRoutes } from '../routes';
+import { HTTPServerDependencies } from '../../HTTPServer';
 import { 
   HTTP_STATUS, 
   API_ERROR_CODES,
@@ -58,6 +59,114 @@ describe('API Infrastructure', () => {
       });
       expect(body.timestamp).toBeDefined();
     });
+
+    it('should report YouTube quota, cache and failover status when available', async () => {
+      const quota = {
+        used: 300,
+        limit: 10000,
+        remaining: 9700,
+        resetsAt: new Date('2026-07-02T07:00:00Z'),
+        searchAvailable: true,
+        exhausted: false,
+      };
+      const cacheStats = { hits: 3, misses: 1, size: 1, hitRate: 0.75 };
+      const usageFastify = Fastify({ logger: false });
+      await registerAPIRoutes(usageFastify, {
+        queueService: {} as HTTPServerDependencies['queueService'],
+        playbackOrchestrator: {} as HTTPServerDependencies['playbackOrchestrator'],
+        youtubeUsage: {
+          getQuotaStatus: () => quota,
+          getCacheStats: () => ({ searches: cacheStats, videos: cacheStats }),
+          getFailoverStatus: () => ({ active: 'yt-dlp', circuit: 'open', consecutiveFailures: 3, retryAt: null }),
+        },
+      });
+      await usageFastify.ready();
+
+      const response = await usageFastify.inject({ method: 'GET', url: '/api/status' });
+      const body = JSON.parse(response.body) as APIResponse;
+
+      expect(body.data).toMatchObject({
+        youtube: {
+          quota: { ...quota, resetsAt: '2026-07-02T07:00:00.000Z' },
+          cache: { searches: cacheStats, videos: cacheStats },
+          failover: { active: 'yt-dlp', circuit: 'open' },
+        },
+      });
+      await usageFastify.close();
+    });
+  });
+
+  describe('Play History', () => {
+    const page = {
+      entries: [],
+      pagination: { currentPage: 2, totalResults: 0, resultsPerPage: 10, hasNextPage: false, hasPrevPage: true },
+    };
+    const historyService = {
+      query: jest.fn(() => page),
+      export: jest.fn(() => ({ contentType: 'text/csv; charset=utf-8', filename: 'party-history-2026-05-02.csv', body: 'ended_at\r\n' })),
+    };
+    let historyFastify: FastifyInstance;
+
+    beforeEach(async () => {
+      historyService.query.mockClear();
+      historyService.export.mockClear();
+      historyFastify = Fastify({ logger: false });
+      await registerAPIRoutes(historyFastify, {
+        queueService: {} as HTTPServerDependencies['queueService'],
+        playbackOrchestrator: {} as HTTPServerDependencies['playbackOrchestrator'],
+        historyService,
+      });
+      await historyFastify.ready();
+    });
+
+    afterEach(async () => {
+      await historyFastify.close();
+    });
+
+    it('should pass paging and filters to the history service', async () => {
+      const response = await historyFastify.inject({
+        method: 'GET',
+        url: '/api/history?page=2&limit=10&outcome=skipped&source=youtube&q=%20daft%20&from=2026-05-01T20:00:00Z',
+      });
+
+      expect(response.statusCode).toBe(HTTP_STATUS.OK);
+      expect(JSON.parse(response.body)).toMatchObject({ success: true, data: page });
+      expect(historyService.query).toHaveBeenCalledWith({
+        page: 2,
+        limit: 10,
+        outcome: 'skipped',
+        source: 'youtube',
+        search: 'daft',
+        from: new Date('2026-05-01T20:00:00Z'),
+      });
+    });
+
+    it('should reject unknown filter values', async () => {
+      const response = await historyFastify.inject({ method: 'GET', url: '/api/history?outcome=paused' });
+
+      expect(response.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+      expect((JSON.parse(response.body) as APIResponse).error).toMatchObject({
+        code: API_ERROR_CODES.VALIDATION_FAILED,
+        details: { field: 'outcome' },
+      });
+
+      const dateResponse = await historyFastify.inject({ method: 'GET', url: '/api/history?to=yesterday' });
+      expect(dateResponse.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+      expect(historyService.query).not.toHaveBeenCalled();
+    });
+
+    it('should send exports as a download', async () => {
+      const response = await historyFastify.inject({ method: 'GET', url: '/api/history/export?format=csv&userId=user-1' });
+
+      expect(response.statusCode).toBe(HTTP_STATUS.OK);
+      expect(response.headers['content-type']).toBe('text/csv; charset=utf-8');
+      expect(response.headers['content-disposition']).toBe('attachment; filename="party-history-2026-05-02.csv"');
+      expect(response.body).toBe('ended_at\r\n');
+      expect(historyService.export).toHaveBeenCalledWith('csv', { userId: 'user-1' });
+
+      const badFormat = await historyFastify.inject({ method: 'GET', url: '/api/history/export?format=xlsx' });
+      expect(badFormat.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+    });
   });
 
   describe('Security Headers', () => {
@@ -18,6 +18,9 @@ import {
 import { QueueManager } from '../../../../application/QueueManager';
 import { QueueService } from '../../../../application/QueueService';
 import { RateLimiter } from '../../../../application/RateLimiter';
+import { HostAuthService } from '../../../../application/HostAuthService';
+import { SkipVoteService } from '../../../../application/SkipVoteService';
+import { VolumeService } from '../../../../application/VolumeService';
 import { IPlaybackOrchestrator } from '../../../../domain/playback/interfaces';
 import { PlaybackState } from '../../../../domain/playback/types';
 
@@ -25,6 +28,7 @@ describe('Playback API Integration', () => {
   let fastify: FastifyInstance;
   let mockPlaybackOrchestrator: IPlaybackOrchestrator;
   let dependencies: HTTPServerDependencies;
+  let hostToken: string;
 
   beforeEach(async () => {
     // Create mock PlaybackOrchestrator
@@ -33,6 +37,7 @@ describe('Playback API Integration', () => {
       stop: jest.fn().mockResolvedValue({ success: true, value: undefined }),
       pause: jest.fn().mockResolvedValue({ success: true, value: undefined }),
       resume: jest.fn().mockResolvedValue({ success: true, value: undefined }),
+      seek: jest.fn().mockResolvedValue({ success: true, value: undefined }),
       skip: jest.fn().mockResolvedValue({ success: true, value: undefined }),
       setVolume: jest.fn().mockResolvedValue({ success: true, value: undefined }),
       getCurrentState: jest.fn().mockReturnValue({
@@ -51,9 +56,16 @@ describe('Playback API Integration', () => {
     const rateLimiter = new RateLimiter();
     const queueService = new QueueService(queueManager, rateLimiter);
     
+    // Playback controls are host-only, so unlock a host token up front
+    const hostAuthService = new HostAuthService({ pin: '1234' });
+    const unlockResult = hostAuthService.unlock('1234', 'test');
+    hostToken = unlockResult.success ? unlockResult.value : '';
+    
     dependencies = {
       queueService,
       playbackOrchestrator: mockPlaybackOrchestrator,
+      hostAuthService,
+      volumeService: new VolumeService(mockPlaybackOrchestrator),
     };
 
     fastify = Fastify({ logger: false });
@@ -117,6 +129,7 @@ describe('Playback API Integration', () => {
       const response = await fastify.inject({
         method: 'POST',
         url: '/api/playback/skip',
+        headers: { 'x-host-token': hostToken },
       });
 
       expect(response.statusCode).toBe(HTTP_STATUS.OK);
@@ -141,6 +154,7 @@ describe('Playback API Integration', () => {
       const response = await fastify.inject({
         method: 'POST',
         url: '/api/playback/skip',
+        headers: { 'x-host-token': hostToken },
       });
 
       expect(response.statusCode).toBe(HTTP_STATUS.INTERNAL_SERVER_ERROR);
@@ -166,6 +180,7 @@ describe('Playback API Integration', () => {
       const response = await fastify.inject({
         method: 'POST',
         url: '/api/playback/pause',
+        headers: { 'x-host-token': hostToken },
       });
 
       expect(response.statusCode).toBe(HTTP_STATUS.OK);
@@ -191,6 +206,7 @@ describe('Playback API Integration', () => {
       const response = await fastify.inject({
         method: 'POST',
         url: '/api/playback/pause',
+        headers: { 'x-host-token': hostToken },
       });
 
       expect(response.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
@@ -217,6 +233,7 @@ describe('Playback API Integration', () => {
       const response = await fastify.inject({
         method: 'POST',
         url: '/api/playback/resume',
+        headers: { 'x-host-token': hostToken },
       });
 
       expect(response.statusCode).toBe(HTTP_STATUS.OK);
@@ -242,6 +259,7 @@ describe('Playback API Integration', () => {
       const response = await fastify.inject({
         method: 'POST',
         url: '/api/playback/resume',
+        headers: { 'x-host-token': hostToken },
       });
 
       expect(response.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
@@ -254,6 +272,319 @@ describe('Playback API Integration', () => {
     });
   });
 
+  describe('POST /api/playback/seek', () => {
+    it('should seek to an absolute position', async () => {
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/api/playback/seek',
+        headers: { 'x-host-token': hostToken },
+        payload: { position: 95 },
+      });
+
+      expect(response.statusCode).toBe(HTTP_STATUS.OK);
+      
+      const body = JSON.parse(response.body) as PlaybackActionResponse;
+      expect(body.success).toBe(true);
+      expect(body.data?.action).toBe('seek');
+      expect(mockPlaybackOrchestrator.seek).toHaveBeenCalledWith(95, 'absolute');
+    });
+
+    it('should seek relative to the current position', async () => {
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/api/playback/seek',
+        headers: { 'x-host-token': hostToken },
+        payload: { offset: -10 },
+      });
+
+      expect(response.statusCode).toBe(HTTP_STATUS.OK);
+      expect(mockPlaybackOrchestrator.seek).toHaveBeenCalledWith(-10, 'relative');
+    });
+
+    it('should require exactly one of position or offset', async () => {
+      for (const payload of [{}, { position: 10, offset: 5 }, { position: -1 }, { offset: 'ten' }]) {
+        const response = await fastify.inject({
+          method: 'POST',
+          url: '/api/playback/seek',
+          headers: { 'x-host-token': hostToken },
+          payload,
+        });
+
+        expect(response.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+        expect(JSON.parse(response.body).error?.code).toBe(API_ERROR_CODES.VALIDATION_FAILED);
+      }
+      expect(mockPlaybackOrchestrator.seek).not.toHaveBeenCalled();
+    });
+
+    it('should reject seeking when nothing is playing', async () => {
+      (mockPlaybackOrchestrator.seek as jest.Mock).mockResolvedValue({ success: false, error: 'NOTHING_PLAYING' });
+
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/api/playback/seek',
+        headers: { 'x-host-token': hostToken },
+        payload: { position: 10 },
+      });
+
+      expect(response.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+      expect(JSON.parse(response.body).error?.code).toBe(API_ERROR_CODES.INVALID_REQUEST);
+    });
+  });
+
+  describe('Volume control', () => {
+    it('should return the current volume state', async () => {
+      const response = await fastify.inject({ method: 'GET', url: '/api/playback/volume' });
+
+      expect(response.statusCode).toBe(HTTP_STATUS.OK);
+      expect(JSON.parse(response.body).data).toEqual({
+        level: 50,
+        muted: false,
+        maxVolume: 100,
+        ducked: false,
+        effectiveVolume: 50,
+      });
+    });
+
+    it('should let guests set the level within the host cap', async () => {
+      (mockPlaybackOrchestrator.getCurrentState as jest.Mock).mockReturnValue({
+        status: 'playing',
+        currentTrack: null,
+        position: 0,
+        duration: 180,
+        volume: 50,
+      });
+
+      await fastify.inject({
+        method: 'POST',
+        url: '/api/playback/volume',
+        headers: { 'x-host-token': hostToken },
+        payload: { maxVolume: 60 },
+      });
+
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/api/playback/volume',
+        payload: { level: 95 },
+      });
+
+      expect(response.statusCode).toBe(HTTP_STATUS.OK);
+      expect(JSON.parse(response.body).data).toMatchObject({ level: 60, maxVolume: 60 });
+      expect(mockPlaybackOrchestrator.setVolume).toHaveBeenLastCalledWith(60);
+    });
+
+    it('should let guests mute but not change the cap or duck', async () => {
+      const capResponse = await fastify.inject({
+        method: 'POST',
+        url: '/api/playback/volume',
+        payload: { maxVolume: 100, level: 100 },
+      });
+      const duckResponse = await fastify.inject({ method: 'POST', url: '/api/playback/volume/duck', payload: {} });
+
+      expect(capResponse.statusCode).toBe(HTTP_STATUS.FORBIDDEN);
+      expect(JSON.parse(capResponse.body).error?.code).toBe(API_ERROR_CODES.INSUFFICIENT_PERMISSIONS);
+      expect(duckResponse.statusCode).toBe(HTTP_STATUS.FORBIDDEN);
+
+      const muteResponse = await fastify.inject({ method: 'POST', url: '/api/playback/volume', payload: { muted: true } });
+
+      expect(muteResponse.statusCode).toBe(HTTP_STATUS.OK);
+      expect(JSON.parse(muteResponse.body).data).toMatchObject({ muted: true, level: 50, maxVolume: 100 });
+    });
+
+    it('should let the host set the level, mute and the cap together', async () => {
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/api/playback/volume',
+        headers: { 'x-host-token': hostToken },
+        payload: { level: 70, muted: false, maxVolume: 80 },
+      });
+
+      expect(response.statusCode).toBe(HTTP_STATUS.OK);
+      expect(JSON.parse(response.body).data).toMatchObject({ level: 70, muted: false, maxVolume: 80 });
+    });
+
+    it('should store the volume before the player has started', async () => {
+      (mockPlaybackOrchestrator.setVolume as jest.Mock).mockResolvedValue({ success: false, error: 'MPV_NOT_RESPONDING' });
+
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/api/playback/volume',
+        headers: { 'x-host-token': hostToken },
+        payload: { level: 30 },
+      });
+
+      expect(response.statusCode).toBe(HTTP_STATUS.OK);
+      expect(JSON.parse(response.body).data).toMatchObject({ level: 30, effectiveVolume: 30 });
+    });
+
+    it('should reject out-of-range levels', async () => {
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/api/playback/volume',
+        headers: { 'x-host-token': hostToken },
+        payload: { level: 150 },
+      });
+
+      expect(response.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+      expect(JSON.parse(response.body).error?.code).toBe(API_ERROR_CODES.VALIDATION_FAILED);
+    });
+
+    it('should duck and restore the volume for the host', async () => {
+      const duckResponse = await fastify.inject({
+        method: 'POST',
+        url: '/api/playback/volume/duck',
+        headers: { 'x-host-token': hostToken },
+        payload: { level: 10 },
+      });
+      expect(JSON.parse(duckResponse.body).data).toMatchObject({ ducked: true, effectiveVolume: 10 });
+
+      const restoreResponse = await fastify.inject({
+        method: 'DELETE',
+        url: '/api/playback/volume/duck',
+        headers: { 'x-host-token': hostToken },
+      });
+      expect(JSON.parse(restoreResponse.body).data).toMatchObject({ ducked: false, effectiveVolume: 50 });
+    });
+  });
+
+  describe('Host role', () => {
+    it('should reject playback controls from guests', async () => {
+      for (const action of ['skip', 'pause', 'resume']) {
+        const response = await fastify.inject({
+          method: 'POST',
+          url: `/api/playback/${action}`,
+        });
+
+        expect(response.statusCode).toBe(HTTP_STATUS.FORBIDDEN);
+        
+        const body = JSON.parse(response.body) as PlaybackActionResponse;
+        expect(body.success).toBe(false);
+        expect(body.error?.code).toBe(API_ERROR_CODES.INSUFFICIENT_PERMISSIONS);
+      }
+
+      expect(mockPlaybackOrchestrator.skip).not.toHaveBeenCalled();
+      expect(mockPlaybackOrchestrator.pause).not.toHaveBeenCalled();
+      expect(mockPlaybackOrchestrator.resume).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown host token', async () => {
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/api/playback/skip',
+        headers: { 'x-host-token': 'not-a-real-token' },
+      });
+
+      expect(response.statusCode).toBe(HTTP_STATUS.FORBIDDEN);
+      expect(mockPlaybackOrchestrator.skip).not.toHaveBeenCalled();
+    });
+
+    it('should issue a working host token for the correct PIN', async () => {
+      const unlockResponse = await fastify.inject({
+        method: 'POST',
+        url: '/api/host/unlock',
+        payload: { pin: '1234' },
+      });
+
+      expect(unlockResponse.statusCode).toBe(HTTP_STATUS.OK);
+      const unlockBody = JSON.parse(unlockResponse.body);
+      expect(unlockBody.data.role).toBe('host');
+
+      const skipResponse = await fastify.inject({
+        method: 'POST',
+        url: '/api/playback/skip',
+        headers: { 'x-host-token': unlockBody.data.token },
+      });
+
+      expect(skipResponse.statusCode).toBe(HTTP_STATUS.OK);
+      expect(mockPlaybackOrchestrator.skip).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject an incorrect PIN and lock out repeated guesses', async () => {
+      const attempt = () => fastify.inject({
+        method: 'POST',
+        url: '/api/host/unlock',
+        payload: { pin: '0000' },
+      });
+
+      for (let i = 0; i < 5; i++) {
+        const response = await attempt();
+        expect(response.statusCode).toBe(HTTP_STATUS.UNAUTHORIZED);
+        expect(JSON.parse(response.body).error.code).toBe(API_ERROR_CODES.INVALID_PIN);
+      }
+
+      const lockedOut = await attempt();
+      expect(lockedOut.statusCode).toBe(HTTP_STATUS.TOO_MANY_REQUESTS);
+      expect(JSON.parse(lockedOut.body).error.code).toBe(API_ERROR_CODES.TOO_MANY_ATTEMPTS);
+    });
+  });
+
+  describe('POST /api/playback/vote-skip', () => {
+    beforeEach(async () => {
+      await fastify.close();
+
+      // Something has to be playing for votes to count
+      (mockPlaybackOrchestrator.getCurrentState as jest.Mock).mockReturnValue({
+        status: 'playing',
+        currentTrack: { id: 'item-1', track: { title: 'Song' }, addedBy: { id: 'u', nickname: 'Guest' } },
+        position: 10,
+        duration: 180,
+        volume: 50,
+      });
+
+      fastify = Fastify({ logger: false });
+      await fastify.register(require('@fastify/cors'), { origin: true, credentials: false });
+      await registerAPIRoutes(fastify, {
+        ...dependencies,
+        skipVoteService: new SkipVoteService(mockPlaybackOrchestrator),
+      });
+      await fastify.ready();
+    });
+
+    it('should let any guest vote and skip once the threshold is passed', async () => {
+      // No controllers are connected here; each voter still counts as eligible
+      const vote = (userId: string) => fastify.inject({
+        method: 'POST',
+        url: '/api/playback/vote-skip',
+        headers: { 'x-user-id': userId },
+      });
+
+      const first = JSON.parse((await vote('guest-1')).body);
+      expect(first.data.skipped).toBe(false);
+      expect(first.data.tally).toMatchObject({ queueItemId: 'item-1', votes: 1, required: 2, eligibleVoters: 1 });
+      expect(mockPlaybackOrchestrator.skip).not.toHaveBeenCalled();
+
+      const response = await vote('guest-2');
+      expect(response.statusCode).toBe(HTTP_STATUS.OK);
+      const body = JSON.parse(response.body);
+      expect(body.data.skipped).toBe(true);
+      expect(body.data.tally).toMatchObject({ votes: 2, required: 2, eligibleVoters: 2 });
+      expect(mockPlaybackOrchestrator.skip).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject a second vote from the same guest', async () => {
+      const vote = () => fastify.inject({
+        method: 'POST',
+        url: '/api/playback/vote-skip',
+        headers: { 'x-user-id': 'guest-1' },
+      });
+
+      await vote();
+      const response = await vote();
+
+      expect(response.statusCode).toBe(HTTP_STATUS.CONFLICT);
+      expect(JSON.parse(response.body).error.code).toBe(API_ERROR_CODES.ALREADY_VOTED);
+    });
+
+    it('should require a user ID', async () => {
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/api/playback/vote-skip',
+      });
+
+      expect(response.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+      expect(mockPlaybackOrchestrator.skip).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Service Unavailable Fallback', () => {
     it('should return service unavailable when playback orchestrator is missing', async () => {
       const fallbackFastify = Fastify({ logger: false });
@@ -16,9 +16,10 @@ import { QueueManager } from '../../../../application/QueueManager';
 import { QueueService } from '../../../../application/QueueService';
 import { RateLimiter } from '../../../../application/RateLimiter';
 import { PlaybackOrchestrator } from '../../../../application/PlaybackOrchestrator';
+import { HostAuthService } from '../../../../application/HostAuthService';
 import { IStreamResolver, IPlaybackController } from '../../../../domain/playback/interfaces';
 import { PlaybackState, ResolvedStream } from '../../../../domain/playback/types';
-import { TrackValidator, UserValidator } from '@party-jukebox/shared';
+import { Track, TrackValidator, UserValidator } from '@party-jukebox/shared';
 
 describe('Playback Skip Race Condition', () => {
   let fastify: FastifyInstance;
@@ -26,6 +27,7 @@ describe('Playback Skip Race Condition', () => {
   let queueService: QueueService;
   let mockStreamResolver: IStreamResolver;
   let mockPlaybackController: IPlaybackController;
+  let hostToken: string;
 
   beforeEach(async () => {
     // Create real services
@@ -35,7 +37,8 @@ describe('Playback Skip Race Condition', () => {
 
     // Create mock stream resolver with realistic delay
     mockStreamResolver = {
-      resolveStream: jest.fn().mockImplementation(async (_url: string) => {
+      resolveStream: jest.fn(),
+      resolveTrack: jest.fn().mockImplementation(async (_track: Track) => {
         // Add a small delay to simulate real stream resolution
         await new Promise(resolve => setTimeout(resolve, 50));
         return {
@@ -62,6 +65,7 @@ describe('Playback Skip Race Condition', () => {
       }),
       pause: jest.fn().mockResolvedValue({ success: true, value: undefined }),
       resume: jest.fn().mockResolvedValue({ success: true, value: undefined }),
+      seek: jest.fn().mockResolvedValue({ success: true, value: undefined }),
       stop: jest.fn().mockImplementation(async () => {
         // Add a small delay to simulate real stop operation
         await new Promise(resolve => setTimeout(resolve, 10));
@@ -99,9 +103,15 @@ describe('Playback Skip Race Condition', () => {
       credentials: false,
     });
     
+    // Skip is host-only, so unlock a host token up front
+    const hostAuthService = new HostAuthService({ pin: '1234' });
+    const unlockResult = hostAuthService.unlock('1234', 'test');
+    hostToken = unlockResult.success ? unlockResult.value : '';
+    
     const dependencies: HTTPServerDependencies = {
       queueService,
       playbackOrchestrator,
+      hostAuthService,
     };
     
     await registerAPIRoutes(fastify, dependencies);
@@ -124,7 +134,8 @@ describe('Playback Skip Race Condition', () => {
       const trackResult = TrackValidator.create({
         title: `Track ${i}`,
         artist: `Artist ${i}`,
-        videoId: `track${i}00000`.substring(0, 11),
+        source: 'youtube',
+        sourceId: `track${i}00000`.substring(0, 11),
         duration: 180
       });
       if (!trackResult.success) throw new Error(`Failed to create track ${i}`);
@@ -156,6 +167,7 @@ describe('Playback Skip Race Condition', () => {
     const skipResponse = await fastify.inject({
       method: 'POST',
       url: '/api/playback/skip',
+      headers: { 'x-host-token': hostToken },
     });
 
     expect(skipResponse.statusCode).toBe(HTTP_STATUS.OK);
@@ -203,7 +215,8 @@ describe('Playback Skip Race Condition', () => {
       const trackResult = TrackValidator.create({
         title: `Track ${i}`,
         artist: `Artist ${i}`,
-        videoId: `track${i}00000`.substring(0, 11),
+        source: 'youtube',
+        sourceId: `track${i}00000`.substring(0, 11),
         duration: 180
       });
       if (!trackResult.success) throw new Error(`Failed to create track ${i}`);
@@ -222,6 +235,7 @@ describe('Playback Skip Race Condition', () => {
         fastify.inject({
           method: 'POST',
           url: '/api/playback/skip',
+          headers: { 'x-host-token': hostToken },
         })
       );
     }
@@ -256,7 +270,8 @@ describe('Playback Skip Race Condition', () => {
       const trackResult = TrackValidator.create({
         title: `Song ${i}`,
         artist: `Artist ${i}`,
-        videoId: `song${i}000000`.substring(0, 11),
+        source: 'youtube',
+        sourceId: `song${i}000000`.substring(0, 11),
         duration: 180
       });
       if (!trackResult.success) throw new Error(`Failed to create track ${i}`);
@@ -290,6 +305,7 @@ describe('Playback Skip Race Condition', () => {
     const skipResponse = await fastify.inject({
       method: 'POST',
       url: '/api/playback/skip',
+      headers: { 'x-host-token': hostToken },
     });
 
     expect(skipResponse.statusCode).toBe(HTTP_STATUS.OK);
@@ -329,7 +345,8 @@ describe('Playback Skip Race Condition', () => {
       const trackResult = TrackValidator.create({
         title: `Song ${i}`,
         artist: `Artist ${i}`,
-        videoId: `song${i}000000`.substring(0, 11),
+        source: 'youtube',
+        sourceId: `song${i}000000`.substring(0, 11),
         duration: 180
       });
       if (!trackResult.success) throw new Error(`Failed to create track ${i}`);
@@ -355,6 +372,7 @@ describe('Playback Skip Race Condition', () => {
     const skipResponse = await fastify.inject({
       method: 'POST',
       url: '/api/playback/skip',
+      headers: { 'x-host-token': hostToken },
     });
 
     expect(skipResponse.statusCode).toBe(HTTP_STATUS.OK);
@@ -14,13 +14,19 @@ import {
   API_ERROR_CODES,
   AddTrackRequest,
   AddTrackResponse,
-  QueueStateResponse
+  QueueStateResponse,
+  QueueItemActionResponse
 } from '../types';
 import { QueueManager } from '../../../../application/QueueManager';
 import { QueueService, IQueueService } from '../../../../application/QueueService';
 import { RateLimiter } from '../../../../application/RateLimiter';
+import { ContentPolicyService } from '../../../../application/ContentPolicyService';
+import { HostAuthService } from '../../../../application/HostAuthService';
+import { GuestSessionService } from '../../../../application/GuestSessionService';
 import { IPlaybackOrchestrator } from '../../../../domain/playback/interfaces';
 import { PlaybackState } from '../../../../domain/playback/types';
+import { TrackSourceRegistry } from '../../../sources/TrackSourceRegistry';
+import { LocalSourceProvider } from '../../../library/LocalSourceProvider';
 
 describe('Queue API Integration', () => {
   let fastify: FastifyInstance;
@@ -40,6 +46,7 @@ describe('Queue API Integration', () => {
       stop: jest.fn().mockResolvedValue({ success: true, value: undefined }),
       pause: jest.fn().mockResolvedValue({ success: true, value: undefined }),
       resume: jest.fn().mockResolvedValue({ success: true, value: undefined }),
+      seek: jest.fn().mockResolvedValue({ success: true, value: undefined }),
       skip: jest.fn().mockResolvedValue({ success: true, value: undefined }),
       setVolume: jest.fn().mockResolvedValue({ success: true, value: undefined }),
       getCurrentState: jest.fn().mockReturnValue({
@@ -74,6 +81,24 @@ describe('Queue API Integration', () => {
     await fastify.close();
   });
 
+  // Each added song gets its own video so it isn't turned away as a duplicate
+  let nextVideo = 0;
+  const addTrackAs = async (userId: string, title: string) => {
+    const response = await fastify.inject({
+      method: 'POST',
+      url: '/api/queue/add',
+      headers: {
+        'content-type': 'application/json',
+        'x-user-id': userId,
+      },
+      payload: JSON.stringify({
+        track: { title, artist: 'Test Artist', videoId: `test${String(nextVideo++).padStart(7, '0')}`, duration: 180 },
+        user: { nickname: userId },
+      }),
+    });
+    return (JSON.parse(response.body) as AddTrackResponse).data!.queueItem;
+  };
+
   describe('GET /api/queue', () => {
     it('should return empty queue state initially', async () => {
       const response = await fastify.inject({
@@ -285,7 +310,7 @@ describe('Queue API Integration', () => {
           },
           payload: JSON.stringify({
             ...payload,
-            track: { ...payload.track, title: `Test Song ${i + 1}` },
+            track: { ...payload.track, title: `Test Song ${i + 1}`, videoId: `test${i}234567` },
           }),
         });
 
@@ -318,6 +343,33 @@ describe('Queue API Integration', () => {
       expect(rateLimitedResponse.headers['retry-after']).toBeDefined();
     });
 
+    it('should reject a song that is already queued with 409 and where it sits', async () => {
+      await addTrackAs('guest-a', 'Now Playing');
+      await addTrackAs('guest-a', 'Queued Song');
+
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/api/queue/add',
+        headers: { 'content-type': 'application/json', 'x-user-id': 'guest-b' },
+        payload: JSON.stringify({
+          track: { title: 'Test Artist - Queued Song (Official Video)', artist: 'Test Artist VEVO', videoId: 'othr1234567', duration: 200 },
+          user: { nickname: 'guest-b' },
+        }),
+      });
+
+      expect(response.statusCode).toBe(HTTP_STATUS.CONFLICT);
+      const body = JSON.parse(response.body) as AddTrackResponse;
+      expect(body.error?.code).toBe(API_ERROR_CODES.DUPLICATE_REQUEST);
+      expect(body.error?.details).toMatchObject({
+        reason: 'queued',
+        match: 'same_song',
+        position: 1,
+        addedBy: 'guest-a',
+        track: { title: 'Queued Song' },
+      });
+      expect(queueService.getQueueState().totalLength).toBe(2);
+    });
+
     it('should handle malformed JSON gracefully', async () => {
       const response = await fastify.inject({
         method: 'POST',
@@ -336,6 +388,586 @@ describe('Queue API Integration', () => {
     });
   });
 
+  describe('DELETE and PATCH /api/queue/:id', () => {
+    it('should let a guest remove their own upcoming track', async () => {
+      await addTrackAs('guest-a', 'Now Playing');
+      const own = await addTrackAs('guest-b', 'Own Song');
+
+      expect(own.addedBy.id).toBe('guest-b');
+
+      const response = await fastify.inject({
+        method: 'DELETE',
+        url: `/api/queue/${own.id}`,
+        headers: { 'x-user-id': 'guest-b' },
+      });
+
+      expect(response.statusCode).toBe(HTTP_STATUS.OK);
+      
+      const body = JSON.parse(response.body) as QueueItemActionResponse;
+      expect(body.success).toBe(true);
+      expect(body.data?.action).toBe('remove');
+      expect(body.data?.queueItem.id).toBe(own.id);
+      expect(body.data?.queue.upcomingTracks).toEqual([]);
+    });
+
+    it('should forbid removing another guest\'s track', async () => {
+      await addTrackAs('guest-a', 'Now Playing');
+      const other = await addTrackAs('guest-a', 'Not Yours');
+
+      const response = await fastify.inject({
+        method: 'DELETE',
+        url: `/api/queue/${other.id}`,
+        headers: { 'x-user-id': 'guest-b' },
+      });
+
+      expect(response.statusCode).toBe(HTTP_STATUS.FORBIDDEN);
+      
+      const body = JSON.parse(response.body) as QueueItemActionResponse;
+      expect(body.error?.code).toBe(API_ERROR_CODES.INSUFFICIENT_PERMISSIONS);
+      expect(queueService.getQueueState().upcomingTracks).toHaveLength(1);
+    });
+
+    it('should return 404 for unknown queue items', async () => {
+      const response = await fastify.inject({
+        method: 'DELETE',
+        url: '/api/queue/does-not-exist',
+        headers: { 'x-user-id': 'guest-a' },
+      });
+
+      expect(response.statusCode).toBe(HTTP_STATUS.NOT_FOUND);
+      expect(JSON.parse(response.body).error?.code).toBe(API_ERROR_CODES.TRACK_NOT_FOUND);
+    });
+
+    it('should require host rights to move or promote tracks', async () => {
+      await addTrackAs('guest-a', 'Now Playing');
+      await addTrackAs('guest-a', 'First');
+      const second = await addTrackAs('guest-a', 'Second');
+
+      const response = await fastify.inject({
+        method: 'PATCH',
+        url: `/api/queue/${second.id}`,
+        headers: { 'content-type': 'application/json', 'x-user-id': 'guest-a' },
+        payload: JSON.stringify({ promote: true }),
+      });
+
+      expect(response.statusCode).toBe(HTTP_STATUS.FORBIDDEN);
+      expect(queueService.getQueueState().upcomingTracks[1].id).toBe(second.id);
+    });
+
+    it('should refuse to move tracks while votes or fair share order the queue', async () => {
+      const hostAuthService = new HostAuthService({ pin: '1234' });
+      const unlockResult = hostAuthService.unlock('1234', 'test');
+      const hostToken = unlockResult.success ? unlockResult.value : '';
+      const hostFastify = Fastify({ logger: false });
+      await registerAPIRoutes(hostFastify, { ...dependencies, hostAuthService });
+      await hostFastify.ready();
+
+      await addTrackAs('guest-a', 'Now Playing');
+      await addTrackAs('guest-a', 'First');
+      const second = await addTrackAs('guest-b', 'Second');
+      queueService.setOrderingMode('fair', { userId: 'host', isHost: true });
+
+      const response = await hostFastify.inject({
+        method: 'PATCH',
+        url: `/api/queue/${second.id}`,
+        headers: { 'content-type': 'application/json', 'x-host-token': hostToken },
+        payload: JSON.stringify({ promote: true }),
+      });
+      await hostFastify.close();
+
+      expect(response.statusCode).toBe(HTTP_STATUS.CONFLICT);
+      expect(JSON.parse(response.body).error?.code).toBe(API_ERROR_CODES.REORDER_DISABLED);
+    });
+
+    it('should reject a PATCH body without position or promote', async () => {
+      const response = await fastify.inject({
+        method: 'PATCH',
+        url: '/api/queue/some-id',
+        headers: { 'content-type': 'application/json' },
+        payload: JSON.stringify({}),
+      });
+
+      expect(response.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+      expect(JSON.parse(response.body).error?.code).toBe(API_ERROR_CODES.VALIDATION_FAILED);
+    });
+  });
+
+  describe('POST /api/queue/:id/vote and PUT /api/queue/ordering', () => {
+    const voteAs = (userId: string, queueItemId: string, direction: 'up' | 'down') => fastify.inject({
+      method: 'POST',
+      url: `/api/queue/${queueItemId}/vote`,
+      headers: { 'content-type': 'application/json', 'x-user-id': userId },
+      payload: JSON.stringify({ direction }),
+    });
+
+    it('should reject votes while the queue is in FIFO mode', async () => {
+      await addTrackAs('guest-a', 'Now Playing');
+      const upcoming = await addTrackAs('guest-a', 'Upcoming');
+
+      const response = await voteAs('guest-b', upcoming.id, 'up');
+
+      expect(response.statusCode).toBe(HTTP_STATUS.CONFLICT);
+      expect(JSON.parse(response.body).error?.code).toBe(API_ERROR_CODES.VOTING_DISABLED);
+    });
+
+    it('should re-sort upcoming tracks by score and expose scores', async () => {
+      await addTrackAs('guest-a', 'Now Playing');
+      const first = await addTrackAs('guest-a', 'First');
+      const second = await addTrackAs('guest-a', 'Second');
+      queueService.setOrderingMode('vote', { userId: 'host', isHost: true });
+
+      const response = await voteAs('guest-b', second.id, 'up');
+
+      expect(response.statusCode).toBe(HTTP_STATUS.OK);
+      const body = JSON.parse(response.body) as QueueItemActionResponse;
+      expect(body.data?.action).toBe('vote');
+      expect(body.data?.queue.orderingMode).toBe('vote');
+      expect(body.data?.queue.upcomingTracks.map(item => item.id)).toEqual([second.id, first.id]);
+      expect(body.data?.queue.scores).toEqual({ [second.id]: 1, [first.id]: 0 });
+    });
+
+    it('should allow one vote per user per track', async () => {
+      await addTrackAs('guest-a', 'Now Playing');
+      const upcoming = await addTrackAs('guest-a', 'Upcoming');
+      queueService.setOrderingMode('vote', { userId: 'host', isHost: true });
+
+      await voteAs('guest-b', upcoming.id, 'down');
+      const duplicate = await voteAs('guest-b', upcoming.id, 'down');
+
+      expect(duplicate.statusCode).toBe(HTTP_STATUS.CONFLICT);
+      expect(JSON.parse(duplicate.body).error?.code).toBe(API_ERROR_CODES.ALREADY_VOTED);
+      expect(queueService.getQueueState().scores[upcoming.id]).toBe(-1);
+    });
+
+    it('should require a user ID and a valid direction', async () => {
+      const missingUser = await fastify.inject({
+        method: 'POST',
+        url: '/api/queue/some-id/vote',
+        headers: { 'content-type': 'application/json' },
+        payload: JSON.stringify({ direction: 'up' }),
+      });
+      const badDirection = await voteAs('guest-a', 'some-id', 'sideways' as 'up');
+
+      expect(missingUser.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+      expect(badDirection.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+      expect(JSON.parse(badDirection.body).error?.code).toBe(API_ERROR_CODES.VALIDATION_FAILED);
+    });
+
+    it('should only let the host change the ordering mode', async () => {
+      const response = await fastify.inject({
+        method: 'PUT',
+        url: '/api/queue/ordering',
+        headers: { 'content-type': 'application/json', 'x-user-id': 'guest-a' },
+        payload: JSON.stringify({ mode: 'vote' }),
+      });
+
+      expect(response.statusCode).toBe(HTTP_STATUS.FORBIDDEN);
+      expect(queueService.getQueueState().orderingMode).toBe('fifo');
+    });
+  });
+
+  describe('GET /api/queue/prefetch', () => {
+    it('should report the prefetch status of upcoming tracks', async () => {
+      const prefetchService = {
+        getStatuses: jest.fn().mockReturnValue({ 'item-1': 'ready', 'item-2': 'resolving' }),
+        getStatus: jest.fn(),
+        addEventListener: jest.fn(),
+        removeEventListener: jest.fn(),
+      };
+      const prefetchFastify = Fastify({ logger: false });
+      await registerAPIRoutes(prefetchFastify, { ...dependencies, prefetchService });
+      await prefetchFastify.ready();
+
+      const response = await prefetchFastify.inject({
+        method: 'GET',
+        url: '/api/queue/prefetch',
+      });
+
+      expect(response.statusCode).toBe(HTTP_STATUS.OK);
+      const body = JSON.parse(response.body);
+      expect(body.data.statuses).toEqual({ 'item-1': 'ready', 'item-2': 'resolving' });
+
+      await prefetchFastify.close();
+    });
+
+    it('should return 503 when prefetching is not available', async () => {
+      const response = await fastify.inject({
+        method: 'GET',
+        url: '/api/queue/prefetch',
+      });
+
+      expect(response.statusCode).toBe(HTTP_STATUS.SERVICE_UNAVAILABLE);
+    });
+  });
+
+  describe('Track sources', () => {
+    const libraryTrack = {
+      id: '0123456789abcdef',
+      path: '/music/indexed.flac',
+      title: 'Indexed Title',
+      artist: 'Indexed Artist',
+      duration: 240,
+      size: 1000,
+      modifiedAt: 0,
+    };
+
+    const addSourceTrack = (app: FastifyInstance, source: string, sourceId: string) => app.inject({
+      method: 'POST',
+      url: '/api/queue/add',
+      headers: { 'content-type': 'application/json' },
+      payload: JSON.stringify({
+        track: { title: 'Sent Title', artist: 'Sent Artist', source, sourceId, duration: 1 },
+        user: { nickname: 'Guest' },
+      }),
+    });
+
+    it('should queue local tracks with the metadata from the library index', async () => {
+      const localLibraryService = {
+        getStatus: jest.fn(),
+        getTrack: jest.fn((id: string) => (id === libraryTrack.id ? libraryTrack : null)),
+        search: jest.fn(),
+        getCoverArtUrl: jest.fn(() => undefined),
+        resolveStream: jest.fn(),
+        getCoverArt: jest.fn(),
+        rescan: jest.fn(),
+      };
+      const trackSources = new TrackSourceRegistry([new LocalSourceProvider(localLibraryService)]);
+      const sourcesFastify = Fastify({ logger: false });
+      await registerAPIRoutes(sourcesFastify, { ...dependencies, localLibraryService, trackSources });
+      await sourcesFastify.ready();
+
+      const response = await addSourceTrack(sourcesFastify, 'local', libraryTrack.id);
+      const unknown = await addSourceTrack(sourcesFastify, 'local', 'fedcba9876543210');
+      const unconfigured = await addSourceTrack(sourcesFastify, 'soundcloud', 'artist/song');
+
+      expect(response.statusCode).toBe(HTTP_STATUS.CREATED);
+      expect(JSON.parse(response.body).data.queueItem.track).toEqual({
+        id: expect.any(String),
+        title: 'Indexed Title',
+        artist: 'Indexed Artist',
+        source: 'local',
+        sourceId: libraryTrack.id,
+        duration: 240,
+      });
+      expect(JSON.parse(unknown.body).error.details.error).toBe('INVALID_SOURCE_ID');
+      expect(JSON.parse(unconfigured.body).error.details.error).toBe('INVALID_SOURCE');
+
+      await sourcesFastify.close();
+    });
+
+    it('should only accept YouTube tracks when no sources are configured', async () => {
+      const response = await addSourceTrack(fastify, 'local', libraryTrack.id);
+      const youtube = await addSourceTrack(fastify, 'youtube', 'test1234567');
+
+      expect(response.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+      expect(JSON.parse(response.body).error.code).toBe(API_ERROR_CODES.INVALID_TRACK_DATA);
+      expect(youtube.statusCode).toBe(HTTP_STATUS.CREATED);
+      expect(JSON.parse(youtube.body).data.queueItem.track).toMatchObject({ source: 'youtube', sourceId: 'test1234567' });
+    });
+  });
+
+  describe('Content policy', () => {
+    let policyFastify: FastifyInstance;
+    let hostToken: string;
+    let lookup: jest.Mock;
+
+    beforeEach(async () => {
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+      // The source reports the real length, whatever the guest sends
+      const trackSources = new TrackSourceRegistry([{
+        source: 'youtube',
+        validateSourceId: () => true,
+        getTrackUrl: () => null,
+        getThumbnailUrl: () => undefined,
+        resolveStream: jest.fn(),
+        lookup: lookup = jest.fn(async (sourceIds: string[]) => sourceIds.map(sourceId => ({
+          source: 'youtube' as const,
+          sourceId,
+          title: 'Rain Sounds 10 Hours',
+          artist: 'Relax',
+          duration: 36000,
+          thumbnailUrl: '',
+          channelTitle: 'Relax',
+          publishedAt: '',
+        }))),
+      }]);
+      const contentPolicyService = new ContentPolicyService(trackSources);
+      const hostAuthService = new HostAuthService({ pin: '1234' });
+      const unlockResult = hostAuthService.unlock('1234', 'test');
+      hostToken = unlockResult.success ? unlockResult.value : '';
+
+      policyFastify = Fastify({ logger: false });
+      await registerAPIRoutes(policyFastify, {
+        ...dependencies,
+        queueService: new QueueService(new QueueManager(), new RateLimiter(), { contentPolicy: contentPolicyService }),
+        trackSources,
+        hostAuthService,
+        contentPolicyService,
+      });
+      await policyFastify.ready();
+    });
+
+    afterEach(async () => {
+      await policyFastify.close();
+      jest.restoreAllMocks();
+    });
+
+    it('should reject a track that breaks a rule with 403 and the rule it broke', async () => {
+      const response = await policyFastify.inject({
+        method: 'POST',
+        url: '/api/queue/add',
+        headers: { 'content-type': 'application/json' },
+        payload: JSON.stringify({
+          track: { title: 'Rain Sounds', artist: 'Relax', videoId: 'rain1234567', duration: 180 },
+          user: { nickname: 'Guest' },
+        }),
+      });
+
+      expect(response.statusCode).toBe(HTTP_STATUS.FORBIDDEN);
+      expect(JSON.parse(response.body).error).toMatchObject({
+        code: API_ERROR_CODES.CONTENT_POLICY_VIOLATION,
+        message: 'Tracks can be at most 20 minutes long',
+        details: { rule: 'max_duration', limit: 1200 },
+      });
+    });
+
+    it('should ask to retry when the source cannot vouch for the duration', async () => {
+      lookup.mockRejectedValueOnce(new Error('quota exceeded'));
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const response = await policyFastify.inject({
+        method: 'POST',
+        url: '/api/queue/add',
+        headers: { 'content-type': 'application/json' },
+        payload: JSON.stringify({
+          track: { title: 'Rain Sounds', artist: 'Relax', videoId: 'rain1234567', duration: 180 },
+          user: { nickname: 'Guest' },
+        }),
+      });
+
+      expect(response.statusCode).toBe(HTTP_STATUS.SERVICE_UNAVAILABLE);
+      expect(JSON.parse(response.body).error).toMatchObject({
+        code: API_ERROR_CODES.SERVICE_UNAVAILABLE,
+        details: { reason: 'DETAILS_UNAVAILABLE' },
+      });
+    });
+
+    it('should show the rules to everyone and let only the host change them', async () => {
+      const current = await policyFastify.inject({ method: 'GET', url: '/api/policy' });
+      expect(JSON.parse(current.body).data).toMatchObject({ maxDurationSeconds: 1200, blockLiveStreams: true });
+
+      const update = { maxDurationSeconds: null, blockedVideoIds: ['https://youtu.be/rain1234567'] };
+      const guest = await policyFastify.inject({ method: 'PUT', url: '/api/policy', payload: update });
+      expect(guest.statusCode).toBe(HTTP_STATUS.FORBIDDEN);
+
+      const host = await policyFastify.inject({
+        method: 'PUT',
+        url: '/api/policy',
+        headers: { 'x-host-token': hostToken },
+        payload: update,
+      });
+      expect(host.statusCode).toBe(HTTP_STATUS.OK);
+      expect(JSON.parse(host.body).data).toMatchObject({ maxDurationSeconds: null, blockedVideoIds: ['rain1234567'] });
+
+      const invalid = await policyFastify.inject({
+        method: 'PUT',
+        url: '/api/policy',
+        headers: { 'x-host-token': hostToken },
+        payload: { musicOnly: 'yes' },
+      });
+      expect(invalid.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+      expect(JSON.parse(invalid.body).error).toMatchObject({
+        message: 'musicOnly must be a boolean',
+        details: { field: 'musicOnly' },
+      });
+    });
+  });
+
+  describe('Rate limits', () => {
+    let limitsFastify: FastifyInstance;
+    let rateLimiter: RateLimiter;
+    let hostToken: string;
+
+    beforeEach(async () => {
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+      rateLimiter = new RateLimiter({ roles: { guest: { maxRequests: 1 } } });
+      const hostAuthService = new HostAuthService({ pin: '1234' });
+      const unlockResult = hostAuthService.unlock('1234', 'test');
+      hostToken = unlockResult.success ? unlockResult.value : '';
+
+      limitsFastify = Fastify({ logger: false });
+      await registerAPIRoutes(limitsFastify, {
+        ...dependencies,
+        queueService: new QueueService(new QueueManager(), rateLimiter),
+        hostAuthService,
+        rateLimiter,
+      });
+      await limitsFastify.ready();
+    });
+
+    afterEach(async () => {
+      await limitsFastify.close();
+      jest.restoreAllMocks();
+    });
+
+    const addTrack = (videoId: string) => limitsFastify.inject({
+      method: 'POST',
+      url: '/api/queue/add',
+      headers: { 'content-type': 'application/json', 'x-user-id': 'guest-1' },
+      payload: JSON.stringify({
+        track: { title: `Song ${videoId}`, artist: 'Artist', videoId, duration: 180 },
+        user: { nickname: 'Guest' },
+      }),
+    });
+
+    it('should show a guest their own limits', async () => {
+      await addTrack('limit123456');
+
+      const response = await limitsFastify.inject({ method: 'GET', url: '/api/users/me/limits', headers: { 'x-user-id': 'guest-1' } });
+      expect(response.statusCode).toBe(HTTP_STATUS.OK);
+      expect(JSON.parse(response.body).data).toMatchObject({
+        canAddTrack: false,
+        remainingRequests: 0,
+        role: 'guest',
+        maxRequests: 1,
+        bonusRequests: 0,
+        windowMinutes: 10,
+      });
+
+      const host = await limitsFastify.inject({ method: 'GET', url: '/api/users/me/limits', headers: { 'x-user-id': 'host', 'x-host-token': hostToken } });
+      expect(JSON.parse(host.body).data).toMatchObject({ role: 'host', remainingRequests: null });
+
+      const anonymous = await limitsFastify.inject({ method: 'GET', url: '/api/users/me/limits' });
+      expect(anonymous.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+    });
+
+    it('should let the host grant a guest bonus requests', async () => {
+      await addTrack('limit123456');
+      expect((await addTrack('limit234567')).statusCode).toBe(HTTP_STATUS.TOO_MANY_REQUESTS);
+
+      const guest = await limitsFastify.inject({ method: 'POST', url: '/api/users/guest-1/bonus', payload: { requests: 1 } });
+      expect(guest.statusCode).toBe(HTTP_STATUS.FORBIDDEN);
+
+      const host = await limitsFastify.inject({
+        method: 'POST',
+        url: '/api/users/guest-1/bonus',
+        headers: { 'x-host-token': hostToken },
+        payload: { requests: 1 },
+      });
+      expect(JSON.parse(host.body).data).toEqual({ userId: 'guest-1', bonusRequests: 1 });
+
+      expect((await addTrack('limit234567')).statusCode).toBe(HTTP_STATUS.CREATED);
+      expect(rateLimiter.getBonusRequests('guest-1')).toBe(0);
+    });
+
+    it('should show the limits to everyone and let only the host change them', async () => {
+      const current = await limitsFastify.inject({ method: 'GET', url: '/api/limits' });
+      expect(JSON.parse(current.body).data.roles.guest).toEqual({ maxRequests: 1, maxMinutes: null });
+
+      const update = { roles: { guest: { maxRequests: 3, maxMinutes: 15 } }, vipUserIds: ['guest-2'] };
+      const guest = await limitsFastify.inject({ method: 'PUT', url: '/api/limits', payload: update });
+      expect(guest.statusCode).toBe(HTTP_STATUS.FORBIDDEN);
+
+      const host = await limitsFastify.inject({
+        method: 'PUT',
+        url: '/api/limits',
+        headers: { 'x-host-token': hostToken },
+        payload: update,
+      });
+      expect(host.statusCode).toBe(HTTP_STATUS.OK);
+      expect(JSON.parse(host.body).data).toMatchObject({
+        windowMinutes: 10,
+        roles: { guest: { maxRequests: 3, maxMinutes: 15 }, vip: { maxRequests: 10 } },
+        vipUserIds: ['guest-2'],
+      });
+
+      const invalid = await limitsFastify.inject({
+        method: 'PUT',
+        url: '/api/limits',
+        headers: { 'x-host-token': hostToken },
+        payload: { windowMinutes: -1 },
+      });
+      expect(invalid.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+      expect(JSON.parse(invalid.body).error.details).toEqual({ field: 'windowMinutes', error: 'INVALID_WINDOW' });
+    });
+  });
+
+  describe('Guest sessions', () => {
+    let sessionFastify: FastifyInstance;
+    let guestSessionService: GuestSessionService;
+
+    beforeEach(async () => {
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+      guestSessionService = new GuestSessionService({ secret: 'test-secret' });
+
+      sessionFastify = Fastify({ logger: false });
+      await registerAPIRoutes(sessionFastify, {
+        ...dependencies,
+        queueService: new QueueService(new QueueManager(), new RateLimiter({ roles: { guest: { maxRequests: 1 } } })),
+        guestSessionService,
+      });
+      await sessionFastify.ready();
+    });
+
+    afterEach(async () => {
+      await sessionFastify.close();
+      jest.restoreAllMocks();
+    });
+
+    const addTrack = (videoId: string, headers: Record<string, string> = {}) => sessionFastify.inject({
+      method: 'POST',
+      url: '/api/queue/add',
+      headers: { 'content-type': 'application/json', ...headers },
+      payload: JSON.stringify({
+        track: { title: `Song ${videoId}`, artist: 'Artist', videoId, duration: 180 },
+        user: { nickname: `Nickname ${videoId}` },
+      }),
+    });
+
+    it('should hand out a session cookie on joining and resolve the user from it', async () => {
+      const join = await sessionFastify.inject({ method: 'POST', url: '/api/session', payload: { nickname: 'Alice' } });
+      expect(join.statusCode).toBe(HTTP_STATUS.CREATED);
+
+      const { token, user } = JSON.parse(join.body).data;
+      expect(user.nickname).toBe('Alice');
+      expect(join.headers['set-cookie']).toContain(`jukebox_session=${encodeURIComponent(token)}`);
+
+      const me = await sessionFastify.inject({ method: 'GET', url: '/api/users/me', headers: { cookie: `jukebox_session=${encodeURIComponent(token)}` } });
+      expect(JSON.parse(me.body).data).toEqual({ id: user.id, nickname: 'Alice', role: 'guest' });
+
+      const rename = await sessionFastify.inject({
+        method: 'PATCH',
+        url: '/api/users/me',
+        headers: { 'x-session-token': token },
+        payload: { nickname: 'DJ Alice' },
+      });
+      expect(JSON.parse(rename.body).data.nickname).toBe('DJ Alice');
+
+      // The queued track is attributed to the session's user, not the nickname sent
+      const added = await addTrack('sess1234567', { 'x-session-token': token });
+      expect(added.statusCode).toBe(HTTP_STATUS.CREATED);
+      expect(JSON.parse(added.body).data.queueItem.addedBy).toMatchObject({ id: user.id, nickname: 'DJ Alice' });
+
+      const anonymous = await sessionFastify.inject({ method: 'GET', url: '/api/users/me' });
+      expect(anonymous.statusCode).toBe(HTTP_STATUS.UNAUTHORIZED);
+      expect(JSON.parse(anonymous.body).error.code).toBe(API_ERROR_CODES.SESSION_REQUIRED);
+    });
+
+    it('should not let a guest dodge their rate limit by changing nickname or user ID', async () => {
+      const first = await addTrack('sess1234567');
+      expect(first.statusCode).toBe(HTTP_STATUS.CREATED);
+      const token = first.headers['x-session-token'] as string;
+      expect(token).toBeTruthy();
+
+      const impersonated = await addTrack('sess2345678', { 'x-session-token': token, 'x-user-id': 'someone-else' });
+      expect(impersonated.statusCode).toBe(HTTP_STATUS.TOO_MANY_REQUESTS);
+
+      const forged = await addTrack('sess2345678', { 'x-session-token': `someone-else.${token.split('.')[1]}` });
+      expect(forged.statusCode).toBe(HTTP_STATUS.CREATED);
+      expect(JSON.parse(forged.body).data.queueItem.addedBy.id).not.toBe('someone-else');
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle internal service errors gracefully', async () => {
       // Create a mock service that throws errors
@@ -346,9 +978,35 @@ describe('Queue API Integration', () => {
         addTrackToQueue: () => {
           throw new Error('Service error');
         },
+        addAutoplayTrack: () => {
+          throw new Error('Service error');
+        },
         advanceToNextTrack: () => {
           throw new Error('Service error');
         },
+        removeTrack: () => {
+          throw new Error('Service error');
+        },
+        moveTrack: () => {
+          throw new Error('Service error');
+        },
+        promoteTrack: () => {
+          throw new Error('Service error');
+        },
+        voteTrack: () => {
+          throw new Error('Service error');
+        },
+        setOrderingMode: () => {
+          throw new Error('Service error');
+        },
+        getUserRateLimitInfo: () => {
+          throw new Error('Service error');
+        },
+        findDuplicateRequest: () => {
+          throw new Error('Service error');
+        },
+        addEventListener: jest.fn(),
+        removeEventListener: jest.fn(),
       };
 
       const errorDependencies = {
@@ -0,0 +1,417 @@
+/**
+ * Queue and Search Commands
+ *
+ * Validation, service calls and error mapping for the queue and search
+ * operations that both the REST routes and WebSocket commands offer, so the
+ * two transports accept and reject exactly the same requests.
+ *
+ * Requirements: 29.1, 29.2
+ */
+
+import { Result, SearchResult, ServiceError, Track, TrackError, TrackValidator, User, UserError, QueueItem } from '@party-jukebox/shared';
+import { APIError, API_ERROR_CODES, HTTP_STATUS } from './types';
+import { IQueueService } from '../../../application/QueueService';
+import { IContentPolicyService } from '../../../application/ContentPolicyService';
+import { ITrackSourceRegistry } from '../../../domain/sources/types';
+import { ContentPolicyError } from '../../../domain/policy/errors';
+import { SkipVoteError } from '../../../domain/playback/errors';
+import { SkipVoteTally } from '../../../domain/playback/types';
+
+// Temporary interfaces until SearchService compilation issues are resolved
+export interface ISearchService {
+  search(params: { query: string; page?: number; limit?: number; pageToken?: string }): Promise<{
+    success: boolean;
+    value?: SearchResultsPage;
+    error?: string;
+  }>;
+}
+
+export interface SearchResultsPage {
+  results: SearchResult[];
+  pagination: {
+    currentPage: number;
+    totalResults: number;
+    hasNextPage: boolean;
+    hasPrevPage: boolean;
+    nextPageToken?: string;
+    prevPageToken?: string;
+    resultsPerPage: number;
+  };
+}
+
+/**
+ * A command's error, with the HTTP status the REST API reports it under
+ */
+export interface CommandError extends APIError {
+  retryAfter?: number; // seconds, for rate limiting
+}
+
+export interface CommandFailure {
+  success: false;
+  error: CommandError;
+  statusCode: number;
+}
+
+export type CommandResult<T> =
+  | { success: true; value: T; statusCode: number }
+  | CommandFailure;
+
+export interface SearchCommandInput {
+  q?: unknown;
+  page?: unknown;
+  limit?: unknown;
+  pageToken?: unknown;
+}
+
+export interface AddTrackCommandDependencies {
+  queueService: IQueueService;
+  eventBroadcaster?: {
+    broadcastTrackAdded(track: QueueItem, queuePosition: number): Promise<void>;
+    broadcastQueueUpdate(queueState?: ReturnType<IQueueService['getQueueState']>): Promise<void>;
+  } | undefined;
+  trackSources?: ITrackSourceRegistry | undefined;
+  contentPolicyService?: IContentPolicyService | undefined;
+}
+
+export interface AddTrackCommandResult {
+  queueItem: QueueItem;
+  queuePosition: number;
+}
+
+/**
+ * Validate a search and run it
+ * Requirements: 3.1, 3.2, 3.3, 3.4, 3.5, 3.7
+ */
+export async function searchCommand(
+  searchService: ISearchService,
+  input: SearchCommandInput
+): Promise<CommandResult<SearchResultsPage>> {
+  const { q: query, page = 1, limit = 20, pageToken } = input;
+
+  // Validate required query parameter
+  if (!query || typeof query !== 'string' || !query.trim()) {
+    return fail(HTTP_STATUS.BAD_REQUEST, {
+      code: API_ERROR_CODES.VALIDATION_FAILED,
+      message: 'Search query is required and must be a non-empty string',
+      details: {
+        field: 'q',
+        received: query,
+        expected: 'non-empty string'
+      },
+    });
+  }
+
+  // Validate and sanitize pagination parameters
+  let validatedPage = 1;
+  let validatedLimit = 20;
+
+  if (page !== undefined) {
+    const pageNum = Number(page);
+    if (isNaN(pageNum) || pageNum < 1) {
+      validatedPage = 1; // Use default for invalid page
+    } else {
+      validatedPage = Math.floor(pageNum);
+    }
+  }
+
+  if (limit !== undefined) {
+    const limitNum = Number(limit);
+    if (isNaN(limitNum) || limitNum < 1) {
+      validatedLimit = 20; // Use default for invalid limit
+    } else {
+      // Enforce maximum limit of 50 as per requirements
+      validatedLimit = Math.min(Math.floor(limitNum), 50);
+    }
+  }
+
+  // Sanitize query string (trim whitespace, limit length)
+  const sanitizedQuery = query.trim().substring(0, 200); // Limit query length
+
+  const searchResult = await searchService.search({
+    query: sanitizedQuery,
+    page: validatedPage,
+    limit: validatedLimit,
+    ...(typeof pageToken === 'string' && pageToken.trim() && { pageToken: pageToken.trim() })
+  });
+
+  if (searchResult.success && searchResult.value) {
+    return { success: true, value: searchResult.value, statusCode: HTTP_STATUS.OK };
+  }
+
+  switch (searchResult.error) {
+    case 'INVALID_QUERY':
+      return fail(HTTP_STATUS.BAD_REQUEST, {
+        code: API_ERROR_CODES.VALIDATION_FAILED,
+        message: 'Invalid search query',
+        details: {
+          field: 'query',
+          reason: 'Query must be a non-empty string with maximum 100 characters'
+        },
+      });
+
+    case 'SERVICE_UNAVAILABLE':
+      return fail(HTTP_STATUS.SERVICE_UNAVAILABLE, {
+        code: API_ERROR_CODES.SERVICE_UNAVAILABLE,
+        message: 'YouTube search service is temporarily unavailable',
+        details: {
+          reason: 'API quota exceeded or service unavailable',
+          suggestion: 'Please try again later'
+        },
+      });
+
+    case 'YOUTUBE_API_ERROR':
+      return fail(HTTP_STATUS.SERVICE_UNAVAILABLE, {
+        code: API_ERROR_CODES.SERVICE_UNAVAILABLE,
+        message: 'YouTube API error occurred',
+        details: {
+          reason: 'External API error',
+          suggestion: 'Please try again later'
+        },
+      });
+
+    default:
+      return fail(HTTP_STATUS.INTERNAL_SERVER_ERROR, {
+        code: API_ERROR_CODES.INTERNAL_ERROR,
+        message: 'Unknown search error',
+      });
+  }
+}
+
+/**
+ * Validate a track, add it to the queue for the resolved user and announce it
+ * The user is resolved only once the track is known to be valid, since
+ * resolving can start a guest session
+ * Requirements: 2.2, 2.3, 2.4, 2.5, 19.4, 20.2, 25.1, 25.2, 25.3, 26.1, 26.3, 28.1
+ */
+export async function addTrackCommand(
+  dependencies: AddTrackCommandDependencies,
+  trackData: any,
+  userData: unknown,
+  resolveUser: () => Result<User, UserError>
+): Promise<CommandResult<AddTrackCommandResult>> {
+  const { queueService, eventBroadcaster, trackSources, contentPolicyService } = dependencies;
+
+  // Validate track data against its source; sources that know their tracks
+  // (e.g. the local library) replace the metadata that was sent.
+  // Without configured sources only YouTube tracks can be played.
+  const trackResult: Result<Track, TrackError> = trackSources
+    ? trackSources.createTrack(trackData)
+    : (trackData?.source ?? 'youtube') === 'youtube'
+      ? TrackValidator.create(trackData)
+      : { success: false, error: 'INVALID_SOURCE' };
+  if (!trackResult.success) {
+    return fail(HTTP_STATUS.BAD_REQUEST, {
+      code: API_ERROR_CODES.INVALID_TRACK_DATA,
+      message: 'Invalid track data',
+      details: {
+        field: 'track',
+        error: trackResult.error,
+        received: trackData
+      },
+    });
+  }
+
+  const userResult = resolveUser();
+  if (!userResult.success) {
+    return fail(HTTP_STATUS.BAD_REQUEST, {
+      code: API_ERROR_CODES.INVALID_USER_DATA,
+      message: 'Invalid user data',
+      details: {
+        field: 'user',
+        error: userResult.error,
+        received: userData
+      },
+    });
+  }
+
+  // The content policy checks what the source reports, not what was sent
+  // Requirements: 26.1
+  const detailsResult: Result<SearchResult | null, ContentPolicyError> = contentPolicyService
+    ? await contentPolicyService.lookupDetails(trackResult.value)
+    : { success: true, value: null };
+  if (!detailsResult.success) {
+    return fail(HTTP_STATUS.SERVICE_UNAVAILABLE, {
+      code: API_ERROR_CODES.SERVICE_UNAVAILABLE,
+      message: 'The track could not be checked against the party\'s content rules',
+      details: {
+        reason: detailsResult.error,
+        suggestion: 'Please try again in a moment'
+      },
+    });
+  }
+  const details = detailsResult.value;
+
+  const addResult = queueService.addTrackToQueue(trackResult.value, userResult.value, { details });
+
+  if (!addResult.success) {
+    // Handle rate limiting
+    if (addResult.error === 'RATE_LIMIT_EXCEEDED') {
+      const rateLimitInfo = queueService.getUserRateLimitInfo(userResult.value);
+      const retryAfter = Math.ceil(rateLimitInfo.timeUntilReset / 1000);
+
+      return fail(HTTP_STATUS.TOO_MANY_REQUESTS, {
+        code: API_ERROR_CODES.RATE_LIMIT_EXCEEDED,
+        message: 'Rate limit exceeded. Please wait before adding another track.',
+        details: {
+          retryAfter,
+          remainingRequests: rateLimitInfo.remainingRequests,
+          remainingMusicSeconds: rateLimitInfo.remainingMusicSeconds,
+        },
+        retryAfter,
+      });
+    }
+
+    // Handle duplicate and recently played songs - Requirements: 25.1, 25.2, 25.3
+    if (addResult.error === 'DUPLICATE_REQUEST') {
+      const duplicate = queueService.findDuplicateRequest(trackResult.value);
+      const messages: Record<string, string> = {
+        now_playing: 'This song is playing right now.',
+        queued: 'This song is already in the queue.',
+        recently_played: 'This song was played recently. Please request it again later.',
+      };
+
+      return fail(HTTP_STATUS.CONFLICT, {
+        code: API_ERROR_CODES.DUPLICATE_REQUEST,
+        message: (duplicate && messages[duplicate.reason]) || 'This song is already queued or was played recently.',
+        details: duplicate ? {
+          reason: duplicate.reason,
+          match: duplicate.match,
+          queueItemId: duplicate.queueItem.id,
+          track: duplicate.queueItem.track,
+          addedBy: duplicate.queueItem.addedBy.nickname,
+          ...(duplicate.position !== undefined && { position: duplicate.position }),
+          ...(duplicate.playedAt && { playedAt: duplicate.playedAt.toISOString() }),
+          ...(duplicate.availableAt && { availableAt: duplicate.availableAt.toISOString() }),
+        } : undefined,
+      });
+    }
+
+    // Handle tracks the host's content rules turn away - Requirements: 26.3
+    if (addResult.error === 'CONTENT_POLICY_VIOLATION') {
+      const violation = contentPolicyService?.check(trackResult.value, details);
+
+      return fail(HTTP_STATUS.FORBIDDEN, {
+        code: API_ERROR_CODES.CONTENT_POLICY_VIOLATION,
+        message: violation?.message ?? 'This track is not allowed by the party\'s content rules.',
+        details: violation ? {
+          rule: violation.rule,
+          ...(violation.limit !== undefined && { limit: violation.limit }),
+          ...(violation.match !== undefined && { match: violation.match }),
+        } : undefined,
+      });
+    }
+
+    // Handle other queue operation errors
+    return fail(HTTP_STATUS.BAD_REQUEST, {
+      code: API_ERROR_CODES.QUEUE_OPERATION_FAILED,
+      message: 'Failed to add track to queue',
+      details: {
+        queueError: addResult.error
+      },
+    });
+  }
+
+  // Success - get queue position
+  const queueState = queueService.getQueueState();
+  const queuePosition = queueState.totalLength; // Position is the total length since we just added
+
+  // Trigger EventBroadcaster events if available
+  if (eventBroadcaster) {
+    console.log('🔥 API: EventBroadcaster available, triggering events...');
+    try {
+      // Broadcast track added event
+      await eventBroadcaster.broadcastTrackAdded(addResult.value, queuePosition);
+
+      // Broadcast updated queue state
+      await eventBroadcaster.broadcastQueueUpdate(queueState);
+
+      console.log('✅ API: EventBroadcaster events triggered successfully');
+    } catch (broadcastError) {
+      // Log broadcast errors but don't fail the request
+      console.error('❌ API: Error broadcasting track added event:', broadcastError);
+    }
+  } else {
+    console.log('⚠️  API: EventBroadcaster not available - no real-time events will be sent');
+  }
+
+  return {
+    success: true,
+    value: {
+      queueItem: addResult.value,
+      queuePosition,
+    },
+    statusCode: HTTP_STATUS.CREATED,
+  };
+}
+
+/**
+ * Map a failed remove/move/promote/vote operation to its error
+ * Requirements: 9.5, 12.2, 13.1
+ */
+export function queueModificationError(serviceError: ServiceError, message: string): CommandFailure {
+  let code: string;
+  let statusCode: number;
+
+  switch (serviceError) {
+    case 'TRACK_NOT_FOUND':
+      code = API_ERROR_CODES.TRACK_NOT_FOUND;
+      statusCode = HTTP_STATUS.NOT_FOUND;
+      break;
+    case 'INSUFFICIENT_PERMISSIONS':
+      code = API_ERROR_CODES.INSUFFICIENT_PERMISSIONS;
+      statusCode = HTTP_STATUS.FORBIDDEN;
+      break;
+    case 'INVALID_POSITION':
+      code = API_ERROR_CODES.VALIDATION_FAILED;
+      statusCode = HTTP_STATUS.BAD_REQUEST;
+      break;
+    case 'ALREADY_VOTED':
+      code = API_ERROR_CODES.ALREADY_VOTED;
+      statusCode = HTTP_STATUS.CONFLICT;
+      break;
+    case 'VOTING_DISABLED':
+      code = API_ERROR_CODES.VOTING_DISABLED;
+      statusCode = HTTP_STATUS.CONFLICT;
+      break;
+    case 'REORDER_DISABLED':
+      code = API_ERROR_CODES.REORDER_DISABLED;
+      statusCode = HTTP_STATUS.CONFLICT;
+      break;
+    default:
+      code = API_ERROR_CODES.QUEUE_OPERATION_FAILED;
+      statusCode = HTTP_STATUS.BAD_REQUEST;
+  }
+
+  return fail(statusCode, {
+    code,
+    message,
+    details: { queueError: serviceError },
+  });
+}
+
+/**
+ * Map a rejected vote to skip to its error
+ * Requirements: 11.1, 11.2
+ */
+export function skipVoteError(voteError: SkipVoteError, tally: SkipVoteTally): CommandFailure {
+  const errorResponses = {
+    NOTHING_PLAYING: { status: HTTP_STATUS.BAD_REQUEST, code: API_ERROR_CODES.INVALID_REQUEST, message: 'Nothing is playing to skip' },
+    ALREADY_VOTED: { status: HTTP_STATUS.CONFLICT, code: API_ERROR_CODES.ALREADY_VOTED, message: 'You have already voted to skip this track' },
+    SKIP_FAILED: { status: HTTP_STATUS.INTERNAL_SERVER_ERROR, code: API_ERROR_CODES.INTERNAL_ERROR, message: 'Vote passed but the track could not be skipped' },
+  } as const;
+  const { status, code, message } = errorResponses[voteError];
+
+  return fail(status, {
+    code,
+    message,
+    details: { tally },
+  });
+}
+
+function fail(statusCode: number, error: Omit<CommandError, 'timestamp'>): CommandFailure {
+  return {
+    success: false,
+    error: { ...error, timestamp: new Date().toISOString() },
+    statusCode,
+  };
+}
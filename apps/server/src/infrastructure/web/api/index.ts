@@ -30,10 +30,37 @@ export {
   createErrorHandlingMiddleware,
   createSecurityHeadersMiddleware,
   createRateLimitingMiddleware,
+  createRoleResolutionMiddleware,
+  createGuestResolutionMiddleware,
+  createHostOnlyMiddleware,
+  isMessageAllowedForRole,
   registerAPIMiddleware,
+  getSessionToken,
+  setSessionToken,
+  HOST_TOKEN_HEADER,
+  SESSION_TOKEN_HEADER,
+  SESSION_COOKIE,
+  HOST_ONLY_MESSAGE_TYPES,
 } from './middleware';
 
 // Route registration
 export {
   registerAPIRoutes,
-} from './routes';
\ No newline at end of file
+} from './routes';
+
+// Queue and search commands shared by REST routes and WebSocket commands
+export {
+  searchCommand,
+  addTrackCommand,
+  queueModificationError,
+  skipVoteError,
+} from './commands';
+
+export type {
+  ISearchService,
+  SearchResultsPage,
+  CommandError,
+  CommandFailure,
+  CommandResult,
+  AddTrackCommandResult,
+} from './commands';
@@ -4,10 +4,13 @@
  * Middleware functions for request validation, error handling, security headers,
  * and CORS configuration for the REST API infrastructure.
  * 
- * Requirements: 2.6, 2.7, 7.3, 10.1, 10.2, 10.5, 10.6
+ * Requirements: 2.6, 2.7, 7.3, 10.1, 10.2, 10.5, 10.6, 28.1
  */
 
 import { FastifyRequest, FastifyReply, FastifyInstance } from 'fastify';
+import { User, UserRole } from '@party-jukebox/shared';
+import { IHostAuthService } from '../../../application/HostAuthService';
+import { IGuestSessionService } from '../../../application/GuestSessionService';
 import { 
   APIError, 
   APIResponse, 
@@ -17,6 +20,49 @@ import {
   REQUEST_LIMITS 
 } from './types';
 
+declare module 'fastify' {
+  interface FastifyRequest {
+    userRole: UserRole;
+    guest: User | null;
+    requesterId: string | undefined;
+  }
+}
+
+/**
+ * Header carrying the token issued by POST /api/host/unlock
+ */
+export const HOST_TOKEN_HEADER = 'x-host-token';
+
+/**
+ * Header and cookie carrying the guest session token issued on joining
+ * Requirements: 28.1
+ */
+export const SESSION_TOKEN_HEADER = 'x-session-token';
+export const SESSION_COOKIE = 'jukebox_session';
+
+/**
+ * Header a guest reports their own user ID in when guest sessions are off
+ */
+export const USER_ID_HEADER = 'x-user-id';
+
+/**
+ * How long a device keeps its session cookie
+ */
+const SESSION_COOKIE_MAX_AGE_SECONDS = 365 * 24 * 60 * 60;
+
+/**
+ * WebSocket message types only the host may send
+ * Requirements: 10.4
+ */
+export const HOST_ONLY_MESSAGE_TYPES: ReadonlySet<string> = new Set([
+  'playback_skip',
+  'playback_pause',
+  'playback_resume',
+  'playback_seek',
+  'volume_duck',
+  'volume_unduck',
+]);
+
 /**
  * Request validation middleware
  * Validates request size, content type, and basic structure
@@ -261,6 +307,105 @@ export function createRateLimitingMiddleware() {
   };
 }
 
+/**
+ * Role resolution middleware
+ * Resolves the requester's role from their host token, defaulting to guest
+ * Requirements: 10.2
+ */
+export function createRoleResolutionMiddleware(hostAuthService?: IHostAuthService) {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    const token = request.headers[HOST_TOKEN_HEADER];
+    request.userRole = hostAuthService && typeof token === 'string'
+      ? hostAuthService.resolveRole(token)
+      : 'guest';
+  };
+}
+
+/**
+ * Guest resolution middleware
+ * With guest sessions the requester is whoever the session token belongs to;
+ * without them, guests report their own ID in the X-User-Id header
+ * Requirements: 28.1, 28.3
+ */
+export function createGuestResolutionMiddleware(guestSessionService?: IGuestSessionService) {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!guestSessionService) {
+      const userId = request.headers[USER_ID_HEADER];
+      request.guest = null;
+      request.requesterId = typeof userId === 'string' && userId.trim() ? userId.trim() : undefined;
+      return;
+    }
+
+    const user = guestSessionService.resolve(getSessionToken(request));
+    request.guest = user && { ...user, role: request.userRole };
+    request.requesterId = user?.id;
+  };
+}
+
+/**
+ * Get the guest session token from the X-Session-Token header or the session cookie
+ * Requirements: 28.1
+ */
+export function getSessionToken(request: FastifyRequest): string | undefined {
+  const header = request.headers[SESSION_TOKEN_HEADER];
+  if (typeof header === 'string' && header.trim()) {
+    return header.trim();
+  }
+
+  const cookies = request.headers.cookie?.split(';') ?? [];
+  for (const cookie of cookies) {
+    const separator = cookie.indexOf('=');
+    if (separator > 0 && cookie.slice(0, separator).trim() === SESSION_COOKIE) {
+      return decodeURIComponent(cookie.slice(separator + 1).trim()) || undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Hand a device its session token as a long-lived cookie, and as a header for
+ * clients that don't keep cookies
+ * Requirements: 28.1
+ */
+export function setSessionToken(reply: FastifyReply, token: string): void {
+  reply.header('Set-Cookie', `${SESSION_COOKIE}=${encodeURIComponent(token)}; Path=/; Max-Age=${SESSION_COOKIE_MAX_AGE_SECONDS}; HttpOnly; SameSite=Lax`);
+  reply.header(SESSION_TOKEN_HEADER, token);
+}
+
+/**
+ * Host-only route guard
+ * Attach as a route-level preHandler to privileged endpoints
+ * Requirements: 10.4
+ */
+export function createHostOnlyMiddleware() {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    if (request.userRole === 'host') {
+      return;
+    }
+
+    const error: APIError = {
+      code: API_ERROR_CODES.INSUFFICIENT_PERMISSIONS,
+      message: 'Only the host can perform this action',
+      details: { requiredRole: 'host', role: request.userRole },
+      timestamp: new Date().toISOString(),
+    };
+
+    reply.code(HTTP_STATUS.FORBIDDEN).send({
+      success: false,
+      error,
+      timestamp: new Date().toISOString(),
+    });
+  };
+}
+
+/**
+ * Check whether a WebSocket message type is allowed for a role
+ * Requirements: 10.4
+ */
+export function isMessageAllowedForRole(messageType: string, role: UserRole): boolean {
+  return role === 'host' || !HOST_ONLY_MESSAGE_TYPES.has(messageType);
+}
+
 /**
  * Get request size limit based on endpoint
  */
@@ -268,7 +413,7 @@ function getRequestSizeLimit(url: string): number {
   if (url.includes('/search')) {
     return REQUEST_LIMITS.SEARCH;
   }
-  if (url.includes('/queue/add')) {
+  if (url.includes('/queue/add') || url.includes('/queue/import')) {
     return REQUEST_LIMITS.QUEUE_ADD;
   }
   return REQUEST_LIMITS.DEFAULT;
@@ -315,9 +460,19 @@ function sanitizeValue(value: any): any {
 /**
  * Register all API middleware with a Fastify instance
  */
-export function registerAPIMiddleware(fastify: FastifyInstance): void {
+export function registerAPIMiddleware(
+  fastify: FastifyInstance,
+  hostAuthService?: IHostAuthService,
+  guestSessionService?: IGuestSessionService
+): void {
+  fastify.decorateRequest('userRole', 'guest');
+  fastify.decorateRequest('guest', null);
+  fastify.decorateRequest('requesterId', undefined);
+
   // Register middleware in order of execution
   fastify.addHook('preHandler', createSecurityHeadersMiddleware());
+  fastify.addHook('preHandler', createRoleResolutionMiddleware(hostAuthService));
+  fastify.addHook('preHandler', createGuestResolutionMiddleware(guestSessionService));
   fastify.addHook('preHandler', createRateLimitingMiddleware());
   fastify.addHook('preHandler', createRequestValidationMiddleware());
   fastify.addHook('preHandler', createInputSanitizationMiddleware());
@@ -22,40 +22,73 @@ import {
   SearchResponse,
   SearchRouteInterface,
   AddTrackRouteInterface,
+  ImportPlaylistResponse,
+  ImportPlaylistRouteInterface,
   QueueStateRouteInterface,
+  QueueItemActionResponse,
+  RemoveTrackRouteInterface,
+  MoveTrackRouteInterface,
+  VoteTrackRouteInterface,
+  QueueOrderingResponse,
+  QueueOrderingRouteInterface,
   PlaybackStatusRouteInterface,
-  PlaybackActionRouteInterface
+  PlaybackActionRouteInterface,
+  SeekPlaybackRouteInterface,
+  HostUnlockResponse,
+  HostUnlockRouteInterface,
+  SkipVoteResponse,
+  SkipVoteRouteInterface,
+  AutoplaySettingsResponse,
+  AutoplaySettingsRouteInterface,
+  VolumeResponse,
+  VolumeRouteInterface,
+  DuckVolumeRouteInterface,
+  PrefetchStatusResponse,
+  PrefetchStatusRouteInterface,
+  LibraryStatusResponse,
+  LibraryStatusRouteInterface,
+  LibraryCoverArtRouteInterface,
+  HistoryResponse,
+  HistoryRouteInterface,
+  HistoryExportRouteInterface,
+  HistoryRequest,
+  ContentPolicyRequest,
+  ContentPolicyResponse,
+  ContentPolicyRouteInterface,
+  RateLimitSettingsResponse,
+  RateLimitSettingsRouteInterface,
+  BonusRequestsResponse,
+  BonusRequestsRouteInterface,
+  UserLimitsResponse,
+  UserLimitsRouteInterface,
+  JoinSessionResponse,
+  JoinSessionRouteInterface,
+  UserProfileResponse,
+  UserProfileRouteInterface
 } from './types';
-import { registerAPIMiddleware } from './middleware';
+import { registerAPIMiddleware, createHostOnlyMiddleware, getSessionToken, setSessionToken } from './middleware';
+import { ISearchService, searchCommand, addTrackCommand, queueModificationError, skipVoteError } from './commands';
 import { HTTPServerDependencies } from '../HTTPServer';
-import { TrackValidator, UserValidator, SearchResult } from '@party-jukebox/shared';
-
-// Temporary interfaces until SearchService compilation issues are resolved
-interface ISearchService {
-  search(params: { query: string; page?: number; limit?: number; pageToken?: string }): Promise<{
-    success: boolean;
-    value?: {
-      results: SearchResult[];
-      pagination: {
-        currentPage: number;
-        totalResults: number;
-        hasNextPage: boolean;
-        hasPrevPage: boolean;
-        nextPageToken?: string;
-        prevPageToken?: string;
-        resultsPerPage: number;
-      };
-    };
-    error?: string;
-  }>;
-}
-
-interface SearchParams {
-  query: string;
-  page?: number;
-  limit?: number;
-  pageToken?: string;
-}
+import { Result, TrackValidator, User, UserError, UserValidator, ServiceError, QUEUE_ORDERING_MODES } from '@party-jukebox/shared';
+import { QueueRequester } from '../../../application/QueueService';
+import { IHostAuthService } from '../../../application/HostAuthService';
+import { IGuestSessionService } from '../../../application/GuestSessionService';
+import { ISkipVoteService } from '../../../application/SkipVoteService';
+import { IAutoplayService } from '../../../application/AutoplayService';
+import { IVolumeService } from '../../../application/VolumeService';
+import { IPrefetchService } from '../../../application/PrefetchService';
+import { ILocalLibraryService } from '../../../application/LocalLibraryService';
+import { IPlaylistImportService } from '../../../application/PlaylistImportService';
+import { IHistoryService } from '../../../application/HistoryService';
+import { IContentPolicyService } from '../../../application/ContentPolicyService';
+import { IRateLimiter, validateRateLimitSettings } from '../../../application/RateLimiter';
+import { RateLimitSettingsError } from '../../../domain/ratelimit/errors';
+import { HistoryQuery, HISTORY_EXPORT_FORMATS, HistoryExportFormat } from '../../../domain/history/types';
+import { PlaylistImportError } from '../../../domain/playlists/errors';
+import { ITrackSourceRegistry } from '../../../domain/sources/types';
+import { VolumeError } from '../../../domain/playback/errors';
+import { IPlaybackOrchestrator } from '../../../domain/playback/interfaces';
+import { ClientManager } from '../websocket/ClientManager';
 
 /**
  * Register all API routes with the Fastify instance
@@ -68,7 +101,11 @@ export async function registerAPIRoutes(
   // Register API middleware for all routes under /api
   await fastify.register(async (apiInstance) => {
     // Apply middleware to all API routes
-    registerAPIMiddleware(apiInstance);
+    registerAPIMiddleware(apiInstance, dependencies?.hostAuthService, dependencies?.guestSessionService);
+    
+    // Guard for privileged routes
+    // Requirements: 10.4
+    const hostOnly = createHostOnlyMiddleware();
     
     // API status/health endpoint
     apiInstance.get('/status', async (request: FastifyRequest, reply: FastifyReply) => {
@@ -82,12 +119,37 @@ export async function registerAPIRoutes(
             queue: '/api/queue',
             search: '/api/search',
             playback: '/api/playback',
+            host: '/api/host',
+            autoplay: '/api/autoplay',
+            library: '/api/library',
+            history: '/api/history',
+            policy: '/api/policy',
+            limits: '/api/limits',
+            session: '/api/session',
           },
           services: {
             queueService: !!dependencies?.queueService,
             playbackOrchestrator: !!dependencies?.playbackOrchestrator,
             searchService: !!dependencies?.searchService,
+            hostAuthService: !!dependencies?.hostAuthService,
+            autoplayService: !!dependencies?.autoplayService,
+            volumeService: !!dependencies?.volumeService,
+            prefetchService: !!dependencies?.prefetchService,
+            localLibraryService: !!dependencies?.localLibraryService,
+            playlistImportService: !!dependencies?.playlistImportService,
+            historyService: !!dependencies?.historyService,
+            contentPolicyService: !!dependencies?.contentPolicyService,
+            rateLimiter: !!dependencies?.rateLimiter,
+            guestSessionService: !!dependencies?.guestSessionService,
           },
+          // Requirements: 21.3, 22.4
+          youtube: dependencies?.youtubeUsage
+            ? {
+                quota: dependencies.youtubeUsage.getQuotaStatus(),
+                cache: dependencies.youtubeUsage.getCacheStats(),
+                failover: dependencies.youtubeUsage.getFailoverStatus(),
+              }
+            : null,
         },
         timestamp: new Date().toISOString(),
       };
@@ -104,12 +166,78 @@ export async function registerAPIRoutes(
       
       // POST /api/queue/add - Add track to queue
       apiInstance.post<AddTrackRouteInterface>('/queue/add', async (request, reply) => {
-        return handleAddTrackToQueue(request, reply, dependencies.queueService, dependencies.eventBroadcaster);
+        return handleAddTrackToQueue(
+          request,
+          reply,
+          dependencies.queueService,
+          dependencies.eventBroadcaster,
+          dependencies.trackSources,
+          dependencies.contentPolicyService,
+          dependencies.guestSessionService
+        );
+      });
+      
+      // POST /api/queue/import - Add a playlist's tracks to the queue
+      if (dependencies.playlistImportService) {
+        apiInstance.post<ImportPlaylistRouteInterface>('/queue/import', async (request, reply) => {
+          return handleImportPlaylist(
+            request,
+            reply,
+            dependencies.queueService,
+            dependencies.playlistImportService!,
+            dependencies.eventBroadcaster,
+            dependencies.guestSessionService
+          );
+        });
+      } else {
+        apiInstance.post('/queue/import', createServiceUnavailableHandler('Playlist import'));
+      }
+      
+      // DELETE /api/queue/:id - Remove an upcoming track
+      apiInstance.delete<RemoveTrackRouteInterface>('/queue/:id', async (request, reply) => {
+        return handleRemoveTrack(request, reply, dependencies.queueService);
+      });
+      
+      // PATCH /api/queue/:id - Move or promote an upcoming track
+      apiInstance.patch<MoveTrackRouteInterface>('/queue/:id', async (request, reply) => {
+        return handleMoveTrack(request, reply, dependencies.queueService);
+      });
+      
+      // POST /api/queue/:id/vote - Upvote or downvote an upcoming track
+      apiInstance.post<VoteTrackRouteInterface>('/queue/:id/vote', async (request, reply) => {
+        return handleVoteTrack(request, reply, dependencies.queueService);
+      });
+      
+      // PUT /api/queue/ordering - Switch between FIFO, vote and fair-share ordering
+      apiInstance.put<QueueOrderingRouteInterface>('/queue/ordering', async (request, reply) => {
+        return handleSetOrderingMode(request, reply, dependencies.queueService);
+      });
+      
+      // GET /api/users/me/limits - The requesting guest's remaining requests and reset time
+      apiInstance.get<UserLimitsRouteInterface>('/users/me/limits', async (request, reply) => {
+        return handleGetUserLimits(request, reply, dependencies.queueService);
       });
     } else {
       // Fallback handlers when services are not available
       apiInstance.get('/queue', createServiceUnavailableHandler('Queue state retrieval'));
       apiInstance.post('/queue/add', createServiceUnavailableHandler('Add track to queue'));
+      apiInstance.post('/queue/import', createServiceUnavailableHandler('Playlist import'));
+      apiInstance.delete('/queue/:id', createServiceUnavailableHandler('Remove track from queue'));
+      apiInstance.patch('/queue/:id', createServiceUnavailableHandler('Move track in queue'));
+      apiInstance.post('/queue/:id/vote', createServiceUnavailableHandler('Vote on queued track'));
+      apiInstance.put('/queue/ordering', createServiceUnavailableHandler('Queue ordering mode'));
+      apiInstance.get('/users/me/limits', createServiceUnavailableHandler('Rate limit status'));
+    }
+    
+    // Upcoming track prefetch
+    if (dependencies?.prefetchService) {
+      // GET /api/queue/prefetch - Which upcoming tracks are resolved and ready to play
+      apiInstance.get<PrefetchStatusRouteInterface>('/queue/prefetch', async (request, reply) => {
+        return handleGetPrefetchStatus(request, reply, dependencies.prefetchService!);
+      });
+    } else {
+      // Fallback handler when prefetching is not available
+      apiInstance.get('/queue/prefetch', createServiceUnavailableHandler('Prefetch status'));
     }
     
     // Search operations (Task 6)
@@ -130,26 +258,203 @@ export async function registerAPIRoutes(
         return handleGetPlaybackStatus(request, reply, dependencies.playbackOrchestrator);
       });
       
-      // POST /api/playback/skip - Skip to next track
-      apiInstance.post<PlaybackActionRouteInterface>('/playback/skip', async (request, reply) => {
+      // POST /api/playback/skip - Skip to next track (host only)
+      apiInstance.post<PlaybackActionRouteInterface>('/playback/skip', { preHandler: hostOnly }, async (request, reply) => {
         return handleSkipTrack(request, reply, dependencies.playbackOrchestrator);
       });
       
-      // POST /api/playback/pause - Pause current playback
-      apiInstance.post<PlaybackActionRouteInterface>('/playback/pause', async (request, reply) => {
+      // POST /api/playback/pause - Pause current playback (host only)
+      apiInstance.post<PlaybackActionRouteInterface>('/playback/pause', { preHandler: hostOnly }, async (request, reply) => {
         return handlePausePlayback(request, reply, dependencies.playbackOrchestrator);
       });
       
-      // POST /api/playback/resume - Resume paused playback
-      apiInstance.post<PlaybackActionRouteInterface>('/playback/resume', async (request, reply) => {
+      // POST /api/playback/resume - Resume paused playback (host only)
+      apiInstance.post<PlaybackActionRouteInterface>('/playback/resume', { preHandler: hostOnly }, async (request, reply) => {
         return handleResumePlayback(request, reply, dependencies.playbackOrchestrator);
       });
+      
+      // POST /api/playback/seek - Seek within the current track (host only)
+      apiInstance.post<SeekPlaybackRouteInterface>('/playback/seek', { preHandler: hostOnly }, async (request, reply) => {
+        return handleSeekPlayback(request, reply, dependencies.playbackOrchestrator);
+      });
     } else {
       // Fallback handlers when playback orchestrator is not available
       apiInstance.get('/playback/status', createServiceUnavailableHandler('Playback status'));
       apiInstance.post('/playback/skip', createServiceUnavailableHandler('Skip track'));
       apiInstance.post('/playback/pause', createServiceUnavailableHandler('Pause playback'));
       apiInstance.post('/playback/resume', createServiceUnavailableHandler('Resume playback'));
+      apiInstance.post('/playback/seek', createServiceUnavailableHandler('Seek playback'));
+    }
+    
+    // Vote-to-skip
+    if (dependencies?.skipVoteService) {
+      // POST /api/playback/vote-skip - Vote to skip the current track
+      apiInstance.post<SkipVoteRouteInterface>('/playback/vote-skip', async (request, reply) => {
+        return handleVoteSkip(request, reply, dependencies.skipVoteService!, dependencies.clientManager);
+      });
+    } else {
+      // Fallback handler when vote-to-skip is not available
+      apiInstance.post('/playback/vote-skip', createServiceUnavailableHandler('Vote to skip'));
+    }
+    
+    // Volume control
+    if (dependencies?.volumeService) {
+      // GET /api/playback/volume - Get volume, mute, cap and duck state
+      apiInstance.get<VolumeRouteInterface>('/playback/volume', async (request, reply) => {
+        return handleGetVolume(request, reply, dependencies.volumeService!);
+      });
+      
+      // POST /api/playback/volume - Set level and mute; only the host may change the cap
+      apiInstance.post<VolumeRouteInterface>('/playback/volume', async (request, reply) => {
+        return handleSetVolume(request, reply, dependencies.volumeService!);
+      });
+      
+      // POST /api/playback/volume/duck - Lower the volume for an announcement (host only)
+      apiInstance.post<DuckVolumeRouteInterface>('/playback/volume/duck', { preHandler: hostOnly }, async (request, reply) => {
+        return handleDuckVolume(request, reply, dependencies.volumeService!);
+      });
+      
+      // DELETE /api/playback/volume/duck - Restore the volume after an announcement (host only)
+      apiInstance.delete<VolumeRouteInterface>('/playback/volume/duck', { preHandler: hostOnly }, async (request, reply) => {
+        return handleUnduckVolume(request, reply, dependencies.volumeService!);
+      });
+    } else {
+      // Fallback handlers when volume control is not available
+      apiInstance.get('/playback/volume', createServiceUnavailableHandler('Volume control'));
+      apiInstance.post('/playback/volume', createServiceUnavailableHandler('Volume control'));
+      apiInstance.post('/playback/volume/duck', createServiceUnavailableHandler('Volume ducking'));
+      apiInstance.delete('/playback/volume/duck', createServiceUnavailableHandler('Volume ducking'));
+    }
+    
+    // Host role
+    if (dependencies?.hostAuthService) {
+      // POST /api/host/unlock - Exchange the TV's host PIN for a host token
+      apiInstance.post<HostUnlockRouteInterface>('/host/unlock', async (request, reply) => {
+        return handleHostUnlock(request, reply, dependencies.hostAuthService!);
+      });
+    } else {
+      // Fallback handler when host authentication is not available
+      apiInstance.post('/host/unlock', createServiceUnavailableHandler('Host unlock'));
+    }
+    
+    // Guest sessions
+    if (dependencies?.guestSessionService) {
+      // POST /api/session - Join with a nickname and get a device-bound session token
+      apiInstance.post<JoinSessionRouteInterface>('/session', async (request, reply) => {
+        return handleJoinSession(request, reply, dependencies.guestSessionService!);
+      });
+      
+      // GET /api/users/me - The requesting guest's profile
+      apiInstance.get<UserProfileRouteInterface>('/users/me', async (request, reply) => {
+        return handleGetProfile(request, reply);
+      });
+      
+      // PATCH /api/users/me - Change the requesting guest's nickname
+      apiInstance.patch<UserProfileRouteInterface>('/users/me', async (request, reply) => {
+        return handleUpdateProfile(request, reply, dependencies.guestSessionService!);
+      });
+    } else {
+      // Fallback handlers when guests identify themselves
+      apiInstance.post('/session', createServiceUnavailableHandler('Guest sessions'));
+      apiInstance.get('/users/me', createServiceUnavailableHandler('Guest sessions'));
+      apiInstance.patch('/users/me', createServiceUnavailableHandler('Guest sessions'));
+    }
+    
+    // Autoplay radio
+    if (dependencies?.autoplayService) {
+      // GET /api/autoplay - Get autoplay settings
+      apiInstance.get<AutoplaySettingsRouteInterface>('/autoplay', async (request, reply) => {
+        return handleGetAutoplaySettings(request, reply, dependencies.autoplayService!);
+      });
+      
+      // PUT /api/autoplay - Toggle autoplay and set its seeds and fallback playlist
+      apiInstance.put<AutoplaySettingsRouteInterface>('/autoplay', { preHandler: hostOnly }, async (request, reply) => {
+        return handleUpdateAutoplaySettings(request, reply, dependencies.autoplayService!);
+      });
+    } else {
+      // Fallback handlers when autoplay is not available
+      apiInstance.get('/autoplay', createServiceUnavailableHandler('Autoplay settings'));
+      apiInstance.put('/autoplay', createServiceUnavailableHandler('Autoplay settings'));
+    }
+    
+    // Local music library
+    if (dependencies?.localLibraryService) {
+      // GET /api/library - Library index summary
+      apiInstance.get<LibraryStatusRouteInterface>('/library', async (request, reply) => {
+        return handleGetLibraryStatus(request, reply, dependencies.localLibraryService!);
+      });
+      
+      // POST /api/library/rescan - Re-read the music directory (host only)
+      apiInstance.post<LibraryStatusRouteInterface>('/library/rescan', { preHandler: hostOnly }, async (request, reply) => {
+        return handleRescanLibrary(request, reply, dependencies.localLibraryService!);
+      });
+      
+      // GET /api/library/tracks/:id/art - Cover art embedded in a local track
+      apiInstance.get<LibraryCoverArtRouteInterface>('/library/tracks/:id/art', async (request, reply) => {
+        return handleGetCoverArt(request, reply, dependencies.localLibraryService!);
+      });
+    } else {
+      // Fallback handlers when no local library is configured
+      apiInstance.get('/library', createServiceUnavailableHandler('Local library'));
+      apiInstance.post('/library/rescan', createServiceUnavailableHandler('Local library rescan'));
+      apiInstance.get('/library/tracks/:id/art', createServiceUnavailableHandler('Local library cover art'));
+    }
+    
+    // Play history
+    if (dependencies?.historyService) {
+      // GET /api/history - Played, skipped and failed tracks, most recent first
+      apiInstance.get<HistoryRouteInterface>('/history', async (request, reply) => {
+        return handleGetHistory(request, reply, dependencies.historyService!);
+      });
+      
+      // GET /api/history/export - Download the history as JSON, CSV or M3U
+      apiInstance.get<HistoryExportRouteInterface>('/history/export', async (request, reply) => {
+        return handleExportHistory(request, reply, dependencies.historyService!);
+      });
+    } else {
+      // Fallback handlers when history is not recorded
+      apiInstance.get('/history', createServiceUnavailableHandler('Play history'));
+      apiInstance.get('/history/export', createServiceUnavailableHandler('Play history export'));
+    }
+    
+    // Content policy
+    if (dependencies?.contentPolicyService) {
+      // GET /api/policy - The rules tracks must follow, so controllers can show them
+      apiInstance.get<ContentPolicyRouteInterface>('/policy', async (request, reply) => {
+        return handleGetContentPolicy(request, reply, dependencies.contentPolicyService!);
+      });
+      
+      // PUT /api/policy - Change the rules
+      apiInstance.put<ContentPolicyRouteInterface>('/policy', { preHandler: hostOnly }, async (request, reply) => {
+        return handleUpdateContentPolicy(request, reply, dependencies.contentPolicyService!);
+      });
+    } else {
+      // Fallback handlers when no content policy is configured
+      apiInstance.get('/policy', createServiceUnavailableHandler('Content policy'));
+      apiInstance.put('/policy', createServiceUnavailableHandler('Content policy'));
+    }
+    
+    // Rate limit policy
+    if (dependencies?.rateLimiter) {
+      // GET /api/limits - Request limits per role, so controllers can show them
+      apiInstance.get<RateLimitSettingsRouteInterface>('/limits', async (request, reply) => {
+        return handleGetRateLimits(request, reply, dependencies.rateLimiter!);
+      });
+      
+      // PUT /api/limits - Change the limits or the VIP list
+      apiInstance.put<RateLimitSettingsRouteInterface>('/limits', { preHandler: hostOnly }, async (request, reply) => {
+        return handleUpdateRateLimits(request, reply, dependencies.rateLimiter!);
+      });
+      
+      // POST /api/users/:id/bonus - Let a guest request more than their limit
+      apiInstance.post<BonusRequestsRouteInterface>('/users/:id/bonus', { preHandler: hostOnly }, async (request, reply) => {
+        return handleGrantBonusRequests(request, reply, dependencies.rateLimiter!);
+      });
+    } else {
+      // Fallback handlers when the rate limiter isn't exposed
+      apiInstance.get('/limits', createServiceUnavailableHandler('Rate limit policy'));
+      apiInstance.put('/limits', createServiceUnavailableHandler('Rate limit policy'));
+      apiInstance.post('/users/:id/bonus', createServiceUnavailableHandler('Bonus requests'));
     }
     
   }, { prefix: '/api' });
@@ -210,28 +515,1407 @@ function createServiceUnavailableHandler(operation: string) {
  * Handle GET /api/search - Search for YouTube videos
  * Requirements: 3.1, 3.2, 3.3, 3.4, 3.5, 3.7
  */
-async function handleSearchVideos(
-  request: FastifyRequest<SearchRouteInterface>,
+async function handleSearchVideos(
+  request: FastifyRequest<SearchRouteInterface>,
+  reply: FastifyReply,
+  searchService: ISearchService
+): Promise<void> {
+  try {
+    const result = await searchCommand(searchService, request.query);
+
+    const response: SearchResponse = result.success
+      ? { success: true, data: result.value, timestamp: new Date().toISOString() }
+      : { success: false, error: result.error, timestamp: new Date().toISOString() };
+
+    reply.code(result.statusCode).send(response);
+    
+  } catch (error) {
+    console.error('Error searching videos:', error);
+    
+    // Generic internal server error for unexpected exceptions
+    const apiError: APIError = {
+      code: API_ERROR_CODES.INTERNAL_ERROR,
+      message: 'Internal server error during search',
+      timestamp: new Date().toISOString(),
+    };
+    
+    const response: SearchResponse = {
+      success: false,
+      error: apiError,
+      timestamp: new Date().toISOString(),
+    };
+    
+    reply.code(HTTP_STATUS.INTERNAL_SERVER_ERROR).send(response);
+  }
+}
+
+/**
+ * Handle GET /api/queue - Get current queue state
+ * Requirements: 2.1
+ */
+async function handleGetQueueState(
+  request: FastifyRequest<QueueStateRouteInterface>,
+  reply: FastifyReply,
+  queueService: any
+): Promise<void> {
+  try {
+    const queueState = queueService.getQueueState();
+    
+    const response: QueueStateResponse = {
+      success: true,
+      data: {
+        queue: queueState,
+      },
+      timestamp: new Date().toISOString(),
+    };
+    
+    reply.code(HTTP_STATUS.OK).send(response);
+  } catch (error) {
+    console.error('Error getting queue state:', error);
+    
+    const apiError: APIError = {
+      code: API_ERROR_CODES.INTERNAL_ERROR,
+      message: 'Failed to retrieve queue state',
+      timestamp: new Date().toISOString(),
+    };
+    
+    const response: QueueStateResponse = {
+      success: false,
+      error: apiError,
+      timestamp: new Date().toISOString(),
+    };
+    
+    reply.code(HTTP_STATUS.INTERNAL_SERVER_ERROR).send(response);
+  }
+}
+
+/**
+ * Handle POST /api/queue/add - Add track to queue
+ * Requirements: 2.2, 2.3, 2.4, 2.5, 19.4, 20.2, 26.1, 26.3, 28.1
+ */
+async function handleAddTrackToQueue(
+  request: FastifyRequest<AddTrackRouteInterface>,
+  reply: FastifyReply,
+  queueService: any,
+  eventBroadcaster?: any,
+  trackSources?: ITrackSourceRegistry,
+  contentPolicyService?: IContentPolicyService,
+  guestSessionService?: IGuestSessionService
+): Promise<void> {
+  try {
+    const { track: trackData, user: userData } = request.body;
+    
+    const result = await addTrackCommand(
+      { queueService, eventBroadcaster, trackSources, contentPolicyService },
+      trackData,
+      userData,
+      () => resolveRequestUser(request, reply, userData?.nickname, guestSessionService)
+    );
+    
+    if (!result.success) {
+      const response: AddTrackResponse = {
+        success: false,
+        error: result.error,
+        timestamp: new Date().toISOString(),
+      };
+      
+      if (result.error.retryAfter !== undefined) {
+        reply.header('Retry-After', result.error.retryAfter.toString());
+      }
+      reply.code(result.statusCode).send(response);
+      return;
+    }
+    
+    const response: AddTrackResponse = {
+      success: true,
+      data: result.value,
+      timestamp: new Date().toISOString(),
+    };
+    
+    reply.code(result.statusCode).send(response);
+    
+  } catch (error) {
+    console.error('Error adding track to queue:', error);
+    
+    const apiError: APIError = {
+      code: API_ERROR_CODES.INTERNAL_ERROR,
+      message: 'Internal server error while adding track',
+      timestamp: new Date().toISOString(),
+    };
+    
+    const response: AddTrackResponse = {
+      success: false,
+      error: apiError,
+      timestamp: new Date().toISOString(),
+    };
+    
+    reply.code(HTTP_STATUS.INTERNAL_SERVER_ERROR).send(response);
+  }
+}
+
+/**
+ * Handle POST /api/queue/import - Add a playlist's tracks to the queue
+ * Responds once the import is done; progress goes out over the WebSocket meanwhile
+ * Requirements: 23.1, 23.2, 23.3
+ */
+async function handleImportPlaylist(
+  request: FastifyRequest<ImportPlaylistRouteInterface>,
+  reply: FastifyReply,
+  queueService: any,
+  playlistImportService: IPlaylistImportService,
+  eventBroadcaster?: any,
+  guestSessionService?: IGuestSessionService
+): Promise<void> {
+  try {
+    const { url, user: userData } = request.body ?? {};
+    
+    const userResult = resolveRequestUser(request, reply, userData?.nickname, guestSessionService);
+    
+    if (!userResult.success) {
+      const response: ImportPlaylistResponse = {
+        success: false,
+        error: {
+          code: API_ERROR_CODES.INVALID_USER_DATA,
+          message: 'Invalid user data',
+          details: { field: 'user', error: userResult.error },
+          timestamp: new Date().toISOString(),
+        },
+        timestamp: new Date().toISOString(),
+      };
+      
+      reply.code(HTTP_STATUS.BAD_REQUEST).send(response);
+      return;
+    }
+    
+    const importResult = await playlistImportService.importPlaylist(url, userResult.value);
+    
+    if (!importResult.success) {
+      sendPlaylistImportError(reply, importResult.error, queueService, userResult.value);
+      return;
+    }
+    
+    // One queue update for the whole import rather than one per track
+    if (eventBroadcaster && importResult.value.added.length > 0) {
+      try {
+        await eventBroadcaster.broadcastQueueUpdate(queueService.getQueueState());
+      } catch (broadcastError) {
+        console.error('❌ API: Error broadcasting imported playlist:', broadcastError);
+      }
+    }
+    
+    const response: ImportPlaylistResponse = {
+      success: true,
+      data: importResult.value,
+      timestamp: new Date().toISOString(),
+    };
+    
+    reply.code(HTTP_STATUS.CREATED).send(response);
+    
+  } catch (error) {
+    console.error('Error importing playlist:', error);
+    
+    const response: ImportPlaylistResponse = {
+      success: false,
+      error: {
+        code: API_ERROR_CODES.INTERNAL_ERROR,
+        message: 'Internal server error while importing playlist',
+        timestamp: new Date().toISOString(),
+      },
+      timestamp: new Date().toISOString(),
+    };
+    
+    reply.code(HTTP_STATUS.INTERNAL_SERVER_ERROR).send(response);
+  }
+}
+
+/**
+ * Send a playlist import error response
+ * Requirements: 23.1, 23.2
+ */
+function sendPlaylistImportError(
+  reply: FastifyReply,
+  importError: PlaylistImportError,
+  queueService: any,
+  user: { id: string; nickname: string }
+): void {
+  let code: string;
+  let statusCode: number;
+  let message: string;
+  let retryAfter: number | undefined;
+  
+  switch (importError) {
+    case 'INVALID_PLAYLIST_URL':
+      code = API_ERROR_CODES.INVALID_PLAYLIST_URL;
+      statusCode = HTTP_STATUS.BAD_REQUEST;
+      message = 'Not a playlist URL. Paste a link to a YouTube playlist or mix.';
+      break;
+    case 'PLAYLIST_NOT_FOUND':
+      code = API_ERROR_CODES.PLAYLIST_NOT_FOUND;
+      statusCode = HTTP_STATUS.NOT_FOUND;
+      message = 'Playlist not found. It may be private or deleted.';
+      break;
+    case 'PLAYLIST_EMPTY':
+      code = API_ERROR_CODES.PLAYLIST_EMPTY;
+      statusCode = HTTP_STATUS.BAD_REQUEST;
+      message = 'The playlist has no playable tracks';
+      break;
+    case 'IMPORT_IN_PROGRESS':
+      code = API_ERROR_CODES.IMPORT_IN_PROGRESS;
+      statusCode = HTTP_STATUS.CONFLICT;
+      message = 'Your previous playlist is still being imported';
+      break;
+    case 'RATE_LIMIT_EXCEEDED':
+      code = API_ERROR_CODES.RATE_LIMIT_EXCEEDED;
+      statusCode = HTTP_STATUS.TOO_MANY_REQUESTS;
+      message = 'Rate limit exceeded. Please wait before adding more tracks.';
+      retryAfter = Math.ceil(queueService.getUserRateLimitInfo(user).timeUntilReset / 1000);
+      break;
+    default:
+      code = API_ERROR_CODES.SERVICE_UNAVAILABLE;
+      statusCode = HTTP_STATUS.SERVICE_UNAVAILABLE;
+      message = 'Playlists cannot be read right now. Please try again later.';
+  }
+  
+  const response: ImportPlaylistResponse = {
+    success: false,
+    error: {
+      code,
+      message,
+      details: { importError, ...(retryAfter !== undefined && { retryAfter }) },
+      timestamp: new Date().toISOString(),
+      ...(retryAfter !== undefined && { retryAfter }),
+    },
+    timestamp: new Date().toISOString(),
+  };
+  
+  if (retryAfter !== undefined) {
+    reply.header('Retry-After', retryAfter.toString());
+  }
+  reply.code(statusCode).send(response);
+}
+
+/**
+ * Handle DELETE /api/queue/:id - Remove an upcoming track
+ * Requirements: 9.1, 9.5
+ */
+async function handleRemoveTrack(
+  request: FastifyRequest<RemoveTrackRouteInterface>,
+  reply: FastifyReply,
+  queueService: any
+): Promise<void> {
+  try {
+    const removeResult = queueService.removeTrack(request.params.id, getQueueRequester(request));
+    
+    if (!removeResult.success) {
+      sendQueueModificationError(reply, removeResult.error, 'Failed to remove track from queue');
+      return;
+    }
+    
+    const response: QueueItemActionResponse = {
+      success: true,
+      data: {
+        action: 'remove',
+        queueItem: removeResult.value,
+        queue: queueService.getQueueState(),
+      },
+      timestamp: new Date().toISOString(),
+    };
+    
+    reply.code(HTTP_STATUS.OK).send(response);
+    
+  } catch (error) {
+    console.error('Error removing track from queue:', error);
+    
+    const apiError: APIError = {
+      code: API_ERROR_CODES.INTERNAL_ERROR,
+      message: 'Internal server error while removing track',
+      timestamp: new Date().toISOString(),
+    };
+    
+    const response: QueueItemActionResponse = {
+      success: false,
+      error: apiError,
+      timestamp: new Date().toISOString(),
+    };
+    
+    reply.code(HTTP_STATUS.INTERNAL_SERVER_ERROR).send(response);
+  }
+}
+
+/**
+ * Handle PATCH /api/queue/:id - Move or promote an upcoming track
+ * Requirements: 9.2, 9.3, 9.5
+ */
+async function handleMoveTrack(
+  request: FastifyRequest<MoveTrackRouteInterface>,
+  reply: FastifyReply,
+  queueService: any
+): Promise<void> {
+  try {
+    const { position, promote } = request.body || {};
+    const hasPosition = position !== undefined;
+    const isPromote = promote === true;
+    
+    // Exactly one of position or promote must be provided
+    if (hasPosition === isPromote || (hasPosition && (typeof position !== 'number' || !Number.isInteger(position)))) {
+      const error: APIError = {
+        code: API_ERROR_CODES.VALIDATION_FAILED,
+        message: 'Provide either an integer position or promote: true',
+        details: {
+          received: request.body,
+          expected: '{ position: number } or { promote: true }'
+        },
+        timestamp: new Date().toISOString(),
+      };
+      
+      const response: QueueItemActionResponse = {
+        success: false,
+        error,
+        timestamp: new Date().toISOString(),
+      };
+      
+      reply.code(HTTP_STATUS.BAD_REQUEST).send(response);
+      return;
+    }
+    
+    const requester = getQueueRequester(request);
+    const moveResult = isPromote
+      ? queueService.promoteTrack(request.params.id, requester)
+      : queueService.moveTrack(request.params.id, position, requester);
+    
+    if (!moveResult.success) {
+      sendQueueModificationError(reply, moveResult.error, 'Failed to move track in queue');
+      return;
+    }
+    
+    const response: QueueItemActionResponse = {
+      success: true,
+      data: {
+        action: isPromote ? 'promote' : 'move',
+        queueItem: moveResult.value,
+        queue: queueService.getQueueState(),
+      },
+      timestamp: new Date().toISOString(),
+    };
+    
+    reply.code(HTTP_STATUS.OK).send(response);
+    
+  } catch (error) {
+    console.error('Error moving track in queue:', error);
+    
+    const apiError: APIError = {
+      code: API_ERROR_CODES.INTERNAL_ERROR,
+      message: 'Internal server error while moving track',
+      timestamp: new Date().toISOString(),
+    };
+    
+    const response: QueueItemActionResponse = {
+      success: false,
+      error: apiError,
+      timestamp: new Date().toISOString(),
+    };
+    
+    reply.code(HTTP_STATUS.INTERNAL_SERVER_ERROR).send(response);
+  }
+}
+
+/**
+ * Handle POST /api/queue/:id/vote - Upvote or downvote an upcoming track
+ * Requirements: 12.1, 12.2
+ */
+async function handleVoteTrack(
+  request: FastifyRequest<VoteTrackRouteInterface>,
+  reply: FastifyReply,
+  queueService: any
+): Promise<void> {
+  try {
+    const { direction } = request.body || {};
+    
+    if (direction !== 'up' && direction !== 'down') {
+      const error: APIError = {
+        code: API_ERROR_CODES.VALIDATION_FAILED,
+        message: "Vote direction must be 'up' or 'down'",
+        details: {
+          received: request.body,
+          expected: "{ direction: 'up' | 'down' }"
+        },
+        timestamp: new Date().toISOString(),
+      };
+      
+      const response: QueueItemActionResponse = {
+        success: false,
+        error,
+        timestamp: new Date().toISOString(),
+      };
+      
+      reply.code(HTTP_STATUS.BAD_REQUEST).send(response);
+      return;
+    }
+    
+    // Votes are counted per guest, so an anonymous vote can't be accepted
+    if (!getRequesterId(request)) {
+      const error: APIError = {
+        code: API_ERROR_CODES.INVALID_REQUEST,
+        message: 'A guest session or X-User-Id header is required to vote',
+        timestamp: new Date().toISOString(),
+      };
+      
+      const response: QueueItemActionResponse = {
+        success: false,
+        error,
+        timestamp: new Date().toISOString(),
+      };
+      
+      reply.code(HTTP_STATUS.BAD_REQUEST).send(response);
+      return;
+    }
+    
+    const voteResult = queueService.voteTrack(request.params.id, direction, getQueueRequester(request));
+    
+    if (!voteResult.success) {
+      sendQueueModificationError(reply, voteResult.error, 'Failed to vote on track');
+      return;
+    }
+    
+    const response: QueueItemActionResponse = {
+      success: true,
+      data: {
+        action: 'vote',
+        queueItem: voteResult.value,
+        queue: queueService.getQueueState(),
+      },
+      timestamp: new Date().toISOString(),
+    };
+    
+    reply.code(HTTP_STATUS.OK).send(response);
+    
+  } catch (error) {
+    console.error('Error voting on track:', error);
+    
+    const apiError: APIError = {
+      code: API_ERROR_CODES.INTERNAL_ERROR,
+      message: 'Internal server error while voting on track',
+      timestamp: new Date().toISOString(),
+    };
+    
+    const response: QueueItemActionResponse = {
+      success: false,
+      error: apiError,
+      timestamp: new Date().toISOString(),
+    };
+    
+    reply.code(HTTP_STATUS.INTERNAL_SERVER_ERROR).send(response);
+  }
+}
+
+/**
+ * Handle PUT /api/queue/ordering - Switch the queue ordering mode
+ * Requirements: 12.4, 13.1
+ */
+async function handleSetOrderingMode(
+  request: FastifyRequest<QueueOrderingRouteInterface>,
+  reply: FastifyReply,
+  queueService: any
+): Promise<void> {
+  try {
+    const { mode } = request.body || {};
+    
+    if (!QUEUE_ORDERING_MODES.includes(mode)) {
+      const error: APIError = {
+        code: API_ERROR_CODES.VALIDATION_FAILED,
+        message: `Ordering mode must be one of: ${QUEUE_ORDERING_MODES.join(', ')}`,
+        details: {
+          received: request.body,
+          expected: `{ mode: ${QUEUE_ORDERING_MODES.map(value => `'${value}'`).join(' | ')} }`
+        },
+        timestamp: new Date().toISOString(),
+      };
+      
+      const response: QueueOrderingResponse = {
+        success: false,
+        error,
+        timestamp: new Date().toISOString(),
+      };
+      
+      reply.code(HTTP_STATUS.BAD_REQUEST).send(response);
+      return;
+    }
+    
+    const modeResult = queueService.setOrderingMode(mode, getQueueRequester(request));
+    
+    if (!modeResult.success) {
+      const response: QueueOrderingResponse = {
+        success: false,
+        error: {
+          code: API_ERROR_CODES.INSUFFICIENT_PERMISSIONS,
+          message: 'Only the host can change the queue ordering',
+          details: { queueError: modeResult.error },
+          timestamp: new Date().toISOString(),
+        },
+        timestamp: new Date().toISOString(),
+      };
+      
+      reply.code(HTTP_STATUS.FORBIDDEN).send(response);
+      return;
+    }
+    
+    const response: QueueOrderingResponse = {
+      success: true,
+      data: {
+        orderingMode: modeResult.value,
+        queue: queueService.getQueueState(),
+      },
+      timestamp: new Date().toISOString(),
+    };
+    
+    reply.code(HTTP_STATUS.OK).send(response);
+    
+  } catch (error) {
+    console.error('Error changing queue ordering mode:', error);
+    
+    const apiError: APIError = {
+      code: API_ERROR_CODES.INTERNAL_ERROR,
+      message: 'Internal server error while changing queue ordering',
+      timestamp: new Date().toISOString(),
+    };
+    
+    const response: QueueOrderingResponse = {
+      success: false,
+      error: apiError,
+      timestamp: new Date().toISOString(),
+    };
+    
+    reply.code(HTTP_STATUS.INTERNAL_SERVER_ERROR).send(response);
+  }
+}
+
+/**
+ * Send an error response for a failed remove/move/promote/vote operation
+ * Requirements: 9.5, 12.2
+ */
+function sendQueueModificationError(reply: FastifyReply, serviceError: ServiceError, message: string): void {
+  const result = queueModificationError(serviceError, message);
+  
+  const response: QueueItemActionResponse = {
+    success: false,
+    error: result.error,
+    timestamp: new Date().toISOString(),
+  };
+  
+  reply.code(result.statusCode).send(response);
+}
+
+/**
+ * Get the requester's user ID, from their guest session when sessions are on
+ * Requirements: 28.1
+ */
+function getRequesterId(request: FastifyRequest): string | undefined {
+  return request.requesterId;
+}
+
+/**
+ * Resolve the user adding to the queue
+ * With guest sessions the user is whoever the session belongs to, and a device
+ * that hasn't joined yet joins with the nickname it sent. Without them, reuse the
+ * guest's ID if they sent one so they can manage their tracks later, otherwise
+ * generate one
+ * Requirements: 28.1, 28.3
+ */
+function resolveRequestUser(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  nickname: string | undefined,
+  guestSessionService?: IGuestSessionService
+): Result<User, UserError> {
+  if (!guestSessionService) {
+    return UserValidator.create({
+      id: getRequesterId(request) || crypto.randomUUID(),
+      nickname: nickname as string,
+      role: request.userRole,
+    });
+  }
+  
+  if (request.guest) {
+    return { success: true, value: request.guest };
+  }
+  
+  const joinResult = guestSessionService.join(nickname ?? '');
+  if (!joinResult.success) {
+    return { success: false, error: 'INVALID_NICKNAME' };
+  }
+  
+  setSessionToken(reply, joinResult.value.token);
+  return { success: true, value: { ...joinResult.value.user, role: request.userRole } };
+}
+
+/**
+ * Resolve who is modifying the queue
+ * Requirements: 9.5, 10.4
+ */
+function getQueueRequester(request: FastifyRequest): QueueRequester {
+  return {
+    userId: getRequesterId(request) ?? '',
+    isHost: request.userRole === 'host',
+  };
+}
+
+/**
+ * Handle POST /api/playback/vote-skip - Vote to skip the current track
+ * Requirements: 11.1, 11.2, 11.3
+ */
+async function handleVoteSkip(
+  request: FastifyRequest<SkipVoteRouteInterface>,
+  reply: FastifyReply,
+  skipVoteService: ISkipVoteService,
+  clientManager?: ClientManager
+): Promise<void> {
+  try {
+    // One vote per guest needs a stable identity
+    const userId = getRequesterId(request);
+    if (!userId) {
+      const error: APIError = {
+        code: API_ERROR_CODES.VALIDATION_FAILED,
+        message: 'A guest session or X-User-Id header is required to vote',
+        details: { field: 'x-user-id' },
+        timestamp: new Date().toISOString(),
+      };
+      
+      const response: SkipVoteResponse = {
+        success: false,
+        error,
+        timestamp: new Date().toISOString(),
+      };
+      
+      reply.code(HTTP_STATUS.BAD_REQUEST).send(response);
+      return;
+    }
+    
+    const eligibleVoters = clientManager?.getConnectionCountByType('controller') ?? 0;
+    const voteResult = await skipVoteService.castVote(userId, eligibleVoters);
+    
+    if (!voteResult.success) {
+      const result = skipVoteError(voteResult.error, skipVoteService.getTally(eligibleVoters));
+      
+      const response: SkipVoteResponse = {
+        success: false,
+        error: result.error,
+        timestamp: new Date().toISOString(),
+      };
+      
+      reply.code(result.statusCode).send(response);
+      return;
+    }
+    
+    const response: SkipVoteResponse = {
+      success: true,
+      data: voteResult.value,
+      timestamp: new Date().toISOString(),
+    };
+    
+    reply.code(HTTP_STATUS.OK).send(response);
+    
+  } catch (error) {
+    console.error('Error voting to skip:', error);
+    
+    const apiError: APIError = {
+      code: API_ERROR_CODES.INTERNAL_ERROR,
+      message: 'Internal server error while voting to skip',
+      timestamp: new Date().toISOString(),
+    };
+    
+    const response: SkipVoteResponse = {
+      success: false,
+      error: apiError,
+      timestamp: new Date().toISOString(),
+    };
+    
+    reply.code(HTTP_STATUS.INTERNAL_SERVER_ERROR).send(response);
+  }
+}
+
+/**
+ * Handle GET /api/queue/prefetch - Get the prefetch status of upcoming tracks
+ * Requirements: 18.4
+ */
+async function handleGetPrefetchStatus(
+  request: FastifyRequest<PrefetchStatusRouteInterface>,
+  reply: FastifyReply,
+  prefetchService: IPrefetchService
+): Promise<void> {
+  const response: PrefetchStatusResponse = {
+    success: true,
+    data: {
+      statuses: prefetchService.getStatuses(),
+    },
+    timestamp: new Date().toISOString(),
+  };
+  
+  reply.code(HTTP_STATUS.OK).send(response);
+}
+
+/**
+ * Handle GET /api/library - Get the local library summary
+ * Requirements: 19.1
+ */
+async function handleGetLibraryStatus(
+  request: FastifyRequest<LibraryStatusRouteInterface>,
+  reply: FastifyReply,
+  localLibrary: ILocalLibraryService
+): Promise<void> {
+  const response: LibraryStatusResponse = {
+    success: true,
+    data: localLibrary.getStatus(),
+    timestamp: new Date().toISOString(),
+  };
+  
+  reply.code(HTTP_STATUS.OK).send(response);
+}
+
+/**
+ * Handle POST /api/library/rescan - Re-read the music directory (host only)
+ * Responds once the scan finishes
+ * Requirements: 19.1
+ */
+async function handleRescanLibrary(
+  request: FastifyRequest<LibraryStatusRouteInterface>,
+  reply: FastifyReply,
+  localLibrary: ILocalLibraryService
+): Promise<void> {
+  const result = await localLibrary.rescan();
+  
+  if (!result.success) {
+    const error: APIError = {
+      code: API_ERROR_CODES.SERVICE_UNAVAILABLE,
+      message: 'The music directory could not be read',
+      details: { libraryError: result.error },
+      timestamp: new Date().toISOString(),
+    };
+    
+    const response: LibraryStatusResponse = {
+      success: false,
+      error,
+      timestamp: new Date().toISOString(),
+    };
+    
+    reply.code(HTTP_STATUS.SERVICE_UNAVAILABLE).send(response);
+    return;
+  }
+  
+  const response: LibraryStatusResponse = {
+    success: true,
+    data: result.value,
+    timestamp: new Date().toISOString(),
+  };
+  
+  reply.code(HTTP_STATUS.OK).send(response);
+}
+
+/**
+ * Handle GET /api/library/tracks/:id/art - Send a local track's embedded cover art
+ * Requirements: 19.2
+ */
+async function handleGetCoverArt(
+  request: FastifyRequest<LibraryCoverArtRouteInterface>,
+  reply: FastifyReply,
+  localLibrary: ILocalLibraryService
+): Promise<void> {
+  const result = await localLibrary.getCoverArt(request.params.id);
+  
+  if (!result.success) {
+    const error: APIError = {
+      code: API_ERROR_CODES.TRACK_NOT_FOUND,
+      message: result.error === 'ART_NOT_FOUND' ? 'This track has no cover art' : 'Track not found in the local library',
+      details: { libraryError: result.error },
+      timestamp: new Date().toISOString(),
+    };
+    
+    reply.code(HTTP_STATUS.NOT_FOUND).send({
+      success: false,
+      error,
+      timestamp: new Date().toISOString(),
+    });
+    return;
+  }
+  
+  reply
+    .code(HTTP_STATUS.OK)
+    .header('Content-Type', result.value.contentType)
+    .header('Cache-Control', 'public, max-age=86400')
+    .send(result.value.data);
+}
+
+/**
+ * Handle GET /api/history - One page of play history
+ * Requirements: 24.2
+ */
+async function handleGetHistory(
+  request: FastifyRequest<HistoryRouteInterface>,
+  reply: FastifyReply,
+  historyService: IHistoryService
+): Promise<void> {
+  const queryResult = parseHistoryQuery(request.query ?? {});
+  
+  if (!queryResult.success) {
+    const response: HistoryResponse = {
+      success: false,
+      error: queryResult.error,
+      timestamp: new Date().toISOString(),
+    };
+    
+    reply.code(HTTP_STATUS.BAD_REQUEST).send(response);
+    return;
+  }
+  
+  const response: HistoryResponse = {
+    success: true,
+    data: historyService.query(queryResult.value),
+    timestamp: new Date().toISOString(),
+  };
+  
+  reply.code(HTTP_STATUS.OK).send(response);
+}
+
+/**
+ * Handle GET /api/history/export - Send the matching history as a download
+ * Requirements: 24.3
+ */
+async function handleExportHistory(
+  request: FastifyRequest<HistoryExportRouteInterface>,
+  reply: FastifyReply,
+  historyService: IHistoryService
+): Promise<void> {
+  const { format = 'json', ...filters } = request.query ?? {};
+  const queryResult = parseHistoryQuery(filters);
+  
+  if (!queryResult.success || !HISTORY_EXPORT_FORMATS.includes(format as HistoryExportFormat)) {
+    const error: APIError = !queryResult.success
+      ? queryResult.error
+      : {
+          code: API_ERROR_CODES.VALIDATION_FAILED,
+          message: `Export format must be one of: ${HISTORY_EXPORT_FORMATS.join(', ')}`,
+          details: { field: 'format', received: format, expected: HISTORY_EXPORT_FORMATS },
+          timestamp: new Date().toISOString(),
+        };
+    
+    reply.code(HTTP_STATUS.BAD_REQUEST).send({
+      success: false,
+      error,
+      timestamp: new Date().toISOString(),
+    });
+    return;
+  }
+  
+  const exported = historyService.export(format as HistoryExportFormat, queryResult.value);
+  
+  reply
+    .code(HTTP_STATUS.OK)
+    .header('Content-Type', exported.contentType)
+    .header('Content-Disposition', `attachment; filename="${exported.filename}"`)
+    .send(exported.body);
+}
+
+/**
+ * Validate history filters from the query string
+ * Paging values fall back to their defaults, as in search; bad filters are rejected
+ * Requirements: 24.2
+ */
+function parseHistoryQuery(query: HistoryRequest): Result<HistoryQuery, APIError> {
+  const invalid = (field: string, received: unknown, expected: string): Result<HistoryQuery, APIError> => ({
+    success: false,
+    error: {
+      code: API_ERROR_CODES.VALIDATION_FAILED,
+      message: `Invalid history filter: ${field}`,
+      details: { field, received, expected },
+      timestamp: new Date().toISOString(),
+    },
+  });
+  const toPositiveInteger = (value: unknown) => {
+    const num = Number(value);
+    return Number.isFinite(num) && num >= 1 ? Math.floor(num) : undefined;
+  };
+  const toDate = (value: string | undefined) => (value ? new Date(value) : undefined);
+  
+  const { outcome, source, userId, q, from, to } = query;
+  if (outcome !== undefined && outcome !== 'played' && outcome !== 'skipped' && outcome !== 'failed') {
+    return invalid('outcome', outcome, 'played, skipped or failed');
+  }
+  if (source !== undefined && !TrackValidator.validateSource(source)) {
+    return invalid('source', source, 'a track source');
+  }
+  
+  const fromDate = toDate(from);
+  if (fromDate && isNaN(fromDate.getTime())) {
+    return invalid('from', from, 'ISO 8601 timestamp');
+  }
+  const toDateValue = toDate(to);
+  if (toDateValue && isNaN(toDateValue.getTime())) {
+    return invalid('to', to, 'ISO 8601 timestamp');
+  }
+  
+  return {
+    success: true,
+    value: {
+      page: toPositiveInteger(query.page),
+      limit: toPositiveInteger(query.limit),
+      ...(outcome && { outcome }),
+      ...(source && { source }),
+      ...(userId && { userId }),
+      ...(q?.trim() && { search: q.trim().substring(0, 200) }),
+      ...(fromDate && { from: fromDate }),
+      ...(toDateValue && { to: toDateValue }),
+    },
+  };
+}
+
+/**
+ * Handle GET /api/playback/volume - Get the current volume state
+ * Requirements: 16.1
+ */
+async function handleGetVolume(
+  request: FastifyRequest<VolumeRouteInterface>,
+  reply: FastifyReply,
+  volumeService: IVolumeService
+): Promise<void> {
+  const response: VolumeResponse = {
+    success: true,
+    data: volumeService.getState(),
+    timestamp: new Date().toISOString(),
+  };
+  
+  reply.code(HTTP_STATUS.OK).send(response);
+}
+
+/**
+ * Handle POST /api/playback/volume - Set level, mute or the host's cap
+ * Requirements: 16.1, 16.2, 16.3
+ */
+async function handleSetVolume(
+  request: FastifyRequest<VolumeRouteInterface>,
+  reply: FastifyReply,
+  volumeService: IVolumeService
+): Promise<void> {
+  try {
+    const { level, muted, maxVolume } = request.body ?? {};
+    
+    if (level === undefined && muted === undefined && maxVolume === undefined) {
+      sendVolumeError(reply, 'INVALID_VOLUME', 'Provide a level, muted or maxVolume');
+      return;
+    }
+    
+    if (maxVolume !== undefined && request.userRole !== 'host') {
+      const error: APIError = {
+        code: API_ERROR_CODES.INSUFFICIENT_PERMISSIONS,
+        message: 'Only the host can change the maximum volume',
+        details: { requiredRole: 'host', role: request.userRole },
+        timestamp: new Date().toISOString(),
+      };
+      
+      const response: VolumeResponse = {
+        success: false,
+        error,
+        timestamp: new Date().toISOString(),
+      };
+      
+      reply.code(HTTP_STATUS.FORBIDDEN).send(response);
+      return;
+    }
+    
+    const result = await volumeService.setVolume({
+      ...(level !== undefined && { level }),
+      ...(muted !== undefined && { muted }),
+      ...(maxVolume !== undefined && { maxVolume }),
+    });
+    
+    if (!result.success) {
+      sendVolumeError(reply, result.error);
+      return;
+    }
+    
+    const response: VolumeResponse = {
+      success: true,
+      data: result.value,
+      timestamp: new Date().toISOString(),
+    };
+    
+    reply.code(HTTP_STATUS.OK).send(response);
+    
+  } catch (error) {
+    console.error('Error setting volume:', error);
+    sendVolumeInternalError(reply, 'Internal server error while setting volume');
+  }
+}
+
+/**
+ * Handle POST /api/playback/volume/duck - Temporarily lower the volume
+ * Requirements: 16.5
+ */
+async function handleDuckVolume(
+  request: FastifyRequest<DuckVolumeRouteInterface>,
+  reply: FastifyReply,
+  volumeService: IVolumeService
+): Promise<void> {
+  try {
+    const { level, durationMs } = request.body ?? {};
+    const result = await volumeService.duck({
+      ...(level !== undefined && { level }),
+      ...(durationMs !== undefined && { durationMs }),
+    });
+    
+    if (!result.success) {
+      sendVolumeError(reply, result.error);
+      return;
+    }
+    
+    const response: VolumeResponse = {
+      success: true,
+      data: result.value,
+      timestamp: new Date().toISOString(),
+    };
+    
+    reply.code(HTTP_STATUS.OK).send(response);
+    
+  } catch (error) {
+    console.error('Error ducking volume:', error);
+    sendVolumeInternalError(reply, 'Internal server error while ducking volume');
+  }
+}
+
+/**
+ * Handle DELETE /api/playback/volume/duck - Restore the volume from before the duck
+ * Requirements: 16.5
+ */
+async function handleUnduckVolume(
+  request: FastifyRequest<VolumeRouteInterface>,
+  reply: FastifyReply,
+  volumeService: IVolumeService
+): Promise<void> {
+  try {
+    const result = await volumeService.unduck();
+    
+    if (!result.success) {
+      sendVolumeError(reply, result.error);
+      return;
+    }
+    
+    const response: VolumeResponse = {
+      success: true,
+      data: result.value,
+      timestamp: new Date().toISOString(),
+    };
+    
+    reply.code(HTTP_STATUS.OK).send(response);
+    
+  } catch (error) {
+    console.error('Error restoring volume:', error);
+    sendVolumeInternalError(reply, 'Internal server error while restoring volume');
+  }
+}
+
+/**
+ * Map volume errors to HTTP responses
+ * Requirements: 16.1
+ */
+function sendVolumeError(reply: FastifyReply, volumeError: VolumeError, message?: string): void {
+  const invalid = volumeError === 'INVALID_VOLUME';
+  const error: APIError = {
+    code: invalid ? API_ERROR_CODES.VALIDATION_FAILED : API_ERROR_CODES.SERVICE_UNAVAILABLE,
+    message: message ?? (invalid
+      ? 'Volume levels must be numbers from 0 to 100'
+      : 'The player is not responding; the volume will apply when the next track starts'),
+    details: { volumeError },
+    timestamp: new Date().toISOString(),
+  };
+  
+  const response: VolumeResponse = {
+    success: false,
+    error,
+    timestamp: new Date().toISOString(),
+  };
+  
+  reply.code(invalid ? HTTP_STATUS.BAD_REQUEST : HTTP_STATUS.SERVICE_UNAVAILABLE).send(response);
+}
+
+function sendVolumeInternalError(reply: FastifyReply, message: string): void {
+  const apiError: APIError = {
+    code: API_ERROR_CODES.INTERNAL_ERROR,
+    message,
+    timestamp: new Date().toISOString(),
+  };
+  
+  const response: VolumeResponse = {
+    success: false,
+    error: apiError,
+    timestamp: new Date().toISOString(),
+  };
+  
+  reply.code(HTTP_STATUS.INTERNAL_SERVER_ERROR).send(response);
+}
+
+/**
+ * Handle POST /api/host/unlock - Exchange the host PIN for a host token
+ * Requirements: 10.2, 10.3
+ */
+async function handleHostUnlock(
+  request: FastifyRequest<HostUnlockRouteInterface>,
+  reply: FastifyReply,
+  hostAuthService: IHostAuthService
+): Promise<void> {
+  try {
+    const pin = request.body?.pin;
+    
+    if (typeof pin !== 'string' || !pin.trim()) {
+      const error: APIError = {
+        code: API_ERROR_CODES.VALIDATION_FAILED,
+        message: 'PIN is required',
+        details: { field: 'pin' },
+        timestamp: new Date().toISOString(),
+      };
+      
+      const response: HostUnlockResponse = {
+        success: false,
+        error,
+        timestamp: new Date().toISOString(),
+      };
+      
+      reply.code(HTTP_STATUS.BAD_REQUEST).send(response);
+      return;
+    }
+    
+    const unlockResult = hostAuthService.unlock(pin, request.ip);
+    
+    if (!unlockResult.success) {
+      const tooManyAttempts = unlockResult.error === 'TOO_MANY_ATTEMPTS';
+      const error: APIError = {
+        code: tooManyAttempts ? API_ERROR_CODES.TOO_MANY_ATTEMPTS : API_ERROR_CODES.INVALID_PIN,
+        message: tooManyAttempts
+          ? 'Too many incorrect PIN attempts. Please wait before trying again.'
+          : 'Incorrect host PIN',
+        timestamp: new Date().toISOString(),
+      };
+      
+      const response: HostUnlockResponse = {
+        success: false,
+        error,
+        timestamp: new Date().toISOString(),
+      };
+      
+      reply.code(tooManyAttempts ? HTTP_STATUS.TOO_MANY_REQUESTS : HTTP_STATUS.UNAUTHORIZED).send(response);
+      return;
+    }
+    
+    const response: HostUnlockResponse = {
+      success: true,
+      data: {
+        token: unlockResult.value,
+        role: 'host',
+      },
+      timestamp: new Date().toISOString(),
+    };
+    
+    reply.code(HTTP_STATUS.OK).send(response);
+    
+  } catch (error) {
+    console.error('Error unlocking host role:', error);
+    
+    const apiError: APIError = {
+      code: API_ERROR_CODES.INTERNAL_ERROR,
+      message: 'Internal server error while unlocking host role',
+      timestamp: new Date().toISOString(),
+    };
+    
+    const response: HostUnlockResponse = {
+      success: false,
+      error: apiError,
+      timestamp: new Date().toISOString(),
+    };
+    
+    reply.code(HTTP_STATUS.INTERNAL_SERVER_ERROR).send(response);
+  }
+}
+
+/**
+ * Handle POST /api/session - Join the party, or resume the device's session
+ * Requirements: 28.1, 28.2
+ */
+async function handleJoinSession(
+  request: FastifyRequest<JoinSessionRouteInterface>,
+  reply: FastifyReply,
+  guestSessionService: IGuestSessionService
+): Promise<void> {
+  const nickname = request.body?.nickname;
+  const joinResult = guestSessionService.join(
+    typeof nickname === 'string' ? nickname : undefined,
+    getSessionToken(request)
+  );
+  
+  if (!joinResult.success) {
+    const error: APIError = {
+      code: API_ERROR_CODES.INVALID_USER_DATA,
+      message: 'Nickname must not be empty',
+      details: { field: 'nickname', error: joinResult.error },
+      timestamp: new Date().toISOString(),
+    };
+    
+    const response: JoinSessionResponse = {
+      success: false,
+      error,
+      timestamp: new Date().toISOString(),
+    };
+    
+    reply.code(HTTP_STATUS.BAD_REQUEST).send(response);
+    return;
+  }
+  
+  const { token, user, isNew } = joinResult.value;
+  setSessionToken(reply, token);
+  
+  const response: JoinSessionResponse = {
+    success: true,
+    data: {
+      token,
+      user: { ...user, role: request.userRole },
+    },
+    timestamp: new Date().toISOString(),
+  };
+  
+  reply.code(isNew ? HTTP_STATUS.CREATED : HTTP_STATUS.OK).send(response);
+}
+
+/**
+ * Handle GET /api/users/me - Get the requesting guest's profile
+ * Requirements: 28.2
+ */
+async function handleGetProfile(
+  request: FastifyRequest<UserProfileRouteInterface>,
+  reply: FastifyReply
+): Promise<void> {
+  if (!request.guest) {
+    sendSessionRequired(reply);
+    return;
+  }
+  
+  const response: UserProfileResponse = {
+    success: true,
+    data: request.guest,
+    timestamp: new Date().toISOString(),
+  };
+  
+  reply.code(HTTP_STATUS.OK).send(response);
+}
+
+/**
+ * Handle PATCH /api/users/me - Change the requesting guest's nickname
+ * Tracks already queued keep the nickname they were added under
+ * Requirements: 28.2
+ */
+async function handleUpdateProfile(
+  request: FastifyRequest<UserProfileRouteInterface>,
+  reply: FastifyReply,
+  guestSessionService: IGuestSessionService
+): Promise<void> {
+  if (!request.guest) {
+    sendSessionRequired(reply);
+    return;
+  }
+  
+  const updateResult = guestSessionService.updateNickname(request.guest.id, request.body?.nickname);
+  
+  if (!updateResult.success) {
+    const error: APIError = {
+      code: API_ERROR_CODES.INVALID_USER_DATA,
+      message: 'Nickname must not be empty',
+      details: { field: 'nickname', error: updateResult.error },
+      timestamp: new Date().toISOString(),
+    };
+    
+    const response: UserProfileResponse = {
+      success: false,
+      error,
+      timestamp: new Date().toISOString(),
+    };
+    
+    reply.code(HTTP_STATUS.BAD_REQUEST).send(response);
+    return;
+  }
+  
+  const response: UserProfileResponse = {
+    success: true,
+    data: { ...updateResult.value, role: request.userRole },
+    timestamp: new Date().toISOString(),
+  };
+  
+  reply.code(HTTP_STATUS.OK).send(response);
+}
+
+/**
+ * Reject a request that needs a guest session but came without a valid one
+ * Requirements: 28.1
+ */
+function sendSessionRequired(reply: FastifyReply): void {
+  const error: APIError = {
+    code: API_ERROR_CODES.SESSION_REQUIRED,
+    message: 'Join the party first with POST /api/session',
+    timestamp: new Date().toISOString(),
+  };
+  
+  reply.code(HTTP_STATUS.UNAUTHORIZED).send({
+    success: false,
+    error,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/**
+ * Handle GET /api/autoplay - Get autoplay settings
+ * Requirements: 14.5
+ */
+async function handleGetAutoplaySettings(
+  request: FastifyRequest<AutoplaySettingsRouteInterface>,
+  reply: FastifyReply,
+  autoplayService: IAutoplayService
+): Promise<void> {
+  const response: AutoplaySettingsResponse = {
+    success: true,
+    data: autoplayService.getSettings(),
+    timestamp: new Date().toISOString(),
+  };
+  
+  reply.code(HTTP_STATUS.OK).send(response);
+}
+
+/**
+ * Handle PUT /api/autoplay - Update autoplay settings (host only)
+ * Requirements: 14.5
+ */
+async function handleUpdateAutoplaySettings(
+  request: FastifyRequest<AutoplaySettingsRouteInterface>,
   reply: FastifyReply,
-  searchService: ISearchService
+  autoplayService: IAutoplayService
 ): Promise<void> {
   try {
-    const { q: query, page = 1, limit = 20 } = request.query;
-    
-    // Validate required query parameter
-    if (!query || typeof query !== 'string' || !query.trim()) {
+    const { enabled, seedVideoIds, fallbackVideoIds } = request.body ?? {};
+    const isVideoIdList = (value: unknown) =>
+      value === undefined || (Array.isArray(value) && value.every(item => typeof item === 'string'));
+    
+    const invalidField = enabled !== undefined && typeof enabled !== 'boolean'
+      ? 'enabled'
+      : !isVideoIdList(seedVideoIds)
+        ? 'seedVideoIds'
+        : !isVideoIdList(fallbackVideoIds)
+          ? 'fallbackVideoIds'
+          : undefined;
+    
+    if (invalidField) {
       const error: APIError = {
         code: API_ERROR_CODES.VALIDATION_FAILED,
-        message: 'Search query is required and must be a non-empty string',
-        details: {
-          field: 'q',
-          received: query,
-          expected: 'non-empty string'
-        },
+        message: invalidField === 'enabled'
+          ? 'enabled must be a boolean'
+          : `${invalidField} must be an array of video IDs`,
+        details: { field: invalidField },
         timestamp: new Date().toISOString(),
       };
       
-      const response: SearchResponse = {
+      const response: AutoplaySettingsResponse = {
         success: false,
         error,
         timestamp: new Date().toISOString(),
@@ -241,126 +1925,30 @@ async function handleSearchVideos(
       return;
     }
     
-    // Validate and sanitize pagination parameters
-    let validatedPage = 1;
-    let validatedLimit = 20;
-    
-    if (page !== undefined) {
-      const pageNum = Number(page);
-      if (isNaN(pageNum) || pageNum < 1) {
-        validatedPage = 1; // Use default for invalid page
-      } else {
-        validatedPage = Math.floor(pageNum);
-      }
-    }
-    
-    if (limit !== undefined) {
-      const limitNum = Number(limit);
-      if (isNaN(limitNum) || limitNum < 1) {
-        validatedLimit = 20; // Use default for invalid limit
-      } else {
-        // Enforce maximum limit of 50 as per requirements
-        validatedLimit = Math.min(Math.floor(limitNum), 50);
-      }
-    }
-    
-    // Sanitize query string (trim whitespace, limit length)
-    const sanitizedQuery = query.trim().substring(0, 200); // Limit query length
-    
-    // Prepare search parameters for SearchService
-    const searchParams: SearchParams = {
-      query: sanitizedQuery,
-      page: validatedPage,
-      limit: validatedLimit
-    };
-    
-    // Call search service with validated parameters
-    const searchResult = await searchService.search(searchParams);
-    
-    if (!searchResult.success) {
-      // Handle search service errors
-      let apiError: APIError;
-      let statusCode: number;
-      
-      switch (searchResult.error) {
-        case 'INVALID_QUERY':
-          apiError = {
-            code: API_ERROR_CODES.VALIDATION_FAILED,
-            message: 'Invalid search query',
-            details: {
-              field: 'query',
-              reason: 'Query must be a non-empty string with maximum 100 characters'
-            },
-            timestamp: new Date().toISOString(),
-          };
-          statusCode = HTTP_STATUS.BAD_REQUEST;
-          break;
-          
-        case 'SERVICE_UNAVAILABLE':
-          apiError = {
-            code: API_ERROR_CODES.SERVICE_UNAVAILABLE,
-            message: 'YouTube search service is temporarily unavailable',
-            details: {
-              reason: 'API quota exceeded or service unavailable',
-              suggestion: 'Please try again later'
-            },
-            timestamp: new Date().toISOString(),
-          };
-          statusCode = HTTP_STATUS.SERVICE_UNAVAILABLE;
-          break;
-          
-        case 'YOUTUBE_API_ERROR':
-          apiError = {
-            code: API_ERROR_CODES.SERVICE_UNAVAILABLE,
-            message: 'YouTube API error occurred',
-            details: {
-              reason: 'External API error',
-              suggestion: 'Please try again later'
-            },
-            timestamp: new Date().toISOString(),
-          };
-          statusCode = HTTP_STATUS.SERVICE_UNAVAILABLE;
-          break;
-          
-        default:
-          apiError = {
-            code: API_ERROR_CODES.INTERNAL_ERROR,
-            message: 'Unknown search error',
-            timestamp: new Date().toISOString(),
-          };
-          statusCode = HTTP_STATUS.INTERNAL_SERVER_ERROR;
-      }
-      
-      const response: SearchResponse = {
-        success: false,
-        error: apiError,
-        timestamp: new Date().toISOString(),
-      };
-      
-      reply.code(statusCode).send(response);
-      return;
-    }
+    const settings = autoplayService.updateSettings({
+      ...(enabled !== undefined && { enabled }),
+      ...(seedVideoIds && { seedVideoIds }),
+      ...(fallbackVideoIds && { fallbackVideoIds }),
+    });
     
-    // Success - return search results
-    const response: SearchResponse = {
+    const response: AutoplaySettingsResponse = {
       success: true,
-      data: searchResult.value,
+      data: settings,
       timestamp: new Date().toISOString(),
     };
     
     reply.code(HTTP_STATUS.OK).send(response);
     
   } catch (error) {
-    console.error('Error searching videos:', error);
+    console.error('Error updating autoplay settings:', error);
     
-    // Generic internal server error for unexpected exceptions
     const apiError: APIError = {
       code: API_ERROR_CODES.INTERNAL_ERROR,
-      message: 'Internal server error during search',
+      message: 'Internal server error while updating autoplay settings',
       timestamp: new Date().toISOString(),
     };
     
-    const response: SearchResponse = {
+    const response: AutoplaySettingsResponse = {
       success: false,
       error: apiError,
       timestamp: new Date().toISOString(),
@@ -371,36 +1959,108 @@ async function handleSearchVideos(
 }
 
 /**
- * Handle GET /api/queue - Get current queue state
- * Requirements: 2.1
+ * Content policy fields a host may set, and what each must hold
+ * Requirements: 26.2
  */
-async function handleGetQueueState(
-  request: FastifyRequest<QueueStateRouteInterface>,
+const CONTENT_POLICY_FIELDS: Record<keyof ContentPolicyRequest, 'seconds' | 'flag' | 'list'> = {
+  maxDurationSeconds: 'seconds',
+  minDurationSeconds: 'seconds',
+  blockLiveStreams: 'flag',
+  blockedKeywords: 'list',
+  blockedChannels: 'list',
+  blockedVideoIds: 'list',
+  blockAgeRestricted: 'flag',
+  musicOnly: 'flag',
+};
+
+const CONTENT_POLICY_FIELD_KINDS = {
+  seconds: {
+    isValid: (value: unknown) => value === null || (typeof value === 'number' && Number.isFinite(value) && value >= 0),
+    message: 'must be a number of seconds or null',
+  },
+  flag: {
+    isValid: (value: unknown) => typeof value === 'boolean',
+    message: 'must be a boolean',
+  },
+  list: {
+    isValid: (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string'),
+    message: 'must be an array of strings',
+  },
+};
+
+/**
+ * Handle GET /api/policy - Get the content rules
+ * Requirements: 26.2
+ */
+async function handleGetContentPolicy(
+  request: FastifyRequest<ContentPolicyRouteInterface>,
   reply: FastifyReply,
-  queueService: any
+  contentPolicyService: IContentPolicyService
+): Promise<void> {
+  const response: ContentPolicyResponse = {
+    success: true,
+    data: contentPolicyService.getSettings(),
+    timestamp: new Date().toISOString(),
+  };
+  
+  reply.code(HTTP_STATUS.OK).send(response);
+}
+
+/**
+ * Handle PUT /api/policy - Update the content rules (host only)
+ * Requirements: 26.2
+ */
+async function handleUpdateContentPolicy(
+  request: FastifyRequest<ContentPolicyRouteInterface>,
+  reply: FastifyReply,
+  contentPolicyService: IContentPolicyService
 ): Promise<void> {
   try {
-    const queueState = queueService.getQueueState();
+    const update: ContentPolicyRequest = request.body ?? {};
+    const fields = (Object.keys(CONTENT_POLICY_FIELDS) as Array<keyof ContentPolicyRequest>)
+      .filter(field => update[field] !== undefined);
+    const invalidField = fields.find(field => !CONTENT_POLICY_FIELD_KINDS[CONTENT_POLICY_FIELDS[field]].isValid(update[field]));
     
-    const response: QueueStateResponse = {
+    if (invalidField) {
+      const error: APIError = {
+        code: API_ERROR_CODES.VALIDATION_FAILED,
+        message: `${invalidField} ${CONTENT_POLICY_FIELD_KINDS[CONTENT_POLICY_FIELDS[invalidField]].message}`,
+        details: { field: invalidField },
+        timestamp: new Date().toISOString(),
+      };
+      
+      const response: ContentPolicyResponse = {
+        success: false,
+        error,
+        timestamp: new Date().toISOString(),
+      };
+      
+      reply.code(HTTP_STATUS.BAD_REQUEST).send(response);
+      return;
+    }
+    
+    const settings = contentPolicyService.updateSettings(
+      Object.fromEntries(fields.map(field => [field, update[field]]))
+    );
+    
+    const response: ContentPolicyResponse = {
       success: true,
-      data: {
-        queue: queueState,
-      },
+      data: settings,
       timestamp: new Date().toISOString(),
     };
     
     reply.code(HTTP_STATUS.OK).send(response);
+    
   } catch (error) {
-    console.error('Error getting queue state:', error);
+    console.error('Error updating content policy:', error);
     
     const apiError: APIError = {
       code: API_ERROR_CODES.INTERNAL_ERROR,
-      message: 'Failed to retrieve queue state',
+      message: 'Internal server error while updating the content policy',
       timestamp: new Date().toISOString(),
     };
     
-    const response: QueueStateResponse = {
+    const response: ContentPolicyResponse = {
       success: false,
       error: apiError,
       timestamp: new Date().toISOString(),
@@ -411,116 +2071,56 @@ async function handleGetQueueState(
 }
 
 /**
- * Handle POST /api/queue/add - Add track to queue
- * Requirements: 2.2, 2.3, 2.4, 2.5
+ * Fields named in validation errors for each rate limit settings error
+ * Requirements: 27.2
  */
-async function handleAddTrackToQueue(
-  request: FastifyRequest<AddTrackRouteInterface>,
+const RATE_LIMIT_SETTINGS_ERRORS: Record<RateLimitSettingsError, { field: string; message: string }> = {
+  INVALID_WINDOW: { field: 'windowMinutes', message: 'windowMinutes must be a positive number of minutes' },
+  INVALID_ROLE: { field: 'roles', message: 'roles must map guest, vip or host to their limits' },
+  INVALID_LIMIT: { field: 'roles', message: 'maxRequests must be a whole number and maxMinutes a positive number, or null for no limit' },
+  INVALID_VIP_LIST: { field: 'vipUserIds', message: 'vipUserIds must be an array of user IDs' },
+};
+
+/**
+ * Handle GET /api/limits - Get the rate limit policy
+ * Requirements: 27.2
+ */
+async function handleGetRateLimits(
+  request: FastifyRequest<RateLimitSettingsRouteInterface>,
   reply: FastifyReply,
-  queueService: any,
-  eventBroadcaster?: any
+  rateLimiter: IRateLimiter
+): Promise<void> {
+  const response: RateLimitSettingsResponse = {
+    success: true,
+    data: rateLimiter.getSettings(),
+    timestamp: new Date().toISOString(),
+  };
+  
+  reply.code(HTTP_STATUS.OK).send(response);
+}
+
+/**
+ * Handle PUT /api/limits - Update the rate limit policy (host only)
+ * Requirements: 27.1, 27.2
+ */
+async function handleUpdateRateLimits(
+  request: FastifyRequest<RateLimitSettingsRouteInterface>,
+  reply: FastifyReply,
+  rateLimiter: IRateLimiter
 ): Promise<void> {
   try {
-    const { track: trackData, user: userData } = request.body;
-    
-    // Validate track data
-    const trackResult = TrackValidator.create(trackData);
-    if (!trackResult.success) {
-      const error: APIError = {
-        code: API_ERROR_CODES.INVALID_TRACK_DATA,
-        message: 'Invalid track data',
-        details: { 
-          field: 'track',
-          error: trackResult.error,
-          received: trackData 
-        },
-        timestamp: new Date().toISOString(),
-      };
-      
-      const response: AddTrackResponse = {
-        success: false,
-        error,
-        timestamp: new Date().toISOString(),
-      };
-      
-      reply.code(HTTP_STATUS.BAD_REQUEST).send(response);
-      return;
-    }
-    
-    // Create user with generated ID (since we don't have authentication)
-    const userResult = UserValidator.create({
-      id: crypto.randomUUID(), // Generate unique ID for this session
-      nickname: userData.nickname,
-    });
-    
-    if (!userResult.success) {
-      const error: APIError = {
-        code: API_ERROR_CODES.INVALID_USER_DATA,
-        message: 'Invalid user data',
-        details: { 
-          field: 'user',
-          error: userResult.error,
-          received: userData 
-        },
-        timestamp: new Date().toISOString(),
-      };
-      
-      const response: AddTrackResponse = {
-        success: false,
-        error,
-        timestamp: new Date().toISOString(),
-      };
-      
-      reply.code(HTTP_STATUS.BAD_REQUEST).send(response);
-      return;
-    }
+    const updateResult = validateRateLimitSettings(request.body ?? {});
     
-    // Add track to queue using QueueService
-    const addResult = queueService.addTrackToQueue(trackResult.value, userResult.value);
-    
-    if (!addResult.success) {
-      // Handle rate limiting
-      if (addResult.error === 'RATE_LIMIT_EXCEEDED') {
-        const rateLimitInfo = queueService.getUserRateLimitInfo(userResult.value);
-        const retryAfter = Math.ceil(rateLimitInfo.timeUntilReset / 1000);
-        
-        const error: APIError = {
-          code: API_ERROR_CODES.RATE_LIMIT_EXCEEDED,
-          message: 'Rate limit exceeded. Please wait before adding another track.',
-          details: {
-            retryAfter,
-            remainingRequests: rateLimitInfo.remainingRequests,
-          },
-          timestamp: new Date().toISOString(),
-        };
-        
-        const response: AddTrackResponse = {
-          success: false,
-          error: {
-            ...error,
-            retryAfter,
-          },
-          timestamp: new Date().toISOString(),
-        };
-        
-        reply
-          .code(HTTP_STATUS.TOO_MANY_REQUESTS)
-          .header('Retry-After', retryAfter.toString())
-          .send(response);
-        return;
-      }
-      
-      // Handle other queue operation errors
+    if (!updateResult.success) {
+      const { field, message } = RATE_LIMIT_SETTINGS_ERRORS[updateResult.error];
       const error: APIError = {
-        code: API_ERROR_CODES.QUEUE_OPERATION_FAILED,
-        message: 'Failed to add track to queue',
-        details: { 
-          queueError: addResult.error 
-        },
+        code: API_ERROR_CODES.VALIDATION_FAILED,
+        message,
+        details: { field, error: updateResult.error },
         timestamp: new Date().toISOString(),
       };
       
-      const response: AddTrackResponse = {
+      const response: RateLimitSettingsResponse = {
         success: false,
         error,
         timestamp: new Date().toISOString(),
@@ -530,50 +2130,24 @@ async function handleAddTrackToQueue(
       return;
     }
     
-    // Success - get queue position
-    const queueState = queueService.getQueueState();
-    const queuePosition = queueState.totalLength; // Position is the total length since we just added
-    
-    // Trigger EventBroadcaster events if available
-    if (eventBroadcaster) {
-      console.log('🔥 API: EventBroadcaster available, triggering events...');
-      try {
-        // Broadcast track added event
-        await eventBroadcaster.broadcastTrackAdded(addResult.value, queuePosition);
-        
-        // Broadcast updated queue state
-        await eventBroadcaster.broadcastQueueUpdate(queueState);
-        
-        console.log('✅ API: EventBroadcaster events triggered successfully');
-      } catch (broadcastError) {
-        // Log broadcast errors but don't fail the API request
-        console.error('❌ API: Error broadcasting track added event:', broadcastError);
-      }
-    } else {
-      console.log('⚠️  API: EventBroadcaster not available - no real-time events will be sent');
-    }
-    
-    const response: AddTrackResponse = {
+    const response: RateLimitSettingsResponse = {
       success: true,
-      data: {
-        queueItem: addResult.value,
-        queuePosition,
-      },
+      data: rateLimiter.updateSettings(updateResult.value),
       timestamp: new Date().toISOString(),
     };
     
-    reply.code(HTTP_STATUS.CREATED).send(response);
+    reply.code(HTTP_STATUS.OK).send(response);
     
   } catch (error) {
-    console.error('Error adding track to queue:', error);
+    console.error('Error updating rate limits:', error);
     
     const apiError: APIError = {
       code: API_ERROR_CODES.INTERNAL_ERROR,
-      message: 'Internal server error while adding track',
+      message: 'Internal server error while updating rate limits',
       timestamp: new Date().toISOString(),
     };
     
-    const response: AddTrackResponse = {
+    const response: RateLimitSettingsResponse = {
       success: false,
       error: apiError,
       timestamp: new Date().toISOString(),
@@ -583,6 +2157,86 @@ async function handleAddTrackToQueue(
   }
 }
 
+/**
+ * Handle POST /api/users/:id/bonus - Grant a guest bonus requests (host only)
+ * Requirements: 27.3
+ */
+async function handleGrantBonusRequests(
+  request: FastifyRequest<BonusRequestsRouteInterface>,
+  reply: FastifyReply,
+  rateLimiter: IRateLimiter
+): Promise<void> {
+  const { id } = request.params;
+  const requests = request.body?.requests;
+  
+  if (!Number.isInteger(requests) || requests === 0) {
+    const error: APIError = {
+      code: API_ERROR_CODES.VALIDATION_FAILED,
+      message: 'requests must be a non-zero whole number',
+      details: { field: 'requests' },
+      timestamp: new Date().toISOString(),
+    };
+    
+    const response: BonusRequestsResponse = {
+      success: false,
+      error,
+      timestamp: new Date().toISOString(),
+    };
+    
+    reply.code(HTTP_STATUS.BAD_REQUEST).send(response);
+    return;
+  }
+  
+  const bonusRequests = rateLimiter.grantBonusRequests(id, requests);
+  console.log(`🎁 Host gave ${id} ${requests} bonus request(s), ${bonusRequests} left`);
+  
+  const response: BonusRequestsResponse = {
+    success: true,
+    data: { userId: id, bonusRequests },
+    timestamp: new Date().toISOString(),
+  };
+  
+  reply.code(HTTP_STATUS.OK).send(response);
+}
+
+/**
+ * Handle GET /api/users/me/limits - Get the requesting guest's rate limit standing
+ * Requirements: 27.4
+ */
+async function handleGetUserLimits(
+  request: FastifyRequest<UserLimitsRouteInterface>,
+  reply: FastifyReply,
+  queueService: any
+): Promise<void> {
+  const userId = getRequesterId(request);
+  
+  if (!userId) {
+    const error: APIError = {
+      code: API_ERROR_CODES.INVALID_USER_DATA,
+      message: 'A guest session or X-User-Id header is required',
+      details: { field: 'x-user-id' },
+      timestamp: new Date().toISOString(),
+    };
+    
+    const response: UserLimitsResponse = {
+      success: false,
+      error,
+      timestamp: new Date().toISOString(),
+    };
+    
+    reply.code(HTTP_STATUS.BAD_REQUEST).send(response);
+    return;
+  }
+  
+  const response: UserLimitsResponse = {
+    success: true,
+    data: queueService.getUserRateLimitInfo(request.guest ?? { id: userId, nickname: '', role: request.userRole }),
+    timestamp: new Date().toISOString(),
+  };
+  
+  reply.code(HTTP_STATUS.OK).send(response);
+}
+
 /**
  * Handle GET /api/playback/status - Get current playback state
  * Requirements: 4.4, 4.6
@@ -887,4 +2541,101 @@ async function handleResumePlayback(
     
     reply.code(HTTP_STATUS.INTERNAL_SERVER_ERROR).send(response);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Handle POST /api/playback/seek - Seek within the current track
+ * Requirements: 15.1, 15.2
+ */
+async function handleSeekPlayback(
+  request: FastifyRequest<SeekPlaybackRouteInterface>,
+  reply: FastifyReply,
+  playbackOrchestrator: IPlaybackOrchestrator
+): Promise<void> {
+  try {
+    const { position, offset } = request.body ?? {};
+    const isSeconds = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+    const hasPosition = position !== undefined;
+    const hasOffset = offset !== undefined;
+    
+    if (hasPosition === hasOffset || (hasPosition && (!isSeconds(position) || position < 0)) || (hasOffset && !isSeconds(offset))) {
+      const error: APIError = {
+        code: API_ERROR_CODES.VALIDATION_FAILED,
+        message: 'Provide either a non-negative position or an offset in seconds',
+        details: { fields: ['position', 'offset'] },
+        timestamp: new Date().toISOString(),
+      };
+      
+      const response: PlaybackActionResponse = {
+        success: false,
+        error,
+        timestamp: new Date().toISOString(),
+      };
+      
+      reply.code(HTTP_STATUS.BAD_REQUEST).send(response);
+      return;
+    }
+    
+    const seekResult = hasPosition
+      ? await playbackOrchestrator.seek(position!, 'absolute')
+      : await playbackOrchestrator.seek(offset!, 'relative');
+    
+    if (!seekResult.success) {
+      const nothingPlaying = seekResult.error === 'NOTHING_PLAYING';
+      const error: APIError = {
+        code: nothingPlaying ? API_ERROR_CODES.INVALID_REQUEST : API_ERROR_CODES.INTERNAL_ERROR,
+        message: nothingPlaying ? 'Cannot seek when nothing is playing' : 'Failed to seek playback',
+        details: { 
+          orchestrationError: seekResult.error 
+        },
+        timestamp: new Date().toISOString(),
+      };
+      
+      const response: PlaybackActionResponse = {
+        success: false,
+        error,
+        timestamp: new Date().toISOString(),
+      };
+      
+      reply.code(nothingPlaying ? HTTP_STATUS.BAD_REQUEST : HTTP_STATUS.INTERNAL_SERVER_ERROR).send(response);
+      return;
+    }
+    
+    // Get updated state after seek
+    const newState = playbackOrchestrator.getCurrentState();
+    
+    const response: PlaybackActionResponse = {
+      success: true,
+      data: {
+        action: 'seek',
+        newStatus: {
+          status: newState.status,
+          currentTrack: newState.currentTrack,
+          position: newState.position,
+          duration: newState.duration,
+          volume: newState.volume,
+        },
+      },
+      timestamp: new Date().toISOString(),
+    };
+    
+    reply.code(HTTP_STATUS.OK).send(response);
+    
+  } catch (error) {
+    console.error('Error seeking playback:', error);
+    
+    const apiError: APIError = {
+      code: API_ERROR_CODES.INTERNAL_ERROR,
+      message: 'Internal server error while seeking playback',
+      timestamp: new Date().toISOString(),
+    };
+    
+    const response: PlaybackActionResponse = {
+      success: false,
+      error: apiError,
+      timestamp: new Date().toISOString(),
+    };
+    
+    reply.code(HTTP_STATUS.INTERNAL_SERVER_ERROR).send(response);
+  }
+}
@@ -8,7 +8,15 @@
  */
 
 import { FastifyRequest, FastifyReply, RouteGenericInterface } from 'fastify';
-import { Track, User, QueueItem, QueueState, SearchResult } from '@party-jukebox/shared';
+import { Track, TrackSource, User, UserRole, QueueItem, QueueState, QueueOrderingMode, QueueVoteDirection, SearchResult } from '@party-jukebox/shared';
+import { PrefetchStatuses, SkipVoteTally, VolumeState } from '../../../domain/playback/types';
+import { AutoplaySettings } from '../../../domain/autoplay/types';
+import { LibraryStatus } from '../../../domain/library/types';
+import { PlaylistImportSummary } from '../../../domain/playlists/types';
+import { HistoryPage } from '../../../domain/history/types';
+import { ContentPolicySettings } from '../../../domain/policy/types';
+import { RateLimitSettings, RateLimitSettingsUpdate } from '../../../domain/ratelimit/types';
+import { UserRateLimitInfo } from '../../../application/QueueService';
 
 // Temporary interface until SearchService compilation issues are resolved
 interface PaginatedSearchResults {
@@ -97,6 +105,7 @@ export const HTTP_STATUS = {
   UNAUTHORIZED: 401,
   FORBIDDEN: 403,
   NOT_FOUND: 404,
+  CONFLICT: 409,
   METHOD_NOT_ALLOWED: 405,
   TOO_MANY_REQUESTS: 429,
   INTERNAL_SERVER_ERROR: 500,
@@ -117,6 +126,20 @@ export const API_ERROR_CODES = {
   INVALID_TRACK_DATA: 'INVALID_TRACK_DATA',
   INVALID_USER_DATA: 'INVALID_USER_DATA',
   QUEUE_OPERATION_FAILED: 'QUEUE_OPERATION_FAILED',
+  TRACK_NOT_FOUND: 'TRACK_NOT_FOUND',
+  INSUFFICIENT_PERMISSIONS: 'INSUFFICIENT_PERMISSIONS',
+  ALREADY_VOTED: 'ALREADY_VOTED',
+  VOTING_DISABLED: 'VOTING_DISABLED',
+  REORDER_DISABLED: 'REORDER_DISABLED',
+  INVALID_PIN: 'INVALID_PIN',
+  TOO_MANY_ATTEMPTS: 'TOO_MANY_ATTEMPTS',
+  INVALID_PLAYLIST_URL: 'INVALID_PLAYLIST_URL',
+  PLAYLIST_NOT_FOUND: 'PLAYLIST_NOT_FOUND',
+  PLAYLIST_EMPTY: 'PLAYLIST_EMPTY',
+  IMPORT_IN_PROGRESS: 'IMPORT_IN_PROGRESS',
+  DUPLICATE_REQUEST: 'DUPLICATE_REQUEST',
+  CONTENT_POLICY_VIOLATION: 'CONTENT_POLICY_VIOLATION',
+  SESSION_REQUIRED: 'SESSION_REQUIRED',
 } as const;
 
 /**
@@ -129,11 +152,15 @@ export interface AddTrackRequest {
   track: {
     title: string;
     artist: string;
-    videoId: string;
+    source?: TrackSource; // Defaults to youtube
+    sourceId?: string;
+    videoId?: string; // Shorthand for YouTube tracks
     duration: number;
     thumbnailUrl?: string;
   };
-  user: {
+  // With guest sessions the user comes from the session, and this only names
+  // a device that hasn't joined yet
+  user?: {
     nickname: string;
   };
 }
@@ -171,6 +198,105 @@ export interface QueueStateRouteInterface extends RouteGenericInterface {
   Reply: QueueStateResponse;
 }
 
+/**
+ * Playlist import Request/Response Types
+ * Requirements: 23.1, 23.2
+ */
+
+// Import a playlist or mix into the queue
+export interface ImportPlaylistRequest {
+  url: string; // Playlist, mix or watch URL with a list= parameter
+  user?: {
+    nickname: string;
+  };
+}
+
+// Import outcome; progress is reported over the WebSocket while it runs
+export interface ImportPlaylistResponse {
+  success: boolean;
+  data?: PlaylistImportSummary;
+  error?: APIError & {
+    retryAfter?: number; // For rate limiting
+  };
+  timestamp: string;
+}
+
+// Playlist import route interface for Fastify typing
+export interface ImportPlaylistRouteInterface extends RouteGenericInterface {
+  Body: ImportPlaylistRequest;
+  Reply: ImportPlaylistResponse;
+}
+
+/**
+ * Queue item modification Request/Response Types
+ * Requirements: 9.1, 9.2, 9.3, 9.5
+ */
+
+// Queue item route parameters
+export interface QueueItemParams {
+  id: string;
+}
+
+// Move or promote a queue item - exactly one of position or promote
+export interface MoveTrackRequest {
+  position?: number; // 0-based index within upcoming tracks
+  promote?: boolean;
+}
+
+// Upvote or downvote a queue item
+export interface VoteTrackRequest {
+  direction: QueueVoteDirection;
+}
+
+// Queue item modification response (remove, move, promote, vote)
+export interface QueueItemActionResponse {
+  success: boolean;
+  data?: {
+    action: 'remove' | 'move' | 'promote' | 'vote';
+    queueItem: QueueItem;
+    queue: QueueState;
+  };
+  error?: APIError;
+  timestamp: string;
+}
+
+export interface RemoveTrackRouteInterface extends RouteGenericInterface {
+  Params: QueueItemParams;
+  Reply: QueueItemActionResponse;
+}
+
+export interface MoveTrackRouteInterface extends RouteGenericInterface {
+  Params: QueueItemParams;
+  Body: MoveTrackRequest;
+  Reply: QueueItemActionResponse;
+}
+
+export interface VoteTrackRouteInterface extends RouteGenericInterface {
+  Params: QueueItemParams;
+  Body: VoteTrackRequest;
+  Reply: QueueItemActionResponse;
+}
+
+// Switch between FIFO and vote ordering (host only)
+export interface SetOrderingModeRequest {
+  mode: QueueOrderingMode;
+}
+
+export interface QueueOrderingResponse {
+  success: boolean;
+  data?: {
+    orderingMode: QueueOrderingMode;
+    queue: QueueState;
+  };
+  error?: APIError;
+  timestamp: string;
+}
+
+export interface QueueOrderingRouteInterface extends RouteGenericInterface {
+  Body: SetOrderingModeRequest;
+  Reply: QueueOrderingResponse;
+}
+
 /**
  * Playback API Request/Response Types
  * Requirements: 4.1, 4.2, 4.3, 4.4, 4.5, 4.6, 4.7
@@ -217,6 +343,95 @@ export interface PlaybackActionRouteInterface extends RouteGenericInterface {
   Reply: PlaybackActionResponse;
 }
 
+// Seek request - either an absolute position or an offset from the current position, in seconds
+// Requirements: 15.1
+export interface SeekPlaybackRequest {
+  position?: number;
+  offset?: number;
+}
+
+export interface SeekPlaybackRouteInterface extends RouteGenericInterface {
+  Body: SeekPlaybackRequest;
+  Reply: PlaybackActionResponse;
+}
+
+/**
+ * Prefetch API Response Types
+ * Requirements: 18.4
+ */
+
+// Prefetch status of the upcoming tracks being resolved ahead of time
+export interface PrefetchStatusResponse {
+  success: boolean;
+  data?: {
+    statuses: PrefetchStatuses;
+  };
+  error?: APIError;
+  timestamp: string;
+}
+
+// Prefetch API route interface for Fastify typing
+export interface PrefetchStatusRouteInterface extends RouteGenericInterface {
+  Reply: PrefetchStatusResponse;
+}
+
+/**
+ * Volume API Request/Response Types
+ * Requirements: 16.1, 16.2, 16.3, 16.5
+ */
+
+// Volume update - omitted fields are left unchanged; maxVolume is host only
+export interface SetVolumeRequest {
+  level?: number;
+  muted?: boolean;
+  maxVolume?: number;
+}
+
+// Duck request - lower the volume for an announcement
+export interface DuckVolumeRequest {
+  level?: number;
+  durationMs?: number;
+}
+
+// Volume state response
+export interface VolumeResponse {
+  success: boolean;
+  data?: VolumeState;
+  error?: APIError;
+  timestamp: string;
+}
+
+// Volume API route interfaces for Fastify typing
+export interface VolumeRouteInterface extends RouteGenericInterface {
+  Body: SetVolumeRequest;
+  Reply: VolumeResponse;
+}
+
+export interface DuckVolumeRouteInterface extends RouteGenericInterface {
+  Body: DuckVolumeRequest;
+  Reply: VolumeResponse;
+}
+
+/**
+ * Vote-to-skip Response Types
+ * Requirements: 11.1, 11.3
+ */
+
+// Vote-to-skip response
+export interface SkipVoteResponse {
+  success: boolean;
+  data?: {
+    tally: SkipVoteTally;
+    skipped: boolean;
+  };
+  error?: APIError;
+  timestamp: string;
+}
+
+export interface SkipVoteRouteInterface extends RouteGenericInterface {
+  Reply: SkipVoteResponse;
+}
+
 /**
  * Search API Request/Response Types
  * Requirements: 3.1, 3.2, 3.3, 3.4, 3.5, 3.7
@@ -227,6 +442,7 @@ export interface SearchRequest {
   q: string; // search query
   page?: number; // page number (default: 1)
   limit?: number; // results per page (default: 20, max: 50)
+  pageToken?: string; // nextPageToken from the previous page, for infinite scroll
 }
 
 // Search response
@@ -241,4 +457,251 @@ export interface SearchResponse {
 export interface SearchRouteInterface extends RouteGenericInterface {
   Querystring: SearchRequest;
   Reply: SearchResponse;
-}
\ No newline at end of file
+}
+
+/**
+ * Autoplay API Request/Response Types
+ * Requirements: 14.5
+ */
+
+// Autoplay settings update - omitted fields are left unchanged
+export interface AutoplaySettingsRequest {
+  enabled?: boolean;
+  seedVideoIds?: string[];
+  fallbackVideoIds?: string[];
+}
+
+// Autoplay settings response
+export interface AutoplaySettingsResponse {
+  success: boolean;
+  data?: AutoplaySettings;
+  error?: APIError;
+  timestamp: string;
+}
+
+// Autoplay API route interface for Fastify typing
+export interface AutoplaySettingsRouteInterface extends RouteGenericInterface {
+  Body: AutoplaySettingsRequest;
+  Reply: AutoplaySettingsResponse;
+}
+
+/**
+ * Content Policy API Request/Response Types
+ * Requirements: 26.2
+ */
+
+// Content policy update - omitted fields are left unchanged, null duration limits turn them off
+export interface ContentPolicyRequest {
+  maxDurationSeconds?: number | null;
+  minDurationSeconds?: number | null;
+  blockLiveStreams?: boolean;
+  blockedKeywords?: string[];
+  blockedChannels?: string[];
+  blockedVideoIds?: string[];
+  blockAgeRestricted?: boolean;
+  musicOnly?: boolean;
+}
+
+// Content policy response
+export interface ContentPolicyResponse {
+  success: boolean;
+  data?: ContentPolicySettings;
+  error?: APIError;
+  timestamp: string;
+}
+
+// Content policy API route interface for Fastify typing
+export interface ContentPolicyRouteInterface extends RouteGenericInterface {
+  Body: ContentPolicyRequest;
+  Reply: ContentPolicyResponse;
+}
+
+/**
+ * Rate Limit API Request/Response Types
+ * Requirements: 27.2, 27.3, 27.4
+ */
+
+// Rate limit policy update - omitted fields are left unchanged, null limits are unlimited
+export type RateLimitSettingsRequest = RateLimitSettingsUpdate;
+
+// Rate limit policy response
+export interface RateLimitSettingsResponse {
+  success: boolean;
+  data?: RateLimitSettings;
+  error?: APIError;
+  timestamp: string;
+}
+
+// Rate limit policy API route interface for Fastify typing
+export interface RateLimitSettingsRouteInterface extends RouteGenericInterface {
+  Body: RateLimitSettingsRequest;
+  Reply: RateLimitSettingsResponse;
+}
+
+// Bonus requests for one guest; a negative count takes them away
+export interface BonusRequestsRequest {
+  requests: number;
+}
+
+export interface BonusRequestsResponse {
+  success: boolean;
+  data?: {
+    userId: string;
+    bonusRequests: number;
+  };
+  error?: APIError;
+  timestamp: string;
+}
+
+export interface BonusRequestsRouteInterface extends RouteGenericInterface {
+  Params: {
+    id: string;
+  };
+  Body: BonusRequestsRequest;
+  Reply: BonusRequestsResponse;
+}
+
+// The requesting guest's own rate limit standing
+export interface UserLimitsResponse {
+  success: boolean;
+  data?: UserRateLimitInfo;
+  error?: APIError;
+  timestamp: string;
+}
+
+export interface UserLimitsRouteInterface extends RouteGenericInterface {
+  Reply: UserLimitsResponse;
+}
+
+/**
+ * Local Library API Request/Response Types
+ * Requirements: 19.1, 19.2
+ */
+
+// Library index summary, also returned after a rescan
+export interface LibraryStatusResponse {
+  success: boolean;
+  data?: LibraryStatus;
+  error?: APIError;
+  timestamp: string;
+}
+
+// Library API route interfaces for Fastify typing
+export interface LibraryStatusRouteInterface extends RouteGenericInterface {
+  Reply: LibraryStatusResponse;
+}
+
+export interface LibraryCoverArtRouteInterface extends RouteGenericInterface {
+  Params: {
+    id: string;
+  };
+}
+
+/**
+ * Play History API Request/Response Types
+ * Requirements: 24.2, 24.3
+ */
+
+// History filters and paging; dates are ISO 8601 timestamps
+export interface HistoryRequest {
+  page?: number; // page number (default: 1)
+  limit?: number; // entries per page (default: 50, max: 200)
+  outcome?: string; // played, skipped or failed
+  userId?: string;
+  source?: string;
+  q?: string; // matched against title, artist and requester nickname
+  from?: string;
+  to?: string;
+}
+
+// History export query: the same filters, without paging
+export interface HistoryExportRequest extends Omit<HistoryRequest, 'page' | 'limit'> {
+  format?: string; // json (default), csv or m3u
+}
+
+// History page response, most recent first
+export interface HistoryResponse {
+  success: boolean;
+  data?: HistoryPage;
+  error?: APIError;
+  timestamp: string;
+}
+
+// History API route interfaces for Fastify typing
+export interface HistoryRouteInterface extends RouteGenericInterface {
+  Querystring: HistoryRequest;
+  Reply: HistoryResponse;
+}
+
+export interface HistoryExportRouteInterface extends RouteGenericInterface {
+  Querystring: HistoryExportRequest;
+}
+
+/**
+ * Host API Request/Response Types
+ * Requirements: 10.2
+ */
+
+// Host unlock request
+export interface HostUnlockRequest {
+  pin: string;
+}
+
+// Host unlock response
+export interface HostUnlockResponse {
+  success: boolean;
+  data?: {
+    token: string;
+    role: UserRole;
+  };
+  error?: APIError;
+  timestamp: string;
+}
+
+// Host API route interface for Fastify typing
+export interface HostUnlockRouteInterface extends RouteGenericInterface {
+  Body: HostUnlockRequest;
+  Reply: HostUnlockResponse;
+}
+
+/**
+ * Guest Session API Request/Response Types
+ * Requirements: 28.1, 28.2
+ */
+
+// Join the party, or resume the session the device already has
+export interface JoinSessionRequest {
+  nickname?: string;
+}
+
+export interface JoinSessionResponse {
+  success: boolean;
+  data?: {
+    token: string;
+    user: User;
+  };
+  error?: APIError;
+  timestamp: string;
+}
+
+export interface JoinSessionRouteInterface extends RouteGenericInterface {
+  Body: JoinSessionRequest;
+  Reply: JoinSessionResponse;
+}
+
+// The requesting guest's profile; only the nickname can be changed
+export interface UserProfileRequest {
+  nickname: string;
+}
+
+export interface UserProfileResponse {
+  success: boolean;
+  data?: User;
+  error?: APIError;
+  timestamp: string;
+}
+
+export interface UserProfileRouteInterface extends RouteGenericInterface {
+  Body: UserProfileRequest;
+  Reply: UserProfileResponse;
+}
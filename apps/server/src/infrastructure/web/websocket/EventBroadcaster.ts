@@ -4,13 +4,19 @@
  * Manages real-time event distribution to WebSocket clients, converting backend
  * events to WebSocket messages and handling initial state synchronization.
  * 
- * Requirements: 5.2, 5.3, 5.7, 6.1, 6.2, 6.4, 6.6, 6.7
+ * Requirements: 5.2, 5.3, 5.7, 6.1, 6.2, 6.4, 6.6, 6.7, 30.1, 30.2
  */
 
 import { EventEmitter } from 'events';
-import { QueueItem, QueueState } from '@party-jukebox/shared';
-import { PlaybackState, PlaybackEvent } from '../../../domain/playback/types';
+import { randomUUID } from 'crypto';
+import { QueueItem, QueueState, QueueEvent } from '@party-jukebox/shared';
+import { PlaybackState, PlaybackEvent, PrefetchStatuses, SkipVoteTally, VolumeState } from '../../../domain/playback/types';
 import { IQueueService } from '../../../application/QueueService';
+import { ISkipVoteService } from '../../../application/SkipVoteService';
+import { IVolumeService } from '../../../application/VolumeService';
+import { IPrefetchService } from '../../../application/PrefetchService';
+import { IPlaylistImportService } from '../../../application/PlaylistImportService';
+import { PlaylistImportProgress } from '../../../domain/playlists/types';
 import { IPlaybackOrchestrator } from '../../../domain/playback/interfaces';
 import { 
   WebSocketEvent, 
@@ -20,6 +26,11 @@ import {
   TrackFinishedEvent, 
   InitialStateEvent, 
   HeartbeatEvent,
+  SkipVotesUpdatedEvent,
+  VolumeUpdatedEvent,
+  PrefetchUpdatedEvent,
+  PlaylistImportProgressEvent,
+  ResyncRequiredEvent,
   ClientFilter,
   ClientType,
   WebSocketConnection
@@ -30,22 +41,35 @@ export interface EventBroadcasterConfig {
   heartbeatInterval: number; // milliseconds
   maxBroadcastTime: number; // milliseconds - requirement for <100ms delivery
   enableEventMetadata: boolean;
+  replayBufferSize?: number; // recent broadcasts kept for reconnecting clients
 }
 
+const DEFAULT_REPLAY_BUFFER_SIZE = 500;
+
 export interface EventBroadcasterDependencies {
   queueService: IQueueService;
   playbackOrchestrator: IPlaybackOrchestrator;
   clientManager: ClientManager;
+  skipVoteService?: ISkipVoteService | undefined;
+  volumeService?: IVolumeService | undefined;
+  prefetchService?: IPrefetchService | undefined;
+  playlistImportService?: IPlaylistImportService | undefined;
 }
 
 /**
  * EventBroadcaster implementation for real-time WebSocket updates
- * Requirements: 5.2, 5.3, 5.7, 6.1, 6.2, 6.4, 6.6, 6.7
+ * State changes form a stream numbered without gaps, so clients can tell when
+ * they missed one. Heartbeats, errors and per-client events carry the number of
+ * the last stream event instead of taking one of their own
+ * Requirements: 5.2, 5.3, 5.7, 6.1, 6.2, 6.4, 6.6, 6.7, 30.1, 30.2
  */
 export class EventBroadcaster extends EventEmitter {
   private config: EventBroadcasterConfig;
   private dependencies: EventBroadcasterDependencies;
   private sequenceNumber: number = 0;
+  private readonly streamId: string = randomUUID(); // Tells a client whether its sequence numbers are from this run
+  private readonly replayBufferSize: number;
+  private recentEvents: WebSocketEvent[] = []; // Ring buffer of the latest stream events, oldest first
   private heartbeatTimer: NodeJS.Timeout | null = null;
   private isInitialized: boolean = false;
   private lastPlaybackState: PlaybackState | null = null; // Track last broadcast state
@@ -58,6 +82,7 @@ export class EventBroadcaster extends EventEmitter {
     super();
     this.config = config;
     this.dependencies = dependencies;
+    this.replayBufferSize = Math.max(0, config.replayBufferSize ?? DEFAULT_REPLAY_BUFFER_SIZE);
   }
 
   /**
@@ -98,9 +123,72 @@ export class EventBroadcaster extends EventEmitter {
 
     console.log('📡 Subscribed to PlaybackOrchestrator events');
     
-    // Note: QueueService doesn't currently emit events directly
-    // In a future iteration, we would subscribe to queue events here
-    // For now, we'll handle queue updates through playback state changes
+    // Subscribe to QueueService events for changes that don't go through playback
+    this.dependencies.queueService.addEventListener({
+      onQueueEvent: (event: QueueEvent) => {
+        this.handleQueueEvent(event);
+      }
+    });
+
+    console.log('📡 Subscribed to QueueService events');
+
+    // Subscribe to vote-to-skip tallies
+    if (this.dependencies.skipVoteService) {
+      this.dependencies.skipVoteService.addEventListener((tally: SkipVoteTally) => {
+        void this.broadcastSkipVotes(tally);
+      });
+
+      console.log('📡 Subscribed to SkipVoteService events');
+    }
+
+    // Subscribe to volume changes
+    if (this.dependencies.volumeService) {
+      this.dependencies.volumeService.addEventListener((volume: VolumeState) => {
+        void this.broadcastVolume(volume);
+      });
+
+      console.log('📡 Subscribed to VolumeService events');
+    }
+
+    // Subscribe to upcoming track prefetch status
+    if (this.dependencies.prefetchService) {
+      this.dependencies.prefetchService.addEventListener((statuses: PrefetchStatuses) => {
+        void this.broadcastPrefetch(statuses);
+      });
+
+      console.log('📡 Subscribed to PrefetchService events');
+    }
+
+    // Subscribe to playlist import progress
+    if (this.dependencies.playlistImportService) {
+      this.dependencies.playlistImportService.addEventListener((progress: PlaylistImportProgress) => {
+        void this.broadcastPlaylistImport(progress);
+      });
+
+      console.log('📡 Subscribed to PlaylistImportService events');
+    }
+  }
+
+  /**
+   * Handle queue events from QueueService
+   * TRACK_ADDED is broadcast by the add route and QUEUE_ADVANCED by playback events,
+   * so only edits to the upcoming tracks are forwarded here
+   * Requirements: 9.4, 12.3
+   */
+  private async handleQueueEvent(event: QueueEvent): Promise<void> {
+    try {
+      switch (event.type) {
+        case 'TRACK_REMOVED':
+        case 'TRACK_MOVED':
+        case 'TRACK_VOTED':
+        case 'ORDERING_MODE_CHANGED':
+          console.log(`📋 EventBroadcaster received queue event: ${event.type}`);
+          await this.broadcastQueueUpdate();
+          break;
+      }
+    } catch (error) {
+      console.error('Error handling queue event:', error);
+    }
   }
 
   /**
@@ -139,7 +227,7 @@ export class EventBroadcaster extends EventEmitter {
         case 'track_finished':
           if (event.data.track) {
             console.log('   → Broadcasting track finished');
-            await this.broadcastTrackFinished(event.data.track, 'completed');
+            await this.broadcastTrackFinished(event.data.track, event.data.outcome === 'skipped' ? 'skipped' : 'completed');
             // Broadcast updated queue state
             await this.broadcastQueueUpdate();
           }
@@ -186,10 +274,12 @@ export class EventBroadcaster extends EventEmitter {
           upcomingTracks: [...currentQueueState.upcomingTracks],
           totalLength: currentQueueState.totalLength,
           isEmpty: currentQueueState.isEmpty,
+          orderingMode: currentQueueState.orderingMode,
+          scores: { ...currentQueueState.scores },
         },
       };
 
-      await this.broadcastToAllClients(event);
+      await this.broadcastToStream(event);
 
       const broadcastTime = Date.now() - startTime;
       if (broadcastTime > this.config.maxBroadcastTime) {
@@ -238,7 +328,7 @@ export class EventBroadcaster extends EventEmitter {
       };
 
       console.log(`   📡 Broadcasting playback_updated: ${playbackState.status}, track: ${playbackState.currentTrack?.track?.title || 'none'}, pos: ${playbackState.position.toFixed(1)}s`);
-      await this.broadcastToAllClients(event);
+      await this.broadcastToStream(event);
 
       // Store the last broadcast state and time
       this.lastPlaybackState = { ...playbackState };
@@ -278,7 +368,7 @@ export class EventBroadcaster extends EventEmitter {
         },
       };
 
-      await this.broadcastToAllClients(event);
+      await this.broadcastToStream(event);
       console.log('   ✅ Track added event broadcast complete');
 
       // Also broadcast updated queue state
@@ -313,13 +403,94 @@ export class EventBroadcaster extends EventEmitter {
         },
       };
 
-      await this.broadcastToAllClients(event);
+      await this.broadcastToStream(event);
 
     } catch (error) {
       console.error('Error broadcasting track finished:', error);
     }
   }
 
+  /**
+   * Broadcast the vote-to-skip tally to all connected clients
+   * Requirements: 11.3
+   */
+  async broadcastSkipVotes(tally: SkipVoteTally): Promise<void> {
+    try {
+      const event: SkipVotesUpdatedEvent = {
+        type: 'skip_votes_updated',
+        timestamp: new Date(),
+        sequenceNumber: this.getNextSequenceNumber(),
+        data: tally,
+      };
+
+      await this.broadcastToStream(event);
+
+    } catch (error) {
+      console.error('Error broadcasting skip votes:', error);
+    }
+  }
+
+  /**
+   * Broadcast the volume state to all connected clients
+   * Requirements: 16.1
+   */
+  async broadcastVolume(volume: VolumeState): Promise<void> {
+    try {
+      const event: VolumeUpdatedEvent = {
+        type: 'volume_updated',
+        timestamp: new Date(),
+        sequenceNumber: this.getNextSequenceNumber(),
+        data: volume,
+      };
+
+      await this.broadcastToStream(event);
+
+    } catch (error) {
+      console.error('Error broadcasting volume:', error);
+    }
+  }
+
+  /**
+   * Broadcast the prefetch status of upcoming tracks to all connected clients
+   * Requirements: 18.4
+   */
+  async broadcastPrefetch(statuses: PrefetchStatuses): Promise<void> {
+    try {
+      const event: PrefetchUpdatedEvent = {
+        type: 'prefetch_updated',
+        timestamp: new Date(),
+        sequenceNumber: this.getNextSequenceNumber(),
+        data: { statuses },
+      };
+
+      await this.broadcastToStream(event);
+
+    } catch (error) {
+      console.error('Error broadcasting prefetch status:', error);
+    }
+  }
+
+  /**
+   * Broadcast playlist import progress to all connected clients
+   * Everyone sees the queue filling up, not just the guest who imported
+   * Requirements: 23.3
+   */
+  async broadcastPlaylistImport(progress: PlaylistImportProgress): Promise<void> {
+    try {
+      const event: PlaylistImportProgressEvent = {
+        type: 'playlist_import_progress',
+        timestamp: new Date(),
+        sequenceNumber: this.getNextSequenceNumber(),
+        data: progress,
+      };
+
+      await this.broadcastToStream(event);
+
+    } catch (error) {
+      console.error('Error broadcasting playlist import progress:', error);
+    }
+  }
+
   /**
    * Broadcast error event to all connected clients
    * Requirements: 7.2, 7.6
@@ -329,7 +500,7 @@ export class EventBroadcaster extends EventEmitter {
       const event: WebSocketEvent = {
         type: 'error_occurred',
         timestamp: new Date(),
-        sequenceNumber: this.getNextSequenceNumber(),
+        sequenceNumber: this.getCurrentSequenceNumber(),
         data: {
           error: {
             code: 'PLAYBACK_ERROR',
@@ -349,7 +520,8 @@ export class EventBroadcaster extends EventEmitter {
 
   /**
    * Send initial state synchronization to a newly connected client
-   * Requirements: 6.4
+   * It reflects every stream event so far, so it carries the last one's number
+   * Requirements: 6.4, 30.2
    */
   async sendInitialState(clientId: string): Promise<void> {
     try {
@@ -366,13 +538,15 @@ export class EventBroadcaster extends EventEmitter {
       const event: InitialStateEvent = {
         type: 'initial_state',
         timestamp: new Date(),
-        sequenceNumber: this.getNextSequenceNumber(),
+        sequenceNumber: this.getCurrentSequenceNumber(),
         data: {
           queue: {
             currentTrack: queueState.currentTrack,
             upcomingTracks: [...queueState.upcomingTracks],
             totalLength: queueState.totalLength,
             isEmpty: queueState.isEmpty,
+            orderingMode: queueState.orderingMode,
+            scores: { ...queueState.scores },
           },
           playback: {
             status: playbackState.status,
@@ -382,6 +556,12 @@ export class EventBroadcaster extends EventEmitter {
             volume: playbackState.volume,
             error: playbackState.error,
           },
+          skipVotes: this.dependencies.skipVoteService?.getTally(
+            this.dependencies.clientManager.getConnectionCountByType('controller')
+          ),
+          volume: this.dependencies.volumeService?.getState(),
+          prefetch: this.dependencies.prefetchService?.getStatuses(),
+          streamId: this.streamId,
           serverTime: new Date().toISOString(),
         },
       };
@@ -394,6 +574,78 @@ export class EventBroadcaster extends EventEmitter {
     }
   }
 
+  /**
+   * Catch a reconnecting client up on the stream events it missed
+   * Replays them in order when they are all still buffered. Otherwise the client
+   * is told to resync and gets the full state instead
+   * Requirements: 30.1, 30.2
+   */
+  async resumeClient(clientId: string, lastSequenceNumber: number, streamId?: string): Promise<void> {
+    try {
+      const client = this.dependencies.clientManager.getClient(clientId);
+      if (!client) {
+        console.warn(`Cannot resume: client ${clientId} not found`);
+        return;
+      }
+
+      const missedEvents = this.getEventsSince(lastSequenceNumber, streamId);
+      if (!missedEvents) {
+        const event: ResyncRequiredEvent = {
+          type: 'resync_required',
+          timestamp: new Date(),
+          sequenceNumber: this.getCurrentSequenceNumber(),
+          data: {
+            lastSequenceNumber,
+            currentSequenceNumber: this.getCurrentSequenceNumber(),
+            reason: streamId !== undefined && streamId !== this.streamId ? 'server_restarted' : 'events_expired',
+          },
+        };
+
+        await this.sendToClient(client, event);
+        console.log(`🔄 Client ${clientId} is too far behind (at ${lastSequenceNumber}), sending full state`);
+        await this.sendInitialState(clientId);
+        return;
+      }
+
+      for (const event of missedEvents) {
+        await this.sendToClient(client, event);
+      }
+      console.log(`🔁 Replayed ${missedEvents.length} missed events to client ${clientId}`);
+
+    } catch (error) {
+      console.error(`Error resuming client ${clientId}:`, error);
+    }
+  }
+
+  /**
+   * Get the stream events after a sequence number, or null if some of them are
+   * no longer buffered or the number isn't from this run of the server
+   * Requirements: 30.1
+   */
+  getEventsSince(lastSequenceNumber: number, streamId?: string): WebSocketEvent[] | null {
+    if (streamId !== undefined && streamId !== this.streamId) {
+      return null;
+    }
+    if (!Number.isInteger(lastSequenceNumber) || lastSequenceNumber < 0 || lastSequenceNumber > this.sequenceNumber) {
+      return null;
+    }
+
+    const oldestBuffered = this.recentEvents[0]?.sequenceNumber ?? this.sequenceNumber + 1;
+    if (lastSequenceNumber + 1 < oldestBuffered) {
+      return null;
+    }
+
+    return this.recentEvents.filter(event => event.sequenceNumber > lastSequenceNumber);
+  }
+
+  /**
+   * Get the ID clients send back with their last sequence number when resuming
+   * Requirements: 30.1
+   */
+  getStreamId(): string {
+    return this.streamId;
+  }
+
   /**
    * Start heartbeat broadcasting to maintain connection health
    * Requirements: 5.4, 5.5, 5.6
@@ -408,7 +660,7 @@ export class EventBroadcaster extends EventEmitter {
         const event: HeartbeatEvent = {
           type: 'heartbeat',
           timestamp: new Date(),
-          sequenceNumber: this.getNextSequenceNumber(),
+          sequenceNumber: this.getCurrentSequenceNumber(),
           data: {
             serverTime: new Date().toISOString(),
             clientCount: this.dependencies.clientManager.getConnectionCount(),
@@ -422,6 +674,19 @@ export class EventBroadcaster extends EventEmitter {
     }, this.config.heartbeatInterval);
   }
 
+  /**
+   * Broadcast a stream event to all connected clients, keeping it for replay
+   * Requirements: 6.6, 30.1
+   */
+  private async broadcastToStream(event: WebSocketEvent): Promise<void> {
+    this.recentEvents.push(event);
+    if (this.recentEvents.length > this.replayBufferSize) {
+      this.recentEvents.splice(0, this.recentEvents.length - this.replayBufferSize);
+    }
+
+    await this.broadcastToAllClients(event);
+  }
+
   /**
    * Broadcast event to all connected clients
    * Requirements: 5.2, 5.3, 6.3
@@ -4,14 +4,74 @@
  * Handles incoming WebSocket messages from clients, validates message format,
  * and processes different message types with appropriate error handling.
  * 
- * Requirements: 5.1, 7.6
+ * Requirements: 5.1, 7.6, 10.4, 29.1, 29.2, 30.1
  */
 
-import { WebSocketConnection, IncomingWebSocketMessage, ClientMessageEvent } from './types';
+import { QUEUE_ORDERING_MODES, Result, User, UserError, UserValidator } from '@party-jukebox/shared';
+import {
+  WebSocketConnection,
+  IncomingWebSocketMessage,
+  ClientMessageEvent,
+  WebSocketCommandName,
+  WebSocketCommandResults,
+} from './types';
+import { isMessageAllowedForRole } from '../api/middleware';
+import { API_ERROR_CODES, HTTP_STATUS } from '../api/types';
+import {
+  CommandFailure,
+  CommandResult,
+  ISearchService,
+  addTrackCommand,
+  queueModificationError,
+  searchCommand,
+  skipVoteError,
+} from '../api/commands';
+import { IPlaybackOrchestrator } from '../../../domain/playback/interfaces';
+import { VolumeState } from '../../../domain/playback/types';
+import { VolumeError } from '../../../domain/playback/errors';
+import { IHostAuthService } from '../../../application/HostAuthService';
+import { IGuestSessionService } from '../../../application/GuestSessionService';
+import { ISkipVoteService } from '../../../application/SkipVoteService';
+import { IVolumeService } from '../../../application/VolumeService';
+import { IQueueService } from '../../../application/QueueService';
+import { IContentPolicyService } from '../../../application/ContentPolicyService';
+import { ITrackSourceRegistry } from '../../../domain/sources/types';
+import { ClientManager } from './ClientManager';
+import { EventBroadcaster } from './EventBroadcaster';
+
+export interface MessageHandlerDependencies {
+  queueService?: IQueueService | undefined;
+  playbackOrchestrator?: IPlaybackOrchestrator | undefined;
+  hostAuthService?: IHostAuthService | undefined;
+  guestSessionService?: IGuestSessionService | undefined;
+  skipVoteService?: ISkipVoteService | undefined;
+  volumeService?: IVolumeService | undefined;
+  searchService?: ISearchService | undefined;
+  trackSources?: ITrackSourceRegistry | undefined;
+  contentPolicyService?: IContentPolicyService | undefined;
+  eventBroadcaster?: EventBroadcaster | undefined;
+  clientManager?: ClientManager | undefined;
+}
+
+type PlaybackCommand = 'skip' | 'pause' | 'resume';
+
+const WEBSOCKET_COMMANDS: readonly WebSocketCommandName[] = [
+  'queue_add',
+  'queue_remove',
+  'queue_vote',
+  'search',
+  'playback_skip',
+  'vote_skip',
+];
+
+// A WebSocket can't start a guest session, so the device must have joined already
+const SESSION_REQUIRED_MESSAGE = 'Join the party first with POST /api/session';
 
 export class MessageHandler {
   private messageSequence: number = 0;
 
+  constructor(private readonly dependencies: MessageHandlerDependencies = {}) {}
+
   /**
    * Handle incoming message from WebSocket client
    * Requirements: 5.1, 7.6
@@ -67,6 +127,17 @@ export class MessageHandler {
    * Requirements: 5.1, 7.6
    */
   private async processMessage(connection: WebSocketConnection, message: IncomingWebSocketMessage): Promise<void> {
+    // Requirements: 10.4
+    if (!isMessageAllowedForRole(message.type, connection.role)) {
+      console.warn(`Rejected host-only message from ${connection.id} (${connection.role}): ${message.type}`);
+      await this.sendErrorResponse(
+        connection,
+        'INSUFFICIENT_PERMISSIONS',
+        `Message type '${message.type}' requires the host role`
+      );
+      return;
+    }
+
     switch (message.type) {
       case 'ping':
         await this.handlePingMessage(connection, message);
@@ -80,10 +151,62 @@ export class MessageHandler {
         await this.handleInitialStateRequest(connection, message);
         break;
 
+      case 'resume':
+        await this.handleResume(connection, message);
+        break;
+
       case 'heartbeat_response':
         await this.handleHeartbeatResponse(connection, message);
         break;
 
+      case 'host_unlock':
+        await this.handleHostUnlock(connection, message);
+        break;
+
+      case 'playback_skip':
+        await this.handlePlaybackCommand(connection, 'skip');
+        break;
+
+      case 'playback_pause':
+        await this.handlePlaybackCommand(connection, 'pause');
+        break;
+
+      case 'playback_resume':
+        await this.handlePlaybackCommand(connection, 'resume');
+        break;
+
+      case 'playback_seek':
+        await this.handlePlaybackSeek(connection, message);
+        break;
+
+      case 'volume_set':
+        await this.handleSetVolume(connection, message);
+        break;
+
+      case 'volume_duck':
+        await this.handleDuckVolume(connection, message);
+        break;
+
+      case 'volume_unduck':
+        await this.handleUnduckVolume(connection);
+        break;
+
+      case 'vote_skip':
+        await this.handleVoteSkip(connection, message);
+        break;
+
+      case 'queue_vote':
+        await this.handleQueueVote(connection, message);
+        break;
+
+      case 'queue_set_ordering':
+        await this.handleSetOrderingMode(connection, message);
+        break;
+
+      case 'command':
+        await this.handleCommand(connection, message);
+        break;
+
       default:
         console.warn(`Unknown message type from client ${connection.id}: ${message.type}`);
         await this.sendErrorResponse(
@@ -153,6 +276,8 @@ export class MessageHandler {
           upcomingTracks: [],
           totalLength: 0,
           isEmpty: true,
+          orderingMode: 'fifo' as const,
+          scores: {},
         },
         playback: {
           status: 'idle' as const,
@@ -168,6 +293,28 @@ export class MessageHandler {
     await this.sendResponse(connection, initialState);
   }
 
+  /**
+   * Handle a client that noticed a gap in the event stream
+   * It gets the events it missed, or a full resync if they're gone
+   * Requirements: 30.1, 30.2
+   */
+  private async handleResume(connection: WebSocketConnection, message: IncomingWebSocketMessage): Promise<void> {
+    const { eventBroadcaster } = this.dependencies;
+    if (!eventBroadcaster) {
+      await this.sendErrorResponse(connection, 'SERVICE_UNAVAILABLE', 'Event replay is not available');
+      return;
+    }
+
+    const lastSequenceNumber = message.payload?.lastSequenceNumber;
+    const streamId = message.payload?.streamId;
+    if (!Number.isInteger(lastSequenceNumber) || lastSequenceNumber < 0) {
+      await this.sendErrorResponse(connection, 'VALIDATION_FAILED', 'Resume requires the last sequence number received');
+      return;
+    }
+
+    await eventBroadcaster.resumeClient(connection.id, lastSequenceNumber, typeof streamId === 'string' ? streamId : undefined);
+  }
+
   /**
    * Handle heartbeat response from client
    * Requirements: 5.1
@@ -181,6 +328,532 @@ export class MessageHandler {
     console.log(`💓 Heartbeat received from ${connection.id}`);
   }
 
+  /**
+   * Handle host unlock with the PIN shown on the TV
+   * Upgrades this connection to the host role and returns a token for REST calls
+   * Requirements: 10.2, 10.3
+   */
+  private async handleHostUnlock(connection: WebSocketConnection, message: IncomingWebSocketMessage): Promise<void> {
+    const { hostAuthService } = this.dependencies;
+    if (!hostAuthService) {
+      await this.sendErrorResponse(connection, 'SERVICE_UNAVAILABLE', 'Host unlock is not available');
+      return;
+    }
+
+    const pin = message.payload?.pin;
+    if (typeof pin !== 'string' || !pin.trim()) {
+      await this.sendErrorResponse(connection, 'VALIDATION_FAILED', 'PIN is required');
+      return;
+    }
+
+    const unlockResult = hostAuthService.unlock(pin, connection.clientIP || connection.id);
+    if (!unlockResult.success) {
+      await this.sendErrorResponse(
+        connection,
+        unlockResult.error,
+        unlockResult.error === 'TOO_MANY_ATTEMPTS'
+          ? 'Too many incorrect PIN attempts. Please wait before trying again.'
+          : 'Incorrect host PIN'
+      );
+      return;
+    }
+
+    connection.role = 'host';
+    console.log(`🔑 Host role unlocked for ${connection.id}`);
+
+    await this.sendResponse(connection, {
+      type: 'host_unlocked',
+      timestamp: new Date(),
+      sequenceNumber: this.getNextSequenceNumber(),
+      data: {
+        token: unlockResult.value,
+        role: connection.role,
+      },
+    });
+  }
+
+  /**
+   * Handle host playback commands
+   * State changes reach clients through the regular playback_updated broadcast
+   * Requirements: 4.1, 4.2, 4.3, 10.4
+   */
+  private async handlePlaybackCommand(connection: WebSocketConnection, command: PlaybackCommand): Promise<void> {
+    const { playbackOrchestrator } = this.dependencies;
+    if (!playbackOrchestrator) {
+      await this.sendErrorResponse(connection, 'SERVICE_UNAVAILABLE', 'Playback control is not available');
+      return;
+    }
+
+    const result = await playbackOrchestrator[command]();
+    if (!result.success) {
+      await this.sendErrorResponse(connection, 'PLAYBACK_COMMAND_FAILED', `Failed to ${command} playback: ${result.error}`);
+      return;
+    }
+
+    await this.sendResponse(connection, {
+      type: 'playback_command_ack',
+      timestamp: new Date(),
+      sequenceNumber: this.getNextSequenceNumber(),
+      data: { command },
+    });
+  }
+
+  /**
+   * Handle a host seek within the current track
+   * Payload carries either an absolute position or an offset, in seconds
+   * Requirements: 15.1, 15.2
+   */
+  private async handlePlaybackSeek(connection: WebSocketConnection, message: IncomingWebSocketMessage): Promise<void> {
+    const { playbackOrchestrator } = this.dependencies;
+    if (!playbackOrchestrator) {
+      await this.sendErrorResponse(connection, 'SERVICE_UNAVAILABLE', 'Playback control is not available');
+      return;
+    }
+
+    const position = message.payload?.position;
+    const offset = message.payload?.offset;
+    const isSeconds = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+    let result;
+    if (isSeconds(position) && position >= 0 && offset === undefined) {
+      result = await playbackOrchestrator.seek(position, 'absolute');
+    } else if (isSeconds(offset) && position === undefined) {
+      result = await playbackOrchestrator.seek(offset, 'relative');
+    } else {
+      await this.sendErrorResponse(connection, 'INVALID_SEEK', 'Provide either a non-negative position or an offset in seconds');
+      return;
+    }
+
+    if (!result.success) {
+      await this.sendErrorResponse(connection, 'PLAYBACK_COMMAND_FAILED', `Failed to seek playback: ${result.error}`);
+      return;
+    }
+
+    await this.sendResponse(connection, {
+      type: 'playback_command_ack',
+      timestamp: new Date(),
+      sequenceNumber: this.getNextSequenceNumber(),
+      data: { command: 'seek', position: playbackOrchestrator.getCurrentState().position },
+    });
+  }
+
+  /**
+   * Handle a volume change; only the host may change the cap
+   * Requirements: 16.1, 16.2, 16.3
+   */
+  private async handleSetVolume(connection: WebSocketConnection, message: IncomingWebSocketMessage): Promise<void> {
+    const { volumeService } = this.dependencies;
+    if (!volumeService) {
+      await this.sendErrorResponse(connection, 'SERVICE_UNAVAILABLE', 'Volume control is not available');
+      return;
+    }
+
+    const { level, muted, maxVolume } = message.payload ?? {};
+    if (maxVolume !== undefined && connection.role !== 'host') {
+      await this.sendErrorResponse(connection, 'INSUFFICIENT_PERMISSIONS', 'Only the host can change the maximum volume');
+      return;
+    }
+
+    const result = await volumeService.setVolume({
+      ...(level !== undefined && { level }),
+      ...(muted !== undefined && { muted }),
+      ...(maxVolume !== undefined && { maxVolume }),
+    });
+    await this.sendVolumeAck(connection, result);
+  }
+
+  /**
+   * Handle a host request to duck the volume for an announcement
+   * Requirements: 16.5
+   */
+  private async handleDuckVolume(connection: WebSocketConnection, message: IncomingWebSocketMessage): Promise<void> {
+    const { volumeService } = this.dependencies;
+    if (!volumeService) {
+      await this.sendErrorResponse(connection, 'SERVICE_UNAVAILABLE', 'Volume control is not available');
+      return;
+    }
+
+    const { level, durationMs } = message.payload ?? {};
+    const result = await volumeService.duck({
+      ...(level !== undefined && { level }),
+      ...(durationMs !== undefined && { durationMs }),
+    });
+    await this.sendVolumeAck(connection, result);
+  }
+
+  /**
+   * Handle a host request to restore the volume after an announcement
+   * Requirements: 16.5
+   */
+  private async handleUnduckVolume(connection: WebSocketConnection): Promise<void> {
+    const { volumeService } = this.dependencies;
+    if (!volumeService) {
+      await this.sendErrorResponse(connection, 'SERVICE_UNAVAILABLE', 'Volume control is not available');
+      return;
+    }
+
+    await this.sendVolumeAck(connection, await volumeService.unduck());
+  }
+
+  private async sendVolumeAck(connection: WebSocketConnection, result: Result<VolumeState, VolumeError>): Promise<void> {
+    if (!result.success) {
+      const message = result.error === 'INVALID_VOLUME'
+        ? 'Volume levels must be numbers from 0 to 100'
+        : 'The player is not responding; the volume will apply when the next track starts';
+      await this.sendErrorResponse(connection, result.error, message);
+      return;
+    }
+
+    await this.sendResponse(connection, {
+      type: 'volume_ack',
+      timestamp: new Date(),
+      sequenceNumber: this.getNextSequenceNumber(),
+      data: result.value,
+    });
+  }
+
+  /**
+   * Handle a guest's vote to skip the current track
+   * Requirements: 11.1, 11.2
+   */
+  private async handleVoteSkip(connection: WebSocketConnection, message: IncomingWebSocketMessage): Promise<void> {
+    const { skipVoteService, clientManager } = this.dependencies;
+    if (!skipVoteService) {
+      await this.sendErrorResponse(connection, 'SERVICE_UNAVAILABLE', 'Vote to skip is not available');
+      return;
+    }
+
+    if (this.needsSession(connection)) {
+      await this.sendErrorResponse(connection, API_ERROR_CODES.SESSION_REQUIRED, SESSION_REQUIRED_MESSAGE);
+      return;
+    }
+
+    const userId = this.getMessageUserId(connection, message);
+    const eligibleVoters = clientManager?.getConnectionCountByType('controller') ?? 0;
+
+    const voteResult = await skipVoteService.castVote(userId, eligibleVoters);
+    if (!voteResult.success) {
+      const messages = {
+        NOTHING_PLAYING: 'Nothing is playing to skip',
+        ALREADY_VOTED: 'You have already voted to skip this track',
+        SKIP_FAILED: 'Vote passed but the track could not be skipped',
+      };
+      await this.sendErrorResponse(connection, voteResult.error, messages[voteResult.error]);
+      return;
+    }
+
+    // Everyone gets the tally through skip_votes_updated; this confirms the vote counted
+    await this.sendResponse(connection, {
+      type: 'vote_skip_ack',
+      timestamp: new Date(),
+      sequenceNumber: this.getNextSequenceNumber(),
+      data: voteResult.value,
+    });
+  }
+
+  /**
+   * Handle a guest's upvote or downvote on an upcoming track
+   * The re-sorted queue reaches everyone through the regular queue_updated broadcast
+   * Requirements: 12.1, 12.2
+   */
+  private async handleQueueVote(connection: WebSocketConnection, message: IncomingWebSocketMessage): Promise<void> {
+    const { queueService } = this.dependencies;
+    if (!queueService) {
+      await this.sendErrorResponse(connection, 'SERVICE_UNAVAILABLE', 'Queue voting is not available');
+      return;
+    }
+
+    const queueItemId = message.payload?.queueItemId;
+    const direction = message.payload?.direction;
+    if (typeof queueItemId !== 'string' || (direction !== 'up' && direction !== 'down')) {
+      await this.sendErrorResponse(connection, 'VALIDATION_FAILED', "Vote requires a queueItemId and a direction of 'up' or 'down'");
+      return;
+    }
+    if (this.needsSession(connection)) {
+      await this.sendErrorResponse(connection, API_ERROR_CODES.SESSION_REQUIRED, SESSION_REQUIRED_MESSAGE);
+      return;
+    }
+
+    const voteResult = queueService.voteTrack(queueItemId, direction, {
+      userId: this.getMessageUserId(connection, message),
+      isHost: connection.role === 'host',
+    });
+    if (!voteResult.success) {
+      await this.sendErrorResponse(connection, voteResult.error, `Failed to vote on track: ${voteResult.error}`);
+      return;
+    }
+
+    await this.sendResponse(connection, {
+      type: 'queue_vote_ack',
+      timestamp: new Date(),
+      sequenceNumber: this.getNextSequenceNumber(),
+      data: {
+        queueItemId,
+        direction,
+        score: queueService.getQueueState().scores[queueItemId] ?? 0,
+      },
+    });
+  }
+
+  /**
+   * Handle the host switching the queue ordering mode
+   * Requirements: 12.4, 13.1
+   */
+  private async handleSetOrderingMode(connection: WebSocketConnection, message: IncomingWebSocketMessage): Promise<void> {
+    const { queueService } = this.dependencies;
+    if (!queueService) {
+      await this.sendErrorResponse(connection, 'SERVICE_UNAVAILABLE', 'Queue ordering is not available');
+      return;
+    }
+
+    const mode = message.payload?.mode;
+    if (!QUEUE_ORDERING_MODES.includes(mode)) {
+      await this.sendErrorResponse(connection, 'VALIDATION_FAILED', `Ordering mode must be one of: ${QUEUE_ORDERING_MODES.join(', ')}`);
+      return;
+    }
+
+    const modeResult = queueService.setOrderingMode(mode, {
+      userId: connection.userId ?? connection.id,
+      isHost: connection.role === 'host',
+    });
+    if (!modeResult.success) {
+      await this.sendErrorResponse(connection, modeResult.error, 'Only the host can change the queue ordering');
+      return;
+    }
+
+    await this.sendResponse(connection, {
+      type: 'queue_ordering_ack',
+      timestamp: new Date(),
+      sequenceNumber: this.getNextSequenceNumber(),
+      data: { orderingMode: modeResult.value },
+    });
+  }
+
+  /**
+   * Handle a request/response command
+   * Commands go through the same validation and error mapping as their REST
+   * routes, and are answered with a command_response carrying the request ID
+   * Requirements: 29.1, 29.2
+   */
+  private async handleCommand(connection: WebSocketConnection, message: IncomingWebSocketMessage): Promise<void> {
+    const { requestId, command } = message;
+    if (typeof requestId !== 'string' || !requestId.trim()) {
+      await this.sendErrorResponse(connection, 'VALIDATION_FAILED', 'Commands require a requestId to answer to');
+      return;
+    }
+
+    if (!this.isCommandName(command)) {
+      await this.sendCommandResponse(connection, requestId, command ?? '', commandFailure(
+        HTTP_STATUS.BAD_REQUEST,
+        API_ERROR_CODES.INVALID_REQUEST,
+        `Command '${command}' is not supported`
+      ));
+      return;
+    }
+
+    // Requirements: 10.4
+    if (!isMessageAllowedForRole(command, connection.role)) {
+      console.warn(`Rejected host-only command from ${connection.id} (${connection.role}): ${command}`);
+      await this.sendCommandResponse(connection, requestId, command, commandFailure(
+        HTTP_STATUS.FORBIDDEN,
+        API_ERROR_CODES.INSUFFICIENT_PERMISSIONS,
+        `Command '${command}' requires the host role`
+      ));
+      return;
+    }
+
+    let result: CommandResult<unknown>;
+    try {
+      result = await this.runCommand(connection, command, message);
+    } catch (error) {
+      console.error(`Error running command ${command} from client ${connection.id}:`, error);
+      result = commandFailure(HTTP_STATUS.INTERNAL_SERVER_ERROR, API_ERROR_CODES.INTERNAL_ERROR, `Internal server error while running ${command}`);
+    }
+
+    await this.sendCommandResponse(connection, requestId, command, result);
+  }
+
+  private async runCommand(
+    connection: WebSocketConnection,
+    command: WebSocketCommandName,
+    message: IncomingWebSocketMessage
+  ): Promise<CommandResult<WebSocketCommandResults[WebSocketCommandName]>> {
+    const payload = message.payload ?? {};
+    const { queueService, searchService, playbackOrchestrator, skipVoteService, clientManager } = this.dependencies;
+    const unavailable = (feature: string) =>
+      commandFailure(HTTP_STATUS.SERVICE_UNAVAILABLE, API_ERROR_CODES.SERVICE_UNAVAILABLE, `${feature} is not available`);
+    const sessionRequired = () =>
+      commandFailure(HTTP_STATUS.UNAUTHORIZED, API_ERROR_CODES.SESSION_REQUIRED, SESSION_REQUIRED_MESSAGE);
+
+    switch (command) {
+      case 'queue_add': {
+        if (!queueService) {
+          return unavailable('The queue');
+        }
+
+        if (this.dependencies.guestSessionService && !this.getConnectionUser(connection)) {
+          return sessionRequired();
+        }
+
+        const { eventBroadcaster, trackSources, contentPolicyService } = this.dependencies;
+        return addTrackCommand(
+          { queueService, eventBroadcaster, trackSources, contentPolicyService },
+          payload.track,
+          payload.user,
+          () => this.resolveCommandUser(connection, message)
+        );
+      }
+
+      case 'queue_remove':
+      case 'queue_vote': {
+        if (!queueService) {
+          return unavailable('The queue');
+        }
+
+        const { queueItemId, direction } = payload;
+        if (typeof queueItemId !== 'string' || !queueItemId) {
+          return commandFailure(HTTP_STATUS.BAD_REQUEST, API_ERROR_CODES.VALIDATION_FAILED, 'A queueItemId is required');
+        }
+        if (command === 'queue_vote' && direction !== 'up' && direction !== 'down') {
+          return commandFailure(HTTP_STATUS.BAD_REQUEST, API_ERROR_CODES.VALIDATION_FAILED, "Vote direction must be 'up' or 'down'");
+        }
+        if (this.needsSession(connection)) {
+          return sessionRequired();
+        }
+
+        const requester = {
+          userId: this.getMessageUserId(connection, message),
+          isHost: connection.role === 'host',
+        };
+        const result = command === 'queue_remove'
+          ? queueService.removeTrack(queueItemId, requester)
+          : queueService.voteTrack(queueItemId, direction, requester);
+        if (!result.success) {
+          return queueModificationError(
+            result.error,
+            command === 'queue_remove' ? 'Failed to remove track from queue' : 'Failed to vote on track'
+          );
+        }
+
+        return { success: true, value: { queueItem: result.value }, statusCode: HTTP_STATUS.OK };
+      }
+
+      case 'search':
+        return searchService ? searchCommand(searchService, payload) : unavailable('Search');
+
+      case 'playback_skip': {
+        if (!playbackOrchestrator) {
+          return unavailable('Playback control');
+        }
+
+        const skipResult = await playbackOrchestrator.skip();
+        if (!skipResult.success) {
+          return commandFailure(HTTP_STATUS.INTERNAL_SERVER_ERROR, API_ERROR_CODES.INTERNAL_ERROR, 'Failed to skip track', {
+            orchestrationError: skipResult.error,
+          });
+        }
+
+        const { status, currentTrack, position, duration, volume } = playbackOrchestrator.getCurrentState();
+        return {
+          success: true,
+          value: { action: 'skip', newStatus: { status, currentTrack, position, duration, volume } },
+          statusCode: HTTP_STATUS.OK,
+        };
+      }
+
+      case 'vote_skip': {
+        if (!skipVoteService) {
+          return unavailable('Vote to skip');
+        }
+        if (this.needsSession(connection)) {
+          return sessionRequired();
+        }
+
+        const eligibleVoters = clientManager?.getConnectionCountByType('controller') ?? 0;
+        const voteResult = await skipVoteService.castVote(this.getMessageUserId(connection, message), eligibleVoters);
+        return voteResult.success
+          ? { success: true, value: voteResult.value, statusCode: HTTP_STATUS.OK }
+          : skipVoteError(voteResult.error, skipVoteService.getTally(eligibleVoters));
+      }
+    }
+  }
+
+  private isCommandName(command: unknown): command is WebSocketCommandName {
+    return WEBSOCKET_COMMANDS.includes(command as WebSocketCommandName);
+  }
+
+  /**
+   * Resolve the user adding a track over the socket
+   * With guest sessions it's the user the connection's session token belongs to.
+   * Otherwise it's built from the user ID and nickname sent, as over REST
+   * Requirements: 28.1, 29.1
+   */
+  private resolveCommandUser(connection: WebSocketConnection, message: IncomingWebSocketMessage): Result<User, UserError> {
+    const user = this.getConnectionUser(connection);
+    if (user) {
+      return { success: true, value: { ...user, role: connection.role } };
+    }
+
+    return UserValidator.create({
+      id: this.getMessageUserId(connection, message),
+      nickname: message.payload?.user?.nickname,
+      role: connection.role,
+    });
+  }
+
+  /**
+   * Whether a guest has to join the party before this connection may vote or remove tracks
+   * With guest sessions every voter must be a user, so opening more sockets can't add votes;
+   * the host acts by role and needs no session
+   * Requirements: 11.1, 12.1, 28.1
+   */
+  private needsSession(connection: WebSocketConnection): boolean {
+    return !!this.dependencies.guestSessionService && connection.role !== 'host' && !this.getConnectionUser(connection);
+  }
+
+  private getConnectionUser(connection: WebSocketConnection): User | null {
+    const { guestSessionService } = this.dependencies;
+    return guestSessionService && connection.userId ? guestSessionService.getUser(connection.userId) : null;
+  }
+
+  /**
+   * Answer a command on the socket it came from
+   * Requirements: 29.1, 29.2
+   */
+  private async sendCommandResponse(
+    connection: WebSocketConnection,
+    requestId: string,
+    command: string,
+    result: CommandResult<unknown>
+  ): Promise<void> {
+    await this.sendResponse(connection, {
+      type: 'command_response',
+      requestId,
+      command,
+      timestamp: new Date(),
+      sequenceNumber: this.getNextSequenceNumber(),
+      data: result.success
+        ? { success: true, result: result.value }
+        : { success: false, error: result.error },
+    });
+  }
+
+  /**
+   * Resolve the guest's user ID for a message
+   * With guest sessions it's the user the connection's session token belongs to,
+   * or the connection for the host. Otherwise guests identify with the same user ID
+   * they send over REST, falling back to the connection
+   * Requirements: 28.1
+   */
+  private getMessageUserId(connection: WebSocketConnection, message: IncomingWebSocketMessage): string {
+    if (this.dependencies.guestSessionService) {
+      return connection.userId ?? connection.id;
+    }
+
+    const userId = message.payload?.userId;
+    return typeof userId === 'string' && userId.trim() ? userId.trim() : connection.id;
+  }
+
   /**
    * Send error response to client
    * Requirements: 7.6
@@ -241,4 +914,17 @@ export class MessageHandler {
   getCurrentSequenceNumber(): number {
     return this.messageSequence;
   }
-}
\ No newline at end of file
+}
+
+function commandFailure(statusCode: number, code: string, message: string, details?: unknown): CommandFailure {
+  return {
+    success: false,
+    error: {
+      code,
+      message,
+      ...(details !== undefined && { details }),
+      timestamp: new Date().toISOString(),
+    },
+    statusCode,
+  };
+}
@@ -8,10 +8,21 @@
  */
 
 import { FastifyInstance, FastifyRequest } from 'fastify';
-import { WebSocketConnection, WebSocketEvent, ClientType } from './types';
+import { UserRole } from '@party-jukebox/shared';
+import { WebSocketConnection, WebSocketEvent, ClientType, HostPinEvent } from './types';
 import { ClientManager } from './ClientManager';
 import { MessageHandler } from './MessageHandler';
 import { EventBroadcaster } from './EventBroadcaster';
+import { IPlaybackOrchestrator } from '../../../domain/playback/interfaces';
+import { IHostAuthService } from '../../../application/HostAuthService';
+import { IGuestSessionService } from '../../../application/GuestSessionService';
+import { ISkipVoteService } from '../../../application/SkipVoteService';
+import { IVolumeService } from '../../../application/VolumeService';
+import { IQueueService } from '../../../application/QueueService';
+import { IContentPolicyService } from '../../../application/ContentPolicyService';
+import { ITrackSourceRegistry } from '../../../domain/sources/types';
+import { getSessionToken } from '../api/middleware';
+import { ISearchService } from '../api/commands';
 
 export interface WebSocketServerConfig {
   heartbeatInterval: number; // milliseconds
@@ -22,6 +33,15 @@ export interface WebSocketServerConfig {
 export interface WebSocketServerDependencies {
   eventBroadcaster?: EventBroadcaster;
   clientManager?: ClientManager;
+  queueService?: IQueueService;
+  playbackOrchestrator?: IPlaybackOrchestrator;
+  hostAuthService?: IHostAuthService;
+  guestSessionService?: IGuestSessionService;
+  skipVoteService?: ISkipVoteService;
+  volumeService?: IVolumeService;
+  searchService?: ISearchService | undefined;
+  trackSources?: ITrackSourceRegistry | undefined;
+  contentPolicyService?: IContentPolicyService | undefined;
 }
 
 export class WebSocketServer {
@@ -32,6 +52,8 @@ export class WebSocketServer {
   private dependencies: WebSocketServerDependencies | null = null;
   private heartbeatTimer: NodeJS.Timeout | null = null;
   private eventBroadcaster: EventBroadcaster | null = null;
+  private hostAuthService: IHostAuthService | null = null;
+  private guestSessionService: IGuestSessionService | null = null;
 
   constructor(config: WebSocketServerConfig, clientManager?: ClientManager) {
     this.config = config;
@@ -51,12 +73,29 @@ export class WebSocketServer {
       this.fastify = fastify;
       this.dependencies = dependencies || null;
       this.eventBroadcaster = dependencies?.eventBroadcaster || null;
+      this.hostAuthService = dependencies?.hostAuthService || null;
+      this.guestSessionService = dependencies?.guestSessionService || null;
 
       // Use provided ClientManager if available
       if (dependencies?.clientManager) {
         this.clientManager = dependencies.clientManager;
       }
 
+      // Give the message handler what it needs for role-gated commands
+      this.messageHandler = new MessageHandler({
+        queueService: dependencies?.queueService,
+        playbackOrchestrator: dependencies?.playbackOrchestrator,
+        hostAuthService: dependencies?.hostAuthService,
+        guestSessionService: dependencies?.guestSessionService,
+        skipVoteService: dependencies?.skipVoteService,
+        volumeService: dependencies?.volumeService,
+        searchService: dependencies?.searchService,
+        trackSources: dependencies?.trackSources,
+        contentPolicyService: dependencies?.contentPolicyService,
+        eventBroadcaster: dependencies?.eventBroadcaster,
+        clientManager: this.clientManager,
+      });
+
       // Register WebSocket route at /ws
       await this.fastify.register(async (fastifyInstance) => {
         fastifyInstance.get('/ws', { websocket: true }, this.handleWebSocketConnection.bind(this));
@@ -98,12 +137,16 @@ export class WebSocketServer {
       const clientIP = request.ip;
       const userAgent = request.headers['user-agent'] || 'Unknown';
       const clientType = this.detectClientType(request);
+      const role = this.resolveConnectionRole(request, clientType);
+      const userId = this.resolveConnectionUserId(request);
 
       // Create WebSocket connection object
       const wsConnection: WebSocketConnection = {
         id: this.generateClientId(),
         socket: connection, // Use connection directly, not connection.socket
         clientType,
+        role,
+        ...(userId && { userId }),
         connectedAt: new Date(),
         lastActivity: new Date(),
         clientIP,
@@ -114,7 +157,7 @@ export class WebSocketServer {
       // Register client with manager
       this.clientManager.addClient(wsConnection);
 
-      console.log(`📱 WebSocket client connected: ${wsConnection.id} (${clientType}) from ${clientIP}`);
+      console.log(`📱 WebSocket client connected: ${wsConnection.id} (${clientType}, ${role}) from ${clientIP}`);
 
       // Set up connection event handlers
       this.setupConnectionHandlers(wsConnection);
@@ -122,8 +165,18 @@ export class WebSocketServer {
       // Send initial connection acknowledgment
       await this.sendConnectionAcknowledgment(wsConnection);
 
-      // Send initial state if EventBroadcaster is available
-      if (this.eventBroadcaster) {
+      // The TV on the host machine shows the PIN guests can't see
+      if (this.hostAuthService && this.isHostDisplay(wsConnection)) {
+        await this.sendHostPin(wsConnection, this.hostAuthService);
+      }
+
+      // Send initial state if EventBroadcaster is available; a client that was
+      // connected before only needs the events it missed
+      const resumeFrom = this.resolveResumePoint(request);
+      if (this.eventBroadcaster && resumeFrom) {
+        console.log(`🔁 WebSocket: Resuming client ${wsConnection.id} from event ${resumeFrom.lastSequenceNumber}`);
+        await this.eventBroadcaster.resumeClient(wsConnection.id, resumeFrom.lastSequenceNumber, resumeFrom.streamId);
+      } else if (this.eventBroadcaster) {
         console.log(`🔥 WebSocket: Sending initial state to client ${wsConnection.id}`);
         await this.eventBroadcaster.sendInitialState(wsConnection.id);
       } else {
@@ -206,6 +259,82 @@ export class WebSocketServer {
     return 'controller';
   }
 
+  /**
+   * Resolve the role for a new connection
+   * The TV on the host machine is trusted; anyone else needs a host token
+   * Requirements: 10.4
+   */
+  private resolveConnectionRole(request: FastifyRequest, clientType: ClientType): UserRole {
+    if (clientType === 'display' && this.isLoopbackIP(request.ip)) {
+      return 'host';
+    }
+
+    const query = request.query as { hostToken?: unknown } | undefined;
+    const token = typeof query?.hostToken === 'string' ? query.hostToken : undefined;
+    return this.hostAuthService ? this.hostAuthService.resolveRole(token) : 'guest';
+  }
+
+  /**
+   * Resolve the guest a new connection belongs to from their session token
+   * Browsers send the session cookie; other clients can pass ?sessionToken=
+   * Requirements: 28.1
+   */
+  private resolveConnectionUserId(request: FastifyRequest): string | undefined {
+    if (!this.guestSessionService) {
+      return undefined;
+    }
+
+    const query = request.query as { sessionToken?: unknown } | undefined;
+    const token = typeof query?.sessionToken === 'string' ? query.sessionToken : getSessionToken(request);
+    return this.guestSessionService.resolve(token)?.id;
+  }
+
+  /**
+   * Read where a reconnecting client left off, from ?lastSequenceNumber= and ?streamId=
+   * Requirements: 30.1
+   */
+  private resolveResumePoint(request: FastifyRequest): { lastSequenceNumber: number; streamId?: string } | null {
+    const query = request.query as { lastSequenceNumber?: unknown; streamId?: unknown } | undefined;
+    if (typeof query?.lastSequenceNumber !== 'string' || !/^\d+$/.test(query.lastSequenceNumber)) {
+      return null;
+    }
+
+    return {
+      lastSequenceNumber: Number(query.lastSequenceNumber),
+      ...(typeof query.streamId === 'string' && { streamId: query.streamId }),
+    };
+  }
+
+  /**
+   * Check whether a connection is the TV display running on the host machine
+   * Requirements: 10.1
+   */
+  private isHostDisplay(connection: WebSocketConnection): boolean {
+    return connection.clientType === 'display' && this.isLoopbackIP(connection.clientIP);
+  }
+
+  private isLoopbackIP(ip: string | undefined): boolean {
+    return ip === '127.0.0.1' || ip === '::1' || ip === '::ffff:127.0.0.1';
+  }
+
+  /**
+   * Send the host PIN to a trusted display client
+   * Requirements: 10.1
+   */
+  private async sendHostPin(connection: WebSocketConnection, hostAuthService: IHostAuthService): Promise<void> {
+    const event: HostPinEvent = {
+      type: 'host_pin',
+      timestamp: new Date(),
+      sequenceNumber: 0,
+      data: {
+        pin: hostAuthService.getPin(),
+        token: hostAuthService.issueToken(),
+      },
+    };
+
+    await this.sendToClient(connection, event);
+  }
+
   /**
    * Generate unique client ID
    * Requirements: 5.1
@@ -228,9 +357,10 @@ export class WebSocketServer {
       data: {
         clientId: connection.id,
         clientType: connection.clientType,
+        ...(connection.userId && { userId: connection.userId }),
         serverInfo: {
           version: '1.0.0',
-          capabilities: ['queue_updates', 'playback_updates', 'heartbeat'],
+          capabilities: ['queue_updates', 'playback_updates', 'heartbeat', 'event_replay'],
           heartbeatInterval: this.config.heartbeatInterval,
         },
       },
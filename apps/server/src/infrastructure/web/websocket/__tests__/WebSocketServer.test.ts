@@ -10,7 +10,13 @@
 import { WebSocketServer, WebSocketServerConfig } from '../WebSocketServer';
 import { ClientManager } from '../ClientManager';
 import { MessageHandler } from '../MessageHandler';
+import { EventBroadcaster } from '../EventBroadcaster';
 import { WebSocketConnection, ClientType } from '../types';
+import { HostAuthService } from '../../../../application/HostAuthService';
+import { GuestSessionService } from '../../../../application/GuestSessionService';
+import { QueueManager } from '../../../../application/QueueManager';
+import { QueueService } from '../../../../application/QueueService';
+import { RateLimiter } from '../../../../application/RateLimiter';
 
 // Mock Fastify instance
 const mockFastify = {
@@ -209,6 +215,7 @@ describe('ClientManager', () => {
       id: 'test-client-1',
       socket: mockWebSocket,
       clientType: 'controller',
+      role: 'guest',
       connectedAt: new Date(),
       lastActivity: new Date(),
       isAlive: true,
@@ -378,6 +385,7 @@ describe('MessageHandler', () => {
       id: 'test-client',
       socket: mockWebSocket,
       clientType: 'controller',
+      role: 'guest',
       connectedAt: new Date(),
       lastActivity: new Date(),
       isAlive: true,
@@ -464,6 +472,218 @@ describe('MessageHandler', () => {
     });
   });
 
+  describe('host role', () => {
+    const createPlaybackOrchestrator = () => ({
+      skip: jest.fn().mockResolvedValue({ success: true, value: undefined }),
+      pause: jest.fn().mockResolvedValue({ success: true, value: undefined }),
+      resume: jest.fn().mockResolvedValue({ success: true, value: undefined }),
+      seek: jest.fn().mockResolvedValue({ success: true, value: undefined }),
+    }) as any;
+
+    it('should reject host-only messages from guests', async () => {
+      const playbackOrchestrator = createPlaybackOrchestrator();
+      messageHandler = new MessageHandler({ playbackOrchestrator });
+
+      await messageHandler.handleMessage(mockConnection, Buffer.from(JSON.stringify({ type: 'playback_skip' })));
+
+      expect(playbackOrchestrator.skip).not.toHaveBeenCalled();
+      expect(mockWebSocket.send).toHaveBeenCalledWith(
+        expect.stringContaining('INSUFFICIENT_PERMISSIONS')
+      );
+    });
+
+    it('should let guests set the level and mute but not the cap', async () => {
+      const volumeService = { setVolume: jest.fn().mockResolvedValue({ success: true, value: {} }) } as any;
+      messageHandler = new MessageHandler({ volumeService });
+
+      await messageHandler.handleMessage(
+        mockConnection,
+        Buffer.from(JSON.stringify({ type: 'volume_set', payload: { maxVolume: 100 } }))
+      );
+
+      expect(volumeService.setVolume).not.toHaveBeenCalled();
+      expect(mockWebSocket.send).toHaveBeenCalledWith(
+        expect.stringContaining('INSUFFICIENT_PERMISSIONS')
+      );
+
+      await messageHandler.handleMessage(
+        mockConnection,
+        Buffer.from(JSON.stringify({ type: 'volume_set', payload: { level: 40, muted: true } }))
+      );
+
+      expect(volumeService.setVolume).toHaveBeenCalledWith({ level: 40, muted: true });
+    });
+
+    it('should let the host change the cap', async () => {
+      const volumeService = { setVolume: jest.fn().mockResolvedValue({ success: true, value: {} }) } as any;
+      messageHandler = new MessageHandler({ volumeService });
+      mockConnection.role = 'host';
+
+      await messageHandler.handleMessage(
+        mockConnection,
+        Buffer.from(JSON.stringify({ type: 'volume_set', payload: { maxVolume: 60 } }))
+      );
+
+      expect(volumeService.setVolume).toHaveBeenCalledWith({ maxVolume: 60 });
+    });
+
+    it('should reject an incorrect PIN', async () => {
+      messageHandler = new MessageHandler({ hostAuthService: new HostAuthService({ pin: '1234' }) });
+
+      await messageHandler.handleMessage(
+        mockConnection,
+        Buffer.from(JSON.stringify({ type: 'host_unlock', payload: { pin: '0000' } }))
+      );
+
+      expect(mockConnection.role).toBe('guest');
+      expect(mockWebSocket.send).toHaveBeenCalledWith(expect.stringContaining('INVALID_PIN'));
+    });
+
+    it('should allow playback commands after unlocking with the PIN', async () => {
+      const playbackOrchestrator = createPlaybackOrchestrator();
+      messageHandler = new MessageHandler({
+        playbackOrchestrator,
+        hostAuthService: new HostAuthService({ pin: '1234' }),
+      });
+
+      await messageHandler.handleMessage(
+        mockConnection,
+        Buffer.from(JSON.stringify({ type: 'host_unlock', payload: { pin: '1234' } }))
+      );
+      await messageHandler.handleMessage(mockConnection, Buffer.from(JSON.stringify({ type: 'playback_pause' })));
+
+      expect(mockConnection.role).toBe('host');
+      expect(mockWebSocket.send).toHaveBeenCalledWith(expect.stringContaining('"type":"host_unlocked"'));
+      expect(playbackOrchestrator.pause).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('commands', () => {
+    const track = (videoId: string) => ({ title: `Song ${videoId}`, artist: 'Artist', videoId, duration: 180 });
+
+    const sendCommand = async (command: string, payload: unknown, requestId = `req-${command}`) => {
+      await messageHandler.handleMessage(
+        mockConnection,
+        Buffer.from(JSON.stringify({ type: 'command', requestId, command, payload }))
+      );
+      const sent = mockWebSocket.send.mock.calls.map(([text]: [string]) => JSON.parse(text));
+      return sent.find((response: any) => response.type === 'command_response' && response.requestId === requestId);
+    };
+
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should add a track and answer rate limiting the same way as the REST route', async () => {
+      const queueService = new QueueService(new QueueManager(), new RateLimiter({ roles: { guest: { maxRequests: 1 } } }));
+      messageHandler = new MessageHandler({ queueService });
+
+      const added = await sendCommand('queue_add', { track: track('cmd12345678'), user: { nickname: 'Guest' } }, 'req-1');
+      expect(added).toMatchObject({
+        command: 'queue_add',
+        data: { success: true, result: { queueItem: { track: { title: 'Song cmd12345678' } }, queuePosition: 1 } },
+      });
+      expect(queueService.getQueueState().totalLength).toBe(1);
+
+      const limited = await sendCommand('queue_add', { track: track('cmd23456789'), user: { nickname: 'Guest' } }, 'req-2');
+      expect(limited.data).toMatchObject({
+        success: false,
+        error: { code: 'RATE_LIMIT_EXCEEDED', retryAfter: expect.any(Number) },
+      });
+    });
+
+    it('should reject invalid tracks and queue changes with the REST error codes', async () => {
+      messageHandler = new MessageHandler({ queueService: new QueueService(new QueueManager(), new RateLimiter()) });
+
+      const invalid = await sendCommand('queue_add', { track: { title: '' }, user: { nickname: 'Guest' } });
+      expect(invalid.data.error.code).toBe('INVALID_TRACK_DATA');
+
+      const removed = await sendCommand('queue_remove', { queueItemId: 'missing' });
+      expect(removed.data.error.code).toBe('TRACK_NOT_FOUND');
+
+      const vote = await sendCommand('queue_vote', { queueItemId: 'missing', direction: 'sideways' });
+      expect(vote.data.error.code).toBe('VALIDATION_FAILED');
+    });
+
+    it('should add tracks as the guest the connection belongs to', async () => {
+      const guestSessionService = new GuestSessionService({ secret: 'test-secret' });
+      const joinResult = guestSessionService.join('Alice');
+      if (!joinResult.success) throw new Error('join failed');
+      const queueService = new QueueService(new QueueManager(), new RateLimiter());
+      messageHandler = new MessageHandler({ queueService, guestSessionService });
+
+      const anonymous = await sendCommand('queue_add', { track: track('cmd12345678') }, 'req-anonymous');
+      expect(anonymous.data.error.code).toBe('SESSION_REQUIRED');
+
+      mockConnection.userId = joinResult.value.user.id;
+      const added = await sendCommand('queue_add', { track: track('cmd12345678'), user: { nickname: 'Mallory' } }, 'req-alice');
+      expect(added.data.result.queueItem.addedBy).toMatchObject({ id: joinResult.value.user.id, nickname: 'Alice' });
+    });
+
+    it('should not let sockets without a session vote or remove tracks', async () => {
+      const guestSessionService = new GuestSessionService({ secret: 'test-secret' });
+      const queueService = new QueueService(new QueueManager(), new RateLimiter());
+      const skipVoteService = { castVote: jest.fn(), getTally: jest.fn() } as any;
+      messageHandler = new MessageHandler({ queueService, guestSessionService, skipVoteService });
+
+      for (const [command, payload] of [
+        ['vote_skip', {}],
+        ['queue_vote', { queueItemId: 'item-1', direction: 'up' }],
+        ['queue_remove', { queueItemId: 'item-1' }],
+      ] as const) {
+        const response = await sendCommand(command, payload, `req-${command}-anonymous`);
+        expect(response.data.error.code).toBe('SESSION_REQUIRED');
+      }
+
+      mockWebSocket.send.mockClear();
+      await messageHandler.handleMessage(mockConnection, Buffer.from(JSON.stringify({ type: 'vote_skip' })));
+      expect(mockWebSocket.send).toHaveBeenCalledWith(expect.stringContaining('SESSION_REQUIRED'));
+      expect(skipVoteService.castVote).not.toHaveBeenCalled();
+    });
+
+    it('should search and answer on the same socket', async () => {
+      const searchService = {
+        search: jest.fn().mockResolvedValue({
+          success: true,
+          value: { results: [], pagination: { currentPage: 1, totalResults: 0, hasNextPage: false, hasPrevPage: false, resultsPerPage: 50 } },
+        }),
+      };
+      messageHandler = new MessageHandler({ searchService });
+
+      const response = await sendCommand('search', { q: '  daft punk  ', limit: 500 });
+
+      expect(searchService.search).toHaveBeenCalledWith({ query: 'daft punk', page: 1, limit: 50 });
+      expect(response.data).toMatchObject({ success: true, result: { results: [] } });
+
+      const empty = await sendCommand('search', { q: ' ' }, 'req-empty');
+      expect(empty.data.error.code).toBe('VALIDATION_FAILED');
+    });
+
+    it('should keep host-only commands from guests', async () => {
+      const playbackOrchestrator = { skip: jest.fn() } as any;
+      messageHandler = new MessageHandler({ playbackOrchestrator });
+
+      const response = await sendCommand('playback_skip', {});
+
+      expect(playbackOrchestrator.skip).not.toHaveBeenCalled();
+      expect(response.data.error.code).toBe('INSUFFICIENT_PERMISSIONS');
+    });
+
+    it('should reject commands it cannot answer', async () => {
+      const unknown = await sendCommand('queue_shuffle', {});
+      expect(unknown.data.error.code).toBe('INVALID_REQUEST');
+
+      mockWebSocket.send.mockClear();
+      await messageHandler.handleMessage(mockConnection, Buffer.from(JSON.stringify({ type: 'command', command: 'search' })));
+      expect(mockWebSocket.send).toHaveBeenCalledWith(expect.stringContaining('VALIDATION_FAILED'));
+    });
+  });
+
   describe('sequence numbers', () => {
     it('should increment sequence numbers', () => {
       const initialSeq = messageHandler.getCurrentSequenceNumber();
@@ -485,4 +705,104 @@ describe('MessageHandler', () => {
       expect(messageHandler.getCurrentSequenceNumber()).toBe(0);
     });
   });
-});
\ No newline at end of file
+});
+
+describe('EventBroadcaster replay', () => {
+  const volume = (level: number) => ({ level, muted: false, maxVolume: 100, ducked: false }) as any;
+  let clientManager: ClientManager;
+  let connection: WebSocketConnection;
+
+  const createBroadcaster = (replayBufferSize?: number) => new EventBroadcaster(
+    { heartbeatInterval: 1000, maxBroadcastTime: 100, enableEventMetadata: true, ...(replayBufferSize !== undefined && { replayBufferSize }) },
+    {
+      queueService: { getQueueState: () => ({ currentTrack: null, upcomingTracks: [], totalLength: 0, isEmpty: true, orderingMode: 'fifo', scores: {} }) } as any,
+      playbackOrchestrator: { getCurrentState: () => ({ status: 'idle', currentTrack: null, position: 0, duration: 0, volume: 1 }) } as any,
+      clientManager,
+    }
+  );
+
+  const sentEvents = (): any[] => mockWebSocket.send.mock.calls.map(([text]: [string]) => JSON.parse(text));
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    clientManager = new ClientManager();
+    connection = {
+      id: 'tv',
+      socket: mockWebSocket,
+      clientType: 'display',
+      role: 'host',
+      connectedAt: new Date(),
+      lastActivity: new Date(),
+      isAlive: true,
+    };
+    clientManager.addClient(connection);
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should number state changes without gaps and replay only the missed ones', async () => {
+    const broadcaster = createBroadcaster();
+    await broadcaster.broadcastVolume(volume(10));
+    await broadcaster.sendInitialState('tv');
+    await broadcaster.broadcastVolume(volume(20));
+    await broadcaster.broadcastVolume(volume(30));
+
+    expect(sentEvents().map(event => [event.type, event.sequenceNumber])).toEqual([
+      ['volume_updated', 1],
+      ['initial_state', 1],
+      ['volume_updated', 2],
+      ['volume_updated', 3],
+    ]);
+
+    mockWebSocket.send.mockClear();
+    await broadcaster.resumeClient('tv', 1, broadcaster.getStreamId());
+
+    expect(sentEvents().map(event => [event.sequenceNumber, event.data.level])).toEqual([[2, 20], [3, 30]]);
+    expect(broadcaster.getEventsSince(3)).toEqual([]);
+  });
+
+  it('should ask for a full resync once the missed events have left the buffer', async () => {
+    const broadcaster = createBroadcaster(2);
+    for (const level of [10, 20, 30, 40]) {
+      await broadcaster.broadcastVolume(volume(level));
+    }
+
+    expect(broadcaster.getEventsSince(2)?.map(event => event.sequenceNumber)).toEqual([3, 4]);
+    expect(broadcaster.getEventsSince(1)).toBeNull();
+
+    mockWebSocket.send.mockClear();
+    await broadcaster.resumeClient('tv', 1);
+
+    const [resync, initialState] = sentEvents();
+    expect(resync).toMatchObject({ type: 'resync_required', data: { lastSequenceNumber: 1, currentSequenceNumber: 4, reason: 'events_expired' } });
+    expect(initialState).toMatchObject({ type: 'initial_state', sequenceNumber: 4, data: { streamId: broadcaster.getStreamId() } });
+  });
+
+  it('should not replay sequence numbers from another run of the server', async () => {
+    const broadcaster = createBroadcaster();
+    await broadcaster.broadcastVolume(volume(10));
+
+    mockWebSocket.send.mockClear();
+    await broadcaster.resumeClient('tv', 0, 'previous-run');
+    expect(sentEvents()[0]).toMatchObject({ type: 'resync_required', data: { reason: 'server_restarted' } });
+    expect(broadcaster.getEventsSince(5)).toBeNull();
+  });
+
+  it('should resume a client that asks over the socket', async () => {
+    const broadcaster = createBroadcaster();
+    await broadcaster.broadcastVolume(volume(10));
+    await broadcaster.broadcastVolume(volume(20));
+    const messageHandler = new MessageHandler({ eventBroadcaster: broadcaster });
+
+    mockWebSocket.send.mockClear();
+    await messageHandler.handleMessage(connection, Buffer.from(JSON.stringify({ type: 'resume', payload: { lastSequenceNumber: 1 } })));
+    expect(sentEvents().map(event => event.sequenceNumber)).toEqual([2]);
+
+    mockWebSocket.send.mockClear();
+    await messageHandler.handleMessage(connection, Buffer.from(JSON.stringify({ type: 'resume', payload: {} })));
+    expect(sentEvents()[0].data.error.code).toBe('VALIDATION_FAILED');
+  });
+});
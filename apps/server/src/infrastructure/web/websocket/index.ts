@@ -35,7 +35,13 @@ export type {
   ErrorEvent,
   InitialStateEvent,
   HeartbeatEvent,
+  HostPinEvent,
+  SkipVotesUpdatedEvent,
+  ResyncRequiredEvent,
   ClientMessageEvent,
+  CommandResponseEvent,
+  WebSocketCommandName,
+  WebSocketCommandResults,
   IncomingWebSocketMessage,
   ClientFilter,
   WebSocketStats,
@@ -7,6 +7,12 @@
  * Requirements: 5.1, 5.2, 5.3, 6.1, 6.2, 6.4, 6.6, 6.7
  */
 
+import { QueueItem, QueueOrderingMode, UserRole } from '@party-jukebox/shared';
+import { PrefetchStatuses, SkipVoteTally, VolumeState } from '../../../domain/playback/types';
+import { PlaylistImportProgress } from '../../../domain/playlists/types';
+import { SkipVoteResult } from '../../../application/SkipVoteService';
+import { AddTrackCommandResult, CommandError, SearchResultsPage } from '../api/commands';
+
 /**
  * Client type enumeration
  */
@@ -14,12 +20,14 @@ export type ClientType = 'controller' | 'display';
 
 /**
  * WebSocket connection object representing a connected client
- * Requirements: 5.1, 5.4, 5.5
+ * Requirements: 5.1, 5.4, 5.5, 10.4
  */
 export interface WebSocketConnection {
   id: string;
   socket: any; // Use any to be compatible with Fastify WebSocket
   clientType: ClientType;
+  role: UserRole;
+  userId?: string; // From the guest session token, when guest sessions are on
   connectedAt: Date;
   lastActivity: Date;
   clientIP?: string;
@@ -40,7 +48,14 @@ export type WebSocketEventType =
   | 'error_occurred'
   | 'initial_state'
   | 'heartbeat'
-  | 'client_message';
+  | 'client_message'
+  | 'host_pin'
+  | 'skip_votes_updated'
+  | 'volume_updated'
+  | 'prefetch_updated'
+  | 'playlist_import_progress'
+  | 'command_response'
+  | 'resync_required';
 
 /**
  * Base WebSocket event structure
@@ -81,6 +96,8 @@ export interface QueueUpdateEvent extends WebSocketEvent {
     upcomingTracks: any[]; // QueueItem[] from shared package
     totalLength: number;
     isEmpty: boolean;
+    orderingMode: QueueOrderingMode;
+    scores: Record<string, number>;
   };
 }
 
@@ -156,6 +173,8 @@ export interface InitialStateEvent extends WebSocketEvent {
       upcomingTracks: any[];
       totalLength: number;
       isEmpty: boolean;
+      orderingMode: QueueOrderingMode;
+      scores: Record<string, number>;
     };
     playback: {
       status: 'idle' | 'resolving' | 'playing' | 'paused' | 'error';
@@ -165,6 +184,10 @@ export interface InitialStateEvent extends WebSocketEvent {
       volume: number;
       error?: string;
     };
+    skipVotes?: SkipVoteTally;
+    volume?: VolumeState;
+    prefetch?: PrefetchStatuses;
+    streamId?: string; // Sent back with the last sequence number when resuming
     serverTime: string;
   };
 }
@@ -181,6 +204,109 @@ export interface HeartbeatEvent extends WebSocketEvent {
   };
 }
 
+/**
+ * Host PIN event, sent only to display clients on the host machine
+ * Carries a host token too so the TV's own playback controls work
+ * Requirements: 10.1
+ */
+export interface HostPinEvent extends WebSocketEvent {
+  type: 'host_pin';
+  data: {
+    pin: string;
+    token: string;
+  };
+}
+
+/**
+ * Vote-to-skip tally event
+ * Requirements: 11.3
+ */
+export interface SkipVotesUpdatedEvent extends WebSocketEvent {
+  type: 'skip_votes_updated';
+  data: SkipVoteTally;
+}
+
+/**
+ * Volume state event - level, mute, cap and duck
+ * Requirements: 16.1
+ */
+export interface VolumeUpdatedEvent extends WebSocketEvent {
+  type: 'volume_updated';
+  data: VolumeState;
+}
+
+/**
+ * Prefetch status event - which upcoming tracks are ready to play
+ * Requirements: 18.4
+ */
+export interface PrefetchUpdatedEvent extends WebSocketEvent {
+  type: 'prefetch_updated';
+  data: {
+    statuses: PrefetchStatuses;
+  };
+}
+
+/**
+ * Playlist import progress event - listing, adding, then completed or failed
+ * Requirements: 23.3
+ */
+export interface PlaylistImportProgressEvent extends WebSocketEvent {
+  type: 'playlist_import_progress';
+  data: PlaylistImportProgress;
+}
+
+/**
+ * Sent to a resuming client whose missed events can't be replayed
+ * A fresh initial_state follows
+ * Requirements: 30.2
+ */
+export interface ResyncRequiredEvent extends WebSocketEvent {
+  type: 'resync_required';
+  data: {
+    lastSequenceNumber: number;
+    currentSequenceNumber: number;
+    reason: 'events_expired' | 'server_restarted';
+  };
+}
+
+/**
+ * Commands a client can send over the socket instead of a REST request
+ * Requirements: 29.1
+ */
+export type WebSocketCommandName =
+  | 'queue_add'
+  | 'queue_remove'
+  | 'queue_vote'
+  | 'search'
+  | 'playback_skip'
+  | 'vote_skip';
+
+/**
+ * What each command answers with when it succeeds
+ * Requirements: 29.2
+ */
+export interface WebSocketCommandResults {
+  queue_add: AddTrackCommandResult;
+  queue_remove: { queueItem: QueueItem };
+  queue_vote: { queueItem: QueueItem };
+  search: SearchResultsPage;
+  playback_skip: { action: 'skip'; newStatus: Omit<PlaybackUpdateEvent['data'], 'error'> };
+  vote_skip: SkipVoteResult;
+}
+
+/**
+ * Reply to a command, carrying the request ID the client sent with it
+ * Requirements: 29.1, 29.2
+ */
+export interface CommandResponseEvent<C extends WebSocketCommandName = WebSocketCommandName> extends WebSocketEvent {
+  type: 'command_response';
+  requestId: string;
+  command: C;
+  data:
+    | { success: true; result: WebSocketCommandResults[C] }
+    | { success: false; error: CommandError };
+}
+
 /**
  * Client message event for incoming messages from clients
  * Requirements: 5.1, 7.6
@@ -203,6 +329,8 @@ export interface IncomingWebSocketMessage {
   type: string;
   payload?: any;
   timestamp?: string;
+  requestId?: string; // Commands only - echoed back on the response
+  command?: string; // Commands only - a WebSocketCommandName
 }
 
 /**
@@ -0,0 +1,134 @@
+/**
+ * CachedYouTubeAdapter - Caches YouTube search pages and video details
+ * Guests tend to search for the same songs and the same videos keep coming back
+ * (autoplay, related searches), so repeating them costs no quota
+ * Requirements: 21.1, 21.3
+ */
+
+import {
+  IYouTubeAdapter,
+  IYouTubeUsageReporter,
+  YouTubeCacheStats,
+  YouTubeFailoverStatus,
+  YouTubePlaylistVideos,
+  YouTubeQuotaStatus,
+  YouTubeSearchResponse,
+  YouTubeVideoDetails
+} from './types';
+import { LruTtlCache } from './LruTtlCache';
+
+/**
+ * Cache sizes and lifetimes
+ */
+export interface YouTubeCacheConfig {
+  searchTtlMs?: number;     // Default: 30 minutes
+  maxSearches?: number;     // Default: 200 pages
+  videoTtlMs?: number;      // Default: 6 hours
+  maxVideos?: number;       // Default: 2,000 videos
+  now?: () => number;
+}
+
+export class CachedYouTubeAdapter implements IYouTubeAdapter, IYouTubeUsageReporter {
+  private readonly searches: LruTtlCache<YouTubeSearchResponse>;
+  private readonly videos: LruTtlCache<YouTubeVideoDetails>;
+
+  constructor(
+    private readonly adapter: IYouTubeAdapter,
+    config: YouTubeCacheConfig = {}
+  ) {
+    this.searches = new LruTtlCache(config.maxSearches ?? 200, config.searchTtlMs ?? 30 * 60 * 1000, config.now);
+    this.videos = new LruTtlCache(config.maxVideos ?? 2000, config.videoTtlMs ?? 6 * 60 * 60 * 1000, config.now);
+  }
+
+  /**
+   * Search, reusing a cached page for the same query, page and size
+   * Requirements: 21.1
+   */
+  async searchVideos(query: string, pageToken?: string, maxResults?: number): Promise<YouTubeSearchResponse> {
+    const key = JSON.stringify(['search', query.trim().toLowerCase(), pageToken ?? '', maxResults ?? null]);
+    return this.cachedSearch(key, () => this.adapter.searchVideos(query, pageToken, maxResults));
+  }
+
+  /**
+   * Get video details, only asking the API for videos that aren't cached
+   * Details are returned in the requested order
+   * Requirements: 21.1
+   */
+  async getVideoDetails(videoIds: string[]): Promise<YouTubeVideoDetails[]> {
+    const uniqueIds = [...new Set(videoIds)];
+    const details = new Map<string, YouTubeVideoDetails>();
+    for (const videoId of uniqueIds) {
+      const cached = this.videos.get(videoId);
+      if (cached) {
+        details.set(videoId, cached);
+      }
+    }
+
+    const missing = uniqueIds.filter(videoId => !details.has(videoId));
+    const fetched = missing.length > 0 ? await this.adapter.getVideoDetails(missing) : [];
+    fetched.forEach(detail => {
+      this.videos.set(detail.id, detail);
+      details.set(detail.id, detail);
+    });
+
+    return uniqueIds
+      .map(videoId => details.get(videoId))
+      .filter((detail): detail is YouTubeVideoDetails => detail !== undefined);
+  }
+
+  /**
+   * Find related videos, reusing a cached result for the same seed
+   * Requirements: 21.1
+   */
+  async getRelatedVideos(videoId: string, maxResults?: number): Promise<YouTubeSearchResponse> {
+    const key = JSON.stringify(['related', videoId, maxResults ?? null]);
+    return this.cachedSearch(key, () => this.adapter.getRelatedVideos(videoId, maxResults));
+  }
+
+  /**
+   * List a playlist; playlists change, so they aren't cached, but the
+   * wrapped adapter may remember the videos' details
+   * Requirements: 23.1
+   */
+  async getPlaylistVideos(playlistId: string, maxResults?: number): Promise<YouTubePlaylistVideos> {
+    return this.adapter.getPlaylistVideos(playlistId, maxResults);
+  }
+
+  isConfigured(): boolean {
+    return this.adapter.isConfigured();
+  }
+
+  /**
+   * Quota usage of the wrapped adapter, if it uses the API
+   * Requirements: 21.3
+   */
+  getQuotaStatus(): YouTubeQuotaStatus | null {
+    return this.adapter.getQuotaStatus?.() ?? null;
+  }
+
+  /**
+   * Failover state of the wrapped adapter, if it can fail over
+   * Requirements: 22.4
+   */
+  getFailoverStatus(): YouTubeFailoverStatus | null {
+    return this.adapter.getFailoverStatus?.() ?? null;
+  }
+
+  getCacheStats(): YouTubeCacheStats {
+    return { searches: this.searches.getStats(), videos: this.videos.getStats() };
+  }
+
+  private async cachedSearch(
+    key: string,
+    search: () => Promise<YouTubeSearchResponse>
+  ): Promise<YouTubeSearchResponse> {
+    const cached = this.searches.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const response = await search();
+    this.searches.set(key, response);
+    return response;
+  }
+}
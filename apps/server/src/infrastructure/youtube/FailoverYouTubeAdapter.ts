@@ -0,0 +1,176 @@
+/**
+ * FailoverYouTubeAdapter - Falls back to yt-dlp search when the Data API fails
+ * A circuit breaker watches the API adapter: repeated failures, or running out
+ * of quota, send calls to the fallback until a cooldown has passed. Then a
+ * single call tries the API again and closes the circuit if it works.
+ * Requirements: 22.3, 22.4, 23.1
+ */
+
+import { VideoIdUtils } from '@party-jukebox/shared';
+import {
+  IYouTubeAdapter,
+  YouTubeFailoverStatus,
+  YouTubePlaylistVideos,
+  YouTubeQuotaStatus,
+  YouTubeSearchResponse,
+  YouTubeVideoDetails
+} from './types';
+import { YouTubeAPIError } from './YouTubeAdapter';
+import { isYtDlpPageToken } from './YtDlpSearchAdapter';
+
+/**
+ * Circuit breaker configuration
+ */
+export interface YouTubeFailoverConfig {
+  failureThreshold?: number; // Consecutive API failures before failing over. Default: 3
+  cooldownMs?: number;       // Time on the fallback before trying the API again. Default: 5 minutes
+  now?: () => number;
+}
+
+/**
+ * Errors caused by the request rather than the API, which don't count as failures
+ */
+const CALLER_ERROR_CODES = new Set(['INVALID_QUERY', 'BAD_REQUEST', 'VIDEO_NOT_FOUND', 'PLAYLIST_NOT_FOUND', 'NOT_FOUND']);
+
+/**
+ * Errors that won't go away by retrying today, which open the circuit straight away
+ */
+const FATAL_ERROR_CODES = new Set(['QUOTA_EXCEEDED', 'AUTHENTICATION_ERROR']);
+
+export class FailoverYouTubeAdapter implements IYouTubeAdapter {
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+  private readonly now: () => number;
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private probing = false;
+
+  constructor(
+    private readonly primary: IYouTubeAdapter,
+    private readonly fallback: IYouTubeAdapter,
+    config: YouTubeFailoverConfig = {}
+  ) {
+    this.failureThreshold = config.failureThreshold ?? 3;
+    this.cooldownMs = config.cooldownMs ?? 5 * 60 * 1000;
+    this.now = config.now ?? Date.now;
+  }
+
+  /**
+   * Search with the API, or the fallback while the circuit is open
+   * Later pages of a fallback search stay on the fallback
+   * Requirements: 22.3
+   */
+  async searchVideos(query: string, pageToken?: string, maxResults?: number): Promise<YouTubeSearchResponse> {
+    if (isYtDlpPageToken(pageToken)) {
+      return this.fallback.searchVideos(query, pageToken, maxResults);
+    }
+    return this.call(adapter => adapter.searchVideos(query, pageToken, maxResults));
+  }
+
+  async getVideoDetails(videoIds: string[]): Promise<YouTubeVideoDetails[]> {
+    return this.call(adapter => adapter.getVideoDetails(videoIds));
+  }
+
+  async getRelatedVideos(videoId: string, maxResults?: number): Promise<YouTubeSearchResponse> {
+    return this.call(adapter => adapter.getRelatedVideos(videoId, maxResults));
+  }
+
+  /**
+   * List a playlist with the API, or the fallback while the circuit is open
+   * Only the fallback can list mixes
+   * Requirements: 23.1
+   */
+  async getPlaylistVideos(playlistId: string, maxResults?: number): Promise<YouTubePlaylistVideos> {
+    if (VideoIdUtils.isMixPlaylistId(playlistId)) {
+      return this.fallback.getPlaylistVideos(playlistId, maxResults);
+    }
+    return this.call(adapter => adapter.getPlaylistVideos(playlistId, maxResults));
+  }
+
+  isConfigured(): boolean {
+    return this.primary.isConfigured() || this.fallback.isConfigured();
+  }
+
+  getQuotaStatus(): YouTubeQuotaStatus | null {
+    return this.primary.getQuotaStatus?.() ?? null;
+  }
+
+  /**
+   * Which adapter is serving calls and the state of the circuit
+   * Requirements: 22.4
+   */
+  getFailoverStatus(): YouTubeFailoverStatus {
+    const circuit = this.getCircuit();
+    return {
+      active: circuit === 'closed' ? 'api' : 'yt-dlp',
+      circuit,
+      consecutiveFailures: this.consecutiveFailures,
+      retryAt: this.openedAt !== null ? new Date(this.openedAt + this.cooldownMs) : null
+    };
+  }
+
+  /**
+   * Route a call through the circuit breaker
+   * Requirements: 22.3
+   */
+  private async call<T>(operation: (adapter: IYouTubeAdapter) => Promise<T>): Promise<T> {
+    const circuit = this.getCircuit();
+    if (circuit === 'open' || (circuit === 'half-open' && this.probing)) {
+      return operation(this.fallback);
+    }
+
+    // Only one call at a time finds out whether the API is back
+    const probe = circuit === 'half-open';
+    this.probing = probe;
+
+    try {
+      const result = await operation(this.primary);
+      this.recordSuccess();
+      return result;
+    } catch (error) {
+      if (this.isCallerError(error)) {
+        if (probe) {
+          this.probing = false;
+        }
+        throw error;
+      }
+
+      this.recordFailure(error, probe);
+      return operation(this.fallback);
+    }
+  }
+
+  private getCircuit(): YouTubeFailoverStatus['circuit'] {
+    if (this.openedAt === null) {
+      return 'closed';
+    }
+    return this.now() - this.openedAt >= this.cooldownMs ? 'half-open' : 'open';
+  }
+
+  private recordSuccess(): void {
+    if (this.openedAt !== null) {
+      console.log('✅ YouTube API is back, switching search back from yt-dlp');
+    }
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.probing = false;
+  }
+
+  private recordFailure(error: unknown, probe: boolean): void {
+    this.consecutiveFailures++;
+    this.probing = false;
+
+    const fatal = error instanceof YouTubeAPIError && FATAL_ERROR_CODES.has(error.code);
+    if (probe || fatal || this.consecutiveFailures >= this.failureThreshold) {
+      if (this.openedAt === null) {
+        const reason = error instanceof Error ? error.message : String(error);
+        console.warn(`⚠️  YouTube API failing (${reason}), searching with yt-dlp for now`);
+      }
+      this.openedAt = this.now();
+    }
+  }
+
+  private isCallerError(error: unknown): boolean {
+    return error instanceof YouTubeAPIError && CALLER_ERROR_CODES.has(error.code);
+  }
+}
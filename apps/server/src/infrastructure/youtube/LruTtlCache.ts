@@ -0,0 +1,72 @@
+/**
+ * LruTtlCache - Size-bounded cache whose entries also expire after a fixed time
+ * The least recently used entry is evicted when the cache is full
+ * Requirements: 21.1
+ */
+
+import { CacheStats } from '../playback/ResolutionCache';
+
+interface Entry<V> {
+  readonly value: V;
+  readonly expiresAt: number;
+}
+
+export class LruTtlCache<V> {
+  // Map iteration order is insertion order, so re-inserting on access keeps the LRU entry first
+  private readonly entries = new Map<string, Entry<V>>();
+  private hits = 0;
+  private misses = 0;
+
+  constructor(
+    private readonly maxEntries: number,
+    private readonly ttlMs: number,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Get a live entry, marking it as recently used
+   */
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= this.now()) {
+      if (entry) {
+        this.entries.delete(key);
+      }
+      this.misses++;
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.value;
+  }
+
+  /**
+   * Store an entry, evicting the least recently used one if the cache is full
+   */
+  set(key: string, value: V): void {
+    this.entries.delete(key);
+    if (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next();
+      if (!oldest.done) {
+        this.entries.delete(oldest.value);
+      }
+    }
+    this.entries.set(key, { value, expiresAt: this.now() + this.ttlMs });
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  getStats(): CacheStats {
+    const total = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      size: this.entries.size,
+      hitRate: total > 0 ? this.hits / total : 0
+    };
+  }
+}
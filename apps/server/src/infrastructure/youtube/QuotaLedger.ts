@@ -0,0 +1,154 @@
+/**
+ * QuotaLedger - Tracks YouTube Data API quota units spent today
+ * The API's daily quota resets at midnight Pacific time, so the ledger does too.
+ * Searches stop before the quota is gone, leaving a reserve for cheap video
+ * lookups (autoplay, track details), and everything stops once it is used up.
+ * Requirements: 21.2, 21.3, 21.4
+ */
+
+import { YouTubeQuotaStatus } from './types';
+
+/**
+ * Quota units charged per request
+ * Requirements: 21.2
+ */
+export const YOUTUBE_QUOTA_COSTS = {
+  search: 100,       // search.list
+  videos: 1,         // videos.list, per request of up to 50 IDs
+  playlistItems: 1   // playlistItems.list, per page of up to 50 videos
+} as const;
+
+/**
+ * Quota ledger configuration
+ */
+export interface QuotaLedgerConfig {
+  dailyLimit?: number;   // Default: 10,000 units, the API's default quota
+  searchReserve?: number; // Units kept back from search for video lookups. Default: 500
+  now?: () => Date;
+}
+
+const QUOTA_TIME_ZONE = 'America/Los_Angeles';
+
+export class QuotaLedger {
+  private readonly dailyLimit: number;
+  private readonly searchReserve: number;
+  private readonly now: () => Date;
+  private day: string;
+  private used = 0;
+  private exhausted = false;
+
+  constructor(config: QuotaLedgerConfig = {}) {
+    this.dailyLimit = config.dailyLimit ?? 10000;
+    this.searchReserve = config.searchReserve ?? 500;
+    this.now = config.now ?? (() => new Date());
+    this.day = pacificDay(this.now());
+  }
+
+  /**
+   * Charge units for a request that reached the API
+   * Requirements: 21.2
+   */
+  record(units: number): void {
+    this.rollOver();
+    this.used += units;
+  }
+
+  /**
+   * The API reported the quota as exceeded - stop calling it until the reset
+   * Requirements: 21.4
+   */
+  markExhausted(): void {
+    this.rollOver();
+    this.exhausted = true;
+  }
+
+  /**
+   * Whether a search still fits while keeping the lookup reserve
+   * Requirements: 21.4
+   */
+  canSearch(): boolean {
+    return this.canAfford(YOUTUBE_QUOTA_COSTS.search + this.searchReserve);
+  }
+
+  /**
+   * Whether a request of this cost still fits in today's quota
+   * Requirements: 21.4
+   */
+  canAfford(units: number): boolean {
+    this.rollOver();
+    return !this.exhausted && this.used + units <= this.dailyLimit;
+  }
+
+  /**
+   * Today's usage
+   * Requirements: 21.3
+   */
+  getStatus(): YouTubeQuotaStatus {
+    this.rollOver();
+    return {
+      used: this.used,
+      limit: this.dailyLimit,
+      remaining: this.exhausted ? 0 : Math.max(0, this.dailyLimit - this.used),
+      resetsAt: nextPacificMidnight(this.now()),
+      searchAvailable: this.canSearch(),
+      exhausted: this.exhausted || this.used >= this.dailyLimit
+    };
+  }
+
+  private rollOver(): void {
+    const today = pacificDay(this.now());
+    if (today !== this.day) {
+      this.day = today;
+      this.used = 0;
+      this.exhausted = false;
+    }
+  }
+}
+
+/**
+ * Pacific wall-clock date and time of an instant
+ */
+function pacificParts(date: Date): { day: string; hour: number; minute: number; second: number } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: QUOTA_TIME_ZONE,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(date).map(part => [part.type, part.value])
+  );
+
+  return {
+    day: `${parts.year}-${parts.month}-${parts.day}`,
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second)
+  };
+}
+
+function pacificDay(date: Date): string {
+  return pacificParts(date).day;
+}
+
+/**
+ * The next midnight in Pacific time, allowing for days that are 23 or 25 hours long
+ */
+function nextPacificMidnight(date: Date): Date {
+  const { hour, minute, second } = pacificParts(date);
+  const elapsedMs = ((hour * 60 + minute) * 60 + second) * 1000 + date.getMilliseconds();
+  const candidate = new Date(date.getTime() - elapsedMs + 24 * 60 * 60 * 1000);
+
+  // Across a DST change the naive guess lands an hour off midnight
+  const landed = pacificParts(candidate).hour;
+  if (landed === 23) {
+    return new Date(candidate.getTime() + 60 * 60 * 1000);
+  }
+  if (landed === 1) {
+    return new Date(candidate.getTime() - 60 * 60 * 1000);
+  }
+  return candidate;
+}
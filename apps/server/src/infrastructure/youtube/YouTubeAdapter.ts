@@ -3,18 +3,26 @@
  * 
  * Infrastructure adapter for communicating with YouTube Data API v3.
  * Handles search requests, video details, API key management, and error handling.
+ * Every request is charged to a daily quota ledger, and searches are refused
+ * before the quota runs out so the remaining units go to video lookups.
  * 
- * Requirements: 1.1, 6.1, 6.2, 6.3
+ * Requirements: 1.1, 6.1, 6.2, 6.3, 21.2, 21.4, 23.1
  */
 
 import { 
   IYouTubeAdapter, 
   YouTubeSearchResponse, 
+  YouTubeSearchItem,
   YouTubeVideoDetails, 
   YouTubeVideoDetailsResponse,
+  YouTubePlaylistItemsResponse,
+  YouTubePlaylistVideos,
   YouTubeError,
-  YouTubeConfig 
+  YouTubeConfig,
+  YouTubeQuotaStatus
 } from './types';
+import { VideoIdUtils } from '@party-jukebox/shared';
+import { QuotaLedger, YOUTUBE_QUOTA_COSTS } from './QuotaLedger';
 
 /**
  * Custom error types for YouTube API operations
@@ -59,12 +67,17 @@ export class YouTubeAdapter implements IYouTubeAdapter {
   private readonly apiKey: string;
   private readonly timeout: number;
   private readonly maxResults: number;
+  private readonly quotaLedger: QuotaLedger;
 
-  constructor(config: YouTubeConfig) {
+  constructor(config: YouTubeConfig, quotaLedger?: QuotaLedger) {
     this.apiKey = config.apiKey;
     this.baseUrl = config.baseUrl || 'https://www.googleapis.com/youtube/v3';
     this.timeout = config.timeout || 5000; // 5 seconds as per requirements
     this.maxResults = config.maxResults || 50; // YouTube API limit
+    this.quotaLedger = quotaLedger ?? new QuotaLedger({
+      dailyLimit: config.dailyQuota,
+      searchReserve: config.quotaSearchReserve
+    });
 
     if (!this.apiKey) {
       throw new YouTubeAuthenticationError('YouTube API key is required');
@@ -104,7 +117,13 @@ export class YouTubeAdapter implements IYouTubeAdapter {
 
     const url = `${this.baseUrl}/search?${params.toString()}`;
 
+    // Keep what's left of the quota for video lookups
+    if (!this.quotaLedger.canSearch()) {
+      throw new YouTubeQuotaExceededError('Daily YouTube search quota is used up. Please try again later.');
+    }
+
     try {
+      this.quotaLedger.record(YOUTUBE_QUOTA_COSTS.search);
       const response = await this.makeRequest(url);
       
       if (!response.ok) {
@@ -157,7 +176,12 @@ export class YouTubeAdapter implements IYouTubeAdapter {
 
       const url = `${this.baseUrl}/videos?${params.toString()}`;
 
+      if (!this.quotaLedger.canAfford(YOUTUBE_QUOTA_COSTS.videos)) {
+        throw new YouTubeQuotaExceededError('Daily YouTube API quota is used up. Please try again later.');
+      }
+
       try {
+        this.quotaLedger.record(YOUTUBE_QUOTA_COSTS.videos);
         const response = await this.makeRequest(url);
         
         if (!response.ok) {
@@ -191,6 +215,92 @@ export class YouTubeAdapter implements IYouTubeAdapter {
     return allDetails;
   }
 
+  /**
+   * Find music videos related to a seed video
+   * The Data API no longer supports relatedToVideoId, so this searches for more
+   * music by the seed's artist and drops the seed from the results
+   * Requirements: 14.2
+   */
+  async getRelatedVideos(videoId: string, maxResults: number = 10): Promise<YouTubeSearchResponse> {
+    const [seed] = await this.getVideoDetails([videoId]);
+    if (!seed) {
+      throw new YouTubeAPIError(`Seed video not found: ${videoId}`, 'VIDEO_NOT_FOUND', 404);
+    }
+
+    const response = await this.searchVideos(this.buildRelatedQuery(seed), undefined, maxResults + 1);
+
+    return {
+      ...response,
+      items: response.items.filter(item => item.id.videoId !== videoId).slice(0, maxResults)
+    };
+  }
+
+  /**
+   * List the videos of a playlist, in playlist order, a page of 50 at a time
+   * Mixes aren't real playlists and can't be listed through the API
+   * Requirements: 23.1
+   */
+  async getPlaylistVideos(playlistId: string, maxResults: number = 100): Promise<YouTubePlaylistVideos> {
+    if (VideoIdUtils.isMixPlaylistId(playlistId)) {
+      throw new YouTubeAPIError('Mixes can only be listed through yt-dlp', 'UNSUPPORTED_PLAYLIST', 400);
+    }
+
+    const items: YouTubeSearchItem[] = [];
+    let totalResults = 0;
+    let pageToken: string | undefined;
+
+    do {
+      const params = new URLSearchParams({
+        part: 'snippet',
+        playlistId,
+        maxResults: Math.min(50, maxResults - items.length).toString(),
+        key: this.apiKey
+      });
+      if (pageToken) {
+        params.append('pageToken', pageToken);
+      }
+
+      if (!this.quotaLedger.canAfford(YOUTUBE_QUOTA_COSTS.playlistItems)) {
+        throw new YouTubeQuotaExceededError('Daily YouTube API quota is used up. Please try again later.');
+      }
+
+      try {
+        this.quotaLedger.record(YOUTUBE_QUOTA_COSTS.playlistItems);
+        const response = await this.makeRequest(`${this.baseUrl}/playlistItems?${params.toString()}`);
+
+        if (!response.ok) {
+          await this.handleErrorResponse(response);
+        }
+
+        const data = await response.json() as YouTubePlaylistItemsResponse;
+        if (!data.items || !Array.isArray(data.items)) {
+          throw new YouTubeAPIError('Invalid YouTube playlist response format', 'INVALID_RESPONSE');
+        }
+
+        totalResults = data.pageInfo?.totalResults ?? data.items.length;
+        items.push(...data.items.map(item => this.toSearchItem(item)));
+        pageToken = data.nextPageToken;
+      } catch (error) {
+        if (error instanceof YouTubeAPIError) {
+          if (error.code === 'NOT_FOUND') {
+            throw new YouTubeAPIError(`Playlist not found: ${playlistId}`, 'PLAYLIST_NOT_FOUND', 404);
+          }
+          throw error;
+        }
+
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new YouTubeAPIError(
+          `YouTube playlist request failed: ${errorMessage}`,
+          'NETWORK_ERROR',
+          undefined,
+          error
+        );
+      }
+    } while (pageToken && items.length < maxResults);
+
+    return { totalResults, items };
+  }
+
   /**
    * Check if the adapter is properly configured
    * Requirements: 6.1, 6.2
@@ -199,6 +309,39 @@ export class YouTubeAdapter implements IYouTubeAdapter {
     return Boolean(this.apiKey && this.apiKey.trim().length > 0);
   }
 
+  /**
+   * Today's quota usage
+   * Requirements: 21.3
+   */
+  getQuotaStatus(): YouTubeQuotaStatus {
+    return this.quotaLedger.getStatus();
+  }
+
+  /**
+   * Shape a playlist entry like a search result, crediting the video's own channel
+   * Requirements: 23.1
+   */
+  private toSearchItem(item: YouTubePlaylistItemsResponse['items'][number]): YouTubeSearchItem {
+    const fallbackThumbnail = { url: `https://i.ytimg.com/vi/${item.snippet.resourceId.videoId}/mqdefault.jpg`, width: 320, height: 180 };
+    return {
+      kind: 'youtube#searchResult',
+      etag: '',
+      id: { kind: 'youtube#video', videoId: item.snippet.resourceId.videoId },
+      snippet: {
+        publishedAt: item.snippet.publishedAt,
+        channelId: item.snippet.videoOwnerChannelId ?? '',
+        title: item.snippet.title,
+        description: item.snippet.description,
+        thumbnails: item.snippet.thumbnails ?? {
+          default: fallbackThumbnail,
+          medium: fallbackThumbnail,
+          high: fallbackThumbnail
+        },
+        channelTitle: item.snippet.videoOwnerChannelTitle ?? item.snippet.channelTitle
+      }
+    };
+  }
+
   /**
    * Make HTTP request with timeout and error handling
    * Requirements: 3.6, 6.3
@@ -259,6 +402,7 @@ export class YouTubeAdapter implements IYouTubeAdapter {
       case 403:
         // Check if it's a quota error
         if (errorData?.error?.errors?.some(e => e.reason === 'quotaExceeded')) {
+          this.quotaLedger.markExhausted();
           throw new YouTubeQuotaExceededError('YouTube API quota exceeded. Please try again later.');
         }
         throw new YouTubeAPIError(sanitizedMessage, 'FORBIDDEN', statusCode, errorData);
@@ -292,6 +436,20 @@ export class YouTubeAdapter implements IYouTubeAdapter {
     return message.replace(/[A-Za-z0-9_-]{35,45}/g, '[API_KEY_REDACTED]');
   }
 
+  /**
+   * Build a search query for videos related to a seed
+   * Prefers the artist from "Artist - Song" titles, then the channel name
+   */
+  private buildRelatedQuery(seed: YouTubeVideoDetails): string {
+    const dashIndex = seed.snippet.title.indexOf(' - ');
+    if (dashIndex > 0) {
+      return seed.snippet.title.substring(0, dashIndex).trim();
+    }
+
+    // Auto-generated "Artist - Topic" channels carry the artist name
+    return seed.snippet.channelTitle.replace(/\s*-\s*Topic$/i, '').trim() || seed.snippet.title;
+  }
+
   /**
    * Split array into chunks of specified size
    */
@@ -0,0 +1,232 @@
+/**
+ * YouTubeSourceProvider - YouTube as a track source
+ * Searches with the YouTube Data API and plays through yt-dlp
+ * Requirements: 1.1, 1.2, 14.2, 14.3, 20.1, 20.3, 20.4, 23.1
+ */
+
+import { Result, SearchResult, VideoIdUtils } from '@party-jukebox/shared';
+import { IStreamResolver } from '../../domain/playback/interfaces';
+import { ResolvedStream } from '../../domain/playback/types';
+import { ResolutionError } from '../../domain/playback/errors';
+import { SourcePlaylist, SourceSearchPage, SourceSearchRequest, TrackSourceProvider } from '../../domain/sources/types';
+import { IYouTubeAdapter, YOUTUBE_MUSIC_CATEGORY_ID, YouTubeSearchItem, YouTubeVideoDetails } from './types';
+
+/**
+ * YouTube watch page URLs
+ * Requirements: 1.1
+ */
+const YOUTUBE_URL_PATTERN = /^https:\/\/(www\.)?(youtube\.com\/watch\?v=|youtu\.be\/)[a-zA-Z0-9_-]+/;
+
+export class YouTubeSourceProvider implements TrackSourceProvider {
+  readonly source = 'youtube' as const;
+  readonly extractorUrlPattern = YOUTUBE_URL_PATTERN;
+
+  constructor(
+    private readonly youtubeAdapter: IYouTubeAdapter,
+    private readonly streamResolver: IStreamResolver
+  ) {}
+
+  validateSourceId(sourceId: string): boolean {
+    return VideoIdUtils.isValidVideoId(sourceId);
+  }
+
+  getTrackUrl(sourceId: string): string {
+    return VideoIdUtils.constructYouTubeUrl(sourceId);
+  }
+
+  getThumbnailUrl(sourceId: string): string {
+    return `https://i.ytimg.com/vi/${sourceId}/mqdefault.jpg`;
+  }
+
+  resolveStream(sourceId: string): Promise<Result<ResolvedStream, ResolutionError>> {
+    return this.streamResolver.resolveStream(this.getTrackUrl(sourceId));
+  }
+
+  /**
+   * Search videos, keeping only those with a known duration
+   * Requirements: 1.1, 1.2, 3.1
+   */
+  async search(request: SourceSearchRequest): Promise<SourceSearchPage> {
+    const searchResponse = await this.youtubeAdapter.searchVideos(request.query, request.pageToken, request.limit);
+    const results = await this.withDetails(searchResponse.items);
+
+    return {
+      results,
+      totalResults: searchResponse.pageInfo.totalResults,
+      nextPageToken: searchResponse.nextPageToken,
+      prevPageToken: searchResponse.prevPageToken
+    };
+  }
+
+  /**
+   * Find music related to a seed video
+   * Requirements: 14.2
+   */
+  async getRelated(sourceId: string, limit: number): Promise<SearchResult[]> {
+    const relatedResponse = await this.youtubeAdapter.getRelatedVideos(sourceId, limit);
+    return this.withDetails(relatedResponse.items);
+  }
+
+  /**
+   * Look up playable details for known video IDs, keeping the requested order
+   * Unknown, private or zero-length videos are left out
+   * Requirements: 14.3
+   */
+  async lookup(sourceIds: string[]): Promise<SearchResult[]> {
+    const videoDetails = await this.youtubeAdapter.getVideoDetails(sourceIds);
+    const detailsMap = new Map(videoDetails.map(detail => [detail.id, detail]));
+
+    return sourceIds
+      .map(videoId => detailsMap.get(videoId))
+      .filter((detail): detail is YouTubeVideoDetails => detail !== undefined)
+      .map(detail => ({
+        source: this.source,
+        sourceId: detail.id,
+        title: detail.snippet.title,
+        artist: this.extractArtist(detail.snippet.channelTitle, detail.snippet.title),
+        duration: this.parseDuration(detail.contentDetails.duration),
+        thumbnailUrl: detail.snippet.thumbnails?.medium?.url
+          || detail.snippet.thumbnails?.default?.url
+          || this.getThumbnailUrl(detail.id),
+        channelTitle: detail.snippet.channelTitle,
+        publishedAt: detail.snippet.publishedAt || '',
+        ...this.contentFacts(detail)
+      }))
+      .filter(result => result.duration > 0);
+  }
+
+  /**
+   * The list= parameter of a YouTube playlist, watch or mix URL
+   * Requirements: 23.1
+   */
+  parsePlaylistUrl(url: string): string | null {
+    return VideoIdUtils.extractPlaylistIdFromUrl(url);
+  }
+
+  /**
+   * List a playlist, leaving out deleted, private and zero-length videos
+   * Requirements: 23.1
+   */
+  async getPlaylist(playlistId: string, limit: number): Promise<SourcePlaylist> {
+    const playlist = await this.youtubeAdapter.getPlaylistVideos(playlistId, limit);
+    return {
+      results: await this.withDetails(playlist.items),
+      totalEntries: playlist.items.length
+    };
+  }
+
+  /**
+   * Fetch durations for search items and combine them into search results
+   * Requirements: 1.2
+   */
+  private async withDetails(items: YouTubeSearchItem[]): Promise<SearchResult[]> {
+    const videoIds = items.map(item => item.id.videoId);
+    const videoDetails = videoIds.length > 0
+      ? await this.youtubeAdapter.getVideoDetails(videoIds)
+      : [];
+
+    return this.combineSearchAndDetails(items, videoDetails);
+  }
+
+  /**
+   * Combine search results with video details to create SearchResult objects
+   * Requirements: 1.1, 1.2
+   */
+  private combineSearchAndDetails(
+    searchItems: YouTubeSearchItem[],
+    videoDetails: YouTubeVideoDetails[]
+  ): SearchResult[] {
+    const detailsMap = new Map<string, YouTubeVideoDetails>();
+    videoDetails.forEach(detail => {
+      detailsMap.set(detail.id, detail);
+    });
+
+    return searchItems
+      .map(item => {
+        const details = detailsMap.get(item.id.videoId);
+        if (!details) {
+          // Skip items without duration information
+          return null;
+        }
+
+        const duration = this.parseDuration(details.contentDetails.duration);
+        if (duration === 0) {
+          // Skip items with invalid duration
+          return null;
+        }
+
+        // Extract artist from channel title or use channel title as fallback
+        const artist = this.extractArtist(item.snippet.channelTitle, item.snippet.title);
+
+        const searchResult: SearchResult = {
+          source: this.source,
+          sourceId: item.id.videoId,
+          title: item.snippet.title,
+          artist: artist,
+          duration: duration,
+          thumbnailUrl: item.snippet.thumbnails.medium?.url || item.snippet.thumbnails.default.url,
+          channelTitle: item.snippet.channelTitle,
+          publishedAt: item.snippet.publishedAt,
+          ...this.contentFacts(details)
+        };
+
+        return searchResult;
+      })
+      .filter((result): result is SearchResult => result !== null);
+  }
+
+  /**
+   * What the content policy needs to know, leaving out what the details don't say
+   * Requirements: 26.1
+   */
+  private contentFacts(details: YouTubeVideoDetails): Partial<SearchResult> {
+    const { channelId, categoryId, liveBroadcastContent } = details.snippet;
+    return {
+      ...(channelId && { channelId }),
+      ...(liveBroadcastContent && { isLive: liveBroadcastContent !== 'none' }),
+      ...(categoryId && { isMusic: categoryId === YOUTUBE_MUSIC_CATEGORY_ID }),
+      ...(details.contentDetails.contentRating && {
+        isAgeRestricted: details.contentDetails.contentRating.ytRating === 'ytAgeRestricted'
+      })
+    };
+  }
+
+  /**
+   * Parse ISO 8601 duration format to seconds
+   * Requirements: 1.2
+   */
+  private parseDuration(isoDuration: string): number {
+    // Parse ISO 8601 duration (PT4M13S) to seconds
+    // Handle various formats: PT1H2M3S, PT45S, PT2M, etc.
+    const match = isoDuration.match(/PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?/);
+
+    if (!match) {
+      return 0;
+    }
+
+    const hours = parseInt(match[1] || '0', 10);
+    const minutes = parseInt(match[2] || '0', 10);
+    const seconds = parseInt(match[3] || '0', 10);
+
+    return hours * 3600 + minutes * 60 + seconds;
+  }
+
+  /**
+   * Extract artist name from channel title and video title
+   * Requirements: 1.2
+   */
+  private extractArtist(channelTitle: string, videoTitle: string): string {
+    // Check if video title contains " - " pattern which might indicate "Artist - Song"
+    const dashIndex = videoTitle.indexOf(' - ');
+    if (dashIndex > 0 && dashIndex < videoTitle.length / 2) {
+      // If the part before the dash is reasonably short, use it as artist
+      const potentialArtist = videoTitle.substring(0, dashIndex).trim();
+      if (potentialArtist.length > 0 && potentialArtist.length < 50) {
+        return potentialArtist;
+      }
+    }
+
+    // Fallback to channel title
+    return channelTitle;
+  }
+}
@@ -0,0 +1,302 @@
+/**
+ * YtDlpSearchAdapter - YouTube search without an API key
+ * Runs "ytsearchN:" queries and reads video metadata through yt-dlp, so guests
+ * can still search when there is no API key or the API is down or out of quota.
+ * Slower than the API, but it costs no quota.
+ * Requirements: 22.1, 22.2, 23.1
+ */
+
+import { VideoIdUtils } from '@party-jukebox/shared';
+import { IProcessManager } from '../../domain/playback/interfaces';
+import { YtDlpMetadata } from '../../domain/playback/types';
+import { ProcessError } from '../../domain/playback/errors';
+import {
+  IYouTubeAdapter,
+  YouTubePlaylistVideos,
+  YouTubeSearchItem,
+  YouTubeSearchResponse,
+  YouTubeVideoDetails,
+  YOUTUBE_MUSIC_CATEGORY_ID
+} from './types';
+import { YouTubeAPIError } from './YouTubeAdapter';
+import { LruTtlCache } from './LruTtlCache';
+
+/**
+ * yt-dlp search configuration
+ */
+export interface YtDlpSearchConfig {
+  searchTimeoutMs?: number;  // Default: 20 seconds
+  detailsTimeoutMs?: number; // Default: 30 seconds
+  playlistTimeoutMs?: number; // Default: 60 seconds
+  maxResults?: number;       // Results a search can reach, across all pages. Default: 100
+  detailsTtlMs?: number;     // How long metadata from searches is reused. Default: 6 hours
+  now?: () => number;
+}
+
+/**
+ * Page tokens are result offsets with a prefix, so they can't be mistaken for API page tokens
+ * Requirements: 22.2
+ */
+const PAGE_TOKEN_PREFIX = 'ytdlp:';
+
+export function isYtDlpPageToken(pageToken: string | undefined): boolean {
+  return pageToken?.startsWith(PAGE_TOKEN_PREFIX) ?? false;
+}
+
+export class YtDlpSearchAdapter implements IYouTubeAdapter {
+  private readonly searchTimeoutMs: number;
+  private readonly detailsTimeoutMs: number;
+  private readonly playlistTimeoutMs: number;
+  private readonly maxResults: number;
+  // Flat search entries already carry titles and durations, so the details
+  // lookup that follows every search doesn't need another yt-dlp run
+  private readonly details: LruTtlCache<YouTubeVideoDetails>;
+
+  constructor(
+    private readonly processManager: IProcessManager,
+    config: YtDlpSearchConfig = {}
+  ) {
+    this.searchTimeoutMs = config.searchTimeoutMs ?? 20000;
+    this.detailsTimeoutMs = config.detailsTimeoutMs ?? 30000;
+    this.playlistTimeoutMs = config.playlistTimeoutMs ?? 60000;
+    this.maxResults = config.maxResults ?? 100;
+    this.details = new LruTtlCache(2000, config.detailsTtlMs ?? 6 * 60 * 60 * 1000, config.now);
+  }
+
+  /**
+   * Search YouTube with a "ytsearchN:" query
+   * yt-dlp can't start a search part-way through, so later pages search for
+   * more results and skip the ones already shown
+   * Requirements: 22.1, 22.2
+   */
+  async searchVideos(query: string, pageToken?: string, maxResults: number = 20): Promise<YouTubeSearchResponse> {
+    if (!query?.trim()) {
+      throw new YouTubeAPIError('Search query is required', 'INVALID_QUERY', 400);
+    }
+
+    const offset = this.parsePageToken(pageToken);
+    const pageSize = Math.max(1, Math.min(maxResults, this.maxResults - offset));
+    if (offset >= this.maxResults) {
+      return this.toSearchResponse([], offset, pageSize, false);
+    }
+
+    const entries = await this.extract([`ytsearch${offset + pageSize}:${query.trim()}`], true, this.searchTimeoutMs);
+    const page = entries.slice(offset, offset + pageSize);
+    const hasMore = entries.length >= offset + pageSize && offset + pageSize < this.maxResults;
+
+    return this.toSearchResponse(page, offset, pageSize, hasMore);
+  }
+
+  /**
+   * Get video details, extracting only videos that weren't seen in a search
+   * Requirements: 22.1
+   */
+  async getVideoDetails(videoIds: string[]): Promise<YouTubeVideoDetails[]> {
+    const uniqueIds = [...new Set(videoIds)];
+    const missing = uniqueIds.filter(videoId => !this.details.get(videoId));
+
+    if (missing.length > 0) {
+      const urls = missing.map(videoId => `https://www.youtube.com/watch?v=${videoId}`);
+      const entries = await this.extract(urls, false, this.detailsTimeoutMs);
+      entries.forEach(entry => this.remember(entry));
+    }
+
+    return uniqueIds
+      .map(videoId => this.details.get(videoId))
+      .filter((detail): detail is YouTubeVideoDetails => detail !== undefined);
+  }
+
+  /**
+   * Find related music through the seed video's YouTube mix, excluding the seed
+   * Requirements: 14.2, 22.1
+   */
+  async getRelatedVideos(videoId: string, maxResults: number = 10): Promise<YouTubeSearchResponse> {
+    const mixUrl = `https://www.youtube.com/watch?v=${videoId}&list=RD${videoId}`;
+    const entries = await this.extract([mixUrl], true, this.searchTimeoutMs);
+    const related = entries.filter(entry => entry.id !== videoId).slice(0, maxResults);
+
+    return this.toSearchResponse(related, 0, maxResults, false);
+  }
+
+  /**
+   * List a playlist or mix without visiting each video
+   * Requirements: 23.1
+   */
+  async getPlaylistVideos(playlistId: string, maxResults: number = 100): Promise<YouTubePlaylistVideos> {
+    // A mix is played from its seed video; album mixes (RDCLAK...) open as playlists
+    const seedVideoId = playlistId.slice(2);
+    const url = VideoIdUtils.isMixPlaylistId(playlistId) && VideoIdUtils.isValidVideoId(seedVideoId)
+      ? `https://www.youtube.com/watch?v=${seedVideoId}&list=${playlistId}`
+      : `https://www.youtube.com/playlist?list=${playlistId}`;
+
+    const result = await this.processManager.runYtDlpJson([url], {
+      flat: true,
+      timeout: this.playlistTimeoutMs,
+      maxEntries: maxResults
+    });
+    if (!result.success) {
+      // yt-dlp exits with an error, and prints nothing, for playlists that don't exist
+      if (result.error === 'PROCESS_CRASHED') {
+        throw new YouTubeAPIError(`Playlist not found: ${playlistId}`, 'PLAYLIST_NOT_FOUND', 404);
+      }
+      throw this.toUnavailableError(result.error);
+    }
+
+    const entries = result.value.slice(0, maxResults);
+    entries.forEach(entry => this.remember(entry));
+    return {
+      totalResults: entries.length,
+      items: entries.map(entry => this.toSearchItem(entry))
+    };
+  }
+
+  /**
+   * yt-dlp needs no credentials
+   * Requirements: 22.2
+   */
+  isConfigured(): boolean {
+    return true;
+  }
+
+  /**
+   * Run yt-dlp, turning process failures into adapter errors
+   * SearchService reports these as the search being unavailable
+   */
+  private async extract(targets: string[], flat: boolean, timeout: number): Promise<YtDlpMetadata[]> {
+    const result = await this.processManager.runYtDlpJson(targets, { flat, timeout });
+    if (!result.success) {
+      throw this.toUnavailableError(result.error);
+    }
+    return result.value;
+  }
+
+  private toUnavailableError(error: ProcessError): YouTubeAPIError {
+    const code = error === 'PROCESS_TIMEOUT' ? 'TIMEOUT_ERROR' : 'SERVICE_UNAVAILABLE';
+    return new YouTubeAPIError(`yt-dlp search is unavailable (${error})`, code, 503);
+  }
+
+  private parsePageToken(pageToken: string | undefined): number {
+    if (!pageToken) {
+      return 0;
+    }
+
+    const offset = Number(pageToken.slice(PAGE_TOKEN_PREFIX.length));
+    if (!isYtDlpPageToken(pageToken) || !Number.isInteger(offset) || offset < 0) {
+      throw new YouTubeAPIError('Invalid page token', 'BAD_REQUEST', 400);
+    }
+    return offset;
+  }
+
+  /**
+   * Build an API-shaped search page, remembering each entry's details
+   */
+  private toSearchResponse(
+    entries: YtDlpMetadata[],
+    offset: number,
+    pageSize: number,
+    hasMore: boolean
+  ): YouTubeSearchResponse {
+    const items = entries.map(entry => this.toSearchItem(entry));
+    entries.forEach(entry => this.remember(entry));
+
+    return {
+      kind: 'youtube#searchListResponse',
+      etag: '',
+      ...(hasMore && { nextPageToken: `${PAGE_TOKEN_PREFIX}${offset + pageSize}` }),
+      ...(offset > 0 && { prevPageToken: `${PAGE_TOKEN_PREFIX}${Math.max(0, offset - pageSize)}` }),
+      pageInfo: {
+        totalResults: hasMore ? this.maxResults : offset + items.length,
+        resultsPerPage: pageSize
+      },
+      items
+    };
+  }
+
+  private toSearchItem(entry: YtDlpMetadata): YouTubeSearchItem {
+    const thumbnail = (quality: string, width: number, height: number) => ({
+      url: `https://i.ytimg.com/vi/${entry.id}/${quality}.jpg`,
+      width,
+      height
+    });
+
+    return {
+      kind: 'youtube#searchResult',
+      etag: '',
+      id: { kind: 'youtube#video', videoId: entry.id },
+      snippet: {
+        publishedAt: this.toPublishedAt(entry.upload_date),
+        channelId: entry.channel_id ?? '',
+        title: entry.title ?? entry.id,
+        description: '',
+        thumbnails: {
+          default: thumbnail('default', 120, 90),
+          medium: thumbnail('mqdefault', 320, 180),
+          high: thumbnail('hqdefault', 480, 360)
+        },
+        channelTitle: this.channelTitle(entry)
+      }
+    };
+  }
+
+  /**
+   * Cache details for entries that came with a duration; live streams and
+   * entries without one are looked up again if asked for
+   */
+  private remember(entry: YtDlpMetadata): void {
+    if (!entry.duration || entry.duration <= 0) {
+      return;
+    }
+
+    const searchItem = this.toSearchItem(entry);
+    this.details.set(entry.id, {
+      kind: 'youtube#video',
+      id: entry.id,
+      snippet: {
+        title: searchItem.snippet.title,
+        channelTitle: searchItem.snippet.channelTitle,
+        ...(entry.channel_id && { channelId: entry.channel_id }),
+        ...(entry.categories?.length && {
+          // Only music matters to the content policy, so other categories aren't told apart
+          categoryId: entry.categories.includes('Music') ? YOUTUBE_MUSIC_CATEGORY_ID : 'other'
+        }),
+        ...(entry.live_status && {
+          liveBroadcastContent: entry.live_status === 'is_live' ? 'live' : entry.live_status === 'is_upcoming' ? 'upcoming' : 'none'
+        }),
+        publishedAt: searchItem.snippet.publishedAt,
+        thumbnails: {
+          default: searchItem.snippet.thumbnails.default,
+          medium: searchItem.snippet.thumbnails.medium
+        }
+      },
+      contentDetails: {
+        duration: this.toIsoDuration(entry.duration),
+        ...(typeof entry.age_limit === 'number' && {
+          contentRating: entry.age_limit >= 18 ? { ytRating: 'ytAgeRestricted' as const } : {}
+        })
+      }
+    });
+  }
+
+  private channelTitle(entry: YtDlpMetadata): string {
+    return entry.channel || entry.uploader || 'Unknown artist';
+  }
+
+  /**
+   * Seconds to ISO 8601 duration (PT4M13S), as the API reports it
+   */
+  private toIsoDuration(totalSeconds: number): string {
+    const rounded = Math.round(totalSeconds);
+    const hours = Math.floor(rounded / 3600);
+    const minutes = Math.floor((rounded % 3600) / 60);
+    const seconds = rounded % 60;
+    return `PT${hours ? `${hours}H` : ''}${minutes ? `${minutes}M` : ''}${seconds || rounded === 0 ? `${seconds}S` : ''}`;
+  }
+
+  /**
+   * yt-dlp's YYYYMMDD upload date to an ISO timestamp
+   */
+  private toPublishedAt(uploadDate: string | null | undefined): string {
+    const match = uploadDate?.match(/^(\d{4})(\d{2})(\d{2})$/);
+    return match ? `${match[1]}-${match[2]}-${match[3]}T00:00:00Z` : '';
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * CachedYouTubeAdapter Tests
+ * 
+ * Search and video details caching in front of the YouTube adapter.
+ * 
+ * Requirements: 21.1
+ */
+
+import { CachedYouTubeAdapter } from '../CachedYouTubeAdapter';
+import { IYouTubeAdapter, YouTubeSearchResponse, YouTubeVideoDetails } from '../types';
+
+const searchResponse = (videoId: string): YouTubeSearchResponse => ({
+  kind: 'youtube#searchListResponse',
+  etag: 'etag',
+  pageInfo: { totalResults: 1, resultsPerPage: 1 },
+  items: [{
+    kind: 'youtube#searchResult',
+    etag: 'etag',
+    id: { kind: 'youtube#video', videoId },
+    snippet: {
+      publishedAt: '',
+      channelId: 'channel',
+      title: `Song ${videoId}`,
+      description: '',
+      thumbnails: { default: { url: '', width: 120, height: 90 } },
+      channelTitle: 'Channel'
+    }
+  }]
+} as YouTubeSearchResponse);
+
+const videoDetails = (id: string): YouTubeVideoDetails => ({
+  id,
+  snippet: { title: `Song ${id}`, channelTitle: 'Channel' },
+  contentDetails: { duration: 'PT3M' }
+} as YouTubeVideoDetails);
+
+describe('CachedYouTubeAdapter', () => {
+  let now: number;
+  let adapter: jest.Mocked<IYouTubeAdapter>;
+  let cached: CachedYouTubeAdapter;
+
+  beforeEach(() => {
+    now = 0;
+    adapter = {
+      searchVideos: jest.fn(async (query: string) => searchResponse(query)),
+      getVideoDetails: jest.fn(async (videoIds: string[]) => videoIds.filter(id => id !== 'missingVid1').map(videoDetails)),
+      getRelatedVideos: jest.fn(async (videoId: string) => searchResponse(`${videoId}-related`)),
+      getPlaylistVideos: jest.fn(async (playlistId: string) => ({ totalResults: 1, items: searchResponse(playlistId).items })),
+      isConfigured: jest.fn().mockReturnValue(true)
+    };
+    cached = new CachedYouTubeAdapter(adapter, { searchTtlMs: 1000, maxSearches: 2, now: () => now });
+  });
+
+  it('reuses search pages for the same query, ignoring case and padding', async () => {
+    await cached.searchVideos('daft punk', undefined, 20);
+    const again = await cached.searchVideos('  Daft Punk ', undefined, 20);
+    await cached.searchVideos('daft punk', 'page2', 20);
+
+    expect(again.items[0].id.videoId).toBe('daft punk');
+    expect(adapter.searchVideos).toHaveBeenCalledTimes(2);
+    expect(cached.getCacheStats().searches).toMatchObject({ hits: 1, misses: 2 });
+  });
+
+  it('expires searches after the TTL and evicts the least recently used', async () => {
+    await cached.searchVideos('first');
+    await cached.searchVideos('second');
+    await cached.searchVideos('first');
+    await cached.searchVideos('third'); // evicts "second"
+
+    await cached.searchVideos('first');
+    await cached.searchVideos('second');
+    expect(adapter.searchVideos).toHaveBeenCalledTimes(4);
+
+    now = 1000;
+    await cached.searchVideos('first');
+    expect(adapter.searchVideos).toHaveBeenCalledTimes(5);
+  });
+
+  it('only fetches video details that are not cached, in the requested order', async () => {
+    await cached.getVideoDetails(['videoAAAAAA', 'videoBBBBBB']);
+
+    const details = await cached.getVideoDetails(['videoCCCCCC', 'missingVid1', 'videoAAAAAA']);
+
+    expect(adapter.getVideoDetails).toHaveBeenLastCalledWith(['videoCCCCCC', 'missingVid1']);
+    expect(details.map(detail => detail.id)).toEqual(['videoCCCCCC', 'videoAAAAAA']);
+  });
+
+  it('caches related videos per seed', async () => {
+    await cached.getRelatedVideos('seedVideo01', 10);
+    await cached.getRelatedVideos('seedVideo01', 10);
+
+    expect(adapter.getRelatedVideos).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not cache failed searches', async () => {
+    adapter.searchVideos.mockRejectedValueOnce(new Error('YouTube API quota exceeded'));
+
+    await expect(cached.searchVideos('song')).rejects.toThrow('quota');
+    await cached.searchVideos('song');
+
+    expect(adapter.searchVideos).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * FailoverYouTubeAdapter Tests
+ *
+ * Circuit breaker between the YouTube Data API and the yt-dlp fallback.
+ *
+ * Requirements: 22.3, 22.4
+ */
+
+import { FailoverYouTubeAdapter } from '../FailoverYouTubeAdapter';
+import { YouTubeAPIError, YouTubeQuotaExceededError } from '../YouTubeAdapter';
+import { IYouTubeAdapter, YouTubeSearchResponse } from '../types';
+
+const searchResponse = (videoId: string): YouTubeSearchResponse => ({
+  kind: 'youtube#searchListResponse',
+  etag: 'etag',
+  pageInfo: { totalResults: 1, resultsPerPage: 1 },
+  items: [{ id: { kind: 'youtube#video', videoId } }]
+} as YouTubeSearchResponse);
+
+const createAdapter = (name: string): jest.Mocked<IYouTubeAdapter> => ({
+  searchVideos: jest.fn(async (_query: string) => searchResponse(name)),
+  getVideoDetails: jest.fn(async (_videoIds: string[]) => []),
+  getRelatedVideos: jest.fn(async (_videoId: string) => searchResponse(name)),
+  getPlaylistVideos: jest.fn(async (_playlistId: string) => ({ totalResults: 1, items: searchResponse(name).items })),
+  isConfigured: jest.fn().mockReturnValue(true)
+});
+
+describe('FailoverYouTubeAdapter', () => {
+  let now: number;
+  let api: jest.Mocked<IYouTubeAdapter>;
+  let ytDlp: jest.Mocked<IYouTubeAdapter>;
+  let adapter: FailoverYouTubeAdapter;
+
+  const search = async () => (await adapter.searchVideos('daft punk')).items[0].id.videoId;
+
+  beforeEach(() => {
+    now = 0;
+    api = createAdapter('api');
+    ytDlp = createAdapter('yt-dlp');
+    adapter = new FailoverYouTubeAdapter(api, ytDlp, { failureThreshold: 2, cooldownMs: 1000, now: () => now });
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('uses the API while it works', async () => {
+    expect(await search()).toBe('api');
+    expect(ytDlp.searchVideos).not.toHaveBeenCalled();
+    expect(adapter.getFailoverStatus()).toMatchObject({ active: 'api', circuit: 'closed' });
+  });
+
+  it('answers failed calls from the fallback and fails over after repeated errors', async () => {
+    api.searchVideos.mockRejectedValue(new YouTubeAPIError('YouTube API is temporarily unavailable', 'SERVICE_UNAVAILABLE', 503));
+
+    expect(await search()).toBe('yt-dlp');
+    expect(adapter.getFailoverStatus().circuit).toBe('closed');
+    expect(await search()).toBe('yt-dlp');
+    expect(adapter.getFailoverStatus()).toMatchObject({ active: 'yt-dlp', circuit: 'open', retryAt: new Date(1000) });
+
+    expect(await search()).toBe('yt-dlp');
+    expect(api.searchVideos).toHaveBeenCalledTimes(2);
+  });
+
+  it('fails over straight away when the quota runs out', async () => {
+    api.searchVideos.mockRejectedValueOnce(new YouTubeQuotaExceededError());
+
+    expect(await search()).toBe('yt-dlp');
+    expect(adapter.getFailoverStatus().circuit).toBe('open');
+  });
+
+  it('does not count errors caused by the request', async () => {
+    api.searchVideos.mockRejectedValue(new YouTubeAPIError('Search query is required', 'INVALID_QUERY', 400));
+
+    await expect(search()).rejects.toMatchObject({ code: 'INVALID_QUERY' });
+    await expect(search()).rejects.toMatchObject({ code: 'INVALID_QUERY' });
+    expect(ytDlp.searchVideos).not.toHaveBeenCalled();
+    expect(adapter.getFailoverStatus().consecutiveFailures).toBe(0);
+  });
+
+  it('tries the API again after the cooldown and switches back when it works', async () => {
+    api.searchVideos.mockRejectedValueOnce(new YouTubeQuotaExceededError());
+    await search();
+
+    now = 1000;
+    expect(adapter.getFailoverStatus().circuit).toBe('half-open');
+    expect(await search()).toBe('api');
+    expect(adapter.getFailoverStatus()).toMatchObject({ active: 'api', circuit: 'closed', retryAt: null });
+  });
+
+  it('keeps later pages of a fallback search on the fallback', async () => {
+    await adapter.searchVideos('daft punk', 'ytdlp:20');
+
+    expect(ytDlp.searchVideos).toHaveBeenCalledWith('daft punk', 'ytdlp:20', undefined);
+    expect(api.searchVideos).not.toHaveBeenCalled();
+  });
+
+  it('lists mixes through the fallback only', async () => {
+    await adapter.getPlaylistVideos('RDdQw4w9WgXcQ', 25);
+    await adapter.getPlaylistVideos('PLtestPlaylist', 25);
+
+    expect(ytDlp.getPlaylistVideos).toHaveBeenCalledWith('RDdQw4w9WgXcQ', 25);
+    expect(api.getPlaylistVideos).toHaveBeenCalledTimes(1);
+    expect(api.getPlaylistVideos).toHaveBeenCalledWith('PLtestPlaylist', 25);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * QuotaLedger Tests
+ * 
+ * Daily quota accounting, the search reserve and the Pacific midnight reset.
+ * 
+ * Requirements: 21.2, 21.3, 21.4
+ */
+
+import { QuotaLedger, YOUTUBE_QUOTA_COSTS } from '../QuotaLedger';
+
+describe('QuotaLedger', () => {
+  let now: Date;
+  const createLedger = (dailyLimit: number, searchReserve: number) =>
+    new QuotaLedger({ dailyLimit, searchReserve, now: () => now });
+
+  beforeEach(() => {
+    // 10:00 Pacific daylight time
+    now = new Date('2026-07-01T17:00:00Z');
+  });
+
+  it('counts units and reports the next Pacific midnight', () => {
+    const ledger = createLedger(1000, 0);
+
+    ledger.record(YOUTUBE_QUOTA_COSTS.search);
+    ledger.record(YOUTUBE_QUOTA_COSTS.videos);
+
+    expect(ledger.getStatus()).toEqual({
+      used: 101,
+      limit: 1000,
+      remaining: 899,
+      resetsAt: new Date('2026-07-02T07:00:00Z'),
+      searchAvailable: true,
+      exhausted: false
+    });
+  });
+
+  it('stops searches while keeping the reserve for video lookups', () => {
+    const ledger = createLedger(1000, 200);
+    ledger.record(750);
+
+    expect(ledger.canSearch()).toBe(false);
+    expect(ledger.canAfford(YOUTUBE_QUOTA_COSTS.videos)).toBe(true);
+    expect(ledger.getStatus().searchAvailable).toBe(false);
+  });
+
+  it('refuses everything once the API reports the quota exceeded', () => {
+    const ledger = createLedger(1000, 0);
+
+    ledger.markExhausted();
+
+    expect(ledger.canAfford(YOUTUBE_QUOTA_COSTS.videos)).toBe(false);
+    expect(ledger.getStatus()).toMatchObject({ remaining: 0, exhausted: true });
+  });
+
+  it('resets at midnight Pacific time rather than UTC', () => {
+    const ledger = createLedger(1000, 0);
+    ledger.record(1000);
+    ledger.markExhausted();
+
+    now = new Date('2026-07-02T06:59:59Z');
+    expect(ledger.getStatus().used).toBe(1000);
+
+    now = new Date('2026-07-02T07:00:00Z');
+    expect(ledger.getStatus()).toMatchObject({ used: 0, exhausted: false, searchAvailable: true });
+  });
+
+  it('finds midnight on days that are not 24 hours long', () => {
+    // Clocks go back on 2026-11-01, so that day has 25 hours
+    now = new Date('2026-11-01T08:00:00Z');
+
+    expect(createLedger(1000, 0).getStatus().resetsAt).toEqual(new Date('2026-11-02T08:00:00Z'));
+  });
+});
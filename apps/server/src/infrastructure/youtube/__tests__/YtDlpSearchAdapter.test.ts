@@ -0,0 +1,154 @@
+/**
+ * YtDlpSearchAdapter Tests
+ *
+ * Keyless YouTube search through yt-dlp metadata extraction.
+ *
+ * Requirements: 22.1, 22.2, 23.1, 26.1
+ */
+
+import { YtDlpSearchAdapter } from '../YtDlpSearchAdapter';
+import { YouTubeAPIError } from '../YouTubeAdapter';
+import { IProcessManager } from '../../../domain/playback/interfaces';
+import { YtDlpMetadata } from '../../../domain/playback/types';
+
+const entry = (id: string, duration: number | null = 213): YtDlpMetadata => ({
+  id,
+  title: `Song ${id}`,
+  duration,
+  channel: 'Artist Channel'
+});
+
+describe('YtDlpSearchAdapter', () => {
+  let processManager: jest.Mocked<IProcessManager>;
+  let adapter: YtDlpSearchAdapter;
+
+  beforeEach(() => {
+    processManager = {
+      startMpv: jest.fn(),
+      stopMpv: jest.fn(),
+      restartMpv: jest.fn(),
+      runYtDlp: jest.fn(),
+      runYtDlpJson: jest.fn(),
+      isProcessHealthy: jest.fn(),
+      cleanup: jest.fn(),
+      validateDependencies: jest.fn()
+    };
+    adapter = new YtDlpSearchAdapter(processManager, { maxResults: 6 });
+  });
+
+  it('searches with a flat ytsearch query and maps entries to search items', async () => {
+    processManager.runYtDlpJson.mockResolvedValue({ success: true, value: [entry('videoId0001'), entry('videoId0002')] });
+
+    const response = await adapter.searchVideos('  daft punk ', undefined, 2);
+
+    expect(processManager.runYtDlpJson).toHaveBeenCalledWith(['ytsearch2:daft punk'], expect.objectContaining({ flat: true }));
+    expect(response.items.map(item => item.id.videoId)).toEqual(['videoId0001', 'videoId0002']);
+    expect(response.items[0].snippet).toMatchObject({
+      title: 'Song videoId0001',
+      channelTitle: 'Artist Channel',
+      thumbnails: { medium: { url: 'https://i.ytimg.com/vi/videoId0001/mqdefault.jpg' } }
+    });
+    expect(response.nextPageToken).toBe('ytdlp:2');
+    expect(response.prevPageToken).toBeUndefined();
+  });
+
+  it('pages by searching further and skipping results already shown', async () => {
+    processManager.runYtDlpJson.mockResolvedValue({
+      success: true,
+      value: ['videoId0001', 'videoId0002', 'videoId0003', 'videoId0004'].map(id => entry(id))
+    });
+
+    const response = await adapter.searchVideos('daft punk', 'ytdlp:2', 2);
+
+    expect(processManager.runYtDlpJson).toHaveBeenCalledWith(['ytsearch4:daft punk'], expect.anything());
+    expect(response.items.map(item => item.id.videoId)).toEqual(['videoId0003', 'videoId0004']);
+    expect(response.prevPageToken).toBe('ytdlp:0');
+    expect(response.nextPageToken).toBe('ytdlp:4');
+  });
+
+  it('rejects page tokens it did not issue', async () => {
+    await expect(adapter.searchVideos('daft punk', 'CAUQAA')).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    expect(processManager.runYtDlpJson).not.toHaveBeenCalled();
+  });
+
+  it('serves details of searched videos without running yt-dlp again', async () => {
+    processManager.runYtDlpJson
+      .mockResolvedValueOnce({ success: true, value: [entry('videoId0001', 3723), entry('liveStream1', null)] })
+      .mockResolvedValueOnce({ success: true, value: [entry('liveStream1', 95)] });
+
+    await adapter.searchVideos('daft punk', undefined, 2);
+    const details = await adapter.getVideoDetails(['videoId0001', 'liveStream1']);
+
+    expect(processManager.runYtDlpJson).toHaveBeenLastCalledWith(
+      ['https://www.youtube.com/watch?v=liveStream1'],
+      expect.objectContaining({ flat: false })
+    );
+    expect(details.map(detail => [detail.id, detail.contentDetails.duration])).toEqual([
+      ['videoId0001', 'PT1H2M3S'],
+      ['liveStream1', 'PT1M35S']
+    ]);
+  });
+
+  it('reports the channel, category, live status and age limit of looked up videos', async () => {
+    processManager.runYtDlpJson.mockResolvedValueOnce({
+      success: true,
+      value: [
+        { ...entry('videoId0001'), channel_id: 'UCartist', categories: ['Music'], live_status: 'was_live', age_limit: 18 },
+        { ...entry('videoId0002'), categories: ['Gaming'], live_status: 'is_upcoming', age_limit: 0 }
+      ]
+    });
+
+    const [music, gaming] = await adapter.getVideoDetails(['videoId0001', 'videoId0002']);
+
+    expect(music.snippet).toMatchObject({ channelId: 'UCartist', categoryId: '10', liveBroadcastContent: 'none' });
+    expect(music.contentDetails.contentRating).toEqual({ ytRating: 'ytAgeRestricted' });
+    expect(gaming.snippet).toMatchObject({ categoryId: 'other', liveBroadcastContent: 'upcoming' });
+    expect(gaming.contentDetails.contentRating).toEqual({});
+  });
+
+  it('finds related videos through the seed video mix', async () => {
+    processManager.runYtDlpJson.mockResolvedValue({ success: true, value: [entry('seedVideo01'), entry('videoId0002')] });
+
+    const response = await adapter.getRelatedVideos('seedVideo01', 5);
+
+    expect(processManager.runYtDlpJson).toHaveBeenCalledWith(
+      ['https://www.youtube.com/watch?v=seedVideo01&list=RDseedVideo01'],
+      expect.objectContaining({ flat: true })
+    );
+    expect(response.items.map(item => item.id.videoId)).toEqual(['videoId0002']);
+  });
+
+  it('lists playlists and mixes with a capped flat extraction', async () => {
+    processManager.runYtDlpJson.mockResolvedValue({ success: true, value: [entry('videoId0001'), entry('videoId0002')] });
+
+    const playlist = await adapter.getPlaylistVideos('PLtestPlaylist', 2);
+    await adapter.getPlaylistVideos('RDseedVideo01', 25);
+
+    expect(processManager.runYtDlpJson).toHaveBeenNthCalledWith(
+      1,
+      ['https://www.youtube.com/playlist?list=PLtestPlaylist'],
+      expect.objectContaining({ flat: true, maxEntries: 2 })
+    );
+    expect(processManager.runYtDlpJson).toHaveBeenNthCalledWith(
+      2,
+      ['https://www.youtube.com/watch?v=seedVideo01&list=RDseedVideo01'],
+      expect.objectContaining({ flat: true, maxEntries: 25 })
+    );
+    expect(playlist.items.map(item => item.id.videoId)).toEqual(['videoId0001', 'videoId0002']);
+  });
+
+  it('reports playlists yt-dlp cannot open as not found', async () => {
+    processManager.runYtDlpJson.mockResolvedValue({ success: false, error: 'PROCESS_CRASHED' });
+
+    await expect(adapter.getPlaylistVideos('PLmissing')).rejects.toMatchObject({ code: 'PLAYLIST_NOT_FOUND', statusCode: 404 });
+  });
+
+  it('reports yt-dlp failures as the search being unavailable', async () => {
+    processManager.runYtDlpJson.mockResolvedValue({ success: false, error: 'DEPENDENCY_MISSING' });
+
+    const error = await adapter.searchVideos('daft punk').catch(e => e);
+
+    expect(error).toBeInstanceOf(YouTubeAPIError);
+    expect(error.message).toContain('unavailable');
+  });
+});
@@ -3,10 +3,18 @@
  * 
  * Exports YouTube Data API v3 adapter and related types for music search functionality.
  * 
- * Requirements: 1.1, 6.1, 6.2, 6.3
+ * Requirements: 1.1, 6.1, 6.2, 6.3, 21.1, 21.2, 22.1, 22.3
  */
 
 export { YouTubeAdapter } from './YouTubeAdapter';
+export { CachedYouTubeAdapter } from './CachedYouTubeAdapter';
+export type { YouTubeCacheConfig } from './CachedYouTubeAdapter';
+export { QuotaLedger, YOUTUBE_QUOTA_COSTS } from './QuotaLedger';
+export { YtDlpSearchAdapter } from './YtDlpSearchAdapter';
+export type { YtDlpSearchConfig } from './YtDlpSearchAdapter';
+export { FailoverYouTubeAdapter } from './FailoverYouTubeAdapter';
+export type { YouTubeFailoverConfig } from './FailoverYouTubeAdapter';
+export { YouTubeSourceProvider } from './YouTubeSourceProvider';
 export { 
   loadYouTubeConfig, 
   createYouTubeConfig, 
@@ -20,5 +28,9 @@ export type {
   YouTubeVideoDetails,
   YouTubeVideoDetailsResponse,
   YouTubeError,
-  YouTubeConfig
+  YouTubeConfig,
+  YouTubeQuotaStatus,
+  YouTubeCacheStats,
+  YouTubeFailoverStatus,
+  IYouTubeUsageReporter
 } from './types';
\ No newline at end of file
@@ -3,9 +3,11 @@
  * 
  * Type definitions for YouTube API responses and adapter interfaces.
  * 
- * Requirements: 1.1, 1.2, 3.2, 6.1
+ * Requirements: 1.1, 1.2, 3.2, 6.1, 21.3, 22.4, 23.1
  */
 
+import { CacheStats } from '../playback/ResolutionCache';
+
 /**
  * YouTube Data API v3 Search Response
  * Requirements: 1.1, 3.2
@@ -59,7 +61,7 @@ export interface YouTubeVideoDetailsResponse {
 
 /**
  * Individual video details
- * Requirements: 1.2
+ * Requirements: 1.2, 26.1
  */
 export interface YouTubeVideoDetails {
   kind: 'youtube#video';
@@ -67,10 +69,64 @@ export interface YouTubeVideoDetails {
   snippet: {
     title: string;
     channelTitle: string;
+    channelId?: string;
+    categoryId?: string; // "10" is Music
+    liveBroadcastContent?: 'none' | 'live' | 'upcoming';
+    publishedAt?: string;
+    thumbnails?: {
+      default?: { url: string; width: number; height: number; };
+      medium?: { url: string; width: number; height: number; };
+    };
   };
   contentDetails: {
     duration: string; // ISO 8601 format (e.g., "PT4M13S")
+    contentRating?: {
+      ytRating?: 'ytAgeRestricted';
+    };
+  };
+}
+
+/**
+ * YouTube's category ID for music
+ * Requirements: 26.1
+ */
+export const YOUTUBE_MUSIC_CATEGORY_ID = '10';
+
+/**
+ * YouTube Data API v3 PlaylistItems Response
+ * Requirements: 23.1
+ */
+export interface YouTubePlaylistItemsResponse {
+  kind: 'youtube#playlistItemListResponse';
+  etag: string;
+  nextPageToken?: string;
+  pageInfo: {
+    totalResults: number;
+    resultsPerPage: number;
   };
+  items: Array<{
+    kind: 'youtube#playlistItem';
+    id: string;
+    snippet: {
+      publishedAt: string;
+      title: string;
+      description: string;
+      thumbnails?: YouTubeSearchItem['snippet']['thumbnails'];
+      channelTitle: string;
+      videoOwnerChannelTitle?: string; // Missing for deleted and private videos
+      videoOwnerChannelId?: string;
+      resourceId: { kind: string; videoId: string };
+    };
+  }>;
+}
+
+/**
+ * The videos of a playlist, in playlist order, shaped like search results
+ * Requirements: 23.1
+ */
+export interface YouTubePlaylistVideos {
+  totalResults: number; // Videos in the playlist, including any beyond the limit
+  items: YouTubeSearchItem[];
 }
 
 /**
@@ -98,6 +154,52 @@ export interface YouTubeConfig {
   baseUrl?: string;
   timeout?: number;
   maxResults?: number;
+  dailyQuota?: number;         // Quota units per day. Default: 10,000
+  quotaSearchReserve?: number; // Units kept back from search for video lookups. Default: 500
+}
+
+/**
+ * Today's YouTube Data API quota usage
+ * Requirements: 21.2, 21.3
+ */
+export interface YouTubeQuotaStatus {
+  readonly used: number;
+  readonly limit: number;
+  readonly remaining: number;
+  readonly resetsAt: Date; // Next midnight Pacific time
+  readonly searchAvailable: boolean; // False once only the lookup reserve is left
+  readonly exhausted: boolean;
+}
+
+/**
+ * Hit rates of the search and video details caches
+ * Requirements: 21.1, 21.3
+ */
+export interface YouTubeCacheStats {
+  readonly searches: CacheStats;
+  readonly videos: CacheStats;
+}
+
+/**
+ * Whether searches go to the Data API or the yt-dlp fallback
+ * Requirements: 22.4
+ */
+export interface YouTubeFailoverStatus {
+  readonly active: 'api' | 'yt-dlp';
+  readonly circuit: 'closed' | 'open' | 'half-open'; // Half-open: the next call tries the API again
+  readonly consecutiveFailures: number;
+  readonly retryAt: Date | null; // When the API is tried again, while failed over
+}
+
+/**
+ * Reports YouTube API usage for monitoring
+ * Quota and failover are null when searching with yt-dlp only (no API key)
+ * Requirements: 21.3, 22.4
+ */
+export interface IYouTubeUsageReporter {
+  getQuotaStatus(): YouTubeQuotaStatus | null;
+  getCacheStats(): YouTubeCacheStats;
+  getFailoverStatus(): YouTubeFailoverStatus | null;
 }
 
 /**
@@ -117,6 +219,30 @@ export interface IYouTubeAdapter {
    */
   getVideoDetails(videoIds: string[]): Promise<YouTubeVideoDetails[]>;
 
+  /**
+   * Find music videos related to a seed video, excluding the seed itself
+   * Requirements: 14.2
+   */
+  getRelatedVideos(videoId: string, maxResults?: number): Promise<YouTubeSearchResponse>;
+
+  /**
+   * List the videos of a playlist or mix, in playlist order
+   * Requirements: 23.1
+   */
+  getPlaylistVideos(playlistId: string, maxResults?: number): Promise<YouTubePlaylistVideos>;
+
+  /**
+   * Today's quota usage, for adapters that track it
+   * Requirements: 21.3
+   */
+  getQuotaStatus?(): YouTubeQuotaStatus | null;
+
+  /**
+   * Which adapter is serving calls, for adapters that fail over
+   * Requirements: 22.4
+   */
+  getFailoverStatus?(): YouTubeFailoverStatus | null;
+
   /**
    * Check if the adapter is properly configured
    * Requirements: 6.1, 6.2
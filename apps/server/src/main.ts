@@ -10,24 +10,54 @@
 import 'dotenv/config';
 
 import { QueueManager } from './application/QueueManager';
-import { RateLimiter } from './application/RateLimiter';
+import { RateLimiter, validateRateLimitSettings } from './application/RateLimiter';
 import { QueueService } from './application/QueueService';
 import { SearchService } from './application/SearchService';
 import { PlaybackOrchestrator } from './application/PlaybackOrchestrator';
+import { SessionPersistenceService } from './application/SessionPersistenceService';
+import { HostAuthService } from './application/HostAuthService';
+import { GuestSessionService } from './application/GuestSessionService';
+import { SkipVoteService } from './application/SkipVoteService';
+import { AutoplayService } from './application/AutoplayService';
+import { VolumeService } from './application/VolumeService';
+import { PrefetchService } from './application/PrefetchService';
+import { PlaylistImportService } from './application/PlaylistImportService';
+import { LocalLibraryService } from './application/LocalLibraryService';
+import { HistoryService } from './application/HistoryService';
+import { ContentPolicyService } from './application/ContentPolicyService';
 import { 
   StreamResolver, 
   PlaybackController, 
   ProcessManager,
   IPCClient
 } from './infrastructure/playback';
-import { YouTubeAdapter } from './infrastructure/youtube/YouTubeAdapter';
+import {
+  YouTubeAdapter,
+  CachedYouTubeAdapter,
+  FailoverYouTubeAdapter,
+  YtDlpSearchAdapter,
+  YouTubeSourceProvider
+} from './infrastructure/youtube';
+import { FfprobeTagReader, LocalSourceProvider } from './infrastructure/library';
+import { TrackSourceRegistry, SoundCloudSourceProvider, HttpSourceProvider } from './infrastructure/sources';
+import { JsonFileStateStore, JsonLinesHistoryStore } from './infrastructure/persistence';
 import { DependencyValidator } from './infrastructure/validation/dependency-validator';
 import { HTTPServer, HTTPServerConfig, HTTPServerDependencies } from './infrastructure/web';
+import { RateLimitSettingsUpdate } from './domain/ratelimit/types';
+import { readFileSync } from 'fs';
 
 // Global service instances
 let queueService: QueueService | null = null;
 let searchService: SearchService | null = null;
 let playbackOrchestrator: PlaybackOrchestrator | null = null;
+let sessionPersistence: SessionPersistenceService | null = null;
+let skipVoteService: SkipVoteService | null = null;
+let autoplayService: AutoplayService | null = null;
+let volumeService: VolumeService | null = null;
+let prefetchService: PrefetchService | null = null;
+let localLibraryService: LocalLibraryService | null = null;
+let historyService: HistoryService | null = null;
+let youtubeAdapter: CachedYouTubeAdapter | null = null;
 let processManager: ProcessManager | null = null;
 let httpServer: HTTPServer | null = null;
 
@@ -54,44 +84,119 @@ async function initializeServer(): Promise<void> {
       throw new Error(`Playback dependencies validation failed: ${depValidation.error}`);
     }
     
+    // Tracks resolve through the provider of their source; providers are registered below
+    // Requirements: 20.1
+    const trackSources = new TrackSourceRegistry();
+    
     // Create stream resolver with process manager
-    const streamResolver = new StreamResolver(processManager);
+    const streamResolver = new StreamResolver(processManager, {}, trackSources);
     
     // Create IPC client for MPV communication
     const ipcClient = new IPCClient();
     
     // Create playback controller with IPC client and process manager
-    const playbackController = new PlaybackController(ipcClient, processManager);
+    // Tracks join gaplessly unless PLAYBACK_TRANSITION=crossfade
+    // Requirements: 17.3
+    const playbackController = new PlaybackController(ipcClient, processManager, {
+      mode: process.env.PLAYBACK_TRANSITION === 'crossfade' ? 'crossfade' : 'gapless',
+      crossfadeSeconds: process.env.CROSSFADE_SECONDS ? Number(process.env.CROSSFADE_SECONDS) : undefined,
+    });
     
     // Initialize application components
     console.log('Initializing application services...');
     
     // Create queue management components
     const queueManager = new QueueManager();
-    const rateLimiter = new RateLimiter();
+    const parseList = (value: string | undefined) => (value ? value.split(',') : []);
     
-    // Create queue service
-    queueService = new QueueService(queueManager, rateLimiter);
+    // Request limits per role, from RATE_LIMIT_CONFIG_FILE and then the environment
+    // Requirements: 27.1, 27.2
+    const rateLimiter = new RateLimiter(loadRateLimitSettings(parseList));
     
-    // Initialize YouTube search service (required)
-    console.log('Initializing YouTube search service...');
-    const youtubeApiKey = process.env.YOUTUBE_API_KEY;
+    // Each device gets a signed session token bound to a stable user ID
+    // Requirements: 28.1
+    const guestSessionService = new GuestSessionService({ secret: process.env.GUEST_SESSION_SECRET });
     
-    if (!youtubeApiKey || !youtubeApiKey.trim()) {
-      throw new Error(
-        'YOUTUBE_API_KEY environment variable is required but not set. ' +
-        'Please set YOUTUBE_API_KEY to a valid YouTube Data API v3 key to start the server.'
-      );
+    // Restore queue, rate limiting and guest state from the previous session
+    // Requirements: 8.2, 8.4, 28.3
+    const stateStore = new JsonFileStateStore({
+      filePath: process.env.SESSION_STATE_FILE || 'data/session-state.json'
+    });
+    sessionPersistence = new SessionPersistenceService(stateStore, queueManager, rateLimiter, { guestSessionService });
+    
+    const restoreResult = await sessionPersistence.restore();
+    if (!restoreResult.success) {
+      // A bad snapshot should never block the party - start with an empty session
+      console.warn(`⚠️  Could not restore previous session (${restoreResult.error}), starting fresh`);
     }
+    const restoredPlayback = restoreResult.success ? restoreResult.value : null;
+    
+    // Host rules for what may be requested; the host can change them at runtime
+    // Requirements: 26.1, 26.2
+    const contentPolicyService = new ContentPolicyService(trackSources, {
+      ...(process.env.CONTENT_MAX_DURATION_MINUTES && { maxDurationSeconds: Number(process.env.CONTENT_MAX_DURATION_MINUTES) * 60 }),
+      ...(process.env.CONTENT_MIN_DURATION_SECONDS && { minDurationSeconds: Number(process.env.CONTENT_MIN_DURATION_SECONDS) }),
+      blockLiveStreams: process.env.CONTENT_BLOCK_LIVE !== 'false',
+      blockedKeywords: parseList(process.env.CONTENT_BLOCKED_KEYWORDS),
+      blockedChannels: parseList(process.env.CONTENT_BLOCKED_CHANNELS),
+      blockedVideoIds: parseList(process.env.CONTENT_BLOCKED_VIDEOS),
+      blockAgeRestricted: process.env.CONTENT_BLOCK_AGE_RESTRICTED === 'true',
+      musicOnly: process.env.CONTENT_MUSIC_ONLY === 'true'
+    });
+    
+    // Create queue service, turning away songs that are queued or played recently
+    // Requirements: 25.1, 25.2, 25.3, 26.1
+    queueService = new QueueService(queueManager, rateLimiter, {
+      contentPolicy: contentPolicyService,
+      rejectDuplicates: process.env.DUPLICATE_REQUESTS !== 'allow',
+      duplicateCooldownMs: process.env.DUPLICATE_COOLDOWN_MINUTES ? Number(process.env.DUPLICATE_COOLDOWN_MINUTES) * 60 * 1000 : undefined,
+      fuzzyDuplicateMatching: process.env.DUPLICATE_FUZZY_MATCH !== 'false'
+    });
+    
+    // Index the host's own music so it can be searched and played offline
+    // Requirements: 19.1
+    const localMusicDir = process.env.LOCAL_MUSIC_DIR?.trim();
+    if (localMusicDir) {
+      localLibraryService = new LocalLibraryService({
+        rootDir: localMusicDir,
+        rescanIntervalMs: process.env.LOCAL_MUSIC_RESCAN_MINUTES ? Number(process.env.LOCAL_MUSIC_RESCAN_MINUTES) * 60 * 1000 : undefined,
+      }, new FfprobeTagReader());
+      localLibraryService.start();
+      trackSources.register(new LocalSourceProvider(localLibraryService));
+    }
+    
+    // Initialize YouTube search service
+    // Without an API key, searches run through yt-dlp instead
+    // Requirements: 22.1, 22.3
+    console.log('Initializing YouTube search service...');
+    const youtubeApiKey = process.env.YOUTUBE_API_KEY?.trim();
+    const ytDlpSearch = new YtDlpSearchAdapter(processManager);
     
     try {
-      const youtubeAdapter = new YouTubeAdapter({
-        apiKey: youtubeApiKey,
-        timeout: 5000, // 5 seconds as per requirements
-        maxResults: 50 // YouTube API limit
+      // Repeated searches and lookups are served from cache, and searches stop
+      // before the daily quota runs out
+      // Requirements: 21.1, 21.4
+      const searchAdapter = youtubeApiKey
+        ? new FailoverYouTubeAdapter(new YouTubeAdapter({
+            apiKey: youtubeApiKey,
+            timeout: 5000, // 5 seconds as per requirements
+            maxResults: 50, // YouTube API limit
+            dailyQuota: process.env.YOUTUBE_DAILY_QUOTA ? Number(process.env.YOUTUBE_DAILY_QUOTA) : undefined,
+            quotaSearchReserve: process.env.YOUTUBE_QUOTA_RESERVE ? Number(process.env.YOUTUBE_QUOTA_RESERVE) : undefined,
+          }), ytDlpSearch, {
+            cooldownMs: process.env.YOUTUBE_FAILOVER_MINUTES ? Number(process.env.YOUTUBE_FAILOVER_MINUTES) * 60 * 1000 : undefined,
+          })
+        : ytDlpSearch;
+      youtubeAdapter = new CachedYouTubeAdapter(searchAdapter, {
+        searchTtlMs: process.env.SEARCH_CACHE_MINUTES ? Number(process.env.SEARCH_CACHE_MINUTES) * 60 * 1000 : undefined,
       });
       
-      searchService = new SearchService(youtubeAdapter);
+      if (!youtubeApiKey) {
+        console.warn('⚠️  YOUTUBE_API_KEY is not set, searching YouTube with yt-dlp (slower)');
+      }
+      
+      trackSources.register(new YouTubeSourceProvider(youtubeAdapter, streamResolver));
+      searchService = new SearchService(trackSources);
       console.log('✅ YouTube search service initialized');
     } catch (error) {
       throw new Error(
@@ -100,6 +205,27 @@ async function initializeServer(): Promise<void> {
       );
     }
     
+    // Sources that can be requested by ID but aren't searched
+    // Requirements: 20.1
+    trackSources.register(new SoundCloudSourceProvider(streamResolver));
+    if (process.env.HTTP_SOURCE_ENABLED === 'true') {
+      trackSources.register(new HttpSourceProvider());
+    }
+    
+    // Whole playlists and mixes can be queued at once
+    // Requirements: 23.1
+    const playlistImportService = new PlaylistImportService(queueService, trackSources, {
+      maxTracks: process.env.PLAYLIST_IMPORT_MAX_TRACKS ? Number(process.env.PLAYLIST_IMPORT_MAX_TRACKS) : undefined,
+    });
+    
+    // Resolve upcoming tracks ahead of time so they're ready when their turn comes
+    // Requirements: 18.1, 18.2
+    prefetchService = new PrefetchService(queueService, streamResolver, {
+      lookahead: process.env.PREFETCH_LOOKAHEAD ? Number(process.env.PREFETCH_LOOKAHEAD) : undefined,
+      concurrency: process.env.PREFETCH_CONCURRENCY ? Number(process.env.PREFETCH_CONCURRENCY) : undefined,
+    });
+    prefetchService.start();
+    
     // Create playback orchestrator with all dependencies
     playbackOrchestrator = new PlaybackOrchestrator(
       queueService,
@@ -107,6 +233,27 @@ async function initializeServer(): Promise<void> {
       playbackController
     );
     
+    // Resume the restored track where it left off
+    // Requirements: 8.3
+    if (restoredPlayback?.queueItemId) {
+      playbackOrchestrator.setResumePoint(restoredPlayback.queueItemId, restoredPlayback.position);
+    }
+    
+    // Log every track as its turn ends, kept across restarts; listening
+    // before playback starts catches the restored track starting
+    // Requirements: 24.1
+    const historyStore = new JsonLinesHistoryStore({
+      filePath: process.env.HISTORY_FILE || 'data/history.jsonl'
+    });
+    historyService = new HistoryService(historyStore, trackSources, {
+      maxEntries: process.env.HISTORY_MAX_ENTRIES ? Number(process.env.HISTORY_MAX_ENTRIES) : undefined,
+    });
+    const historyRestore = await historyService.restore();
+    if (!historyRestore.success) {
+      console.warn(`⚠️ Could not load play history (${historyRestore.error}), starting a new log`);
+    }
+    historyService.start(playbackOrchestrator);
+    
     // Start the playback orchestrator
     console.log('Starting playback orchestration...');
     const startResult = await playbackOrchestrator.start();
@@ -114,6 +261,34 @@ async function initializeServer(): Promise<void> {
       throw new Error(`Failed to start playback orchestrator: ${startResult.error}`);
     }
     
+    // Re-apply the room's volume from the previous session
+    // Requirements: 16.4
+    volumeService = new VolumeService(playbackOrchestrator, { settings: restoredPlayback?.volume });
+    volumeService.start();
+    
+    // Begin snapshotting session state
+    // Requirements: 8.1, 16.4
+    sessionPersistence.start(playbackOrchestrator, volumeService);
+    
+    // Host PIN comes from the environment, or is generated and shown on the TV
+    // Requirements: 10.1
+    const hostAuthService = new HostAuthService({ pin: process.env.HOST_PIN });
+    
+    // Guests vote to skip; the share of controllers needed is configurable
+    // Requirements: 11.2
+    const skipVoteThreshold = process.env.SKIP_VOTE_THRESHOLD ? Number(process.env.SKIP_VOTE_THRESHOLD) : undefined;
+    skipVoteService = new SkipVoteService(playbackOrchestrator, { threshold: skipVoteThreshold });
+    skipVoteService.start();
+    
+    // Radio mode keeps music playing when the queue runs dry
+    // Requirements: 14.1, 14.5
+    autoplayService = new AutoplayService(queueService, playbackOrchestrator, searchService, {
+      enabled: process.env.AUTOPLAY_ENABLED === 'true',
+      seedVideoIds: parseList(process.env.AUTOPLAY_SEEDS),
+      fallbackVideoIds: parseList(process.env.AUTOPLAY_PLAYLIST),
+    });
+    autoplayService.start();
+    
     // Initialize and start HTTP server
     console.log('Initializing HTTP server...');
     const httpConfig: HTTPServerConfig = {
@@ -126,6 +301,19 @@ async function initializeServer(): Promise<void> {
       queueService,
       playbackOrchestrator,
       searchService, 
+      hostAuthService,
+      guestSessionService,
+      skipVoteService,
+      autoplayService,
+      volumeService,
+      prefetchService,
+      ...(localLibraryService && { localLibraryService }),
+      trackSources,
+      ...(youtubeAdapter && { youtubeUsage: youtubeAdapter }),
+      playlistImportService,
+      historyService,
+      contentPolicyService,
+      rateLimiter,
     };
     
     httpServer = new HTTPServer(httpConfig);
@@ -138,7 +326,26 @@ async function initializeServer(): Promise<void> {
     console.log('✅ Party Jukebox Server ready');
     console.log('   - Queue management: Active');
     console.log('   - Playback orchestration: Active');
-    console.log('   - YouTube search: Active');
+    console.log(`   - Session persistence: ${stateStore.getFilePath()}`);
+    console.log(`   - Play history: ${historyStore.getFilePath()}`);
+    console.log(`   - YouTube search: ${youtubeApiKey ? 'Data API (yt-dlp if it fails)' : 'yt-dlp (set YOUTUBE_API_KEY to use the Data API)'}`);
+    console.log(`   - Local library: ${localLibraryService ? localLibraryService.getStatus().rootDir : 'Off (set LOCAL_MUSIC_DIR)'}`);
+    console.log(`   - Direct stream URLs: ${process.env.HTTP_SOURCE_ENABLED === 'true' ? 'On' : 'Off (set HTTP_SOURCE_ENABLED=true)'}`);
+    const youtubeQuota = youtubeAdapter.getQuotaStatus();
+    if (youtubeQuota) {
+      console.log(`   - YouTube quota: ${youtubeQuota.limit} units a day (resets at midnight Pacific time)`);
+    }
+    const contentPolicy = contentPolicyService.getSettings();
+    console.log(`   - Max track length: ${contentPolicy.maxDurationSeconds ? `${Math.round(contentPolicy.maxDurationSeconds / 60)} minutes` : 'Unlimited'}${contentPolicy.blockLiveStreams ? ', no live streams' : ''}`);
+    const rateLimits = rateLimiter.getSettings();
+    const formatLimit = (requests: number | null) => (requests === null ? 'unlimited' : `${requests}`);
+    console.log(`   - Rate limits: ${formatLimit(rateLimits.roles.guest.maxRequests)} requests per ${rateLimits.windowMinutes} minutes (VIPs ${formatLimit(rateLimits.roles.vip.maxRequests)}, host ${formatLimit(rateLimits.roles.host.maxRequests)})`);
+    console.log(`   - Duplicate requests: ${process.env.DUPLICATE_REQUESTS === 'allow' ? 'Allowed' : `Rejected (cooldown ${process.env.DUPLICATE_COOLDOWN_MINUTES || 30} minutes)`}`);
+    console.log(`   - Vote to skip: more than ${Math.round(skipVoteService.getThreshold() * 100)}% of controllers`);
+    console.log(`   - Track transitions: ${process.env.PLAYBACK_TRANSITION === 'crossfade' ? 'Fade out/in' : 'Gapless'}`);
+    console.log(`   - Volume: ${volumeService.getState().effectiveVolume} (max ${volumeService.getSettings().maxVolume})`);
+    console.log(`   - Autoplay: ${autoplayService.getSettings().enabled ? 'On' : 'Off'}`);
+    console.log(`   - Host PIN: ${hostAuthService.getPin()}${process.env.HOST_PIN ? ' (from HOST_PIN)' : ''}`);
     console.log('   - HTTP server: Active on port 3000');
     console.log('   - WebSocket server: Active at /ws');
     console.log('   - External dependencies: Validated');
@@ -159,6 +366,42 @@ async function initializeServer(): Promise<void> {
   }
 }
 
+/**
+ * Read the rate limit policy from RATE_LIMIT_CONFIG_FILE, then apply the
+ * RATE_LIMIT_* environment variables on top. A limit of "unlimited" turns it off
+ * Requirements: 27.2
+ */
+function loadRateLimitSettings(parseList: (value: string | undefined) => string[]): RateLimitSettingsUpdate {
+  const configFile = process.env.RATE_LIMIT_CONFIG_FILE?.trim();
+  const fromFile: Record<string, any> = configFile ? JSON.parse(readFileSync(configFile, 'utf8')) : {};
+  const parseLimit = (value: string | undefined) =>
+    value === undefined || value === '' ? undefined : value === 'unlimited' ? null : Number(value);
+  
+  const roles: Record<string, Record<string, number | null | undefined>> = { ...fromFile.roles };
+  for (const role of ['guest', 'vip'] as const) {
+    const env = role.toUpperCase();
+    const maxRequests = parseLimit(process.env[`RATE_LIMIT_${env}_REQUESTS`]);
+    const maxMinutes = parseLimit(process.env[`RATE_LIMIT_${env}_MINUTES`]);
+    roles[role] = {
+      ...roles[role],
+      ...(maxRequests !== undefined && { maxRequests }),
+      ...(maxMinutes !== undefined && { maxMinutes }),
+    };
+  }
+  
+  const settings = validateRateLimitSettings({
+    ...fromFile,
+    ...(process.env.RATE_LIMIT_WINDOW_MINUTES && { windowMinutes: Number(process.env.RATE_LIMIT_WINDOW_MINUTES) }),
+    ...(process.env.RATE_LIMIT_VIP_USERS && { vipUserIds: parseList(process.env.RATE_LIMIT_VIP_USERS) }),
+    roles,
+  });
+  
+  if (!settings.success) {
+    throw new Error(`Invalid rate limit settings (${settings.error}), check RATE_LIMIT_CONFIG_FILE and the RATE_LIMIT_* variables`);
+  }
+  return settings.value;
+}
+
 /**
  * Set up graceful shutdown handlers
  * Requirements: 6.5, 7.4
@@ -202,6 +445,49 @@ async function cleanup(): Promise<void> {
       httpServer = null;
     }
     
+    // Stop tracking skip votes
+    if (skipVoteService) {
+      skipVoteService.stop();
+      skipVoteService = null;
+    }
+    
+    // Stop refilling the queue before playback is torn down
+    if (autoplayService) {
+      autoplayService.stop();
+      autoplayService = null;
+    }
+    
+    // Stop resolving upcoming tracks
+    if (prefetchService) {
+      prefetchService.stop();
+      prefetchService = null;
+    }
+    
+    // Stop rescanning the local library
+    if (localLibraryService) {
+      localLibraryService.stop();
+      localLibraryService = null;
+    }
+    
+    // Cancel any pending unduck
+    if (volumeService) {
+      volumeService.stop();
+      volumeService = null;
+    }
+    
+    // Finish writing play history
+    if (historyService) {
+      await historyService.stop();
+      historyService = null;
+    }
+    
+    // Write a final session snapshot before playback state is torn down
+    if (sessionPersistence) {
+      console.log('Saving session state...');
+      await sessionPersistence.stop();
+      sessionPersistence = null;
+    }
+    
     // Stop playback orchestrator
     if (playbackOrchestrator) {
       console.log('Stopping playback orchestrator...');
@@ -10,7 +10,7 @@ import { ConnectionStatusIndicator } from './components/ConnectionStatusIndicato
 import { ErrorBoundary } from './components/ErrorBoundary';
 import { useConnection } from './contexts/ConnectionContext';
 import { APIService } from './services/APIService';
-import { WebSocketService } from './services/WebSocketService';
+import { WebSocketService, HostPinEvent } from './services/WebSocketService';
 import { useWebSocketIntegration } from './services/WebSocketIntegration';
 import './components/components.css';
 
@@ -57,6 +57,16 @@ function TVDisplayApp() {
 
   const { actions: connectionActions } = useConnection();
   
+  // The server trusts this display as host and hands over a token for playback controls
+  useEffect(() => {
+    const handleHostPin = (event: HostPinEvent) => {
+      apiService.setHostToken(event.data.token);
+    };
+
+    wsService.subscribe('host_pin', handleHostPin);
+    return () => wsService.unsubscribe('host_pin', handleHostPin);
+  }, [apiService, wsService]);
+  
   // Initialize services on mount - simple approach
   useEffect(() => {
     let mounted = true;
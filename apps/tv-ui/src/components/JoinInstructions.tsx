@@ -156,6 +156,12 @@ export function JoinInstructions({ qrCodeSize = 200, className = '' }: JoinInstr
             Search for songs and add them to the queue!
           </p>
           
+          {state.server.hostPin && (
+            <p className="host-pin" aria-label={`Host PIN: ${state.server.hostPin}`}>
+              Host PIN: <span className="host-pin-value">{state.server.hostPin}</span>
+            </p>
+          )}
+          
           {!state.isOnline && (
             <div className="connection-warning" role="alert">
               <span className="warning-icon" aria-hidden="true">⚠️</span>
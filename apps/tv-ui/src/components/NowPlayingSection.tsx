@@ -9,7 +9,7 @@ export function NowPlayingSection({ className = '' }: NowPlayingSectionProps) {
   const { state: playbackState } = usePlayback();
   const { state: connectionState } = useConnection();
 
-  const { currentTrack, status, position, duration, error } = playbackState;
+  const { currentTrack, status, position, duration, error, skipVotes } = playbackState;
   const isOffline = !connectionState.isOnline;
 
   // Format time in MM:SS format
@@ -154,6 +154,13 @@ export function NowPlayingSection({ className = '' }: NowPlayingSectionProps) {
           </div>
         )}
 
+        {/* Vote-to-skip tally for this track */}
+        {skipVotes && skipVotes.votes > 0 && skipVotes.queueItemId === currentTrack.id && (
+          <div className="skip-votes" role="status" aria-live="polite">
+            {skipVotes.votes}/{skipVotes.required} votes to skip
+          </div>
+        )}
+
         {/* Added by information */}
         <div className="added-by">
           <span className="sr-only">Track </span>
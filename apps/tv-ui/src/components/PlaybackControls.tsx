@@ -1,8 +1,11 @@
-import { useState } from 'react';
+import { ChangeEvent, useEffect, useRef, useState } from 'react';
 import { usePlayback } from '../contexts/PlaybackContext';
 import { useConnection } from '../contexts/ConnectionContext';
 import { APIService } from '../services/APIService';
 
+// Wait for the slider to settle before sending the level
+const VOLUME_COMMIT_DELAY_MS = 200;
+
 interface PlaybackControlsProps {
   apiService: APIService;
   className?: string;
@@ -13,10 +16,21 @@ export function PlaybackControls({ apiService, className = '' }: PlaybackControl
   const { state: connectionState } = useConnection();
   
   const [isLoading, setIsLoading] = useState<string | null>(null); // Track which button is loading
+  const [draftLevel, setDraftLevel] = useState<number | null>(null); // Slider position not yet sent
+  const volumeTimerRef = useRef<number | null>(null);
 
-  const { status, currentTrack } = playbackState;
+  const { status, currentTrack, volume, volumeState } = playbackState;
   const isOffline = !connectionState.isOnline;
   const isDisabled = isOffline || status === 'error';
+  const maxVolume = volumeState?.maxVolume ?? 100;
+  const muted = volumeState?.muted ?? false;
+  const level = Math.min(draftLevel ?? volumeState?.level ?? volume, maxVolume);
+
+  useEffect(() => () => {
+    if (volumeTimerRef.current !== null) {
+      window.clearTimeout(volumeTimerRef.current);
+    }
+  }, []);
 
   // Handle play/pause button click
   const handlePlayPause = async () => {
@@ -84,6 +98,45 @@ export function PlaybackControls({ apiService, className = '' }: PlaybackControl
     }
   };
 
+  // Send a volume change; the server's volume_updated broadcast keeps other screens in sync
+  const updateVolume = async (update: { level?: number; muted?: boolean }) => {
+    try {
+      const response = await apiService.setVolume(update);
+
+      if (response.success && response.data) {
+        playbackActions.setPlaybackStatus({
+          volume: response.data.effectiveVolume,
+          volumeState: response.data,
+        });
+      } else {
+        console.error('Volume change failed:', response.error);
+      }
+    } catch (error) {
+      console.error('Volume change error:', error);
+    }
+  };
+
+  // Handle volume slider movement
+  const handleVolumeChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const nextLevel = Number(event.target.value);
+    setDraftLevel(nextLevel);
+
+    if (volumeTimerRef.current !== null) {
+      window.clearTimeout(volumeTimerRef.current);
+    }
+    volumeTimerRef.current = window.setTimeout(async () => {
+      volumeTimerRef.current = null;
+      await updateVolume({ level: nextLevel });
+      setDraftLevel(null);
+    }, VOLUME_COMMIT_DELAY_MS);
+  };
+
+  // Handle mute button click
+  const handleMuteToggle = () => {
+    if (isOffline) return;
+    void updateVolume({ muted: !muted });
+  };
+
   // Determine button states and labels
   const getPlayPauseButton = () => {
     if (isLoading === 'pause' || isLoading === 'resume') {
@@ -185,6 +238,36 @@ export function PlaybackControls({ apiService, className = '' }: PlaybackControl
         </button>
       </div>
 
+      {/* Volume */}
+      <div className="volume-controls">
+        <button
+          className="volume-mute-button"
+          onClick={handleMuteToggle}
+          disabled={isOffline}
+          aria-pressed={muted}
+          aria-label={muted ? 'Unmute' : 'Mute'}
+          title={muted ? 'Unmute' : 'Mute'}
+        >
+          <span aria-hidden="true">{muted ? '🔇' : '🔊'}</span>
+        </button>
+        <input
+          type="range"
+          className="volume-slider"
+          min={0}
+          max={maxVolume}
+          step={1}
+          value={level}
+          onChange={handleVolumeChange}
+          disabled={isOffline || muted}
+          aria-label="Volume"
+          aria-valuetext={`${level}%`}
+        />
+        <span className="volume-level" aria-live="polite">
+          {muted ? 'Muted' : `${level}%`}
+          {volumeState?.ducked && ' · Announcement'}
+        </span>
+      </div>
+
       {/* Status indicator */}
       <div className="playback-status-indicator">
         <div className={`status-dot status-${status}`} aria-hidden="true" />
@@ -1,4 +1,5 @@
 import type { QueueItem } from '@party-jukebox/shared';
+import type { PrefetchStatus } from '../types';
 import { useQueue } from '../contexts/QueueContext';
 import { usePlayback } from '../contexts/PlaybackContext';
 
@@ -10,7 +11,7 @@ interface QueueDisplayProps {
 export function QueueDisplay({ maxVisible = 5, className = '' }: QueueDisplayProps) {
   const { state } = useQueue();
   const { state: playbackState } = usePlayback();
-  const { items, isLoading, error } = state;
+  const { items, prefetch, isLoading, error } = state;
 
   // Filter out the currently playing track from the queue display
   const upcomingItems = items.filter(item => {
@@ -98,7 +99,7 @@ export function QueueDisplay({ maxVisible = 5, className = '' }: QueueDisplayPro
         aria-label="Upcoming tracks"
       >
         {upcomingTracks.map((item, index) => (
-          <QueueItem key={item.id} item={item} position={index + 1} />
+          <QueueItem key={item.id} item={item} position={index + 1} prefetchStatus={prefetch[item.id]} />
         ))}
         
         {hasMoreTracks && (
@@ -118,9 +119,16 @@ export function QueueDisplay({ maxVisible = 5, className = '' }: QueueDisplayPro
 interface QueueItemProps {
   item: QueueItem;
   position: number;
+  prefetchStatus?: PrefetchStatus;
 }
 
-function QueueItem({ item, position }: QueueItemProps) {
+const PREFETCH_LABELS: Record<PrefetchStatus, string> = {
+  resolving: 'Loading',
+  ready: 'Ready',
+  failed: 'Unavailable',
+};
+
+function QueueItem({ item, position, prefetchStatus }: QueueItemProps) {
   const { track, addedBy } = item;
   const durationText = track.duration ? formatDuration(track.duration) : '';
 
@@ -152,6 +160,15 @@ function QueueItem({ item, position }: QueueItemProps) {
         </div>
       </div>
       
+      {prefetchStatus && (
+        <div 
+          className={`queue-prefetch-status prefetch-${prefetchStatus}`}
+          aria-label={`Stream: ${PREFETCH_LABELS[prefetchStatus]}`}
+        >
+          {PREFETCH_LABELS[prefetchStatus]}
+        </div>
+      )}
+      
       {track.duration && (
         <div 
           className="queue-track-duration"
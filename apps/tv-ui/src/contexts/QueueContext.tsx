@@ -1,9 +1,11 @@
 import { createContext, useContext, useReducer, ReactNode } from 'react';
 import { QueueItem } from '@party-jukebox/shared';
+import { PrefetchStatus } from '../types';
 
 // Queue state interface for TV UI
 interface TVQueueState {
   items: QueueItem[];
+  prefetch: Record<string, PrefetchStatus>; // queue item id -> prefetch status
   isEmpty: boolean;
   totalItems: number;
   isLoading: boolean;
@@ -17,6 +19,7 @@ type QueueAction =
   | { type: 'REMOVE_QUEUE_ITEM'; payload: string } // item ID
   | { type: 'UPDATE_QUEUE_ITEM'; payload: { id: string; updates: Partial<QueueItem> } }
   | { type: 'CLEAR_QUEUE' }
+  | { type: 'SET_PREFETCH_STATUSES'; payload: Record<string, PrefetchStatus> }
   | { type: 'SET_LOADING'; payload: boolean }
   | { type: 'SET_ERROR'; payload: string }
   | { type: 'CLEAR_ERROR' }
@@ -25,6 +28,7 @@ type QueueAction =
 // Initial state
 const initialQueueState: TVQueueState = {
   items: [],
+  prefetch: {},
   isEmpty: true,
   totalItems: 0,
   isLoading: false,
@@ -82,6 +86,12 @@ function queueReducer(state: TVQueueState, action: QueueAction): TVQueueState {
         error: undefined,
       };
     
+    case 'SET_PREFETCH_STATUSES':
+      return {
+        ...state,
+        prefetch: action.payload,
+      };
+    
     case 'SET_LOADING':
       return {
         ...state,
@@ -118,6 +128,7 @@ interface QueueContextType {
     removeQueueItem: (itemId: string) => void;
     updateQueueItem: (itemId: string, updates: Partial<QueueItem>) => void;
     clearQueue: () => void;
+    setPrefetchStatuses: (statuses: Record<string, PrefetchStatus>) => void;
     setLoading: (loading: boolean) => void;
     setError: (error: string) => void;
     clearError: () => void;
@@ -160,6 +171,10 @@ export function QueueProvider({ children }: QueueProviderProps) {
       dispatch({ type: 'CLEAR_QUEUE' });
     },
     
+    setPrefetchStatuses: (statuses: Record<string, PrefetchStatus>) => {
+      dispatch({ type: 'SET_PREFETCH_STATUSES', payload: statuses });
+    },
+    
     setLoading: (loading: boolean) => {
       dispatch({ type: 'SET_LOADING', payload: loading });
     },
@@ -9,6 +9,7 @@
  */
 
 import { QueueState, QueueItem } from '@party-jukebox/shared';
+import { VolumeState } from '../types';
 
 /**
  * API response types matching server API
@@ -53,6 +54,18 @@ export interface PlaybackActionResponse {
   timestamp: string;
 }
 
+export interface VolumeResponse {
+  success: boolean;
+  data?: VolumeState;
+  error?: {
+    code: string;
+    message: string;
+    details?: any;
+    timestamp?: string;
+  };
+  timestamp: string;
+}
+
 export interface QueueStateResponse {
   success: boolean;
   data?: {
@@ -94,6 +107,7 @@ interface RetryConfig {
 export class APIService {
   private config: Required<APIServiceConfig>;
   private retryConfig: RetryConfig;
+  private hostToken: string | null = null;
 
   constructor(config: APIServiceConfig) {
     this.config = {
@@ -112,6 +126,13 @@ export class APIService {
     };
   }
 
+  /**
+   * Set the host token sent with playback control requests
+   */
+  setHostToken(token: string | null): void {
+    this.hostToken = token;
+  }
+
   /**
    * Get current playback status from server
    * Requirements: 2.2, 6.3
@@ -152,6 +173,25 @@ export class APIService {
     });
   }
 
+  /**
+   * Get volume level, mute, cap and duck state
+   */
+  async getVolume(): Promise<VolumeResponse> {
+    return this.makeRequest<VolumeResponse>('/api/playback/volume', {
+      method: 'GET',
+    });
+  }
+
+  /**
+   * Set the volume level or mute state
+   */
+  async setVolume(update: { level?: number; muted?: boolean }): Promise<VolumeResponse> {
+    return this.makeRequest<VolumeResponse>('/api/playback/volume', {
+      method: 'POST',
+      body: JSON.stringify(update),
+    });
+  }
+
   /**
    * Get current queue state from server
    * Requirements: 2.4, 6.3
@@ -188,6 +228,11 @@ export class APIService {
         headers['Content-Type'] = 'application/json';
       }
 
+      // Playback controls are host-only on the server
+      if (this.hostToken) {
+        headers['X-Host-Token'] = this.hostToken;
+      }
+
       const response = await fetch(url, {
         ...options,
         signal: controller.signal,
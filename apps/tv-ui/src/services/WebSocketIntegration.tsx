@@ -16,6 +16,10 @@ import {
   TrackAddedEvent,
   TrackFinishedEvent,
   InitialStateEvent,
+  HostPinEvent,
+  SkipVotesUpdatedEvent,
+  VolumeUpdatedEvent,
+  PrefetchUpdatedEvent,
   EventHandler
 } from './WebSocketService';
 import { useConnection } from '../contexts/ConnectionContext';
@@ -52,6 +56,7 @@ export function useWebSocketIntegration(wsService: WebSocketService | null) {
         const { upcomingTracks } = event.data.queue;
         queueActions.setQueueItems([...(upcomingTracks || [])]);
       }
+      queueActions.setPrefetchStatuses(event.data.prefetch ?? {});
       
       // Update playback state
       if (event.data.playback) {
@@ -62,6 +67,8 @@ export function useWebSocketIntegration(wsService: WebSocketService | null) {
           duration: event.data.playback.duration,
           volume: event.data.playback.volume,
           error: event.data.playback.error,
+          skipVotes: event.data.skipVotes,
+          volumeState: event.data.volume,
         });
       }
       
@@ -232,6 +239,38 @@ export function useWebSocketIntegration(wsService: WebSocketService | null) {
     connectionActions.updateLastActivity();
   }, [connectionActions]);
 
+  /**
+   * Handle vote-to-skip tally events
+   */
+  const handleSkipVotes = useCallback((event: SkipVotesUpdatedEvent) => {
+    playbackActions.setPlaybackStatus({ skipVotes: event.data });
+  }, [playbackActions]);
+
+  /**
+   * Handle volume, mute, cap and duck changes
+   */
+  const handleVolume = useCallback((event: VolumeUpdatedEvent) => {
+    playbackActions.setPlaybackStatus({
+      volume: event.data.effectiveVolume,
+      volumeState: event.data,
+    });
+  }, [playbackActions]);
+
+  /**
+   * Handle prefetch status changes for upcoming tracks
+   */
+  const handlePrefetch = useCallback((event: PrefetchUpdatedEvent) => {
+    queueActions.setPrefetchStatuses(event.data.statuses);
+  }, [queueActions]);
+
+  /**
+   * Handle host PIN events
+   * The server only sends these to the TV running on the host machine
+   */
+  const handleHostPin = useCallback((event: HostPinEvent) => {
+    connectionActions.setServerInfo({ hostPin: event.data.pin });
+  }, [connectionActions]);
+
   /**
    * Handle error events - SIMPLIFIED
    * Requirements: 6.5
@@ -272,6 +311,10 @@ export function useWebSocketIntegration(wsService: WebSocketService | null) {
       ['track_finished', handleTrackFinished as EventHandler],
       ['connection_established', handleConnectionStatus],
       ['heartbeat', handleHeartbeat],
+      ['host_pin', handleHostPin as EventHandler],
+      ['skip_votes_updated', handleSkipVotes as EventHandler],
+      ['volume_updated', handleVolume as EventHandler],
+      ['prefetch_updated', handlePrefetch as EventHandler],
       ['error_occurred', handleError],
     ]);
 
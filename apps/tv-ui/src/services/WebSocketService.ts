@@ -3,12 +3,14 @@
  * 
  * Handles WebSocket communication with the Party Jukebox server for real-time updates.
  * Provides connection management, event subscription, and automatic reconnection
- * with exponential backoff.
+ * with exponential backoff. Tracks the server's event sequence numbers so a
+ * reconnect or a missed event only replays what was missed.
  * 
- * Requirements: 5.5, 6.1, 6.2
+ * Requirements: 5.5, 6.1, 6.2, 30.1, 30.2
  */
 
-import { QueueState, QueueItem } from '@party-jukebox/shared';
+import { QueueState, QueueItem, QueueOrderingMode } from '@party-jukebox/shared';
+import { PrefetchStatus, SkipVoteTally, VolumeState } from '../types';
 
 /**
  * WebSocket event types matching server implementation
@@ -21,7 +23,27 @@ export type WebSocketEventType =
   | 'track_finished'
   | 'error_occurred'
   | 'initial_state'
-  | 'heartbeat';
+  | 'heartbeat'
+  | 'host_pin'
+  | 'skip_votes_updated'
+  | 'volume_updated'
+  | 'prefetch_updated'
+  | 'resync_required';
+
+/**
+ * Events that change state; the server numbers these without gaps.
+ * Other events carry the number of the last one
+ */
+const SEQUENCED_EVENT_TYPES: ReadonlySet<string> = new Set([
+  'queue_updated',
+  'playback_updated',
+  'track_added',
+  'track_finished',
+  'skip_votes_updated',
+  'volume_updated',
+  'prefetch_updated',
+  'playlist_import_progress',
+]);
 
 /**
  * WebSocket event data structures
@@ -40,6 +62,8 @@ export interface QueueUpdateEvent extends WebSocketEvent {
     upcomingTracks: QueueItem[];
     totalLength: number;
     isEmpty: boolean;
+    orderingMode: QueueOrderingMode;
+    scores: Record<string, number>;
   };
 }
 
@@ -87,10 +111,48 @@ export interface InitialStateEvent extends WebSocketEvent {
       volume: number;
       error?: string;
     };
+    skipVotes?: SkipVoteTally;
+    volume?: VolumeState;
+    prefetch?: Record<string, PrefetchStatus>;
+    streamId?: string;
     serverTime: string;
   };
 }
 
+export interface HostPinEvent extends WebSocketEvent {
+  type: 'host_pin';
+  data: {
+    pin: string;
+    token: string;
+  };
+}
+
+export interface SkipVotesUpdatedEvent extends WebSocketEvent {
+  type: 'skip_votes_updated';
+  data: SkipVoteTally;
+}
+
+export interface VolumeUpdatedEvent extends WebSocketEvent {
+  type: 'volume_updated';
+  data: VolumeState;
+}
+
+export interface PrefetchUpdatedEvent extends WebSocketEvent {
+  type: 'prefetch_updated';
+  data: {
+    statuses: Record<string, PrefetchStatus>; // queue item id -> status
+  };
+}
+
+export interface ResyncRequiredEvent extends WebSocketEvent {
+  type: 'resync_required';
+  data: {
+    lastSequenceNumber: number;
+    currentSequenceNumber: number;
+    reason: 'events_expired' | 'server_restarted';
+  };
+}
+
 /**
  * Connection status enumeration
  */
@@ -146,6 +208,9 @@ export class WebSocketService {
   private lastHeartbeat: Date | null = null;
   private circuitBreakerTripped: boolean = false;
   private lastConnectionAttempt: Date | null = null;
+  private lastSequenceNumber: number | null = null; // Last state change applied, once the initial state arrived
+  private streamId: string | null = null;
+  private resumeRequested: boolean = false;
 
   constructor(config: WebSocketServiceConfig) {
     this.config = {
@@ -205,6 +270,15 @@ export class WebSocketService {
       // Add client type as query parameter
       const url = new URL(this.config.url);
       url.searchParams.set('clientType', this.config.clientType);
+
+      // After a reconnect the server only needs to send what was missed
+      if (this.lastSequenceNumber !== null) {
+        url.searchParams.set('lastSequenceNumber', String(this.lastSequenceNumber));
+        if (this.streamId) {
+          url.searchParams.set('streamId', this.streamId);
+        }
+      }
+      this.resumeRequested = false;
       
       this.socket = new WebSocket(url.toString());
       
@@ -361,6 +435,11 @@ export class WebSocketService {
       'error_occurred',
       'initial_state',
       'heartbeat',
+      'host_pin',
+      'skip_votes_updated',
+      'volume_updated',
+      'prefetch_updated',
+      'resync_required',
     ];
 
     eventTypes.forEach(eventType => {
@@ -417,6 +496,10 @@ export class WebSocketService {
         this.lastHeartbeat = new Date();
       }
 
+      if (!this.trackSequence(wsEvent)) {
+        return;
+      }
+
       // Emit event to subscribers
       this.emitEvent(wsEvent);
 
@@ -425,6 +508,76 @@ export class WebSocketService {
     }
   }
 
+  /**
+   * Follow the server's event sequence and decide whether to apply an event
+   * State changes that arrive out of order are dropped and the missed ones
+   * requested; they come back in order, followed by the dropped one
+   * Requirements: 30.1, 30.2
+   */
+  private trackSequence(event: WebSocketEvent): boolean {
+    if (event.type === 'initial_state') {
+      this.lastSequenceNumber = event.sequenceNumber;
+      this.streamId = (event as InitialStateEvent).data.streamId ?? null;
+      this.resumeRequested = false;
+      return true;
+    }
+
+    if (event.type === 'resync_required') {
+      // The initial state that follows replaces everything
+      this.lastSequenceNumber = null;
+      this.resumeRequested = false;
+      return true;
+    }
+
+    if (this.lastSequenceNumber === null) {
+      return true;
+    }
+
+    if (!SEQUENCED_EVENT_TYPES.has(event.type)) {
+      // Heartbeats carry the latest number, so they reveal trailing gaps too
+      if (event.type === 'heartbeat' && event.sequenceNumber > this.lastSequenceNumber && !this.resumeRequested) {
+        this.requestResume();
+      }
+      return true;
+    }
+
+    if (event.sequenceNumber <= this.lastSequenceNumber) {
+      return false; // Already applied
+    }
+
+    if (event.sequenceNumber > this.lastSequenceNumber + 1) {
+      console.warn(`Missed events ${this.lastSequenceNumber + 1}-${event.sequenceNumber - 1}, requesting them`);
+      if (!this.resumeRequested) {
+        this.requestResume();
+      }
+      return false;
+    }
+
+    this.lastSequenceNumber = event.sequenceNumber;
+    this.resumeRequested = false;
+    return true;
+  }
+
+  /**
+   * Ask the server for the events after the last one applied
+   * Requirements: 30.1
+   */
+  private requestResume(): void {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN || this.lastSequenceNumber === null) {
+      return;
+    }
+
+    this.resumeRequested = true;
+    this.socket.send(JSON.stringify({
+      type: 'resume',
+      timestamp: new Date().toISOString(),
+      payload: {
+        lastSequenceNumber: this.lastSequenceNumber,
+        ...(this.streamId && { streamId: this.streamId }),
+      },
+    }));
+  }
+
   /**
    * Handle WebSocket close event
    * Requirements: 6.1, 6.2
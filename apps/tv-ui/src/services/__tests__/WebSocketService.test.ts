@@ -6,6 +6,46 @@
 
 import { WebSocketService } from '../WebSocketService';
 
+class FakeWebSocket {
+  static readonly OPEN = 1;
+  static instances: FakeWebSocket[] = [];
+  readyState = 0;
+  sent: any[] = [];
+  private listeners = new Map<string, Array<(event: any) => void>>();
+
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  addEventListener(type: string, listener: (event: any) => void): void {
+    this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener]);
+  }
+
+  send(text: string): void {
+    this.sent.push(JSON.parse(text));
+  }
+
+  close = jest.fn();
+
+  open(): void {
+    this.readyState = FakeWebSocket.OPEN;
+    this.emit('open');
+  }
+
+  receive(type: string, sequenceNumber: number, data: any = {}): void {
+    this.emit('message', { data: JSON.stringify({ type, timestamp: new Date().toISOString(), sequenceNumber, data }) });
+  }
+
+  drop(): void {
+    this.readyState = 3;
+    this.emit('close', { code: 1006, reason: '' });
+  }
+
+  private emit(type: string, event: any = {}): void {
+    this.listeners.get(type)?.forEach(listener => listener(event));
+  }
+}
+
 describe('WebSocketService', () => {
   let webSocketService: WebSocketService;
 
@@ -74,4 +114,93 @@ describe('WebSocketService', () => {
       expect(config.url).toBe('ws://localhost:3000/ws'); // Should remain unchanged
     });
   });
-});
\ No newline at end of file
+
+  describe('event replay', () => {
+    const originalWebSocket = global.WebSocket;
+    let queueHandler: jest.Mock;
+
+    const connect = () => {
+      webSocketService.connect().catch(() => {});
+      const socket = FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+      socket.open();
+      return socket;
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      FakeWebSocket.instances = [];
+      (global as any).WebSocket = FakeWebSocket;
+      queueHandler = jest.fn();
+      webSocketService.subscribe('queue_updated', queueHandler);
+    });
+
+    afterEach(() => {
+      webSocketService.disconnect();
+      jest.useRealTimers();
+      jest.restoreAllMocks();
+      global.WebSocket = originalWebSocket;
+    });
+
+    it('should resume from the last event after reconnecting', () => {
+      const socket = connect();
+      socket.receive('initial_state', 4, { streamId: 'run-1', queue: {}, playback: {} });
+      socket.receive('queue_updated', 5);
+
+      socket.drop();
+      jest.advanceTimersByTime(1000);
+
+      const url = new URL(FakeWebSocket.instances[1].url);
+      expect(url.searchParams.get('lastSequenceNumber')).toBe('5');
+      expect(url.searchParams.get('streamId')).toBe('run-1');
+    });
+
+    it('should request missed events on a gap and apply them in order', () => {
+      const socket = connect();
+      socket.receive('initial_state', 4, { streamId: 'run-1' });
+
+      socket.receive('queue_updated', 7);
+      expect(queueHandler).not.toHaveBeenCalled();
+      expect(socket.sent).toEqual([
+        expect.objectContaining({ type: 'resume', payload: { lastSequenceNumber: 4, streamId: 'run-1' } }),
+      ]);
+
+      // The replay, then a duplicate of something already applied
+      [5, 6, 7, 6].forEach(sequenceNumber => socket.receive('queue_updated', sequenceNumber));
+      expect(queueHandler.mock.calls.map(([event]) => event.sequenceNumber)).toEqual([5, 6, 7]);
+      expect(socket.sent).toHaveLength(1);
+    });
+
+    it('should ask only once while missed events are on their way', () => {
+      const socket = connect();
+      socket.receive('initial_state', 4);
+
+      socket.receive('queue_updated', 7);
+      socket.receive('heartbeat', 7);
+      socket.receive('heartbeat', 8);
+      expect(socket.sent.filter(message => message.type === 'resume')).toHaveLength(1);
+
+      [5, 6, 7].forEach(sequenceNumber => socket.receive('queue_updated', sequenceNumber));
+      socket.receive('heartbeat', 8);
+      expect(socket.sent.filter(message => message.type === 'resume')).toHaveLength(2);
+    });
+
+    it('should notice missed events from the heartbeat and start over after a resync', () => {
+      const initialStateHandler = jest.fn();
+      webSocketService.subscribe('initial_state', initialStateHandler);
+      const socket = connect();
+      socket.receive('initial_state', 2);
+
+      socket.receive('heartbeat', 3);
+      expect(socket.sent[0]).toMatchObject({ type: 'resume', payload: { lastSequenceNumber: 2 } });
+
+      socket.receive('resync_required', 40, { lastSequenceNumber: 2, currentSequenceNumber: 40, reason: 'events_expired' });
+      socket.receive('initial_state', 40);
+      socket.receive('queue_updated', 41);
+
+      expect(initialStateHandler).toHaveBeenCalledTimes(2);
+      expect(queueHandler).toHaveBeenCalledTimes(1);
+    });
+  });
+});
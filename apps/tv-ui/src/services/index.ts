@@ -22,6 +22,7 @@ export type {
   TrackAddedEvent,
   TrackFinishedEvent,
   InitialStateEvent,
+  ResyncRequiredEvent,
   ConnectionStatus,
   EventHandler
 } from './WebSocketService';
@@ -8,6 +8,27 @@ export interface PlaybackStatus {
   duration: number;
   volume: number;
   error?: string;
+  skipVotes?: SkipVoteTally;
+  volumeState?: VolumeState;
+}
+
+export interface VolumeState {
+  level: number;
+  muted: boolean;
+  maxVolume: number;
+  ducked: boolean;
+  effectiveVolume: number;
+}
+
+// Whether an upcoming track's stream has been resolved ahead of time
+export type PrefetchStatus = 'resolving' | 'ready' | 'failed';
+
+export interface SkipVoteTally {
+  queueItemId: string | null;
+  votes: number;
+  required: number;
+  eligibleVoters: number;
+  threshold: number;
 }
 
 export interface ConnectionStatus {
@@ -22,4 +43,5 @@ export interface ServerInfo {
   wsUrl: string;
   addresses: string[];
   version?: string;
+  hostPin?: string;
 }
\ No newline at end of file
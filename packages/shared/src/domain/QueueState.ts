@@ -1,14 +1,36 @@
 import { QueueItem } from './QueueItem';
 
+/**
+ * How upcoming tracks are ordered
+ * - fifo: in the order they were added
+ * - vote: by guest vote score, ties broken by the order they were added
+ * - fair: round-robin across the guests who added them
+ * Requirements: 12.1, 12.4, 13.2
+ */
+export type QueueOrderingMode = 'fifo' | 'vote' | 'fair';
+
+/**
+ * All ordering modes, for validating input
+ */
+export const QUEUE_ORDERING_MODES: readonly QueueOrderingMode[] = ['fifo', 'vote', 'fair'];
+
+/**
+ * A guest's vote on an upcoming track
+ * Requirements: 12.2
+ */
+export type QueueVoteDirection = 'up' | 'down';
+
 /**
  * Queue state representation for external consumers
- * Requirements: 5.1, 5.2, 5.3
+ * Requirements: 5.1, 5.2, 5.3, 12.3
  */
 export interface QueueState {
   readonly currentTrack: QueueItem | null;
   readonly upcomingTracks: readonly QueueItem[];
   readonly totalLength: number;
   readonly isEmpty: boolean;
+  readonly orderingMode: QueueOrderingMode;
+  readonly scores: Readonly<Record<string, number>>; // upcoming queue item id -> net vote score
 }
 
 /**
@@ -23,6 +45,7 @@ export interface UserRateData {
 export interface RequestRecord {
   readonly timestamp: Date;
   readonly trackId: string;
+  readonly duration?: number; // Seconds of music, for minute budgets
 }
 
 /**
@@ -32,6 +55,10 @@ export type QueueEvent =
   | { type: 'TRACK_ADDED'; payload: { queueItem: QueueItem } }
   | { type: 'QUEUE_ADVANCED'; payload: { previousTrack: QueueItem | null; currentTrack: QueueItem | null } }
   | { type: 'QUEUE_CLEARED'; payload: {} }
+  | { type: 'TRACK_REMOVED'; payload: { queueItem: QueueItem } }
+  | { type: 'TRACK_MOVED'; payload: { queueItem: QueueItem; fromIndex: number; toIndex: number } }
+  | { type: 'TRACK_VOTED'; payload: { queueItem: QueueItem; userId: string; direction: QueueVoteDirection; score: number } }
+  | { type: 'ORDERING_MODE_CHANGED'; payload: { orderingMode: QueueOrderingMode } }
   | { type: 'RATE_LIMIT_EXCEEDED'; payload: { userId: string; timeRemaining: number } };
 
 /**
@@ -40,13 +67,17 @@ export type QueueEvent =
 export class QueueStateFactory {
   static create(
     currentTrack: QueueItem | null,
-    upcomingTracks: QueueItem[]
+    upcomingTracks: QueueItem[],
+    orderingMode: QueueOrderingMode = 'fifo',
+    scores: Record<string, number> = {}
   ): QueueState {
     return {
       currentTrack,
       upcomingTracks: Object.freeze([...upcomingTracks]),
       totalLength: (currentTrack ? 1 : 0) + upcomingTracks.length,
-      isEmpty: currentTrack === null && upcomingTracks.length === 0
+      isEmpty: currentTrack === null && upcomingTracks.length === 0,
+      orderingMode,
+      scores: Object.freeze({ ...scores })
     };
   }
 
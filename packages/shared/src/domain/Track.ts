@@ -1,42 +1,69 @@
+/**
+ * Where a track's audio comes from
+ * - youtube: a YouTube video, streamed through yt-dlp
+ * - local: a file in the host's music library
+ * - http: a direct audio stream or file URL
+ * - soundcloud: a SoundCloud track, streamed through yt-dlp
+ * Requirements: 19.1, 20.1
+ */
+export type TrackSource = 'youtube' | 'local' | 'http' | 'soundcloud';
+
+/**
+ * All track sources
+ * Requirements: 20.1
+ */
+export const TRACK_SOURCES: readonly TrackSource[] = ['youtube', 'local', 'http', 'soundcloud'];
+
 /**
  * Track entity representing a music item with metadata
- * Requirements: 2.1, 2.4, 4.3
+ * Requirements: 2.1, 2.4, 4.3, 20.1
  */
 export interface Track {
   readonly id: string;
   readonly title: string;
   readonly artist: string;
-  readonly videoId: string;
+  readonly source: TrackSource;
+  readonly sourceId: string; // Identifier within the source, e.g. a YouTube video ID or a library ID
   readonly duration: number; // seconds
   readonly thumbnailUrl?: string;
 }
 
 /**
  * Track creation data for validation
+ * YouTube tracks may give a videoId or YouTube URL instead of a sourceId
  */
 export interface TrackCreateData {
   title: string;
   artist: string;
-  videoId?: string;        // Preferred format
-  sourceUrl?: string;      // Alternative: full YouTube URL
+  source?: TrackSource;    // Defaults to youtube
+  sourceId?: string;       // Preferred format
+  videoId?: string;        // Alternative for YouTube: video ID
+  sourceUrl?: string;      // Alternative for YouTube: full YouTube URL
   duration: number;
   thumbnailUrl?: string;
 }
 
+/**
+ * Checks a source-specific identifier, supplied by whoever knows the source's ID format
+ * Requirements: 20.2
+ */
+export type SourceIdValidator = (source: TrackSource, sourceId: string) => boolean;
+
 /**
  * Result type for operations that can fail
  */
-export type Result<T, E> = 
+export type Result<T, E> =
   | { success: true; value: T }
   | { success: false; error: E };
 
 /**
  * Track-related error types
  */
-export type TrackError = 
+export type TrackError =
   | 'INVALID_TITLE'
   | 'INVALID_ARTIST'
-  | 'INVALID_VIDEO_ID'
+  | 'INVALID_SOURCE'
+  | 'INVALID_SOURCE_ID'
   | 'INVALID_DURATION';
 
 /**
@@ -57,6 +84,27 @@ export class VideoIdUtils {
     const match = url.match(/(?:youtube\.com\/watch\?v=|youtu\.be\/)([a-zA-Z0-9_-]+)/);
     return match ? match[1] : null;
   }
+
+  /**
+   * Extract the playlist ID from a YouTube URL's list= parameter
+   * Covers playlist pages, watch pages opened from a playlist and mixes
+   * Requirements: 23.1
+   */
+  static extractPlaylistIdFromUrl(url: string): string | null {
+    if (!/^https?:\/\/((www|m|music)\.)?(youtube\.com|youtu\.be)\//.test(url)) {
+      return null;
+    }
+    const match = url.match(/[?&]list=([a-zA-Z0-9_-]+)/);
+    return match ? match[1] : null;
+  }
+
+  /**
+   * Mixes are generated per viewer, so only yt-dlp can list them, not the Data API
+   * Requirements: 23.1
+   */
+  static isMixPlaylistId(playlistId: string): boolean {
+    return playlistId.startsWith('RD');
+  }
 }
 
 /**
@@ -71,15 +119,30 @@ export class TrackValidator {
     return typeof artist === 'string' && artist.trim().length > 0;
   }
 
-  static validateVideoId(videoId: string): boolean {
-    return typeof videoId === 'string' && VideoIdUtils.isValidVideoId(videoId);
+  static validateSource(source: unknown): source is TrackSource {
+    return TRACK_SOURCES.includes(source as TrackSource);
+  }
+
+  /**
+   * Default source ID check: YouTube IDs must look like video IDs, other
+   * sources only need a non-empty identifier. Source providers pass stricter checks.
+   * Requirements: 20.2
+   */
+  static validateSourceId(source: TrackSource, sourceId: string): boolean {
+    if (typeof sourceId !== 'string' || sourceId.trim().length === 0) {
+      return false;
+    }
+    return source !== 'youtube' || VideoIdUtils.isValidVideoId(sourceId);
   }
 
   static validateDuration(duration: number): boolean {
     return typeof duration === 'number' && duration > 0 && Number.isInteger(duration);
   }
 
-  static create(data: TrackCreateData): Result<Track, TrackError> {
+  static create(
+    data: TrackCreateData,
+    isValidSourceId: SourceIdValidator = (source, sourceId) => this.validateSourceId(source, sourceId)
+  ): Result<Track, TrackError> {
     if (!this.validateTitle(data.title)) {
       return { success: false, error: 'INVALID_TITLE' };
     }
@@ -88,19 +151,20 @@ export class TrackValidator {
       return { success: false, error: 'INVALID_ARTIST' };
     }
 
-    // Handle both video ID and URL inputs for API flexibility
-    let videoId: string | undefined = data.videoId;
-    
-    if (!videoId && data.sourceUrl) {
-      const extractedId = VideoIdUtils.extractVideoIdFromUrl(data.sourceUrl);
-      if (!extractedId) {
-        return { success: false, error: 'INVALID_VIDEO_ID' };
-      }
-      videoId = extractedId;
+    const source = data.source ?? 'youtube';
+    if (!this.validateSource(source)) {
+      return { success: false, error: 'INVALID_SOURCE' };
     }
 
-    if (!videoId || !this.validateVideoId(videoId)) {
-      return { success: false, error: 'INVALID_VIDEO_ID' };
+    // YouTube tracks also accept a video ID or URL for API flexibility
+    let sourceId: string | undefined = data.sourceId;
+
+    if (!sourceId && source === 'youtube') {
+      sourceId = data.videoId ?? (data.sourceUrl ? VideoIdUtils.extractVideoIdFromUrl(data.sourceUrl) ?? undefined : undefined);
+    }
+
+    if (!sourceId || !isValidSourceId(source, sourceId)) {
+      return { success: false, error: 'INVALID_SOURCE_ID' };
     }
 
     if (!this.validateDuration(data.duration)) {
@@ -111,7 +175,8 @@ export class TrackValidator {
       id: crypto.randomUUID(),
       title: data.title.trim(),
       artist: data.artist.trim(),
-      videoId: videoId,
+      source,
+      sourceId,
       duration: data.duration,
       ...(data.thumbnailUrl && { thumbnailUrl: data.thumbnailUrl })
     };
@@ -122,15 +187,22 @@ export class TrackValidator {
 
 /**
  * Search result interface for creating tracks from search results
+ * Requirements: 1.2, 20.3
  */
 export interface SearchResult {
-  videoId: string;
+  source: TrackSource;
+  sourceId: string;
   title: string;
   artist: string;
   duration: number;
   thumbnailUrl: string;
   channelTitle: string;
   publishedAt: string;
+  // Facts for the content policy, when the source reports them (missing means unknown)
+  channelId?: string;
+  isLive?: boolean; // A live stream or upcoming premiere rather than a recording
+  isAgeRestricted?: boolean;
+  isMusic?: boolean; // Whether the source files it under music
 }
 
 /**
@@ -141,16 +213,25 @@ export class TrackFactory {
     return {
       title: searchResult.title,
       artist: searchResult.artist,
-      videoId: searchResult.videoId,
+      source: searchResult.source,
+      sourceId: searchResult.sourceId,
       duration: searchResult.duration,
       thumbnailUrl: searchResult.thumbnailUrl
     };
   }
 
   static fromUserInput(input: TrackCreateData): TrackCreateData {
+    if (input.sourceId) {
+      return { ...input };
+    }
+
+    if ((input.source ?? 'youtube') !== 'youtube') {
+      throw new Error('Source ID is required');
+    }
+
     // Handle both video ID and URL inputs for API flexibility
     let videoId: string | undefined = input.videoId;
-    
+
     if (!videoId && input.sourceUrl) {
       const extractedId = VideoIdUtils.extractVideoIdFromUrl(input.sourceUrl);
       if (!extractedId) {
@@ -165,7 +246,8 @@ export class TrackFactory {
 
     return {
       ...input,
-      videoId: videoId
+      source: 'youtube',
+      sourceId: videoId
     };
   }
-}
\ No newline at end of file
+}
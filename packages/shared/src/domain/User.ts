@@ -1,20 +1,34 @@
 import { Result } from './Track';
 
+/**
+ * Role a user holds for the party session
+ * Requirements: 10.1
+ */
+export type UserRole = 'guest' | 'host';
+
 /**
  * User value object representing a party guest
- * Requirements: 6.3
+ * Requirements: 6.3, 10.1
  */
 export interface User {
   readonly id: string;
   readonly nickname: string;
+  readonly role?: UserRole;
 }
 
+/**
+ * Synthetic user that radio/autoplay tracks are attributed to
+ * Requirements: 14.4
+ */
+export const JUKEBOX_USER: User = Object.freeze({ id: 'jukebox', nickname: 'Jukebox' });
+
 /**
  * User creation data for validation
  */
 export interface UserCreateData {
   id: string;
   nickname: string;
+  role?: UserRole;
 }
 
 /**
@@ -47,7 +61,8 @@ export class UserValidator {
 
     const user: User = {
       id: data.id.trim(),
-      nickname: data.nickname.trim()
+      nickname: data.nickname.trim(),
+      ...(data.role && { role: data.role })
     };
 
     return { success: true, value: user };
@@ -16,7 +16,12 @@ export type QueueError =
   | 'INVALID_TRACK'
   | 'INVALID_USER'
   | 'QUEUE_EMPTY'
-  | 'DUPLICATE_TRACK';
+  | 'DUPLICATE_TRACK'
+  | 'TRACK_NOT_FOUND'
+  | 'INVALID_POSITION'
+  | 'VOTING_DISABLED'
+  | 'ALREADY_VOTED'
+  | 'REORDER_DISABLED';
 
 /**
  * Rate limiting error types
@@ -25,10 +30,23 @@ export type RateLimitError =
   | 'RATE_LIMIT_EXCEEDED'
   | 'INVALID_USER';
 
+/**
+ * Permission error types for privileged queue operations
+ */
+export type PermissionError = 
+  | 'INSUFFICIENT_PERMISSIONS';
+
+/**
+ * Request policy error types for tracks the room shouldn't hear again yet
+ */
+export type RequestPolicyError =
+  | 'DUPLICATE_REQUEST'
+  | 'CONTENT_POLICY_VIOLATION';
+
 /**
  * Service-level error types combining all error categories
  */
-export type ServiceError = QueueError | RateLimitError;
+export type ServiceError = QueueError | RateLimitError | PermissionError | RequestPolicyError;
 
 /**
  * Error details with context information
@@ -48,7 +66,8 @@ export class ErrorFactory {
     const messages: Record<TrackError, string> = {
       INVALID_TITLE: 'Track title must be a non-empty string',
       INVALID_ARTIST: 'Track artist must be a non-empty string',
-      INVALID_VIDEO_ID: 'Video ID must be a valid YouTube video ID (11 characters)',
+      INVALID_SOURCE: 'Track source must be one of youtube, local, http or soundcloud',
+      INVALID_SOURCE_ID: 'Source ID is not valid for the track source (YouTube tracks need an 11 character video ID)',
       INVALID_DURATION: 'Duration must be a positive integer (seconds)'
     };
 
@@ -79,7 +98,12 @@ export class ErrorFactory {
       INVALID_TRACK: 'Invalid track provided to queue operation',
       INVALID_USER: 'Invalid user provided to queue operation',
       QUEUE_EMPTY: 'Cannot perform operation on empty queue',
-      DUPLICATE_TRACK: 'Track is already in the queue'
+      DUPLICATE_TRACK: 'Track is already in the queue',
+      TRACK_NOT_FOUND: 'Track is not in the upcoming queue',
+      INVALID_POSITION: 'Queue position is out of range',
+      VOTING_DISABLED: 'Voting is only available when the queue is in vote ordering mode',
+      ALREADY_VOTED: 'You have already cast this vote on the track',
+      REORDER_DISABLED: 'Tracks can only be moved when the queue is in FIFO ordering mode'
     };
 
     return {
@@ -90,6 +114,35 @@ export class ErrorFactory {
     };
   }
 
+  static createPermissionError(error: PermissionError, context?: Record<string, unknown> | undefined): ErrorDetails {
+    const messages: Record<PermissionError, string> = {
+      INSUFFICIENT_PERMISSIONS: 'You do not have permission to perform this queue operation'
+    };
+
+    return {
+      code: error,
+      message: messages[error],
+      context: context || undefined,
+      suggestion: 'Only the host can change tracks added by other guests'
+    };
+  }
+
+  static createRequestPolicyError(error: RequestPolicyError, context?: Record<string, unknown> | undefined): ErrorDetails {
+    const messages: Record<RequestPolicyError, string> = {
+      DUPLICATE_REQUEST: 'This song is already queued, playing or was played recently',
+      CONTENT_POLICY_VIOLATION: 'This track is not allowed by the party\'s content rules'
+    };
+
+    return {
+      code: error,
+      message: messages[error],
+      context: context || undefined,
+      suggestion: error === 'DUPLICATE_REQUEST'
+        ? 'Pick a different song, or request this one again later'
+        : 'Pick a different track'
+    };
+  }
+
   static createRateLimitError(error: RateLimitError, timeRemaining?: number | undefined): ErrorDetails {
     const messages: Record<RateLimitError, string> = {
       RATE_LIMIT_EXCEEDED: `Rate limit exceeded. ${timeRemaining ? `Try again in ${Math.ceil(timeRemaining / 1000)} seconds.` : 'Please wait before adding more tracks.'}`,
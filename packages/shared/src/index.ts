@@ -7,23 +7,25 @@
  */
 
 // Domain entities and value objects
-export type { Track, TrackCreateData, TrackError, SearchResult } from './domain/Track';
-export { TrackValidator, VideoIdUtils, TrackFactory } from './domain/Track';
+export type { Track, TrackSource, TrackCreateData, TrackError, SourceIdValidator, SearchResult } from './domain/Track';
+export { TrackValidator, VideoIdUtils, TrackFactory, TRACK_SOURCES } from './domain/Track';
 
-export type { User, UserCreateData, UserError } from './domain/User';
-export { UserValidator } from './domain/User';
+export type { User, UserRole, UserCreateData, UserError } from './domain/User';
+export { UserValidator, JUKEBOX_USER } from './domain/User';
 
 export type { QueueItem, QueueItemCreateData, QueueItemError } from './domain/QueueItem';
 export { QueueItemValidator } from './domain/QueueItem';
 
 // Queue state and events
-export type { QueueState, UserRateData, RequestRecord, QueueEvent } from './domain/QueueState';
-export { QueueStateFactory } from './domain/QueueState';
+export type { QueueState, QueueOrderingMode, QueueVoteDirection, UserRateData, RequestRecord, QueueEvent } from './domain/QueueState';
+export { QueueStateFactory, QUEUE_ORDERING_MODES } from './domain/QueueState';
 
 // Error types and utilities
 export type { 
   QueueError, 
   RateLimitError, 
+  PermissionError,
+  RequestPolicyError,
   ServiceError, 
   ErrorDetails 
 } from './domain/errors';